@@ -4,8 +4,17 @@
  * payloads (metrics and health) that power the admin dashboard.
  */
 import { axiosInstance } from '@client/lib/axios';
+import type { PermissionInfo, Role, RoleInput } from '@client/types/roles';
+import type { Session } from '@client/types/session';
 
-export type AdminUser = { id: string; email: string; role: 'user' | 'admin' };
+export type AdminUser = {
+  id: string;
+  email: string;
+  /** ID of a built-in or custom role */
+  role: string;
+  /** Set while the account is locked after failed logins (epoch ms) */
+  lockedUntil?: number;
+};
 
 export async function listUsers(): Promise<AdminUser[]> {
   const res = await axiosInstance.get('/admin/users');
@@ -16,14 +25,50 @@ export async function deleteUser(id: string): Promise<void> {
   await axiosInstance.delete(`/admin/users/${id}`);
 }
 
-export async function promoteUser(id: string): Promise<AdminUser> {
-  const res = await axiosInstance.post(`/admin/users/${id}/promote`);
+export async function setUserRole(id: string, role: string): Promise<AdminUser> {
+  const res = await axiosInstance.put(`/admin/users/${id}/role`, { role });
   return res.data.data as AdminUser;
 }
 
-export async function demoteUser(id: string): Promise<AdminUser> {
-  const res = await axiosInstance.post(`/admin/users/${id}/demote`);
-  return res.data.data as AdminUser;
+export async function listRoles(): Promise<Role[]> {
+  const res = await axiosInstance.get('/admin/roles');
+  return res.data.data as Role[];
+}
+
+export async function listPermissions(): Promise<PermissionInfo[]> {
+  const res = await axiosInstance.get('/admin/permissions');
+  return res.data.data as PermissionInfo[];
+}
+
+export async function createRole(input: RoleInput): Promise<Role> {
+  const res = await axiosInstance.post('/admin/roles', input);
+  return res.data.data as Role;
+}
+
+export async function updateRole(id: string, input: RoleInput): Promise<Role> {
+  const res = await axiosInstance.put(`/admin/roles/${id}`, input);
+  return res.data.data as Role;
+}
+
+export async function deleteRole(id: string): Promise<void> {
+  await axiosInstance.delete(`/admin/roles/${id}`);
+}
+
+export async function listUserSessions(id: string): Promise<Session[]> {
+  const res = await axiosInstance.get(`/admin/users/${id}/sessions`);
+  return res.data.data as Session[];
+}
+
+export async function revokeUserSession(id: string, sessionId: string): Promise<void> {
+  await axiosInstance.delete(`/admin/users/${id}/sessions/${sessionId}`);
+}
+
+export async function unlockUser(id: string): Promise<void> {
+  await axiosInstance.post(`/admin/users/${id}/unlock`);
+}
+
+export async function resetUserTwoFactor(id: string): Promise<void> {
+  await axiosInstance.delete(`/admin/users/${id}/2fa`);
 }
 
 export interface SystemMetrics {
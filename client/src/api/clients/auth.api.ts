@@ -1,21 +1,45 @@
 /**
- * Public authentication API client responsible for login and registration
- * flows. Wraps axiosInstance to keep request typing and response parsing
+ * Public authentication API client responsible for login, registration,
+ * email verification and password reset flows, and for the signed-in user's
+ * account and sessions. Wraps axiosInstance to keep request typing and response parsing
  * consistent within the frontend.
  */
 import { axiosInstance } from '@client/lib/axios';
+import type { Session } from '@client/types/session';
+import type { TwoFactorSetup, TwoFactorStatus } from '@client/types/twoFactor';
 export type LoginRequest = { email: string; password: string };
-// Server returns { data: { token, user } } for /auth/login
+export type Account = { id: string; email: string; role: 'user' | 'admin'; emailVerified: boolean };
+// Server returns { data: { token, refreshToken, user } } for /auth/login
 export type LoginResponse = {
-  data: { token: string; user: { id: string; role: 'user' | 'admin' } };
+  data: { token: string; refreshToken: string; user: Account };
+};
+// ...or { data: { twoFactorRequired, challengeToken } } when the user has 2FA on
+export type TwoFactorChallengeResponse = {
+  data: { twoFactorRequired: true; challengeToken: string };
 };
 /**
  * Authenticates a user with the provided email and password.
  * @param data - The login credentials.
- * @returns The login response body containing { data: { token, user } }.
+ * @returns The login response body containing { data: { token, refreshToken, user } }, or a
+ * challenge to finish with `loginTwoFactor` when the user has two-factor authentication on.
  */
-export async function login(data: LoginRequest): Promise<LoginResponse> {
-  const res = await axiosInstance.post<LoginResponse>('/auth/login', data);
+export async function login(
+  data: LoginRequest
+): Promise<LoginResponse | TwoFactorChallengeResponse> {
+  const res = await axiosInstance.post<LoginResponse | TwoFactorChallengeResponse>(
+    '/auth/login',
+    data
+  );
+  return res.data;
+}
+
+/**
+ * Second login step: a code from the authenticator app, or a recovery code.
+ * @param challengeToken - Token from the login response.
+ * @returns The same body a plain login returns.
+ */
+export async function loginTwoFactor(challengeToken: string, code: string): Promise<LoginResponse> {
+  const res = await axiosInstance.post<LoginResponse>('/auth/login/2fa', { challengeToken, code });
   return res.data;
 }
 
@@ -31,3 +55,98 @@ export async function register(data: RegisterRequest): Promise<RegisterResponse>
   const res = await axiosInstance.post<RegisterResponse>('/auth/register', data);
   return res.data;
 }
+
+/**
+ * Confirms an email address with the token from the verification email.
+ */
+export async function verifyEmail(token: string): Promise<void> {
+  await axiosInstance.post('/auth/email/verify', { token });
+}
+
+/**
+ * Emails the signed-in user a new verification link.
+ */
+export async function resendVerification(): Promise<void> {
+  await axiosInstance.post('/auth/email/resend');
+}
+
+/**
+ * Sets a new password with the token from the password reset email.
+ */
+export async function resetPassword(token: string, newPassword: string): Promise<void> {
+  await axiosInstance.post('/auth/password/reset', { token, newPassword });
+}
+
+/**
+ * The signed-in user's account details.
+ */
+export async function getAccount(): Promise<Account> {
+  const res = await axiosInstance.get('/auth/me');
+  return res.data.data as Account;
+}
+
+/**
+ * Ends the session of the given access token on the server so its tokens stop
+ * working. The token is passed in because callers clear it from storage
+ * straight away.
+ */
+export async function logout(token: string): Promise<void> {
+  await axiosInstance.post('/auth/logout', undefined, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+}
+
+/**
+ * Lists the devices the user is signed in on, most recently used first.
+ */
+export async function listSessions(): Promise<Session[]> {
+  const res = await axiosInstance.get('/auth/sessions');
+  return res.data.data as Session[];
+}
+
+/**
+ * Signs one of the user's sessions out.
+ */
+export async function revokeSession(id: string): Promise<void> {
+  await axiosInstance.delete(`/auth/sessions/${id}`);
+}
+
+/**
+ * Whether the signed-in user has two-factor authentication on.
+ */
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+  const res = await axiosInstance.get('/auth/2fa');
+  return res.data.data as TwoFactorStatus;
+}
+
+/**
+ * Starts two-factor enrolment with a new secret for the authenticator app.
+ */
+export async function setupTwoFactor(): Promise<TwoFactorSetup> {
+  const res = await axiosInstance.post('/auth/2fa/setup');
+  return res.data.data as TwoFactorSetup;
+}
+
+/**
+ * Switches two-factor authentication on with a code from the new secret.
+ * @returns The recovery codes, shown only this once.
+ */
+export async function enableTwoFactor(code: string): Promise<string[]> {
+  const res = await axiosInstance.post('/auth/2fa/enable', { code });
+  return res.data.data.recoveryCodes as string[];
+}
+
+/**
+ * Switches two-factor authentication off after checking a current code.
+ */
+export async function disableTwoFactor(code: string): Promise<void> {
+  await axiosInstance.post('/auth/2fa/disable', { code });
+}
+
+/**
+ * Replaces the recovery codes after checking a current code.
+ */
+export async function regenerateRecoveryCodes(code: string): Promise<string[]> {
+  const res = await axiosInstance.post('/auth/2fa/recovery-codes', { code });
+  return res.data.data.recoveryCodes as string[];
+}
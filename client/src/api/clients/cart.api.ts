@@ -0,0 +1,75 @@
+/**
+ * Axios client for the server-side cart under /cart. Guests are identified by
+ * a signed cart token, kept in localStorage and sent as X-Cart-Token; the
+ * signed-in user's cart is found from their access token instead.
+ */
+import { axiosInstance } from '@client/lib/axios';
+import type { AddCartItemInput, CartView } from '@client/types/cart';
+
+const CART_TOKEN_KEY = 'cart-token';
+
+export function getCartToken(): string | null {
+  return localStorage.getItem(CART_TOKEN_KEY);
+}
+
+export function forgetCartToken(): void {
+  localStorage.removeItem(CART_TOKEN_KEY);
+}
+
+function cartHeaders() {
+  const token = getCartToken();
+  return token ? { 'X-Cart-Token': token } : {};
+}
+
+/** Keep the token of a guest cart for later requests */
+function received(cart: CartView): CartView {
+  if (cart.token) localStorage.setItem(CART_TOKEN_KEY, cart.token);
+  return cart;
+}
+
+export async function getCart(): Promise<CartView> {
+  const res = await axiosInstance.get('/cart', { headers: cartHeaders() });
+  return received(res.data.data as CartView);
+}
+
+export async function addCartItem(input: AddCartItemInput): Promise<CartView> {
+  const res = await axiosInstance.post('/cart/items', input, { headers: cartHeaders() });
+  return received(res.data.data as CartView);
+}
+
+/** Set the quantity of a line (see cartLineKey); 0 removes it */
+export async function updateCartItem(lineKey: string, quantity: number): Promise<CartView> {
+  const res = await axiosInstance.put(
+    `/cart/items/${encodeURIComponent(lineKey)}`,
+    { quantity },
+    { headers: cartHeaders() }
+  );
+  return received(res.data.data as CartView);
+}
+
+export async function removeCartItem(lineKey: string): Promise<CartView> {
+  const res = await axiosInstance.delete(`/cart/items/${encodeURIComponent(lineKey)}`, {
+    headers: cartHeaders(),
+  });
+  return received(res.data.data as CartView);
+}
+
+export async function clearCart(): Promise<CartView> {
+  const res = await axiosInstance.delete('/cart', { headers: cartHeaders() });
+  return received(res.data.data as CartView);
+}
+
+/** Take the current price of every line, clearing the price-changed flags */
+export async function acceptCartPrices(): Promise<CartView> {
+  const res = await axiosInstance.post('/cart/accept-prices', undefined, {
+    headers: cartHeaders(),
+  });
+  return received(res.data.data as CartView);
+}
+
+/** Move the guest cart into the signed-in user's cart; the guest token is then forgotten */
+export async function mergeGuestCart(cartToken: string): Promise<CartView> {
+  const res = await axiosInstance.post('/cart/merge', { cartToken });
+  forgetCartToken();
+  return res.data.data as CartView;
+}
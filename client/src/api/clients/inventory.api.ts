@@ -0,0 +1,26 @@
+/**
+ * Tiny Axios-based client for the admin inventory endpoints: low-stock
+ * alerts, ledger reconciliation and per-product stock movement history.
+ */
+import type { LowStockAlert, StockMovement, StockReconciliation } from '@client/types/inventory';
+import { axiosInstance } from '@client/lib/axios';
+
+export async function getLowStock(): Promise<LowStockAlert[]> {
+  const res = await axiosInstance.get('/admin/inventory/low-stock');
+  return res.data.data as LowStockAlert[];
+}
+
+export async function reconcileStock(): Promise<StockReconciliation> {
+  const res = await axiosInstance.get('/admin/inventory/reconciliation');
+  return res.data.data as StockReconciliation;
+}
+
+export async function getStockMovements(
+  productId: string,
+  limit?: number
+): Promise<StockMovement[]> {
+  const res = await axiosInstance.get(`/admin/inventory/products/${productId}/movements`, {
+    params: { limit },
+  });
+  return res.data.data as StockMovement[];
+}
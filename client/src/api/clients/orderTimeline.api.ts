@@ -0,0 +1,31 @@
+/**
+ * Tiny Axios-based client for order timelines: an order's history for its
+ * customer and staff, and internal comments for staff.
+ */
+import { axiosInstance } from '@client/lib/axios';
+import type { TimelineEntry } from '@client/types/orderTimeline';
+
+function errorMessage(error: any, fallback: string): Error {
+  return new Error(
+    error?.response?.data?.message || error?.response?.data?.error?.message || fallback
+  );
+}
+
+/** The order's timeline, newest first */
+export async function getOrderTimeline(orderId: string): Promise<TimelineEntry[]> {
+  try {
+    const res = await axiosInstance.get(`/orders/${orderId}/timeline`);
+    return res.data.data as TimelineEntry[];
+  } catch (error) {
+    throw errorMessage(error, 'Failed to load order history');
+  }
+}
+
+export async function addOrderComment(orderId: string, body: string): Promise<TimelineEntry> {
+  try {
+    const res = await axiosInstance.post(`/orders/${orderId}/timeline/comments`, { body });
+    return res.data.data as TimelineEntry;
+  } catch (error) {
+    throw errorMessage(error, 'Failed to add comment');
+  }
+}
@@ -12,10 +12,14 @@ import { axiosInstance } from '../../lib/axios';
 import type {
   CreateOrderInput,
   Order,
+  OrderDocumentKind,
   OrderListResponse,
+  OrderQuote,
+  OrderQuoteResponse,
   OrderResponse,
   OrderStatsResponse,
   OrderStatus,
+  QuoteOrderInput,
   UpdateOrderInput,
 } from '../../types/orders';
 
@@ -31,23 +35,56 @@ export class OrdersApi {
    * Create a new order
    *
    * @param {CreateOrderInput} orderData - Order data to create
+   * @param {string} [idempotencyKey] - Sent as Idempotency-Key; retrying with the same key
+   *   returns the order already placed instead of placing another
    * @returns {Promise<Order>} The created order
-   * @throws {Error} If order creation fails
+   * @throws {Error} If order creation fails; `status` and `code` are set when the server answered
    */
-  async createOrder(orderData: CreateOrderInput): Promise<Order> {
+  async createOrder(orderData: CreateOrderInput, idempotencyKey?: string): Promise<Order> {
     try {
-      const response = await axiosInstance.post<OrderResponse>(this.baseUrl, orderData);
+      const response = await axiosInstance.post<OrderResponse>(this.baseUrl, orderData, {
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      });
 
       if (!response.data.success || !response.data.data) {
         throw new Error(response.data.message || 'Failed to create order');
       }
 
+      return response.data.data;
+    } catch (error: any) {
+      const data = error.response?.data;
+      const message = data?.message || data?.error?.message;
+      if (message) {
+        throw Object.assign(new Error(message), {
+          status: error.response.status,
+          code: data.error?.code,
+        });
+      }
+      throw new Error('Failed to create order. Please try again.');
+    }
+  }
+
+  /**
+   * Price a cart using the server's tax and shipping rules
+   *
+   * @param {QuoteOrderInput} input - Cart lines and optional shipping destination
+   * @returns {Promise<OrderQuote>} Totals the order would be charged
+   * @throws {Error} If pricing fails (e.g. a product no longer exists)
+   */
+  async quoteOrder(input: QuoteOrderInput): Promise<OrderQuote> {
+    try {
+      const response = await axiosInstance.post<OrderQuoteResponse>(`${this.baseUrl}/quote`, input);
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || 'Failed to calculate totals');
+      }
+
       return response.data.data;
     } catch (error: any) {
       if (error.response?.data?.message) {
         throw new Error(error.response.data.message);
       }
-      throw new Error('Failed to create order. Please try again.');
+      throw new Error('Failed to calculate totals. Please try again.');
     }
   }
 
@@ -231,6 +268,119 @@ export class OrdersApi {
     }
   }
 
+  /**
+   * Start paying for an order. The returned order's `payment` reports a
+   * decline or a pending 3-D Secure challenge.
+   *
+   * @param {string} orderId - Order to pay for
+   * @param {string} [token] - Payment method token
+   * @returns {Promise<Order>} The order with its payment status
+   * @throws {Error} If the order cannot be paid
+   */
+  async payOrder(orderId: string, token?: string): Promise<Order> {
+    return this.paymentAction(`${this.baseUrl}/${orderId}/payment`, { token }, 'pay for order');
+  }
+
+  /**
+   * Capture an authorized payment (admin only)
+   */
+  async capturePayment(orderId: string, amount?: number): Promise<Order> {
+    return this.paymentAction(
+      `${this.baseUrl}/${orderId}/payment/capture`,
+      { amount },
+      'capture payment'
+    );
+  }
+
+  /**
+   * Refund a captured payment, fully unless an amount is given (admin only)
+   */
+  async refundPayment(orderId: string, amount?: number): Promise<Order> {
+    return this.paymentAction(
+      `${this.baseUrl}/${orderId}/payment/refund`,
+      { amount },
+      'refund payment'
+    );
+  }
+
+  /**
+   * Release an uncaptured authorization (admin only)
+   */
+  async voidPayment(orderId: string): Promise<Order> {
+    return this.paymentAction(`${this.baseUrl}/${orderId}/payment/void`, {}, 'void payment');
+  }
+
+  /**
+   * Answer the mock gateway's 3-D Secure challenge. The order is updated
+   * asynchronously by the gateway's webhook.
+   *
+   * @param {string} paymentId - Payment awaiting the challenge
+   * @param {boolean} approve - Whether authentication succeeds
+   */
+  async completeMockChallenge(paymentId: string, approve: boolean): Promise<void> {
+    try {
+      await axiosInstance.post(`/payments/mock/${paymentId}/challenge`, { approve });
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || 'Failed to complete verification');
+    }
+  }
+
+  /**
+   * Download one of an order's PDF documents and save it as a file
+   *
+   * @param {string} orderId - Order the document belongs to
+   * @param {OrderDocumentKind} kind - Invoice, packing slip or receipt
+   * @throws {Error} If the document is not available (e.g. the receipt of an unpaid order)
+   */
+  async downloadDocument(orderId: string, kind: OrderDocumentKind): Promise<void> {
+    let blob: Blob;
+    try {
+      const response = await axiosInstance.get<Blob>(`${this.baseUrl}/${orderId}/${kind}.pdf`, {
+        responseType: 'blob',
+      });
+      blob = response.data;
+    } catch (error: any) {
+      // Errors arrive as a blob too, since the response type was fixed up front
+      const body = error.response?.data;
+      const text = body instanceof Blob ? await body.text() : '';
+      let message: string | undefined;
+      try {
+        message = JSON.parse(text).message;
+      } catch {
+        message = undefined;
+      }
+      throw new Error(message || `Failed to download ${kind.replace('-', ' ')}`);
+    }
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${kind}-${orderId.slice(0, 8)}.pdf`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  private async paymentAction(
+    url: string,
+    body: Record<string, unknown>,
+    action: string
+  ): Promise<Order> {
+    try {
+      const response = await axiosInstance.post<OrderResponse>(url, body);
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || `Failed to ${action}`);
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      if (error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error(`Failed to ${action}. Please try again.`);
+    }
+  }
+
   /**
    * Delete an order (admin only)
    *
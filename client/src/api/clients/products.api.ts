@@ -4,49 +4,63 @@
  * operations while preserving strong typing for request/response shapes.
  */
 import { axiosInstance } from '@client/lib/axios';
-import type { Product, ProductListParams, ProductListResponse } from '@client/types/product';
+import type {
+  Product,
+  ProductListParams,
+  ProductListResponse,
+  ProductOption,
+  ProductSearchParams,
+  ProductSearchResponse,
+  ProductVariant,
+} from '@client/types/product';
+import type { ProductImportReport, ProductTransferFormat } from '@client/types/productImport';
 
 /**
  * Product input data structure for creating and updating products.
  *
  * @interface ProductInput
  * @property {string} name - Product name (required, min 2 characters)
+ * @property {string} [sku] - Optional SKU, unique across products
  * @property {number} price - Product price (required, non-negative)
  * @property {string} [description] - Optional product description
  * @property {string} category - Product category (required, min 2 characters)
- * @property {number} [rating] - Product rating (optional, 0-5 scale)
  * @property {number} [stock] - Available stock count (optional, non-negative integer)
+ * @property {number|null} [lowStockThreshold] - Low-stock alert level (optional, defaults to the store setting; null on update removes it)
  * @property {string[]} [images] - Optional array of image URLs
+ * @property {ProductOption[]} [options] - Option axes; sent together with `variants`
+ * @property {ProductVariant[]} [variants] - Per-variant SKU, stock and optional price/images
  */
 type ProductInput = {
   name: string;
+  sku?: string;
   price: number;
   description?: string;
   category: string;
-  rating?: number;
   stock?: number;
+  lowStockThreshold?: number | null;
   images?: string[];
+  options?: ProductOption[];
+  variants?: Array<Omit<ProductVariant, 'id'> & { id?: string }>;
 };
 
 /**
- * Retrieves a list of all products with optional sorting.
+ * Retrieves the first page of products (20 unless `limit` says otherwise).
+ * Use `listProductsPaged` to follow the cursors to further pages.
  *
  * @param {Object} [params] - Optional query parameters
- * @param {Object} [params.sort] - Sorting configuration
- * @param {string} params.sort.field - Field to sort by (e.g., 'price', 'name', 'createdAt')
- * @param {'asc'|'desc'} params.sort.dir - Sort direction
+ * @param {ProductSearchSort} [params.sort] - Sort key, e.g. 'price-asc' or 'newest';
+ *   'relevance' only ranks with a text query and otherwise lists newest first
+ * @param {number} [params.limit] - Page size (1-100)
  * @returns {Promise<Product[]>} Promise resolving to array of product objects
  *
  * @example
  * ```typescript
- * const products = await listProducts({
- *   sort: { field: 'price', dir: 'asc' }
- * });
+ * const products = await listProducts({ sort: 'price-asc', limit: 50 });
  * ```
  */
-export async function listProducts(params?: {
-  sort?: { field: string; dir: 'asc' | 'desc' };
-}): Promise<Product[]> {
+export async function listProducts(
+  params?: Pick<ProductListParams, 'sort' | 'limit'>
+): Promise<Product[]> {
   const res = await axiosInstance.get('/products', { params });
   return res.data.data as Product[];
 }
@@ -70,37 +84,37 @@ export async function getProduct(id: string): Promise<Product> {
 }
 
 /**
- * Retrieves a paginated list of products with advanced filtering and sorting.
+ * Retrieves one page of products with advanced filtering and sorting.
  *
  * **Features:**
- * - Pagination support with configurable page size
- * - Text search across product names and descriptions
- * - Category filtering
- * - Price range filtering
+ * - Cursor pagination: pass `meta.nextCursor` or `meta.prevCursor` back as
+ *   `cursor` to move between pages; cursors only fit the sort and filters they
+ *   were issued for
+ * - Text search across product names, descriptions and SKUs
+ * - Category and price range filtering
  * - Flexible sorting options
  *
- * @param {Object} [params] - Query parameters for filtering, sorting, and pagination
- * @param {Object} [params.sort] - Sorting configuration
- * @param {string} params.sort.field - Field to sort by
- * @param {'asc'|'desc'} params.sort.dir - Sort direction
- * @param {Object} [params.filter] - Filtering options
- * @param {string} [params.filter.q] - Text search query
- * @param {string} [params.filter.category] - Category filter
- * @param {number} [params.filter.minPrice] - Minimum price filter
- * @param {number} [params.filter.maxPrice] - Maximum price filter
- * @param {number} [params.page] - Page number (1-based)
- * @param {number} [params.pageSize] - Number of items per page
- * @returns {Promise<ProductListResponse>} Promise resolving to paginated product data with metadata
+ * @param {ProductListParams} [params] - Query parameters for filtering, sorting, and pagination
+ * @param {string} [params.q] - Text search query
+ * @param {string} [params.category] - Category filter
+ * @param {string} [params.price] - Price bucket key from the search facets
+ * @param {number} [params.minPrice] - Minimum price filter
+ * @param {number} [params.maxPrice] - Maximum price filter
+ * @param {ProductSearchSort} [params.sort] - Sort order, e.g. 'price-asc' or 'newest'
+ * @param {number} [params.limit] - Number of items per page
+ * @param {string} [params.cursor] - Cursor from the previous response
+ * @returns {Promise<ProductListResponse>} Promise resolving to one page of products with cursors
  *
  * @example
  * ```typescript
- * const result = await listProductsPaged({
- *   filter: { q: 'ceramic', category: 'pottery', minPrice: 20 },
- *   sort: { field: 'price', dir: 'asc' },
- *   page: 1,
- *   pageSize: 12
+ * const first = await listProductsPaged({ category: 'pottery', sort: 'price-asc', limit: 12 });
+ * const second = await listProductsPaged({
+ *   category: 'pottery',
+ *   sort: 'price-asc',
+ *   limit: 12,
+ *   cursor: first.meta.nextCursor ?? undefined,
  * });
- * console.log(`Found ${result.meta.total} products`);
+ * console.log(`Found ${second.meta.total} products`);
  * ```
  */
 export async function listProductsPaged(params?: ProductListParams): Promise<ProductListResponse> {
@@ -108,6 +122,40 @@ export async function listProductsPaged(params?: ProductListParams): Promise<Pro
   return res.data as ProductListResponse;
 }
 
+/**
+ * Full-text product search with relevance ranking and facet counts.
+ *
+ * **Features:**
+ * - Prefix matching while typing and tolerance for small typos
+ * - Results ranked by relevance unless another sort is chosen
+ * - Category and price-range facet counts for the filter sidebar
+ *
+ * @param {ProductSearchParams} [params] - Query, filters, sort and pagination
+ * @returns {Promise<ProductSearchResponse>} Promise resolving to a page of results with facets
+ *
+ * @example
+ * ```typescript
+ * const result = await searchProducts({ q: 'stonware', category: 'ceramics' });
+ * console.log(result.meta.facets.price);
+ * ```
+ */
+export async function searchProducts(params?: ProductSearchParams): Promise<ProductSearchResponse> {
+  const res = await axiosInstance.get('/products/search', { params });
+  return res.data as ProductSearchResponse;
+}
+
+/**
+ * Best-matching products for a partial query, for search-as-you-type.
+ *
+ * @param {string} q - What the user has typed so far
+ * @param {number} [limit] - Maximum number of suggestions (server default 8)
+ * @returns {Promise<Product[]>} Promise resolving to products in relevance order
+ */
+export async function suggestProducts(q: string, limit?: number): Promise<Product[]> {
+  const res = await axiosInstance.get('/products/search/suggest', { params: { q, limit } });
+  return res.data.data as Product[];
+}
+
 /**
  * Creates a new product with the provided data.
  *
@@ -127,7 +175,7 @@ export async function listProductsPaged(params?: ProductListParams): Promise<Pro
  *   price: 45.99,
  *   description: 'Beautiful hand-thrown ceramic bowl...',
  *   category: 'ceramics',
- *   rating: 4.5,
+ *   stock: 12,
  *   images: ['/api/v1/files/bowl1.jpg', '/api/v1/files/bowl2.jpg']
  * });
  * ```
@@ -186,6 +234,61 @@ export async function deleteProduct(id: string) {
   const res = await axiosInstance.delete(`/products/${id}`);
   return res.data.data;
 }
+/**
+ * Creates and updates products in bulk from a CSV or JSON file, matching rows
+ * to products by SKU.
+ *
+ * Every row is checked before anything is saved. A dry run returns the report
+ * without saving; a real run saves nothing when any row is invalid, and the
+ * report then explains which rows failed (the server answers 422).
+ *
+ * @param {File} file - CSV with a header row, or a JSON array of products
+ * @param {Object} [options] - Import options
+ * @param {boolean} [options.dryRun] - Only report what would change
+ * @returns {Promise<ProductImportReport>} Promise resolving to the per-row report
+ * @throws {AxiosError} When the file cannot be read (400) or the user is not an admin (403)
+ *
+ * @example
+ * ```typescript
+ * const preview = await importProducts(file, { dryRun: true });
+ * if (preview.summary.error === 0) await importProducts(file);
+ * ```
+ */
+export async function importProducts(
+  file: File,
+  options: { dryRun?: boolean } = {}
+): Promise<ProductImportReport> {
+  const fd = new FormData();
+  fd.append('file', file);
+  const res = await axiosInstance.post('/products/import', fd, {
+    params: { dryRun: options.dryRun || undefined },
+    // Invalid rows still come back with a report worth showing
+    validateStatus: (status) => status < 300 || status === 422,
+  });
+  return res.data.data as ProductImportReport;
+}
+
+/**
+ * Downloads the whole catalog as a CSV or JSON file in the import format.
+ *
+ * @param {ProductTransferFormat} [format='csv'] - File format
+ * @returns {Promise<void>} Resolves once the browser has been handed the file
+ */
+export async function exportProducts(format: ProductTransferFormat = 'csv'): Promise<void> {
+  const res = await axiosInstance.get('/products/export', {
+    params: { format },
+    responseType: 'blob',
+  });
+  const disposition = String(res.headers['content-disposition'] ?? '');
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `products.${format}`;
+  const url = URL.createObjectURL(res.data as Blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Fetches aggregated product statistics from the admin API.
  *
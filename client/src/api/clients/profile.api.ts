@@ -0,0 +1,40 @@
+/**
+ * Axios client for the signed-in user's profile and address book under /me.
+ */
+import { axiosInstance } from '@client/lib/axios';
+import type { AddressInput, ProfileInput, SavedAddress, UserProfile } from '@client/types/profile';
+
+export async function getProfile(): Promise<UserProfile> {
+  const res = await axiosInstance.get('/me/profile');
+  return res.data.data as UserProfile;
+}
+
+export async function updateProfile(input: ProfileInput): Promise<UserProfile> {
+  const res = await axiosInstance.put('/me/profile', input);
+  return res.data.data as UserProfile;
+}
+
+/** Saved addresses, default first */
+export async function listAddresses(): Promise<SavedAddress[]> {
+  const res = await axiosInstance.get('/me/addresses');
+  return res.data.data as SavedAddress[];
+}
+
+export async function addAddress(input: AddressInput): Promise<SavedAddress> {
+  const res = await axiosInstance.post('/me/addresses', input);
+  return res.data.data as SavedAddress;
+}
+
+export async function updateAddress(id: string, input: AddressInput): Promise<SavedAddress> {
+  const res = await axiosInstance.put(`/me/addresses/${id}`, input);
+  return res.data.data as SavedAddress;
+}
+
+export async function deleteAddress(id: string): Promise<void> {
+  await axiosInstance.delete(`/me/addresses/${id}`);
+}
+
+export async function setDefaultAddress(id: string): Promise<SavedAddress> {
+  const res = await axiosInstance.post(`/me/addresses/${id}/default`);
+  return res.data.data as SavedAddress;
+}
@@ -0,0 +1,24 @@
+/**
+ * Tiny Axios-based client for the admin promotions endpoints.
+ */
+import type { Promotion, PromotionInput } from '@client/types/promotions';
+import { axiosInstance } from '@client/lib/axios';
+
+export async function listPromotions(): Promise<Promotion[]> {
+  const res = await axiosInstance.get('/admin/promotions');
+  return res.data.data as Promotion[];
+}
+
+export async function createPromotion(input: PromotionInput): Promise<Promotion> {
+  const res = await axiosInstance.post('/admin/promotions', input);
+  return res.data.data as Promotion;
+}
+
+export async function updatePromotion(id: string, input: PromotionInput): Promise<Promotion> {
+  const res = await axiosInstance.put(`/admin/promotions/${id}`, input);
+  return res.data.data as Promotion;
+}
+
+export async function deletePromotion(id: string): Promise<void> {
+  await axiosInstance.delete(`/admin/promotions/${id}`);
+}
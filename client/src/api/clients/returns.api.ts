@@ -0,0 +1,67 @@
+/**
+ * Tiny Axios-based client for return requests: the customer endpoints under
+ * /orders/:id/returns and the admin review endpoints.
+ */
+import type {
+  CreateReturnInput,
+  RefundRecord,
+  ReturnApprovalInput,
+  ReturnRequest,
+  ReturnStatus,
+} from '@client/types/returns';
+import { axiosInstance } from '@client/lib/axios';
+
+function errorMessage(error: any, fallback: string): Error {
+  return new Error(
+    error?.response?.data?.message || error?.response?.data?.error?.message || fallback
+  );
+}
+
+export async function requestReturn(
+  orderId: string,
+  input: CreateReturnInput
+): Promise<ReturnRequest> {
+  try {
+    const res = await axiosInstance.post(`/orders/${orderId}/returns`, input);
+    return res.data.data as ReturnRequest;
+  } catch (error) {
+    throw errorMessage(error, 'Failed to request return');
+  }
+}
+
+export async function getOrderReturns(
+  orderId: string
+): Promise<{ returns: ReturnRequest[]; refunds: RefundRecord[] }> {
+  try {
+    const res = await axiosInstance.get(`/orders/${orderId}/returns`);
+    return res.data.data as { returns: ReturnRequest[]; refunds: RefundRecord[] };
+  } catch (error) {
+    throw errorMessage(error, 'Failed to load returns');
+  }
+}
+
+export async function listReturns(status?: ReturnStatus): Promise<ReturnRequest[]> {
+  const res = await axiosInstance.get('/admin/returns', { params: { status } });
+  return res.data.data as ReturnRequest[];
+}
+
+export async function approveReturn(
+  id: string,
+  input: ReturnApprovalInput
+): Promise<ReturnRequest> {
+  try {
+    const res = await axiosInstance.post(`/admin/returns/${id}/approve`, input);
+    return res.data.data as ReturnRequest;
+  } catch (error) {
+    throw errorMessage(error, 'Failed to approve return');
+  }
+}
+
+export async function rejectReturn(id: string, note?: string): Promise<ReturnRequest> {
+  try {
+    const res = await axiosInstance.post(`/admin/returns/${id}/reject`, { note });
+    return res.data.data as ReturnRequest;
+  } catch (error) {
+    throw errorMessage(error, 'Failed to reject return');
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Tiny Axios-based client for product reviews: the public and customer
+ * endpoints under /products/:id/reviews and the admin moderation endpoints.
+ */
+import type {
+  CreateReviewInput,
+  ModeratedReview,
+  MyReview,
+  Review,
+  ReviewListParams,
+  ReviewListResponse,
+  ReviewModerationAction,
+  ReviewStatus,
+} from '@client/types/reviews';
+import { axiosInstance } from '@client/lib/axios';
+
+function errorMessage(error: any, fallback: string): Error {
+  return new Error(
+    error?.response?.data?.message || error?.response?.data?.error?.message || fallback
+  );
+}
+
+/**
+ * One page of a product's approved reviews with its rating summary. Pass the
+ * previous response's `meta.nextCursor` with the same sort for the next page.
+ */
+export async function listProductReviews(
+  productId: string,
+  params: ReviewListParams = {}
+): Promise<ReviewListResponse> {
+  const res = await axiosInstance.get(`/products/${productId}/reviews`, { params });
+  return res.data as ReviewListResponse;
+}
+
+/**
+ * The signed-in customer's own review of a product and whether they may write one
+ */
+export async function getMyReview(productId: string): Promise<MyReview> {
+  const res = await axiosInstance.get(`/products/${productId}/reviews/mine`);
+  return res.data.data as MyReview;
+}
+
+/**
+ * Create or replace the customer's review; it is shown once a moderator approves it
+ */
+export async function submitReview(productId: string, input: CreateReviewInput): Promise<Review> {
+  try {
+    const res = await axiosInstance.post(`/products/${productId}/reviews`, input);
+    return res.data.data as Review;
+  } catch (error) {
+    throw errorMessage(error, 'Failed to submit review');
+  }
+}
+
+export async function listReviewsForModeration(status?: ReviewStatus): Promise<ModeratedReview[]> {
+  const res = await axiosInstance.get('/admin/reviews', { params: { status } });
+  return res.data.data as ModeratedReview[];
+}
+
+export async function moderateReview(
+  id: string,
+  action: ReviewModerationAction,
+  note?: string
+): Promise<ModeratedReview> {
+  try {
+    const res = await axiosInstance.post(`/admin/reviews/${id}/${action}`, { note });
+    return res.data.data as ModeratedReview;
+  } catch (error) {
+    throw errorMessage(error, `Failed to ${action} review`);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Tiny Axios-based client for order shipments: tracking for customers, and
+ * creating shipments and refreshing their tracking for staff.
+ */
+import { axiosInstance } from '@client/lib/axios';
+import type { Carrier, CreateShipmentInput, Shipment } from '@client/types/shipments';
+
+function errorMessage(error: any, fallback: string): Error {
+  return new Error(
+    error?.response?.data?.message || error?.response?.data?.error?.message || fallback
+  );
+}
+
+export async function getOrderShipments(orderId: string): Promise<Shipment[]> {
+  try {
+    const res = await axiosInstance.get(`/orders/${orderId}/shipments`);
+    return res.data.data as Shipment[];
+  } catch (error) {
+    throw errorMessage(error, 'Failed to load shipments');
+  }
+}
+
+export async function listCarriers(): Promise<Carrier[]> {
+  try {
+    const res = await axiosInstance.get('/orders/carriers');
+    return res.data.data as Carrier[];
+  } catch (error) {
+    throw errorMessage(error, 'Failed to load carriers');
+  }
+}
+
+export async function createShipment(
+  orderId: string,
+  input: CreateShipmentInput
+): Promise<Shipment> {
+  try {
+    const res = await axiosInstance.post(`/orders/${orderId}/shipments`, input);
+    return res.data.data as Shipment;
+  } catch (error) {
+    throw errorMessage(error, 'Failed to create shipment');
+  }
+}
+
+export async function refreshShipment(id: string): Promise<Shipment> {
+  try {
+    const res = await axiosInstance.post(`/orders/shipments/${id}/refresh`);
+    return res.data.data as Shipment;
+  } catch (error) {
+    throw errorMessage(error, 'Failed to refresh tracking');
+  }
+}
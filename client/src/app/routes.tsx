@@ -8,7 +8,9 @@ import Footer from '@client/components/layout/Footer';
 import Navbar from '@client/components/layout/Navbar';
 import ScrollToTop from '@client/components/ScrollToTop';
 import { RequireAuth } from '@client/features/auth/RequireAuth';
+import { useCartSync } from '@client/features/cart/useCartSync';
 import About from '@client/pages/About';
+import AccountSettings from '@client/pages/AccountSettings';
 import Accessibility from '@client/pages/Accessibility';
 import AuditLogs from '@client/pages/admin/AuditLogs';
 import AdminLayout from '@client/pages/admin/Layout';
@@ -16,6 +18,9 @@ import AdminOrders from '@client/pages/admin/Orders';
 import AdminOverview from '@client/pages/admin/Overview';
 import AdminProductNew from '@client/pages/admin/ProductNew';
 import AdminProducts from '@client/pages/admin/Products';
+import AdminPromotions from '@client/pages/admin/Promotions';
+import AdminReviews from '@client/pages/admin/Reviews';
+import AdminRoles from '@client/pages/admin/Roles';
 import AdminUsers from '@client/pages/admin/Users';
 import { Checkout } from '@client/pages/Checkout';
 import Contact from '@client/pages/Contact';
@@ -32,14 +37,18 @@ import ProductEdit from '@client/pages/ProductEdit';
 import ProductShow from '@client/pages/ProductShow';
 import Products from '@client/pages/Products';
 import Register from '@client/pages/Register';
+import ResetPassword from '@client/pages/ResetPassword';
 import TermsOfService from '@client/pages/TermsOfService';
 import Unauthorized from '@client/pages/Unauthorized';
+import VerifyEmail from '@client/pages/VerifyEmail';
 import type { RouteObject } from 'react-router-dom';
 import { Outlet } from 'react-router-dom';
 import { mainContent, shellLayout, skipLink } from './routes.css';
 import { containerClass } from './theme.css';
 
 function Shell() {
+  useCartSync();
+
   return (
     <div className={shellLayout}>
       <ScrollToTop />
@@ -80,17 +89,17 @@ function Shell() {
  *   - element: ProductShow (product detail)
  *
  * - path: 'products/new'
- *   - element: ProductCreate wrapped by RequireAuth
- *   - Requires authentication: components wrapped in RequireAuth should render only for authenticated users.
+ *   - element: ProductCreate wrapped by RequireAuth with permission="products:write"
+ *   - Requires authentication and the permission to edit the catalog.
  *
  * - path: 'products/:id/edit'
- *   - element: ProductEdit wrapped by RequireAuth
- *   - Requires authentication: editing is restricted to authenticated users.
+ *   - element: ProductEdit wrapped by RequireAuth with permission="products:write"
+ *   - Requires authentication and the permission to edit the catalog.
  *
  * - path: 'admin'
- *   - element: Admin wrapped by RequireAuth with role="admin"
- *   - Requires authentication and authorization: the RequireAuth wrapper is expected to accept
- *     an optional `role` prop (e.g. "admin") to restrict access to users who have the specified role.
+ *   - element: Admin wrapped by RequireAuth with `staff`
+ *   - Open to every role with at least one permission; the admin navigation only lists the
+ *     sections the user's permissions allow, and the API enforces them per endpoint.
  *
  * Common fields used on each route object:
  * - path?: string — URL segment for the route. Use dynamic params like ':id' when needed.
@@ -100,8 +109,8 @@ function Shell() {
  * - errorElement?: React.ReactNode — component shown when an error occurs during route loading/rendering (NotFound is used here).
  *
  * Notes / Implementation reminders:
- * - Ensure the RequireAuth component implements authentication gating and supports an optional `role` prop
- *   for authorization checks. Document expected role strings (e.g., "admin") in RequireAuth's own implementation.
+ * - RequireAuth supports optional `permission` and `staff` props for authorization checks; see its own
+ *   documentation.
  * - NotFound is used consistently as the errorElement for user-facing route errors; adjust as needed for custom error UI.
  *
  * @public
@@ -123,6 +132,8 @@ export const routes: RouteObject[] = [
       { path: 'privacy-policy', element: <PrivacyPolicy />, errorElement: <NotFound /> },
       { path: 'terms-of-service', element: <TermsOfService />, errorElement: <NotFound /> },
       { path: 'unauthorized', element: <Unauthorized />, errorElement: <NotFound /> },
+      { path: 'verify-email', element: <VerifyEmail />, errorElement: <NotFound /> },
+      { path: 'reset-password', element: <ResetPassword />, errorElement: <NotFound /> },
       { path: 'products', element: <Products />, errorElement: <NotFound /> },
       { path: 'products/:id', element: <ProductShow />, errorElement: <NotFound /> },
       { path: 'checkout', element: <Checkout />, errorElement: <NotFound /> },
@@ -144,6 +155,15 @@ export const routes: RouteObject[] = [
         ),
         errorElement: <NotFound />,
       },
+      {
+        path: 'account',
+        element: (
+          <RequireAuth>
+            <AccountSettings />
+          </RequireAuth>
+        ),
+        errorElement: <NotFound />,
+      },
       {
         path: 'orders/:id',
         element: (
@@ -156,7 +176,7 @@ export const routes: RouteObject[] = [
       {
         path: 'products/new',
         element: (
-          <RequireAuth>
+          <RequireAuth permission="products:write">
             <ProductCreate />
           </RequireAuth>
         ),
@@ -165,18 +185,17 @@ export const routes: RouteObject[] = [
       {
         path: 'products/:id/edit',
         element: (
-          <RequireAuth>
+          <RequireAuth permission="products:write">
             <ProductEdit />
           </RequireAuth>
         ),
         errorElement: <NotFound />,
       },
-      // The 'role' prop on RequireAuth restricts access to users with the specified role (e.g., "admin").
-      // Ensure RequireAuth supports this prop and document expected roles in its implementation.
+      // The 'staff' prop on RequireAuth admits every role with at least one permission.
       {
         path: 'admin',
         element: (
-          <RequireAuth role="admin">
+          <RequireAuth staff>
             <AdminLayout />
           </RequireAuth>
         ),
@@ -184,9 +203,12 @@ export const routes: RouteObject[] = [
         children: [
           { index: true, element: <AdminOverview />, errorElement: <NotFound /> },
           { path: 'users', element: <AdminUsers />, errorElement: <NotFound /> },
+          { path: 'roles', element: <AdminRoles />, errorElement: <NotFound /> },
           { path: 'products', element: <AdminProducts />, errorElement: <NotFound /> },
           { path: 'products/new', element: <AdminProductNew />, errorElement: <NotFound /> },
           { path: 'orders', element: <AdminOrders />, errorElement: <NotFound /> },
+          { path: 'promotions', element: <AdminPromotions />, errorElement: <NotFound /> },
+          { path: 'reviews', element: <AdminReviews />, errorElement: <NotFound /> },
           { path: 'audit-logs', element: <AuditLogs />, errorElement: <NotFound /> },
         ],
       },
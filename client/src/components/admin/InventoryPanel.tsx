@@ -0,0 +1,100 @@
+/**
+ * Admin dashboard panel listing products at or below their low-stock
+ * threshold, with an on-demand reconciliation of stock against the
+ * movement ledger.
+ */
+
+import { getLowStock, reconcileStock } from '@client/api/clients/inventory.api';
+import { btnOutline, card } from '@client/app/ui.css';
+import type { LowStockAlert, StockReconciliation } from '@client/types/inventory';
+import { useCallback, useEffect, useState } from 'react';
+
+export default function InventoryPanel() {
+  const [alerts, setAlerts] = useState<LowStockAlert[]>([]);
+  const [reconciliation, setReconciliation] = useState<StockReconciliation | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setError(null);
+      setAlerts(await getLowStock());
+    } catch (e: any) {
+      setError(e?.response?.data?.error?.message || 'Failed to load low-stock alerts');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function runReconciliation() {
+    try {
+      setChecking(true);
+      setError(null);
+      setReconciliation(await reconcileStock());
+    } catch (e: any) {
+      setError(e?.response?.data?.error?.message || 'Reconciliation failed');
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  return (
+    <div className={card}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h2 style={{ margin: 0 }}>Inventory</h2>
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button
+            type="button"
+            className={btnOutline}
+            onClick={runReconciliation}
+            disabled={checking}
+          >
+            {checking ? 'Checking…' : 'Reconcile'}
+          </button>
+          <button type="button" className={btnOutline} onClick={load}>
+            Refresh
+          </button>
+        </div>
+      </div>
+      {error && <p style={{ color: 'crimson' }}>{error}</p>}
+      <h3 style={{ marginBottom: 8 }}>Low stock</h3>
+      {alerts.length === 0 ? (
+        <p style={{ margin: 0 }}>All products are above their threshold.</p>
+      ) : (
+        <ul style={{ margin: 0, paddingLeft: 18 }}>
+          {alerts.map((a) => (
+            <li key={a.productId}>
+              <a href={`/products/${a.productId}/edit`}>{a.productName}</a>:{' '}
+              <strong style={{ color: a.stock === 0 ? 'crimson' : undefined }}>{a.stock}</strong>{' '}
+              left (threshold {a.threshold})
+            </li>
+          ))}
+        </ul>
+      )}
+      {reconciliation && (
+        <>
+          <h3 style={{ marginBottom: 8 }}>Reconciliation</h3>
+          <p style={{ margin: '0 0 8px' }}>
+            Checked {reconciliation.productCount} products at{' '}
+            {new Date(reconciliation.checkedAt).toLocaleString()}.
+          </p>
+          {reconciliation.mismatches.length === 0 ? (
+            <p style={{ margin: 0 }}>Stock matches the ledger for every product.</p>
+          ) : (
+            <ul style={{ margin: 0, paddingLeft: 18 }}>
+              {reconciliation.mismatches.map((m) => (
+                <li key={m.productId} style={{ color: 'crimson' }}>
+                  {m.productName}: stock {m.stock}, ledger {m.ledgerStock} (
+                  {m.difference > 0 ? '+' : ''}
+                  {m.difference} over {m.movementCount} movements)
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+/**
+ * Step-by-step bulk product import for the admin Products page: pick a CSV or
+ * JSON file, review a dry-run preview of what every row would create or change,
+ * then commit it. Nothing is saved until the preview has no errors and the
+ * admin confirms.
+ */
+
+import { importProducts } from '@client/api/clients/products.api';
+import { actions, btnOutline, btnPrimary, card, field, input, label } from '@client/app/ui.css';
+import { showToast } from '@client/lib/toast';
+import type { ImportAction, ProductImportReport } from '@client/types/productImport';
+import { useState } from 'react';
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'New',
+  update: 'Update',
+  unchanged: 'No change',
+  error: 'Error',
+};
+
+const ACTION_COLORS: Record<ImportAction, string> = {
+  create: '#2f7a3d',
+  update: '#8a5a00',
+  unchanged: '#6d5b45',
+  error: 'crimson',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value) && value.every((v) => typeof v === 'string')) return value.join(', ');
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function ReportTable({ report }: { report: ProductImportReport }) {
+  const th = { textAlign: 'left', borderBottom: '1px solid #ddd', padding: 6 } as const;
+  return (
+    <div style={{ maxHeight: 360, overflow: 'auto' }}>
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 13 }}>
+        <thead>
+          <tr>
+            <th style={th}>Line</th>
+            <th style={th}>SKU</th>
+            <th style={th}>Action</th>
+            <th style={th}>Changes</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.rows.map((row) => (
+            <tr key={row.line} style={{ verticalAlign: 'top' }}>
+              <td style={{ padding: 6 }}>{row.line}</td>
+              <td style={{ padding: 6 }}>{row.sku ?? '—'}</td>
+              <td style={{ padding: 6, color: ACTION_COLORS[row.action] }}>
+                {ACTION_LABELS[row.action]}
+              </td>
+              <td style={{ padding: 6 }}>
+                {row.errors?.map((e) => (
+                  <div key={`${e.field}:${e.message}`} style={{ color: 'crimson' }}>
+                    {e.field}: {e.message}
+                  </div>
+                ))}
+                {Object.entries(row.changes ?? {}).map(([name, change]) => (
+                  <div key={name}>
+                    <strong>{name}</strong>:{' '}
+                    {row.action === 'create' ? (
+                      formatValue(change.to)
+                    ) : (
+                      <>
+                        <span style={{ textDecoration: 'line-through', color: '#6d5b45' }}>
+                          {formatValue(change.from)}
+                        </span>{' '}
+                        → {formatValue(change.to)}
+                      </>
+                    )}
+                  </div>
+                ))}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function ProductImportWizard({
+  onClose,
+  onImported,
+}: {
+  onClose: () => void;
+  onImported: () => void;
+}) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ProductImportReport | null>(null);
+  const [result, setResult] = useState<ProductImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function runPreview() {
+    if (!file) return;
+    try {
+      setBusy(true);
+      setError(null);
+      setPreview(await importProducts(file, { dryRun: true }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function commit() {
+    if (!file) return;
+    try {
+      setBusy(true);
+      setError(null);
+      const report = await importProducts(file);
+      setResult(report);
+      if (report.applied) {
+        showToast(
+          `Imported ${report.summary.create} new and ${report.summary.update} updated products`,
+          { type: 'success' }
+        );
+        onImported();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const report = result ?? preview;
+  const pending = preview ? preview.summary.create + preview.summary.update : 0;
+
+  return (
+    <section className={card} aria-labelledby="import-heading" style={{ marginBottom: 16 }}>
+      <h3 id="import-heading" style={{ marginTop: 0 }}>
+        Import products
+      </h3>
+      {!result && (
+        <div className={field}>
+          <label className={label} htmlFor="import-file">
+            CSV or JSON file
+          </label>
+          <input
+            id="import-file"
+            className={input}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setPreview(null);
+              setError(null);
+            }}
+          />
+          <small style={{ color: '#6d5b45' }}>
+            Rows are matched to products by SKU, or by id for products without one. Use the column
+            names of an export; in CSV, separate images with | and leave a cell empty to keep the
+            current value.
+          </small>
+        </div>
+      )}
+      {error && <p style={{ color: 'crimson' }}>{error}</p>}
+      {report && (
+        <>
+          <p style={{ margin: '8px 0' }}>
+            {report.summary.total} rows · {report.summary.create} new · {report.summary.update}{' '}
+            updated · {report.summary.unchanged} unchanged · {report.summary.error} with errors
+          </p>
+          {result && !result.applied && (
+            <p style={{ color: 'crimson' }}>Nothing was imported; fix the rows below and retry.</p>
+          )}
+          {result?.applied && <p>Import complete.</p>}
+          {!result && preview && preview.summary.error > 0 && (
+            <p style={{ color: 'crimson' }}>Fix the rows with errors before importing.</p>
+          )}
+          <ReportTable report={report} />
+        </>
+      )}
+      <div className={actions}>
+        {!result && !preview && (
+          <button
+            type="button"
+            className={btnPrimary}
+            disabled={!file || busy}
+            onClick={runPreview}
+          >
+            {busy ? 'Checking…' : 'Preview changes'}
+          </button>
+        )}
+        {!result && preview && (
+          <button
+            type="button"
+            className={btnPrimary}
+            disabled={busy || preview.summary.error > 0 || pending === 0}
+            onClick={commit}
+          >
+            {busy ? 'Importing…' : `Import ${pending} product${pending === 1 ? '' : 's'}`}
+          </button>
+        )}
+        <button type="button" className={btnOutline} onClick={onClose}>
+          {result ? 'Done' : 'Cancel'}
+        </button>
+      </div>
+    </section>
+  );
+}
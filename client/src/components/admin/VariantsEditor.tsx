@@ -0,0 +1,215 @@
+/**
+ * Product form section for managing variants: option axes are typed one per
+ * line ("Size: S, M, L") and "Generate variants" creates a row per option
+ * combination, keeping the SKU, price and stock of rows that still exist.
+ */
+
+import { btnOutline, field, input, label } from '@client/app/ui.css';
+import { describeVariant } from '@client/features/products/variants';
+import type { ProductOption, ProductVariant } from '@client/types/product';
+import { useEffect, useState } from 'react';
+
+export type VariantDraft = Omit<ProductVariant, 'id'> & { id?: string };
+
+export interface VariantsValue {
+  options: ProductOption[];
+  variants: VariantDraft[];
+}
+
+interface VariantsEditorProps {
+  value: VariantsValue;
+  onChange: (value: VariantsValue) => void;
+  skuPrefix?: string;
+}
+
+function formatOptions(options: ProductOption[]): string {
+  return options.map((o) => `${o.name}: ${o.values.join(', ')}`).join('\n');
+}
+
+function parseOptions(text: string): ProductOption[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      const [name, values = ''] = line.split(':');
+      return {
+        name: name.trim(),
+        values: Array.from(
+          new Set(
+            values
+              .split(',')
+              .map((v) => v.trim())
+              .filter(Boolean)
+          )
+        ),
+      };
+    })
+    .filter((o) => o.name && o.values.length > 0);
+}
+
+function combinations(options: ProductOption[]): Array<Record<string, string>> {
+  return options.reduce<Array<Record<string, string>>>(
+    (acc, option) =>
+      acc.flatMap((partial) => option.values.map((v) => ({ ...partial, [option.name]: v }))),
+    [{}]
+  );
+}
+
+function skuPart(value: string): string {
+  return value
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '')
+    .slice(0, 6);
+}
+
+export default function VariantsEditor({
+  value,
+  onChange,
+  skuPrefix = 'SKU',
+}: VariantsEditorProps) {
+  const [optionsText, setOptionsText] = useState(() => formatOptions(value.options));
+
+  // Follow options loaded or generated outside the textarea
+  useEffect(() => {
+    setOptionsText(formatOptions(value.options));
+  }, [value.options]);
+
+  function generate() {
+    const options = parseOptions(optionsText);
+    if (options.length === 0) {
+      onChange({ options: [], variants: [] });
+      return;
+    }
+    const variants = combinations(options).map((combo) => {
+      const existing = value.variants.find((v) =>
+        options.every((o) => v.options[o.name] === combo[o.name])
+      );
+      return (
+        existing ?? {
+          sku: [skuPart(skuPrefix) || 'SKU', ...options.map((o) => skuPart(combo[o.name]))].join(
+            '-'
+          ),
+          options: combo,
+          stock: 0,
+        }
+      );
+    });
+    onChange({ options, variants });
+  }
+
+  function updateVariant(index: number, patch: Partial<VariantDraft>) {
+    onChange({
+      ...value,
+      variants: value.variants.map((v, i) => (i === index ? { ...v, ...patch } : v)),
+    });
+  }
+
+  return (
+    <div className={field}>
+      <label className={label} htmlFor="variant-options">
+        Variants
+      </label>
+      <textarea
+        id="variant-options"
+        className={input}
+        rows={2}
+        value={optionsText}
+        onChange={(e) => setOptionsText(e.target.value)}
+        placeholder={'Size: S, M, L\nColour: Red, Blue'}
+      />
+      <small>
+        One option per line. Leave empty and regenerate to sell the product without variants.
+      </small>
+      <div>
+        <button type="button" className={btnOutline} onClick={generate}>
+          Generate variants
+        </button>
+      </div>
+      {value.variants.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 14 }}>
+          <thead>
+            <tr style={{ textAlign: 'left' }}>
+              <th>Variant</th>
+              <th>SKU</th>
+              <th>Price</th>
+              <th>Stock</th>
+              <th>Image URL</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {value.variants.map((variant, index) => (
+              <tr key={variant.id ?? describeVariant(variant, value.options)}>
+                <td>{describeVariant(variant, value.options)}</td>
+                <td>
+                  <input
+                    className={input}
+                    aria-label="SKU"
+                    value={variant.sku}
+                    onChange={(e) => updateVariant(index, { sku: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    className={input}
+                    aria-label="Price override"
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    placeholder="Product price"
+                    value={variant.price ?? ''}
+                    onChange={(e) =>
+                      updateVariant(index, {
+                        price: e.target.value === '' ? undefined : Number(e.target.value),
+                      })
+                    }
+                  />
+                </td>
+                <td>
+                  <input
+                    className={input}
+                    aria-label="Stock"
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={variant.stock}
+                    onChange={(e) =>
+                      updateVariant(index, {
+                        stock: Math.max(0, Math.floor(Number(e.target.value) || 0)),
+                      })
+                    }
+                  />
+                </td>
+                <td>
+                  <input
+                    className={input}
+                    aria-label="Image URL"
+                    value={variant.images?.[0] ?? ''}
+                    onChange={(e) =>
+                      updateVariant(index, {
+                        images: e.target.value.trim() ? [e.target.value.trim()] : undefined,
+                      })
+                    }
+                  />
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    className={btnOutline}
+                    onClick={() =>
+                      onChange({
+                        ...value,
+                        variants: value.variants.filter((_, i) => i !== index),
+                      })
+                    }
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 /**
  * Barrel exports for admin dashboard widgets so feature modules can import
- * `MetricsPanel` or `SystemHealthPanel` from a single entry point.
+ * `MetricsPanel`, `SystemHealthPanel`, `InventoryPanel`, `VariantsEditor` or
+ * `ProductImportWizard` from a single entry point.
  */
+export { default as InventoryPanel } from './InventoryPanel';
 export { default as MetricsPanel } from './MetricsPanel';
+export { default as ProductImportWizard } from './ProductImportWizard';
 export { default as SystemHealthPanel } from './SystemHealthPanel';
+export { default as VariantsEditor } from './VariantsEditor';
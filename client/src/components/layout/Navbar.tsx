@@ -1,6 +1,7 @@
 import { useAuth } from '@client/features/auth/AuthProvider';
 import {
   cartItemsAtom,
+  cartLineKey,
   cartSummaryAtom,
   cartTotalCountAtom,
   isCartOpenAtom,
@@ -15,6 +16,7 @@ import {
   MdInfo,
   MdLogin,
   MdLogout,
+  MdManageAccounts,
   MdPersonAdd,
   MdReceiptLong,
   MdShoppingBag,
@@ -30,13 +32,13 @@ import ThemeToggle from './ThemeToggle';
  * Uses the authentication context returned by useAuth() to determine which
  * navigation items to display and to provide a logout action:
  * - token: presence indicates an authenticated user
- * - isAdmin: when true, shows the Admin link
+ * - isStaff: when true (the user's role grants any permission), shows the Admin link
  * - logout: invoked when the Logout button is clicked
  *
  * Navigation behavior:
  * - Always visible: "Products", "Legacy"
  * - If not authenticated: "Register", "Login"
- * - If authenticated: "Logout" button and, if isAdmin, "Admin" link
+ * - If authenticated: "Logout" button and, if isStaff, "Admin" link
  * - ThemeToggle is always rendered as part of the navigation
  *
  * Styling and helpers:
@@ -56,7 +58,7 @@ import ThemeToggle from './ThemeToggle';
  * <Navbar />
  */
 export default function Navbar() {
-  const { token, logout, isAdmin } = useAuth();
+  const { token, logout, isStaff } = useAuth();
   const getLinkClassName = ({ isActive }: { isActive: boolean }) =>
     `${s.link} ${isActive ? s.linkActive : ''}`;
   const cartCount = useAtomValue(cartTotalCountAtom);
@@ -125,7 +127,11 @@ export default function Navbar() {
                 <MdFavorite size={18} aria-hidden="true" />
                 <span>Favorites</span>
               </NavLink>
-              {isAdmin && (
+              <NavLink to="/account" className={getLinkClassName}>
+                <MdManageAccounts size={18} aria-hidden="true" />
+                <span>Account</span>
+              </NavLink>
+              {isStaff && (
                 <NavLink to="/admin" className={getLinkClassName}>
                   <MdAdminPanelSettings size={18} aria-hidden="true" />
                   <span>Admin</span>
@@ -177,11 +183,13 @@ export default function Navbar() {
                 ) : (
                   <ul className={s.cartItemsList}>
                     {cartItems.map((item) => (
-                      <li key={item.id} className={s.cartItem}>
+                      <li key={cartLineKey(item)} className={s.cartItem}>
                         {item.image && (
                           <img src={item.image} alt={item.name} className={s.cartItemImage} />
                         )}
-                        <span className={s.cartItemName}>{item.name}</span>
+                        <span className={s.cartItemName}>
+                          {item.variantName ? `${item.name} (${item.variantName})` : item.name}
+                        </span>
                         <span className={s.cartItemQuantity}>x{item.quantity}</span>
                         <span className={s.cartItemPrice}>
                           ${(item.price * item.quantity).toFixed(2)}
@@ -190,7 +198,7 @@ export default function Navbar() {
                     ))}
                   </ul>
                 )}
-                <div className={s.cartTotal}>Total: ${cartSummary.total.toFixed(2)}</div>
+                <div className={s.cartTotal}>Subtotal: ${cartSummary.subtotal.toFixed(2)}</div>
                 <Link
                   to="/checkout"
                   className={s.cartCheckoutButton}
@@ -6,6 +6,7 @@
 
 import { sprinkles } from '@client/app/sprinkles.css';
 import { vars } from '@client/app/theme.css';
+import { useDebounce } from '@client/lib/hooks/useDebounce';
 import { highlightSearch } from '@client/utils/searchHighlight';
 import { style } from '@vanilla-extract/css';
 import { useEffect, useRef, useState } from 'react';
@@ -23,7 +24,13 @@ interface AutocompleteProps<T extends AutocompleteItem> {
   value: string;
   onChange: (value: string) => void;
   onSelect?: (item: T) => void;
-  items: T[] | undefined;
+  items?: T[];
+  /**
+   * Fetch suggestions for the typed text (debounced) instead of filtering `items`
+   * locally; results are shown in the order returned. Keep the function stable
+   * (e.g. with useCallback) so it is not re-run on every render.
+   */
+  loadSuggestions?: (query: string) => Promise<T[]>;
   placeholder?: string;
   ariaLabel?: string;
   maxSuggestions?: number;
@@ -144,6 +151,9 @@ const itemPrice = style({
  *   placeholder="Search products..."
  *   maxSuggestions={5}
  * />
+ *
+ * // Server-ranked suggestions
+ * <Autocomplete value={q} onChange={setQ} loadSuggestions={fetchSuggestions} />
  * ```
  */
 export default function Autocomplete<T extends AutocompleteItem>({
@@ -151,6 +161,7 @@ export default function Autocomplete<T extends AutocompleteItem>({
   onChange,
   onSelect,
   items = [],
+  loadSuggestions,
   placeholder = 'Search...',
   ariaLabel = 'Search',
   maxSuggestions = 5,
@@ -164,21 +175,49 @@ export default function Autocomplete<T extends AutocompleteItem>({
   const inputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const suggestionsRef = useRef<HTMLDivElement>(null);
+  const [remoteItems, setRemoteItems] = useState<T[]>([]);
+  const debouncedValue = useDebounce(value, 200);
 
-  // Filter items based on search query
-  const suggestions = items
-    .filter((item) => {
-      if (!value.trim()) return false;
-      const query = value.toLowerCase();
-      return searchFields.some((field) => {
-        const fieldValue = item[field];
-        if (typeof fieldValue === 'string') {
-          return fieldValue.toLowerCase().includes(query);
-        }
-        return false;
+  // Fetch server suggestions once typing pauses
+  useEffect(() => {
+    if (!loadSuggestions) return;
+    const query = debouncedValue.trim();
+    if (!query) {
+      setRemoteItems([]);
+      return;
+    }
+    let cancelled = false;
+    loadSuggestions(query)
+      .then((found) => {
+        if (cancelled) return;
+        setRemoteItems(found);
+        setIsOpen(found.length > 0 && document.activeElement === inputRef.current);
+      })
+      .catch(() => {
+        if (!cancelled) setRemoteItems([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedValue, loadSuggestions]);
+
+  // Filter items based on search query; server suggestions arrive already matched
+  const matches = loadSuggestions
+    ? value.trim()
+      ? remoteItems
+      : []
+    : items.filter((item) => {
+        if (!value.trim()) return false;
+        const query = value.toLowerCase();
+        return searchFields.some((field) => {
+          const fieldValue = item[field];
+          if (typeof fieldValue === 'string') {
+            return fieldValue.toLowerCase().includes(query);
+          }
+          return false;
+        });
       });
-    })
-    .slice(0, maxSuggestions);
+  const suggestions = matches.slice(0, maxSuggestions);
 
   // Reset highlighted index when suggestions change
   useEffect(() => {
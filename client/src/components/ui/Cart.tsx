@@ -4,22 +4,28 @@ import { useEffect, useId, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { btnOutline, btnPrimary } from '../../app/ui.css';
 import {
+  acceptCartPricesAtom,
   cartItemsAtom,
+  cartLineKey,
   cartSummaryAtom,
   clearCartAtom,
   isCartOpenAtom,
   removeFromCartAtom,
   updateCartItemQuantityAtom,
 } from '../../features/cart/cartAtoms';
+import { useCartQuote } from '../../features/cart/useCartQuote';
 import * as s from './cart.css';
 
 export function Cart() {
   const [isOpen, setIsOpen] = useAtom(isCartOpenAtom);
   const cartItems = useAtomValue(cartItemsAtom);
   const cartSummary = useAtomValue(cartSummaryAtom);
+  const { data: quote, isError: quoteFailed } = useCartQuote({ enabled: isOpen });
   const [, clearCart] = useAtom(clearCartAtom);
   const [, removeFromCart] = useAtom(removeFromCartAtom);
   const [, updateQuantity] = useAtom(updateCartItemQuantityAtom);
+  const [, acceptPrices] = useAtom(acceptCartPricesAtom);
+  const pricesChanged = cartItems.some((item) => item.previousPrice != null);
   const dialogRef = useRef<HTMLDivElement>(null);
   const closeButtonRef = useRef<HTMLButtonElement>(null);
   const previouslyFocusedElementRef = useRef<HTMLElement | null>(null);
@@ -27,12 +33,12 @@ export function Cart() {
 
   const handleClose = () => setIsOpen(false);
 
-  const handleQuantityChange = (productId: string, newQuantity: number) => {
+  const handleQuantityChange = (lineKey: string, newQuantity: number) => {
     const nextQuantity = Math.max(newQuantity, 0);
     if (nextQuantity === 0) {
-      removeFromCart(productId);
+      removeFromCart(lineKey);
     } else {
-      updateQuantity(productId, nextQuantity);
+      updateQuantity(lineKey, nextQuantity);
     }
   };
 
@@ -174,7 +180,7 @@ export function Cart() {
                 <div className={s.listWrapper}>
                   <ul role="list" className={s.itemsList}>
                     {cartItems.map((item) => (
-                      <li key={item.id} className={s.item}>
+                      <li key={cartLineKey(item)} className={s.item}>
                         <div className={s.itemImageWrapper}>
                           {item.image ? (
                             <img src={item.image} alt={item.name} className={s.itemImage} />
@@ -201,11 +207,24 @@ export function Cart() {
                               ${(item.price * item.quantity).toFixed(2)}
                             </p>
                           </div>
+                          {item.variantName && <p className={s.itemMeta}>{item.variantName}</p>}
                           <p className={s.itemMeta}>${item.price.toFixed(2)} each</p>
+                          {item.previousPrice != null && (
+                            <p className={s.itemNotice}>
+                              Price changed from ${item.previousPrice.toFixed(2)}
+                            </p>
+                          )}
+                          {item.stock != null && item.quantity > item.stock && (
+                            <p className={s.itemNotice}>
+                              {item.stock > 0 ? `Only ${item.stock} in stock` : 'Out of stock'}
+                            </p>
+                          )}
                           <div className={s.itemFooter}>
                             <div className={s.quantityControls}>
                               <button
-                                onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
+                                onClick={() =>
+                                  handleQuantityChange(cartLineKey(item), item.quantity - 1)
+                                }
                                 className={s.quantityButton}
                                 aria-label={`Decrease quantity of ${item.name}`}
                               >
@@ -213,7 +232,9 @@ export function Cart() {
                               </button>
                               <span className={s.quantityValue}>{item.quantity}</span>
                               <button
-                                onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
+                                onClick={() =>
+                                  handleQuantityChange(cartLineKey(item), item.quantity + 1)
+                                }
                                 className={s.quantityButton}
                                 aria-label={`Increase quantity of ${item.name}`}
                               >
@@ -222,7 +243,7 @@ export function Cart() {
                             </div>
                             <button
                               type="button"
-                              onClick={() => removeFromCart(item.id)}
+                              onClick={() => removeFromCart(cartLineKey(item))}
                               className={s.removeButton}
                             >
                               Remove
@@ -243,25 +264,36 @@ export function Cart() {
                     <span>${cartSummary.subtotal.toFixed(2)}</span>
                   </div>
                   <div className={s.summaryRow}>
-                    <span>Est. Tax</span>
-                    <span>${cartSummary.taxAmount.toFixed(2)}</span>
+                    <span>Est. {quote?.taxLabel ?? 'Tax'}</span>
+                    <span>{quote ? `$${quote.taxAmount.toFixed(2)}` : '—'}</span>
                   </div>
                   <div className={s.summaryRow}>
                     <span>Est. Shipping</span>
                     <span>
-                      {cartSummary.shippingCost === 0
-                        ? 'Free'
-                        : `$${cartSummary.shippingCost.toFixed(2)}`}
+                      {!quote
+                        ? '—'
+                        : quote.shippingCost === 0
+                          ? 'Free'
+                          : `$${quote.shippingCost.toFixed(2)}`}
                     </span>
                   </div>
                   <div className={s.summaryDivider}>
                     <div className={s.summaryTotal}>
                       <span>Total</span>
-                      <span>${cartSummary.total.toFixed(2)}</span>
+                      <span>{quote ? `$${quote.totalAmount.toFixed(2)}` : '—'}</span>
                     </div>
                   </div>
                 </div>
                 <div className={s.actions}>
+                  {pricesChanged && (
+                    <button
+                      type="button"
+                      onClick={acceptPrices}
+                      className={`${btnOutline} ${s.fullWidthButton}`}
+                    >
+                      Accept new prices
+                    </button>
+                  )}
                   <button
                     type="button"
                     onClick={clearCart}
@@ -284,7 +316,11 @@ export function Cart() {
                     Continue Shopping
                   </Link>
                 </div>
-                <p className={s.footerNote}>Shipping and taxes calculated at checkout.</p>
+                <p className={s.footerNote}>
+                  {quoteFailed
+                    ? 'Unable to estimate totals right now.'
+                    : 'Tax is estimated until a shipping address is entered at checkout.'}
+                </p>
               </div>
             )}
           </div>
@@ -238,6 +238,12 @@ export const itemMeta = style({
   color: vars.color.textMuted,
 });
 
+export const itemNotice = style({
+  marginTop: vars.space.xs,
+  fontSize: '0.85rem',
+  color: vars.color.warning,
+});
+
 export const itemFooter = style({
   marginTop: 'auto',
   display: 'flex',
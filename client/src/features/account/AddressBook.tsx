@@ -0,0 +1,196 @@
+/**
+ * The signed-in user's saved shipping addresses: add, edit, delete and pick
+ * the default one that checkout fills in. Used on the account settings page.
+ */
+
+import {
+  addAddress,
+  deleteAddress,
+  listAddresses,
+  setDefaultAddress,
+  updateAddress,
+} from '@client/api/clients/profile.api';
+import { actions, btnOutline, btnPrimary, field, input, label } from '@client/app/ui.css';
+import { showToast } from '@client/lib/toast';
+import type { AddressInput, SavedAddress } from '@client/types/profile';
+import { type FormEvent, useCallback, useEffect, useState } from 'react';
+import { formatAddress } from './address';
+
+const EMPTY_FORM: AddressInput = {
+  label: '',
+  fullName: '',
+  street: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: '',
+  phone: '',
+  isDefault: false,
+};
+
+const FIELDS: Array<{ name: keyof AddressInput; title: string; required?: boolean }> = [
+  { name: 'label', title: 'Label (e.g. Home)' },
+  { name: 'fullName', title: 'Full name', required: true },
+  { name: 'street', title: 'Street address', required: true },
+  { name: 'city', title: 'City', required: true },
+  { name: 'state', title: 'State/Province', required: true },
+  { name: 'postalCode', title: 'Postal code', required: true },
+  { name: 'country', title: 'Country', required: true },
+  { name: 'phone', title: 'Phone' },
+];
+
+function errorMessage(e: any, fallback: string): string {
+  return e?.response?.data?.error?.message || fallback;
+}
+
+export function AddressBook() {
+  const [addresses, setAddresses] = useState<SavedAddress[] | null>(null);
+  const [form, setForm] = useState<AddressInput>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setAddresses(await listAddresses());
+    } catch (e: any) {
+      showToast(errorMessage(e, 'Failed to load addresses'), { type: 'error' });
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  function close() {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setShowForm(false);
+  }
+
+  function edit(address: SavedAddress) {
+    setForm({ ...EMPTY_FORM, ...address });
+    setEditingId(address.id);
+    setShowForm(true);
+  }
+
+  async function run(action: () => Promise<unknown>, fallback: string) {
+    try {
+      setBusy(true);
+      await action();
+      await refresh();
+      return true;
+    } catch (e: any) {
+      showToast(errorMessage(e, fallback), { type: 'error' });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    const saved = await run(
+      () => (editingId ? updateAddress(editingId, form) : addAddress(form)),
+      'Failed to save address'
+    );
+    if (saved) close();
+  }
+
+  if (!addresses) return <p>Loading addresses…</p>;
+
+  return (
+    <div style={{ display: 'grid', gap: 12 }}>
+      {addresses.length === 0 && <p style={{ margin: 0 }}>No saved addresses yet.</p>}
+      {addresses.map((address) => (
+        <div
+          key={address.id}
+          style={{ display: 'flex', gap: 12, alignItems: 'flex-start', flexWrap: 'wrap' }}
+        >
+          <div style={{ flex: 1, minWidth: 220 }}>
+            <strong>{address.label || address.fullName}</strong>
+            {address.isDefault && <span style={{ color: '#2f7a3d' }}> · Default</span>}
+            <div style={{ color: '#6d5b45', fontSize: '0.9em' }}>{formatAddress(address)}</div>
+          </div>
+          {!address.isDefault && (
+            <button
+              type="button"
+              className={btnOutline}
+              disabled={busy}
+              onClick={() => run(() => setDefaultAddress(address.id), 'Failed to change default')}
+            >
+              Make default
+            </button>
+          )}
+          <button
+            type="button"
+            className={btnOutline}
+            disabled={busy}
+            onClick={() => edit(address)}
+          >
+            Edit
+          </button>
+          <button
+            type="button"
+            className={btnOutline}
+            disabled={busy}
+            onClick={() => {
+              if (!confirm(`Delete ${address.label || formatAddress(address)}?`)) return;
+              run(async () => {
+                await deleteAddress(address.id);
+                if (editingId === address.id) close();
+              }, 'Failed to delete address');
+            }}
+          >
+            Delete
+          </button>
+        </div>
+      ))}
+
+      {showForm ? (
+        <form onSubmit={onSubmit} style={{ display: 'grid', gap: 12 }}>
+          <h3 style={{ margin: 0 }}>{editingId ? 'Edit address' : 'New address'}</h3>
+          {FIELDS.map(({ name, title, required }) => (
+            <div key={name} className={field}>
+              <label className={label} htmlFor={`address-${name}`}>
+                {title}
+                {required && ' *'}
+              </label>
+              <input
+                id={`address-${name}`}
+                className={input}
+                required={required}
+                value={(form[name] as string | undefined) ?? ''}
+                onChange={(e) => setForm((prev) => ({ ...prev, [name]: e.target.value }))}
+              />
+            </div>
+          ))}
+          {!(editingId && addresses.find((a) => a.id === editingId)?.isDefault) && (
+            <label>
+              <input
+                type="checkbox"
+                checked={!!form.isDefault}
+                onChange={(e) => setForm((prev) => ({ ...prev, isDefault: e.target.checked }))}
+              />{' '}
+              Make this my default address
+            </label>
+          )}
+          <div className={actions}>
+            <button className={btnPrimary} type="submit" disabled={busy}>
+              {busy ? 'Saving…' : 'Save address'}
+            </button>
+            <button className={btnOutline} type="button" onClick={close}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div>
+          <button type="button" className={btnOutline} onClick={() => setShowForm(true)}>
+            Add address
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
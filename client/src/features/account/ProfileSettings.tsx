@@ -0,0 +1,99 @@
+/**
+ * Form for the signed-in user's display name, phone number and marketing
+ * preferences. Used on the account settings page.
+ */
+
+import { getProfile, updateProfile } from '@client/api/clients/profile.api';
+import { actions, btnPrimary, field, input, label } from '@client/app/ui.css';
+import { showToast } from '@client/lib/toast';
+import type { MarketingPreferences } from '@client/types/profile';
+import { type FormEvent, useEffect, useState } from 'react';
+
+export function ProfileSettings() {
+  const [loaded, setLoaded] = useState(false);
+  const [displayName, setDisplayName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [marketing, setMarketing] = useState<MarketingPreferences>({ email: false, sms: false });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getProfile()
+      .then((profile) => {
+        setDisplayName(profile.displayName ?? '');
+        setPhone(profile.phone ?? '');
+        setMarketing(profile.marketing);
+        setLoaded(true);
+      })
+      .catch(() => setLoaded(false));
+  }, []);
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await updateProfile({ displayName, phone, marketing });
+      showToast('Profile saved', { type: 'success' });
+    } catch (err: any) {
+      showToast(err?.response?.data?.error?.message || 'Failed to save profile', {
+        type: 'error',
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!loaded) return null;
+  return (
+    <form onSubmit={onSubmit} style={{ display: 'grid', gap: 12 }}>
+      <div className={field}>
+        <label className={label} htmlFor="profile-name">
+          Display name
+        </label>
+        <input
+          id="profile-name"
+          className={input}
+          maxLength={80}
+          value={displayName}
+          onChange={(e) => setDisplayName(e.target.value)}
+        />
+      </div>
+      <div className={field}>
+        <label className={label} htmlFor="profile-phone">
+          Phone
+        </label>
+        <input
+          id="profile-phone"
+          type="tel"
+          className={input}
+          maxLength={20}
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+        />
+      </div>
+      <fieldset className={field} style={{ border: 'none', padding: 0, margin: 0 }}>
+        <legend className={label}>Offers and news</legend>
+        <label>
+          <input
+            type="checkbox"
+            checked={marketing.email}
+            onChange={(e) => setMarketing((prev) => ({ ...prev, email: e.target.checked }))}
+          />{' '}
+          By email
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={marketing.sms}
+            onChange={(e) => setMarketing((prev) => ({ ...prev, sms: e.target.checked }))}
+          />{' '}
+          By text message
+        </label>
+      </fieldset>
+      <div className={actions}>
+        <button className={btnPrimary} type="submit" disabled={saving}>
+          {saving ? 'Saving…' : 'Save profile'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,19 @@
+import type { ShippingAddress } from '@client/types/orders';
+import type { SavedAddress } from '@client/types/profile';
+
+/** One-line summary, e.g. "A B, 1 St, City, State 1234, AU" */
+export function formatAddress(address: ShippingAddress): string {
+  return [
+    address.fullName,
+    address.street,
+    address.city,
+    `${address.state} ${address.postalCode}`,
+    address.country,
+  ].join(', ');
+}
+
+/** The shipping address fields of a saved address, as an order takes them */
+export function toShippingAddress(address: SavedAddress): ShippingAddress {
+  const { fullName, street, city, state, postalCode, country, phone } = address;
+  return { fullName, street, city, state, postalCode, country, ...(phone ? { phone } : {}) };
+}
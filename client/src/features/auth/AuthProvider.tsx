@@ -2,18 +2,32 @@
  * Authentication context provider and hook powering client-side auth state.
  */
 
-import { login as apiLogin } from '@client/api/clients/auth.api';
+import {
+  login as apiLogin,
+  loginTwoFactor as apiLoginTwoFactor,
+  logout as apiLogout,
+} from '@client/api/clients/auth.api';
+import type { Permission } from '@client/types/roles';
 import type { ReactNode } from 'react';
-import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
 
-type User = { id: string; role: 'user' | 'admin' } | null;
+type User = { id: string; role: string; permissions: Permission[] } | null;
+
+/** Either signed in, or the password was right and a two-factor code is needed */
+export type LoginOutcome =
+  | { twoFactorRequired: false }
+  | { twoFactorRequired: true; challengeToken: string };
 
 interface Ctx {
   user: User;
   token: string | null;
-  login: (data: { email: string; password: string }) => Promise<void>;
+  login: (data: { email: string; password: string }) => Promise<LoginOutcome>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<void>;
   logout: () => void;
-  isAdmin: boolean;
+  /** Whether the user's role grants a permission */
+  can: (permission: Permission) => boolean;
+  /** Whether the user has any permission, i.e. may open the admin area */
+  isStaff: boolean;
 }
 
 const AuthCtx = createContext<Ctx | undefined>(undefined);
@@ -24,9 +38,9 @@ const AuthCtx = createContext<Ctx | undefined>(undefined);
  * This provider:
  * - Restores a previously stored JWT token from localStorage on initial client render and attempts
  *   to decode its payload (client-side only, without verification) to restore a minimal `user`
- *   object used for UI state (expects a payload with `sub` and `role`).
+ *   object used for UI state (expects a payload with `sub`, `role` and `permissions`).
  * - Exposes `login` and `logout` functions to perform authentication changes.
- * - Exposes `isAdmin` computed flag derived from the current user's role.
+ * - Exposes `can(permission)` and the `isStaff` flag derived from the user's permissions.
  *
  * Important security note:
  * - The JWT payload decoding performed here uses atob and does NOT verify the token signature.
@@ -37,24 +51,29 @@ const AuthCtx = createContext<Ctx | undefined>(undefined);
  *
  * @remarks
  * - On mount, the provider reads `localStorage.getItem('token')`. If a token exists, it attempts
- *   to base64-decode the token's payload and parse it as JSON. If the payload contains a `role`
- *   equal to `'user'` or `'admin'`, the provider will set `user = { id: String(sub), role }`.
+ *   to base64-decode the token's payload and parse it as JSON. If the payload contains a string
+ *   `role`, the provider will set `user = { id: String(sub), role, permissions }`.
  *   Any decoding/parsing errors are caught and logged; no exception is thrown to the app.
  *
  * - The `login` function calls an external `apiLogin` helper and expects a response shape like:
- *   { data: { token: string, user: { id: string; role: 'user' | 'admin' } } }.
- *   If the response is invalid, `login` clears auth state, removes any stored token and throws
- *   an Error indicating an invalid login response.
+ *   { data: { token: string, refreshToken: string, user: { id: string; role: string; permissions: Permission[] } } }.
+ *   Both tokens are stored; the axios instance uses the refresh token to renew the access token
+ *   when it expires. If the response is invalid, `login` clears auth state, removes any stored
+ *   tokens and throws an Error indicating an invalid login response.
+ *   For users with two-factor authentication the server answers with a challenge instead; `login`
+ *   resolves with it and `completeTwoFactorLogin` finishes the login with the user's code.
  *
- * - The `logout` function clears `user` and `token` in state and removes the token from
- *   localStorage.
+ * - The `logout` function asks the server to end the current session (best effort, without
+ *   waiting), then clears `user` and `token` in state and removes both tokens from localStorage.
  *
  * @returns A React element: an AuthCtx.Provider that supplies the following value:
- * - user: { id: string; role: 'user' | 'admin' } | null
+ * - user: { id: string; role: string; permissions: Permission[] } | null
  * - token: string | null
- * - login: (data: { email: string; password: string }) => Promise<void>
+ * - login: (data: { email: string; password: string }) => Promise<LoginOutcome>
+ * - completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<void>
  * - logout: () => void
- * - isAdmin: boolean
+ * - can: (permission: Permission) => boolean
+ * - isStaff: boolean
  *
  * @example
  * <AuthProvider>
@@ -78,9 +97,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (!payloadB64) return;
       const normalizedB64 = payloadB64 + '='.repeat((4 - (payloadB64.length % 4)) % 4);
       const json = JSON.parse(atob(normalizedB64));
-      // Expect { sub, role }
-      if (json && typeof json === 'object' && (json.role === 'user' || json.role === 'admin')) {
-        setUser({ id: String((json as any).sub ?? ''), role: (json as any).role });
+      // Expect { sub, role, permissions }
+      if (json && typeof json === 'object' && typeof json.role === 'string') {
+        setUser({
+          id: String((json as any).sub ?? ''),
+          role: json.role,
+          permissions: Array.isArray(json.permissions) ? json.permissions : [],
+        });
       }
     } catch (err) {
       // Failed to decode JWT payload, possibly invalid token
@@ -88,31 +111,55 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
-  async function login(data: { email: string; password: string }) {
-    // api returns { data: { token, user } }
+  async function login(data: { email: string; password: string }): Promise<LoginOutcome> {
+    // api returns { data: { token, user } } or { data: { twoFactorRequired, challengeToken } }
     const res = await apiLogin(data);
     const payload = (res as any)?.data;
+    if (payload?.twoFactorRequired && typeof payload.challengeToken === 'string') {
+      return { twoFactorRequired: true, challengeToken: payload.challengeToken };
+    }
+    signIn(payload);
+    return { twoFactorRequired: false };
+  }
+
+  async function completeTwoFactorLogin(challengeToken: string, code: string) {
+    const res = await apiLoginTwoFactor(challengeToken, code);
+    signIn((res as any)?.data);
+  }
+
+  function signIn(payload: any) {
     if (!payload || typeof payload.token !== 'string' || !payload.user) {
       setUser(null);
       setToken(null);
       localStorage.removeItem('token');
+      localStorage.removeItem('refreshToken');
       throw new Error('Invalid login response from server');
     }
-    setUser(payload.user as { id: string; role: 'user' | 'admin' });
+    setUser({ ...payload.user, permissions: payload.user.permissions ?? [] });
     setToken(payload.token);
     localStorage.setItem('token', payload.token);
+    localStorage.setItem('refreshToken', payload.refreshToken);
   }
 
   function logout() {
+    const current = localStorage.getItem('token');
+    if (current) apiLogout(current).catch(() => undefined);
     setUser(null);
     setToken(null);
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
   }
 
-  const isAdmin = useMemo(() => user?.role === 'admin', [user]);
+  const can = useCallback(
+    (permission: Permission) => !!user?.permissions.includes(permission),
+    [user]
+  );
+  const isStaff = useMemo(() => !!user?.permissions.length, [user]);
 
   return (
-    <AuthCtx.Provider value={{ user, token, login, logout, isAdmin }}>{children}</AuthCtx.Provider>
+    <AuthCtx.Provider value={{ user, token, login, completeTwoFactorLogin, logout, can, isStaff }}>
+      {children}
+    </AuthCtx.Provider>
   );
 }
 
@@ -1,29 +1,26 @@
 /**
- * Route guard component enforcing authentication and optional role checks.
+ * Route guard component enforcing authentication and optional permission checks.
  */
 
+import type { Permission } from '@client/types/roles';
 import type { ReactNode } from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from './AuthProvider';
 
 /**
- * Protects routes by requiring authentication and (optionally) a specific user role.
- * Redirects to login if not authenticated, or to home if role does not match.
- *
- * @param children - The components to render if access is granted.
- * @param role - Optional role required to access the route ('user' or 'admin').
- */
-/**
- * Protects a route by requiring an authenticated user and, optionally, a specific role.
+ * Protects a route by requiring an authenticated user and, optionally, a permission.
  *
  * If no authentication token is available (from useAuth()), the component redirects to
  * "/login" and preserves the attempted location in navigation state ({ from: location }).
- * If a required role is provided and the current user's role does not match, it redirects
- * to "/unauthorized". When authentication and role checks pass, the component renders
- * the provided children.
+ * If a `permission` is given and the user's role does not grant it, or `staff` is set and the
+ * role grants no permission at all, it redirects to "/unauthorized". When the checks pass, the
+ * component renders the provided children.
+ *
+ * The server enforces the same permissions; this only keeps users away from pages they cannot use.
  *
  * @param children - The React nodes to render when access is granted.
- * @param role - Optional required role for access. Allowed values: 'user' | 'admin'.
+ * @param permission - Optional permission required for access (e.g. 'products:write').
+ * @param staff - Require any permission, for areas whose sections check their own.
  * @returns The given children when access is permitted, otherwise a <Navigate /> redirect element.
  *
  * @example
@@ -32,17 +29,27 @@ import { useAuth } from './AuthProvider';
  * </RequireAuth>
  *
  * @example
- * <RequireAuth role="admin">
+ * <RequireAuth staff>
  *   <AdminDashboard />
  * </RequireAuth>
  *
  * @remarks
- * Relies on useAuth() to obtain { token, user } and useLocation() to capture the attempted route.
+ * Relies on useAuth() to obtain { token, can, isStaff } and useLocation() to capture the attempted route.
  */
-export function RequireAuth({ children, role }: { children: ReactNode; role?: 'user' | 'admin' }) {
-  const { token, user } = useAuth();
+export function RequireAuth({
+  children,
+  permission,
+  staff,
+}: {
+  children: ReactNode;
+  permission?: Permission;
+  staff?: boolean;
+}) {
+  const { token, can, isStaff } = useAuth();
   const location = useLocation();
   if (!token) return <Navigate to="/login" replace state={{ from: location }} />;
-  if (role && user?.role !== role) return <Navigate to="/unauthorized" replace />;
+  if ((permission && !can(permission)) || (staff && !isStaff)) {
+    return <Navigate to="/unauthorized" replace />;
+  }
   return children;
 }
@@ -0,0 +1,94 @@
+/**
+ * List of the devices a user is signed in on, each with a button to sign it
+ * out. Used on the account settings page for the user's own sessions and in
+ * the admin Users page for any user's.
+ */
+
+import { btnOutline } from '@client/app/ui.css';
+import { showToast } from '@client/lib/toast';
+import type { Session } from '@client/types/session';
+import { useCallback, useEffect, useState } from 'react';
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleString();
+}
+
+export function SessionList({
+  load,
+  revoke,
+}: {
+  load: () => Promise<Session[]>;
+  revoke: (session: Session) => Promise<void>;
+}) {
+  const [sessions, setSessions] = useState<Session[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setError(null);
+      setSessions(await load());
+    } catch (e: any) {
+      setError(e?.response?.data?.error?.message || 'Failed to load sessions');
+    }
+  }, [load]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  async function signOut(session: Session) {
+    if (!confirm(`Sign out ${session.device}?`)) return;
+    try {
+      setBusyId(session.id);
+      await revoke(session);
+      showToast(`Signed out ${session.device}`, { type: 'success' });
+      await refresh();
+    } catch (e: any) {
+      showToast(e?.response?.data?.error?.message || 'Failed to sign out the session', {
+        type: 'error',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (error) return <p style={{ color: 'crimson' }}>{error}</p>;
+  if (!sessions) return <p>Loading sessions…</p>;
+  if (sessions.length === 0) return <p>No active sessions.</p>;
+
+  return (
+    <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'grid', gap: 8 }}>
+      {sessions.map((session) => (
+        <li
+          key={session.id}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: 12,
+            padding: 8,
+            borderBottom: '1px solid #ddd',
+          }}
+        >
+          <div>
+            <strong>{session.device}</strong>
+            {session.current && <span style={{ color: '#2f7a3d' }}> · This device</span>}
+            <div style={{ fontSize: 13, color: '#6d5b45' }}>
+              Last active {formatTime(session.lastSeenAt)}
+              {session.ip ? ` from ${session.ip}` : ''} · Signed in {formatTime(session.createdAt)}
+            </div>
+          </div>
+          <button
+            type="button"
+            className={btnOutline}
+            disabled={busyId === session.id}
+            onClick={() => signOut(session)}
+          >
+            {busyId === session.id ? 'Signing out…' : 'Sign out'}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * Two-factor authentication settings of the signed-in user: enrolment with an
+ * authenticator app, recovery codes and switching 2FA off again. Used on the
+ * account settings page.
+ */
+
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  setupTwoFactor,
+} from '@client/api/clients/auth.api';
+import { btnOutline, btnPrimary, input } from '@client/app/ui.css';
+import { showToast } from '@client/lib/toast';
+import type { TwoFactorSetup, TwoFactorStatus } from '@client/types/twoFactor';
+import { type ReactNode, useCallback, useEffect, useState } from 'react';
+
+function errorMessage(e: any, fallback: string): string {
+  return e?.response?.data?.error?.message || fallback;
+}
+
+/** Base32 secret in groups of four, easier to type into an app */
+function groupSecret(secret: string): string {
+  return secret.replace(/(.{4})/g, '$1 ').trim();
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div>
+      <p style={{ marginTop: 0 }}>
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator app. They will not be shown again.
+      </p>
+      <ul
+        style={{
+          fontFamily: 'monospace',
+          columns: 2,
+          listStyle: 'none',
+          padding: 0,
+          margin: '0 0 12px',
+        }}
+      >
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <button type="button" className={btnOutline} onClick={onDone}>
+        I&apos;ve saved them
+      </button>
+    </div>
+  );
+}
+
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStatus(await getTwoFactorStatus());
+    } catch {
+      setStatus(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  async function run(action: () => Promise<void>, fallback: string) {
+    try {
+      setBusy(true);
+      await action();
+      setCode('');
+    } catch (e: any) {
+      showToast(errorMessage(e, fallback), { type: 'error' });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const start = () =>
+    run(async () => {
+      setSetup(await setupTwoFactor());
+    }, 'Failed to start two-factor setup');
+
+  const enable = () =>
+    run(async () => {
+      setRecoveryCodes(await enableTwoFactor(code.trim()));
+      setSetup(null);
+      showToast('Two-factor authentication is on', { type: 'success' });
+      await refresh();
+    }, 'Failed to turn on two-factor authentication');
+
+  const disable = () => {
+    if (!confirm('Turn off two-factor authentication?')) return;
+    return run(async () => {
+      await disableTwoFactor(code.trim());
+      showToast('Two-factor authentication is off', { type: 'success' });
+      await refresh();
+    }, 'Failed to turn off two-factor authentication');
+  };
+
+  const renewCodes = () =>
+    run(async () => {
+      setRecoveryCodes(await regenerateRecoveryCodes(code.trim()));
+      await refresh();
+    }, 'Failed to create new recovery codes');
+
+  if (!status) return null;
+
+  const codeInput = (
+    <input
+      className={input}
+      aria-label="Authentication code"
+      autoComplete="one-time-code"
+      inputMode="numeric"
+      placeholder="123456"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      style={{ maxWidth: 180 }}
+    />
+  );
+
+  let body: ReactNode;
+  if (recoveryCodes) {
+    body = <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+  } else if (setup) {
+    body = (
+      <div style={{ display: 'grid', gap: 12 }}>
+        <p style={{ margin: 0 }}>
+          Add your account to an authenticator app (such as Google Authenticator, 1Password or
+          Aegis): on your phone, <a href={setup.otpauthUrl}>open this setup link</a>, or enter this
+          key by hand:
+        </p>
+        <code style={{ fontSize: '1.1em', wordBreak: 'break-all' }}>
+          {groupSecret(setup.secret)}
+        </code>
+        <p style={{ margin: 0 }}>Then enter the 6-digit code the app shows:</p>
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+          {codeInput}
+          <button
+            type="button"
+            className={btnPrimary}
+            disabled={busy || code.trim().length < 6}
+            onClick={enable}
+          >
+            Turn on
+          </button>
+          <button type="button" className={btnOutline} onClick={() => setSetup(null)}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  } else if (status.enabled) {
+    body = (
+      <div style={{ display: 'grid', gap: 12 }}>
+        <p style={{ margin: 0 }}>
+          <span style={{ color: '#2f7a3d' }}>On</span>
+          {status.enabledAt && ` since ${new Date(status.enabledAt).toLocaleDateString()}`} ·{' '}
+          {status.recoveryCodesRemaining} recovery codes left
+        </p>
+        <p style={{ margin: 0, color: '#6d5b45' }}>
+          Enter a current code to create new recovery codes
+          {status.required ? '.' : ' or to turn two-factor authentication off.'}
+        </p>
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+          {codeInput}
+          <button
+            type="button"
+            className={btnOutline}
+            disabled={busy || code.trim().length < 6}
+            onClick={renewCodes}
+          >
+            New recovery codes
+          </button>
+          {!status.required && (
+            <button
+              type="button"
+              className={btnOutline}
+              disabled={busy || code.trim().length < 6}
+              onClick={disable}
+            >
+              Turn off
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  } else {
+    body = (
+      <div style={{ display: 'grid', gap: 12 }}>
+        <p style={{ margin: 0 }}>
+          Protect your account with a code from an authenticator app each time you log in.
+        </p>
+        {status.required && (
+          <p style={{ margin: 0, color: '#8a5a00' }}>
+            Staff accounts must use two-factor authentication. Set it up to use the admin pages.
+          </p>
+        )}
+        <div>
+          <button type="button" className={btnPrimary} disabled={busy} onClick={start}>
+            Set up two-factor authentication
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return body;
+}
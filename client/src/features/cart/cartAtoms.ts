@@ -4,21 +4,152 @@
  * Jotai atoms and utilities for managing shopping cart state.
  * Handles cart items, quantities, and integration with the order system.
  *
+ * The cart itself lives on the server (see api/clients/cart.api). Actions
+ * update `cartItemsAtom` straight away, then replace it with the cart the
+ * server returns, or put the previous items back when the request fails.
+ *
  * @fileoverview Shopping cart state management
  * @module features/cart/cartAtoms
  */
 
-import { atom } from 'jotai';
+import { atom, type Setter } from 'jotai';
 import { atomWithStorage } from 'jotai/utils';
+import {
+  acceptCartPrices,
+  addCartItem,
+  clearCart,
+  forgetCartToken,
+  getCart,
+  getCartToken,
+  mergeGuestCart,
+  removeCartItem,
+  updateCartItem,
+} from '../../api/clients/cart.api';
 import { showToast } from '../../lib/toast';
+import type { CartView } from '../../types/cart';
 import type { CartItem } from '../../types/orders';
-import type { Product } from '../../types/product';
+import type { Product, ProductVariant } from '../../types/product';
+import { describeVariant } from '../products/variants';
+
+/**
+ * Identity of a cart line: the product, plus the variant for products with variants
+ */
+export function cartLineKey(item: Pick<CartItem, 'id' | 'variantId'>): string {
+  return item.variantId ? `${item.id}:${item.variantId}` : item.id;
+}
 
 /**
- * Cart items stored in localStorage
+ * Cart items stored in localStorage, so the last known cart shows before the
+ * server answers
  */
 export const cartItemsAtom = atomWithStorage<CartItem[]>('cart-items', []);
 
+/**
+ * Set once the stored items have come from the server. Items stored before
+ * carts were kept on the server never got there, and are sent on the next load.
+ */
+const SYNCED_KEY = 'cart-synced';
+
+function showServerCart(set: Setter, cart: CartView): void {
+  set(cartItemsAtom, fromServer(cart));
+  localStorage.setItem(SYNCED_KEY, 'true');
+}
+
+function fromServer(cart: CartView): CartItem[] {
+  return cart.lines.map((line) => ({
+    id: line.productId,
+    ...(line.variantId ? { variantId: line.variantId, variantName: line.variantName } : {}),
+    name: line.name,
+    price: line.unitPrice,
+    quantity: line.quantity,
+    image: line.image,
+    ...(line.priceChanged ? { previousPrice: line.previousUnitPrice } : {}),
+    stock: line.stock,
+  }));
+}
+
+/**
+ * Send a cart change to the server after it was applied locally: the server's
+ * cart replaces the local items, or `previous` is restored if the request fails.
+ */
+async function syncCart(
+  set: Setter,
+  previous: CartItem[],
+  request: () => Promise<CartView>,
+  failure: string
+): Promise<void> {
+  try {
+    showServerCart(set, await request());
+  } catch (e: any) {
+    set(cartItemsAtom, previous);
+    showToast(e?.response?.data?.error?.message || failure, { type: 'error' });
+  }
+}
+
+/**
+ * The signed-in user's cart, after merging in the guest cart they filled
+ * before logging in (the guest token is forgotten once merged or refused).
+ */
+async function fetchCart(signedIn: boolean): Promise<CartView> {
+  const guestToken = signedIn ? getCartToken() : null;
+  if (guestToken) {
+    try {
+      return await mergeGuestCart(guestToken);
+    } catch (e: any) {
+      if (e?.response?.status !== 400) throw e;
+      forgetCartToken();
+    }
+  }
+  return getCart();
+}
+
+/**
+ * Add items the server has never seen to its cart, one by one. Items that
+ * cannot be added any more (sold out, or no longer sold) are left out.
+ */
+async function sendLocalItems(items: CartItem[], cart: CartView): Promise<CartView> {
+  let latest = cart;
+  for (const item of items) {
+    try {
+      latest = await addCartItem({
+        productId: item.id,
+        variantId: item.variantId,
+        quantity: item.quantity,
+      });
+    } catch {
+      // left out; the cart shows what made it
+    }
+  }
+  return latest;
+}
+
+/**
+ * Action atom to load the cart from the server, e.g. on start-up and when the
+ * user logs in or out. While the server cannot be reached the stored items stay.
+ * Stored items that never reached the server are sent to an empty server cart
+ * rather than dropped.
+ */
+export const loadCartAtom = atom(null, async (get, set, signedIn: boolean) => {
+  const local = get(cartItemsAtom);
+  const unsent = local.length > 0 && !getCartToken() && localStorage.getItem(SYNCED_KEY) == null;
+  let cart: CartView;
+  try {
+    cart = await fetchCart(signedIn);
+    if (unsent && cart.lines.length === 0) cart = await sendLocalItems(local, cart);
+  } catch {
+    return;
+  }
+  showServerCart(set, cart);
+  if (cart.removed.length) {
+    showToast(
+      cart.removed.length === 1
+        ? 'An item in your cart is no longer available and was removed'
+        : `${cart.removed.length} items in your cart are no longer available and were removed`,
+      { type: 'warning' }
+    );
+  }
+});
+
 /**
  * Cart visibility state
  */
@@ -41,111 +172,139 @@ export const cartTotalPriceAtom = atom((get) => {
 });
 
 /**
- * Derived atom for cart subtotal, tax, and shipping
+ * Derived atom for cart subtotal and item count.
+ * Tax, shipping and totals come from the server quote (see useCartQuote).
  */
 export const cartSummaryAtom = atom((get) => {
   const items = get(cartItemsAtom);
   const subtotal = items.reduce((total, item) => total + item.price * item.quantity, 0);
-  const taxRate = 0.1; // 10% tax
-  const taxAmount = subtotal * taxRate;
-  const shippingCost = subtotal > 100 ? 0 : 10; // Free shipping over $100
-  const total = subtotal + taxAmount + shippingCost;
 
   return {
     subtotal,
-    taxAmount,
-    shippingCost,
-    total,
     itemCount: items.reduce((count, item) => count + item.quantity, 0),
   };
 });
 
 /**
- * Action atom to add item to cart
+ * Action atom to add item to cart. Products with variants are added per variant.
  */
-export const addToCartAtom = atom(null, (get, set, product: Product, quantity: number = 1) => {
-  const stockLevel = typeof product.stock === 'number' ? Math.max(0, Math.floor(product.stock)) : 0;
-  if (stockLevel <= 0) {
-    showToast('This item is out of stock', { type: 'warning' });
-    return;
-  }
+export const addToCartAtom = atom(
+  null,
+  async (get, set, product: Product, quantity: number = 1, variant?: ProductVariant) => {
+    const available = variant ? variant.stock : product.stock;
+    const stockLevel = typeof available === 'number' ? Math.max(0, Math.floor(available)) : 0;
+    if (stockLevel <= 0) {
+      showToast('This item is out of stock', { type: 'warning' });
+      return;
+    }
 
-  const currentItems = get(cartItemsAtom);
-  const existingItemIndex = currentItems.findIndex((item) => item.id === product.id);
-  const existingQty = existingItemIndex >= 0 ? currentItems[existingItemIndex].quantity : 0;
-  const desiredQty = existingQty + quantity;
-
-  if (desiredQty > stockLevel) {
-    const allowed = Math.max(0, stockLevel - existingQty);
-    if (allowed <= 0) {
-      showToast(`You already have the maximum available (${stockLevel}) in your cart`, {
-        type: 'warning',
+    const key = cartLineKey({ id: product.id, variantId: variant?.id });
+    const currentItems = get(cartItemsAtom);
+    const existingItemIndex = currentItems.findIndex((item) => cartLineKey(item) === key);
+    const existingQty = existingItemIndex >= 0 ? currentItems[existingItemIndex].quantity : 0;
+    const desiredQty = existingQty + quantity;
+
+    if (desiredQty > stockLevel) {
+      const allowed = Math.max(0, stockLevel - existingQty);
+      if (allowed <= 0) {
+        showToast(`You already have the maximum available (${stockLevel}) in your cart`, {
+          type: 'warning',
+        });
+        return;
+      }
+      showToast(`Only ${allowed} more available. Updated quantity to ${existingQty + allowed}.`, {
+        type: 'info',
       });
-      return;
+      quantity = allowed;
     }
-    showToast(`Only ${allowed} more available. Updated quantity to ${existingQty + allowed}.`, {
-      type: 'info',
-    });
-    quantity = allowed;
-  }
 
-  if (existingItemIndex >= 0) {
-    const updatedItems = [...currentItems];
-    updatedItems[existingItemIndex] = {
-      ...updatedItems[existingItemIndex],
-      quantity: updatedItems[existingItemIndex].quantity + quantity,
-    };
-    set(cartItemsAtom, updatedItems);
-  } else {
-    const newItem: CartItem = {
-      id: product.id,
-      name: product.name,
-      price: product.price,
-      quantity,
-      image: product.images?.[0] || product.imageUrls?.[0],
-    };
-    set(cartItemsAtom, [...currentItems, newItem]);
+    if (existingItemIndex >= 0) {
+      const updatedItems = [...currentItems];
+      updatedItems[existingItemIndex] = {
+        ...updatedItems[existingItemIndex],
+        quantity: updatedItems[existingItemIndex].quantity + quantity,
+      };
+      set(cartItemsAtom, updatedItems);
+    } else {
+      const newItem: CartItem = {
+        id: product.id,
+        name: product.name,
+        price: variant?.price ?? product.price,
+        quantity,
+        image: variant?.images?.[0] || product.images?.[0] || product.imageUrls?.[0],
+      };
+      if (variant) {
+        newItem.variantId = variant.id;
+        newItem.variantName = describeVariant(variant, product.options);
+      }
+      set(cartItemsAtom, [...currentItems, newItem]);
+    }
+    await syncCart(
+      set,
+      currentItems,
+      () => addCartItem({ productId: product.id, variantId: variant?.id, quantity }),
+      'Failed to add item to cart'
+    );
   }
-});
+);
 
 /**
- * Action atom to remove item from cart
+ * Action atom to remove a line (see cartLineKey) from cart
  */
-export const removeFromCartAtom = atom(null, (get, set, productId: string) => {
+export const removeFromCartAtom = atom(null, async (get, set, lineKey: string) => {
   const currentItems = get(cartItemsAtom);
-  const updatedItems = currentItems.filter((item) => item.id !== productId);
+  const updatedItems = currentItems.filter((item) => cartLineKey(item) !== lineKey);
   set(cartItemsAtom, updatedItems);
   showToast('Item removed from cart', { type: 'success' });
+  await syncCart(set, currentItems, () => removeCartItem(lineKey), 'Failed to remove item');
 });
 
 /**
- * Action atom to update item quantity in cart
+ * Action atom to update the quantity of a line (see cartLineKey) in cart
  */
 export const updateCartItemQuantityAtom = atom(
   null,
-  (get, set, productId: string, quantity: number) => {
-    if (quantity <= 0) {
-      // Remove item if quantity is 0 or negative
-      const currentItems = get(cartItemsAtom);
-      const updatedItems = currentItems.filter((item) => item.id !== productId);
-      set(cartItemsAtom, updatedItems);
-      return;
-    }
-
+  async (get, set, lineKey: string, quantity: number) => {
     const currentItems = get(cartItemsAtom);
-    const updatedItems = currentItems.map((item) =>
-      item.id === productId ? { ...item, quantity } : item
-    );
+    // Remove item if quantity is 0 or negative
+    const nextQuantity = Math.max(0, quantity);
+    const updatedItems =
+      nextQuantity === 0
+        ? currentItems.filter((item) => cartLineKey(item) !== lineKey)
+        : currentItems.map((item) =>
+            cartLineKey(item) === lineKey ? { ...item, quantity: nextQuantity } : item
+          );
     set(cartItemsAtom, updatedItems);
+    await syncCart(
+      set,
+      currentItems,
+      () => updateCartItem(lineKey, nextQuantity),
+      'Failed to update quantity'
+    );
   }
 );
 
 /**
  * Action atom to clear entire cart
  */
-export const clearCartAtom = atom(null, (_get, set) => {
+export const clearCartAtom = atom(null, async (get, set) => {
+  const currentItems = get(cartItemsAtom);
   set(cartItemsAtom, []);
   showToast('Cart cleared', { type: 'info' });
+  await syncCart(set, currentItems, clearCart, 'Failed to clear cart');
+});
+
+/**
+ * Action atom to accept the current prices of lines whose price changed since
+ * they were added
+ */
+export const acceptCartPricesAtom = atom(null, async (get, set) => {
+  const currentItems = get(cartItemsAtom);
+  set(
+    cartItemsAtom,
+    currentItems.map(({ previousPrice: _previousPrice, ...item }) => item)
+  );
+  await syncCart(set, currentItems, acceptCartPrices, 'Failed to update prices');
 });
 
 /**
@@ -165,10 +324,11 @@ export const isProductInCartAtom = atom((get) => (productId: string) => {
 });
 
 /**
- * Derived atom to get quantity of a specific product in cart
+ * Derived atom to get quantity of a specific product in cart, across its variants
  */
 export const getProductQuantityInCartAtom = atom((get) => (productId: string) => {
   const items = get(cartItemsAtom);
-  const item = items.find((item) => item.id === productId);
-  return item?.quantity || 0;
+  return items
+    .filter((item) => item.id === productId)
+    .reduce((total, item) => total + item.quantity, 0);
 });
@@ -0,0 +1,43 @@
+/**
+ * Query hook pricing the current cart on the server so displayed tax,
+ * shipping and totals match what order creation will charge.
+ */
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { useAtomValue } from 'jotai';
+import { ordersApi } from '../../api/clients/orders.api';
+import { useDebounce } from '../../lib/hooks/useDebounce';
+import type { QuoteOrderInput } from '../../types/orders';
+import { cartItemsAtom } from './cartAtoms';
+
+interface UseCartQuoteOptions {
+  destination?: { country?: string; state?: string };
+  promoCode?: string;
+  enabled?: boolean;
+}
+
+export function useCartQuote({ destination, promoCode, enabled = true }: UseCartQuoteOptions = {}) {
+  const cartItems = useAtomValue(cartItemsAtom);
+  const country = useDebounce(destination?.country?.trim() ?? '', 400);
+  const state = useDebounce(destination?.state?.trim() ?? '', 400);
+
+  const input: QuoteOrderInput = {
+    items: cartItems.map((item) => ({
+      productId: item.id,
+      ...(item.variantId ? { variantId: item.variantId } : {}),
+      quantity: item.quantity,
+    })),
+    ...(country ? { shippingAddress: { country, ...(state ? { state } : {}) } } : {}),
+    ...(promoCode ? { promoCode } : {}),
+  };
+
+  return useQuery({
+    queryKey: ['orders', 'quote', input],
+    queryFn: () => ordersApi.quoteOrder(input),
+    enabled: enabled && input.items.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 30_000,
+  });
+}
+
+export default useCartQuote;
@@ -0,0 +1,19 @@
+/**
+ * Keeps the local cart in step with the server cart: loads it on start-up and
+ * again whenever the signed-in user changes, merging a guest cart on login.
+ */
+
+import { useSetAtom } from 'jotai';
+import { useEffect } from 'react';
+import { useAuth } from '../auth/AuthProvider';
+import { loadCartAtom } from './cartAtoms';
+
+export function useCartSync(): void {
+  const { user } = useAuth();
+  const loadCart = useSetAtom(loadCartAtom);
+  const userId = user?.id;
+
+  useEffect(() => {
+    loadCart(!!userId);
+  }, [userId, loadCart]);
+}
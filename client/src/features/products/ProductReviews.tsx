@@ -0,0 +1,324 @@
+/**
+ * Reviews section of the product page: the rating summary with a histogram of
+ * star ratings, approved reviews sorted and paged with "Show more", and a form
+ * for signed-in customers who have received the product.
+ */
+
+import { getMyReview, listProductReviews, submitReview } from '@client/api/clients/reviews.api';
+import { btnOutline, btnPrimary, card, field, input, label } from '@client/app/ui.css';
+import { useAuth } from '@client/features/auth/AuthProvider';
+import type {
+  MyReview,
+  Review,
+  ReviewSort,
+  ReviewSummary,
+  StarRating,
+} from '@client/types/reviews';
+import { type FormEvent, useCallback, useEffect, useState } from 'react';
+
+const PAGE_SIZE = 5;
+
+const SORT_LABELS: Record<ReviewSort, string> = {
+  newest: 'Newest',
+  oldest: 'Oldest',
+  highest: 'Highest rated',
+  lowest: 'Lowest rated',
+};
+
+const STARS_DESCENDING: StarRating[] = [5, 4, 3, 2, 1];
+
+const MODERATION_NOTICE: Record<string, string> = {
+  pending: 'Your review is waiting for approval.',
+  hidden: 'Your review is not shown on this page.',
+  flagged: 'Your review is being checked by our team.',
+};
+
+function Stars({ value }: { value: number }) {
+  const rounded = Math.round(Math.max(0, Math.min(5, value)));
+  return (
+    <span aria-hidden="true" style={{ color: '#d49a6a' }}>
+      {'★'.repeat(rounded)}
+      {'☆'.repeat(5 - rounded)}
+    </span>
+  );
+}
+
+function RatingHistogram({ summary }: { summary: ReviewSummary }) {
+  return (
+    <div style={{ display: 'grid', gap: 4, minWidth: 220 }}>
+      {STARS_DESCENDING.map((star) => {
+        const count = summary.distribution[star] ?? 0;
+        const share = summary.count ? Math.round((count / summary.count) * 100) : 0;
+        return (
+          <div
+            key={star}
+            style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: '0.9rem' }}
+            title={`${count} review(s) with ${star} star(s)`}
+          >
+            <span style={{ width: 48 }}>{star} star</span>
+            <div
+              role="img"
+              aria-label={`${share}% of reviews give ${star} stars`}
+              style={{ flex: 1, height: 10, background: '#eadbc4', borderRadius: 5 }}
+            >
+              <div
+                style={{
+                  width: `${share}%`,
+                  height: '100%',
+                  background: '#d49a6a',
+                  borderRadius: 5,
+                }}
+              />
+            </div>
+            <span style={{ width: 32, textAlign: 'right', color: '#6d5b45' }}>{count}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function ReviewForm({
+  productId,
+  existing,
+  onSubmitted,
+}: {
+  productId: string;
+  existing: Review | null;
+  onSubmitted: (review: Review) => void;
+}) {
+  const [rating, setRating] = useState<StarRating | null>(existing?.rating ?? null);
+  const [title, setTitle] = useState(existing?.title ?? '');
+  const [body, setBody] = useState(existing?.body ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!rating) {
+      setError('Choose a star rating');
+      return;
+    }
+    try {
+      setSaving(true);
+      setError(null);
+      onSubmitted(await submitReview(productId, { rating, title, body }));
+    } catch (err: any) {
+      setError(err?.message || 'Failed to submit review');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: 'grid', gap: 8 }}>
+      <fieldset style={{ border: 0, padding: 0, margin: 0 }}>
+        <legend style={{ fontWeight: 600, marginBottom: 6 }}>Your rating</legend>
+        <div style={{ display: 'flex', gap: 6 }}>
+          {STARS_DESCENDING.slice()
+            .reverse()
+            .map((star) => (
+              <button
+                key={star}
+                type="button"
+                className={rating === star ? btnPrimary : btnOutline}
+                aria-pressed={rating === star}
+                aria-label={`${star} star${star > 1 ? 's' : ''}`}
+                onClick={() => setRating(star)}
+              >
+                {'★'.repeat(star)}
+              </button>
+            ))}
+        </div>
+      </fieldset>
+      <div className={field}>
+        <label className={label} htmlFor="review-title">
+          Title (optional)
+        </label>
+        <input
+          id="review-title"
+          className={input}
+          maxLength={120}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+      </div>
+      <div className={field}>
+        <label className={label} htmlFor="review-body">
+          Review
+        </label>
+        <textarea
+          id="review-body"
+          className={input}
+          rows={4}
+          minLength={10}
+          maxLength={5000}
+          required
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+        />
+      </div>
+      {error && <p style={{ color: 'crimson', margin: 0 }}>{error}</p>}
+      <div>
+        <button type="submit" className={btnPrimary} disabled={saving}>
+          {saving ? 'Submitting…' : existing ? 'Update review' : 'Submit review'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function ProductReviews({ productId }: { productId: string }) {
+  const { token } = useAuth();
+  const [sort, setSort] = useState<ReviewSort>('newest');
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mine, setMine] = useState<MyReview | null>(null);
+  const [writing, setWriting] = useState(false);
+
+  const load = useCallback(
+    async (cursor?: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await listProductReviews(productId, { sort, limit: PAGE_SIZE, cursor });
+        setSummary(res.meta.summary);
+        setReviews((prev) => (cursor ? [...prev, ...res.data] : res.data));
+        setNextCursor(res.meta.nextCursor);
+      } catch (e: any) {
+        setError(e?.response?.data?.error?.message || 'Failed to load reviews');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [productId, sort]
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    setWriting(false);
+    if (!token) {
+      setMine(null);
+      return;
+    }
+    let cancelled = false;
+    getMyReview(productId)
+      .then((result) => {
+        if (!cancelled) setMine(result);
+      })
+      .catch(() => {
+        if (!cancelled) setMine(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [productId, token]);
+
+  const ownReview = mine?.review ?? null;
+
+  return (
+    <section className={card} aria-labelledby="reviews-heading" style={{ marginTop: 16 }}>
+      <h3 id="reviews-heading" style={{ marginTop: 0 }}>
+        Customer reviews
+      </h3>
+      {summary && (
+        <div style={{ display: 'flex', gap: 24, flexWrap: 'wrap', marginBottom: 12 }}>
+          <div>
+            <div style={{ fontSize: '2rem', fontWeight: 700 }}>
+              {summary.count ? summary.average.toFixed(1) : '–'}
+            </div>
+            <Stars value={summary.average} />
+            <div style={{ color: '#6d5b45', fontSize: '0.9rem' }}>
+              {summary.count} review{summary.count === 1 ? '' : 's'}
+            </div>
+          </div>
+          <RatingHistogram summary={summary} />
+        </div>
+      )}
+
+      {mine && (mine.canReview || ownReview) && (
+        <div style={{ marginBottom: 12 }}>
+          {ownReview && ownReview.status !== 'approved' && (
+            <p style={{ margin: '0 0 8px', color: '#6d5b45' }}>
+              {MODERATION_NOTICE[ownReview.status]}
+            </p>
+          )}
+          {writing ? (
+            <ReviewForm
+              productId={productId}
+              existing={ownReview}
+              onSubmitted={(review) => {
+                setMine({ review, canReview: true });
+                setWriting(false);
+                // Replacing an approved review takes it off the page until it is approved again
+                load();
+              }}
+            />
+          ) : (
+            mine.canReview && (
+              <button type="button" className={btnOutline} onClick={() => setWriting(true)}>
+                {ownReview ? 'Edit your review' : 'Write a review'}
+              </button>
+            )
+          )}
+        </div>
+      )}
+
+      {summary && summary.count > 0 && (
+        <div style={{ marginBottom: 8 }}>
+          <label htmlFor="review-sort" style={{ marginRight: 8 }}>
+            Sort by
+          </label>
+          <select
+            id="review-sort"
+            value={sort}
+            onChange={(e) => setSort(e.target.value as ReviewSort)}
+          >
+            {(Object.keys(SORT_LABELS) as ReviewSort[]).map((key) => (
+              <option key={key} value={key}>
+                {SORT_LABELS[key]}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {error && <p style={{ color: 'crimson' }}>{error}</p>}
+      {!loading && !error && reviews.length === 0 && (
+        <p style={{ color: '#6d5b45' }}>No reviews yet.</p>
+      )}
+      <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'grid', gap: 12 }}>
+        {reviews.map((review) => (
+          <li key={review.id} style={{ borderTop: '1px solid #eadbc4', paddingTop: 10 }}>
+            <div style={{ display: 'flex', gap: 8, alignItems: 'baseline', flexWrap: 'wrap' }}>
+              <Stars value={review.rating} />
+              {review.title && <strong>{review.title}</strong>}
+            </div>
+            <div style={{ color: '#6d5b45', fontSize: '0.85rem' }}>
+              {review.authorName} · {new Date(review.createdAt).toLocaleDateString()} · Verified
+              purchase
+            </div>
+            <p style={{ margin: '6px 0 0', whiteSpace: 'pre-line' }}>{review.body}</p>
+          </li>
+        ))}
+      </ul>
+      {nextCursor && (
+        <button
+          type="button"
+          className={btnOutline}
+          style={{ marginTop: 12 }}
+          disabled={loading}
+          onClick={() => load(nextCursor)}
+        >
+          {loading ? 'Loading…' : 'Show more reviews'}
+        </button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Option picker for products with variants. Renders one button group per
+ * option and disables values that would only lead to out-of-stock variants.
+ */
+
+import { btnOutline, btnPrimary } from '@client/app/ui.css';
+import type { Product } from '@client/types/product';
+import { isOptionValueAvailable } from './variants';
+
+interface VariantPickerProps {
+  product: Product;
+  selection: Record<string, string>;
+  onChange: (selection: Record<string, string>) => void;
+}
+
+export default function VariantPicker({ product, selection, onChange }: VariantPickerProps) {
+  return (
+    <div style={{ display: 'grid', gap: 10, margin: '8px 0' }}>
+      {(product.options ?? []).map((option) => (
+        <fieldset key={option.name} style={{ border: 0, padding: 0, margin: 0 }}>
+          <legend style={{ fontWeight: 600, marginBottom: 6 }}>
+            {option.name}
+            {selection[option.name] ? `: ${selection[option.name]}` : ''}
+          </legend>
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+            {option.values.map((value) => {
+              const selected = selection[option.name] === value;
+              const available = isOptionValueAvailable(product, selection, option.name, value);
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  className={selected ? btnPrimary : btnOutline}
+                  aria-pressed={selected}
+                  disabled={!available}
+                  title={available ? undefined : 'Out of stock'}
+                  style={{
+                    opacity: available ? 1 : 0.45,
+                    textDecoration: available ? undefined : 'line-through',
+                  }}
+                  onClick={() => {
+                    const next = { ...selection };
+                    if (selected) delete next[option.name];
+                    else next[option.name] = value;
+                    onChange(next);
+                  }}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </fieldset>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * Helpers for products sold in variants (size/colour etc.): labelling a
+ * variant and resolving a shopper's option selection to one.
+ */
+
+import type { Product, ProductOption, ProductVariant } from '@client/types/product';
+
+export function hasVariants(product: Pick<Product, 'variants'>): boolean {
+  return Array.isArray(product.variants) && product.variants.length > 0;
+}
+
+/**
+ * Human-readable variant label in option order, e.g. "M / Red"
+ */
+export function describeVariant(
+  variant: Pick<ProductVariant, 'options'>,
+  options: ProductOption[] = []
+): string {
+  const names = options.length ? options.map((o) => o.name) : Object.keys(variant.options);
+  return names
+    .map((name) => variant.options[name])
+    .filter(Boolean)
+    .join(' / ');
+}
+
+function matches(variant: ProductVariant, selection: Record<string, string>): boolean {
+  return Object.entries(selection).every(([name, value]) => variant.options[name] === value);
+}
+
+/**
+ * Variant matching a complete selection (one value for every option)
+ */
+export function findVariant(
+  product: Product,
+  selection: Record<string, string>
+): ProductVariant | undefined {
+  const options = product.options ?? [];
+  if (!options.every((o) => selection[o.name])) return undefined;
+  return product.variants?.find((v) => matches(v, selection));
+}
+
+/**
+ * Whether choosing `value` for option `name`, together with the other options
+ * already selected, still leaves an in-stock variant
+ */
+export function isOptionValueAvailable(
+  product: Product,
+  selection: Record<string, string>,
+  name: string,
+  value: string
+): boolean {
+  const next = { ...selection, [name]: value };
+  return (product.variants ?? []).some((v) => v.stock > 0 && matches(v, next));
+}
@@ -1,6 +1,7 @@
 /**
- * Shared Axios instance configuration with auth header injection, global
- * error normalization, and toast/redirect handling for expired sessions.
+ * Shared Axios instance configuration with auth header injection, transparent
+ * access-token refresh, global error normalization, and toast/redirect
+ * handling for expired sessions.
  */
 // axios instance + JWT interceptors
 
@@ -12,8 +13,34 @@ import { showToast } from './toast';
 const configuredApiUrl = import.meta.env.VITE_API_URL ?? import.meta.env.VITE_API_BASE_URL ?? null;
 const baseURL = configuredApiUrl ?? '/api/v1';
 const LOGIN_ROUTE = '/login'; // Make login route configurable here
+const ACCOUNT_ROUTE = '/account'; // where two-factor authentication is set up
 export const axiosInstance = axios.create({ baseURL });
 
+// Failing requests to these are about credentials themselves; refreshing would not help
+const AUTH_PATHS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
+let refreshing: Promise<string> | null = null;
+
+/**
+ * Swap the stored refresh token for a new access token. Concurrent callers
+ * share one request: refresh tokens work only once, and presenting a used one
+ * again signs the user out everywhere.
+ */
+function refreshAccessToken(): Promise<string> {
+  refreshing ??= axios
+    .post(`${baseURL}/auth/refresh`, { refreshToken: localStorage.getItem('refreshToken') })
+    .then((res) => {
+      const { token, refreshToken } = res.data.data as { token: string; refreshToken: string };
+      localStorage.setItem('token', token);
+      localStorage.setItem('refreshToken', refreshToken);
+      return token;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
 axiosInstance.interceptors.request.use((config) => {
   const token = localStorage.getItem('token');
   if (token) {
@@ -25,13 +52,37 @@ axiosInstance.interceptors.request.use((config) => {
 
 axiosInstance.interceptors.response.use(
   (res) => res,
-  (err) => {
+  async (err) => {
+    const original = err?.config;
+    if (
+      err?.response?.status === 401 &&
+      original &&
+      !original._retried &&
+      !AUTH_PATHS.some((path) => original.url?.startsWith(path)) &&
+      localStorage.getItem('refreshToken')
+    ) {
+      original._retried = true;
+      let refreshed = true;
+      try {
+        // Another tab may have refreshed already; only refresh if the token is still the one that failed
+        const sent = String(original.headers?.Authorization ?? '');
+        const current = localStorage.getItem('token');
+        if (!current || sent === `Bearer ${current}`) await refreshAccessToken();
+      } catch {
+        refreshed = false; // handled as an expired session below
+      }
+      // The retry's own failures go through this interceptor again
+      if (refreshed) return axiosInstance(original);
+    }
+
     const enhanced = normalizeAxiosError(err);
 
-    // If unauthorized, clear token and redirect to login page
-    if (enhanced.status === 401) {
+    // If unauthorized, clear token and redirect to login page (a logout that
+    // finds its session already ended is not an expired session)
+    if (enhanced.status === 401 && !original?.url?.startsWith('/auth/logout')) {
       try {
         localStorage.removeItem('token');
+        localStorage.removeItem('refreshToken');
         // Store a flag to show "session expired" message
         const currentPath = window.location.pathname;
         // Don't set expired flag if we're already on login/register
@@ -47,6 +98,14 @@ axiosInstance.interceptors.response.use(
       }
     }
 
+    // Admin features refuse admins without two-factor authentication when the server requires it
+    if (enhanced.status === 403 && enhanced.code === 'TWO_FACTOR_REQUIRED') {
+      showToast(enhanced.message, { type: 'error', duration: 4000 });
+      if (typeof window !== 'undefined' && window.location.pathname !== ACCOUNT_ROUTE) {
+        window.location.href = ACCOUNT_ROUTE;
+      }
+    }
+
     // Show global toast for network/server errors (but not for expected client errors)
     if (enhanced.status && enhanced.status >= 500) {
       showToast('Server error. Please try again later.', { type: 'error', duration: 4000 });
@@ -65,6 +124,7 @@ export function normalizeAxiosError(err: any) {
   const message = data?.error?.message || data?.message || err?.message || 'Request failed';
   const enhanced: any = new Error(message);
   enhanced.status = status;
+  enhanced.code = data?.error?.code;
   enhanced.details = data?.error?.details ?? data?.errors ?? data;
   enhanced.indexUrl = data?.error?.indexUrl ?? data?.indexUrl;
   enhanced.response = err?.response;
@@ -0,0 +1,113 @@
+import {
+  type Account,
+  getAccount,
+  listSessions,
+  resendVerification,
+  revokeSession,
+} from '@client/api/clients/auth.api';
+import { btnOutline, card } from '@client/app/ui.css';
+import { AddressBook } from '@client/features/account/AddressBook';
+import { ProfileSettings } from '@client/features/account/ProfileSettings';
+import { useAuth } from '@client/features/auth/AuthProvider';
+import { SessionList } from '@client/features/auth/SessionList';
+import { TwoFactorSettings } from '@client/features/auth/TwoFactorSettings';
+import { showToast } from '@client/lib/toast';
+import type { Session } from '@client/types/session';
+import { useEffect, useState } from 'react';
+
+function EmailStatus() {
+  const [account, setAccount] = useState<Account | null>(null);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    getAccount()
+      .then(setAccount)
+      .catch(() => setAccount(null));
+  }, []);
+
+  async function resend() {
+    try {
+      setSending(true);
+      await resendVerification();
+      showToast('Verification email sent. Check your inbox.', { type: 'success' });
+    } catch (e: any) {
+      showToast(e?.response?.data?.error?.message || 'Failed to send the email', {
+        type: 'error',
+      });
+    } finally {
+      setSending(false);
+    }
+  }
+
+  if (!account) return null;
+  return (
+    <section className={card} aria-labelledby="email-heading">
+      <h2 id="email-heading" style={{ marginTop: 0 }}>
+        Email
+      </h2>
+      <p style={{ margin: 0 }}>
+        {account.email}{' '}
+        {account.emailVerified ? (
+          <span style={{ color: '#2f7a3d' }}>· Verified</span>
+        ) : (
+          <span style={{ color: '#8a5a00' }}>· Not verified</span>
+        )}
+      </p>
+      {!account.emailVerified && (
+        <button
+          type="button"
+          className={btnOutline}
+          style={{ marginTop: 12 }}
+          disabled={sending}
+          onClick={resend}
+        >
+          {sending ? 'Sending…' : 'Resend verification email'}
+        </button>
+      )}
+    </section>
+  );
+}
+
+export default function AccountSettings() {
+  const { logout } = useAuth();
+
+  async function revoke(session: Session) {
+    await revokeSession(session.id);
+    // Signing out this device ends the local session too
+    if (session.current) logout();
+  }
+
+  return (
+    <section style={{ display: 'grid', gap: 16, maxWidth: 720, margin: '0 auto' }}>
+      <h1 style={{ margin: 0 }}>Account settings</h1>
+      <EmailStatus />
+      <section className={card} aria-labelledby="profile-heading">
+        <h2 id="profile-heading" style={{ marginTop: 0 }}>
+          Profile
+        </h2>
+        <ProfileSettings />
+      </section>
+      <section className={card} aria-labelledby="addresses-heading">
+        <h2 id="addresses-heading" style={{ marginTop: 0 }}>
+          Addresses
+        </h2>
+        <AddressBook />
+      </section>
+      <section className={card} aria-labelledby="two-factor-heading">
+        <h2 id="two-factor-heading" style={{ marginTop: 0 }}>
+          Two-factor authentication
+        </h2>
+        <TwoFactorSettings />
+      </section>
+      <section className={card} aria-labelledby="sessions-heading">
+        <h2 id="sessions-heading" style={{ marginTop: 0 }}>
+          Where you&apos;re signed in
+        </h2>
+        <p style={{ color: '#6d5b45', marginTop: 0 }}>
+          Sign out any device you don&apos;t recognise; it will have to log in again.
+        </p>
+        <SessionList load={listSessions} revoke={revoke} />
+      </section>
+    </section>
+  );
+}
@@ -1,7 +1,8 @@
 /**
  * Checkout Page Component
  *
- * Complete checkout flow including shipping address, payment method selection,
+ * Complete checkout flow including shipping address (typed in or picked from the
+ * address book, with the option to save a new one), payment method selection,
  * order review, and order placement.
  *
  * @fileoverview Checkout page with order creation
@@ -10,15 +11,25 @@
 
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useAtom, useAtomValue } from 'jotai';
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { useNavigate } from 'react-router-dom';
 import { z } from 'zod';
 import { ordersApi } from '../api/clients/orders.api';
+import { addAddress, listAddresses } from '../api/clients/profile.api';
+import { formatAddress, toShippingAddress } from '../features/account/address';
 import { useAuth } from '../features/auth/AuthProvider';
-import { cartItemsAtom, cartSummaryAtom, clearCartAtom } from '../features/cart/cartAtoms';
+import {
+  acceptCartPricesAtom,
+  cartItemsAtom,
+  cartLineKey,
+  cartSummaryAtom,
+  clearCartAtom,
+} from '../features/cart/cartAtoms';
+import { useCartQuote } from '../features/cart/useCartQuote';
 import { showToast } from '../lib/toast';
 import { type CreateOrderInput, PaymentMethod } from '../types/orders';
+import type { SavedAddress } from '../types/profile';
 
 // Shipping address validation schema
 const shippingAddressSchema = z.object({
@@ -49,12 +60,24 @@ export function Checkout() {
   const cartItems = useAtomValue(cartItemsAtom);
   const cartSummary = useAtomValue(cartSummaryAtom);
   const [, clearCart] = useAtom(clearCartAtom);
+  const [, acceptPrices] = useAtom(acceptCartPricesAtom);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoCode, setPromoCode] = useState<string | undefined>();
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
+  // '' while the customer types a new address
+  const [selectedAddressId, setSelectedAddressId] = useState('');
+  const [saveNewAddress, setSaveNewAddress] = useState(false);
+  // One Idempotency-Key per checkout attempt: resubmitting after a lost response
+  // returns the order already placed instead of placing (and charging) it twice
+  const idempotencyKeyRef = useRef<string | null>(null);
 
   const {
     register,
     handleSubmit,
+    setValue,
+    watch,
     formState: { errors },
   } = useForm<CheckoutFormData>({
     resolver: zodResolver(checkoutSchema),
@@ -62,6 +85,45 @@ export function Checkout() {
       paymentMethod: PaymentMethod.CREDIT_CARD,
     },
   });
+  const destination = watch('shippingAddress');
+  const {
+    data: quote,
+    isFetching: isQuoting,
+    error: quoteError,
+  } = useCartQuote({
+    destination: { country: destination?.country, state: destination?.state },
+    promoCode,
+  });
+  // Only send the code once the server has accepted it for this cart
+  const appliedDiscount = quote?.discount?.code === promoCode ? quote?.discount : undefined;
+  const promoError = promoCode && quoteError ? (quoteError as Error).message : null;
+
+  function pickAddress(id: string) {
+    setSelectedAddressId(id);
+    const saved = savedAddresses.find((address) => address.id === id);
+    setValue(
+      'shippingAddress',
+      saved
+        ? { phone: '', ...toShippingAddress(saved) }
+        : { fullName: '', street: '', city: '', state: '', postalCode: '', country: '', phone: '' },
+      { shouldValidate: !!saved }
+    );
+  }
+
+  // Start from the default address of the address book (listed first)
+  useEffect(() => {
+    if (!user) return;
+    listAddresses()
+      .then((addresses) => {
+        setSavedAddresses(addresses);
+        const preferred = addresses[0];
+        if (preferred) {
+          setSelectedAddressId(preferred.id);
+          setValue('shippingAddress', { phone: '', ...toShippingAddress(preferred) });
+        }
+      })
+      .catch(() => setSavedAddresses([]));
+  }, [user, setValue]);
 
   // Redirect if cart is empty
   if (cartItems.length === 0) {
@@ -88,22 +150,39 @@ export function Checkout() {
       const orderData: CreateOrderInput = {
         items: cartItems.map((item) => ({
           productId: item.id,
+          ...(item.variantId ? { variantId: item.variantId } : {}),
           quantity: item.quantity,
         })),
         paymentMethod: data.paymentMethod,
-        shippingAddress: data.shippingAddress,
+        shippingAddress: {
+          ...data.shippingAddress,
+          phone: data.shippingAddress.phone || undefined,
+        },
         notes: data.notes || undefined, // Convert empty string to undefined
+        promoCode: appliedDiscount?.code,
       };
 
       console.log('Placing order as:', user?.id, '(admin)');
       console.log('Order data:', JSON.stringify(orderData, null, 2));
 
-      const order = await ordersApi.createOrder(orderData);
+      idempotencyKeyRef.current ??= crypto.randomUUID();
+      const order = await ordersApi.createOrder(orderData, idempotencyKeyRef.current);
+      idempotencyKeyRef.current = null;
       clearCart();
+      if (saveNewAddress && !selectedAddressId) {
+        await addAddress(orderData.shippingAddress).catch(() =>
+          showToast('Your address could not be saved to your address book', { type: 'warning' })
+        );
+      }
       showToast('Order placed successfully!', { type: 'success' });
       navigate(`/orders/${order.id}`);
     } catch (error) {
       console.error('Order creation failed:', error);
+      // The server answered, so this attempt is over; without an answer the
+      // order may have been placed, and a retry has to reuse the key
+      if ((error as any)?.status && (error as any).code !== 'IDEMPOTENCY_KEY_IN_PROGRESS') {
+        idempotencyKeyRef.current = null;
+      }
 
       // Extract detailed error information
       let errorMessage = 'Failed to place order';
@@ -149,6 +228,30 @@ export function Checkout() {
               {/* Shipping Address */}
               <div>
                 <h2 className="text-lg font-semibold text-gray-900 mb-4">Shipping Address</h2>
+                {savedAddresses.length > 0 && (
+                  <div className="mb-4">
+                    <label
+                      htmlFor="savedAddress"
+                      className="block text-sm font-medium text-gray-700"
+                    >
+                      Saved addresses
+                    </label>
+                    <select
+                      id="savedAddress"
+                      value={selectedAddressId}
+                      onChange={(e) => pickAddress(e.target.value)}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {savedAddresses.map((address) => (
+                        <option key={address.id} value={address.id}>
+                          {address.label ? `${address.label}: ` : ''}
+                          {formatAddress(address)}
+                        </option>
+                      ))}
+                      <option value="">A new address</option>
+                    </select>
+                  </div>
+                )}
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   <div className="sm:col-span-2">
                     <label htmlFor="fullName" className="block text-sm font-medium text-gray-700">
@@ -269,6 +372,19 @@ export function Checkout() {
                     )}
                   </div>
                 </div>
+                {user && !selectedAddressId && (
+                  <label className="flex items-center mt-4">
+                    <input
+                      type="checkbox"
+                      checked={saveNewAddress}
+                      onChange={(e) => setSaveNewAddress(e.target.checked)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">
+                      Save this address to my address book
+                    </span>
+                  </label>
+                )}
               </div>
 
               {/* Payment Method */}
@@ -329,7 +445,7 @@ export function Checkout() {
             {/* Cart Items */}
             <div className="space-y-4 mb-6">
               {cartItems.map((item) => (
-                <div key={item.id} className="flex items-center space-x-4">
+                <div key={cartLineKey(item)} className="flex items-center space-x-4">
                   {item.image && (
                     <img
                       src={item.image}
@@ -339,38 +455,123 @@ export function Checkout() {
                   )}
                   <div className="flex-1">
                     <h3 className="text-sm font-medium text-gray-900">{item.name}</h3>
+                    {item.variantName && (
+                      <p className="text-sm text-gray-500">{item.variantName}</p>
+                    )}
                     <p className="text-sm text-gray-500">Quantity: {item.quantity}</p>
+                    {item.previousPrice != null && (
+                      <p className="text-sm text-amber-600">
+                        Price changed from ${item.previousPrice.toFixed(2)} to $
+                        {item.price.toFixed(2)}
+                      </p>
+                    )}
+                    {item.stock != null && item.quantity > item.stock && (
+                      <p className="text-sm text-amber-600">
+                        {item.stock > 0 ? `Only ${item.stock} in stock` : 'Out of stock'}
+                      </p>
+                    )}
                   </div>
                   <div className="text-sm font-medium text-gray-900">
                     ${(item.price * item.quantity).toFixed(2)}
                   </div>
                 </div>
               ))}
+              {cartItems.some((item) => item.previousPrice != null) && (
+                <button
+                  type="button"
+                  onClick={() => acceptPrices()}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  Accept new prices
+                </button>
+              )}
+            </div>
+
+            {/* Promo Code */}
+            <div className="border-t pt-4 mb-4">
+              <label htmlFor="promoCode" className="block text-sm font-medium text-gray-700 mb-1">
+                Promo code
+              </label>
+              <div className="flex space-x-2">
+                <input
+                  id="promoCode"
+                  type="text"
+                  value={promoInput}
+                  onChange={(e) => setPromoInput(e.target.value)}
+                  disabled={!!promoCode}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md uppercase"
+                />
+                {promoCode ? (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setPromoCode(undefined);
+                      setPromoInput('');
+                    }}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+                  >
+                    Remove
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setPromoCode(promoInput.trim().toUpperCase() || undefined)}
+                    disabled={!promoInput.trim()}
+                    className="px-4 py-2 bg-gray-800 text-white rounded-md text-sm hover:bg-gray-900 disabled:opacity-50"
+                  >
+                    Apply
+                  </button>
+                )}
+              </div>
+              {promoError && <p className="text-xs text-red-600 mt-1">{promoError}</p>}
             </div>
 
             {/* Price Summary */}
             <div className="border-t pt-4 space-y-2">
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Subtotal ({cartSummary.itemCount} items)</span>
-                <span className="text-gray-900">${cartSummary.subtotal.toFixed(2)}</span>
+                <span className="text-gray-900">
+                  {quote ? `$${quote.subtotal.toFixed(2)}` : '—'}
+                </span>
               </div>
+              {appliedDiscount && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-green-700">
+                    Discount ({appliedDiscount.code}: {appliedDiscount.description})
+                  </span>
+                  <span className="text-green-700">-${appliedDiscount.amount.toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Tax</span>
-                <span className="text-gray-900">${cartSummary.taxAmount.toFixed(2)}</span>
+                <span className="text-gray-600">
+                  {quote?.taxLabel ?? 'Tax'}
+                  {quote ? ` (${(quote.taxRate * 100).toFixed(2).replace(/\.?0+$/, '')}%)` : ''}
+                </span>
+                <span className="text-gray-900">
+                  {quote ? `$${quote.taxAmount.toFixed(2)}` : '—'}
+                </span>
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Shipping</span>
                 <span className="text-gray-900">
-                  {cartSummary.shippingCost === 0
-                    ? 'Free'
-                    : `$${cartSummary.shippingCost.toFixed(2)}`}
+                  {!quote
+                    ? '—'
+                    : quote.shippingCost === 0
+                      ? 'Free'
+                      : `$${quote.shippingCost.toFixed(2)}`}
                 </span>
               </div>
               <div className="border-t pt-2">
                 <div className="flex justify-between text-lg font-semibold">
                   <span className="text-gray-900">Total</span>
-                  <span className="text-gray-900">${cartSummary.total.toFixed(2)}</span>
+                  <span className="text-gray-900">
+                    {quote ? `$${quote.totalAmount.toFixed(2)}` : '—'}
+                  </span>
                 </div>
+                {isQuoting && <p className="text-xs text-gray-500 mt-1">Updating totals…</p>}
+                {quoteError && !promoError && (
+                  <p className="text-xs text-red-600 mt-1">{(quoteError as Error).message}</p>
+                )}
               </div>
             </div>
           </div>
@@ -3,32 +3,92 @@ import { TextField } from '@client/components/forms/TextField';
 import { AuthCardLayout } from '@client/components/layout/AuthCardLayout';
 import { useAuth } from '@client/features/auth/AuthProvider';
 import { useAppForm } from '@client/lib/hooks/useAppForm';
+import { showToast } from '@client/lib/toast';
 import { useEffect, useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { z } from 'zod';
 
 const schema = z.object({ email: z.string().email(), password: z.string().min(6) });
+// A 6-digit authenticator code, or a recovery code like "1a2b3-c4d5e"
+const codeSchema = z.object({ code: z.string().trim().min(6, 'Enter the code from your app') });
 
 type FormData = z.infer<typeof schema>;
 
 type LocationState = { from?: { pathname: string } };
 
+/**
+ * Second login step for accounts with two-factor authentication.
+ */
+function TwoFactorStep({
+  challengeToken,
+  onDone,
+  onCancel,
+}: {
+  challengeToken: string;
+  onDone: () => void;
+  onCancel: () => void;
+}) {
+  const { completeTwoFactorLogin } = useAuth();
+  const form = useAppForm({
+    schema: codeSchema,
+    defaultValues: { code: '' },
+    successMessage: 'Logged in successfully',
+    onSubmit: async ({ code }) => {
+      await completeTwoFactorLogin(challengeToken, code);
+      onDone();
+    },
+  });
+
+  return (
+    <form onSubmit={form.handleSubmitForm}>
+      <p style={{ marginTop: 0 }}>
+        Enter the 6-digit code from your authenticator app. Lost your device? Use one of your
+        recovery codes instead.
+      </p>
+      <TextField
+        label="Authentication code"
+        name="code"
+        control={form.control}
+        required
+        autoComplete="one-time-code"
+        autoFocus
+        placeholder="123456"
+      />
+      <FormActions
+        submitLabel="Verify"
+        cancelLabel="Back"
+        isSubmitting={form.formState.isSubmitting}
+        onCancel={onCancel}
+      />
+    </form>
+  );
+}
+
 export default function Login() {
   const navigate = useNavigate();
   const location = useLocation();
   const { login } = useAuth();
   const [infoMessage, setInfoMessage] = useState<string | null>(null);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+
+  function goOn() {
+    const returnTo = sessionStorage.getItem('returnTo');
+    sessionStorage.removeItem('returnTo');
+    const from = returnTo || (location.state as LocationState | null)?.from?.pathname || '/';
+    navigate(from, { replace: true });
+  }
 
   const form = useAppForm({
     schema,
     defaultValues: { email: '', password: '' },
-    successMessage: 'Logged in successfully',
     onSubmit: async (values) => {
-      await login(values);
-      const returnTo = sessionStorage.getItem('returnTo');
-      sessionStorage.removeItem('returnTo');
-      const from = returnTo || (location.state as LocationState | null)?.from?.pathname || '/';
-      navigate(from, { replace: true });
+      const outcome = await login(values);
+      if (outcome.twoFactorRequired) {
+        setChallengeToken(outcome.challengeToken);
+        return;
+      }
+      showToast('Logged in successfully', { type: 'success' });
+      goOn();
     },
   });
 
@@ -60,30 +120,41 @@ export default function Login() {
         </span>
       }
     >
-      <form onSubmit={form.handleSubmitForm}>
-        <TextField
-          label="Email"
-          name="email"
-          type="email"
-          control={form.control}
-          required
-          prefix={<span>📧</span>}
-          placeholder="you@example.com"
-        />
-        <TextField
-          label="Password"
-          name="password"
-          type="password"
-          control={form.control}
-          required
-          showPasswordToggle
-        />
-        <FormActions
-          submitLabel="Login"
-          isSubmitting={form.formState.isSubmitting}
-          onCancel={() => form.reset()}
+      {challengeToken ? (
+        <TwoFactorStep
+          challengeToken={challengeToken}
+          onDone={goOn}
+          onCancel={() => {
+            setChallengeToken(null);
+            form.resetField('password');
+          }}
         />
-      </form>
+      ) : (
+        <form onSubmit={form.handleSubmitForm}>
+          <TextField
+            label="Email"
+            name="email"
+            type="email"
+            control={form.control}
+            required
+            prefix={<span>📧</span>}
+            placeholder="you@example.com"
+          />
+          <TextField
+            label="Password"
+            name="password"
+            type="password"
+            control={form.control}
+            required
+            showPasswordToggle
+          />
+          <FormActions
+            submitLabel="Login"
+            isSubmitting={form.formState.isSubmitting}
+            onCancel={() => form.reset()}
+          />
+        </form>
+      )}
     </AuthCardLayout>
   );
 }
@@ -125,6 +125,32 @@ export const paymentStatus = style({
   color: vars.color.textMuted,
 });
 
+export const paymentActions = style({
+  display: 'flex',
+  flexWrap: 'wrap',
+  alignItems: 'center',
+  gap: vars.space.sm,
+  marginTop: vars.space.md,
+  fontSize: 14,
+});
+
+export const payButton = style({
+  backgroundColor: vars.color.accent,
+  color: vars.color.accentText,
+  border: 'none',
+  borderRadius: vars.radius.md,
+  padding: `${vars.space.sm} ${vars.space.lg}`,
+  fontSize: 14,
+  fontWeight: 600,
+  cursor: 'pointer',
+  selectors: {
+    '&:disabled': {
+      opacity: 0.5,
+      cursor: 'not-allowed',
+    },
+  },
+});
+
 export const address = style({
   fontStyle: 'normal',
   lineHeight: 1.6,
@@ -243,3 +269,119 @@ export const cancelButton = style({
     },
   },
 });
+
+export const returnForm = style({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: vars.space.sm,
+  marginTop: vars.space.md,
+  fontSize: 14,
+  color: vars.color.text,
+});
+
+export const returnLine = style({
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: vars.space.sm,
+});
+
+export const returnInput = style({
+  padding: vars.space.xs,
+  border: `1px solid ${vars.color.border}`,
+  borderRadius: vars.radius.sm,
+  backgroundColor: vars.color.surface,
+  color: vars.color.text,
+  fontSize: 14,
+});
+
+export const returnEntry = style({
+  padding: `${vars.space.sm} 0`,
+  borderBottom: `1px solid ${vars.color.border}`,
+  fontSize: 14,
+  color: vars.color.text,
+  selectors: {
+    '&:last-child': {
+      borderBottom: 'none',
+    },
+  },
+});
+
+export const shipment = style({
+  padding: `${vars.space.sm} 0`,
+  borderBottom: `1px solid ${vars.color.border}`,
+  fontSize: 14,
+  color: vars.color.text,
+  selectors: {
+    '&:last-of-type': {
+      borderBottom: 'none',
+    },
+  },
+});
+
+export const shipmentHeader = style({
+  display: 'flex',
+  flexWrap: 'wrap',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: vars.space.sm,
+});
+
+export const timeline = style({
+  listStyle: 'none',
+  margin: `${vars.space.sm} 0 0`,
+  padding: `0 0 0 ${vars.space.md}`,
+  borderLeft: `2px solid ${vars.color.border}`,
+  display: 'flex',
+  flexDirection: 'column',
+  gap: vars.space.sm,
+});
+
+export const timelineEvent = style({
+  position: 'relative',
+  selectors: {
+    '&::before': {
+      content: '""',
+      position: 'absolute',
+      left: `calc(-1 * ${vars.space.md} - 6px)`,
+      top: 4,
+      width: 10,
+      height: 10,
+      borderRadius: '50%',
+      backgroundColor: vars.color.border,
+    },
+    '&:first-child::before': {
+      backgroundColor: vars.color.accent,
+    },
+  },
+});
+
+export const linkButton = style({
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  color: vars.color.accent,
+  fontSize: 14,
+  fontWeight: 500,
+  cursor: 'pointer',
+  selectors: {
+    '&:disabled': {
+      opacity: 0.5,
+      cursor: 'not-allowed',
+    },
+  },
+});
+
+export const internalComment = style({
+  marginTop: vars.space.xs,
+  padding: vars.space.sm,
+  borderRadius: vars.radius.sm,
+  backgroundColor: vars.color.surfaceMuted,
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+});
+
+export const mention = style({
+  fontWeight: 600,
+  color: vars.color.accentMuted,
+});
@@ -5,20 +5,47 @@
  * - Order status and timeline
  * - Items in the order
  * - Shipping information
+ * - Shipments with their tracking-event timeline
+ * - Invoice, receipt and (for staff) packing slip downloads
  * - Payment details
  * - Order actions (cancel if allowed)
+ * - Return requests and refunds for delivered orders
+ * - The order's history, with internal comments for staff
  *
  * @fileoverview Order detail page component
  * @module pages/OrderDetail
  */
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Link, useParams } from 'react-router-dom';
 import { ordersApi } from '../api/clients/orders.api';
+import { getOrderReturns, requestReturn } from '../api/clients/returns.api';
+import { getOrderShipments } from '../api/clients/shipments.api';
+import { useAuth } from '../features/auth/AuthProvider';
 import { showToast } from '../lib/toast';
-import type { Order } from '../types/orders';
-import { ORDER_STATUS_INFO, PAYMENT_METHOD_INFO } from '../types/orders';
+import type { Order, OrderDocumentKind, OrderItem } from '../types/orders';
+import {
+  availableOrderDocuments,
+  ORDER_DOCUMENT_LABELS,
+  ORDER_STATUS_INFO,
+  PAYMENT_METHOD_INFO,
+} from '../types/orders';
+import type { RefundRecord, ReturnRequest } from '../types/returns';
+import type { Shipment } from '../types/shipments';
 import * as styles from './OrderDetail.css';
+import OrderShipments from './OrderShipments';
+import OrderTimeline from './OrderTimeline';
+
+type Line = Pick<OrderItem, 'productId' | 'productName' | 'variantId' | 'variantName'>;
+
+/** Identifies an order line, and the return lines for it, by product and variant */
+function lineKey(item: Line): string {
+  return item.variantId ? `${item.productId}:${item.variantId}` : item.productId;
+}
+
+function itemLabel(item: Line): string {
+  return item.variantName ? `${item.productName} (${item.variantName})` : item.productName;
+}
 
 export default function OrderDetail() {
   const { id } = useParams<{ id: string }>();
@@ -26,11 +53,48 @@ export default function OrderDetail() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [cancelling, setCancelling] = useState(false);
+  const [paying, setPaying] = useState(false);
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [refunds, setRefunds] = useState<RefundRecord[]>([]);
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, number>>({});
+  const [returnReason, setReturnReason] = useState('');
+  const [submittingReturn, setSubmittingReturn] = useState(false);
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [downloading, setDownloading] = useState<OrderDocumentKind | null>(null);
+  const { can } = useAuth();
 
   useEffect(() => {
     loadOrder();
   }, [id]);
 
+  const loadReturns = useCallback(async (orderId: string) => {
+    try {
+      const data = await getOrderReturns(orderId);
+      setReturns(data.returns);
+      setRefunds(data.refunds);
+    } catch (err: any) {
+      showToast(err.message || 'Failed to load returns', { type: 'error' });
+    }
+  }, []);
+
+  const loadShipments = useCallback(async (orderId: string) => {
+    try {
+      setShipments(await getOrderShipments(orderId));
+    } catch (err: any) {
+      showToast(err.message || 'Failed to load shipments', { type: 'error' });
+    }
+  }, []);
+
+  const orderId = order?.id;
+  useEffect(() => {
+    if (orderId) loadShipments(orderId);
+  }, [orderId, loadShipments]);
+
+  const deliveredOrderId = order?.status === 'delivered' ? order.id : null;
+  useEffect(() => {
+    if (deliveredOrderId) loadReturns(deliveredOrderId);
+  }, [deliveredOrderId, loadReturns]);
+
   const loadOrder = async () => {
     if (!id) {
       setError('Order ID is required');
@@ -52,6 +116,68 @@ export default function OrderDetail() {
     }
   };
 
+  // A shipment can move the order along, so reload both
+  const handleShipmentsChanged = async () => {
+    if (!order) return;
+    try {
+      const [updatedOrder] = await Promise.all([
+        ordersApi.getOrder(order.id),
+        loadShipments(order.id),
+      ]);
+      setOrder(updatedOrder);
+    } catch (err: any) {
+      showToast(err.message || 'Failed to reload order', { type: 'error' });
+    }
+  };
+
+  const handleDownload = async (kind: OrderDocumentKind) => {
+    if (!order) return;
+    try {
+      setDownloading(kind);
+      await ordersApi.downloadDocument(order.id, kind);
+    } catch (err: any) {
+      showToast(err.message || 'Download failed', { type: 'error' });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleRequestReturn = async () => {
+    if (!order) return;
+    const items = order.items
+      .filter((item) => (returnQuantities[lineKey(item)] ?? 0) > 0)
+      .map((item) => ({
+        productId: item.productId,
+        ...(item.variantId ? { variantId: item.variantId } : {}),
+        quantity: returnQuantities[lineKey(item)],
+      }));
+    if (items.length === 0) {
+      showToast('Choose at least one item to return', { type: 'error' });
+      return;
+    }
+    try {
+      setSubmittingReturn(true);
+      await requestReturn(order.id, { items, reason: returnReason });
+      setReturnQuantities({});
+      setReturnReason('');
+      showToast('Return requested', { type: 'success' });
+      await loadReturns(order.id);
+    } catch (err: any) {
+      showToast(err.message || 'Failed to request return', { type: 'error' });
+    } finally {
+      setSubmittingReturn(false);
+    }
+  };
+
+  // Units already in a pending or approved return cannot be requested again
+  const returnableQuantity = (line: OrderItem): number =>
+    line.quantity -
+    returns
+      .filter((r) => r.status !== 'rejected')
+      .flatMap((r) => r.items)
+      .filter((item) => lineKey(item) === lineKey(line))
+      .reduce((sum, item) => sum + item.quantity, 0);
+
   const handleCancelOrder = async () => {
     if (!order) return;
 
@@ -74,6 +200,46 @@ export default function OrderDetail() {
     }
   };
 
+  const handlePay = async () => {
+    if (!order) return;
+    try {
+      setPaying(true);
+      const updatedOrder = await ordersApi.payOrder(order.id);
+      setOrder(updatedOrder);
+      if (updatedOrder.payment?.status === 'declined') {
+        showToast('Payment was declined', { type: 'error' });
+      } else if (updatedOrder.paymentStatus === 'authorized') {
+        showToast('Payment authorized', { type: 'success' });
+      }
+    } catch (err: any) {
+      showToast(err.message || 'Payment failed', { type: 'error' });
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  // The mock gateway reports the challenge result through its webhook, so
+  // reload the order once it has had a moment to arrive.
+  const handleChallenge = async (approve: boolean) => {
+    if (!order?.payment) return;
+    try {
+      setPaying(true);
+      await ordersApi.completeMockChallenge(order.payment.paymentId, approve);
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      setOrder(await ordersApi.getOrder(order.id));
+    } catch (err: any) {
+      showToast(err.message || 'Verification failed', { type: 'error' });
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  const canPayOrder = (order: Order): boolean =>
+    order.status !== 'cancelled' &&
+    order.status !== 'refunded' &&
+    order.payment?.status !== 'requires_action' &&
+    ['pending', 'failed', 'voided'].includes(order.paymentStatus);
+
   const canCancelOrder = (order: Order): boolean => {
     return (
       order.status === 'pending' || order.status === 'confirmed' || order.status === 'processing'
@@ -104,6 +270,10 @@ export default function OrderDetail() {
 
   const statusInfo = ORDER_STATUS_INFO[order.status];
   const paymentMethodInfo = PAYMENT_METHOD_INFO[order.paymentMethod];
+  // Packing slips are for the people packing the parcel
+  const documents = availableOrderDocuments(order).filter(
+    (kind) => kind !== 'packing-slip' || can('orders:fulfil')
+  );
 
   return (
     <div className={styles.container}>
@@ -141,8 +311,65 @@ export default function OrderDetail() {
             <span>{paymentMethodInfo.label}</span>
           </div>
           <div className={styles.paymentStatus}>
-            Status: <strong>{order.paymentStatus}</strong>
+            Status: <strong>{order.paymentStatus.replace('_', ' ')}</strong>
           </div>
+          {order.payment && order.payment.refundedAmount > 0 && (
+            <div className={styles.paymentStatus}>
+              Refunded: ${order.payment.refundedAmount.toFixed(2)}
+            </div>
+          )}
+          {order.payment?.status === 'requires_action' && (
+            <div className={styles.paymentActions}>
+              <p>Your bank needs to verify this payment.</p>
+              <button
+                type="button"
+                onClick={() => handleChallenge(true)}
+                disabled={paying}
+                className={styles.payButton}
+              >
+                Verify payment
+              </button>
+              <button
+                type="button"
+                onClick={() => handleChallenge(false)}
+                disabled={paying}
+                className={styles.cancelButton}
+              >
+                Fail verification
+              </button>
+            </div>
+          )}
+          {canPayOrder(order) && (
+            <div className={styles.paymentActions}>
+              <button
+                type="button"
+                onClick={handlePay}
+                disabled={paying}
+                className={styles.payButton}
+              >
+                {paying
+                  ? 'Processing...'
+                  : order.paymentStatus === 'pending'
+                    ? 'Pay now'
+                    : 'Retry payment'}
+              </button>
+            </div>
+          )}
+          {documents.length > 0 && (
+            <div className={styles.paymentActions}>
+              {documents.map((kind) => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => handleDownload(kind)}
+                  disabled={downloading !== null}
+                  className={styles.linkButton}
+                >
+                  {downloading === kind ? 'Preparing...' : `${ORDER_DOCUMENT_LABELS[kind]} (PDF)`}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Shipping Card */}
@@ -166,8 +393,8 @@ export default function OrderDetail() {
           </address>
         </div>
 
-        {/* Tracking Card (if available) */}
-        {order.tracking && order.tracking.trackingNumber && (
+        {/* Tracking Card (orders tracked without shipments) */}
+        {shipments.length === 0 && order.tracking && order.tracking.trackingNumber && (
           <div className={styles.card}>
             <h2 className={styles.cardTitle}>Tracking</h2>
             <div className={styles.tracking}>
@@ -196,6 +423,8 @@ export default function OrderDetail() {
         )}
       </div>
 
+      <OrderShipments order={order} shipments={shipments} onChanged={handleShipmentsChanged} />
+
       {/* Order Items */}
       <div className={styles.card}>
         <h2 className={styles.cardTitle}>Order Items</h2>
@@ -207,6 +436,12 @@ export default function OrderDetail() {
               )}
               <div className={styles.itemDetails}>
                 <div className={styles.itemName}>{item.productName}</div>
+                {item.variantName && (
+                  <div className={styles.itemMeta}>
+                    {item.variantName}
+                    {item.sku ? ` · SKU ${item.sku}` : ''}
+                  </div>
+                )}
                 <div className={styles.itemMeta}>
                   Quantity: {item.quantity} × ${item.unitPrice.toFixed(2)}
                 </div>
@@ -222,6 +457,12 @@ export default function OrderDetail() {
             <span>Subtotal:</span>
             <span>${order.subtotal.toFixed(2)}</span>
           </div>
+          {order.discount && (
+            <div className={styles.summaryRow}>
+              <span>Discount ({order.discount.code}):</span>
+              <span>-${order.discount.amount.toFixed(2)}</span>
+            </div>
+          )}
           <div className={styles.summaryRow}>
             <span>Tax:</span>
             <span>${order.taxAmount.toFixed(2)}</span>
@@ -245,6 +486,79 @@ export default function OrderDetail() {
         </div>
       )}
 
+      {/* Returns (delivered orders only) */}
+      {order.status === 'delivered' && (
+        <div className={styles.card}>
+          <h2 className={styles.cardTitle}>Returns</h2>
+          {returns.map((r) => (
+            <div key={r.id} className={styles.returnEntry}>
+              <div>
+                <strong>{r.status}</strong> · {new Date(r.createdAt).toLocaleDateString()} ·{' '}
+                {r.items.map((item) => `${item.quantity} × ${itemLabel(item)}`).join(', ')}
+              </div>
+              <div className={styles.itemMeta}>Reason: {r.reason}</div>
+              {r.refundAmount !== undefined && (
+                <div className={styles.itemMeta}>Refunded: ${r.refundAmount.toFixed(2)}</div>
+              )}
+              {r.adminNote && <div className={styles.itemMeta}>Note: {r.adminNote}</div>}
+            </div>
+          ))}
+          {refunds.length > 0 && (
+            <div className={styles.paymentStatus}>
+              Total refunded: ${refunds.reduce((sum, r) => sum + r.amount, 0).toFixed(2)}
+            </div>
+          )}
+          <div className={styles.returnForm}>
+            {order.items.map((item) => {
+              const key = lineKey(item);
+              const max = returnableQuantity(item);
+              return (
+                <div key={key} className={styles.returnLine}>
+                  <label htmlFor={`return-qty-${key}`}>
+                    {itemLabel(item)} ({max} returnable)
+                  </label>
+                  <input
+                    id={`return-qty-${key}`}
+                    type="number"
+                    min={0}
+                    max={max}
+                    disabled={max === 0}
+                    value={returnQuantities[key] ?? 0}
+                    onChange={(e) =>
+                      setReturnQuantities((prev) => ({
+                        ...prev,
+                        [key]: Math.min(max, Math.max(0, Number(e.target.value))),
+                      }))
+                    }
+                    className={styles.returnInput}
+                  />
+                </div>
+              );
+            })}
+            <label htmlFor="return-reason">Reason</label>
+            <textarea
+              id="return-reason"
+              rows={3}
+              value={returnReason}
+              onChange={(e) => setReturnReason(e.target.value)}
+              className={styles.returnInput}
+            />
+            <div>
+              <button
+                type="button"
+                onClick={handleRequestReturn}
+                disabled={submittingReturn || returnReason.trim().length < 3}
+                className={styles.payButton}
+              >
+                {submittingReturn ? 'Submitting...' : 'Request return'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <OrderTimeline order={order} />
+
       {/* Actions */}
       {canCancelOrder(order) && (
         <div className={styles.actions}>
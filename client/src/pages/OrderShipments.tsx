@@ -0,0 +1,211 @@
+/**
+ * Shipments section of the order detail page: each shipment with its carrier,
+ * tracking number and tracking-event timeline, and for staff who fulfil
+ * orders a form to ship the units not shipped yet and a tracking refresh.
+ *
+ * @fileoverview Order shipments and tracking timeline
+ * @module pages/OrderShipments
+ */
+
+import { useEffect, useState } from 'react';
+import { createShipment, listCarriers, refreshShipment } from '../api/clients/shipments.api';
+import { useAuth } from '../features/auth/AuthProvider';
+import { showToast } from '../lib/toast';
+import type { Order, OrderItem } from '../types/orders';
+import { type Carrier, SHIPMENT_STATUS_LABELS, type Shipment } from '../types/shipments';
+import * as styles from './OrderDetail.css';
+
+type Line = Pick<OrderItem, 'productId' | 'productName' | 'variantId' | 'variantName'>;
+
+const SHIPPABLE_STATUSES = ['confirmed', 'processing', 'shipped'];
+
+function lineKey(item: Line): string {
+  return item.variantId ? `${item.productId}:${item.variantId}` : item.productId;
+}
+
+function itemLabel(item: Line): string {
+  return item.variantName ? `${item.productName} (${item.variantName})` : item.productName;
+}
+
+interface OrderShipmentsProps {
+  order: Order;
+  shipments: Shipment[];
+  /** Called after a shipment is created or refreshed, which may move the order along */
+  onChanged: () => void;
+}
+
+export default function OrderShipments({ order, shipments, onChanged }: OrderShipmentsProps) {
+  const { can } = useAuth();
+  const canShip = can('orders:fulfil') && SHIPPABLE_STATUSES.includes(order.status);
+  const [carriers, setCarriers] = useState<Carrier[]>([]);
+  const [carrier, setCarrier] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!canShip) return;
+    listCarriers()
+      .then((list) => {
+        setCarriers(list);
+        setCarrier((current) => current || list[0]?.code || '');
+      })
+      .catch((err) => showToast(err.message, { type: 'error' }));
+  }, [canShip]);
+
+  // Units of an order line not in any shipment yet
+  const unshipped = (line: OrderItem): number =>
+    line.quantity -
+    shipments
+      .flatMap((s) => s.items)
+      .filter((item) => lineKey(item) === lineKey(line))
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+  const handleShip = async () => {
+    const items = order.items
+      .map((item) => ({
+        productId: item.productId,
+        ...(item.variantId ? { variantId: item.variantId } : {}),
+        quantity: quantities[lineKey(item)] ?? unshipped(item),
+      }))
+      .filter((item) => item.quantity > 0);
+    if (items.length === 0) {
+      showToast('Choose at least one item to ship', { type: 'error' });
+      return;
+    }
+    try {
+      setBusy(true);
+      const shipment = await createShipment(order.id, { carrier, items });
+      setQuantities({});
+      showToast(`Shipped with ${shipment.carrierName} (${shipment.trackingNumber})`, {
+        type: 'success',
+      });
+      onChanged();
+    } catch (err: any) {
+      showToast(err.message || 'Failed to create shipment', { type: 'error' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRefresh = async (id: string) => {
+    try {
+      setBusy(true);
+      await refreshShipment(id);
+      onChanged();
+    } catch (err: any) {
+      showToast(err.message || 'Failed to refresh tracking', { type: 'error' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const leftToShip = order.items.reduce((sum, item) => sum + Math.max(0, unshipped(item)), 0);
+  if (shipments.length === 0 && !canShip) return null;
+
+  return (
+    <div className={styles.card}>
+      <h2 className={styles.cardTitle}>Shipments</h2>
+      {shipments.length === 0 && <p className={styles.itemMeta}>Nothing has shipped yet.</p>}
+      {shipments.map((s) => (
+        <div key={s.id} className={styles.shipment}>
+          <div className={styles.shipmentHeader}>
+            <div>
+              <strong>{SHIPMENT_STATUS_LABELS[s.status]}</strong> · {s.carrierName} ·{' '}
+              {s.trackingNumber}
+            </div>
+            {can('orders:fulfil') && s.status !== 'delivered' && (
+              <button
+                type="button"
+                onClick={() => handleRefresh(s.id)}
+                disabled={busy}
+                className={styles.linkButton}
+              >
+                Refresh tracking
+              </button>
+            )}
+          </div>
+          <div className={styles.itemMeta}>
+            {s.items.map((item) => `${item.quantity} × ${itemLabel(item)}`).join(', ')}
+          </div>
+          {s.deliveredAt ? (
+            <div className={styles.itemMeta}>
+              Delivered {new Date(s.deliveredAt).toLocaleString()}
+            </div>
+          ) : (
+            s.estimatedDelivery && (
+              <div className={styles.itemMeta}>
+                Estimated delivery {new Date(s.estimatedDelivery).toLocaleDateString()}
+              </div>
+            )
+          )}
+          <ol className={styles.timeline}>
+            {[...s.events].reverse().map((event) => (
+              <li key={`${event.occurredAt}-${event.description}`} className={styles.timelineEvent}>
+                <div>{event.description}</div>
+                <div className={styles.itemMeta}>
+                  {new Date(event.occurredAt).toLocaleString()}
+                  {event.location ? ` · ${event.location}` : ''}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+
+      {canShip && leftToShip > 0 && (
+        <div className={styles.returnForm}>
+          <strong>Ship items</strong>
+          {order.items.map((item) => {
+            const key = lineKey(item);
+            const max = Math.max(0, unshipped(item));
+            return (
+              <div key={key} className={styles.returnLine}>
+                <label htmlFor={`ship-qty-${key}`}>
+                  {itemLabel(item)} ({max} left to ship)
+                </label>
+                <input
+                  id={`ship-qty-${key}`}
+                  type="number"
+                  min={0}
+                  max={max}
+                  disabled={max === 0}
+                  value={quantities[key] ?? max}
+                  onChange={(e) =>
+                    setQuantities((prev) => ({
+                      ...prev,
+                      [key]: Math.min(max, Math.max(0, Number(e.target.value))),
+                    }))
+                  }
+                  className={styles.returnInput}
+                />
+              </div>
+            );
+          })}
+          <label htmlFor="ship-carrier">Carrier</label>
+          <select
+            id="ship-carrier"
+            value={carrier}
+            onChange={(e) => setCarrier(e.target.value)}
+            className={styles.returnInput}
+          >
+            {carriers.map((c) => (
+              <option key={c.code} value={c.code}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+          <div>
+            <button
+              type="button"
+              onClick={handleShip}
+              disabled={busy || !carrier}
+              className={styles.payButton}
+            >
+              {busy ? 'Shipping...' : 'Create shipment'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * History section of the order detail page: status and payment changes and
+ * edits to the order, newest first. Staff also see the internal comments
+ * left on the order and can add their own, @mentioning colleagues.
+ *
+ * @fileoverview Order timeline and staff comments
+ * @module pages/OrderTimeline
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { addOrderComment, getOrderTimeline } from '../api/clients/orderTimeline.api';
+import { useAuth } from '../features/auth/AuthProvider';
+import { showToast } from '../lib/toast';
+import {
+  MAX_COMMENT_LENGTH,
+  splitMentions,
+  type TimelineEntry,
+  timelineActorLabel,
+} from '../types/orderTimeline';
+import type { Order } from '../types/orders';
+import * as styles from './OrderDetail.css';
+
+interface OrderTimelineProps {
+  /** The timeline reloads whenever a new copy of the order comes in */
+  order: Order;
+}
+
+export default function OrderTimeline({ order }: OrderTimelineProps) {
+  const { can } = useAuth();
+  const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [comment, setComment] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const load = useCallback(async (orderId: string) => {
+    try {
+      setEntries(await getOrderTimeline(orderId));
+    } catch (err: any) {
+      showToast(err.message || 'Failed to load order history', { type: 'error' });
+    }
+  }, []);
+
+  useEffect(() => {
+    load(order.id);
+  }, [order, load]);
+
+  const handleComment = async () => {
+    try {
+      setPosting(true);
+      const entry = await addOrderComment(order.id, comment.trim());
+      setEntries((prev) => [entry, ...prev]);
+      setComment('');
+      if (entry.mentions?.length) {
+        showToast(`Notified ${entry.mentions.map((m) => m.email).join(', ')}`, {
+          type: 'success',
+        });
+      }
+    } catch (err: any) {
+      showToast(err.message || 'Failed to add comment', { type: 'error' });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  if (entries.length === 0 && !can('orders:read')) return null;
+
+  return (
+    <div className={styles.card}>
+      <h2 className={styles.cardTitle}>History</h2>
+      {can('orders:read') && (
+        <div className={styles.returnForm}>
+          <label htmlFor="order-comment">Internal comment (not shown to the customer)</label>
+          <textarea
+            id="order-comment"
+            rows={3}
+            maxLength={MAX_COMMENT_LENGTH}
+            value={comment}
+            placeholder="Use @name to notify a colleague"
+            onChange={(e) => setComment(e.target.value)}
+            className={styles.returnInput}
+          />
+          <div>
+            <button
+              type="button"
+              onClick={handleComment}
+              disabled={posting || !comment.trim()}
+              className={styles.payButton}
+            >
+              {posting ? 'Posting...' : 'Add comment'}
+            </button>
+          </div>
+        </div>
+      )}
+      <ol className={styles.timeline}>
+        {entries.map((entry) => (
+          <li key={entry.id} className={styles.timelineEvent}>
+            <div>
+              {entry.summary}
+              {entry.internal && <span className={styles.itemMeta}> · internal</span>}
+            </div>
+            {entry.body && (
+              <div className={styles.internalComment}>
+                {splitMentions(entry.body).map((part) =>
+                  part.mention ? (
+                    <span key={part.offset} className={styles.mention}>
+                      {part.text}
+                    </span>
+                  ) : (
+                    part.text
+                  )
+                )}
+              </div>
+            )}
+            <div className={styles.itemMeta}>
+              {new Date(entry.createdAt).toLocaleString()} · {timelineActorLabel(entry)}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -330,6 +330,7 @@ export function Orders() {
                             <div className="flex-1">
                               <p className="text-sm font-medium text-gray-900">
                                 {item.productName}
+                                {item.variantName ? ` (${item.variantName})` : ''}
                               </p>
                               <p className="text-xs text-gray-500">
                                 Qty: {item.quantity} × ${item.unitPrice.toFixed(2)}
@@ -1,5 +1,6 @@
 import { createProduct, uploadImages } from '@client/api/clients/products.api';
 import { actions, btnOutline, btnPrimary, card, field, input, label } from '@client/app/ui.css';
+import VariantsEditor, { type VariantsValue } from '@client/components/admin/VariantsEditor';
 import ErrorAlert from '@client/components/ui/ErrorAlert';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useRef, useState } from 'react';
@@ -12,8 +13,12 @@ const Schema = z.object({
   price: z.coerce.number().nonnegative(),
   description: z.string().optional().default(''),
   category: z.string().min(2),
-  rating: z.coerce.number().min(0).max(5).default(0),
+  sku: z.string().trim().max(64).optional().default(''),
   stock: z.coerce.number().int().nonnegative().default(0),
+  lowStockThreshold: z.preprocess(
+    (v) => (v === '' || v == null ? undefined : v),
+    z.coerce.number().int().nonnegative().optional()
+  ),
 });
 
 type FormValues = z.infer<typeof Schema>;
@@ -26,7 +31,7 @@ type FormValues = z.infer<typeof Schema>;
  *
  * The component:
  * - Uses react-hook-form with zodResolver(Schema) to manage form state and validation.
- * - Exposes fields: name, price, category, rating, stock, description.
+ * - Exposes fields: name, price, category, SKU, stock, low-stock threshold, variants, description.
  * - Allows users to upload images via file input (uploads to Cloudinary).
  * - Shows image previews with the ability to remove uploaded images before submission.
  * - Disables the submit button while the form is submitting (isSubmitting).
@@ -39,7 +44,7 @@ type FormValues = z.infer<typeof Schema>;
  *
  * Notes:
  * - Price input uses step="0.01".
- * - Rating input is constrained with min=0, max=5 and step=0.1.
+ * - There is no rating field; the rating is the average of approved customer reviews.
  * - Images are uploaded immediately when selected and stored in component state.
  * - Validation logic and types are derived from Schema (zod).
  *
@@ -55,16 +60,19 @@ export default function ProductCreate() {
   const [submitDetails, setSubmitDetails] = useState<any>(null);
   const [submitIndexUrl, setSubmitIndexUrl] = useState<string | undefined>(undefined);
   const [uploadStatus, setUploadStatus] = useState<{ text: string; color: string } | null>(null);
+  const [variants, setVariants] = useState<VariantsValue>({ options: [], variants: [] });
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
   const statusTimeout = useRef<NodeJS.Timeout | null>(null);
   const {
     register,
     handleSubmit,
     reset,
+    watch,
     formState: { errors, isSubmitting },
   } = useForm<z.input<typeof Schema>, any, FormValues>({ resolver: zodResolver(Schema) });
 
   async function onSubmit(values: FormValues) {
+    const withVariants = variants.variants.length > 0;
     try {
       setSubmitError(null);
       setSubmitDetails(null);
@@ -73,8 +81,11 @@ export default function ProductCreate() {
         price: values.price,
         description: values.description,
         category: values.category,
-        rating: values.rating,
-        stock: values.stock,
+        sku: values.sku || undefined,
+        ...(withVariants
+          ? { options: variants.options, variants: variants.variants }
+          : { stock: values.stock }),
+        lowStockThreshold: values.lowStockThreshold,
         images: uploadedImages,
       });
       if (created && created.id) {
@@ -215,29 +226,44 @@ export default function ProductCreate() {
           {errors.category && <small style={{ color: 'crimson' }}>{errors.category.message}</small>}
         </div>
         <div className={field}>
-          <label className={label}>Rating</label>
+          <label className={label} htmlFor="sku">
+            SKU
+          </label>
+          <input id="sku" className={input} maxLength={64} {...register('sku')} />
+          {errors.sku && <small style={{ color: 'crimson' }}>{errors.sku.message}</small>}
+        </div>
+        <div className={field}>
+          <label className={label}>Stock</label>
           <input
             className={input}
             type="number"
             min={0}
-            max={5}
-            step={0.1}
-            {...register('rating')}
+            step={1}
+            {...register('stock')}
+            disabled={variants.variants.length > 0}
+            placeholder="Available inventory count"
           />
-          {errors.rating && <small style={{ color: 'crimson' }}>{errors.rating.message}</small>}
+          {variants.variants.length > 0 && <small>Tracked per variant below.</small>}
+          {errors.stock && <small style={{ color: 'crimson' }}>{errors.stock.message}</small>}
         </div>
         <div className={field}>
-          <label className={label}>Stock</label>
+          <label className={label} htmlFor="lowStockThreshold">
+            Low-stock threshold
+          </label>
           <input
+            id="lowStockThreshold"
             className={input}
             type="number"
             min={0}
             step={1}
-            {...register('stock')}
-            placeholder="Available inventory count"
+            {...register('lowStockThreshold')}
+            placeholder="Leave empty for the store default"
           />
-          {errors.stock && <small style={{ color: 'crimson' }}>{errors.stock.message}</small>}
+          {errors.lowStockThreshold && (
+            <small style={{ color: 'crimson' }}>{errors.lowStockThreshold.message}</small>
+          )}
         </div>
+        <VariantsEditor value={variants} onChange={setVariants} skuPrefix={watch('name')} />
         <div className={field}>
           <label className={label}>Description</label>
           <textarea className={input} rows={3} {...register('description')} />
@@ -1,5 +1,6 @@
 import { getProduct, updateProduct, uploadImages } from '@client/api/clients/products.api';
 import { actions, btnOutline, btnPrimary, card, field, input, label } from '@client/app/ui.css';
+import VariantsEditor, { type VariantsValue } from '@client/components/admin/VariantsEditor';
 import ErrorAlert from '@client/components/ui/ErrorAlert';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useEffect, useRef, useState } from 'react';
@@ -12,8 +13,12 @@ const Schema = z.object({
   price: z.coerce.number().nonnegative(),
   description: z.string().optional(),
   category: z.string().min(2),
-  rating: z.coerce.number().min(0).max(5).default(0),
+  sku: z.string().trim().max(64).optional().default(''),
   stock: z.coerce.number().int().nonnegative().default(0),
+  lowStockThreshold: z.preprocess(
+    (v) => (v === '' || v == null ? undefined : v),
+    z.coerce.number().int().nonnegative().optional()
+  ),
   imagesText: z.string().optional().default(''),
 });
 
@@ -40,7 +45,6 @@ function ErrorMessage({ message }: { message?: string }) {
  * - name: string
  * - price: number (input type="number", step 0.01)
  * - category: string
- * - rating: number (input type="number", min 0, max 5, step 0.1)
  * - description: string (textarea)
  *
  * Behavior and UX:
@@ -73,8 +77,10 @@ export default function ProductEdit() {
   const [submitDetails, setSubmitDetails] = useState<any>(null);
   const [submitIndexUrl, setSubmitIndexUrl] = useState<string | undefined>(undefined);
   const [uploadStatus, setUploadStatus] = useState<{ text: string; color: string } | null>(null);
+  const [variants, setVariants] = useState<VariantsValue>({ options: [], variants: [] });
+  const [hadVariants, setHadVariants] = useState(false);
   const statusTimeout = useRef<NodeJS.Timeout | null>(null);
-  const { register, handleSubmit, reset, formState, getValues, setValue } = useForm<
+  const { register, handleSubmit, reset, formState, getValues, setValue, watch } = useForm<
     z.input<typeof Schema>,
     any,
     FormValues
@@ -84,21 +90,25 @@ export default function ProductEdit() {
 
   useEffect(() => {
     if (!id) return;
-    getProduct(id).then((p) =>
+    getProduct(id).then((p) => {
+      setVariants({ options: p.options ?? [], variants: p.variants ?? [] });
+      setHadVariants(Boolean(p.variants?.length));
       reset({
         name: p.name ?? '',
         price: p.price ?? 0,
         description: p.description ?? '',
         category: p.category ?? '',
-        rating: p.rating ?? 0,
+        sku: p.sku ?? '',
         stock: p.stock ?? 0,
+        lowStockThreshold: p.lowStockThreshold ?? '',
         imagesText: Array.isArray(p.images) ? p.images.join('\n') : '',
-      })
-    );
+      });
+    });
   }, [id, reset]);
 
   async function onSubmit(values: FormValues) {
     if (!id) return;
+    const withVariants = variants.variants.length > 0;
     const images = (values.imagesText || '')
       .split(/\r?\n|,/)
       .map((s) => s.trim())
@@ -111,8 +121,16 @@ export default function ProductEdit() {
         price: values.price,
         description: values.description,
         category: values.category,
-        rating: values.rating,
-        stock: values.stock,
+        sku: values.sku || undefined,
+        ...(withVariants ? {} : { stock: values.stock }),
+        // null clears the product's own threshold
+        lowStockThreshold: values.lowStockThreshold ?? null,
+        ...(withVariants || hadVariants
+          ? {
+              options: withVariants ? variants.options : [],
+              variants: withVariants ? variants.variants : [],
+            }
+          : {}),
         images,
       });
       nav(`/products/${id}`);
@@ -211,29 +229,42 @@ export default function ProductEdit() {
           <ErrorMessage message={formState.errors.category?.message} />
         </div>
         <div className={field}>
-          <label className={label}>Rating</label>
+          <label className={label} htmlFor="sku">
+            SKU
+          </label>
+          <input id="sku" className={input} maxLength={64} {...register('sku')} />
+          <ErrorMessage message={formState.errors.sku?.message} />
+        </div>
+        <div className={field}>
+          <label className={label}>Stock</label>
           <input
             className={input}
             type="number"
             min={0}
-            max={5}
-            step={0.1}
-            {...register('rating')}
+            step={1}
+            {...register('stock')}
+            disabled={variants.variants.length > 0}
+            placeholder="Available inventory count"
           />
-          <ErrorMessage message={formState.errors.rating?.message} />
+          {variants.variants.length > 0 && <small>Tracked per variant below.</small>}
+          <ErrorMessage message={formState.errors.stock?.message} />
         </div>
         <div className={field}>
-          <label className={label}>Stock</label>
+          <label className={label} htmlFor="lowStockThreshold">
+            Low-stock threshold
+          </label>
           <input
+            id="lowStockThreshold"
             className={input}
             type="number"
             min={0}
             step={1}
-            {...register('stock')}
-            placeholder="Available inventory count"
+            {...register('lowStockThreshold')}
+            placeholder="Leave empty for the store default"
           />
-          <ErrorMessage message={formState.errors.stock?.message} />
+          <ErrorMessage message={formState.errors.lowStockThreshold?.message} />
         </div>
+        <VariantsEditor value={variants} onChange={setVariants} skuPrefix={watch('name')} />
         <div className={field}>
           <label className={label}>Description</label>
           <textarea className={input} rows={3} {...register('description')} />
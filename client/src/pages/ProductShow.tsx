@@ -14,6 +14,9 @@ import {
 import FavoriteButton from '@client/components/ui/FavoriteButton';
 import { useAuth } from '@client/features/auth/AuthProvider';
 import { addToCartAtom, isCartOpenAtom } from '@client/features/cart/cartAtoms';
+import ProductReviews from '@client/features/products/ProductReviews';
+import VariantPicker from '@client/features/products/VariantPicker';
+import { findVariant, hasVariants } from '@client/features/products/variants';
 import { PLACEHOLDER_SRC, resolveImageUrl } from '@client/lib/images';
 import type { Product as CanonicalProduct } from '@client/types/product';
 import { useSetAtom } from 'jotai';
@@ -90,11 +93,15 @@ function ConfirmModal({
  * - product: Product | null — the loaded product data.
  * - loading: boolean — whether the product is currently being fetched.
  * - error: string | null — an error message to display if a fetch or delete fails.
+ * - selection: Record<string, string> — chosen option values for products with variants;
+ *   price, stock, images and Add to Cart follow the matching variant.
+ * The rating shown is the average of approved reviews; ProductReviews below the
+ * product lists them and lets customers who received the product write one.
  * Dependencies / External APIs:
  * - getProduct(id): Promise<Product>
  * - deleteProduct(id): Promise<void>
  * - useParams(), useNavigate() from react-router
- * - useAuth() (expects `{ token, isAdmin }`)
+ * - useAuth() (expects `{ can }`)
  * - ConfirmModal component for delete confirmation
  *
  * @returns JSX.Element - the Product detail view with conditional actions and a confirmation modal.
@@ -104,18 +111,20 @@ export default function ProductShow() {
   const setCartOpen = useSetAtom(isCartOpenAtom);
   const { id } = useParams();
   const nav = useNavigate();
-  const { token, isAdmin } = useAuth();
+  const { can } = useAuth();
 
   const [product, setProduct] = useState<Product | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showConfirm, setShowConfirm] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [selection, setSelection] = useState<Record<string, string>>({});
 
   useEffect(() => {
     if (!id) return;
     setLoading(true);
     setError(null);
+    setSelection({});
     getProduct(id)
       .then(setProduct)
       .catch((e) => {
@@ -144,10 +153,19 @@ export default function ProductShow() {
   if (error) return <p style={{ color: 'crimson' }}>{error}</p>;
   if (!product) return <p>Product not found.</p>;
 
-  const canEdit = Boolean(token) || isAdmin;
-  const stockLevel = typeof product.stock === 'number' ? product.stock : 0;
+  const canEdit = can('products:write');
+  const withVariants = hasVariants(product);
+  const variant = withVariants ? findVariant(product, selection) : undefined;
+  const needsSelection = withVariants && !variant && product.stock > 0;
+  const stockLevel = variant
+    ? variant.stock
+    : typeof product.stock === 'number'
+      ? product.stock
+      : 0;
   const isOutOfStock = stockLevel <= 0;
   const isLowStock = stockLevel > 0 && stockLevel <= 5;
+  const price = variant?.price ?? product.price;
+  const images = variant?.images?.length ? variant.images : product.images;
 
   return (
     <>
@@ -163,11 +181,11 @@ export default function ProductShow() {
           <h2 style={{ marginTop: 0, marginBottom: 0 }}>{product.name}</h2>
           <FavoriteButton productId={product.id} size={24} />
         </div>
-        {Array.isArray(product.images) && product.images.length > 0 && (
+        {Array.isArray(images) && images.length > 0 && (
           <div style={{ display: 'grid', gap: 8, marginBottom: 8 }}>
             {/* Primary image */}
             <img
-              src={resolveImageUrl(product.images[0])}
+              src={resolveImageUrl(images[0])}
               alt={product.name}
               className={`${photoFrame} ${sepiaPhoto}`}
               style={{ maxHeight: 360, objectFit: 'cover' }}
@@ -177,9 +195,9 @@ export default function ProductShow() {
               }}
             />
             {/* Thumbnails */}
-            {product.images.length > 1 && (
+            {images.length > 1 && (
               <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
-                {product.images.slice(1).map((url, i) => (
+                {images.slice(1).map((url, i) => (
                   <img
                     key={i}
                     src={resolveImageUrl(url)}
@@ -205,7 +223,7 @@ export default function ProductShow() {
           <p style={{ margin: 0, color: '#6d5b45' }}>
             Category: {product.category ? product.category : 'Uncategorised'}
           </p>
-          {typeof product.rating === 'number' && !Number.isNaN(product.rating) && (
+          {product.reviewCount ? (
             <p style={{ margin: 0 }}>
               {(() => {
                 const clamped = Math.max(0, Math.min(5, Number(product.rating)));
@@ -216,15 +234,26 @@ export default function ProductShow() {
                     <span aria-hidden="true" style={{ color: '#d49a6a' }}>
                       {'★'.repeat(rounded)}
                       {'☆'.repeat(5 - rounded)}
-                    </span>
+                    </span>{' '}
+                    <a href="#reviews-heading" style={{ color: '#6d5b45' }}>
+                      ({product.reviewCount} review{product.reviewCount === 1 ? '' : 's'})
+                    </a>
                   </>
                 );
               })()}
             </p>
+          ) : (
+            <p style={{ margin: 0, color: '#6d5b45' }}>No reviews yet</p>
+          )}
+          <p style={{ margin: 0, fontWeight: 600 }}>Price: ${Number(price).toFixed(2)}</p>
+          {variant && <p style={{ margin: 0, color: '#6d5b45' }}>SKU: {variant.sku}</p>}
+          {withVariants && (
+            <VariantPicker product={product} selection={selection} onChange={setSelection} />
           )}
-          <p style={{ margin: 0, fontWeight: 600 }}>Price: ${Number(product.price).toFixed(2)}</p>
           <div style={{ margin: '4px 0 0', fontSize: '0.95rem' }}>
-            {isOutOfStock ? (
+            {needsSelection ? (
+              <span style={{ color: '#6d5b45' }}>Choose your options to see availability</span>
+            ) : isOutOfStock ? (
               <span style={{ color: '#dc2626', fontWeight: '600' }}>⚠️ Out of Stock</span>
             ) : isLowStock ? (
               <span style={{ color: '#f59e0b', fontWeight: '600' }}>⚡ Only {stockLevel} left</span>
@@ -239,18 +268,18 @@ export default function ProductShow() {
           style={{
             margin: '12px 0',
             width: '100%',
-            opacity: isOutOfStock ? 0.6 : 1,
-            cursor: isOutOfStock ? 'not-allowed' : 'pointer',
+            opacity: isOutOfStock || needsSelection ? 0.6 : 1,
+            cursor: isOutOfStock || needsSelection ? 'not-allowed' : 'pointer',
           }}
-          disabled={isOutOfStock}
+          disabled={isOutOfStock || needsSelection}
           onClick={() => {
-            if (!isOutOfStock) {
-              setAddToCart(product, 1);
+            if (!isOutOfStock && !needsSelection) {
+              setAddToCart(product, 1, variant);
               setCartOpen(true);
             }
           }}
         >
-          {isOutOfStock ? 'Out of Stock' : 'Add to Cart'}
+          {needsSelection ? 'Choose options' : isOutOfStock ? 'Out of Stock' : 'Add to Cart'}
         </button>
         {canEdit && (
           <div className={actions}>
@@ -267,6 +296,8 @@ export default function ProductShow() {
         )}
       </article>
 
+      <ProductReviews productId={product.id} />
+
       <ConfirmModal
         open={showConfirm}
         message="Delete this product?"
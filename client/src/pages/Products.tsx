@@ -1,4 +1,8 @@
-import { listProductsPaged } from '@client/api/clients/products.api';
+import {
+  listProductsPaged,
+  searchProducts,
+  suggestProducts,
+} from '@client/api/clients/products.api';
 import {
   btnOutline,
   btnPrimary,
@@ -7,22 +11,82 @@ import {
   photoFrame,
   sepiaPhoto,
 } from '@client/app/ui.css';
+import Autocomplete from '@client/components/ui/Autocomplete';
 import FavoriteButton from '@client/components/ui/FavoriteButton';
 import Loading from '@client/components/ui/Loading';
 import { useAuth } from '@client/features/auth/AuthProvider';
 import { addToCartAtom, isCartOpenAtom } from '@client/features/cart/cartAtoms';
+import { hasVariants } from '@client/features/products/variants';
 import { useDebounce } from '@client/lib/hooks/useDebounce';
 import { PLACEHOLDER_SRC, resolveImageUrl } from '@client/lib/images';
-import type { Product } from '@client/types/product';
+import type {
+  Product,
+  ProductFacetCount,
+  ProductSearchFacets,
+  ProductSearchSort,
+} from '@client/types/product';
 import { useSetAtom } from 'jotai';
-import { useEffect, useState } from 'react';
-import { Link } from 'react-router-dom';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+
+type Suggestion = { id: string; name: string; description?: string; price: string };
+
+const facetButton = (active: boolean): React.CSSProperties => ({
+  display: 'flex',
+  justifyContent: 'space-between',
+  width: '100%',
+  padding: '4px 8px',
+  border: 'none',
+  borderRadius: 6,
+  background: active ? '#f3e8d8' : 'transparent',
+  fontWeight: active ? 600 : 400,
+  cursor: 'pointer',
+  textAlign: 'left',
+});
+
+/**
+ * One sidebar facet: a list of values with result counts, where clicking the
+ * active value clears the filter
+ */
+function FacetList({
+  title,
+  values,
+  selected,
+  onSelect,
+}: {
+  title: string;
+  values: ProductFacetCount[];
+  selected?: string;
+  onSelect: (value: string | undefined) => void;
+}) {
+  const shown = values.filter((f) => f.count > 0 || f.value === selected);
+  return (
+    <div style={{ marginBottom: 16 }}>
+      <h4 style={{ margin: '0 0 8px' }}>{title}</h4>
+      {shown.length === 0 && <p style={{ margin: 0, color: '#64748b' }}>No matches</p>}
+      {shown.map((facet) => (
+        <button
+          key={facet.value}
+          type="button"
+          aria-pressed={facet.value === selected}
+          style={facetButton(facet.value === selected)}
+          onClick={() => onSelect(facet.value === selected ? undefined : facet.value)}
+        >
+          <span>{facet.label}</span>
+          <span style={{ color: '#64748b' }}>{facet.count}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
 
 /**
  * Products component
  *
- * Fetches and displays a list of products sorted by price (ascending).
- * Incorporates loading and error feedback to improve perceived performance.
+ * Searches the catalog (ranked by relevance while a query is entered) and shows
+ * the results next to a filter sidebar built from the search facets. The search
+ * box suggests matching products as you type. Incorporates loading and error
+ * feedback to improve perceived performance.
  */
 export default function Products() {
   const [items, setItems] = useState<Product[]>([]);
@@ -30,19 +94,42 @@ export default function Products() {
   const setCartOpen = useSetAtom(isCartOpenAtom);
   const [q, setQ] = useState('');
   const debouncedQ = useDebounce(q, 300); // Debounce search by 300ms
-  const [sort, setSort] = useState<'price-asc' | 'price-desc' | 'name-asc' | 'name-desc'>(
-    'price-asc'
-  );
-  const [page, setPage] = useState(1);
+  const [category, setCategory] = useState<string | undefined>();
+  const [priceBucket, setPriceBucket] = useState<string | undefined>();
+  const [facets, setFacets] = useState<ProductSearchFacets | null>(null);
+  const [sort, setSort] = useState<ProductSearchSort>('relevance');
+  const [page, setPage] = useState(1); // 1-based, for display only
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [cursors, setCursors] = useState<{ next: string | null; prev: string | null }>({
+    next: null,
+    prev: null,
+  });
   const [pageSize, setPageSize] = useState(12);
   const [total, setTotal] = useState(0);
   const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [requestId, setRequestId] = useState(0);
   const [loadingStartTime, setLoadingStartTime] = useState<number | null>(null);
-  const { isAdmin } = useAuth();
+  const { can } = useAuth();
+  const navigate = useNavigate();
+
+  const loadSuggestions = useCallback(
+    async (query: string): Promise<Suggestion[]> =>
+      (await suggestProducts(query, 6)).map((product) => ({
+        id: product.id,
+        name: product.name,
+        description: product.category,
+        price: `$${Number(product.price).toFixed(2)}`,
+      })),
+    []
+  );
 
   const pageCount = Math.max(1, Math.ceil(total / (pageSize || 1)));
+
+  // Cursors only fit the sort and filters they came from, so any change starts over
+  const resetPaging = () => {
+    setPage(1);
+    setCursor(undefined);
+  };
   const isLoading = status === 'loading';
   const isError = status === 'error';
   const hasProducts = items.length > 0;
@@ -52,55 +139,76 @@ export default function Products() {
     isLoading ||
     (isError && loadingStartTime && Date.now() - loadingStartTime < 2000 && !hasProducts);
 
-  useEffect(() => {
-    let cancelled = false;
+  // Only the latest request may update the page; responses to superseded ones are dropped
+  const productsRequest = useRef(0);
+  const facetsRequest = useRef(0);
 
-    async function fetchProducts() {
-      setStatus('loading');
-      setErrorMessage(null);
-      setLoadingStartTime(Date.now());
-      const [field, dir] = sort.split('-') as [string, 'asc' | 'desc'];
+  const loadProducts = useCallback(async () => {
+    const request = ++productsRequest.current;
+    setStatus('loading');
+    setErrorMessage(null);
+    setLoadingStartTime(Date.now());
 
-      try {
-        const response = await listProductsPaged({
-          sort: { field, dir },
-          filter: debouncedQ ? { q: debouncedQ } : undefined,
-          page,
-          pageSize,
-        });
+    try {
+      const response = await listProductsPaged({
+        q: debouncedQ || undefined,
+        category,
+        price: priceBucket,
+        sort,
+        limit: pageSize,
+        cursor,
+      });
 
-        if (cancelled) {
-          return;
-        }
+      if (request !== productsRequest.current) {
+        return;
+      }
 
-        const nextPageCount = Math.max(1, Math.ceil(response.meta.total / (pageSize || 1)));
-        if (page > nextPageCount) {
-          setPage(nextPageCount);
-          return;
-        }
+      // Products were removed under us; go back to the first page
+      if (cursor && response.data.length === 0) {
+        setPage(1);
+        setCursor(undefined);
+        return;
+      }
 
-        setItems(response.data);
-        setTotal(response.meta.total);
-        setStatus('success');
-      } catch (error) {
-        if (cancelled) {
-          return;
-        }
-        setStatus('error');
-        setErrorMessage(
-          error instanceof Error ? error.message : 'Failed to load products. Please try again.'
-        );
+      setItems(response.data);
+      setTotal(response.meta.total);
+      setCursors({ next: response.meta.nextCursor, prev: response.meta.prevCursor });
+      setStatus('success');
+    } catch (error) {
+      if (request !== productsRequest.current) {
+        return;
       }
+      setStatus('error');
+      setErrorMessage(
+        error instanceof Error ? error.message : 'Failed to load products. Please try again.'
+      );
     }
+  }, [debouncedQ, category, priceBucket, sort, cursor, pageSize]);
 
-    fetchProducts();
+  // Facet counts only change with the query and filters, not when paging
+  const loadFacets = useCallback(() => {
+    const request = ++facetsRequest.current;
+    searchProducts({ q: debouncedQ || undefined, category, price: priceBucket, pageSize: 1 })
+      .then((response) => {
+        if (request === facetsRequest.current) setFacets(response.meta.facets);
+      })
+      .catch(() => {
+        if (request === facetsRequest.current) setFacets(null);
+      });
+  }, [debouncedQ, category, priceBucket]);
 
-    return () => {
-      cancelled = true;
-    };
-  }, [debouncedQ, sort, page, pageSize, requestId]);
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  useEffect(() => {
+    loadFacets();
+  }, [loadFacets]);
 
-  const handleRetry = () => setRequestId((id) => id + 1);
+  const handleRetry = () => {
+    loadProducts();
+    loadFacets();
+  };
 
   const gridContent = (() => {
     if (shouldShowSpinner) {
@@ -149,7 +257,10 @@ export default function Products() {
     }
 
     return items.map((product) => {
-      const hasRating = typeof product.rating === 'number' && !Number.isNaN(product.rating);
+      const hasRating =
+        Boolean(product.reviewCount) &&
+        typeof product.rating === 'number' &&
+        !Number.isNaN(product.rating);
       const clampedRating = hasRating ? Math.max(0, Math.min(5, Number(product.rating))) : null;
       const roundedStars = clampedRating !== null ? Math.round(clampedRating) : null;
       const filledStars = roundedStars ?? 0;
@@ -163,6 +274,12 @@ export default function Products() {
       const isOutOfStock = stockLevel <= 0;
       const isLowStock = stockLevel > 0 && stockLevel <= 5;
 
+      // Products with variants are added to the cart from their page, once options are chosen
+      const withVariants = hasVariants(product);
+      const variantPrices = (product.variants ?? []).map((v) => v.price ?? product.price);
+      const fromPrice = withVariants ? Math.min(...variantPrices) : product.price;
+      const priceVaries = variantPrices.some((price) => price !== fromPrice);
+
       const primaryImage =
         (Array.isArray(product.images) && product.images[0]) ||
         (Array.isArray(product.imageUrls) && product.imageUrls[0]) ||
@@ -205,7 +322,8 @@ export default function Products() {
               <span aria-hidden="true" style={{ color: '#d49a6a' }}>
                 {'★'.repeat(filledStars)}
                 {'☆'.repeat(emptyStars)}
-              </span>
+              </span>{' '}
+              <span style={{ color: '#6d5b45' }}>({product.reviewCount})</span>
             </p>
           )}
           <p style={{ margin: '4px 0 8px', fontSize: '0.95rem' }}>{descriptionPreview}</p>
@@ -218,25 +336,37 @@ export default function Products() {
               <span style={{ color: '#059669' }}>✓ {stockLevel} in stock</span>
             )}
           </div>
-          <p style={{ margin: 0, fontWeight: 600 }}>${Number(product.price).toFixed(2)}</p>
-          <button
-            className={btnPrimary}
-            style={{
-              marginTop: 8,
-              width: '100%',
-              opacity: isOutOfStock ? 0.6 : 1,
-              cursor: isOutOfStock ? 'not-allowed' : 'pointer',
-            }}
-            disabled={isOutOfStock}
-            onClick={() => {
-              if (!isOutOfStock) {
-                setAddToCart(product, 1);
-                setCartOpen(true);
-              }
-            }}
-          >
-            {isOutOfStock ? 'Out of Stock' : 'Add to Cart'}
-          </button>
+          <p style={{ margin: 0, fontWeight: 600 }}>
+            {priceVaries ? 'From ' : ''}${Number(fromPrice).toFixed(2)}
+          </p>
+          {withVariants && !isOutOfStock ? (
+            <Link
+              to={`/products/${product.id}`}
+              className={btnPrimary}
+              style={{ marginTop: 8, width: '100%', textAlign: 'center' }}
+            >
+              Choose options
+            </Link>
+          ) : (
+            <button
+              className={btnPrimary}
+              style={{
+                marginTop: 8,
+                width: '100%',
+                opacity: isOutOfStock ? 0.6 : 1,
+                cursor: isOutOfStock ? 'not-allowed' : 'pointer',
+              }}
+              disabled={isOutOfStock}
+              onClick={() => {
+                if (!isOutOfStock) {
+                  setAddToCart(product, 1);
+                  setCartOpen(true);
+                }
+              }}
+            >
+              {isOutOfStock ? 'Out of Stock' : 'Add to Cart'}
+            </button>
+          )}
         </article>
       );
     });
@@ -253,8 +383,8 @@ export default function Products() {
         }}
       >
         <h2>Products</h2>
-        {isAdmin && (
-          <Link className={btnPrimary} to="/admin">
+        {can('products:write') && (
+          <Link className={btnPrimary} to="/admin/products/new">
             Create Product
           </Link>
         )}
@@ -282,22 +412,30 @@ export default function Products() {
         </div>
       )}
       <div style={{ display: 'flex', gap: 12, marginBottom: 16 }}>
-        <input
-          value={q}
-          onChange={(event) => {
-            setPage(1);
-            setQ(event.target.value);
-          }}
-          placeholder="Search..."
-          className={inputField}
-          style={{ flex: 1 }}
-        />
+        <div style={{ flex: 1 }}>
+          <Autocomplete<Suggestion>
+            value={q}
+            onChange={(value) => {
+              resetPaging();
+              setQ(value);
+            }}
+            loadSuggestions={loadSuggestions}
+            onSelect={(item) => navigate(`/products/${item.id}`)}
+            formatItem={(item) => item}
+            placeholder="Search..."
+            ariaLabel="Search products"
+          />
+        </div>
         <select
           value={sort}
-          onChange={(event) => setSort(event.target.value as typeof sort)}
+          onChange={(event) => {
+            resetPaging();
+            setSort(event.target.value as ProductSearchSort);
+          }}
           className={inputField}
           style={{ width: 'auto' }}
         >
+          <option value="relevance">{debouncedQ ? 'Best match' : 'Newest'}</option>
           <option value="price-asc">Price ↑</option>
           <option value="price-desc">Price ↓</option>
           <option value="name-asc">Name A-Z</option>
@@ -306,7 +444,7 @@ export default function Products() {
         <select
           value={pageSize}
           onChange={(event) => {
-            setPage(1);
+            resetPaging();
             setPageSize(Number(event.target.value));
           }}
           className={inputField}
@@ -317,20 +455,60 @@ export default function Products() {
           <option value={24}>24</option>
         </select>
       </div>
-      <div
-        style={{
-          display: 'grid',
-          gridTemplateColumns: 'repeat(auto-fill, minmax(260px, 1fr))',
-          gap: 16,
-        }}
-      >
-        {gridContent}
+      <div style={{ display: 'flex', gap: 16, alignItems: 'flex-start' }}>
+        <aside className={card} style={{ width: 220, flexShrink: 0 }} aria-label="Filters">
+          <FacetList
+            title="Category"
+            values={facets?.categories ?? []}
+            selected={category}
+            onSelect={(value) => {
+              resetPaging();
+              setCategory(value);
+            }}
+          />
+          <FacetList
+            title="Price"
+            values={facets?.price ?? []}
+            selected={priceBucket}
+            onSelect={(value) => {
+              resetPaging();
+              setPriceBucket(value);
+            }}
+          />
+          {(category || priceBucket) && (
+            <button
+              type="button"
+              className={btnOutline}
+              style={{ width: '100%' }}
+              onClick={() => {
+                resetPaging();
+                setCategory(undefined);
+                setPriceBucket(undefined);
+              }}
+            >
+              Clear filters
+            </button>
+          )}
+        </aside>
+        <div
+          style={{
+            flex: 1,
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(260px, 1fr))',
+            gap: 16,
+          }}
+        >
+          {gridContent}
+        </div>
       </div>
       <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginTop: 16 }}>
         <button
           className={btnOutline}
-          disabled={page <= 1 || isLoading}
-          onClick={() => setPage((current) => Math.max(1, current - 1))}
+          disabled={!cursors.prev || isLoading}
+          onClick={() => {
+            setPage((current) => Math.max(1, current - 1));
+            setCursor(cursors.prev ?? undefined);
+          }}
         >
           Prev
         </button>
@@ -339,8 +517,11 @@ export default function Products() {
         </span>
         <button
           className={btnOutline}
-          disabled={page >= pageCount || isLoading}
-          onClick={() => setPage((current) => current + 1)}
+          disabled={!cursors.next || isLoading}
+          onClick={() => {
+            setPage((current) => current + 1);
+            setCursor(cursors.next ?? undefined);
+          }}
         >
           Next
         </button>
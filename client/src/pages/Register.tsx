@@ -16,7 +16,7 @@ export default function Register() {
   const form = useAppForm({
     schema: Schema,
     defaultValues: { email: '', password: '' },
-    successMessage: 'Account created. You can now log in.',
+    successMessage: 'Account created. Check your inbox to confirm your email, then log in.',
     onSubmit: async (values) => {
       await apiRegister(values);
     },
@@ -0,0 +1,76 @@
+import { resetPassword } from '@client/api/clients/auth.api';
+import { FormActions } from '@client/components/forms/FormActions';
+import { TextField } from '@client/components/forms/TextField';
+import { AuthCardLayout } from '@client/components/layout/AuthCardLayout';
+import { useAppForm } from '@client/lib/hooks/useAppForm';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { z } from 'zod';
+
+const Schema = z
+  .object({
+    newPassword: z.string().min(8, { message: 'Password must be at least 8 characters.' }),
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.newPassword === values.confirmPassword, {
+    message: 'Passwords do not match.',
+    path: ['confirmPassword'],
+  });
+
+export default function ResetPassword() {
+  const [params] = useSearchParams();
+  const navigate = useNavigate();
+  const token = params.get('token');
+
+  const form = useAppForm({
+    schema: Schema,
+    defaultValues: { newPassword: '', confirmPassword: '' },
+    successMessage: 'Password changed. Log in with your new password.',
+    onSubmit: async (values) => {
+      if (!token) throw new Error('This link is incomplete; request a new one.');
+      await resetPassword(token, values.newPassword);
+      navigate('/login', { replace: true });
+    },
+  });
+
+  return (
+    <AuthCardLayout
+      title="Choose a new password"
+      subtitle="You will be signed out on all your devices"
+      icon={
+        <span role="img" aria-label="Key">
+          🔑
+        </span>
+      }
+      error={
+        token ? undefined : (
+          <div style={{ color: 'crimson' }}>This link is incomplete; request a new one.</div>
+        )
+      }
+      footer={
+        <span>
+          Remembered it? <Link to="/login">Log in</Link>
+        </span>
+      }
+    >
+      <form onSubmit={form.handleSubmitForm}>
+        <TextField
+          label="New password"
+          name="newPassword"
+          type="password"
+          required
+          control={form.control}
+          showPasswordToggle
+        />
+        <TextField
+          label="Confirm password"
+          name="confirmPassword"
+          type="password"
+          required
+          control={form.control}
+          showPasswordToggle
+        />
+        <FormActions submitLabel="Change password" isSubmitting={form.formState.isSubmitting} />
+      </form>
+    </AuthCardLayout>
+  );
+}
@@ -0,0 +1,47 @@
+import { verifyEmail } from '@client/api/clients/auth.api';
+import { AuthCardLayout } from '@client/components/layout/AuthCardLayout';
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+
+type Status = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmail() {
+  const [params] = useSearchParams();
+  const token = params.get('token');
+  const [status, setStatus] = useState<Status>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState<string | null>(token ? null : 'This link is incomplete.');
+  // Tokens work once; don't spend it twice when effects run twice in development
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (!token || started.current) return;
+    started.current = true;
+    verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((e: any) => {
+        setStatus('failed');
+        setError(e?.response?.data?.error?.message || e?.message || 'Verification failed');
+      });
+  }, [token]);
+
+  return (
+    <AuthCardLayout
+      title="Confirm your email"
+      icon={
+        <span role="img" aria-label="Envelope">
+          ✉️
+        </span>
+      }
+      error={error ? <div style={{ color: 'crimson' }}>{error}</div> : undefined}
+      footer={
+        <span>
+          Go to <Link to="/account">your account</Link> to request a new link.
+        </span>
+      }
+    >
+      {status === 'verifying' && <p>Confirming your email address…</p>}
+      {status === 'verified' && <p>Thanks, your email address is confirmed.</p>}
+      {status === 'failed' && <p>We couldn&apos;t confirm your email address with this link.</p>}
+    </AuthCardLayout>
+  );
+}
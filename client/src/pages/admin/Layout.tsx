@@ -1,9 +1,11 @@
 import IndexBanner from '@client/components/ui/IndexBanner';
+import { useAuth } from '@client/features/auth/AuthProvider';
 import { NavLink, Outlet } from 'react-router-dom';
 import { AdminBannerProvider, useAdminBanner } from './AdminBannerContext';
 import * as s from './layout.css';
 
 export default function AdminLayout() {
+  const { can } = useAuth();
   const cls = ({ isActive }: { isActive: boolean }) => `${s.link} ${isActive ? s.active : ''}`;
   return (
     <AdminBannerProvider>
@@ -13,21 +15,46 @@ export default function AdminLayout() {
             <NavLink to="/admin" end className={cls}>
               Overview
             </NavLink>
-            <NavLink to="/admin/users" className={cls}>
-              Users
-            </NavLink>
-            <NavLink to="/admin/products" className={cls}>
-              Products
-            </NavLink>
-            <NavLink to="/admin/products/new" className={cls}>
-              Create Product
-            </NavLink>
-            <NavLink to="/admin/orders" className={cls}>
-              Orders
-            </NavLink>
-            <NavLink to="/admin/audit-logs" className={cls}>
-              Audit Logs
-            </NavLink>
+            {can('users:manage') && (
+              <NavLink to="/admin/users" className={cls}>
+                Users
+              </NavLink>
+            )}
+            {(can('users:manage') || can('roles:manage')) && (
+              <NavLink to="/admin/roles" className={cls}>
+                Roles
+              </NavLink>
+            )}
+            {can('products:write') && (
+              <NavLink to="/admin/products" className={cls}>
+                Products
+              </NavLink>
+            )}
+            {can('products:write') && (
+              <NavLink to="/admin/products/new" className={cls}>
+                Create Product
+              </NavLink>
+            )}
+            {can('orders:read') && (
+              <NavLink to="/admin/orders" className={cls}>
+                Orders
+              </NavLink>
+            )}
+            {can('promotions:manage') && (
+              <NavLink to="/admin/promotions" className={cls}>
+                Promotions
+              </NavLink>
+            )}
+            {can('reviews:moderate') && (
+              <NavLink to="/admin/reviews" className={cls}>
+                Reviews
+              </NavLink>
+            )}
+            {can('audit:read') && (
+              <NavLink to="/admin/audit-logs" className={cls}>
+                Audit Logs
+              </NavLink>
+            )}
           </nav>
         </aside>
         <section className={s.main}>
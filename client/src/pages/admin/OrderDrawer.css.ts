@@ -0,0 +1,82 @@
+import { vars } from '@client/app/theme.css';
+import { style } from '@vanilla-extract/css';
+
+export const overlay = style({
+  position: 'fixed',
+  inset: 0,
+  zIndex: 1000,
+  display: 'flex',
+  justifyContent: 'flex-end',
+});
+
+export const backdrop = style({
+  position: 'absolute',
+  inset: 0,
+  border: 'none',
+  padding: 0,
+  backgroundColor: 'rgba(0, 0, 0, 0.35)',
+  cursor: 'default',
+});
+
+export const panel = style({
+  position: 'relative',
+  width: 'min(480px, 100vw)',
+  height: '100%',
+  overflowY: 'auto',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: vars.space.md,
+  padding: vars.space.lg,
+  backgroundColor: vars.color.background,
+  boxShadow: vars.shadow.lg,
+});
+
+export const header = style({
+  display: 'flex',
+  alignItems: 'flex-start',
+  justifyContent: 'space-between',
+  gap: vars.space.sm,
+});
+
+export const title = style({
+  margin: 0,
+  fontSize: 20,
+  fontWeight: 700,
+  color: vars.color.text,
+});
+
+export const meta = style({
+  margin: 0,
+  fontSize: 14,
+  color: vars.color.textMuted,
+});
+
+export const closeButton = style({
+  background: 'none',
+  border: 'none',
+  padding: vars.space.xs,
+  fontSize: 18,
+  lineHeight: 1,
+  color: vars.color.textMuted,
+  cursor: 'pointer',
+});
+
+export const summary = style({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: vars.space.xs,
+  fontSize: 14,
+  color: vars.color.text,
+});
+
+export const items = style({
+  margin: 0,
+  paddingLeft: vars.space.md,
+  color: vars.color.textMuted,
+});
+
+export const link = style({
+  color: vars.color.accentMuted,
+  fontWeight: 500,
+  textDecoration: 'none',
+});
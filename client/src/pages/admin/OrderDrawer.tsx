@@ -0,0 +1,102 @@
+/**
+ * Side drawer of the admin orders page: one order at a glance (customer,
+ * items, shipping address) with its history and the internal comments staff
+ * leave for each other, @mentioning colleagues to notify them.
+ *
+ * @fileoverview Admin order drawer with timeline and comments
+ * @module pages/admin/OrderDrawer
+ */
+
+import { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Link } from 'react-router-dom';
+import { useFocusTrap } from '../../lib/hooks/useFocusTrap';
+import { ORDER_STATUS_INFO, type Order } from '../../types/orders';
+import OrderTimeline from '../OrderTimeline';
+import * as styles from './OrderDrawer.css';
+
+interface Props {
+  /** The order to show; the drawer is closed without one */
+  order: Order | null;
+  onClose: () => void;
+}
+
+export default function OrderDrawer({ order, onClose }: Props) {
+  const trapRef = useFocusTrap<HTMLDivElement>(!!order);
+  const open = !!order;
+
+  useEffect(() => {
+    if (!open) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [open, onClose]);
+
+  if (!order) return null;
+
+  const statusInfo = ORDER_STATUS_INFO[order.status];
+  const address = order.shippingAddress;
+
+  return createPortal(
+    <div className={styles.overlay}>
+      <button
+        type="button"
+        tabIndex={-1}
+        aria-label="Close order details"
+        onClick={onClose}
+        className={styles.backdrop}
+      />
+      <div
+        ref={trapRef}
+        className={styles.panel}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="order-drawer-title"
+      >
+        <div className={styles.header}>
+          <div>
+            <h2 id="order-drawer-title" className={styles.title}>
+              Order #{order.id.slice(-8)}
+            </h2>
+            <p className={styles.meta}>{order.userEmail}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close order details"
+            className={styles.closeButton}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className={styles.summary}>
+          <div>
+            <strong style={{ color: statusInfo.color }}>{statusInfo.label}</strong> · payment{' '}
+            {order.paymentStatus.replace('_', ' ')} · ${order.totalAmount.toFixed(2)}
+          </div>
+          <ul className={styles.items}>
+            {order.items.map((item) => (
+              <li key={item.variantId ? `${item.productId}:${item.variantId}` : item.productId}>
+                {item.quantity} × {item.productName}
+                {item.variantName ? ` (${item.variantName})` : ''}
+              </li>
+            ))}
+          </ul>
+          <div className={styles.meta}>
+            Ship to {address.fullName}, {address.street}, {address.city} {address.postalCode},{' '}
+            {address.country}
+          </div>
+          <Link to={`/orders/${order.id}`} className={styles.link}>
+            Open full order →
+          </Link>
+        </div>
+
+        <OrderTimeline order={order} />
+      </div>
+    </div>,
+    document.body
+  );
+}
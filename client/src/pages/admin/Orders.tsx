@@ -8,18 +8,32 @@
  * - Update order status
  * - View order details
  * - Pagination
+ * - Review customer return requests
+ * - Download invoices, packing slips and receipts
+ * - Order drawer with the order's history and internal staff comments
  *
  * @fileoverview Admin orders management page
  * @module pages/admin/Orders
  */
 
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { ordersApi } from '../../api/clients/orders.api';
 import ErrorAlert from '../../components/ui/ErrorAlert';
 import { showToast } from '../../lib/toast';
-import { ORDER_STATUS_INFO, type Order, type OrderStats, OrderStatus } from '../../types/orders';
+import {
+  availableOrderDocuments,
+  ORDER_DOCUMENT_LABELS,
+  ORDER_STATUS_INFO,
+  type Order,
+  type OrderDocumentKind,
+  type OrderStats,
+  OrderStatus,
+  PaymentStatus,
+} from '../../types/orders';
 import { useAdminBanner } from './AdminBannerContext';
+import OrderDrawer from './OrderDrawer';
+import ReturnRequests from './ReturnRequests';
 
 export default function AdminOrders() {
   const { setBanner, clearBanner, indexUrl } = useAdminBanner();
@@ -32,6 +46,8 @@ export default function AdminOrders() {
   const [searchQuery, setSearchQuery] = useState('');
   const [hasMore, setHasMore] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
+  const [drawerOrderId, setDrawerOrderId] = useState<string | null>(null);
+  const closeDrawer = useCallback(() => setDrawerOrderId(null), []);
 
   useEffect(() => {
     loadOrders();
@@ -102,6 +118,29 @@ export default function AdminOrders() {
     }
   };
 
+  const handlePaymentAction = async (
+    orderId: string,
+    action: 'capturePayment' | 'refundPayment' | 'voidPayment'
+  ) => {
+    try {
+      await ordersApi[action](orderId);
+      showToast('Payment updated', { type: 'success' });
+      await loadOrders();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update payment', {
+        type: 'error',
+      });
+    }
+  };
+
+  const handleDownload = async (orderId: string, kind: OrderDocumentKind) => {
+    try {
+      await ordersApi.downloadDocument(orderId, kind);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Download failed', { type: 'error' });
+    }
+  };
+
   // Filter orders by search query
   const filteredOrders = useMemo(() => {
     if (!searchQuery.trim()) return orders;
@@ -159,6 +198,8 @@ export default function AdminOrders() {
         </div>
       )}
 
+      <ReturnRequests onResolved={loadOrders} />
+
       {/* Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -231,6 +272,9 @@ export default function AdminOrders() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Status
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Payment
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Date
                   </th>
@@ -277,16 +321,73 @@ export default function AdminOrders() {
                           <option value={OrderStatus.REFUNDED}>Refunded</option>
                         </select>
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        <div>{order.paymentStatus.replace('_', ' ')}</div>
+                        <div className="space-x-2">
+                          {order.paymentStatus === PaymentStatus.AUTHORIZED && (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => handlePaymentAction(order.id, 'capturePayment')}
+                                className="text-blue-600 hover:text-blue-800 text-xs font-medium"
+                              >
+                                Capture
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handlePaymentAction(order.id, 'voidPayment')}
+                                className="text-red-600 hover:text-red-800 text-xs font-medium"
+                              >
+                                Void
+                              </button>
+                            </>
+                          )}
+                          {(order.paymentStatus === PaymentStatus.PAID ||
+                            order.paymentStatus === PaymentStatus.PARTIALLY_REFUNDED) && (
+                            <button
+                              type="button"
+                              onClick={() => {
+                                if (!confirm('Refund the remaining captured amount?')) return;
+                                handlePaymentAction(order.id, 'refundPayment');
+                              }}
+                              className="text-red-600 hover:text-red-800 text-xs font-medium"
+                            >
+                              Refund
+                            </button>
+                          )}
+                        </div>
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                         {new Date(order.createdAt).toLocaleDateString()}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm">
-                        <Link
-                          to={`/orders/${order.id}`}
-                          className="text-blue-600 hover:text-blue-800 font-medium"
-                        >
-                          View Details
-                        </Link>
+                        <div className="space-x-2">
+                          <button
+                            type="button"
+                            onClick={() => setDrawerOrderId(order.id)}
+                            className="text-blue-600 hover:text-blue-800 font-medium"
+                          >
+                            History
+                          </button>
+                          <Link
+                            to={`/orders/${order.id}`}
+                            className="text-blue-600 hover:text-blue-800 font-medium"
+                          >
+                            View Details
+                          </Link>
+                        </div>
+                        <div className="space-x-2">
+                          {availableOrderDocuments(order).map((kind) => (
+                            <button
+                              key={kind}
+                              type="button"
+                              onClick={() => handleDownload(order.id, kind)}
+                              className="text-blue-600 hover:text-blue-800 text-xs font-medium"
+                            >
+                              {ORDER_DOCUMENT_LABELS[kind]}
+                            </button>
+                          ))}
+                        </div>
                       </td>
                     </tr>
                   );
@@ -309,6 +410,11 @@ export default function AdminOrders() {
           </button>
         </div>
       )}
+
+      <OrderDrawer
+        order={orders.find((o) => o.id === drawerOrderId) ?? null}
+        onClose={closeDrawer}
+      />
     </div>
   );
 }
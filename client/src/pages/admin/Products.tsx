@@ -1,4 +1,5 @@
-import { deleteProduct, listProductsPaged } from '@client/api/clients/products.api';
+import { getStockMovements } from '@client/api/clients/inventory.api';
+import { deleteProduct, exportProducts, listProductsPaged } from '@client/api/clients/products.api';
 import {
   btnOutline,
   btnPrimary,
@@ -7,53 +8,112 @@ import {
   photoFrame,
   sepiaPhoto,
 } from '@client/app/ui.css';
+import ProductImportWizard from '@client/components/admin/ProductImportWizard';
 import { PLACEHOLDER_SRC, resolveImageUrl } from '@client/lib/images';
-import { useEffect, useState } from 'react';
+import { showToast } from '@client/lib/toast';
+import type { StockMovement } from '@client/types/inventory';
+import type { ProductSearchSort } from '@client/types/product';
+import type { ProductTransferFormat } from '@client/types/productImport';
+import { useCallback, useEffect, useState } from 'react';
 
 export default function AdminProducts() {
   const [products, setProducts] = useState<any[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [q, setQ] = useState('');
-  const [sort, setSort] = useState<
-    'createdAt-desc' | 'price-asc' | 'price-desc' | 'name-asc' | 'name-desc'
-  >('createdAt-desc');
+  const [sort, setSort] = useState<ProductSearchSort>('newest');
   const [page, setPage] = useState(1);
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [cursors, setCursors] = useState<{ next: string | null; prev: string | null }>({
+    next: null,
+    prev: null,
+  });
   const [pageSize, setPageSize] = useState(12);
   const [total, setTotal] = useState(0);
-  async function refresh() {
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const refresh = useCallback(async () => {
     try {
       setError(null);
-      const [field, dir] = sort.split('-') as [string, 'asc' | 'desc'];
       const res = await listProductsPaged({
-        sort: { field, dir },
-        filter: q ? { q } : undefined,
-        page,
-        pageSize,
+        q: q || undefined,
+        sort,
+        limit: pageSize,
+        cursor,
       });
       setProducts(res.data);
       setTotal(res.meta.total);
+      setCursors({ next: res.meta.nextCursor, prev: res.meta.prevCursor });
     } catch (e: any) {
       setError(e?.response?.data?.error?.message || 'Error');
     }
+  }, [q, sort, cursor, pageSize]);
+  async function toggleHistory(productId: string) {
+    if (historyFor === productId) {
+      setHistoryFor(null);
+      return;
+    }
+    try {
+      setError(null);
+      setMovements(await getStockMovements(productId, 20));
+      setHistoryFor(productId);
+    } catch (e: any) {
+      setError(e?.response?.data?.error?.message || 'Failed to load stock history');
+    }
+  }
+  async function handleExport(format: ProductTransferFormat) {
+    try {
+      setExporting(true);
+      await exportProducts(format);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Export failed', { type: 'error' });
+    } finally {
+      setExporting(false);
+    }
   }
   useEffect(() => {
     refresh();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [q, sort, page, pageSize]);
+  }, [refresh]);
   return (
     <div className={card}>
       <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
         <h2 style={{ margin: 0 }}>Products</h2>
-        <button className={btnOutline} onClick={refresh}>
-          Refresh
-        </button>
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button type="button" className={btnOutline} onClick={() => setImporting(true)}>
+            Import
+          </button>
+          <button
+            type="button"
+            className={btnOutline}
+            disabled={exporting}
+            onClick={() => handleExport('csv')}
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            className={btnOutline}
+            disabled={exporting}
+            onClick={() => handleExport('json')}
+          >
+            Export JSON
+          </button>
+          <button className={btnOutline} onClick={refresh}>
+            Refresh
+          </button>
+        </div>
       </div>
       {error && <p style={{ color: 'crimson' }}>{error}</p>}
+      {importing && (
+        <ProductImportWizard onClose={() => setImporting(false)} onImported={refresh} />
+      )}
       <div style={{ display: 'flex', gap: 12, marginBottom: 16 }}>
         <input
           value={q}
           onChange={(e) => {
             setPage(1);
+            setCursor(undefined);
             setQ(e.target.value);
           }}
           placeholder="Search..."
@@ -62,11 +122,15 @@ export default function AdminProducts() {
         />
         <select
           value={sort}
-          onChange={(e) => setSort(e.target.value as any)}
+          onChange={(e) => {
+            setPage(1);
+            setCursor(undefined);
+            setSort(e.target.value as ProductSearchSort);
+          }}
           className={inputField}
           style={{ width: 'auto' }}
         >
-          <option value="createdAt-desc">Newest</option>
+          <option value="newest">Newest</option>
           <option value="price-asc">Price ↑</option>
           <option value="price-desc">Price ↓</option>
           <option value="name-asc">Name A-Z</option>
@@ -76,6 +140,7 @@ export default function AdminProducts() {
           value={pageSize}
           onChange={(e) => {
             setPage(1);
+            setCursor(undefined);
             setPageSize(Number(e.target.value));
           }}
           className={inputField}
@@ -108,11 +173,16 @@ export default function AdminProducts() {
               />
             )}
             <h3 style={{ marginTop: 8 }}>{p.name}</h3>
-            <p style={{ margin: '4px 0 12px' }}>${p.price}</p>
+            <p style={{ margin: '4px 0 12px' }}>
+              ${p.price} · {p.stock ?? 0} in stock
+            </p>
             <div style={{ display: 'flex', gap: 8 }}>
               <a className={btnOutline} href={`/products/${p.id}/edit`}>
                 Edit
               </a>
+              <button type="button" className={btnOutline} onClick={() => toggleHistory(p.id)}>
+                {historyFor === p.id ? 'Hide history' : 'History'}
+              </button>
               <button
                 className={btnPrimary}
                 onClick={async () => {
@@ -124,6 +194,20 @@ export default function AdminProducts() {
                 Delete
               </button>
             </div>
+            {historyFor === p.id && (
+              <ul style={{ margin: '12px 0 0', paddingLeft: 18, fontSize: 13 }}>
+                {movements.length === 0 && <li>No stock movements recorded.</li>}
+                {movements.map((m) => (
+                  <li key={m.id}>
+                    {new Date(m.createdAt).toLocaleString()} · {m.type}{' '}
+                    {m.quantity > 0 ? `+${m.quantity}` : m.quantity} → {m.balanceAfter}
+                    {m.orderId && ` · order ${m.orderId}`}
+                    {m.actorEmail && ` · ${m.actorEmail}`}
+                    {m.reason && ` · ${m.reason}`}
+                  </li>
+                ))}
+              </ul>
+            )}
           </article>
         ))}
       </div>
@@ -131,8 +215,11 @@ export default function AdminProducts() {
       <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginTop: 16 }}>
         <button
           className={btnOutline}
-          disabled={page <= 1}
-          onClick={() => setPage((p) => Math.max(1, p - 1))}
+          disabled={!cursors.prev}
+          onClick={() => {
+            setPage((p) => Math.max(1, p - 1));
+            setCursor(cursors.prev ?? undefined);
+          }}
         >
           Prev
         </button>
@@ -141,8 +228,11 @@ export default function AdminProducts() {
         </span>
         <button
           className={btnOutline}
-          disabled={page >= Math.ceil(total / pageSize)}
-          onClick={() => setPage((p) => p + 1)}
+          disabled={!cursors.next}
+          onClick={() => {
+            setPage((p) => p + 1);
+            setCursor(cursors.next ?? undefined);
+          }}
         >
           Next
         </button>
@@ -0,0 +1,434 @@
+import {
+  createPromotion,
+  deletePromotion,
+  listPromotions,
+  updatePromotion,
+} from '@client/api/clients/promotions.api';
+import { actions, btnOutline, btnPrimary, card, field, input, label } from '@client/app/ui.css';
+import { type Promotion, type PromotionInput, PromotionType } from '@client/types/promotions';
+import { type FormEvent, useCallback, useEffect, useState } from 'react';
+
+const TYPE_LABELS: Record<PromotionType, string> = {
+  [PromotionType.PERCENT_OFF]: 'Percent off',
+  [PromotionType.FIXED_AMOUNT]: 'Fixed amount off',
+  [PromotionType.FREE_SHIPPING]: 'Free shipping',
+  [PromotionType.BUY_X_GET_Y]: 'Buy X get Y',
+};
+
+// Form state keeps every field as a string so inputs can be cleared.
+type FormState = {
+  code: string;
+  description: string;
+  type: PromotionType;
+  value: string;
+  buyQuantity: string;
+  getQuantity: string;
+  productIds: string;
+  minSubtotal: string;
+  startsAt: string;
+  endsAt: string;
+  maxRedemptions: string;
+  maxRedemptionsPerUser: string;
+  active: boolean;
+};
+
+const EMPTY_FORM: FormState = {
+  code: '',
+  description: '',
+  type: PromotionType.PERCENT_OFF,
+  value: '',
+  buyQuantity: '',
+  getQuantity: '',
+  productIds: '',
+  minSubtotal: '',
+  startsAt: '',
+  endsAt: '',
+  maxRedemptions: '',
+  maxRedemptionsPerUser: '',
+  active: true,
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+function toLocalInput(ms?: number): string {
+  if (ms === undefined) return '';
+  const d = new Date(ms);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+function toForm(p: Promotion): FormState {
+  const str = (n?: number) => (n === undefined ? '' : String(n));
+  return {
+    code: p.code,
+    description: p.description ?? '',
+    type: p.type,
+    value: str(p.value),
+    buyQuantity: str(p.buyQuantity),
+    getQuantity: str(p.getQuantity),
+    productIds: (p.productIds ?? []).join(', '),
+    minSubtotal: str(p.minSubtotal),
+    startsAt: toLocalInput(p.startsAt),
+    endsAt: toLocalInput(p.endsAt),
+    maxRedemptions: str(p.maxRedemptions),
+    maxRedemptionsPerUser: str(p.maxRedemptionsPerUser),
+    active: p.active,
+  };
+}
+
+function toInput(f: FormState): PromotionInput {
+  const num = (v: string) => (v.trim() === '' ? undefined : Number(v));
+  const time = (v: string) => (v ? new Date(v).getTime() : undefined);
+  const productIds = f.productIds
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  const isBxgy = f.type === PromotionType.BUY_X_GET_Y;
+  const result: PromotionInput = {
+    code: f.code.trim(),
+    type: f.type,
+    active: f.active,
+    description: f.description.trim() || undefined,
+    value: f.type === PromotionType.FREE_SHIPPING ? undefined : num(f.value),
+    buyQuantity: isBxgy ? num(f.buyQuantity) : undefined,
+    getQuantity: isBxgy ? num(f.getQuantity) : undefined,
+    productIds: productIds.length ? productIds : undefined,
+    minSubtotal: num(f.minSubtotal),
+    startsAt: time(f.startsAt),
+    endsAt: time(f.endsAt),
+    maxRedemptions: num(f.maxRedemptions),
+    maxRedemptionsPerUser: num(f.maxRedemptionsPerUser),
+  };
+  // Drop unset keys so the server treats them as absent
+  return Object.fromEntries(
+    Object.entries(result).filter(([, v]) => v !== undefined)
+  ) as PromotionInput;
+}
+
+function describe(p: Promotion): string {
+  switch (p.type) {
+    case PromotionType.PERCENT_OFF:
+      return `${p.value}% off`;
+    case PromotionType.FIXED_AMOUNT:
+      return `$${(p.value ?? 0).toFixed(2)} off`;
+    case PromotionType.FREE_SHIPPING:
+      return 'Free shipping';
+    case PromotionType.BUY_X_GET_Y:
+      return `Buy ${p.buyQuantity} get ${p.getQuantity} ${(p.value ?? 100) >= 100 ? 'free' : `${p.value}% off`}`;
+  }
+}
+
+export default function AdminPromotions() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setError(null);
+      setPromotions(await listPromotions());
+    } catch (e: any) {
+      setError(e?.response?.data?.error?.message || 'Error');
+    }
+  }, []);
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  function set<K extends keyof FormState>(key: K, value: FormState[K]) {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  }
+
+  function reset() {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  }
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      setError(null);
+      if (editingId) {
+        await updatePromotion(editingId, toInput(form));
+      } else {
+        await createPromotion(toInput(form));
+      }
+      reset();
+      await refresh();
+    } catch (err: any) {
+      setError(err?.response?.data?.error?.message || 'Failed to save promotion');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const th = { textAlign: 'left', borderBottom: '1px solid #ddd', padding: 8 } as const;
+  const showValue = form.type !== PromotionType.FREE_SHIPPING;
+  const isBxgy = form.type === PromotionType.BUY_X_GET_Y;
+
+  return (
+    <div style={{ display: 'grid', gap: 16 }}>
+      <div className={card}>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <h2 style={{ margin: 0 }}>Promotions</h2>
+          <button type="button" className={btnOutline} onClick={refresh}>
+            Refresh
+          </button>
+        </div>
+        {error && <p style={{ color: 'crimson' }}>{error}</p>}
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={th}>Code</th>
+              <th style={th}>Discount</th>
+              <th style={th}>Used</th>
+              <th style={th}>Window</th>
+              <th style={th}>Status</th>
+              <th style={{ ...th, textAlign: 'right' }}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {promotions.map((p) => (
+              <tr key={p.id}>
+                <td style={{ padding: 8, fontFamily: 'monospace' }}>{p.code}</td>
+                <td style={{ padding: 8 }}>{p.description || describe(p)}</td>
+                <td style={{ padding: 8 }}>
+                  {p.redemptionCount}
+                  {p.maxRedemptions ? ` / ${p.maxRedemptions}` : ''}
+                </td>
+                <td style={{ padding: 8 }}>
+                  {p.startsAt ? new Date(p.startsAt).toLocaleDateString() : '—'} –{' '}
+                  {p.endsAt ? new Date(p.endsAt).toLocaleDateString() : '—'}
+                </td>
+                <td style={{ padding: 8 }}>{p.active ? 'Active' : 'Inactive'}</td>
+                <td style={{ padding: 8, textAlign: 'right' }}>
+                  <button
+                    type="button"
+                    className={btnOutline}
+                    onClick={() => {
+                      setEditingId(p.id);
+                      setForm(toForm(p));
+                    }}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    className={btnOutline}
+                    style={{ marginLeft: 8 }}
+                    onClick={async () => {
+                      if (!confirm(`Delete promotion ${p.code}?`)) return;
+                      await deletePromotion(p.id);
+                      if (editingId === p.id) reset();
+                      await refresh();
+                    }}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {promotions.length === 0 && !error && <p>No promotions yet.</p>}
+      </div>
+
+      <div className={card}>
+        <h2 style={{ marginTop: 0 }}>{editingId ? `Edit ${form.code}` : 'New Promotion'}</h2>
+        <form onSubmit={onSubmit}>
+          <div className={field}>
+            <label className={label} htmlFor="promo-code">
+              Code
+            </label>
+            <input
+              id="promo-code"
+              className={input}
+              value={form.code}
+              onChange={(e) => set('code', e.target.value.toUpperCase())}
+              required
+            />
+          </div>
+          <div className={field}>
+            <label className={label} htmlFor="promo-description">
+              Description (shown to customers)
+            </label>
+            <input
+              id="promo-description"
+              className={input}
+              value={form.description}
+              onChange={(e) => set('description', e.target.value)}
+            />
+          </div>
+          <div className={field}>
+            <label className={label} htmlFor="promo-type">
+              Type
+            </label>
+            <select
+              id="promo-type"
+              className={input}
+              value={form.type}
+              onChange={(e) => set('type', e.target.value as PromotionType)}
+            >
+              {Object.values(PromotionType).map((t) => (
+                <option key={t} value={t}>
+                  {TYPE_LABELS[t]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {showValue && (
+            <div className={field}>
+              <label className={label} htmlFor="promo-value">
+                {form.type === PromotionType.FIXED_AMOUNT
+                  ? 'Amount off'
+                  : isBxgy
+                    ? 'Percent off the "get" items (blank = free)'
+                    : 'Percent off'}
+              </label>
+              <input
+                id="promo-value"
+                className={input}
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.value}
+                onChange={(e) => set('value', e.target.value)}
+              />
+            </div>
+          )}
+          {isBxgy && (
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+              <div className={field}>
+                <label className={label} htmlFor="promo-buy">
+                  Buy quantity
+                </label>
+                <input
+                  id="promo-buy"
+                  className={input}
+                  type="number"
+                  min="1"
+                  value={form.buyQuantity}
+                  onChange={(e) => set('buyQuantity', e.target.value)}
+                />
+              </div>
+              <div className={field}>
+                <label className={label} htmlFor="promo-get">
+                  Get quantity
+                </label>
+                <input
+                  id="promo-get"
+                  className={input}
+                  type="number"
+                  min="1"
+                  value={form.getQuantity}
+                  onChange={(e) => set('getQuantity', e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          <div className={field}>
+            <label className={label} htmlFor="promo-products">
+              Limit to product IDs (comma separated, blank = all)
+            </label>
+            <input
+              id="promo-products"
+              className={input}
+              value={form.productIds}
+              onChange={(e) => set('productIds', e.target.value)}
+            />
+          </div>
+          <div className={field}>
+            <label className={label} htmlFor="promo-min">
+              Minimum subtotal
+            </label>
+            <input
+              id="promo-min"
+              className={input}
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.minSubtotal}
+              onChange={(e) => set('minSubtotal', e.target.value)}
+            />
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+            <div className={field}>
+              <label className={label} htmlFor="promo-starts">
+                Starts
+              </label>
+              <input
+                id="promo-starts"
+                className={input}
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => set('startsAt', e.target.value)}
+              />
+            </div>
+            <div className={field}>
+              <label className={label} htmlFor="promo-ends">
+                Ends
+              </label>
+              <input
+                id="promo-ends"
+                className={input}
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={(e) => set('endsAt', e.target.value)}
+              />
+            </div>
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+            <div className={field}>
+              <label className={label} htmlFor="promo-max">
+                Max redemptions (total)
+              </label>
+              <input
+                id="promo-max"
+                className={input}
+                type="number"
+                min="1"
+                value={form.maxRedemptions}
+                onChange={(e) => set('maxRedemptions', e.target.value)}
+              />
+            </div>
+            <div className={field}>
+              <label className={label} htmlFor="promo-max-user">
+                Max redemptions per customer
+              </label>
+              <input
+                id="promo-max-user"
+                className={input}
+                type="number"
+                min="1"
+                value={form.maxRedemptionsPerUser}
+                onChange={(e) => set('maxRedemptionsPerUser', e.target.value)}
+              />
+            </div>
+          </div>
+          <div className={field}>
+            <label className={label} htmlFor="promo-active">
+              <input
+                id="promo-active"
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) => set('active', e.target.checked)}
+              />{' '}
+              Active
+            </label>
+          </div>
+          <div className={actions}>
+            <button className={btnPrimary} type="submit" disabled={saving}>
+              {saving ? 'Saving…' : editingId ? 'Save changes' : 'Create promotion'}
+            </button>
+            {editingId && (
+              <button className={btnOutline} type="button" onClick={reset}>
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
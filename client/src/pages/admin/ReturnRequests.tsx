@@ -0,0 +1,153 @@
+/**
+ * Pending return requests panel for the admin orders page. Approving sends
+ * the refund (through the payment gateway when the order was paid online) and
+ * can put the returned units back in stock.
+ *
+ * @fileoverview Admin return request review panel
+ * @module pages/admin/ReturnRequests
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { approveReturn, listReturns, rejectReturn } from '../../api/clients/returns.api';
+import { showToast } from '../../lib/toast';
+import { type ReturnRequest, ReturnStatus } from '../../types/returns';
+
+interface Props {
+  /** Called after a decision so the orders table can pick up payment changes */
+  onResolved?: () => void;
+}
+
+export default function ReturnRequests({ onResolved }: Props) {
+  const [requests, setRequests] = useState<ReturnRequest[]>([]);
+  const [refundAmounts, setRefundAmounts] = useState<Record<string, string>>({});
+  const [restock, setRestock] = useState<Record<string, boolean>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setRequests(await listReturns(ReturnStatus.REQUESTED));
+    } catch (err) {
+      console.error('Failed to load return requests:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleApprove = async (request: ReturnRequest) => {
+    const amount = refundAmounts[request.id];
+    try {
+      setBusyId(request.id);
+      const approved = await approveReturn(request.id, {
+        refundAmount: amount ? Number(amount) : undefined,
+        restock: restock[request.id] ?? true,
+      });
+      showToast(`Return approved, refunded $${(approved.refundAmount ?? 0).toFixed(2)}`, {
+        type: 'success',
+      });
+      await load();
+      onResolved?.();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to approve return', {
+        type: 'error',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async (request: ReturnRequest) => {
+    const note = prompt('Reason for rejecting (shown to the customer)');
+    if (note === null) return;
+    try {
+      setBusyId(request.id);
+      await rejectReturn(request.id, note);
+      showToast('Return rejected', { type: 'success' });
+      await load();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to reject return', {
+        type: 'error',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <h2 className="text-lg font-semibold text-gray-900 mb-3">
+        Return Requests ({requests.length})
+      </h2>
+      <div className="space-y-3">
+        {requests.map((request) => (
+          <div key={request.id} className="border-b border-gray-200 pb-3 text-sm text-gray-700">
+            <div>
+              <Link
+                to={`/orders/${request.orderId}`}
+                className="text-blue-600 hover:text-blue-800 font-medium"
+              >
+                #{request.orderId.slice(-8)}
+              </Link>{' '}
+              · {request.userEmail} · {new Date(request.createdAt).toLocaleDateString()}
+            </div>
+            <div>
+              {request.items
+                .map(
+                  (item) =>
+                    `${item.quantity} × ${item.productName}${item.variantName ? ` (${item.variantName})` : ''}`
+                )
+                .join(', ')}
+            </div>
+            <div className="text-gray-500">Reason: {request.reason}</div>
+            <div className="mt-2 flex flex-wrap items-center gap-3">
+              <label htmlFor={`refund-${request.id}`}>Refund $</label>
+              <input
+                id={`refund-${request.id}`}
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder={request.itemsValue.toFixed(2)}
+                value={refundAmounts[request.id] ?? ''}
+                onChange={(e) =>
+                  setRefundAmounts((prev) => ({ ...prev, [request.id]: e.target.value }))
+                }
+                className="w-28 px-2 py-1 border border-gray-300 rounded"
+              />
+              <label htmlFor={`restock-${request.id}`} className="flex items-center gap-1">
+                <input
+                  id={`restock-${request.id}`}
+                  type="checkbox"
+                  checked={restock[request.id] ?? true}
+                  onChange={(e) =>
+                    setRestock((prev) => ({ ...prev, [request.id]: e.target.checked }))
+                  }
+                />
+                Restock items
+              </label>
+              <button
+                type="button"
+                disabled={busyId === request.id}
+                onClick={() => handleApprove(request)}
+                className="text-green-600 hover:text-green-800 font-medium"
+              >
+                Approve
+              </button>
+              <button
+                type="button"
+                disabled={busyId === request.id}
+                onClick={() => handleReject(request)}
+                className="text-red-600 hover:text-red-800 font-medium"
+              >
+                Reject
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * Review moderation queue. New and edited reviews wait here as pending; an
+ * admin approves them onto the product page, hides them, or flags them for a
+ * closer look. Only approved reviews count towards a product's rating.
+ *
+ * @fileoverview Admin product review moderation page
+ * @module pages/admin/Reviews
+ */
+
+import { listReviewsForModeration, moderateReview } from '@client/api/clients/reviews.api';
+import { btnOutline, card } from '@client/app/ui.css';
+import { showToast } from '@client/lib/toast';
+import {
+  type ModeratedReview,
+  type ReviewModerationAction,
+  ReviewStatus,
+} from '@client/types/reviews';
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  [ReviewStatus.PENDING]: 'Pending',
+  [ReviewStatus.FLAGGED]: 'Flagged',
+  [ReviewStatus.APPROVED]: 'Approved',
+  [ReviewStatus.HIDDEN]: 'Hidden',
+};
+
+const ACTIONS: Array<{ action: ReviewModerationAction; label: string; status: ReviewStatus }> = [
+  { action: 'approve', label: 'Approve', status: ReviewStatus.APPROVED },
+  { action: 'hide', label: 'Hide', status: ReviewStatus.HIDDEN },
+  { action: 'flag', label: 'Flag', status: ReviewStatus.FLAGGED },
+];
+
+export default function AdminReviews() {
+  const [status, setStatus] = useState<ReviewStatus | ''>(ReviewStatus.PENDING);
+  const [reviews, setReviews] = useState<ModeratedReview[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setError(null);
+      setReviews(await listReviewsForModeration(status || undefined));
+    } catch (e: any) {
+      setError(e?.response?.data?.error?.message || 'Failed to load reviews');
+    }
+  }, [status]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleAction = async (review: ModeratedReview, action: ReviewModerationAction) => {
+    let note: string | undefined;
+    if (action !== 'approve') {
+      const answer = prompt(`Note for ${action === 'hide' ? 'hiding' : 'flagging'} (optional)`);
+      if (answer === null) return;
+      note = answer;
+    }
+    try {
+      setBusyId(review.id);
+      const updated = await moderateReview(review.id, action, note);
+      showToast(`Review ${STATUS_LABELS[updated.status].toLowerCase()}`, { type: 'success' });
+      await refresh();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : `Failed to ${action} review`, {
+        type: 'error',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const th = { textAlign: 'left', borderBottom: '1px solid #ddd', padding: 8 } as const;
+
+  return (
+    <div className={card}>
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: 12,
+          flexWrap: 'wrap',
+        }}
+      >
+        <h2 style={{ margin: 0 }}>Reviews</h2>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          <label htmlFor="review-status">Status</label>
+          <select
+            id="review-status"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as ReviewStatus | '')}
+          >
+            {Object.values(ReviewStatus).map((value) => (
+              <option key={value} value={value}>
+                {STATUS_LABELS[value]}
+              </option>
+            ))}
+            <option value="">All</option>
+          </select>
+          <button type="button" className={btnOutline} onClick={refresh}>
+            Refresh
+          </button>
+        </div>
+      </div>
+      {error && <p style={{ color: 'crimson' }}>{error}</p>}
+      {!error && reviews.length === 0 && <p style={{ color: '#6d5b45' }}>No reviews to show.</p>}
+      {reviews.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={th}>Product</th>
+              <th style={th}>Rating</th>
+              <th style={th}>Review</th>
+              <th style={th}>Customer</th>
+              <th style={th}>Status</th>
+              <th style={{ ...th, textAlign: 'right' }}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reviews.map((review) => (
+              <tr key={review.id} style={{ verticalAlign: 'top' }}>
+                <td style={{ padding: 8 }}>
+                  <Link to={`/products/${review.productId}`}>{review.productId.slice(-8)}</Link>
+                </td>
+                <td style={{ padding: 8, color: '#d49a6a', whiteSpace: 'nowrap' }}>
+                  {'★'.repeat(review.rating)}
+                  {'☆'.repeat(5 - review.rating)}
+                </td>
+                <td style={{ padding: 8, maxWidth: 420 }}>
+                  {review.title && <strong>{review.title}</strong>}
+                  <div style={{ whiteSpace: 'pre-line' }}>{review.body}</div>
+                  {review.moderationNote && (
+                    <div style={{ color: '#6d5b45', fontSize: '0.85rem' }}>
+                      Note: {review.moderationNote}
+                    </div>
+                  )}
+                </td>
+                <td style={{ padding: 8 }}>
+                  {review.userEmail}
+                  <div style={{ color: '#6d5b45', fontSize: '0.85rem' }}>
+                    {new Date(review.updatedAt).toLocaleDateString()} ·{' '}
+                    <Link to={`/orders/${review.orderId}`}>order #{review.orderId.slice(-8)}</Link>
+                  </div>
+                </td>
+                <td style={{ padding: 8 }}>{STATUS_LABELS[review.status]}</td>
+                <td style={{ padding: 8, textAlign: 'right', whiteSpace: 'nowrap' }}>
+                  {ACTIONS.filter((a) => a.status !== review.status).map(({ action, label }) => (
+                    <button
+                      key={action}
+                      type="button"
+                      className={btnOutline}
+                      style={{ marginLeft: 8 }}
+                      disabled={busyId === review.id}
+                      onClick={() => handleAction(review, action)}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import {
+  createRole,
+  deleteRole,
+  listPermissions,
+  listRoles,
+  updateRole,
+} from '@client/api/clients/admin.api';
+import { actions, btnOutline, btnPrimary, card, field, input, label } from '@client/app/ui.css';
+import { useAuth } from '@client/features/auth/AuthProvider';
+import type { Permission, PermissionInfo, Role, RoleInput } from '@client/types/roles';
+import { type FormEvent, useCallback, useEffect, useState } from 'react';
+
+const EMPTY_FORM: RoleInput = { name: '', description: '', permissions: [] };
+
+function toForm(role: Role): RoleInput {
+  return {
+    name: role.name,
+    description: role.description ?? '',
+    permissions: [...role.permissions],
+  };
+}
+
+/**
+ * Role editor: built-in roles are listed read-only, custom roles can be
+ * created, edited and deleted. Permissions the signed-in user does not hold
+ * cannot be granted (the server refuses them), so their boxes are disabled.
+ */
+export default function AdminRoles() {
+  const { can } = useAuth();
+  const canEdit = can('roles:manage');
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissions, setPermissions] = useState<PermissionInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<RoleInput>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setError(null);
+      const [r, p] = await Promise.all([listRoles(), listPermissions()]);
+      setRoles(r);
+      setPermissions(p);
+    } catch (e: any) {
+      setError(e?.response?.data?.error?.message || 'Error');
+    }
+  }, []);
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  function reset() {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  }
+
+  function toggle(permission: Permission, on: boolean) {
+    setForm((prev) => ({
+      ...prev,
+      permissions: on
+        ? [...prev.permissions, permission]
+        : prev.permissions.filter((p) => p !== permission),
+    }));
+  }
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      setError(null);
+      const payload = { ...form, name: form.name.trim() };
+      if (editingId) {
+        await updateRole(editingId, payload);
+      } else {
+        await createRole(payload);
+      }
+      reset();
+      await refresh();
+    } catch (err: any) {
+      setError(err?.response?.data?.error?.message || 'Failed to save role');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const th = { textAlign: 'left', borderBottom: '1px solid #ddd', padding: 8 } as const;
+
+  return (
+    <div style={{ display: 'grid', gap: 16 }}>
+      <div className={card}>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <h2 style={{ margin: 0 }}>Roles</h2>
+          <button type="button" className={btnOutline} onClick={refresh}>
+            Refresh
+          </button>
+        </div>
+        {error && <p style={{ color: 'crimson' }}>{error}</p>}
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={th}>Role</th>
+              <th style={th}>Permissions</th>
+              {canEdit && <th style={{ ...th, textAlign: 'right' }}>Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {roles.map((r) => (
+              <tr key={r.id}>
+                <td style={{ padding: 8, verticalAlign: 'top' }}>
+                  <strong>{r.name}</strong>
+                  {r.builtIn && <span style={{ color: '#6d5b45' }}> · built-in</span>}
+                  {r.description && (
+                    <div style={{ color: '#6d5b45', fontSize: '0.9em' }}>{r.description}</div>
+                  )}
+                </td>
+                <td style={{ padding: 8, fontFamily: 'monospace', fontSize: '0.9em' }}>
+                  {r.permissions.length ? r.permissions.join(', ') : '—'}
+                </td>
+                {canEdit && (
+                  <td style={{ padding: 8, textAlign: 'right', whiteSpace: 'nowrap' }}>
+                    {!r.builtIn && (
+                      <>
+                        <button
+                          type="button"
+                          className={btnOutline}
+                          onClick={() => {
+                            setEditingId(r.id);
+                            setForm(toForm(r));
+                          }}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          className={btnOutline}
+                          style={{ marginLeft: 8 }}
+                          onClick={async () => {
+                            if (!confirm(`Delete role ${r.name}?`)) return;
+                            try {
+                              setError(null);
+                              await deleteRole(r.id);
+                              if (editingId === r.id) reset();
+                              await refresh();
+                            } catch (err: any) {
+                              setError(
+                                err?.response?.data?.error?.message || 'Failed to delete role'
+                              );
+                            }
+                          }}
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {canEdit && (
+        <div className={card}>
+          <h2 style={{ marginTop: 0 }}>{editingId ? `Edit ${form.name}` : 'New Role'}</h2>
+          <form onSubmit={onSubmit}>
+            <div className={field}>
+              <label className={label} htmlFor="role-name">
+                Name
+              </label>
+              <input
+                id="role-name"
+                className={input}
+                value={form.name}
+                onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                required
+              />
+            </div>
+            <div className={field}>
+              <label className={label} htmlFor="role-description">
+                Description
+              </label>
+              <input
+                id="role-description"
+                className={input}
+                value={form.description}
+                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <fieldset className={field} style={{ border: 'none', padding: 0, margin: 0 }}>
+              <legend className={label}>Permissions</legend>
+              {permissions.map((p) => (
+                <label key={p.id} style={{ display: 'block', margin: '4px 0' }}>
+                  <input
+                    type="checkbox"
+                    checked={form.permissions.includes(p.id)}
+                    disabled={!can(p.id)}
+                    onChange={(e) => toggle(p.id, e.target.checked)}
+                  />{' '}
+                  <code>{p.id}</code> — {p.description}
+                </label>
+              ))}
+            </fieldset>
+            <div className={actions}>
+              <button className={btnPrimary} type="submit" disabled={saving}>
+                {saving ? 'Saving…' : editingId ? 'Save changes' : 'Create role'}
+              </button>
+              {editingId && (
+                <button className={btnOutline} type="button" onClick={reset}>
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
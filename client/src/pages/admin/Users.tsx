@@ -1,24 +1,68 @@
 import {
   type AdminUser,
   deleteUser,
-  demoteUser,
+  listRoles,
+  listUserSessions,
   listUsers,
-  promoteUser,
+  resetUserTwoFactor,
+  revokeUserSession,
+  setUserRole,
+  unlockUser,
 } from '@client/api/clients/admin.api';
-import { btnOutline, card } from '@client/app/ui.css';
-import { useEffect, useState } from 'react';
+import { btnOutline, card, input } from '@client/app/ui.css';
+import { SessionList } from '@client/features/auth/SessionList';
+import { showToast } from '@client/lib/toast';
+import type { Role } from '@client/types/roles';
+import type { Session } from '@client/types/session';
+import { useCallback, useEffect, useState } from 'react';
+
+function UserSessions({ user, onClose }: { user: AdminUser; onClose: () => void }) {
+  const load = useCallback(() => listUserSessions(user.id), [user.id]);
+  const revoke = useCallback(
+    (session: Session) => revokeUserSession(user.id, session.id),
+    [user.id]
+  );
+  return (
+    <section aria-labelledby="user-sessions-heading" style={{ marginTop: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <h3 id="user-sessions-heading" style={{ margin: 0 }}>
+          Sessions of {user.email}
+        </h3>
+        <button type="button" className={btnOutline} onClick={onClose}>
+          Close
+        </button>
+      </div>
+      <SessionList load={load} revoke={revoke} />
+    </section>
+  );
+}
 
 export default function AdminUsers() {
   const [users, setUsers] = useState<AdminUser[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [sessionsOf, setSessionsOf] = useState<AdminUser | null>(null);
   async function refresh() {
     try {
       setError(null);
-      setUsers(await listUsers());
+      const [u, r] = await Promise.all([listUsers(), listRoles()]);
+      setUsers(u);
+      setRoles(r);
     } catch (e: any) {
       setError(e?.response?.data?.error?.message || 'Error');
     }
   }
+  async function changeRole(user: AdminUser, role: string) {
+    try {
+      await setUserRole(user.id, role);
+      showToast(`${user.email} is now ${roles.find((r) => r.id === role)?.name ?? role}`, {
+        type: 'success',
+      });
+      await refresh();
+    } catch (e: any) {
+      showToast(e?.response?.data?.error?.message || 'Failed to change role', { type: 'error' });
+    }
+  }
   useEffect(() => {
     refresh();
   }, []);
@@ -45,47 +89,102 @@ export default function AdminUsers() {
           {users.map((u) => (
             <tr key={u.id}>
               <td style={{ padding: 8 }}>{u.email}</td>
-              <td style={{ padding: 8 }}>{u.role}</td>
+              <td style={{ padding: 8 }}>
+                <select
+                  className={input}
+                  aria-label={`Role of ${u.email}`}
+                  value={u.role}
+                  onChange={(e) => changeRole(u, e.target.value)}
+                  style={{ width: 'auto' }}
+                >
+                  {!roles.some((r) => r.id === u.role) && <option value={u.role}>{u.role}</option>}
+                  {roles.map((r) => (
+                    <option key={r.id} value={r.id}>
+                      {r.name}
+                    </option>
+                  ))}
+                </select>
+                {u.lockedUntil && (
+                  <span style={{ color: '#8a5a00' }}>
+                    {' '}
+                    · Locked until {new Date(u.lockedUntil).toLocaleTimeString()}
+                  </span>
+                )}
+              </td>
               <td style={{ padding: 8, textAlign: 'right' }}>
                 <button
                   className={btnOutline}
                   onClick={async () => {
                     if (!confirm(`Delete user ${u.email}?`)) return;
-                    await deleteUser(u.id);
-                    await refresh();
+                    try {
+                      await deleteUser(u.id);
+                      await refresh();
+                    } catch (e: any) {
+                      showToast(e?.response?.data?.error?.message || 'Failed to delete user', {
+                        type: 'error',
+                      });
+                    }
                   }}
                 >
                   Delete
                 </button>
-                {u.role === 'user' ? (
+                {u.lockedUntil && (
                   <button
+                    type="button"
                     className={btnOutline}
                     style={{ marginLeft: 8 }}
                     onClick={async () => {
-                      await promoteUser(u.id);
-                      await refresh();
+                      try {
+                        await unlockUser(u.id);
+                        showToast(`Unlocked ${u.email}`, { type: 'success' });
+                        await refresh();
+                      } catch (e: any) {
+                        showToast(e?.response?.data?.error?.message || 'Failed to unlock', {
+                          type: 'error',
+                        });
+                      }
                     }}
                   >
-                    Promote to admin
-                  </button>
-                ) : (
-                  <button
-                    className={btnOutline}
-                    style={{ marginLeft: 8 }}
-                    onClick={async () => {
-                      await demoteUser(u.id);
-                      await refresh();
-                    }}
-                  >
-                    Demote to user
+                    Unlock
                   </button>
                 )}
+                <button
+                  type="button"
+                  className={btnOutline}
+                  style={{ marginLeft: 8 }}
+                  onClick={() => setSessionsOf(u)}
+                >
+                  Sessions
+                </button>
+                <button
+                  type="button"
+                  className={btnOutline}
+                  style={{ marginLeft: 8 }}
+                  onClick={async () => {
+                    if (!confirm(`Turn off two-factor authentication for ${u.email}?`)) return;
+                    try {
+                      await resetUserTwoFactor(u.id);
+                      showToast(`Two-factor authentication reset for ${u.email}`, {
+                        type: 'success',
+                      });
+                    } catch (e: any) {
+                      showToast(e?.response?.data?.error?.message || 'Failed to reset 2FA', {
+                        type: 'error',
+                      });
+                    }
+                  }}
+                >
+                  Reset 2FA
+                </button>
               </td>
             </tr>
           ))}
         </tbody>
       </table>
       {users.length === 0 && !error && <p>No users yet.</p>}
+      {sessionsOf && (
+        <UserSessions key={sessionsOf.id} user={sessionsOf} onClose={() => setSessionsOf(null)} />
+      )}
     </div>
   );
 }
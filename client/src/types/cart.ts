@@ -0,0 +1,42 @@
+/**
+ * Server Cart Types for Frontend
+ *
+ * Mirrors the backend cart view under /cart: every read carries current
+ * prices and stock. Timestamps are epoch milliseconds.
+ *
+ * @fileoverview Frontend cart types
+ * @module types/cart
+ */
+
+export interface CartLineView {
+  key: string; // "productId" or "productId:variantId"
+  productId: string;
+  variantId?: string;
+  variantName?: string;
+  name: string;
+  image?: string;
+  quantity: number;
+  unitPrice: number; // current price
+  previousUnitPrice?: number; // price when added, set while the change is not accepted
+  priceChanged: boolean;
+  stock: number;
+  insufficientStock: boolean;
+}
+
+export interface CartView {
+  id: string;
+  owner: 'user' | 'guest';
+  lines: CartLineView[];
+  /** Lines dropped because their product or variant no longer exists */
+  removed: Array<{ productId: string; variantId?: string }>;
+  itemCount: number;
+  subtotal: number;
+  updatedAt: number;
+  token?: string; // guest carts only
+}
+
+export interface AddCartItemInput {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
@@ -0,0 +1,65 @@
+/**
+ * Inventory Ledger Types for Frontend
+ *
+ * Mirrors the backend stock movement ledger. Timestamps are epoch milliseconds.
+ *
+ * @fileoverview Frontend inventory ledger types
+ * @module types/inventory
+ */
+
+/**
+ * Reason a product's stock changed
+ */
+export const StockMovementType = {
+  SALE: 'sale',
+  RELEASE: 'release',
+  ADJUSTMENT: 'adjustment',
+  RESTOCK: 'restock',
+} as const;
+
+export type StockMovementType = (typeof StockMovementType)[keyof typeof StockMovementType];
+
+/**
+ * One append-only ledger entry for a product
+ */
+export interface StockMovement {
+  id: string;
+  productId: string;
+  type: StockMovementType;
+  quantity: number; // Signed change in units (negative for sales)
+  balanceAfter: number; // Stock right after this movement
+  orderId?: string;
+  returnId?: string;
+  actorId?: string;
+  actorEmail?: string;
+  reason?: string;
+  createdAt: number;
+}
+
+/**
+ * Product whose stock is at or below its low-stock threshold
+ */
+export interface LowStockAlert {
+  productId: string;
+  productName: string;
+  stock: number;
+  threshold: number;
+}
+
+/**
+ * Product whose stock disagrees with the sum of its ledger movements
+ */
+export interface StockMismatch {
+  productId: string;
+  productName: string;
+  stock: number;
+  ledgerStock: number;
+  difference: number;
+  movementCount: number;
+}
+
+export interface StockReconciliation {
+  checkedAt: number;
+  productCount: number;
+  mismatches: StockMismatch[];
+}
@@ -0,0 +1,64 @@
+/**
+ * Order Timeline Types for Frontend
+ *
+ * Mirrors the backend order timeline domain. Timestamps are epoch milliseconds.
+ *
+ * @fileoverview Frontend order timeline types
+ * @module types/orderTimeline
+ */
+
+export type TimelineEntryType =
+  | 'created'
+  | 'status_change'
+  | 'payment'
+  | 'address_updated'
+  | 'tracking_updated'
+  | 'notes_updated'
+  | 'comment';
+
+export interface TimelineMention {
+  userId: string;
+  email: string;
+}
+
+/**
+ * One change to an order, or a staff comment on it. Customers never receive
+ * internal entries, nor who on the staff made a change.
+ */
+export interface TimelineEntry {
+  id: string;
+  orderId: string;
+  type: TimelineEntryType;
+  summary: string;
+  body?: string;
+  mentions?: TimelineMention[];
+  internal: boolean;
+  actorType: 'customer' | 'staff' | 'system';
+  actorId?: string;
+  actorEmail?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: number;
+}
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+/** Who made a change, as shown under the entry */
+export function timelineActorLabel(entry: TimelineEntry): string {
+  if (entry.actorType === 'system') return 'Automatic';
+  return entry.actorEmail ?? (entry.actorType === 'staff' ? 'Shop staff' : 'Customer');
+}
+
+/** A comment cut into plain text and `@mention` parts (with where each starts), for highlighting */
+export function splitMentions(
+  body: string
+): Array<{ text: string; mention: boolean; offset: number }> {
+  let offset = 0;
+  return body
+    .split(/((?<![\w.+-])@[\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/)
+    .filter(Boolean)
+    .map((text) => {
+      const part = { text, mention: text.startsWith('@'), offset };
+      offset += text.length;
+      return part;
+    });
+}
@@ -8,6 +8,8 @@
  * @module types/orders
  */
 
+import type { OrderDiscount } from './promotions';
+
 /**
  * Order status enumeration
  */
@@ -28,9 +30,12 @@ export type OrderStatus = (typeof OrderStatus)[keyof typeof OrderStatus];
  */
 export const PaymentStatus = {
   PENDING: 'pending',
+  AUTHORIZED: 'authorized',
   PAID: 'paid',
   FAILED: 'failed',
+  PARTIALLY_REFUNDED: 'partially_refunded',
   REFUNDED: 'refunded',
+  VOIDED: 'voided',
 } as const;
 
 export type PaymentStatus = (typeof PaymentStatus)[keyof typeof PaymentStatus];
@@ -53,6 +58,9 @@ export type PaymentMethod = (typeof PaymentMethod)[keyof typeof PaymentMethod];
 export interface OrderItem {
   productId: string;
   productName: string;
+  variantId?: string;
+  variantName?: string;
+  sku?: string;
   quantity: number;
   unitPrice: number;
   totalPrice: number;
@@ -72,6 +80,11 @@ export interface ShippingAddress {
   phone?: string;
 }
 
+/**
+ * PDF documents of an order, served at /orders/:id/<kind>.pdf
+ */
+export type OrderDocumentKind = 'invoice' | 'packing-slip' | 'receipt';
+
 /**
  * Order tracking information
  */
@@ -82,6 +95,29 @@ export interface OrderTracking {
   estimatedDelivery?: string; // ISO string for frontend
 }
 
+/**
+ * Payment details recorded on the order by the payment gateway
+ */
+export interface OrderPayment {
+  provider: string;
+  paymentId: string;
+  status:
+    | 'requires_action'
+    | 'authorized'
+    | 'captured'
+    | 'partially_refunded'
+    | 'refunded'
+    | 'voided'
+    | 'declined';
+  currency: string;
+  amount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+  version: number;
+  challengeUrl?: string; // set while a 3-D Secure challenge is pending
+  failureReason?: string;
+}
+
 /**
  * Complete order entity
  */
@@ -91,12 +127,15 @@ export interface Order {
   userEmail: string;
   items: OrderItem[];
   subtotal: number;
+  discountAmount: number;
+  discount?: OrderDiscount;
   taxAmount: number;
   shippingCost: number;
   totalAmount: number;
   status: OrderStatus;
   paymentStatus: PaymentStatus;
   paymentMethod: PaymentMethod;
+  payment?: OrderPayment;
   shippingAddress: ShippingAddress;
   tracking?: OrderTracking;
   notes?: string;
@@ -110,11 +149,38 @@ export interface Order {
 export interface CreateOrderInput {
   items: Array<{
     productId: string;
+    variantId?: string; // Required for products with variants
     quantity: number;
   }>;
   paymentMethod: PaymentMethod;
   shippingAddress: ShippingAddress;
   notes?: string;
+  promoCode?: string;
+}
+
+/**
+ * Order quote input: cart lines plus the destination fields that affect tax
+ */
+export interface QuoteOrderInput {
+  items: CreateOrderInput['items'];
+  shippingAddress?: Pick<ShippingAddress, 'country'> & Partial<Pick<ShippingAddress, 'state'>>;
+  promoCode?: string;
+}
+
+/**
+ * Server-computed totals for a cart, matching what order creation charges
+ */
+export interface OrderQuote {
+  items: OrderItem[];
+  currency: string;
+  subtotal: number;
+  discountAmount: number;
+  discount?: OrderDiscount;
+  taxRate: number;
+  taxLabel?: string;
+  taxAmount: number;
+  shippingCost: number;
+  totalAmount: number;
 }
 
 /**
@@ -160,6 +226,15 @@ export interface OrderListResponse {
   message?: string;
 }
 
+/**
+ * API response wrapper for order quotes
+ */
+export interface OrderQuoteResponse {
+  success: boolean;
+  data?: OrderQuote;
+  message?: string;
+}
+
 /**
  * API response wrapper for order statistics
  */
@@ -173,11 +248,15 @@ export interface OrderStatsResponse {
  * Cart item for order creation
  */
 export interface CartItem {
-  id: string;
+  id: string; // Product ID
+  variantId?: string;
+  variantName?: string; // e.g. "M / Red"
   name: string;
   price: number;
   quantity: number;
   image?: string;
+  previousPrice?: number; // set by the server cart when the price changed since it was added
+  stock?: number; // units in stock at the last server sync
 }
 
 /**
@@ -272,3 +351,26 @@ export const PAYMENT_METHOD_INFO: Record<PaymentMethod, PaymentMethodInfo> = {
     icon: '💵',
   },
 };
+
+export const ORDER_DOCUMENT_LABELS: Record<OrderDocumentKind, string> = {
+  invoice: 'Invoice',
+  'packing-slip': 'Packing slip',
+  receipt: 'Receipt',
+};
+
+/**
+ * Documents the server can produce for an order right now: an invoice once it
+ * is confirmed or paid, a receipt once the payment is captured, and a packing
+ * slip unless it was cancelled.
+ */
+export function availableOrderDocuments(order: Order): OrderDocumentKind[] {
+  const paid = (
+    [PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED] as string[]
+  ).includes(order.paymentStatus);
+  if (order.status === OrderStatus.CANCELLED) return paid ? ['receipt'] : [];
+  return [
+    ...(order.status !== OrderStatus.PENDING || paid ? (['invoice'] as const) : []),
+    'packing-slip',
+    ...(paid ? (['receipt'] as const) : []),
+  ];
+}
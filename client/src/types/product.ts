@@ -8,20 +8,48 @@
  * @module types/product
  */
 
+import type { RatingCounts } from './reviews';
+
+/**
+ * One axis a product varies along, e.g. Size with values S, M and L
+ */
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+/**
+ * A purchasable combination of option values with its own SKU and stock
+ */
+export interface ProductVariant {
+  id: string;
+  sku: string;
+  options: Record<string, string>; // Option name -> value
+  price?: number; // Overrides the product price when set
+  stock: number;
+  images?: string[];
+}
+
 /**
  * Product entity for frontend use
  */
 export interface Product {
   id: string;
   name: string;
+  sku?: string; // Unique across products; bulk import matches rows by it
   price: number;
   description?: string;
   category: string;
-  rating: number;
+  rating: number; // Average of approved review ratings; 0 until the first review
+  reviewCount?: number;
+  ratingCounts?: RatingCounts;
   stock: number; // Available inventory count (>= 0)
+  lowStockThreshold?: number; // Per-product low-stock alert level
   createdAt: number; // Unix timestamp in milliseconds
   images?: string[];
   imageUrls?: string[]; // Alternative property name for compatibility
+  options?: ProductOption[];
+  variants?: ProductVariant[]; // When present, stock is the sum of variant stock
 }
 
 /**
@@ -29,51 +57,97 @@ export interface Product {
  */
 export interface ProductInput {
   name: string;
+  sku?: string;
   price: number;
   description?: string;
   category: string;
-  rating?: number;
   stock?: number; // Available inventory count (>= 0)
+  lowStockThreshold?: number | null; // Per-product low-stock alert level; null on update removes it
   images?: string[];
+  options?: ProductOption[]; // Sent together with variants; [] for both removes them
+  variants?: Array<Omit<ProductVariant, 'id'> & { id?: string }>;
 }
 
 /**
- * Product filter options for search and filtering
+ * Sort orders offered by product listing and search; relevance applies when there is a query
+ */
+export type ProductSearchSort =
+  | 'relevance'
+  | 'price-asc'
+  | 'price-desc'
+  | 'name-asc'
+  | 'name-desc'
+  | 'newest';
+
+/**
+ * Product list parameters for API calls
  */
-export interface ProductFilter {
-  q?: string; // Text search query
+export interface ProductListParams {
+  q?: string; // Text search query; ranked through the search index
   category?: string; // Category filter
+  price?: string; // Price bucket key from the price facet
   minPrice?: number; // Minimum price filter
   maxPrice?: number; // Maximum price filter
+  sort?: ProductSearchSort;
+  limit?: number; // Page size (1-100, default 20)
+  cursor?: string; // nextCursor or prevCursor from a page with the same sort and filters
 }
 
 /**
- * Product sort options
+ * One page of products with cursors to its neighbours
  */
-export interface ProductSort {
-  field: string; // Field to sort by
-  dir: 'asc' | 'desc'; // Sort direction
+export interface ProductListResponse {
+  data: Product[];
+  meta: {
+    total: number; // Matches across all pages
+    limit: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+  };
 }
 
 /**
- * Product list parameters for API calls
+ * Product search parameters for API calls
  */
-export interface ProductListParams {
-  sort?: ProductSort;
-  filter?: ProductFilter;
+export interface ProductSearchParams {
+  q?: string; // Full-text query; prefixes and small typos match too
+  category?: string;
+  price?: string; // Price bucket key from the price facet
+  minPrice?: number;
+  maxPrice?: number;
+  sort?: ProductSearchSort;
   page?: number;
   pageSize?: number;
 }
 
 /**
- * Product list response with pagination metadata
+ * One facet value and how many results it would give
  */
-export interface ProductListResponse {
+export interface ProductFacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+/**
+ * Facet counts for the filter sidebar; each facet ignores its own filter
+ */
+export interface ProductSearchFacets {
+  categories: ProductFacetCount[];
+  price: ProductFacetCount[];
+}
+
+/**
+ * Product search response with ranking and facets
+ */
+export interface ProductSearchResponse {
   data: Product[];
   meta: {
     total: number;
     page: number;
     pageSize: number;
+    facets: ProductSearchFacets;
+    scores: Record<string, number>; // Relevance per product ID when there is a query
   };
 }
 
@@ -0,0 +1,38 @@
+/**
+ * Bulk Product Import/Export Types
+ *
+ * Products move in and out of the catalog as CSV or JSON rows keyed by SKU,
+ * or by product id for products without one.
+ * A dry run reports what each row would change without saving anything.
+ *
+ * @fileoverview Frontend product import and export types
+ * @module types/productImport
+ */
+
+export type ProductTransferFormat = 'csv' | 'json';
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ImportFieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * What one row of the file does, or would do on a dry run
+ */
+export interface ProductImportResult {
+  line: number; // CSV line, or position in the JSON array
+  sku?: string;
+  action: ImportAction;
+  productId?: string;
+  changes?: Record<string, { from?: unknown; to: unknown }>; // Changed columns, old and new value
+  errors?: ImportFieldError[];
+}
+
+export interface ProductImportReport {
+  dryRun: boolean;
+  applied: boolean; // False on a dry run, or when an invalid row stopped the import
+  summary: Record<ImportAction, number> & { total: number };
+  rows: ProductImportResult[];
+}
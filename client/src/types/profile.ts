@@ -0,0 +1,50 @@
+/**
+ * Profile and Address Book Types for Frontend
+ *
+ * Mirrors the backend endpoints under /me. Timestamps are epoch milliseconds.
+ *
+ * @fileoverview Frontend profile types
+ * @module types/profile
+ */
+
+import type { ShippingAddress } from './orders';
+
+export interface MarketingPreferences {
+  email: boolean;
+  sms: boolean;
+}
+
+/**
+ * The signed-in user's own details
+ */
+export interface UserProfile {
+  userId: string;
+  displayName?: string;
+  phone?: string;
+  marketing: MarketingPreferences;
+  updatedAt: number;
+}
+
+/**
+ * Fields sent to update the profile; an empty string clears a field
+ */
+export interface ProfileInput {
+  displayName?: string;
+  phone?: string;
+  marketing?: Partial<MarketingPreferences>;
+}
+
+/**
+ * A shipping address kept in the address book
+ */
+export interface SavedAddress extends ShippingAddress {
+  id: string;
+  /** e.g. "Home" or "Work" */
+  label?: string;
+  /** Offered first at checkout; exactly one address is the default */
+  isDefault: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AddressInput = ShippingAddress & { label?: string; isDefault?: boolean };
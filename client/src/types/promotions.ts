@@ -0,0 +1,59 @@
+/**
+ * Promotion Types for Frontend
+ *
+ * Mirrors the backend promotion domain. Timestamps are epoch milliseconds.
+ *
+ * @fileoverview Frontend promotion types
+ * @module types/promotions
+ */
+
+/**
+ * Kind of discount a promotion grants
+ */
+export const PromotionType = {
+  PERCENT_OFF: 'percent_off',
+  FIXED_AMOUNT: 'fixed_amount',
+  FREE_SHIPPING: 'free_shipping',
+  BUY_X_GET_Y: 'buy_x_get_y',
+} as const;
+
+export type PromotionType = (typeof PromotionType)[keyof typeof PromotionType];
+
+/**
+ * Admin-managed promotion redeemable with a code at checkout
+ */
+export interface Promotion {
+  id: string;
+  code: string;
+  description?: string;
+  type: PromotionType;
+  value?: number; // percent for percent_off / buy_x_get_y, amount for fixed_amount
+  buyQuantity?: number;
+  getQuantity?: number;
+  productIds?: string[];
+  minSubtotal?: number;
+  startsAt?: number;
+  endsAt?: number;
+  maxRedemptions?: number;
+  maxRedemptionsPerUser?: number;
+  redemptionCount: number;
+  active: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Editable promotion fields (create and full replace)
+ */
+export type PromotionInput = Omit<Promotion, 'id' | 'redemptionCount' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Discount line recorded on a quote or order
+ */
+export interface OrderDiscount {
+  promotionId: string;
+  code: string;
+  type: PromotionType;
+  description: string;
+  amount: number;
+}
@@ -0,0 +1,76 @@
+/**
+ * Return (RMA) Types for Frontend
+ *
+ * Mirrors the backend returns domain. Timestamps are epoch milliseconds.
+ *
+ * @fileoverview Frontend return request types
+ * @module types/returns
+ */
+
+/**
+ * Review state of a return request
+ */
+export const ReturnStatus = {
+  REQUESTED: 'requested',
+  APPROVING: 'approving',
+  APPROVED: 'approved',
+  REJECTED: 'rejected',
+} as const;
+
+export type ReturnStatus = (typeof ReturnStatus)[keyof typeof ReturnStatus];
+
+export interface ReturnItem {
+  productId: string;
+  productName: string;
+  variantId?: string;
+  variantName?: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+/**
+ * Customer request to send back units of a delivered order
+ */
+export interface ReturnRequest {
+  id: string;
+  orderId: string;
+  userId: string;
+  userEmail: string;
+  items: ReturnItem[];
+  reason: string;
+  status: ReturnStatus;
+  itemsValue: number; // value of the items after the order's discount
+  refundId?: string;
+  refundAmount?: number;
+  restocked: boolean;
+  adminNote?: string;
+  resolvedBy?: string;
+  resolvedAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CreateReturnInput {
+  items: Array<{ productId: string; variantId?: string; quantity: number }>;
+  reason: string;
+}
+
+/**
+ * Money paid back on an order, through the gateway or recorded manually
+ */
+export interface RefundRecord {
+  id: string;
+  orderId: string;
+  returnId?: string;
+  amount: number;
+  method: 'gateway' | 'manual';
+  paymentId?: string;
+  createdBy: string;
+  createdAt: number;
+}
+
+export interface ReturnApprovalInput {
+  refundAmount?: number;
+  restock: boolean;
+  note?: string;
+}
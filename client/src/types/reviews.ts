@@ -0,0 +1,84 @@
+/**
+ * Product Review Types for Frontend
+ *
+ * Mirrors the backend reviews domain. Timestamps are epoch milliseconds.
+ *
+ * @fileoverview Frontend product review types
+ * @module types/reviews
+ */
+
+/**
+ * Moderation state of a review; only approved reviews are shown and counted
+ */
+export const ReviewStatus = {
+  PENDING: 'pending',
+  APPROVED: 'approved',
+  HIDDEN: 'hidden',
+  FLAGGED: 'flagged',
+} as const;
+
+export type ReviewStatus = (typeof ReviewStatus)[keyof typeof ReviewStatus];
+
+export type StarRating = 1 | 2 | 3 | 4 | 5;
+
+/** Approved reviews per star rating */
+export type RatingCounts = Record<StarRating, number>;
+
+/**
+ * Review as listed on the product page
+ */
+export interface Review {
+  id: string;
+  productId: string;
+  userId: string;
+  authorName: string; // e.g. "Jane D."
+  orderId: string;
+  rating: StarRating;
+  title?: string;
+  body: string;
+  status: ReviewStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Review as seen in the admin moderation queue
+ */
+export interface ModeratedReview extends Review {
+  userEmail: string;
+  moderatedBy?: string;
+  moderatedAt?: number;
+  moderationNote?: string;
+}
+
+export interface ReviewSummary {
+  average: number;
+  count: number;
+  distribution: RatingCounts;
+}
+
+export type ReviewSort = 'newest' | 'oldest' | 'highest' | 'lowest';
+
+export interface ReviewListParams {
+  sort?: ReviewSort;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ReviewListResponse {
+  data: Review[];
+  meta: { summary: ReviewSummary; nextCursor: string | null };
+}
+
+export interface MyReview {
+  review: Review | null;
+  canReview: boolean; // true once the customer has a delivered order for the product
+}
+
+export interface CreateReviewInput {
+  rating: StarRating;
+  title?: string;
+  body: string;
+}
+
+export type ReviewModerationAction = 'approve' | 'hide' | 'flag';
@@ -0,0 +1,54 @@
+/**
+ * Role and Permission Types for Frontend
+ *
+ * Mirrors the backend roles (server/src/domain/roles.ts) and the role
+ * endpoints under /admin/roles.
+ *
+ * @fileoverview Frontend RBAC types
+ * @module types/roles
+ */
+
+/**
+ * Permission checked by the API; a role grants a set of them
+ */
+export type Permission =
+  | 'orders:read'
+  | 'orders:fulfil'
+  | 'payments:manage'
+  | 'returns:manage'
+  | 'products:write'
+  | 'inventory:read'
+  | 'promotions:manage'
+  | 'reviews:moderate'
+  | 'users:manage'
+  | 'roles:manage'
+  | 'audit:read'
+  | 'reports:read'
+  | 'maintenance:run';
+
+/**
+ * Permission with what it allows, as listed for the role editor
+ */
+export interface PermissionInfo {
+  id: Permission;
+  description: string;
+}
+
+/**
+ * Built-in or custom role
+ */
+export interface Role {
+  id: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  /** Built-in roles ship with the server and cannot be edited */
+  builtIn: boolean;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+/**
+ * Fields of a custom role the editor sends
+ */
+export type RoleInput = Pick<Role, 'name' | 'description' | 'permissions'>;
@@ -0,0 +1,25 @@
+/**
+ * Sign-in Session Types for Frontend
+ *
+ * Mirrors the backend session view. Timestamps are epoch milliseconds.
+ *
+ * @fileoverview Frontend session types
+ * @module types/session
+ */
+
+/**
+ * A device the user is signed in on
+ */
+export interface Session {
+  id: string;
+  userId: string;
+  /** Readable device label, e.g. "Chrome on macOS" */
+  device: string;
+  userAgent?: string;
+  /** Last IP address the session was used from */
+  ip?: string;
+  createdAt: number;
+  lastSeenAt: number;
+  /** Whether this is the session making the request */
+  current: boolean;
+}
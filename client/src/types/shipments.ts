@@ -0,0 +1,76 @@
+/**
+ * Shipment Types for Frontend
+ *
+ * Mirrors the backend shipments domain. Timestamps are epoch milliseconds.
+ *
+ * @fileoverview Frontend shipment and tracking types
+ * @module types/shipments
+ */
+
+/**
+ * Where a shipment is, as reported by its carrier
+ */
+export const ShipmentStatus = {
+  LABEL_CREATED: 'label_created',
+  IN_TRANSIT: 'in_transit',
+  OUT_FOR_DELIVERY: 'out_for_delivery',
+  DELIVERED: 'delivered',
+  EXCEPTION: 'exception',
+} as const;
+
+export type ShipmentStatus = (typeof ShipmentStatus)[keyof typeof ShipmentStatus];
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  label_created: 'Label created',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery problem',
+};
+
+export interface ShipmentItem {
+  productId: string;
+  productName: string;
+  variantId?: string;
+  variantName?: string;
+  quantity: number;
+}
+
+export interface TrackingEvent {
+  status: ShipmentStatus;
+  description: string;
+  location?: string;
+  occurredAt: number;
+}
+
+/**
+ * Units of an order sent together with one carrier
+ */
+export interface Shipment {
+  id: string;
+  orderId: string;
+  userId: string;
+  carrier: string;
+  carrierName: string;
+  trackingNumber: string;
+  items: ShipmentItem[];
+  status: ShipmentStatus;
+  events: TrackingEvent[]; // oldest first
+  estimatedDelivery?: number;
+  deliveredAt?: number;
+  lastCheckedAt: number;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Carrier {
+  code: string;
+  name: string;
+}
+
+export interface CreateShipmentInput {
+  carrier: string;
+  /** Units to ship; omit to ship every unit not shipped yet */
+  items?: Array<{ productId: string; variantId?: string; quantity: number }>;
+}
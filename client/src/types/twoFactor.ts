@@ -0,0 +1,29 @@
+/**
+ * Two-Factor Authentication Types for Frontend
+ *
+ * Mirrors the backend two-factor endpoints under /auth/2fa.
+ *
+ * @fileoverview Frontend two-factor types
+ * @module types/twoFactor
+ */
+
+/**
+ * Whether the user has two-factor authentication on
+ */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: number | null;
+  recoveryCodesRemaining: number;
+  /** The user must keep 2FA on (staff, when the server requires it) */
+  required: boolean;
+}
+
+/**
+ * New secret handed out when enrolment starts
+ */
+export interface TwoFactorSetup {
+  /** Base32 secret for typing into an authenticator app */
+  secret: string;
+  /** `otpauth://` provisioning URI, what a QR code for the app would contain */
+  otpauthUrl: string;
+}
@@ -5,13 +5,15 @@
  * favorites, orders, and audit log entries.
  */
 
-import { FirestoreOrderRepository } from '@server/data/firestore/FirestoreOrderRepository';
+import { getRepositories } from '@server/data';
 import { createActivityFeedService } from '@server/services/monitoring';
 import { OrderService } from '@server/services/orders';
 import { logError } from '@server/utils/logger';
 import type { Request, Response } from 'express';
 
-function getActor(req: Request): { id?: string; email?: string; role?: string } | undefined {
+function getActor(
+  req: Request
+): { id?: string; email?: string; permissions?: string[] } | undefined {
   return (req as any).user;
 }
 
@@ -31,7 +33,7 @@ export async function getActivityFeed(req: Request, res: Response): Promise<void
       return;
     }
 
-    const isAdmin = actor.role === 'admin';
+    const isAdmin = !!actor.permissions?.includes('orders:read');
 
     // Parse query parameters
     const limit = req.query.limit ? Number(req.query.limit) : undefined;
@@ -48,8 +50,7 @@ export async function getActivityFeed(req: Request, res: Response): Promise<void
     const filterUserId = isAdmin && req.query.userId ? (req.query.userId as string) : actor.id;
 
     // Create order service instance (same pattern as order routes)
-    const orderRepository = new FirestoreOrderRepository();
-    const orderService = new OrderService(orderRepository);
+    const orderService = new OrderService(getRepositories().orders);
 
     // Create activity feed service
     const activityFeedService = createActivityFeedService(orderService);
@@ -0,0 +1,60 @@
+import { app } from '@server/app';
+import { loadEnv } from '@server/config/env';
+import { createMemoryRepositories, getRepositories, setRepositories } from '@server/data';
+import { sessionService } from '@server/services/auth';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+async function createUser(email: string, role: string) {
+  const users = getRepositories().users;
+  const user = await users.createUser({ email, passwordHash: 'x' });
+  return users.setRole(user.id, role);
+}
+
+function bearer(user: { id: string; email: string; role: string }) {
+  const token = jwt.sign({ id: user.id, email: user.email, role: user.role }, loadEnv().JWT_SECRET);
+  return `Bearer ${token}`;
+}
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories());
+});
+
+describe('GET /api/v1/admin/users/:id/sessions', () => {
+  it('lists the sessions of a user the staff member may manage', async () => {
+    const support = await createUser('support@example.com', 'support');
+    const customer = await createUser('ada@example.com', 'user');
+    await sessionService.start(customer.id, { ip: '10.0.0.1' });
+
+    const res = await request(app)
+      .get(`/api/v1/admin/users/${customer.id}/sessions`)
+      .set('Authorization', bearer(support));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(1);
+  });
+
+  it('refuses to show the sessions of an account with permissions the staff member lacks', async () => {
+    const support = await createUser('support@example.com', 'support');
+    const admin = await createUser('admin@example.com', 'admin');
+    await sessionService.start(admin.id, { ip: '10.0.0.1' });
+
+    const res = await request(app)
+      .get(`/api/v1/admin/users/${admin.id}/sessions`)
+      .set('Authorization', bearer(support));
+
+    expect(res.status).toBe(403);
+    expect(res.body.data).toBeUndefined();
+  });
+
+  it('answers 404 for an unknown user', async () => {
+    const support = await createUser('support@example.com', 'support');
+
+    const res = await request(app)
+      .get('/api/v1/admin/users/missing/sessions')
+      .set('Authorization', bearer(support));
+
+    expect(res.status).toBe(404);
+  });
+});
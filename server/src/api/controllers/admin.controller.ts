@@ -1,18 +1,68 @@
-import { authService } from '@server/services/auth';
+import { getRepositories } from '@server/data';
+import {
+  authService,
+  loginProtectionService,
+  rolesService,
+  sessionService,
+  twoFactorService,
+} from '@server/services/auth';
+import type { PromotionInput } from '@server/domain/promotions';
+import { ReturnStatus } from '@server/domain/returns';
+import { ReviewStatus } from '@server/domain/reviews';
+import { PERMISSIONS, type Permission, type RoleInput } from '@server/domain/roles';
+import { inventoryService } from '@server/services/inventory';
 import { auditLogsService } from '@server/services/monitoring';
+import { promotionsService } from '@server/services/promotions';
+import { type ReturnApproval, returnsService } from '@server/services/returns';
+import { reviewsService } from '@server/services/reviews';
 import type { Request, Response } from 'express';
 
 function getActor(req: Request) {
-  return (req as any).user as { id?: string; email?: string } | undefined;
+  return (req as any).user as
+    | { id?: string; email?: string; permissions?: Permission[] }
+    | undefined;
 }
 
+function actorPermissions(req: Request): Permission[] {
+  return getActor(req)?.permissions ?? [];
+}
+
+/** Staff may only act on accounts whose role grants nothing they lack */
+async function findManageableUser(req: Request, res: Response) {
+  const user = await getRepositories().users.findById(req.params.id);
+  if (!user) {
+    res.status(404).json({ error: { message: 'User not found' } });
+    return null;
+  }
+  await rolesService.assertCanManage(user, actorPermissions(req));
+  return user;
+}
+
+async function assignRole(req: Request, roleId: string) {
+  const actor = getActor(req);
+  const user = await rolesService.assign(req.params.id, roleId, {
+    id: actor?.id,
+    permissions: actorPermissions(req),
+  });
+  return { id: user.id, email: user.email, role: user.role };
+}
+
+/** All users; accounts locked after failed logins carry `lockedUntil` */
 export async function listUsers(_req: Request, res: Response): Promise<void> {
-  const users = await authService.listUsers();
-  res.json({ data: users });
+  const [users, locked] = await Promise.all([
+    authService.listUsers(),
+    loginProtectionService.lockedAccounts(),
+  ]);
+  const data = users.map((user) => {
+    const lockedUntil = locked.get(user.email.toLowerCase());
+    return lockedUntil ? { ...user, lockedUntil } : user;
+  });
+  res.json({ data });
 }
 
 export async function removeUser(req: Request, res: Response): Promise<void> {
   const { id } = req.params;
+  if (!(await findManageableUser(req, res))) return;
   await authService.removeUser(id);
   const actor = getActor(req);
   auditLogsService
@@ -28,9 +78,31 @@ export async function removeUser(req: Request, res: Response): Promise<void> {
   res.status(204).send();
 }
 
+/**
+ * Give a user one of the built-in or custom roles.
+ */
+export async function setUserRole(req: Request, res: Response): Promise<void> {
+  const { id } = req.params;
+  const previous = await getRepositories().users.findById(id);
+  const user = await assignRole(req, req.body.role);
+  const actor = getActor(req);
+  auditLogsService
+    .log({
+      action: 'admin.user.role_change',
+      summary: `Changed role of user ${id} to ${user.role}`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetId: id,
+      targetType: 'user',
+      metadata: { from: previous?.role, role: user.role },
+    })
+    .catch(() => undefined);
+  res.json({ data: user });
+}
+
 export async function promoteUser(req: Request, res: Response): Promise<void> {
   const { id } = req.params;
-  const user = await authService.setRole(id, 'admin');
+  const user = await assignRole(req, 'admin');
   const actor = getActor(req);
   auditLogsService
     .log({
@@ -48,7 +120,7 @@ export async function promoteUser(req: Request, res: Response): Promise<void> {
 
 export async function demoteUser(req: Request, res: Response): Promise<void> {
   const { id } = req.params;
-  const user = await authService.setRole(id, 'user');
+  const user = await assignRole(req, 'user');
   const actor = getActor(req);
   auditLogsService
     .log({
@@ -63,3 +135,316 @@ export async function demoteUser(req: Request, res: Response): Promise<void> {
     .catch(() => undefined);
   res.json({ data: user });
 }
+
+export async function listUserSessions(req: Request, res: Response): Promise<void> {
+  if (!(await findManageableUser(req, res))) return;
+  const data = await sessionService.list(req.params.id);
+  res.json({ data });
+}
+
+export async function revokeUserSession(req: Request, res: Response): Promise<void> {
+  const { id, sessionId } = req.params;
+  if (!(await findManageableUser(req, res))) return;
+  await sessionService.revoke(id, sessionId, 'revoked_by_admin');
+  const actor = getActor(req);
+  auditLogsService
+    .log({
+      action: 'admin.user.session_revoke',
+      summary: `Signed out session ${sessionId} of user ${id}`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetId: id,
+      targetType: 'user',
+      metadata: { sessionId },
+    })
+    .catch(() => undefined);
+  res.status(204).send();
+}
+
+/**
+ * Lift the lockout of an account locked after repeated failed logins.
+ */
+export async function unlockUser(req: Request, res: Response): Promise<void> {
+  const { id } = req.params;
+  const user = await findManageableUser(req, res);
+  if (!user) return;
+  const actor = getActor(req);
+  await loginProtectionService.unlock(user.email, actor?.id);
+  auditLogsService
+    .log({
+      action: 'admin.user.unlock',
+      summary: `Unlocked user ${user.email}`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetId: id,
+      targetType: 'user',
+    })
+    .catch(() => undefined);
+  res.status(204).send();
+}
+
+/**
+ * Switch off two-factor authentication for a user who lost their authenticator
+ * and recovery codes. Their sessions are signed out; with ADMIN_2FA_REQUIRED
+ * staff have to enrol again on the next login.
+ */
+export async function resetUserTwoFactor(req: Request, res: Response): Promise<void> {
+  const { id } = req.params;
+  if (!(await findManageableUser(req, res))) return;
+  await twoFactorService.reset(id);
+  await sessionService.revokeAll(id, 'two_factor_reset');
+  const actor = getActor(req);
+  auditLogsService
+    .log({
+      action: 'admin.user.2fa_reset',
+      summary: `Reset two-factor authentication of user ${id}`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetId: id,
+      targetType: 'user',
+    })
+    .catch(() => undefined);
+  res.status(204).send();
+}
+
+/** Every permission with a description, for the role editor */
+export async function listPermissions(_req: Request, res: Response): Promise<void> {
+  const data = Object.entries(PERMISSIONS).map(([id, description]) => ({ id, description }));
+  res.json({ data });
+}
+
+export async function listRoles(_req: Request, res: Response): Promise<void> {
+  res.json({ data: await rolesService.list() });
+}
+
+export async function createRole(req: Request, res: Response): Promise<void> {
+  const role = await rolesService.create(req.body as RoleInput, actorPermissions(req));
+  const actor = getActor(req);
+  auditLogsService
+    .log({
+      action: 'admin.role.create',
+      summary: `Created role ${role.name}`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetId: role.id,
+      targetType: 'role',
+      metadata: { permissions: role.permissions },
+    })
+    .catch(() => undefined);
+  res.status(201).json({ data: role });
+}
+
+export async function updateRole(req: Request, res: Response): Promise<void> {
+  const { id } = req.params;
+  const role = await rolesService.update(id, req.body as RoleInput, actorPermissions(req));
+  const actor = getActor(req);
+  auditLogsService
+    .log({
+      action: 'admin.role.update',
+      summary: `Updated role ${role.name}`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetId: id,
+      targetType: 'role',
+      metadata: { permissions: role.permissions },
+    })
+    .catch(() => undefined);
+  res.json({ data: role });
+}
+
+export async function removeRole(req: Request, res: Response): Promise<void> {
+  const { id } = req.params;
+  await rolesService.remove(id, actorPermissions(req));
+  const actor = getActor(req);
+  auditLogsService
+    .log({
+      action: 'admin.role.remove',
+      summary: `Removed role ${id}`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetId: id,
+      targetType: 'role',
+    })
+    .catch(() => undefined);
+  res.status(204).send();
+}
+
+export async function listPromotions(_req: Request, res: Response): Promise<void> {
+  const promotions = await promotionsService.list();
+  res.json({ data: promotions });
+}
+
+export async function createPromotion(req: Request, res: Response): Promise<void> {
+  const promotion = await promotionsService.create(req.body as PromotionInput);
+  const actor = getActor(req);
+  auditLogsService
+    .log({
+      action: 'admin.promotion.create',
+      summary: `Created promotion ${promotion.code}`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetId: promotion.id,
+      targetType: 'promotion',
+      metadata: { code: promotion.code, type: promotion.type },
+    })
+    .catch(() => undefined);
+  res.status(201).json({ data: promotion });
+}
+
+export async function updatePromotion(req: Request, res: Response): Promise<void> {
+  const { id } = req.params;
+  const promotion = await promotionsService.update(id, req.body as PromotionInput);
+  const actor = getActor(req);
+  auditLogsService
+    .log({
+      action: 'admin.promotion.update',
+      summary: `Updated promotion ${promotion.code}`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetId: id,
+      targetType: 'promotion',
+      metadata: { code: promotion.code, active: promotion.active },
+    })
+    .catch(() => undefined);
+  res.json({ data: promotion });
+}
+
+export async function removePromotion(req: Request, res: Response): Promise<void> {
+  const { id } = req.params;
+  await promotionsService.remove(id);
+  const actor = getActor(req);
+  auditLogsService
+    .log({
+      action: 'admin.promotion.remove',
+      summary: `Removed promotion ${id}`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetId: id,
+      targetType: 'promotion',
+    })
+    .catch(() => undefined);
+  res.status(204).send();
+}
+
+export async function listReturns(req: Request, res: Response): Promise<void> {
+  const status = req.query.status as ReturnStatus | undefined;
+  if (status && !Object.values(ReturnStatus).includes(status)) {
+    res.status(400).json({ error: { message: `Unknown return status: ${status}` } });
+    return;
+  }
+  const returns = await returnsService.list(status);
+  res.json({ data: returns });
+}
+
+export async function approveReturn(req: Request, res: Response): Promise<void> {
+  const { id } = req.params;
+  const actor = getActor(req);
+  const request = await returnsService.approve(
+    id,
+    { id: actor?.id, email: actor?.email, isAdmin: true },
+    req.body as ReturnApproval
+  );
+  auditLogsService
+    .log({
+      action: 'admin.return.approve',
+      summary: `Approved return ${id} for order ${request.orderId}${
+        request.refundAmount ? ` with a ${request.refundAmount.toFixed(2)} refund` : ''
+      }`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetId: id,
+      targetType: 'return',
+      metadata: {
+        orderId: request.orderId,
+        refundId: request.refundId,
+        refundAmount: request.refundAmount ?? 0,
+        restocked: request.restocked,
+      },
+    })
+    .catch(() => undefined);
+  res.json({ data: request });
+}
+
+export async function rejectReturn(req: Request, res: Response): Promise<void> {
+  const { id } = req.params;
+  const actor = getActor(req);
+  const request = await returnsService.reject(
+    id,
+    { id: actor?.id, email: actor?.email, isAdmin: true },
+    req.body?.note
+  );
+  auditLogsService
+    .log({
+      action: 'admin.return.reject',
+      summary: `Rejected return ${id} for order ${request.orderId}`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetId: id,
+      targetType: 'return',
+      metadata: { orderId: request.orderId, note: request.adminNote },
+    })
+    .catch(() => undefined);
+  res.json({ data: request });
+}
+
+export async function listReviews(req: Request, res: Response): Promise<void> {
+  const status = req.query.status as ReviewStatus | undefined;
+  if (status && !Object.values(ReviewStatus).includes(status)) {
+    res.status(400).json({ error: { message: `Unknown review status: ${status}` } });
+    return;
+  }
+  const reviews = await reviewsService.list(status);
+  res.json({ data: reviews });
+}
+
+/** Approve, hide and flag differ only in the status they set */
+function moderateReview(action: 'approve' | 'hide' | 'flag') {
+  return async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const actor = getActor(req);
+    const review = await reviewsService[action](
+      id,
+      { id: actor?.id, email: actor?.email },
+      req.body?.note
+    );
+    auditLogsService
+      .log({
+        action: `admin.review.${action}`,
+        summary: `Set review ${id} of product ${review.productId} to ${review.status}`,
+        actorId: actor?.id,
+        actorEmail: actor?.email,
+        targetId: id,
+        targetType: 'review',
+        metadata: {
+          productId: review.productId,
+          rating: review.rating,
+          note: review.moderationNote,
+        },
+      })
+      .catch(() => undefined);
+    res.json({ data: review });
+  };
+}
+
+export const approveReview = moderateReview('approve');
+export const hideReview = moderateReview('hide');
+export const flagReview = moderateReview('flag');
+
+export async function listLowStock(_req: Request, res: Response): Promise<void> {
+  const alerts = await inventoryService.lowStock();
+  res.json({ data: alerts });
+}
+
+export async function reconcileStock(_req: Request, res: Response): Promise<void> {
+  const result = await inventoryService.reconcile();
+  res.json({ data: result });
+}
+
+export async function listStockMovements(req: Request, res: Response): Promise<void> {
+  const limit = Number(req.query.limit);
+  const movements = await inventoryService.history(
+    req.params.id,
+    Number.isInteger(limit) && limit > 0 ? Math.min(limit, 500) : undefined
+  );
+  res.json({ data: movements });
+}
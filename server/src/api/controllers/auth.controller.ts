@@ -1,9 +1,24 @@
-import { getDb } from '@server/config/firestore';
-import type { User } from '@server/domain/user';
-import { authService, tokenRevocationService } from '@server/services/auth';
+import { getRepositories } from '@server/data';
+import {
+  authService,
+  emailVerificationService,
+  sessionService,
+  tokenRevocationService,
+  twoFactorService,
+} from '@server/services/auth';
 import { auditLogsService } from '@server/services/monitoring';
 import type { Request, Response } from 'express';
 
+function getActor(req: Request) {
+  return (req as any).user as
+    | { id?: string; email?: string; permissions?: string[]; sessionId?: string }
+    | undefined;
+}
+
+function getClient(req: Request) {
+  return { userAgent: req.get('user-agent'), ip: req.ip || req.socket.remoteAddress || undefined };
+}
+
 export async function register(req: Request, res: Response): Promise<void> {
   const out = await authService.register(req.body);
   res.status(201).json({ data: out });
@@ -12,12 +27,79 @@ export async function register(req: Request, res: Response): Promise<void> {
 /**
  * Controller that processes a login request.
  * Delegates authentication to authService.login using the request body, then sends a JSON
- * response containing the authentication token and the authenticated user object.
+ * response containing the authentication token, the refresh token and the authenticated user.
+ * Users with two-factor authentication get `{ twoFactorRequired, challengeToken }` instead,
+ * to be completed through `loginTwoFactor`.
  */
 export async function login(req: Request, res: Response): Promise<void> {
-  const out = await authService.login(req.body);
+  const out = await authService.login(req.body, getClient(req));
+  if ('twoFactorRequired' in out) {
+    res.json({ data: { twoFactorRequired: true, challengeToken: out.challengeToken } });
+    return;
+  }
   // Standardize response shape to { data: { ... } } like other endpoints
-  res.json({ data: { token: out.token, user: out.user } });
+  res.json({ data: { token: out.token, refreshToken: out.refreshToken, user: out.user } });
+}
+
+/**
+ * Second login step: exchanges the challenge token from `login` and a TOTP or
+ * recovery code for the same tokens a plain login returns.
+ */
+export async function loginTwoFactor(req: Request, res: Response): Promise<void> {
+  const out = await authService.completeTwoFactorLogin(
+    req.body.challengeToken,
+    req.body.code,
+    getClient(req)
+  );
+  res.json({ data: { token: out.token, refreshToken: out.refreshToken, user: out.user } });
+}
+
+/**
+ * Exchanges a refresh token for a new access token and refresh token. The
+ * old refresh token stops working; sending it again revokes the whole chain,
+ * unless it comes within seconds of the swap (another tab, or a retry after a
+ * lost response), which gets the same new refresh token back.
+ */
+export async function refresh(req: Request, res: Response): Promise<void> {
+  const out = await authService.refresh(req.body.refreshToken, getClient(req));
+  res.json({ data: { token: out.token, refreshToken: out.refreshToken, user: out.user } });
+}
+
+/**
+ * Confirms the user's email address with the token from the verification email.
+ */
+export async function verifyEmail(req: Request, res: Response): Promise<void> {
+  const userId = await emailVerificationService.verify(req.body.token);
+  res.json({ data: { verified: true } });
+  auditLogsService
+    .log({
+      action: 'auth.email_verify',
+      summary: 'Email address verified',
+      actorId: userId,
+      targetId: userId,
+      targetType: 'user',
+      ip: req.ip || req.socket.remoteAddress || undefined,
+    })
+    .catch(() => undefined);
+}
+
+/**
+ * Emails the signed-in user a new verification link.
+ */
+export async function resendVerification(req: Request, res: Response): Promise<void> {
+  const token = await emailVerificationService.resend(getActor(req)!.id!);
+  const payload: any = { sent: true };
+  // In test environment expose token to allow end-to-end verification coverage
+  if (process.env.NODE_ENV === 'test') payload.token = token;
+  res.status(202).json({ data: payload });
+}
+
+/**
+ * The signed-in user's account, including whether their email is verified.
+ */
+export async function getAccount(req: Request, res: Response): Promise<void> {
+  const data = await authService.getAccount(getActor(req)!.id!);
+  res.json({ data });
 }
 
 export async function requestPasswordReset(req: Request, res: Response): Promise<void> {
@@ -37,9 +119,7 @@ export async function resetPassword(req: Request, res: Response): Promise<void>
   if (userId) {
     try {
       // Fetch user email for audit log
-      const db = getDb();
-      const userSnap = await db.collection('users').doc(userId).get();
-      const user = userSnap.exists ? (userSnap.data() as User) : null;
+      const user = await getRepositories().users.findById(userId);
 
       auditLogsService
         .log({
@@ -60,18 +140,25 @@ export async function resetPassword(req: Request, res: Response): Promise<void>
 }
 
 /**
- * Logout endpoint that revokes all tokens for the authenticated user.
+ * Logout endpoint that ends the session of the token it is called with, leaving the
+ * user's other devices signed in. Tokens from before sessions existed carry no
+ * session, so for those every token of the user is revoked instead.
  * Requires authentication middleware to identify the user.
  */
 export async function logout(req: Request, res: Response): Promise<void> {
-  const actor = (req as any).user as { id?: string; email?: string } | undefined;
+  const actor = getActor(req);
 
   if (!actor?.id) {
     res.status(401).json({ error: { message: 'Unauthenticated' } });
     return;
   }
 
-  await tokenRevocationService.revokeAllTokens(actor.id, 'manual_logout');
+  if (actor.sessionId) {
+    await sessionService.revoke(actor.id, actor.sessionId, 'manual_logout').catch(() => undefined);
+  } else {
+    await tokenRevocationService.revokeAllTokens(actor.id, 'manual_logout');
+    await sessionService.revokeAll(actor.id, 'manual_logout');
+  }
 
   res.status(200).json({ data: { loggedOut: true } });
 
@@ -84,8 +171,125 @@ export async function logout(req: Request, res: Response): Promise<void> {
       actorEmail: actor.email,
       targetId: actor.id,
       targetType: 'user',
-      metadata: { reason: 'manual_logout' },
+      metadata: { reason: 'manual_logout', sessionId: actor.sessionId },
       ip: req.ip || req.socket.remoteAddress || undefined,
     })
     .catch(() => undefined);
 }
+
+/**
+ * The signed-in user's active sessions, most recently used first. The session
+ * making the request is flagged `current`.
+ */
+export async function listSessions(req: Request, res: Response): Promise<void> {
+  const actor = getActor(req)!;
+  const data = await sessionService.list(actor.id!, actor.sessionId);
+  res.json({ data });
+}
+
+/**
+ * Sign one of the user's own sessions out. Its access token stops working
+ * straight away and its refresh token can no longer be used.
+ */
+export async function revokeSession(req: Request, res: Response): Promise<void> {
+  const actor = getActor(req)!;
+  await sessionService.revoke(actor.id!, req.params.id, 'revoked_by_user');
+  res.status(204).send();
+  auditLogsService
+    .log({
+      action: 'auth.session_revoke',
+      summary: `Signed out session ${req.params.id}`,
+      actorId: actor.id,
+      actorEmail: actor.email,
+      targetId: actor.id,
+      targetType: 'user',
+      metadata: { sessionId: req.params.id },
+      ip: req.ip || req.socket.remoteAddress || undefined,
+    })
+    .catch(() => undefined);
+}
+
+function logTwoFactorChange(req: Request, action: string, summary: string) {
+  const actor = getActor(req)!;
+  auditLogsService
+    .log({
+      action,
+      summary,
+      actorId: actor.id,
+      actorEmail: actor.email,
+      targetId: actor.id,
+      targetType: 'user',
+      ip: req.ip || req.socket.remoteAddress || undefined,
+    })
+    .catch(() => undefined);
+}
+
+/**
+ * Whether the signed-in user has two-factor authentication on, and whether
+ * they are required to.
+ */
+export async function getTwoFactor(req: Request, res: Response): Promise<void> {
+  const actor = getActor(req)!;
+  const data = await twoFactorService.status({
+    id: actor.id!,
+    permissions: actor.permissions ?? [],
+  });
+  res.json({ data });
+}
+
+/**
+ * Starts enrolment: returns a new secret and its provisioning URI for the
+ * authenticator app. 2FA stays off until `enableTwoFactor` confirms a code.
+ */
+export async function setupTwoFactor(req: Request, res: Response): Promise<void> {
+  const actor = getActor(req)!;
+  const user = await getRepositories().users.findById(actor.id!);
+  if (!user) {
+    res.status(404).json({ error: { message: 'User not found' } });
+    return;
+  }
+  const data = await twoFactorService.setup(user);
+  res.json({ data });
+}
+
+/**
+ * Switches 2FA on with a code from the new secret and returns the recovery
+ * codes. The user's other sessions never passed a second step, so they are
+ * signed out.
+ */
+export async function enableTwoFactor(req: Request, res: Response): Promise<void> {
+  const actor = getActor(req)!;
+  const recoveryCodes = await twoFactorService.enable(actor.id!, req.body.code);
+  if (actor.sessionId) {
+    await sessionService.revokeOthers(actor.id!, actor.sessionId, 'two_factor_enabled');
+  } else {
+    await sessionService.revokeAll(actor.id!, 'two_factor_enabled');
+  }
+  res.json({ data: { enabled: true, recoveryCodes } });
+  logTwoFactorChange(req, 'auth.2fa_enable', 'Two-factor authentication enabled');
+}
+
+/**
+ * Switches 2FA off after checking a current code.
+ */
+export async function disableTwoFactor(req: Request, res: Response): Promise<void> {
+  const actor = getActor(req)!;
+  await twoFactorService.disable(
+    { id: actor.id!, permissions: actor.permissions ?? [] },
+    req.body.code
+  );
+  res.json({ data: { enabled: false } });
+  logTwoFactorChange(req, 'auth.2fa_disable', 'Two-factor authentication disabled');
+}
+
+/**
+ * Replaces the user's recovery codes after checking a current code.
+ */
+export async function regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+  const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(
+    getActor(req)!.id!,
+    req.body.code
+  );
+  res.json({ data: { recoveryCodes } });
+  logTwoFactorChange(req, 'auth.2fa_recovery_codes', 'Two-factor recovery codes regenerated');
+}
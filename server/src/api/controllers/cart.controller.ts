@@ -0,0 +1,59 @@
+import type { CartOwner } from '@server/domain/cart';
+import { cartService } from '@server/services/cart';
+import type { Request, Response } from 'express';
+
+/**
+ * Cart of the request: the signed-in user's, else the guest cart named by a
+ * valid X-Cart-Token header. Without one a new guest cart is started; it is
+ * only stored once something is added, and its token comes back in the view.
+ */
+function getOwner(req: Request): CartOwner {
+  const userId = (req as any).user?.id as string | undefined;
+  if (userId) return { type: 'user', id: userId };
+  const token = req.get('X-Cart-Token');
+  return (token && cartService.verifyGuestToken(token)) || cartService.newGuest();
+}
+
+export async function getCart(req: Request, res: Response): Promise<void> {
+  const data = await cartService.get(getOwner(req));
+  res.json({ data });
+}
+
+export async function addItem(req: Request, res: Response): Promise<void> {
+  const data = await cartService.addItem(getOwner(req), req.body);
+  res.status(201).json({ data });
+}
+
+export async function updateItem(req: Request, res: Response): Promise<void> {
+  const data = await cartService.setQuantity(getOwner(req), req.params.line, req.body.quantity);
+  res.json({ data });
+}
+
+export async function removeItem(req: Request, res: Response): Promise<void> {
+  const data = await cartService.removeItem(getOwner(req), req.params.line);
+  res.json({ data });
+}
+
+export async function clearCart(req: Request, res: Response): Promise<void> {
+  const data = await cartService.clear(getOwner(req));
+  res.json({ data });
+}
+
+export async function acceptPrices(req: Request, res: Response): Promise<void> {
+  const data = await cartService.acceptPrices(getOwner(req));
+  res.json({ data });
+}
+
+/**
+ * Merge the guest cart named by `cartToken` into the signed-in user's cart,
+ * e.g. right after login.
+ */
+export async function mergeCart(req: Request, res: Response): Promise<void> {
+  const guest = cartService.verifyGuestToken(req.body.cartToken);
+  if (!guest) {
+    res.status(400).json({ error: { message: 'Invalid cart token' } });
+    return;
+  }
+  const data = await cartService.merge((req as any).user.id as string, guest);
+  res.json({ data });
+}
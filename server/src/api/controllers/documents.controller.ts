@@ -0,0 +1,61 @@
+/**
+ * Documents Controller
+ *
+ * HTTP request handlers serving an order's paperwork (invoice, packing slip,
+ * receipt) as PDF files.
+ *
+ * @fileoverview Order document HTTP controllers
+ * @module api/controllers/DocumentsController
+ */
+
+import type { DocumentsService, OrderDocumentKind } from '@server/services/documents';
+import type { PaymentActor } from '@server/services/payments';
+import type { Request, Response } from 'express';
+import { logError } from '../../utils/logger';
+import { hasStaffPermission } from '../middleware/auth';
+import { respondWithError } from './order.controller';
+
+/** Staff who see orders may download any order's documents */
+async function getActor(req: Request): Promise<PaymentActor> {
+  const user = (req as any).user as { id: string; email: string } | undefined;
+  const isAdmin = await hasStaffPermission(req, 'orders:read');
+  return { id: user?.id, email: user?.email, isAdmin };
+}
+
+/**
+ * Controller class for order documents
+ *
+ * @class DocumentsController
+ */
+export class DocumentsController {
+  /**
+   * @param {DocumentsService} documentsService - Documents service for rendering
+   */
+  constructor(private readonly documentsService: DocumentsService) {}
+
+  /**
+   * Send one of an order's documents as a PDF, shown in the browser unless
+   * `?download=1` asks for a file download
+   *
+   * @route GET /api/orders/:id/invoice.pdf (also packing-slip.pdf, receipt.pdf)
+   * @access Private (owner or orders:read)
+   */
+  async download(req: Request, res: Response, kind: OrderDocumentKind): Promise<void> {
+    try {
+      const { filename, pdf } = await this.documentsService.render(
+        req.params.id,
+        kind,
+        await getActor(req)
+      );
+      const disposition = req.query.download ? 'attachment' : 'inline';
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `${disposition}; filename="${filename}"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.send(pdf);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(`Failed to render ${kind}`);
+      logError(`Failed to render ${kind}`, err, { orderId: req.params.id });
+      respondWithError(res, err, 500);
+    }
+  }
+}
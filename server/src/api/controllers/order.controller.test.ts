@@ -0,0 +1,107 @@
+import { app } from '@server/app';
+import { loadEnv } from '@server/config/env';
+import { getRepositories } from '@server/data';
+import { PaymentMethod } from '@server/domain/orders';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Order routes bind the repositories active when the app is imported, so the
+// suite seeds those rather than swapping in a fresh set.
+let mugId: string;
+
+beforeAll(async () => {
+  const mug = await getRepositories().products.create({
+    name: 'Clay mug',
+    price: 12,
+    category: 'mugs',
+    rating: 0,
+    stock: 500,
+  });
+  mugId = mug.id;
+});
+
+describe('POST /api/v1/orders/quote', () => {
+  it('prices a cart', async () => {
+    const res = await request(app)
+      .post('/api/v1/orders/quote')
+      .send({ items: [{ productId: mugId, quantity: 2 }] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.subtotal).toBe(24);
+  });
+
+  it('rejects a quantity larger than a cart line holds', async () => {
+    const res = await request(app)
+      .post('/api/v1/orders/quote')
+      .send({ items: [{ productId: mugId, quantity: 100 }] });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('staff access to orders with ADMIN_2FA_REQUIRED', () => {
+  const admin = { id: 'admin-1', email: 'admin@example.com', role: 'admin' };
+  const bearer = `Bearer ${jwt.sign(admin, loadEnv().JWT_SECRET)}`;
+  let orderId: string;
+
+  beforeEach(async () => {
+    vi.stubEnv('ADMIN_2FA_REQUIRED', 'true');
+    await getRepositories().twoFactor.remove(admin.id);
+    const order = await getRepositories().orders.create(
+      {
+        items: [{ productId: mugId, quantity: 1 }],
+        paymentMethod: PaymentMethod.CREDIT_CARD,
+        shippingAddress: {
+          fullName: 'Ada Lovelace',
+          street: '12 Analytical Row',
+          city: 'London',
+          state: 'LDN',
+          postalCode: 'N1 9GU',
+          country: 'GB',
+        },
+      },
+      'customer-1',
+      'ada@example.com'
+    );
+    orderId = order.id;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it.each([
+    ['view the order', () => request(app).get(`/api/v1/orders/${orderId}`)],
+    [
+      'change its status',
+      () => request(app).put(`/api/v1/orders/${orderId}`).send({ status: 'delivered' }),
+    ],
+    ['cancel it', () => request(app).post(`/api/v1/orders/${orderId}/cancel`)],
+    ['download its invoice', () => request(app).get(`/api/v1/orders/${orderId}/invoice.pdf`)],
+    ['read its timeline', () => request(app).get(`/api/v1/orders/${orderId}/timeline`)],
+  ])('refuses an admin without two-factor authentication to %s', async (_action, send) => {
+    const res = await send().set('Authorization', bearer);
+
+    expect(res.status).toBe(403);
+    expect(res.body.error.code).toBe('TWO_FACTOR_REQUIRED');
+    expect((await getRepositories().orders.findById(orderId))?.status).toBe('pending');
+  });
+
+  it('lets the admin in once they have enrolled', async () => {
+    await getRepositories().twoFactor.save({
+      userId: admin.id,
+      secret: 'JBSWY3DPEHPK3PXP',
+      pendingSecret: null,
+      enabledAt: Date.now(),
+      recoveryCodes: [],
+      lastUsedStep: 0,
+      updatedAt: Date.now(),
+    });
+
+    const res = await request(app).get(`/api/v1/orders/${orderId}`).set('Authorization', bearer);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.id).toBe(orderId);
+  });
+});
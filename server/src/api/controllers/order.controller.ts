@@ -10,8 +10,14 @@
 
 import type { OrderService } from '@server/services/orders';
 import type { Request, Response } from 'express';
-import type { CreateOrderInput, OrderStatus, UpdateOrderInput } from '../../domain/orders';
+import type {
+  CreateOrderInput,
+  OrderStatus,
+  QuoteOrderInput,
+  UpdateOrderInput,
+} from '../../domain/orders';
 import { logError } from '../../utils/logger';
+import { hasStaffPermission } from '../middleware/auth';
 
 /**
  * Interface for authenticated request with user data
@@ -20,7 +26,7 @@ interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     email: string;
-    role: string;
+    permissions: string[];
   };
 }
 
@@ -55,12 +61,19 @@ function inferStatusFromMessage(message: string | undefined): number | undefined
   return undefined;
 }
 
-function respondWithError(res: Response, error: Error, fallback: number): void {
+/**
+ * Send `{ success: false, message }` with the error's HTTP status (or a best guess).
+ * Errors carrying a `code` also get `error: { message, code }`, where the client
+ * looks for codes such as TWO_FACTOR_REQUIRED.
+ */
+export function respondWithError(res: Response, error: Error, fallback: number): void {
   const inferred = inferStatusFromMessage(error.message);
   const status = extractStatus(error, inferred ?? fallback);
+  const code = (error as any)?.code;
   res.status(status).json({
     success: false,
     message: error.message,
+    ...(typeof code === 'string' ? { error: { message: error.message, code } } : {}),
   });
 }
 
@@ -114,6 +127,30 @@ export class OrderController {
     }
   }
 
+  /**
+   * Price a cart with the same rules used when the order is placed
+   *
+   * @route POST /api/orders/quote
+   * @access Public
+   * @param {Request} req - Express request with cart lines and optional destination
+   * @param {Response} res - Express response
+   * @returns {Promise<void>}
+   */
+  async quoteOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const input: QuoteOrderInput = req.body;
+      const quote = await this.orderService.quoteOrder(input);
+
+      res.json({
+        success: true,
+        data: quote,
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Failed to quote order');
+      respondWithError(res, err, 400);
+    }
+  }
+
   /**
    * Get an order by ID
    *
@@ -127,7 +164,7 @@ export class OrderController {
     try {
       const { id } = req.params;
       const userId = req.user!.id;
-      const isAdmin = req.user!.role === 'admin';
+      const isAdmin = await hasStaffPermission(req, 'orders:read');
 
       const order = await this.orderService.getOrder(id, userId, isAdmin);
 
@@ -190,10 +227,10 @@ export class OrderController {
   }
 
   /**
-   * Get all orders (admin only)
+   * Get all orders (staff)
    *
    * @route GET /api/orders
-   * @access Private (Admin)
+   * @access Private (orders:read)
    * @param {AuthenticatedRequest} req - Express request with authenticated user
    * @param {Response} res - Express response
    * @returns {Promise<void>}
@@ -239,7 +276,7 @@ export class OrderController {
     try {
       const { id } = req.params;
       const userId = req.user!.id;
-      const isAdmin = req.user!.role === 'admin';
+      const isAdmin = await hasStaffPermission(req, 'orders:fulfil');
       const updateData: UpdateOrderInput = req.body;
 
       const order = await this.orderService.updateOrder(id, updateData, userId, isAdmin);
@@ -272,7 +309,7 @@ export class OrderController {
     try {
       const { id } = req.params;
       const userId = req.user!.id;
-      const isAdmin = req.user!.role === 'admin';
+      const isAdmin = await hasStaffPermission(req, 'orders:fulfil');
 
       const order = await this.orderService.cancelOrder(id, userId, isAdmin);
 
@@ -292,10 +329,10 @@ export class OrderController {
   }
 
   /**
-   * Delete an order (admin only)
+   * Delete an order (staff)
    *
    * @route DELETE /api/orders/:id
-   * @access Private (Admin)
+   * @access Private (orders:fulfil)
    * @param {AuthenticatedRequest} req - Express request with authenticated user
    * @param {Response} res - Express response
    * @returns {Promise<void>}
@@ -304,7 +341,7 @@ export class OrderController {
     try {
       const { id } = req.params;
 
-      await this.orderService.deleteOrder(id);
+      await this.orderService.deleteOrder(id, { id: req.user?.id, email: req.user?.email });
 
       res.json({
         success: true,
@@ -321,10 +358,10 @@ export class OrderController {
   }
 
   /**
-   * Get order statistics (admin only)
+   * Get order statistics (staff)
    *
    * @route GET /api/orders/stats
-   * @access Private (Admin)
+   * @access Private (reports:read)
    * @param {AuthenticatedRequest} req - Express request with authenticated user
    * @param {Response} res - Express response
    * @returns {Promise<void>}
@@ -0,0 +1,81 @@
+/**
+ * Order Timeline Controller
+ *
+ * HTTP request handlers for an order's history and staff comments.
+ *
+ * @fileoverview Order timeline HTTP controllers
+ * @module api/controllers/OrderTimelineController
+ */
+
+import type { OrderTimelineService } from '@server/services/orders';
+import { auditLogsService } from '@server/services/monitoring';
+import type { PaymentActor } from '@server/services/payments';
+import type { Request, Response } from 'express';
+import { logError } from '../../utils/logger';
+import { hasStaffPermission } from '../middleware/auth';
+import { respondWithError } from './order.controller';
+
+/** Staff who see orders get every order's full timeline */
+async function getActor(req: Request): Promise<PaymentActor> {
+  const user = (req as any).user as { id: string; email: string } | undefined;
+  const isAdmin = await hasStaffPermission(req, 'orders:read');
+  return { id: user?.id, email: user?.email, isAdmin };
+}
+
+/**
+ * Controller class for order timelines
+ *
+ * @class OrderTimelineController
+ */
+export class OrderTimelineController {
+  /**
+   * @param {OrderTimelineService} timelineService - Order timeline service for business logic
+   */
+  constructor(private readonly timelineService: OrderTimelineService) {}
+
+  /**
+   * List an order's timeline, newest first
+   *
+   * @route GET /api/orders/:id/timeline
+   * @access Private (owner or staff; internal comments for staff only)
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const data = await this.timelineService.list(req.params.id, await getActor(req));
+      res.json({ success: true, data });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Failed to load order timeline');
+      logError('Failed to load order timeline', err, { orderId: req.params.id });
+      respondWithError(res, err, 500);
+    }
+  }
+
+  /**
+   * Leave an internal comment on an order
+   *
+   * @route POST /api/orders/:id/timeline/comments
+   * @access Private (orders:read)
+   */
+  async addComment(req: Request, res: Response): Promise<void> {
+    try {
+      const actor = await getActor(req);
+      const entry = await this.timelineService.addComment(req.params.id, actor, req.body.body);
+      auditLogsService
+        .log({
+          action: 'order.comment.created',
+          summary: `Commented on order ${entry.orderId}${entry.mentions?.length ? ` mentioning ${entry.mentions.map((m) => m.email).join(', ')}` : ''}`,
+          actorId: actor.id,
+          actorEmail: actor.email,
+          targetId: entry.orderId,
+          targetType: 'order',
+          metadata: { entryId: entry.id, mentions: entry.mentions?.map((m) => m.userId) ?? [] },
+        })
+        .catch(() => undefined);
+      res.status(201).json({ success: true, data: entry, message: 'Comment added' });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Failed to add comment');
+      logError('Failed to add order comment', err, { orderId: req.params.id });
+      respondWithError(res, err, 400);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Payment Controller
+ *
+ * HTTP request handlers for paying for orders, admin payment operations and
+ * the payment provider's webhook.
+ *
+ * @fileoverview Payment HTTP controllers
+ * @module api/controllers/PaymentController
+ */
+
+import type { PaymentWebhookEvent } from '@server/domain/payments';
+import {
+  getMockPaymentGateway,
+  getPaymentWebhookSecret,
+  PAYMENT_SIGNATURE_HEADER,
+  type PaymentActor,
+  type PaymentService,
+  verifyWebhookSignature,
+} from '@server/services/payments';
+import type { Request, Response } from 'express';
+import { logError } from '../../utils/logger';
+import { hasStaffPermission } from '../middleware/auth';
+import { respondWithError } from './order.controller';
+
+async function getActor(req: Request): Promise<PaymentActor> {
+  const user = (req as any).user as { id: string; email: string } | undefined;
+  const isAdmin = await hasStaffPermission(req, 'payments:manage');
+  return { id: user?.id, email: user?.email, isAdmin };
+}
+
+/**
+ * Controller class for payment operations
+ *
+ * @class PaymentController
+ */
+export class PaymentController {
+  /**
+   * @param {PaymentService} paymentService - Payment service for business logic
+   */
+  constructor(private readonly paymentService: PaymentService) {}
+
+  /**
+   * Authorize payment for the caller's order
+   *
+   * @route POST /api/orders/:id/payment
+   * @access Private (owner)
+   */
+  async authorize(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await this.paymentService.authorize(
+        req.params.id,
+        await getActor(req),
+        req.body?.token
+      );
+      res.json({ success: true, data: order });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Failed to process payment');
+      logError('Failed to authorize payment', err, { orderId: req.params.id });
+      respondWithError(res, err, 400);
+    }
+  }
+
+  /**
+   * Capture, refund or void the order's payment
+   *
+   * @route POST /api/orders/:id/payment/(capture|refund|void)
+   * @access Private (payments:manage)
+   */
+  async adjust(req: Request, res: Response, action: 'capture' | 'refund' | 'void'): Promise<void> {
+    try {
+      const actor = await getActor(req);
+      const amount = req.body?.amount as number | undefined;
+      const order =
+        action === 'void'
+          ? await this.paymentService.void(req.params.id, actor)
+          : await this.paymentService[action](req.params.id, actor, amount);
+      res.json({ success: true, data: order });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(`Failed to ${action} payment`);
+      logError(`Failed to ${action} payment`, err, { orderId: req.params.id });
+      respondWithError(res, err, 400);
+    }
+  }
+
+  /**
+   * Receive a signed event from the payment provider
+   *
+   * @route POST /api/payments/webhook
+   * @access Public (signature verified)
+   */
+  async webhook(req: Request, res: Response): Promise<void> {
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    const signature = req.get(PAYMENT_SIGNATURE_HEADER);
+    if (
+      !rawBody ||
+      !verifyWebhookSignature(rawBody.toString('utf8'), signature, getPaymentWebhookSecret())
+    ) {
+      res.status(400).json({ success: false, message: 'Invalid webhook signature' });
+      return;
+    }
+
+    try {
+      await this.paymentService.handleWebhookEvent(req.body as PaymentWebhookEvent);
+      res.json({ success: true });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Failed to handle webhook');
+      logError('Failed to handle payment webhook', err, { eventId: req.body?.id });
+      respondWithError(res, err, 500);
+    }
+  }
+
+  /**
+   * Answer a mock 3-D Secure challenge. Only mounted with the mock gateway.
+   *
+   * @route POST /api/payments/mock/:paymentId/challenge
+   * @access Public
+   */
+  async completeMockChallenge(req: Request, res: Response): Promise<void> {
+    const gateway = getMockPaymentGateway();
+    if (!gateway) {
+      res.status(404).json({ success: false, message: 'Not Found' });
+      return;
+    }
+    try {
+      const result = await gateway.completeChallenge(
+        req.params.paymentId,
+        req.body?.approve === true
+      );
+      res.json({ success: true, data: result });
+    } catch (error) {
+      const err = error as any;
+      const status =
+        err?.code === 'PAYMENT_NOT_FOUND' ? 404 : err?.code === 'PAYMENT_INVALID_STATE' ? 409 : 500;
+      res.status(status).json({ success: false, message: err?.message ?? 'Challenge failed' });
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { app } from '@server/app';
+import { createMemoryRepositories, setRepositories } from '@server/data';
+import { createMemoryStore } from '@server/data/memory/store';
+import request from 'supertest';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+beforeEach(async () => {
+  const store = createMemoryStore();
+  setRepositories(createMemoryRepositories(store));
+  const now = Date.now();
+  const seed = [
+    { id: 'old', name: 'Clay mug', price: 12, createdAt: now - 3 * DAY_MS },
+    { id: 'new', name: 'Glass mug', price: 18, createdAt: now - DAY_MS },
+    { id: 'mid', name: 'Tin mug', price: 9, createdAt: now - 2 * DAY_MS },
+  ];
+  for (const product of seed) {
+    store.products.set(product.id, { ...product, category: 'mugs', rating: 0, stock: 3 });
+  }
+});
+
+describe('GET /api/v1/products', () => {
+  it('lists newest first for relevance without a text query', async () => {
+    const res = await request(app).get('/api/v1/products').query({ sort: 'relevance' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.map((p: { id: string }) => p.id)).toEqual(['new', 'mid', 'old']);
+  });
+
+  it('sorts by the requested field', async () => {
+    const res = await request(app).get('/api/v1/products').query({ sort: 'price-asc' });
+
+    expect(res.body.data.map((p: { id: string }) => p.id)).toEqual(['mid', 'old', 'new']);
+  });
+});
+
+describe('GET /api/v1/products/search', () => {
+  it('lists newest first for relevance without a text query', async () => {
+    const res = await request(app).get('/api/v1/products/search').query({ sort: 'relevance' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.map((p: { id: string }) => p.id)).toEqual(['new', 'mid', 'old']);
+  });
+});
@@ -1,73 +1,142 @@
 import { deleteAssetsByUrls } from '@server/services/integrations';
 import { auditLogsService } from '@server/services/monitoring';
-import { productsService } from '@server/services/products';
+import { productsService, productTransferService } from '@server/services/products';
 import type { Request, Response } from 'express';
-import type { Product } from '../../domain/product';
+import type { UploadedFile } from 'express-fileupload';
+import type { ProductPatch } from '../../domain/product';
+import {
+  type ImportRecord,
+  PRODUCT_TRANSFER_COLUMNS,
+  type ProductImportRow,
+  type ProductTransferField,
+  type ProductTransferFormat,
+} from '../../domain/productImport';
+import { PRICE_BUCKETS, type ProductSearchParams } from '../../domain/search';
+import {
+  type ProductListQuery,
+  type ProductSearchQuery,
+  type ProductSortKey,
+  type ProductSuggestQuery,
+  productImportRowSchema,
+} from '../validators/products.schema';
 
 function getActor(req: Request) {
   return (req as any).user as { id?: string; email?: string } | undefined;
 }
 
+const SORTS: Record<Exclude<ProductSortKey, 'relevance'>, ProductSearchParams['sort']> = {
+  'price-asc': { field: 'price', dir: 'asc' },
+  'price-desc': { field: 'price', dir: 'desc' },
+  'name-asc': { field: 'name', dir: 'asc' },
+  'name-desc': { field: 'name', dir: 'desc' },
+  newest: { field: 'createdAt', dir: 'desc' },
+};
+
 /**
- * Controller action to list products and send them as a JSON response.
- *
- * Parses the incoming request query for an optional structured `sort` object
- * (e.g. `?sort[field]=price&sort[dir]=asc`) and forwards a safe, typed sort
- * descriptor to `productsService.list`. The parsed `sort` will be of the
- * shape `{ field: keyof Product; dir: 'asc' | 'desc' }` when present.
+ * Sort for a `sort` query value. Relevance leaves a text query ranked, and
+ * falls back to newest first when there is no text to rank against.
+ */
+function sortFor(key: ProductSortKey | undefined, q: string | undefined) {
+  if (key !== 'relevance') return key && SORTS[key];
+  return q?.trim() ? undefined : SORTS.newest;
+}
+
+/**
+ * Controller action to list one page of products and send it as a JSON response.
  *
- * Parsing rules:
- * - The controller accepts `sort` only when `req.query.sort` is an object.
- * - `field` is cast to `keyof Product` (caller must ensure the field name is valid).
- * - `dir` defaults to `'asc'` unless the parsed value strictly equals `'desc'`.
- * - If `sort` is absent or not an object, `undefined` is passed to the service.
+ * Reads flat query parameters already validated by `productListQuerySchema`:
+ * - `sort`: `relevance` or one of the keys of SORTS (e.g. `price-asc`,
+ *   `newest`); relevance without `q` lists newest first. Ties and unsorted
+ *   lists are ordered by product ID.
+ * - `q`, `category`, `minPrice`, `maxPrice` and `price` (a price bucket key
+ *   from the search facets) filter the list; `q` ranks through the search index.
+ * - `limit` and `cursor` page through the results. Pass back `nextCursor` or
+ *   `prevCursor` from the previous response with the same sort and filters.
  *
- * Behavior:
- * - Calls `productsService.list(sort)` and returns the result in the response body
- *   as a JSON object: `{ data }`.
- * - This function is asynchronous and returns a `Promise<void>`. Any errors thrown
- *   by the service will propagate and should be handled by upstream error-handling
- *   middleware.
+ * Responds with `{ data, meta: { total, limit, nextCursor, prevCursor } }`. A
+ * cursor issued for different sort or filter values is rejected with 400.
  *
- * @param req - Express request object. Expects optional structured query under `req.query.sort`.
- * @param res - Express response object. Sends a JSON response containing `{ data }`.
+ * @param req - Express request object with the listing query parameters.
+ * @param res - Express response object. Sends the page and its cursors.
  * @returns A promise that resolves when the response has been sent.
  *
- * @remarks
- * - The implementation relies on a safe cast because Express's query parsing is untyped.
- * - Validate or sanitize `field` elsewhere if you need to enforce that it is one of a
- *   whitelisted set of product properties.
- *
  * @example
- * // Request: GET /products?sort[field]=price&sort[dir]=desc
- * // Service receives: { field: 'price', dir: 'desc' }
+ * // Request: GET /products?sort=price-desc&category=ceramics&limit=12
+ * // Next page: GET /products?sort=price-desc&category=ceramics&limit=12&cursor=<nextCursor>
  */
 export async function list(req: Request, res: Response): Promise<void> {
-  const q: any = req.query;
-  let sort: { field: keyof Product; dir: 'asc' | 'desc' } | undefined;
-  if (q?.sort && typeof q.sort === 'object') {
-    const field = q.sort.field as keyof Product;
-    const dir: 'asc' | 'desc' = q.sort.dir === 'desc' ? 'desc' : 'asc';
-    sort = { field, dir };
-  }
-  const filter =
-    q?.filter && typeof q.filter === 'object'
-      ? {
-          q: typeof q.filter.q === 'string' ? q.filter.q : undefined,
-          category: typeof q.filter.category === 'string' ? q.filter.category : undefined,
-          minPrice: q.filter.minPrice != null ? Number(q.filter.minPrice) : undefined,
-          maxPrice: q.filter.maxPrice != null ? Number(q.filter.maxPrice) : undefined,
-        }
-      : undefined;
-  const page = q?.page != null ? Number(q.page) : undefined;
-  const pageSize = q?.pageSize != null ? Number(q.pageSize) : undefined;
-  const result = await productsService.list({ sort, filter, page, pageSize });
+  const q = req.query as unknown as ProductListQuery;
+  const bucket = PRICE_BUCKETS.find((b) => b.key === q.price);
+  const { minPrice, limit } = q;
+  const result = await productsService.list({
+    sort: sortFor(q.sort, q.q),
+    filter: {
+      q: q.q || undefined,
+      category: q.category,
+      minPrice: bucket ? Math.max(bucket.min, minPrice ?? 0) : minPrice,
+      maxPrice: q.maxPrice,
+      priceBelow: bucket?.max,
+    },
+    limit,
+    cursor: q.cursor,
+  });
+  res.json({
+    data: result.data,
+    meta: {
+      total: result.total,
+      limit,
+      nextCursor: result.nextCursor,
+      prevCursor: result.prevCursor,
+    },
+  });
+}
+
+/**
+ * Ranked full-text search with facet counts. The query has already been
+ * validated by `productSearchQuerySchema`, so values arrive typed.
+ *
+ * Responds with `{ data, meta: { total, page, pageSize, facets, scores } }`.
+ */
+export async function search(req: Request, res: Response): Promise<void> {
+  const q = req.query as unknown as ProductSearchQuery;
+  const { page, pageSize } = q;
+  const result = await productsService.search({
+    q: q.q || undefined,
+    category: q.category,
+    priceBucket: q.price,
+    minPrice: q.minPrice,
+    maxPrice: q.maxPrice,
+    sort: sortFor(q.sort, q.q),
+    page,
+    pageSize,
+  });
   res.json({
     data: result.data,
-    meta: { total: result.total, page: page ?? 1, pageSize: pageSize ?? 20 },
+    meta: { total: result.total, page, pageSize, facets: result.facets, scores: result.scores },
   });
 }
 
+export async function suggest(req: Request, res: Response): Promise<void> {
+  const q = req.query as unknown as ProductSuggestQuery;
+  const data = await productsService.suggest(q.q, q.limit);
+  res.json({ data });
+}
+
+export async function rebuildSearchIndex(req: Request, res: Response): Promise<void> {
+  const indexed = await productsService.rebuildSearchIndex();
+  res.json({ data: { indexed } });
+  const actor = getActor(req);
+  auditLogsService
+    .log({
+      action: 'product.search.reindex',
+      summary: `Rebuilt the product search index (${indexed} products)`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetType: 'product',
+    })
+    .catch(() => undefined);
+}
+
 export async function getById(req: Request, res: Response): Promise<void> {
   const data = await productsService.getById(req.params.id);
   if (!data) {
@@ -78,9 +147,9 @@ export async function getById(req: Request, res: Response): Promise<void> {
 }
 
 export async function create(req: Request, res: Response): Promise<void> {
-  const data = await productsService.create(req.body);
-  res.status(201).json({ data });
   const actor = getActor(req);
+  const data = await productsService.create(req.body, actor);
+  res.status(201).json({ data });
   auditLogsService
     .log({
       action: 'product.create',
@@ -97,7 +166,7 @@ export async function create(req: Request, res: Response): Promise<void> {
 export async function update(req: Request, res: Response): Promise<void> {
   const id = req.params.id;
   // If images are changing, compute removed files and clean them up
-  const patch = req.body as Partial<Product>;
+  const patch = req.body as ProductPatch;
   let removed: string[] = [];
   if (patch && Object.hasOwn(patch, 'images')) {
     const before = await productsService.getById(id);
@@ -105,10 +174,10 @@ export async function update(req: Request, res: Response): Promise<void> {
     const next: string[] = Array.isArray(patch.images) ? patch.images : prev;
     removed = prev.filter((url) => !next.includes(url));
   }
-  const data = await productsService.update(id, patch);
+  const actor = getActor(req);
+  const data = await productsService.update(id, patch, actor);
   if (removed.length) await deleteAssetsByUrls(removed);
   res.json({ data });
-  const actor = getActor(req);
   auditLogsService
     .log({
       action: 'product.update',
@@ -144,6 +213,122 @@ export async function remove(req: Request, res: Response): Promise<void> {
     .catch(() => undefined);
 }
 
+/**
+ * The import file and its format: a multipart upload named `file`, a raw
+ * `text/csv` body, or a JSON body. An explicit `format` query wins over the
+ * file name and content type.
+ */
+function readImportPayload(req: Request): { payload: unknown; format: ProductTransferFormat } {
+  const requested = (req.query as any).format as ProductTransferFormat | undefined;
+  const files = (req as any).files as undefined | { file?: UploadedFile | UploadedFile[] };
+  const file = Array.isArray(files?.file) ? files.file[0] : files?.file;
+  if (file) {
+    const looksJson = /\.json$/i.test(file.name) || file.mimetype === 'application/json';
+    return {
+      payload: Buffer.isBuffer(file.data) ? file.data.toString('utf8') : '',
+      format: requested ?? (looksJson ? 'json' : 'csv'),
+    };
+  }
+  if (typeof req.body === 'string') return { payload: req.body, format: requested ?? 'csv' };
+  if (req.body && typeof req.body === 'object' && Object.keys(req.body).length > 0) {
+    return { payload: req.body, format: 'json' };
+  }
+  throw Object.assign(new Error('Upload a CSV or JSON file to import'), { status: 400 });
+}
+
+/** Validate one record; `fields` are the known columns the record sets */
+function toImportRow({ line, data }: ImportRecord): ProductImportRow {
+  const sku = typeof data.sku === 'string' ? data.sku.trim() || undefined : undefined;
+  const fields = PRODUCT_TRANSFER_COLUMNS.filter(
+    (column): column is ProductTransferField =>
+      column !== 'id' && column !== 'sku' && data[column] !== undefined
+  );
+  const { value, error } = productImportRowSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true,
+    convert: true,
+  });
+  if (error) {
+    return {
+      line,
+      sku,
+      fields,
+      errors: error.details.map((d) => ({
+        field: d.path.join('.') || 'row',
+        message: d.message.replace(/"/g, ''),
+      })),
+    };
+  }
+  return { line, sku: value.sku, product: value, fields, errors: [] };
+}
+
+/**
+ * Bulk create and update products by SKU from a CSV or JSON file.
+ *
+ * Every row is validated and matched before anything is written. With
+ * `?dryRun=true`, or when any row is invalid, nothing is saved and the report
+ * shows what each row would do; invalid rows on a real run answer 422.
+ *
+ * Responds with `{ data: { dryRun, applied, summary, rows } }`, where each row
+ * has its action (`create`, `update`, `unchanged` or `error`), the changed
+ * fields with their old and new values, and any errors.
+ */
+export async function importProducts(req: Request, res: Response): Promise<void> {
+  const { payload, format } = readImportPayload(req);
+  const dryRun = String((req.query as any).dryRun) === 'true';
+  const rows = productTransferService.parseImport(payload, format).map(toImportRow);
+  const actor = getActor(req);
+  const report = await productTransferService.importProducts(rows, { dryRun, actor });
+  res.status(report.applied || dryRun ? 200 : 422).json({ data: report });
+  if (!report.applied) return;
+  auditLogsService
+    .log({
+      action: 'product.import',
+      summary: `Imported products: ${report.summary.create} created, ${report.summary.update} updated`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetType: 'product',
+      metadata: { format, ...report.summary },
+    })
+    .catch(() => undefined);
+}
+
+/**
+ * Download the whole catalog in the import format (`?format=csv|json`),
+ * streamed a page of products at a time.
+ */
+export async function exportProducts(req: Request, res: Response): Promise<void> {
+  const format = ((req.query as any).format ?? 'csv') as ProductTransferFormat;
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader(
+    'Content-Type',
+    format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8'
+  );
+  res.setHeader('Content-Disposition', `attachment; filename="products-${date}.${format}"`);
+  try {
+    for await (const chunk of productTransferService.exportProducts(format)) {
+      if (!res.write(chunk)) await new Promise((resolve) => res.once('drain', resolve));
+    }
+  } catch (error) {
+    // Headers are gone once the first chunk is out; cut the download short
+    if (!res.headersSent) throw error;
+    res.destroy(error as Error);
+    return;
+  }
+  res.end();
+  const actor = getActor(req);
+  auditLogsService
+    .log({
+      action: 'product.export',
+      summary: `Exported products as ${format.toUpperCase()}`,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetType: 'product',
+      metadata: { format },
+    })
+    .catch(() => undefined);
+}
+
 export async function stats(_req: Request, res: Response): Promise<void> {
   const data = await productsService.stats();
   res.json({ data });
@@ -0,0 +1,44 @@
+import { profileService } from '@server/services/account';
+import type { Request, Response } from 'express';
+
+function getUserId(req: Request): string {
+  return (req as any).user.id as string;
+}
+
+export async function getProfile(req: Request, res: Response): Promise<void> {
+  const data = await profileService.get(getUserId(req));
+  res.json({ data });
+}
+
+export async function updateProfile(req: Request, res: Response): Promise<void> {
+  const data = await profileService.update(getUserId(req), req.body);
+  res.json({ data });
+}
+
+/**
+ * The user's saved addresses, default first.
+ */
+export async function listAddresses(req: Request, res: Response): Promise<void> {
+  const data = await profileService.listAddresses(getUserId(req));
+  res.json({ data });
+}
+
+export async function addAddress(req: Request, res: Response): Promise<void> {
+  const data = await profileService.addAddress(getUserId(req), req.body);
+  res.status(201).json({ data });
+}
+
+export async function updateAddress(req: Request, res: Response): Promise<void> {
+  const data = await profileService.updateAddress(getUserId(req), req.params.id, req.body);
+  res.json({ data });
+}
+
+export async function removeAddress(req: Request, res: Response): Promise<void> {
+  await profileService.removeAddress(getUserId(req), req.params.id);
+  res.status(204).send();
+}
+
+export async function setDefaultAddress(req: Request, res: Response): Promise<void> {
+  const data = await profileService.setDefaultAddress(getUserId(req), req.params.id);
+  res.json({ data });
+}
@@ -0,0 +1,95 @@
+/**
+ * Returns Controller
+ *
+ * HTTP request handlers for customers requesting returns on their orders.
+ * Admin approval lives with the other admin handlers.
+ *
+ * @fileoverview Return request HTTP controllers
+ * @module api/controllers/ReturnsController
+ */
+
+import type { CreateReturnInput } from '@server/domain/returns';
+import { auditLogsService } from '@server/services/monitoring';
+import type { PaymentActor } from '@server/services/payments';
+import type { ReturnsService } from '@server/services/returns';
+import type { Request, Response } from 'express';
+import { logError } from '../../utils/logger';
+import { hasStaffPermission } from '../middleware/auth';
+import { respondWithError } from './order.controller';
+
+/** Staff who see orders or handle returns may act on any order's returns */
+async function getActor(req: Request): Promise<PaymentActor> {
+  const user = (req as any).user as { id: string; email: string } | undefined;
+  const isAdmin = await hasStaffPermission(req, 'orders:read', 'returns:manage');
+  return { id: user?.id, email: user?.email, isAdmin };
+}
+
+/**
+ * Controller class for customer return requests
+ *
+ * @class ReturnsController
+ */
+export class ReturnsController {
+  /**
+   * @param {ReturnsService} returnsService - Returns service for business logic
+   */
+  constructor(private readonly returnsService: ReturnsService) {}
+
+  /**
+   * Request a return for items of the caller's delivered order
+   *
+   * @route POST /api/orders/:id/returns
+   * @access Private (owner)
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const actor = await getActor(req);
+      const request = await this.returnsService.request(
+        req.params.id,
+        actor,
+        req.body as CreateReturnInput
+      );
+      auditLogsService
+        .log({
+          action: 'order.return.requested',
+          summary: `Return requested for order ${request.orderId}`,
+          actorId: actor.id,
+          actorEmail: actor.email,
+          targetId: request.id,
+          targetType: 'return',
+          metadata: {
+            orderId: request.orderId,
+            items: request.items.map((i) => ({ productId: i.productId, quantity: i.quantity })),
+            itemsValue: request.itemsValue,
+          },
+        })
+        .catch(() => undefined);
+      res.status(201).json({
+        success: true,
+        data: request,
+        message: 'Return request submitted',
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Failed to request return');
+      logError('Failed to request return', err, { orderId: req.params.id });
+      respondWithError(res, err, 400);
+    }
+  }
+
+  /**
+   * List an order's return requests and refunds
+   *
+   * @route GET /api/orders/:id/returns
+   * @access Private (owner or admin)
+   */
+  async listForOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const data = await this.returnsService.listForOrder(req.params.id, await getActor(req));
+      res.json({ success: true, data });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Failed to load returns');
+      logError('Failed to load returns', err, { orderId: req.params.id });
+      respondWithError(res, err, 500);
+    }
+  }
+}
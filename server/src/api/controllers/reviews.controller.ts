@@ -0,0 +1,64 @@
+import type { CreateReviewInput, ReviewSort } from '@server/domain/reviews';
+import { auditLogsService } from '@server/services/monitoring';
+import { reviewsService } from '@server/services/reviews';
+import type { Request, Response } from 'express';
+
+function getUser(req: Request): { id: string; email: string } {
+  const user = (req as any).user as { id?: string; email?: string } | undefined;
+  if (!user?.id) {
+    const err = new Error('Unauthenticated');
+    (err as any).status = 401;
+    throw err;
+  }
+  return { id: user.id, email: user.email ?? '' };
+}
+
+/**
+ * A page of a product's approved reviews plus its rating summary. The query
+ * has already been validated by `reviewListQuerySchema`.
+ *
+ * Responds with `{ data, meta: { summary: { average, count, distribution }, nextCursor } }`.
+ *
+ * @example
+ * // Request: GET /products/abc123/reviews?sort=highest&limit=5
+ * // Next page: GET /products/abc123/reviews?sort=highest&limit=5&cursor=<nextCursor>
+ */
+export async function list(req: Request, res: Response): Promise<void> {
+  const q: any = req.query;
+  const result = await reviewsService.listForProduct(req.params.id, {
+    sort: q.sort as ReviewSort,
+    limit: Number(q.limit ?? 10),
+    cursor: q.cursor,
+  });
+  res.json({
+    data: result.data,
+    meta: { summary: result.summary, nextCursor: result.nextCursor },
+  });
+}
+
+/**
+ * The caller's own review of the product, whatever its moderation status, and
+ * whether they have a delivered order that allows them to write one.
+ */
+export async function mine(req: Request, res: Response): Promise<void> {
+  const user = getUser(req);
+  const data = await reviewsService.mine(req.params.id, user.id);
+  res.json({ data });
+}
+
+export async function create(req: Request, res: Response): Promise<void> {
+  const user = getUser(req);
+  const review = await reviewsService.submit(req.params.id, user, req.body as CreateReviewInput);
+  auditLogsService
+    .log({
+      action: 'product.review.submit',
+      summary: `Reviewed product ${review.productId} with ${review.rating} star(s)`,
+      actorId: user.id,
+      actorEmail: user.email,
+      targetId: review.id,
+      targetType: 'review',
+      metadata: { productId: review.productId, orderId: review.orderId, rating: review.rating },
+    })
+    .catch(() => undefined);
+  res.status(201).json({ data: review });
+}
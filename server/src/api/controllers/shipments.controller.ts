@@ -0,0 +1,122 @@
+/**
+ * Shipments Controller
+ *
+ * HTTP request handlers for shipping orders and following their tracking.
+ *
+ * @fileoverview Shipment HTTP controllers
+ * @module api/controllers/ShipmentsController
+ */
+
+import type { CreateShipmentInput } from '@server/domain/shipments';
+import { auditLogsService } from '@server/services/monitoring';
+import type { PaymentActor } from '@server/services/payments';
+import type { ShipmentsService } from '@server/services/shipments';
+import type { Request, Response } from 'express';
+import { logError } from '../../utils/logger';
+import { hasStaffPermission } from '../middleware/auth';
+import { respondWithError } from './order.controller';
+
+/** Staff who see or fulfil orders may act on any order's shipments */
+async function getActor(req: Request): Promise<PaymentActor> {
+  const user = (req as any).user as { id: string; email: string } | undefined;
+  const isAdmin = await hasStaffPermission(req, 'orders:read', 'orders:fulfil');
+  return { id: user?.id, email: user?.email, isAdmin };
+}
+
+/**
+ * Controller class for order shipments
+ *
+ * @class ShipmentsController
+ */
+export class ShipmentsController {
+  /**
+   * @param {ShipmentsService} shipmentsService - Shipments service for business logic
+   */
+  constructor(private readonly shipmentsService: ShipmentsService) {}
+
+  /**
+   * List the carriers orders can be shipped with
+   *
+   * @route GET /api/orders/carriers
+   * @access Private (orders:fulfil)
+   */
+  listCarriers(_req: Request, res: Response): void {
+    res.json({ success: true, data: this.shipmentsService.listCarriers() });
+  }
+
+  /**
+   * Ship units of an order
+   *
+   * @route POST /api/orders/:id/shipments
+   * @access Private (orders:fulfil)
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const actor = await getActor(req);
+      const shipment = await this.shipmentsService.create(
+        req.params.id,
+        actor,
+        req.body as CreateShipmentInput
+      );
+      auditLogsService
+        .log({
+          action: 'order.shipment.created',
+          summary: `Shipped ${shipment.items.reduce((sum, i) => sum + i.quantity, 0)} unit(s) of order ${shipment.orderId} with ${shipment.carrierName}`,
+          actorId: actor.id,
+          actorEmail: actor.email,
+          targetId: shipment.id,
+          targetType: 'shipment',
+          metadata: {
+            orderId: shipment.orderId,
+            carrier: shipment.carrier,
+            trackingNumber: shipment.trackingNumber,
+            items: shipment.items.map((i) => ({ productId: i.productId, quantity: i.quantity })),
+          },
+        })
+        .catch(() => undefined);
+      res.status(201).json({
+        success: true,
+        data: shipment,
+        message: 'Shipment created',
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Failed to create shipment');
+      logError('Failed to create shipment', err, { orderId: req.params.id });
+      respondWithError(res, err, 400);
+    }
+  }
+
+  /**
+   * List an order's shipments with their tracking events
+   *
+   * @route GET /api/orders/:id/shipments
+   * @access Private (owner or staff)
+   */
+  async listForOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const data = await this.shipmentsService.listForOrder(req.params.id, await getActor(req));
+      res.json({ success: true, data });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Failed to load shipments');
+      logError('Failed to load shipments', err, { orderId: req.params.id });
+      respondWithError(res, err, 500);
+    }
+  }
+
+  /**
+   * Fetch a shipment's latest tracking events from its carrier now
+   *
+   * @route POST /api/orders/shipments/:shipmentId/refresh
+   * @access Private (orders:fulfil)
+   */
+  async refresh(req: Request, res: Response): Promise<void> {
+    try {
+      const data = await this.shipmentsService.refresh(req.params.shipmentId, await getActor(req));
+      res.json({ success: true, data });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Failed to refresh tracking');
+      logError('Failed to refresh tracking', err, { shipmentId: req.params.shipmentId });
+      respondWithError(res, err, 502);
+    }
+  }
+}
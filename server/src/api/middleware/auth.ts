@@ -1,7 +1,13 @@
-// JWT verification and role guard middleware
+// JWT verification and permission guard middleware
 
 import { loadEnv } from '@server/config/env';
-import { tokenRevocationService } from '@server/services/auth';
+import type { Permission } from '@server/domain/roles';
+import {
+  rolesService,
+  sessionService,
+  tokenRevocationService,
+  twoFactorService,
+} from '@server/services/auth';
 import { logSuspiciousActivity } from '@server/utils/securityLogger';
 import type { NextFunction, Request, Response } from 'express';
 import jwt, { type JwtPayload } from 'jsonwebtoken';
@@ -13,12 +19,15 @@ interface DecodedToken extends JwtPayload {
   id?: unknown;
   email?: unknown;
   role?: unknown;
+  sid?: unknown;
 }
 
 interface AuthenticatedUser {
   id: string;
   role: string;
+  permissions: Permission[]; // resolved from the role on each request, never from the token
   email?: string;
+  sessionId?: string;
 }
 
 /**
@@ -34,6 +43,8 @@ interface AuthenticatedUser {
  * { error: { message: 'Unauthenticated' } }.
  * If token verification fails, it responds with HTTP 401 and JSON:
  * { error: { message: 'Invalid token' } }.
+ * Tokens naming a session (`sid` claim) are refused once that session has been revoked.
+ * The permissions of the token's role are looked up fresh and set as `req.user.permissions`.
  *
  * @param req - Express Request object. On success, `req.user` will contain the decoded token payload.
  * @param res - Express Response object used to send 401 responses on failure.
@@ -90,10 +101,26 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
       return;
     }
 
+    const sessionId = typeof payload.sid === 'string' ? payload.sid : undefined;
+    if (sessionId && !(await sessionService.verify(sessionId, idFromToken, req.ip))) {
+      logSuspiciousActivity({
+        type: 'invalid_token',
+        userId: idFromToken,
+        path: req.path,
+        ip: req.ip,
+        details: { reason: 'session_revoked', sessionId },
+        correlationId,
+      });
+      res.status(401).json({ error: { message: 'Session has been revoked' } });
+      return;
+    }
+
     const user: AuthenticatedUser = {
       id: idFromToken,
       role,
+      permissions: await rolesService.permissionsOf(role),
       email: typeof payload.email === 'string' ? payload.email : undefined,
+      sessionId,
     };
 
     // Store normalized payload on request (use any to avoid type augmentation)
@@ -112,18 +139,75 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
   }
 }
 
-export function requireRole(role: 'admin' | 'user') {
-  return (req: Request, res: Response, next: NextFunction): void => {
+/**
+ * Authentication for routes open to guests: requests with an Authorization
+ * header go through `requireAuth` (so a bad token is still refused with 401),
+ * requests without one continue with no `req.user`.
+ */
+export async function optionalAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!req.headers.authorization) {
+    next();
+    return;
+  }
+  await requireAuth(req, res, next);
+}
+
+/**
+ * Staff check for handlers that widen access instead of requiring it, e.g. an
+ * order's owner or anyone who reads orders. True when the user holds any of the
+ * given permissions. With ADMIN_2FA_REQUIRED, staff who have not enrolled in
+ * two-factor authentication get no staff access here either.
+ *
+ * @throws {Error} 403 with code TWO_FACTOR_REQUIRED when the user holds one of
+ *   the permissions but still has to enrol
+ */
+export async function hasStaffPermission(
+  req: Request,
+  ...permissions: Permission[]
+): Promise<boolean> {
+  const user = (req as any).user as AuthenticatedUser | undefined;
+  if (!user || !permissions.some((permission) => user.permissions.includes(permission))) {
+    return false;
+  }
+  if (
+    twoFactorService.isRequired(user.permissions) &&
+    !(await twoFactorService.isEnabled(user.id))
+  ) {
+    throw Object.assign(new Error('Set up two-factor authentication to use staff features'), {
+      status: 403,
+      code: 'TWO_FACTOR_REQUIRED',
+    });
+  }
+  return true;
+}
+
+/**
+ * Permission guard for routes behind `requireAuth`. Passes when the user holds
+ * any of the given permissions and responds 403 otherwise. With
+ * ADMIN_2FA_REQUIRED, staff who have not enrolled in two-factor authentication
+ * are refused as well, with `code: 'TWO_FACTOR_REQUIRED'` so the client can send
+ * them to enrol.
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const user = (req as any).user as AuthenticatedUser | undefined;
     const correlationId = getCorrelationId(req);
 
-    if (!user || user.role !== role) {
+    let allowed: boolean;
+    try {
+      allowed = await hasStaffPermission(req, ...permissions);
+    } catch (error) {
+      const { message, code } = error as Error & { code: string };
+      res.status(403).json({ error: { message, code } });
+      return;
+    }
+    if (!allowed) {
       logSuspiciousActivity({
         type: 'unauthorized_access',
         userId: user?.id,
         path: req.path,
         ip: req.ip,
-        details: { requiredRole: role, userRole: user?.role },
+        details: { requiredPermissions: permissions, userRole: user?.role },
         correlationId,
       });
       res.status(403).json({ error: { message: 'Forbidden' } });
@@ -9,6 +9,7 @@ import { getCorrelationId } from './correlationId';
 interface AppError {
   status?: number;
   message?: string;
+  retryAfter?: number; // seconds, for 429 and 503 responses
 }
 
 function isAppError(error: unknown): error is AppError {
@@ -73,5 +74,11 @@ export function errorHandler(err: unknown, req: Request, res: Response, _next: N
   // Generic AppError mapping
   const message =
     isAppError(err) && typeof err.message === 'string' ? err.message : 'Internal Server Error';
+  const retryAfter = isAppError(err) ? err.retryAfter : undefined;
+  if (typeof retryAfter === 'number') {
+    res.setHeader('Retry-After', String(retryAfter));
+    res.status(statusCode).json({ error: { message, retryAfter } });
+    return;
+  }
   res.status(statusCode).json({ error: { message } });
 }
@@ -0,0 +1,127 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createMemoryRepositories, setRepositories } from '@server/data';
+import express, { type Request, type Response } from 'express';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { idempotency } from './idempotency';
+
+let handle: (req: Request, res: Response) => Promise<void> | void;
+const calls = vi.fn();
+
+const app = express();
+app.use(express.json());
+app.post('/orders', idempotency({ name: 'test.orders' }), async (req, res) => {
+  calls(req.body);
+  await handle(req, res);
+});
+
+function post(key: string, body: object = { item: 'mug' }) {
+  return request(app).post('/orders').set('Idempotency-Key', key).send(body);
+}
+
+/** A promise the test resolves itself, to hold a handler mid-request */
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories());
+  calls.mockClear();
+  handle = (req, res) => {
+    res.status(201).json({ data: { id: `order-${calls.mock.calls.length}`, ...req.body } });
+  };
+});
+
+describe('idempotency middleware', () => {
+  it('replays the stored response to a retry without running the handler again', async () => {
+    const first = await post('key-1');
+    const retry = await post('key-1');
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(calls).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a key reused for a different request with 422', async () => {
+    await post('key-1', { item: 'mug' });
+    const reused = await post('key-1', { item: 'bowl' });
+
+    expect(reused.status).toBe(422);
+    expect(reused.body.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(calls).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a retry with 409 while the first request is running', async () => {
+    const gate = deferred();
+    const defaultHandle = handle;
+    handle = async (req, res) => {
+      await gate.promise;
+      defaultHandle(req, res);
+    };
+    // supertest only sends once its request is awaited or then-ed
+    const first = post('key-1').then((res) => res);
+    await vi.waitFor(() => expect(calls).toHaveBeenCalledTimes(1));
+
+    const retry = await post('key-1');
+
+    expect(retry.status).toBe(409);
+    expect(retry.headers['retry-after']).toBe('1');
+    expect(retry.body.error.code).toBe('IDEMPOTENCY_KEY_IN_PROGRESS');
+    gate.resolve();
+    expect((await first).status).toBe(201);
+  });
+
+  it('keeps the key claimed after the client disconnects, until the handler answers', async () => {
+    const gate = deferred();
+    const defaultHandle = handle;
+    handle = async (req, res) => {
+      await gate.promise;
+      defaultHandle(req, res);
+    };
+    const server = app.listen(0);
+    try {
+      const { port } = server.address() as AddressInfo;
+      const aborted = http.request({
+        port,
+        method: 'POST',
+        path: '/orders',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': 'key-1' },
+      });
+      aborted.on('error', () => undefined);
+      aborted.end(JSON.stringify({ item: 'mug' }));
+      await vi.waitFor(() => expect(calls).toHaveBeenCalledTimes(1));
+      aborted.destroy();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect((await post('key-1')).status).toBe(409);
+
+      gate.resolve();
+      await vi.waitFor(async () => expect((await post('key-1')).status).toBe(201));
+      expect(calls).toHaveBeenCalledTimes(1);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('frees the key after a server error or a response that is not JSON', async () => {
+    handle = (_req, res) => {
+      res.status(503).json({ error: { message: 'Try again' } });
+    };
+    expect((await post('key-1')).status).toBe(503);
+
+    handle = (_req, res) => {
+      res.status(204).end();
+    };
+    expect((await post('key-1')).status).toBe(204);
+    expect((await post('key-1')).status).toBe(204);
+
+    expect(calls).toHaveBeenCalledTimes(3);
+  });
+});
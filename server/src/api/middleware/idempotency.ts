@@ -0,0 +1,126 @@
+/**
+ * Idempotency-Key support for mutating routes. The first request with a key
+ * runs and its response is stored with a fingerprint of the request; retries
+ * with the same key get the stored response back instead of running again,
+ * so a double submit or a retried request cannot, for example, place an order
+ * twice. Responses carry `Idempotent-Replayed: true` when replayed.
+ */
+
+import { createHash } from 'crypto';
+import { getRepositories } from '@server/data';
+import { IDEMPOTENCY_KEY_MAX_LENGTH } from '@server/domain/idempotency';
+import { logError } from '@server/utils/logger';
+import type { NextFunction, Request, Response } from 'express';
+
+export interface IdempotencyOptions {
+  name: string; // Keys are scoped per name (and caller), so routes never share them
+  ttlMs?: number; // How long a key and its response are kept (default: 24 hours)
+  required?: boolean; // Refuse requests without a key (default: false)
+}
+
+function fingerprint(req: Request): string {
+  return createHash('sha256')
+    .update(JSON.stringify([req.method, req.baseUrl + req.path, req.body ?? null]))
+    .digest('hex');
+}
+
+/**
+ * Idempotency middleware factory. Place it after authentication, so keys are
+ * scoped to the user, and before validation, so the fingerprint covers the
+ * body the client sent.
+ *
+ * - A key reused with a different method, path or body is refused with 422.
+ * - A key whose first request is still running is refused with 409, also
+ *   after its client has disconnected.
+ * - Responses with a 5xx status, and responses that are not JSON, are not
+ *   kept, so the request can be retried.
+ *
+ * @example
+ * ```typescript
+ * router.post('/', requireAuth, idempotency({ name: 'orders.create' }), createHandler);
+ * ```
+ */
+export function idempotency(options: IdempotencyOptions) {
+  const { name, ttlMs = 24 * 60 * 60 * 1000, required = false } = options;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const clientKey = req.get('Idempotency-Key');
+    if (clientKey === undefined) {
+      if (required) {
+        res.status(400).json({ error: { message: 'Idempotency-Key header is required' } });
+        return;
+      }
+      next();
+      return;
+    }
+    if (!clientKey.trim() || clientKey.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+      res.status(400).json({
+        error: {
+          message: `Idempotency-Key must be 1 to ${IDEMPOTENCY_KEY_MAX_LENGTH} characters`,
+        },
+      });
+      return;
+    }
+
+    const repo = getRepositories().idempotency;
+    const key = `${name}:${(req as any).user?.id ?? req.ip}:${clientKey}`;
+    const now = Date.now();
+    const existing = await repo.claim({
+      key,
+      fingerprint: fingerprint(req),
+      status: 'in_progress',
+      createdAt: now,
+      expiresAt: now + ttlMs,
+    });
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint(req)) {
+        res.status(422).json({
+          error: {
+            message: 'Idempotency-Key was already used for a different request',
+            code: 'IDEMPOTENCY_KEY_REUSED',
+          },
+        });
+      } else if (existing.status === 'in_progress') {
+        res.setHeader('Retry-After', '1');
+        res.status(409).json({
+          error: {
+            message: 'A request with this Idempotency-Key is still being processed',
+            code: 'IDEMPOTENCY_KEY_IN_PROGRESS',
+          },
+        });
+      } else {
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(existing.responseStatus ?? 200).json(existing.responseBody);
+      }
+      return;
+    }
+
+    // Keep the response as soon as the handler sends it: if the client has
+    // gone by then, its retry must still get the original result
+    let settled = false;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      if (!settled) {
+        settled = true;
+        const saved =
+          res.statusCode >= 500 ? repo.release(key) : repo.complete(key, res.statusCode, body);
+        saved.catch((error) => logError('Failed to store idempotent response', error, { name }));
+      }
+      return json(body);
+    };
+    // Responses that are not JSON are not kept. The key is freed once the
+    // handler has answered, not when the client goes away: until then a retry
+    // gets 409 rather than running the request a second time
+    const end = res.end.bind(res) as (...args: unknown[]) => Response;
+    res.end = ((...args: unknown[]) => {
+      if (!settled) {
+        settled = true;
+        repo.release(key).catch(() => undefined);
+      }
+      return end(...args);
+    }) as Response['end'];
+
+    next();
+  };
+}
@@ -1,12 +1,12 @@
 import type { NextFunction, Request, Response } from 'express';
 import { loadEnv } from '../../config/env';
-import { requireAuth, requireRole } from './auth';
+import { requireAuth, requirePermission } from './auth';
 
 const { MAINTENANCE_SECRET } = loadEnv();
 
 /**
  * Maintenance guard: if MAINTENANCE_SECRET is set, require matching header `x-maint-secret`.
- * Otherwise fall back to admin authentication (JWT + role=admin).
+ * Otherwise fall back to staff authentication (JWT + `maintenance:run` permission).
  */
 export async function maintenanceGuard(
   req: Request,
@@ -23,10 +23,10 @@ export async function maintenanceGuard(
     next();
     return;
   }
-  // Fallback: ensure admin auth
+  // Fallback: ensure staff auth
   await requireAuth(req, res, (err?: any) => {
     if (err) return; // requireAuth already responded
-    return requireRole('admin')(req, res, next);
+    requirePermission('maintenance:run')(req, res, next).catch(next);
   });
 }
 
@@ -1,74 +1,38 @@
 /**
  * Rate limiting middleware to protect against abuse and DoS attacks.
- * Uses in-memory store for simplicity (use Redis for production with multiple servers).
+ * Counters live in the configured RateLimitStore: process memory by default, or
+ * Firestore with RATE_LIMIT_STORE=shared so every server instance enforces the
+ * same limits. Responses carry the standard `RateLimit-*` headers, and
+ * `Retry-After` when refused.
  */
 
+import { loadEnv } from '@server/config/env';
+import { getRepositories } from '@server/data';
+import type {
+  RateLimitAlgorithm,
+  RateLimitPolicy,
+  RateLimitResult,
+} from '@server/domain/rateLimit';
+import { logError } from '@server/utils/logger';
 import type { NextFunction, Request, Response } from 'express';
-import { logRateLimitHit } from '../../utils/securityLogger';
+import { logRateLimitHit } from '@server/utils/securityLogger';
 import { getCorrelationId } from './correlationId';
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
-
-class RateLimiter {
-  private store = new Map<string, RateLimitEntry>();
-  private cleanupInterval: NodeJS.Timeout;
-
-  constructor() {
-    // Clean up expired entries every minute
-    this.cleanupInterval = setInterval(() => {
-      const now = Date.now();
-      for (const [key, entry] of this.store.entries()) {
-        if (now > entry.resetTime) {
-          this.store.delete(key);
-        }
-      }
-    }, 60000);
-  }
-
-  check(
-    key: string,
-    limit: number,
-    windowMs: number
-  ): { allowed: boolean; remaining: number; resetTime: number } {
-    const now = Date.now();
-    const entry = this.store.get(key);
-
-    if (!entry || now > entry.resetTime) {
-      // New window
-      const resetTime = now + windowMs;
-      this.store.set(key, { count: 1, resetTime });
-      return { allowed: true, remaining: limit - 1, resetTime };
-    }
-
-    if (entry.count >= limit) {
-      // Limit exceeded
-      return { allowed: false, remaining: 0, resetTime: entry.resetTime };
-    }
-
-    // Increment count
-    entry.count++;
-    this.store.set(key, entry);
-    return { allowed: true, remaining: limit - entry.count, resetTime: entry.resetTime };
-  }
-
-  reset(key: string): void {
-    this.store.delete(key);
-  }
-
-  destroy(): void {
-    clearInterval(this.cleanupInterval);
-    this.store.clear();
-  }
-}
+// Drop expired counters of process-local stores every minute; a shared store is
+// pruned by POST /maintenance/cleanup instead
+const cleanupInterval = setInterval(() => {
+  const repositories = getRepositories();
+  if (repositories.store === 'firestore' && loadEnv().RATE_LIMIT_STORE === 'shared') return;
+  repositories.rateLimits.removeExpired(Date.now(), 10_000).catch(() => undefined);
+}, 60000);
 
-const limiter = new RateLimiter();
+let unnamedLimiters = 0;
 
 export interface RateLimitOptions {
+  name?: string; // Counts are kept per limiter name, so limiters never share a budget
   windowMs?: number; // Time window in milliseconds (default: 15 minutes)
   max?: number; // Max requests per window (default: 100)
+  algorithm?: RateLimitAlgorithm; // How requests are counted (default: 'fixed-window')
   keyGenerator?: (req: Request) => string; // Function to generate rate limit key
   skipSuccessfulRequests?: boolean; // Don't count successful requests
   skipFailedRequests?: boolean; // Don't count failed requests
@@ -81,39 +45,59 @@ export interface RateLimitOptions {
  * @example
  * ```typescript
  * // Global rate limit
- * app.use(rateLimit({ windowMs: 15 * 60 * 1000, max: 100 }));
+ * app.use(rateLimit({ name: 'global', windowMs: 15 * 60 * 1000, max: 100 }));
  *
  * // Route-specific rate limit
- * router.post('/login', rateLimit({ max: 5, windowMs: 15 * 60 * 1000 }), loginHandler);
+ * router.post('/login', rateLimit({ name: 'login', max: 5, windowMs: 15 * 60 * 1000 }), loginHandler);
  *
- * // Rate limit by user ID
+ * // Rate limit by user ID, 10 requests per second with bursts of up to 10
  * router.post('/api/data', rateLimit({
- *   max: 50,
+ *   name: 'data',
+ *   max: 10,
+ *   windowMs: 1000,
+ *   algorithm: 'token-bucket',
  *   keyGenerator: (req) => (req as any).user?.id || req.ip
  * }), dataHandler);
  * ```
  */
 export function rateLimit(options: RateLimitOptions = {}) {
   const {
+    name = `limiter${++unnamedLimiters}`,
     windowMs = 15 * 60 * 1000, // 15 minutes
     max = 100,
+    algorithm = 'fixed-window',
     keyGenerator = (req: Request) => req.ip || 'unknown',
     skipSuccessfulRequests = false,
     skipFailedRequests = false,
     message = 'Too many requests, please try again later.',
   } = options;
+  const policy: RateLimitPolicy = { limit: max, windowMs, algorithm };
+  const policyHeader = `${max};w=${Math.ceil(windowMs / 1000)}`;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = `${name}:${keyGenerator(req)}`;
+    const store = getRepositories().rateLimits;
+    let result: RateLimitResult;
+    try {
+      result = await store.consume(key, policy);
+    } catch (error) {
+      // An unavailable store must not take the API down with it: fail open
+      logError('Rate limit store unavailable; request not limited', error, { limiter: name });
+      next();
+      return;
+    }
 
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const key = keyGenerator(req);
-    const result = limiter.check(key, max, windowMs);
-
-    // Set rate limit headers
-    res.setHeader('X-RateLimit-Limit', max.toString());
-    res.setHeader('X-RateLimit-Remaining', result.remaining.toString());
-    res.setHeader('X-RateLimit-Reset', new Date(result.resetTime).toISOString());
+    res.setHeader('RateLimit-Policy', policyHeader);
+    res.setHeader('RateLimit-Limit', String(max));
+    res.setHeader('RateLimit-Remaining', String(result.remaining));
+    res.setHeader(
+      'RateLimit-Reset',
+      String(Math.max(0, Math.ceil((result.resetTime - Date.now()) / 1000)))
+    );
 
     if (!result.allowed) {
       const correlationId = getCorrelationId(req);
+      const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
 
       // Log rate limit hit
       logRateLimitHit({
@@ -123,34 +107,19 @@ export function rateLimit(options: RateLimitOptions = {}) {
         correlationId,
       });
 
-      res.status(429).json({
-        error: {
-          message,
-          retryAfter: Math.ceil((result.resetTime - Date.now()) / 1000),
-        },
-      });
+      res.setHeader('Retry-After', String(retryAfter));
+      res.status(429).json({ error: { message, retryAfter } });
       return;
     }
 
-    // Track response to potentially skip counting
+    // Give the request back once the response shows it should not have counted
     if (skipSuccessfulRequests || skipFailedRequests) {
-      const originalSend = res.send;
-      res.send = function (body: any) {
-        const statusCode = res.statusCode;
-        const isSuccessful = statusCode >= 200 && statusCode < 400;
+      res.on('finish', () => {
+        const isSuccessful = res.statusCode >= 200 && res.statusCode < 400;
         const shouldSkip =
           (skipSuccessfulRequests && isSuccessful) || (skipFailedRequests && !isSuccessful);
-
-        if (shouldSkip) {
-          // Decrement count if we're skipping this request
-          const entry = limiter['store'].get(key);
-          if (entry) {
-            entry.count = Math.max(0, entry.count - 1);
-          }
-        }
-
-        return originalSend.call(this, body);
-      };
+        if (shouldSkip) store.refund(key, policy).catch(() => undefined);
+      });
     }
 
     next();
@@ -166,6 +135,7 @@ export function rateLimit(options: RateLimitOptions = {}) {
  * 5 attempts per 15 minutes
  */
 export const authRateLimit = rateLimit({
+  name: 'auth',
   windowMs: 15 * 60 * 1000,
   max: 5,
   message: 'Too many authentication attempts. Please try again in 15 minutes.',
@@ -174,11 +144,13 @@ export const authRateLimit = rateLimit({
 
 /**
  * Standard API rate limit
- * 100 requests per 15 minutes
+ * 100 requests per 15 minutes, over a sliding window
  */
 export const apiRateLimit = rateLimit({
+  name: 'api',
   windowMs: 15 * 60 * 1000,
   max: 100,
+  algorithm: 'sliding-window',
 });
 
 /**
@@ -186,6 +158,7 @@ export const apiRateLimit = rateLimit({
  * 1000 requests per 15 minutes
  */
 export const readRateLimit = rateLimit({
+  name: 'read',
   windowMs: 15 * 60 * 1000,
   max: 1000,
 });
@@ -195,6 +168,7 @@ export const readRateLimit = rateLimit({
  * 20 requests per minute
  */
 export const writeRateLimit = rateLimit({
+  name: 'write',
   windowMs: 60 * 1000,
   max: 20,
 });
@@ -204,11 +178,12 @@ export const writeRateLimit = rateLimit({
  * 5 requests per 5 minutes
  */
 export const expensiveOperationRateLimit = rateLimit({
+  name: 'expensive',
   windowMs: 5 * 60 * 1000,
   max: 5,
   message: 'Too many requests for this resource. Please try again in a few minutes.',
 });
 
 // Cleanup on process exit
-process.on('SIGTERM', () => limiter.destroy());
-process.on('SIGINT', () => limiter.destroy());
+process.on('SIGTERM', () => clearInterval(cleanupInterval));
+process.on('SIGINT', () => clearInterval(cleanupInterval));
@@ -1,20 +1,76 @@
 import { type Router as ExpressRouter, Router } from 'express';
 import * as ctrl from '../controllers/admin.controller';
 import * as auditCtrl from '../controllers/auditLogs.controller';
-import { requireAuth, requireRole } from '../middleware/auth';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { promotionSchema } from '../validators/promotions.schema';
+import { approveReturnSchema, rejectReturnSchema } from '../validators/returns.validators';
+import { moderateReviewSchema } from '../validators/reviews.validators';
+import { roleSchema, userRoleSchema } from '../validators/roles.schema';
 
 export const router: ExpressRouter = Router();
 
-// All admin routes require authentication and admin role
-router.use(requireAuth, requireRole('admin'));
+// All admin routes require authentication; each area requires its own permission
+router.use(requireAuth);
+
+const manageUsers = requirePermission('users:manage');
+const manageRoles = requirePermission('roles:manage');
+const managePromotions = requirePermission('promotions:manage');
+const manageReturns = requirePermission('returns:manage');
+const moderateReviews = requirePermission('reviews:moderate');
+const readInventory = requirePermission('inventory:read');
 
 // Users management
-router.get('/users', ctrl.listUsers);
-router.delete('/users/:id', ctrl.removeUser);
-router.post('/users/:id/promote', ctrl.promoteUser);
-router.post('/users/:id/demote', ctrl.demoteUser);
+router.get('/users', manageUsers, ctrl.listUsers);
+router.delete('/users/:id', manageUsers, ctrl.removeUser);
+router.put('/users/:id/role', manageUsers, validate(userRoleSchema), ctrl.setUserRole);
+router.post('/users/:id/promote', manageUsers, ctrl.promoteUser);
+router.post('/users/:id/demote', manageUsers, ctrl.demoteUser);
+router.post('/users/:id/unlock', manageUsers, ctrl.unlockUser);
+router.get('/users/:id/sessions', manageUsers, ctrl.listUserSessions);
+router.delete('/users/:id/sessions/:sessionId', manageUsers, ctrl.revokeUserSession);
+router.delete('/users/:id/2fa', manageUsers, ctrl.resetUserTwoFactor);
+
+// Roles (readable by whoever assigns them)
+router.get('/permissions', requirePermission('users:manage', 'roles:manage'), ctrl.listPermissions);
+router.get('/roles', requirePermission('users:manage', 'roles:manage'), ctrl.listRoles);
+router.post('/roles', manageRoles, validate(roleSchema), ctrl.createRole);
+router.put('/roles/:id', manageRoles, validate(roleSchema), ctrl.updateRole);
+router.delete('/roles/:id', manageRoles, ctrl.removeRole);
+
+// Promotions
+router.get('/promotions', managePromotions, ctrl.listPromotions);
+router.post('/promotions', managePromotions, validate(promotionSchema), ctrl.createPromotion);
+router.put('/promotions/:id', managePromotions, validate(promotionSchema), ctrl.updatePromotion);
+router.delete('/promotions/:id', managePromotions, ctrl.removePromotion);
+
+// Return requests
+router.get('/returns', manageReturns, ctrl.listReturns);
+router.post(
+  '/returns/:id/approve',
+  manageReturns,
+  validate(approveReturnSchema),
+  ctrl.approveReturn
+);
+router.post('/returns/:id/reject', manageReturns, validate(rejectReturnSchema), ctrl.rejectReturn);
+
+// Product reviews
+router.get('/reviews', moderateReviews, ctrl.listReviews);
+router.post(
+  '/reviews/:id/approve',
+  moderateReviews,
+  validate(moderateReviewSchema),
+  ctrl.approveReview
+);
+router.post('/reviews/:id/hide', moderateReviews, validate(moderateReviewSchema), ctrl.hideReview);
+router.post('/reviews/:id/flag', moderateReviews, validate(moderateReviewSchema), ctrl.flagReview);
+
+// Inventory
+router.get('/inventory/low-stock', readInventory, ctrl.listLowStock);
+router.get('/inventory/reconciliation', readInventory, ctrl.reconcileStock);
+router.get('/inventory/products/:id/movements', readInventory, ctrl.listStockMovements);
 
 // Audit logs
-router.get('/audit-logs', auditCtrl.list);
+router.get('/audit-logs', requirePermission('audit:read'), auditCtrl.list);
 
 export default router;
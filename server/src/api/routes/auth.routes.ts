@@ -1,19 +1,35 @@
 import { type Router as ExpressRouter, Router } from 'express';
 import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getAccount,
+  getTwoFactor,
+  listSessions,
   login,
+  loginTwoFactor,
   logout,
+  refresh,
+  regenerateRecoveryCodes,
   register,
   requestPasswordReset,
+  resendVerification,
   resetPassword,
+  revokeSession,
+  setupTwoFactor,
+  verifyEmail,
 } from '../controllers/auth.controller';
 import { requireAuth } from '../middleware/auth';
 import { authRateLimit } from '../middleware/rateLimit';
 import { validate } from '../middleware/validate';
 import {
   loginSchema,
+  loginTwoFactorSchema,
+  refreshSchema,
   registerSchema,
   requestResetSchema,
   resetPasswordSchema,
+  twoFactorCodeSchema,
+  verifyEmailSchema,
 } from '../validators/auth.schema';
 /**
  * Express router that groups authentication-related endpoints.
@@ -35,6 +51,38 @@ export const router: ExpressRouter = Router();
 // Apply auth rate limiting to all authentication endpoints
 router.post('/register', authRateLimit, validate(registerSchema), register);
 router.post('/login', authRateLimit, validate(loginSchema), login);
+router.post('/login/2fa', authRateLimit, validate(loginTwoFactorSchema), loginTwoFactor);
 router.post('/password/request', authRateLimit, validate(requestResetSchema), requestPasswordReset);
 router.post('/password/reset', authRateLimit, validate(resetPasswordSchema), resetPassword);
+router.post('/email/verify', authRateLimit, validate(verifyEmailSchema), verifyEmail);
+router.post('/email/resend', requireAuth, authRateLimit, resendVerification);
+// Refreshes happen every few minutes per open tab, so only the general API limit applies
+router.post('/refresh', validate(refreshSchema), refresh);
 router.post('/logout', requireAuth, logout);
+router.get('/me', requireAuth, getAccount);
+router.get('/sessions', requireAuth, listSessions);
+router.delete('/sessions/:id', requireAuth, revokeSession);
+// Two-factor enrolment; anything that checks a code is rate limited like the login
+router.get('/2fa', requireAuth, getTwoFactor);
+router.post('/2fa/setup', requireAuth, setupTwoFactor);
+router.post(
+  '/2fa/enable',
+  requireAuth,
+  authRateLimit,
+  validate(twoFactorCodeSchema),
+  enableTwoFactor
+);
+router.post(
+  '/2fa/disable',
+  requireAuth,
+  authRateLimit,
+  validate(twoFactorCodeSchema),
+  disableTwoFactor
+);
+router.post(
+  '/2fa/recovery-codes',
+  requireAuth,
+  authRateLimit,
+  validate(twoFactorCodeSchema),
+  regenerateRecoveryCodes
+);
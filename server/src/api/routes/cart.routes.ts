@@ -0,0 +1,27 @@
+import { type Router as ExpressRouter, Router } from 'express';
+import * as ctrl from '../controllers/cart.controller';
+import { optionalAuth, requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  addCartItemSchema,
+  mergeCartSchema,
+  updateCartItemSchema,
+} from '../validators/cart.schema';
+
+/**
+ * Shopping cart of the signed-in user, or of a guest identified by the
+ * X-Cart-Token header. Lines are addressed by their key, "productId" or
+ * "productId:variantId".
+ */
+export const router: ExpressRouter = Router();
+
+router.use(optionalAuth);
+router.get('/', ctrl.getCart);
+router.delete('/', ctrl.clearCart);
+router.post('/items', validate(addCartItemSchema), ctrl.addItem);
+router.put('/items/:line', validate(updateCartItemSchema), ctrl.updateItem);
+router.delete('/items/:line', ctrl.removeItem);
+router.post('/accept-prices', ctrl.acceptPrices);
+router.post('/merge', requireAuth, validate(mergeCartSchema), ctrl.mergeCart);
+
+export default router;
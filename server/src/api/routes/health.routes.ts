@@ -1,5 +1,6 @@
 import { type Router as ExpressRouter, Router } from 'express';
 import { getDb } from '../../config/firestore';
+import { type DataStore, getRepositories } from '../../data';
 
 export const router: ExpressRouter = Router();
 
@@ -11,24 +12,31 @@ type HealthResponse = {
   };
   database: {
     ok: boolean;
-    store: 'firestore';
+    store: DataStore;
     latencyMs: number | null;
     error?: string;
   };
 };
 
 router.get('/', async (_req, res) => {
+  const { store } = getRepositories();
   let dbOk = false;
   let latencyMs: number | null = null;
   let error: string | undefined;
 
   try {
-    const db = getDb();
-    const start = Date.now();
-    // Read-only check against a stable document path to avoid writes.
-    await db.collection('diagnostics').doc('__health').get();
-    latencyMs = Date.now() - start;
-    dbOk = true;
+    if (store === 'memory') {
+      // Nothing external to reach; the process itself is the store.
+      latencyMs = 0;
+      dbOk = true;
+    } else {
+      const db = getDb();
+      const start = Date.now();
+      // Read-only check against a stable document path to avoid writes.
+      await db.collection('diagnostics').doc('__health').get();
+      latencyMs = Date.now() - start;
+      dbOk = true;
+    }
   } catch (err) {
     dbOk = false;
     latencyMs = null;
@@ -43,7 +51,7 @@ router.get('/', async (_req, res) => {
     },
     database: {
       ok: dbOk,
-      store: 'firestore',
+      store,
       latencyMs,
       ...(error ? { error } : {}),
     },
@@ -1,10 +1,15 @@
+import { loadEnv } from '@server/config/env';
 import { getDb } from '@server/config/firestore';
+import { getRepositories } from '@server/data';
 import { tokenRevocationService } from '@server/services/auth';
+import { getEmailService } from '@server/services/email';
+import { createReservationExpiryService } from '@server/services/orders';
 import {
   auditLogsService,
   getMaintenanceState,
   setMaintenanceState,
 } from '@server/services/monitoring';
+import { shipmentsService } from '@server/services/shipments';
 import { type Router as ExpressRouter, Router } from 'express';
 
 // Maintenance router providing manual cleanup operations. Guarded by maintenanceGuard middleware.
@@ -14,6 +19,12 @@ function getActor(req: any): { id?: string; email?: string } | undefined {
   return req?.user;
 }
 
+function expireReservations() {
+  return createReservationExpiryService(getRepositories().orders, {
+    ttlMs: loadEnv().ORDER_RESERVATION_TTL_MINUTES * 60 * 1000,
+  }).expireReservations();
+}
+
 router.get('/state', async (req, res) => {
   const state = await getMaintenanceState();
   res.json({ data: state });
@@ -39,13 +50,50 @@ router.post('/state', async (req, res) => {
   res.json({ data: state });
 });
 
+/**
+ * POST /orders/expire-reservations - Cancel unpaid pending orders older than
+ * ORDER_RESERVATION_TTL_MINUTES and put their stock back
+ */
+router.post('/orders/expire-reservations', async (_req, res) => {
+  const result = await expireReservations();
+  res.json({ data: result });
+});
+
+/**
+ * POST /emails/process - Deliver queued emails that are due, including
+ * retries of failed attempts (the in-process worker does the same every
+ * EMAIL_OUTBOX_POLL_SECONDS)
+ */
+router.post('/emails/process', async (_req, res) => {
+  const result = await getEmailService().processOutbox(200);
+  res.json({ data: result });
+});
+
+/**
+ * POST /shipments/refresh - Fetch new tracking events of undelivered
+ * shipments from their carriers (the in-process worker does the same every
+ * SHIPMENT_TRACKING_POLL_SECONDS)
+ */
+router.post('/shipments/refresh', async (_req, res) => {
+  const result = await shipmentsService.refreshActive(200);
+  res.json({ data: result });
+});
+
 /**
  * POST /cleanup - Clean up expired records
  *
  * Efficiently removes:
  * - Expired password reset tokens (indexed query)
+ * - Expired refresh tokens (indexed query)
+ * - Expired email verification tokens (indexed query)
+ * - Delivered outbox emails older than 30 days (indexed query)
+ * - Failed-login records untouched for a day (indexed query)
+ * - Expired rate-limit counters (indexed query)
+ * - Guest carts left untouched for 30 days (indexed query)
+ * - Expired idempotency keys and their stored responses (indexed query)
  * - Expired token revocations (indexed query)
- * - Old logs (indexed query if ts field is indexed)
+ * - Old logs (indexed query if ts field is indexed; Firestore store only)
+ * - Lapsed stock reservations of unpaid pending orders (cancelled, not deleted)
  *
  * Note: For production at scale, consider:
  * - Firestore TTL policies (auto-cleanup)
@@ -53,64 +101,89 @@ router.post('/state', async (req, res) => {
  * - Background jobs with retry logic
  */
 router.post('/cleanup', async (_req, res) => {
-  const db = getDb();
+  const repositories = getRepositories();
   const now = Date.now();
   const cutoffLogs = now - 90 * 24 * 60 * 60 * 1000; // 90 days
+  const cutoffSentEmails = now - 30 * 24 * 60 * 60 * 1000; // 30 days
+  const cutoffLoginAttempts = now - 24 * 60 * 60 * 1000; // lockouts never outlast a day
 
   const results = {
     passwordResets: 0,
+    refreshTokens: 0,
+    emailVerifications: 0,
+    sentEmails: 0,
+    loginAttempts: 0,
+    rateLimits: 0,
+    guestCarts: 0,
+    idempotencyKeys: 0,
     tokenRevocations: 0,
     logs: 0,
+    expiredReservations: 0,
   };
 
   try {
     // 1. Clean up expired password reset tokens (indexed query)
     // This is efficient because we query by expiresAt field
-    const resetsSnap = await db
-      .collection('password_resets')
-      .where('expiresAt', '<', now)
-      .limit(200)
-      .get();
-
-    if (!resetsSnap.empty) {
-      const batch = db.batch();
-      for (const doc of resetsSnap.docs) {
-        batch.delete(doc.ref);
-      }
-      await batch.commit();
-      results.passwordResets = resetsSnap.size;
-    }
+    results.passwordResets = await repositories.passwordResets.removeExpired(now, 200);
+
+    // 2. Clean up expired refresh tokens (indexed query)
+    results.refreshTokens = await repositories.refreshTokens.removeExpired(now, 200);
+
+    // 3. Clean up expired email verification tokens (indexed query)
+    results.emailVerifications = await repositories.emailVerifications.removeExpired(now, 200);
+
+    // 4. Drop delivered emails from the outbox (composite index on status + sentAt)
+    results.sentEmails = await repositories.emailOutbox.removeSent(cutoffSentEmails, 200);
+
+    // 5. Forget failed logins whose delays and lockouts have run out
+    results.loginAttempts = await repositories.loginAttempts.removeStale(cutoffLoginAttempts, 200);
+
+    // 6. Drop rate-limit counters whose window has passed (indexed query)
+    results.rateLimits = await repositories.rateLimits.removeExpired(now, 200);
 
-    // 2. Clean up expired token revocations (uses indexed query internally)
+    // 7. Drop abandoned guest carts (indexed query)
+    results.guestCarts = await repositories.carts.removeExpired(now, 200);
+
+    // 8. Forget idempotency keys past their retention (indexed query)
+    results.idempotencyKeys = await repositories.idempotency.removeExpired(now, 200);
+
+    // 9. Clean up expired token revocations (uses indexed query internally)
     results.tokenRevocations = await tokenRevocationService.cleanupExpiredRevocations(200);
 
-    // 3. Clean up old logs (indexed query on ts field)
+    // 10. Cancel unpaid orders whose stock reservation has lapsed
+    results.expiredReservations = (await expireReservations()).expired.length;
+
+    // 11. Clean up old logs (indexed query on ts field)
     // NOTE: This requires a composite index on (ts, ASC)
     // If index doesn't exist, Firestore will return an error with creation link
-    try {
-      const logsSnap = await db
-        .collection('logs')
-        .where('ts', '<', new Date(cutoffLogs).toISOString())
-        .limit(500)
-        .get();
-
-      if (!logsSnap.empty) {
-        const batch = db.batch();
-        for (const doc of logsSnap.docs) {
-          batch.delete(doc.ref);
+    // The logs collection only exists in Firestore; other stores have nothing to prune.
+    if (repositories.store === 'firestore') {
+      try {
+        const db = getDb();
+        const logsSnap = await db
+          .collection('logs')
+          .where('ts', '<', new Date(cutoffLogs).toISOString())
+          .limit(500)
+          .get();
+
+        if (!logsSnap.empty) {
+          const batch = db.batch();
+          for (const doc of logsSnap.docs) {
+            batch.delete(doc.ref);
+          }
+          await batch.commit();
+          results.logs = logsSnap.size;
+        }
+      } catch (logError: any) {
+        // If index doesn't exist, log warning but don't fail the entire cleanup
+        if (logError?.code === 9 || logError?.code === 'failed-precondition') {
+          console.warn(
+            '⚠️  Logs cleanup skipped - Firestore index required. Create index at:',
+            logError.message?.match(/https?:\/\/[^\s)]+/)?.[0]
+          );
+        } else {
+          throw logError;
         }
-        await batch.commit();
-        results.logs = logsSnap.size;
-      }
-    } catch (logError: any) {
-      // If index doesn't exist, log warning but don't fail the entire cleanup
-      if (logError?.code === 9 || logError?.code === 'failed-precondition') {
-        console.warn(
-          '⚠️  Logs cleanup skipped - Firestore index required. Create index at:',
-          logError.message?.match(/https?:\/\/[^\s)]+/)?.[0]
-        );
-      } else {
-        throw logError;
       }
     }
 
@@ -0,0 +1,21 @@
+import { type Router as ExpressRouter, Router } from 'express';
+import * as ctrl from '../controllers/profile.controller';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { profileSchema, savedAddressSchema } from '../validators/profile.schema';
+
+/**
+ * The signed-in user's own profile and address book.
+ */
+export const router: ExpressRouter = Router();
+
+router.use(requireAuth);
+router.get('/profile', ctrl.getProfile);
+router.put('/profile', validate(profileSchema), ctrl.updateProfile);
+router.get('/addresses', ctrl.listAddresses);
+router.post('/addresses', validate(savedAddressSchema), ctrl.addAddress);
+router.put('/addresses/:id', validate(savedAddressSchema), ctrl.updateAddress);
+router.delete('/addresses/:id', ctrl.removeAddress);
+router.post('/addresses/:id/default', ctrl.setDefaultAddress);
+
+export default router;
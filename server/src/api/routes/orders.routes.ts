@@ -2,48 +2,80 @@
  * Order Routes
  *
  * Express router configuration for order-related endpoints.
- * Includes authentication, validation, and role-based access control.
+ * Includes authentication, validation, and permission-based access control.
  *
  * @fileoverview Order API routes
  * @module api/routes/orders
  */
 
-import { OrderService } from '@server/services/orders';
+import { createDocumentsService } from '@server/services/documents';
+import { createOrderTimelineService, OrderService } from '@server/services/orders';
+import { createPaymentService } from '@server/services/payments';
+import { createReturnsService } from '@server/services/returns';
+import { configuredCarriers, createShipmentsService } from '@server/services/shipments';
 import { Router } from 'express';
-import { FirestoreOrderRepository } from '../../data/firestore/FirestoreOrderRepository';
+import { getRepositories } from '../../data';
+import type { OrderRepository } from '../../data/ports/OrderRepository';
+import { DocumentsController } from '../controllers/documents.controller';
 import { OrderController } from '../controllers/order.controller';
-import { requireAuth, requireRole } from '../middleware/auth';
+import { OrderTimelineController } from '../controllers/orderTimeline.controller';
+import { PaymentController } from '../controllers/payment.controller';
+import { ReturnsController } from '../controllers/returns.controller';
+import { ShipmentsController } from '../controllers/shipments.controller';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
 import { validateBody, validateParams, validateQuery } from '../middleware/validation';
 import {
   createOrderSchema,
   orderIdSchema,
   orderQuerySchema,
   orderStatsQuerySchema,
+  quoteOrderSchema,
   updateOrderSchema,
 } from '../validators/order.validators';
+import { orderCommentSchema } from '../validators/orderTimeline.validators';
+import { authorizePaymentSchema, paymentAmountSchema } from '../validators/payment.validators';
+import { createReturnSchema } from '../validators/returns.validators';
+import { createShipmentSchema, shipmentIdSchema } from '../validators/shipments.validators';
 
 /**
  * Create and configure order routes
  *
+ * @param {OrderRepository} [orderRepository] - Order store; defaults to the configured DATA_STORE
  * @returns {Router} Configured Express router
  */
-export function createOrderRoutes(): Router {
+export function createOrderRoutes(
+  orderRepository: OrderRepository = getRepositories().orders
+): Router {
   const router = Router();
 
   // Initialize dependencies
-  const orderRepository = new FirestoreOrderRepository();
   const orderService = new OrderService(orderRepository);
   const orderController = new OrderController(orderService);
+  const paymentService = createPaymentService(orderRepository);
+  const paymentController = new PaymentController(paymentService);
+  const returnsController = new ReturnsController(
+    createReturnsService(getRepositories().returns, orderRepository, paymentService)
+  );
+  const shipmentsController = new ShipmentsController(
+    createShipmentsService(getRepositories().shipments, orderRepository, configuredCarriers())
+  );
+  const documentsController = new DocumentsController(
+    createDocumentsService(orderRepository, getRepositories().invoices)
+  );
+  const timelineController = new OrderTimelineController(
+    createOrderTimelineService(getRepositories().orderTimeline, orderRepository)
+  );
 
   /**
    * @route GET /api/orders/stats
    * @desc Get order statistics
-   * @access Private (Admin only)
+   * @access Private (reports:read)
    */
   router.get(
     '/stats',
     requireAuth,
-    requireRole('admin'),
+    requirePermission('reports:read'),
     validateQuery(orderStatsQuerySchema),
     (req, res) => orderController.getOrderStats(req, res)
   );
@@ -59,20 +91,60 @@ export function createOrderRoutes(): Router {
 
   /**
    * @route POST /api/orders
-   * @desc Create a new order
+   * @desc Create a new order; retries with the same Idempotency-Key header
+   *       return the original order instead of placing another
    * @access Private
    */
-  router.post('/', requireAuth, validateBody(createOrderSchema), (req, res) =>
-    orderController.createOrder(req, res)
+  router.post(
+    '/',
+    requireAuth,
+    idempotency({ name: 'orders.create' }),
+    validateBody(createOrderSchema),
+    (req, res) => orderController.createOrder(req, res)
+  );
+
+  /**
+   * @route POST /api/orders/quote
+   * @desc Price a cart (tax, shipping, total) without placing an order
+   * @access Public
+   */
+  router.post('/quote', validateBody(quoteOrderSchema), (req, res) =>
+    orderController.quoteOrder(req, res)
   );
 
   /**
    * @route GET /api/orders
-   * @desc Get all orders (admin only)
-   * @access Private (Admin only)
+   * @desc Get all orders (staff)
+   * @access Private (orders:read)
+   */
+  router.get(
+    '/',
+    requireAuth,
+    requirePermission('orders:read'),
+    validateQuery(orderQuerySchema),
+    (req, res) => orderController.getAllOrders(req, res)
+  );
+
+  /**
+   * @route GET /api/orders/carriers
+   * @desc List the carriers orders can be shipped with
+   * @access Private (orders:fulfil)
    */
-  router.get('/', requireAuth, requireRole('admin'), validateQuery(orderQuerySchema), (req, res) =>
-    orderController.getAllOrders(req, res)
+  router.get('/carriers', requireAuth, requirePermission('orders:fulfil'), (req, res) =>
+    shipmentsController.listCarriers(req, res)
+  );
+
+  /**
+   * @route POST /api/orders/shipments/:shipmentId/refresh
+   * @desc Fetch a shipment's latest tracking events from its carrier
+   * @access Private (orders:fulfil)
+   */
+  router.post(
+    '/shipments/:shipmentId/refresh',
+    requireAuth,
+    requirePermission('orders:fulfil'),
+    validateParams(shipmentIdSchema),
+    (req, res) => shipmentsController.refresh(req, res)
   );
 
   /**
@@ -105,15 +177,165 @@ export function createOrderRoutes(): Router {
     orderController.cancelOrder(req, res)
   );
 
+  /**
+   * @route POST /api/orders/:id/payment
+   * @desc Authorize payment for an order (may require a 3-D Secure challenge)
+   * @access Private (owner)
+   */
+  router.post(
+    '/:id/payment',
+    requireAuth,
+    validateParams(orderIdSchema),
+    validateBody(authorizePaymentSchema),
+    (req, res) => paymentController.authorize(req, res)
+  );
+
+  /**
+   * @route POST /api/orders/:id/payment/capture
+   * @desc Capture an authorized payment, optionally partially
+   * @access Private (payments:manage)
+   */
+  router.post(
+    '/:id/payment/capture',
+    requireAuth,
+    requirePermission('payments:manage'),
+    validateParams(orderIdSchema),
+    validateBody(paymentAmountSchema),
+    (req, res) => paymentController.adjust(req, res, 'capture')
+  );
+
+  /**
+   * @route POST /api/orders/:id/payment/refund
+   * @desc Refund a captured payment, optionally partially
+   * @access Private (payments:manage)
+   */
+  router.post(
+    '/:id/payment/refund',
+    requireAuth,
+    requirePermission('payments:manage'),
+    validateParams(orderIdSchema),
+    validateBody(paymentAmountSchema),
+    (req, res) => paymentController.adjust(req, res, 'refund')
+  );
+
+  /**
+   * @route POST /api/orders/:id/payment/void
+   * @desc Release an uncaptured authorization
+   * @access Private (payments:manage)
+   */
+  router.post(
+    '/:id/payment/void',
+    requireAuth,
+    requirePermission('payments:manage'),
+    validateParams(orderIdSchema),
+    (req, res) => paymentController.adjust(req, res, 'void')
+  );
+
+  /**
+   * @route POST /api/orders/:id/returns
+   * @desc Request a return for items of a delivered order
+   * @access Private (owner)
+   */
+  router.post(
+    '/:id/returns',
+    requireAuth,
+    validateParams(orderIdSchema),
+    validateBody(createReturnSchema),
+    (req, res) => returnsController.create(req, res)
+  );
+
+  /**
+   * @route GET /api/orders/:id/returns
+   * @desc List an order's return requests and refunds
+   * @access Private
+   */
+  router.get('/:id/returns', requireAuth, validateParams(orderIdSchema), (req, res) =>
+    returnsController.listForOrder(req, res)
+  );
+
+  /**
+   * @route POST /api/orders/:id/shipments
+   * @desc Ship units of an order (all units not shipped yet when no items are given)
+   * @access Private (orders:fulfil)
+   */
+  router.post(
+    '/:id/shipments',
+    requireAuth,
+    requirePermission('orders:fulfil'),
+    validateParams(orderIdSchema),
+    validateBody(createShipmentSchema),
+    (req, res) => shipmentsController.create(req, res)
+  );
+
+  /**
+   * @route GET /api/orders/:id/shipments
+   * @desc List an order's shipments with their tracking events
+   * @access Private
+   */
+  router.get('/:id/shipments', requireAuth, validateParams(orderIdSchema), (req, res) =>
+    shipmentsController.listForOrder(req, res)
+  );
+
+  /**
+   * @route GET /api/orders/:id/invoice.pdf
+   * @desc Itemised tax invoice (numbered on first download; confirmed orders only)
+   * @access Private
+   */
+  router.get('/:id/invoice.pdf', requireAuth, validateParams(orderIdSchema), (req, res) =>
+    documentsController.download(req, res, 'invoice')
+  );
+
+  /**
+   * @route GET /api/orders/:id/packing-slip.pdf
+   * @desc Packing slip listing the items to pack and the shipping address
+   * @access Private
+   */
+  router.get('/:id/packing-slip.pdf', requireAuth, validateParams(orderIdSchema), (req, res) =>
+    documentsController.download(req, res, 'packing-slip')
+  );
+
+  /**
+   * @route GET /api/orders/:id/receipt.pdf
+   * @desc Payment receipt (once the payment is captured)
+   * @access Private
+   */
+  router.get('/:id/receipt.pdf', requireAuth, validateParams(orderIdSchema), (req, res) =>
+    documentsController.download(req, res, 'receipt')
+  );
+
+  /**
+   * @route GET /api/orders/:id/timeline
+   * @desc An order's history (status, payment, edits), newest first; staff also
+   *       see internal comments
+   * @access Private
+   */
+  router.get('/:id/timeline', requireAuth, validateParams(orderIdSchema), (req, res) =>
+    timelineController.list(req, res)
+  );
+
+  /**
+   * @route POST /api/orders/:id/timeline/comments
+   * @desc Leave an internal comment, emailing the staff it @mentions
+   * @access Private (orders:read)
+   */
+  router.post(
+    '/:id/timeline/comments',
+    requireAuth,
+    requirePermission('orders:read'),
+    validateParams(orderIdSchema),
+    validateBody(orderCommentSchema),
+    (req, res) => timelineController.addComment(req, res)
+  );
+
   /**
    * @route DELETE /api/orders/:id
-   * @desc Delete an order (admin only)
-   * @access Private (Admin only)
+   * @desc Delete an order (staff)
+   * @access Private (orders:fulfil)
    */
   router.delete(
     '/:id',
     requireAuth,
-    requireRole('admin'),
+    requirePermission('orders:fulfil'),
     validateParams(orderIdSchema), // Validate route parameter
     (req, res) => orderController.deleteOrder(req, res)
   );
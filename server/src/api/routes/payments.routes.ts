@@ -0,0 +1,51 @@
+/**
+ * Payment Routes
+ *
+ * Provider-facing payment endpoints: the signed webhook and, with the mock
+ * gateway, its 3-D Secure challenge page. Order-scoped payment actions live
+ * under the order routes.
+ *
+ * @fileoverview Payment API routes
+ * @module api/routes/payments
+ */
+
+import { createPaymentService } from '@server/services/payments';
+import { Router } from 'express';
+import { getRepositories } from '../../data';
+import type { OrderRepository } from '../../data/ports/OrderRepository';
+import { PaymentController } from '../controllers/payment.controller';
+import { validateBody } from '../middleware/validation';
+import { mockChallengeSchema } from '../validators/payment.validators';
+
+/**
+ * Create and configure payment routes
+ *
+ * @param {OrderRepository} [orderRepository] - Order store; defaults to the configured DATA_STORE
+ * @returns {Router} Configured Express router
+ */
+export function createPaymentRoutes(
+  orderRepository: OrderRepository = getRepositories().orders
+): Router {
+  const router = Router();
+  const paymentController = new PaymentController(createPaymentService(orderRepository));
+
+  /**
+   * @route POST /api/payments/webhook
+   * @desc Payment provider events (verified by HMAC signature)
+   * @access Public
+   */
+  router.post('/webhook', (req, res) => paymentController.webhook(req, res));
+
+  /**
+   * @route POST /api/payments/mock/:paymentId/challenge
+   * @desc Approve or fail a mock 3-D Secure challenge
+   * @access Public
+   */
+  router.post('/mock/:paymentId/challenge', validateBody(mockChallengeSchema), (req, res) =>
+    paymentController.completeMockChallenge(req, res)
+  );
+
+  return router;
+}
+
+export default createPaymentRoutes;
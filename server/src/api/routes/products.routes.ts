@@ -1,17 +1,57 @@
-import { type Router as ExpressRouter, Router } from 'express';
+import express, { type Router as ExpressRouter, Router } from 'express';
 import { getDb } from '../../config/firestore';
+import { getRepositories } from '../../data';
 import * as ctrl from '../controllers/products.controller';
-import { requireAuth, requireRole } from '../middleware/auth';
+import * as reviewsCtrl from '../controllers/reviews.controller';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { validate } from '../middleware/validate';
-import { productCreateSchema, productUpdateSchema } from '../validators/products.schema';
+import { validateQuery } from '../middleware/validation';
+import {
+  productCreateSchema,
+  productExportQuerySchema,
+  productImportQuerySchema,
+  productListQuerySchema,
+  productSearchQuerySchema,
+  productSuggestQuerySchema,
+  productUpdateSchema,
+} from '../validators/products.schema';
+import { createReviewSchema, reviewListQuerySchema } from '../validators/reviews.validators';
 export const router: ExpressRouter = Router();
 
-router.get('/admin/stats', requireAuth, requireRole('admin'), ctrl.stats);
-router.get('/admin/timeseries', requireAuth, requireRole('admin'), ctrl.timeseries);
+router.get('/admin/stats', requireAuth, requirePermission('reports:read'), ctrl.stats);
+router.get('/admin/timeseries', requireAuth, requirePermission('reports:read'), ctrl.timeseries);
+router.post(
+  '/admin/search/rebuild',
+  requireAuth,
+  requirePermission('products:write'),
+  ctrl.rebuildSearchIndex
+);
+router.post(
+  '/import',
+  requireAuth,
+  requirePermission('products:write'),
+  // CSV may also be posted as the raw body instead of a multipart upload
+  express.text({ type: 'text/csv', limit: '5mb' }),
+  validateQuery(productImportQuerySchema),
+  ctrl.importProducts
+);
+router.get(
+  '/export',
+  requireAuth,
+  requirePermission('products:write'),
+  validateQuery(productExportQuerySchema),
+  ctrl.exportProducts
+);
 
-router.get('/', ctrl.list);
+router.get('/', validateQuery(productListQuerySchema), ctrl.list);
+router.get('/search', validateQuery(productSearchQuerySchema), ctrl.search);
+router.get('/search/suggest', validateQuery(productSuggestQuerySchema), ctrl.suggest);
 // Diagnostic endpoint for health checks or testing database connectivity
 router.get('/__smoke', async (_req, res) => {
+  if (getRepositories().store !== 'firestore') {
+    res.json({ ok: true, wrote: false });
+    return;
+  }
   const db = getDb();
   const expireAt = new Date(Date.now() + 60 * 60 * 1000);
   const nowDoc = await db.collection('diagnostics').add({ at: Date.now(), expireAt });
@@ -19,6 +59,21 @@ router.get('/__smoke', async (_req, res) => {
   res.json({ ok: true, wrote: snap.exists });
 });
 router.get('/:id', ctrl.getById);
-router.post('/', requireAuth, validate(productCreateSchema), ctrl.create);
-router.put('/:id', requireAuth, validate(productUpdateSchema), ctrl.update);
-router.delete('/:id', requireAuth, requireRole('admin'), ctrl.remove);
+router.get('/:id/reviews', validateQuery(reviewListQuerySchema), reviewsCtrl.list);
+router.get('/:id/reviews/mine', requireAuth, reviewsCtrl.mine);
+router.post('/:id/reviews', requireAuth, validate(createReviewSchema), reviewsCtrl.create);
+router.post(
+  '/',
+  requireAuth,
+  requirePermission('products:write'),
+  validate(productCreateSchema),
+  ctrl.create
+);
+router.put(
+  '/:id',
+  requireAuth,
+  requirePermission('products:write'),
+  validate(productUpdateSchema),
+  ctrl.update
+);
+router.delete('/:id', requireAuth, requirePermission('products:write'), ctrl.remove);
@@ -33,3 +33,20 @@ export const resetPasswordSchema = Joi.object({
   token: Joi.string().min(10).required(),
   newPassword: Joi.string().min(8).max(100).required(),
 });
+
+export const refreshSchema = Joi.object({
+  refreshToken: Joi.string().min(10).max(200).required(),
+});
+
+export const verifyEmailSchema = Joi.object({
+  token: Joi.string().min(10).max(200).required(),
+});
+
+export const loginTwoFactorSchema = Joi.object({
+  challengeToken: Joi.string().min(10).max(1000).required(),
+  code: Joi.string().trim().min(6).max(20).required(), // TOTP code or recovery code
+});
+
+export const twoFactorCodeSchema = Joi.object({
+  code: Joi.string().trim().min(6).max(20).required(),
+});
@@ -0,0 +1,24 @@
+import Joi from 'joi';
+
+/**
+ * Joi validation schema for adding a product (or one of its variants) to the cart.
+ */
+export const addCartItemSchema = Joi.object({
+  productId: Joi.string().required(),
+  variantId: Joi.string(),
+  quantity: Joi.number().integer().min(1).max(99).default(1),
+});
+
+/**
+ * Joi validation schema for changing the quantity of a cart line; 0 removes it.
+ */
+export const updateCartItemSchema = Joi.object({
+  quantity: Joi.number().integer().min(0).max(99).required(),
+});
+
+/**
+ * Joi validation schema for merging a guest cart into the signed-in user's cart.
+ */
+export const mergeCartSchema = Joi.object({
+  cartToken: Joi.string().required(),
+});
@@ -16,17 +16,19 @@ import { OrderStatus, PaymentMethod, PaymentStatus } from '../../domain/orders';
  */
 const orderItemSchema = Joi.object({
   productId: Joi.string().required().description('Product ID to order'),
+  variantId: Joi.string().optional().description('Variant ID; required for products with variants'),
   quantity: Joi.number()
     .integer()
     .min(1)
+    .max(99)
     .required()
-    .description('Quantity to order (must be positive)'),
+    .description('Quantity to order (1-99, the most a cart line holds)'),
 });
 
 /**
  * Validation schema for shipping address
  */
-const shippingAddressSchema = Joi.object({
+export const shippingAddressSchema = Joi.object({
   fullName: Joi.string().trim().min(1).max(100).required().description('Full name of recipient'),
   street: Joi.string().trim().min(1).max(200).required().description('Street address'),
   city: Joi.string().trim().min(1).max(100).required().description('City name'),
@@ -36,6 +38,11 @@ const shippingAddressSchema = Joi.object({
   phone: Joi.string().trim().max(20).optional().description('Optional phone number'),
 });
 
+/**
+ * Promo code as typed by the customer; matched case-insensitively
+ */
+const promoCodeSchema = Joi.string().trim().min(1).max(40);
+
 /**
  * Validation schema for order tracking information
  */
@@ -61,6 +68,30 @@ export const createOrderSchema = Joi.object({
     .description('Payment method for the order'),
   shippingAddress: shippingAddressSchema.required().description('Delivery address'),
   notes: Joi.string().trim().max(500).optional().description('Optional order notes'),
+  promoCode: promoCodeSchema.optional().description('Optional promo code to apply'),
+});
+
+/**
+ * Validation schema for the destination used when quoting an order
+ */
+const quoteDestinationSchema = Joi.object({
+  country: Joi.string().trim().min(1).max(100).required().description('Country name or code'),
+  state: Joi.string().trim().allow('').max(100).optional().description('State or province'),
+}).unknown(true);
+
+/**
+ * Validation schema for pricing an order before it is placed
+ */
+export const quoteOrderSchema = Joi.object({
+  items: Joi.array()
+    .items(orderItemSchema)
+    .min(1)
+    .required()
+    .description('Array of items to price (at least one required)'),
+  shippingAddress: quoteDestinationSchema
+    .optional()
+    .description('Destination used to select tax rules'),
+  promoCode: promoCodeSchema.optional().description('Optional promo code to apply'),
 });
 
 /**
@@ -0,0 +1,18 @@
+/**
+ * Order Timeline API Validation Schemas
+ *
+ * @fileoverview Order timeline (staff comments) validation schemas
+ * @module api/validators/orderTimeline.validators
+ */
+
+import { MAX_COMMENT_LENGTH } from '@server/domain/orderTimeline';
+import Joi from 'joi';
+
+/**
+ * Validation schema for an internal staff comment on an order.
+ *
+ * - body: the comment; `@name` or `@email` mentions staff who can see orders.
+ */
+export const orderCommentSchema = Joi.object({
+  body: Joi.string().trim().min(1).max(MAX_COMMENT_LENGTH).required().description('Comment text'),
+});
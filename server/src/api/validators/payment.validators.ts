@@ -0,0 +1,29 @@
+/**
+ * Payment API Validation Schemas
+ *
+ * @fileoverview Payment validation schemas
+ * @module api/validators/payment.validators
+ */
+
+import Joi from 'joi';
+
+/**
+ * Validation schema for starting a payment
+ */
+export const authorizePaymentSchema = Joi.object({
+  token: Joi.string().trim().max(200).optional().description('Payment method token'),
+});
+
+/**
+ * Validation schema for capture and refund amounts (defaults to the full amount)
+ */
+export const paymentAmountSchema = Joi.object({
+  amount: Joi.number().positive().precision(2).optional().description('Amount in order currency'),
+});
+
+/**
+ * Validation schema for answering a mock 3-D Secure challenge
+ */
+export const mockChallengeSchema = Joi.object({
+  approve: Joi.boolean().required().description('Whether the customer passed the challenge'),
+});
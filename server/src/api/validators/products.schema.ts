@@ -1,17 +1,54 @@
 import Joi from 'joi';
+import { PRICE_BUCKETS } from '../../domain/search';
+
+/**
+ * An option axis such as Size or Colour and its allowed values.
+ */
+const productOptionSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(40).required(),
+  values: Joi.array().items(Joi.string().trim().min(1).max(40)).min(1).unique().required(),
+});
+
+/**
+ * One variant of a product. `id` is kept when editing an existing variant and
+ * generated for new ones; `options` maps every option name to one of its values.
+ */
+const productVariantSchema = Joi.object({
+  id: Joi.string().trim(),
+  sku: Joi.string().trim().min(1).max(64).required(),
+  options: Joi.object().pattern(Joi.string(), Joi.string().trim().min(1)).required(),
+  price: Joi.number().custom((value, helpers) => {
+    if (!/^\d+(\.\d{1,2})?$/.test(value.toString())) {
+      return helpers.error('any.invalid');
+    }
+    return value;
+  }, 'Two decimal places validation'),
+  stock: Joi.number().integer().min(0).required(),
+  images: Joi.array().items(
+    Joi.string().custom((value, helpers) => {
+      const v = String(value);
+      if (/^https?:\/\//.test(v) || v.startsWith('/')) return v;
+      return helpers.error('any.invalid');
+    }, 'absolute or relative URL')
+  ),
+});
 
 /**
  * Joi validation schema for creating a product.
  *
  * Validates an object with the following properties:
  * - name: required string.
+ * - sku: optional string, unique across products; bulk imports match rows to products by it.
  * - price: required number; must match a numeric format with up to two decimal places (examples: 12, 12.3, 12.34).
  *   The schema uses a custom validator that converts the value to a string and tests it against the regex: /^\d+(\.\d{1,2})?$/
  *   to ensure no more than two decimal places are provided.
  * - description: optional string; empty string is explicitly allowed.
  * - category: required string.
- * - rating: number constrained to the range 0-5 (inclusive); defaults to 0 when not provided.
- * - stock: required integer >= 0 representing available inventory.
+ * - stock: integer >= 0 representing available inventory; required unless variants are given,
+ *   in which case it is the sum of the variants' stock.
+ * - lowStockThreshold: optional integer >= 0; overrides LOW_STOCK_THRESHOLD for low-stock alerts.
+ * - options / variants: optional, always given together; each variant has a SKU, one value per
+ *   option, its own stock and an optional price override and images.
  *
  * Remarks:
  * - Intended for validating product creation payloads (e.g., request bodies).
@@ -23,7 +60,7 @@ import Joi from 'joi';
  *   price: 19.99,
  *   description: "",
  *   category: "clothing",
- *   rating: 4.5
+ *   stock: 25
  * }
  *
  * Example (invalid price):
@@ -35,6 +72,7 @@ import Joi from 'joi';
  */
 export const productCreateSchema = Joi.object({
   name: Joi.string().required(),
+  sku: Joi.string().trim().min(1).max(64),
   price: Joi.number()
     .required()
     .custom((value, helpers) => {
@@ -45,8 +83,8 @@ export const productCreateSchema = Joi.object({
     }, 'Two decimal places validation'),
   description: Joi.string().allow(''),
   category: Joi.string().required(),
-  rating: Joi.number().min(0).max(5).default(0),
-  stock: Joi.number().integer().min(0).required(),
+  stock: Joi.number().integer().min(0),
+  lowStockThreshold: Joi.number().integer().min(0),
   images: Joi.array()
     .items(
       Joi.string().custom((value, helpers) => {
@@ -57,12 +95,18 @@ export const productCreateSchema = Joi.object({
       }, 'absolute or relative URL')
     )
     .default([]),
-});
+  options: Joi.array().items(productOptionSchema).max(3),
+  variants: Joi.array().items(productVariantSchema).max(100),
+})
+  .or('stock', 'variants')
+  .and('options', 'variants');
 
 // Require at least one field to be present when updating a product
 // Update schema should NOT apply defaults (e.g., avoid resetting images to [])
+// A null lowStockThreshold removes the product's own threshold
 export const productUpdateSchema = Joi.object({
   name: Joi.string(),
+  sku: Joi.string().trim().min(1).max(64),
   price: Joi.number().custom((value, helpers) => {
     if (!/^\d+(\.\d{1,2})?$/.test(value.toString())) {
       return helpers.error('any.invalid');
@@ -71,8 +115,8 @@ export const productUpdateSchema = Joi.object({
   }, 'Two decimal places validation'),
   description: Joi.string().allow(''),
   category: Joi.string(),
-  rating: Joi.number().min(0).max(5),
   stock: Joi.number().integer().min(0),
+  lowStockThreshold: Joi.number().integer().min(0).allow(null),
   images: Joi.array().items(
     Joi.string().custom((value, helpers) => {
       const v = String(value);
@@ -80,4 +124,109 @@ export const productUpdateSchema = Joi.object({
       return helpers.error('any.invalid');
     }, 'absolute or relative URL')
   ),
-}).min(1);
+  // Variants are replaced as a whole; send [] for both to remove them
+  options: Joi.array().items(productOptionSchema).max(3),
+  variants: Joi.array().items(productVariantSchema).max(100),
+})
+  .and('options', 'variants')
+  .min(1);
+
+/**
+ * One row of a bulk import. Rows are partial like updates, since a row only
+ * changes the columns it sets; the SKU picks the product, and rows with a new
+ * SKU must also set the fields a new product needs. Rows for products without
+ * a SKU leave it empty and are picked by `id`.
+ */
+export const productImportRowSchema = productUpdateSchema
+  .keys({ id: Joi.string().trim().min(1).max(128) })
+  .or('sku', 'id')
+  .messages({ 'object.missing': 'A row needs a sku, or the id of a product without one' });
+
+/**
+ * Query for POST /products/import. `format` is only needed when it cannot be
+ * told from the upload's file name or content type.
+ */
+export const productImportQuerySchema = Joi.object({
+  dryRun: Joi.boolean().default(false),
+  format: Joi.string().valid('csv', 'json'),
+});
+
+export const productExportQuerySchema = Joi.object({
+  format: Joi.string().valid('csv', 'json').default('csv'),
+});
+
+const SORT_KEYS = [
+  'relevance',
+  'price-asc',
+  'price-desc',
+  'name-asc',
+  'name-desc',
+  'newest',
+] as const;
+
+export type ProductSortKey = (typeof SORT_KEYS)[number];
+
+/**
+ * Query for GET /products. `cursor` is a `nextCursor`/`prevCursor` from a
+ * previous page requested with the same sort and filters.
+ */
+export const productListQuerySchema = Joi.object({
+  q: Joi.string().trim().allow('').max(200),
+  category: Joi.string().trim(),
+  price: Joi.string().valid(...PRICE_BUCKETS.map((b) => b.key)),
+  minPrice: Joi.number().min(0),
+  maxPrice: Joi.number().min(0),
+  sort: Joi.string().valid(...SORT_KEYS),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  cursor: Joi.string().max(1000),
+});
+
+/** GET /products query as left by productListQuerySchema */
+export interface ProductListQuery {
+  q?: string;
+  category?: string;
+  price?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  sort?: ProductSortKey;
+  limit: number;
+  cursor?: string;
+}
+
+/**
+ * Query for GET /products/search. `sort` defaults to relevance when `q` is set
+ * and to newest first otherwise; `price` is a price bucket key from the facets.
+ */
+export const productSearchQuerySchema = Joi.object({
+  q: Joi.string().trim().allow('').max(200),
+  category: Joi.string().trim(),
+  price: Joi.string().valid(...PRICE_BUCKETS.map((b) => b.key)),
+  minPrice: Joi.number().min(0),
+  maxPrice: Joi.number().min(0),
+  sort: Joi.string().valid(...SORT_KEYS),
+  page: Joi.number().integer().min(1).default(1),
+  pageSize: Joi.number().integer().min(1).max(100).default(20),
+});
+
+/** GET /products/search query as left by productSearchQuerySchema */
+export interface ProductSearchQuery {
+  q?: string;
+  category?: string;
+  price?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  sort?: ProductSortKey;
+  page: number;
+  pageSize: number;
+}
+
+export const productSuggestQuerySchema = Joi.object({
+  q: Joi.string().trim().allow('').max(200).default(''),
+  limit: Joi.number().integer().min(1).max(20),
+});
+
+/** GET /products/search/suggest query as left by productSuggestQuerySchema */
+export interface ProductSuggestQuery {
+  q: string;
+  limit?: number;
+}
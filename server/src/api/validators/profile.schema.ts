@@ -0,0 +1,25 @@
+import Joi from 'joi';
+import { shippingAddressSchema } from './order.validators';
+
+/**
+ * Joi validation schema for updating the signed-in user's profile. Every field
+ * is optional; an empty string clears the display name or phone number.
+ */
+export const profileSchema = Joi.object({
+  displayName: Joi.string().trim().max(80).allow(''),
+  phone: Joi.string().trim().max(20).allow(''),
+  marketing: Joi.object({
+    email: Joi.boolean(),
+    sms: Joi.boolean(),
+  }),
+});
+
+/**
+ * Joi validation schema for a saved address: an order shipping address plus
+ * an optional label, and whether to make it the default.
+ */
+export const savedAddressSchema = shippingAddressSchema.keys({
+  phone: Joi.string().trim().max(20).allow('').description('Optional phone number'),
+  label: Joi.string().trim().max(40).allow('').description('Name of the address, e.g. "Home"'),
+  isDefault: Joi.boolean().description('Make this the default address'),
+});
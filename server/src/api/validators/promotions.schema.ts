@@ -0,0 +1,63 @@
+import Joi from 'joi';
+import { PromotionType } from '../../domain/promotions';
+
+/**
+ * Joi validation schema for creating or replacing a promotion.
+ *
+ * - code: 2-40 letters, digits, dashes or underscores; stored upper-cased.
+ * - value: required for percent_off (1-100) and fixed_amount (> 0); optional
+ *   percentage for buy_x_get_y (defaults to 100, i.e. the "get" units are free).
+ * - buyQuantity/getQuantity: required for buy_x_get_y.
+ * - startsAt/endsAt: ms timestamps; endsAt must be after startsAt.
+ *
+ * The same schema is used for PUT, which replaces every editable field.
+ */
+export const promotionSchema = Joi.object({
+  code: Joi.string()
+    .trim()
+    .pattern(/^[A-Za-z0-9_-]{2,40}$/)
+    .required(),
+  description: Joi.string().trim().max(200).allow(''),
+  type: Joi.string()
+    .valid(...Object.values(PromotionType))
+    .required(),
+  value: Joi.number().positive(),
+  buyQuantity: Joi.number().integer().min(1),
+  getQuantity: Joi.number().integer().min(1),
+  productIds: Joi.array().items(Joi.string().trim().min(1)).unique(),
+  minSubtotal: Joi.number().min(0),
+  startsAt: Joi.number().integer().min(0),
+  endsAt: Joi.number().integer().min(0),
+  maxRedemptions: Joi.number().integer().min(1),
+  maxRedemptionsPerUser: Joi.number().integer().min(1),
+  active: Joi.boolean().default(true),
+}).custom((value, helpers) => {
+  const isPercent =
+    value.type === PromotionType.PERCENT_OFF || value.type === PromotionType.BUY_X_GET_Y;
+  const isBxgy = value.type === PromotionType.BUY_X_GET_Y;
+  if (value.type === PromotionType.FREE_SHIPPING && value.value !== undefined) {
+    return helpers.message({ custom: '"value" is not allowed for free_shipping' });
+  }
+  if (
+    (value.type === PromotionType.PERCENT_OFF || value.type === PromotionType.FIXED_AMOUNT) &&
+    value.value === undefined
+  ) {
+    return helpers.message({ custom: `"value" is required for ${value.type}` });
+  }
+  if (isPercent && value.value !== undefined && value.value > 100) {
+    return helpers.message({ custom: '"value" must be a percentage between 1 and 100' });
+  }
+  if (isBxgy !== (value.buyQuantity !== undefined && value.getQuantity !== undefined)) {
+    return helpers.message({
+      custom: '"buyQuantity" and "getQuantity" are required for buy_x_get_y and only allowed there',
+    });
+  }
+  if (
+    value.startsAt !== undefined &&
+    value.endsAt !== undefined &&
+    value.endsAt <= value.startsAt
+  ) {
+    return helpers.message({ custom: '"endsAt" must be after "startsAt"' });
+  }
+  return value;
+}, 'promotion type rules');
@@ -0,0 +1,45 @@
+/**
+ * Return Request API Validation Schemas
+ *
+ * @fileoverview Returns (RMA) validation schemas
+ * @module api/validators/returns.validators
+ */
+
+import Joi from 'joi';
+
+/**
+ * Validation schema for a customer's return request
+ */
+export const createReturnSchema = Joi.object({
+  items: Joi.array()
+    .items(
+      Joi.object({
+        productId: Joi.string().trim().required().description('Product ID from the order'),
+        variantId: Joi.string().trim().description('Variant ID from the order line, if any'),
+        quantity: Joi.number().integer().min(1).required().description('Units to return'),
+      })
+    )
+    .min(1)
+    .unique((a, b) => a.productId === b.productId && a.variantId === b.variantId)
+    .required(),
+  reason: Joi.string().trim().min(3).max(1000).required().description('Why the items are returned'),
+});
+
+/**
+ * Joi validation schema for approving a return (admin).
+ *
+ * - refundAmount: defaults to the value of the returned items; 0 approves without a refund.
+ * - restock: put the returned units back into inventory.
+ */
+export const approveReturnSchema = Joi.object({
+  refundAmount: Joi.number().min(0).precision(2),
+  restock: Joi.boolean().default(false),
+  note: Joi.string().trim().max(500).allow(''),
+});
+
+/**
+ * Joi validation schema for rejecting a return (admin)
+ */
+export const rejectReturnSchema = Joi.object({
+  note: Joi.string().trim().max(500).allow(''),
+});
@@ -0,0 +1,38 @@
+/**
+ * Product Review API Validation Schemas
+ *
+ * @fileoverview Review submission, listing and moderation schemas
+ * @module api/validators/reviews.validators
+ */
+
+import Joi from 'joi';
+import { STAR_RATINGS } from '../../domain/reviews';
+
+/**
+ * Validation schema for a customer's review; submitting again replaces it
+ */
+export const createReviewSchema = Joi.object({
+  rating: Joi.number()
+    .valid(...STAR_RATINGS)
+    .required()
+    .description('Whole stars from 1 to 5'),
+  title: Joi.string().trim().max(120).allow(''),
+  body: Joi.string().trim().min(10).max(5000).required().description('Review text'),
+});
+
+/**
+ * Query for GET /products/:id/reviews. `cursor` is the `nextCursor` of the
+ * previous page requested with the same sort.
+ */
+export const reviewListQuerySchema = Joi.object({
+  sort: Joi.string().valid('newest', 'oldest', 'highest', 'lowest').default('newest'),
+  limit: Joi.number().integer().min(1).max(50).default(10),
+  cursor: Joi.string().max(1000),
+});
+
+/**
+ * Joi validation schema for approving, hiding or flagging a review (admin)
+ */
+export const moderateReviewSchema = Joi.object({
+  note: Joi.string().trim().max(500).allow(''),
+});
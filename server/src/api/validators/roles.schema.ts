@@ -0,0 +1,28 @@
+import Joi from 'joi';
+import { ALL_PERMISSIONS } from '../../domain/roles';
+
+/**
+ * Joi validation schema for creating or replacing a custom role.
+ *
+ * - name: 2-60 characters starting with a letter; the role ID is derived from it
+ *   on creation and kept when the role is renamed.
+ * - permissions: any of the permissions the API knows, each at most once; may be
+ *   empty for a role without staff access.
+ */
+export const roleSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .min(2)
+    .max(60)
+    .pattern(/^[A-Za-z]/)
+    .required(),
+  description: Joi.string().trim().max(200).allow(''),
+  permissions: Joi.array()
+    .items(Joi.string().valid(...ALL_PERMISSIONS))
+    .unique()
+    .required(),
+});
+
+export const userRoleSchema = Joi.object({
+  role: Joi.string().trim().max(40).required(),
+});
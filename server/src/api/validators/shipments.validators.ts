@@ -0,0 +1,35 @@
+/**
+ * Shipment API Validation Schemas
+ *
+ * @fileoverview Fulfilment (shipments) validation schemas
+ * @module api/validators/shipments.validators
+ */
+
+import Joi from 'joi';
+
+/**
+ * Validation schema for shipping units of an order (staff).
+ *
+ * - carrier: code of one of the configured carriers (GET /api/orders/carriers).
+ * - items: units to ship; omit to ship every unit not shipped yet.
+ */
+export const createShipmentSchema = Joi.object({
+  carrier: Joi.string().trim().required().description('Carrier code'),
+  items: Joi.array()
+    .items(
+      Joi.object({
+        productId: Joi.string().trim().required().description('Product ID from the order'),
+        variantId: Joi.string().trim().description('Variant ID from the order line, if any'),
+        quantity: Joi.number().integer().min(1).required().description('Units to ship'),
+      })
+    )
+    .min(1)
+    .unique((a, b) => a.productId === b.productId && a.variantId === b.variantId),
+});
+
+/**
+ * Validation schema for shipment ID route parameters
+ */
+export const shipmentIdSchema = Joi.object({
+  shipmentId: Joi.string().required().description('Shipment ID'),
+});
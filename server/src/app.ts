@@ -20,26 +20,44 @@ import { apiRateLimit } from './api/middleware/rateLimit';
 import { router as activityFeedRoutes } from './api/routes/activityFeed.routes';
 import { router as adminRoutes } from './api/routes/admin.routes';
 import { router as authRoutes } from './api/routes/auth.routes';
+import { router as cartRoutes } from './api/routes/cart.routes';
 import { router as favoritesRoutes } from './api/routes/favorites.routes';
 import { router as healthRoutes } from './api/routes/health.routes';
 import { router as maintenanceRoutes } from './api/routes/maintenance.routes';
+import { router as meRoutes } from './api/routes/me.routes';
 import { router as metricsRoutes } from './api/routes/metrics.routes';
 import { createOrderRoutes } from './api/routes/orders.routes';
+import { createPaymentRoutes } from './api/routes/payments.routes';
 import { router as productRoutes } from './api/routes/products.routes';
 import { router as uploadsRoutes } from './api/routes/uploads.routes';
 import { loadEnv } from './config/env';
-import { initializeOrderAuditListeners } from './services/orders';
+import { getRepositories } from './data';
+import {
+  initializeOrderAuditListeners,
+  initializeOrderNotificationListeners,
+  initializeOrderTimelineListeners,
+} from './services/orders';
 import { requestLogger } from './utils/logger';
 import { monitoring } from './utils/monitoring';
 
 const env = loadEnv();
 
+// Resolve repositories for the configured DATA_STORE before any service is used
+const repositories = getRepositories();
+console.log(`✓ Data store: ${repositories.store}`);
+
 // Initialize error monitoring early
 monitoring.init();
 
 // Initialize order audit listeners for tracking order lifecycle events
 initializeOrderAuditListeners();
 
+// Email customers about their orders (confirmation, shipping updates)
+initializeOrderNotificationListeners();
+
+// Record status, payment and edit history on each order's timeline
+initializeOrderTimelineListeners();
+
 export const app: Application = express();
 app.use(helmet());
 
@@ -64,11 +82,18 @@ app.use(
     origin: corsOrigin,
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Cart-Token', 'Idempotency-Key'],
     maxAge: 86400, // 24 hours
   })
 );
-app.use(express.json());
+app.use(
+  express.json({
+    // Keep the exact bytes for payment webhook signature verification
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf;
+    },
+  })
+);
 app.use(correlationIdMiddleware);
 app.use(requestLogger);
 
@@ -95,9 +120,12 @@ app.use('/api/v1/products', productRoutes);
 app.use('/api/v1/admin', adminRoutes);
 app.use('/api/v1/uploads', uploadsRoutes);
 app.use('/api/v1/favorites', favoritesRoutes);
+app.use('/api/v1/me', meRoutes);
+app.use('/api/v1/cart', cartRoutes);
 app.use('/api/v1/health', healthRoutes);
 app.use('/api/v1/maintenance', maintenanceGuard, maintenanceRoutes);
-app.use('/api/v1/orders', createOrderRoutes());
+app.use('/api/v1/orders', createOrderRoutes(repositories.orders));
+app.use('/api/v1/payments', createPaymentRoutes(repositories.orders));
 app.use('/api/v1/activity-feed', activityFeedRoutes);
 
 // Prometheus metrics endpoint (if enabled)
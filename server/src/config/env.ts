@@ -29,6 +29,22 @@ import { z } from 'zod';
  * Duration string controlling JWT token lifetime (for example "15m" or "1h").
  * @default '15m'
  *
+ * @property {number} REFRESH_TOKEN_TTL_DAYS
+ * Days a refresh token stays valid. Every refresh issues a new token with a fresh lifetime, so a
+ * session only ends after this many days without use (or on logout).
+ * @default 30
+ *
+ * @property {'firestore' | 'memory'} DATA_STORE
+ * Backing store for all repositories. "memory" keeps data in-process (lost on restart) and needs
+ * no Firebase credentials, which suits offline development and tests.
+ * @default 'firestore'
+ *
+ * @property {'local' | 'shared'} RATE_LIMIT_STORE
+ * Where rate-limit counters live. "local" keeps them in each server process, so every instance
+ * enforces the limits on its own; "shared" keeps them in Firestore so all instances count
+ * together (one transaction per limited request). Ignored when DATA_STORE is "memory".
+ * @default 'local'
+ *
  * @property {string | undefined} CORS_ORIGIN
  * Optional allowed origin (or comma-separated list) for CORS requests.
  *
@@ -67,6 +83,26 @@ import { z } from 'zod';
  * Maximum allowed upload size in megabytes for multipart/form-data payloads.
  * @default 5
  *
+ * @property {boolean} ADMIN_2FA_REQUIRED
+ * Require every staff account (a role with any permission) to use two-factor authentication. Staff
+ * who have not enrolled are refused on staff endpoints until they do, and cannot switch 2FA off.
+ * @default false
+ *
+ * @property {number} LOGIN_MAX_FAILURES
+ * Failed logins in a row (within 15 minutes) after which an account is locked. Before that, each
+ * failure from the second on makes the next attempt wait longer.
+ * @default 5
+ *
+ * @property {number} LOGIN_LOCKOUT_MINUTES
+ * Minutes the first lockout of an account lasts; every further lockout in a row doubles it (up to
+ * a day). Also how long an IP address trying too many different accounts is blocked.
+ * @default 15
+ *
+ * @property {number} LOGIN_IP_MAX_ACCOUNTS
+ * Different accounts that may fail to log in from one IP address within 15 minutes before the
+ * address is blocked from logging in (credential stuffing).
+ * @default 10
+ *
  * @property {number} PASSWORD_RESET_TTL_MINUTES
  * Number of minutes password-reset tokens remain valid.
  * @default 60
@@ -75,6 +111,86 @@ import { z } from 'zod';
  * Number of minutes before a new password-reset request is allowed for the same user.
  * @default 5
  *
+ * @property {number} EMAIL_VERIFICATION_TTL_HOURS
+ * Hours an email-verification link stays valid.
+ * @default 48
+ *
+ * @property {string} APP_URL
+ * Public URL of the web client, used to build the links in emails.
+ * @default 'http://localhost:5173'
+ *
+ * @property {'file' | 'console' | 'smtp'} EMAIL_TRANSPORT
+ * How queued emails are delivered. "file" writes each message as an .eml file to EMAIL_FILE_DIR,
+ * "console" only logs them, and "smtp" sends them through SMTP_HOST.
+ * @default 'file'
+ *
+ * @property {string} EMAIL_FROM
+ * Sender address of outgoing emails.
+ * @default "Sofia's Shop <no-reply@localhost>"
+ *
+ * @property {string} EMAIL_FILE_DIR
+ * Directory the file transport writes messages to.
+ * @default 'mail'
+ *
+ * @property {number} EMAIL_OUTBOX_POLL_SECONDS
+ * How often the server retries undelivered emails from the outbox; 0 leaves retries to the
+ * maintenance endpoint.
+ * @default 30
+ *
+ * @property {number} SHIPMENT_TRACKING_POLL_SECONDS
+ * How often the server asks carriers for new tracking events of undelivered shipments; 0 leaves
+ * it to the maintenance endpoint.
+ * @default 300
+ *
+ * @property {number} LOCAL_CARRIER_STEP_SECONDS
+ * Time between two scripted tracking events of the fake "local" carrier.
+ * @default 300
+ *
+ * @property {string | undefined} SMTP_HOST
+ * SMTP server for the smtp transport (required when EMAIL_TRANSPORT is "smtp").
+ *
+ * @property {number} SMTP_PORT
+ * SMTP server port.
+ * @default 587
+ *
+ * @property {boolean} SMTP_SECURE
+ * Connect over TLS from the start (usually port 465). Otherwise the connection upgrades with
+ * STARTTLS when the server offers it.
+ * @default false
+ *
+ * @property {string | undefined} SMTP_USER
+ * Optional SMTP username; SMTP_PASS must be set with it. Credentials are only sent over TLS, so
+ * the server must offer STARTTLS unless SMTP_SECURE is set.
+ *
+ * @property {string | undefined} SMTP_PASS
+ * Optional SMTP password.
+ *
+ * @property {string | undefined} PRICING_CONFIG_FILE
+ * Optional path to a JSON pricing configuration (tax rules per country/state and shipping tiers).
+ * Built-in defaults apply when unset.
+ *
+ * @property {'success' | 'decline' | 'challenge'} PAYMENT_MOCK_OUTCOME
+ * Authorization outcome of the mock payment gateway when the payment token does not pick one
+ * (tokens `tok_success`, `tok_decline` and `tok_challenge` always win).
+ * @default 'success'
+ *
+ * @property {string | undefined} PAYMENT_WEBHOOK_SECRET
+ * Shared secret used to sign and verify payment webhooks. A random per-process secret is used
+ * when unset, which only works with the in-process mock gateway.
+ *
+ * @property {string | undefined} PAYMENT_WEBHOOK_URL
+ * Where the mock gateway delivers webhooks (defaults to this server's /api/v1/payments/webhook).
+ *
+ * @property {number} ORDER_RESERVATION_TTL_MINUTES
+ * Minutes an unpaid pending order keeps its stock reserved. Maintenance cleanup cancels older
+ * reservations and puts the stock back.
+ * @default 30
+ *
+ * @property {number} LOW_STOCK_THRESHOLD
+ * Stock level at or below which a product is flagged on the admin overview, unless the product
+ * sets its own `lowStockThreshold`.
+ * @default 5
+ *
  * @property {string | undefined} LOG_TO_FILE
  * Optional toggle controlling whether structured logs are written to disk ("true"/"false"/"0"/"1").
  *
@@ -97,6 +213,12 @@ const Env = z.object({
   PORT: z.coerce.number().default(4000),
   JWT_SECRET: z.string().min(10),
   JWT_EXPIRES_IN: z.string().default('15m'),
+  REFRESH_TOKEN_TTL_DAYS: z.coerce
+    .number()
+    .positive('REFRESH_TOKEN_TTL_DAYS must be positive')
+    .default(30),
+  DATA_STORE: z.enum(['firestore', 'memory']).default('firestore'),
+  RATE_LIMIT_STORE: z.enum(['local', 'shared']).default('local'),
   CORS_ORIGIN: z.string().optional(),
   UPLOAD_MAX_MB: z.coerce.number().positive('UPLOAD_MAX_MB must be positive').default(5),
   MAINTENANCE_SECRET: z.string().optional(),
@@ -121,6 +243,19 @@ const Env = z.object({
       message: 'CLOUDINARY_URL must begin with "cloudinary://"',
     }),
   CLOUDINARY_UPLOAD_FOLDER: z.string().optional(),
+  ADMIN_2FA_REQUIRED: z
+    .preprocess((val) => {
+      if (val === undefined || val === '') return false;
+      if (typeof val === 'string') return val === 'true' || val === '1';
+      return val;
+    }, z.boolean())
+    .default(false),
+  LOGIN_MAX_FAILURES: z.coerce.number().int().positive().default(5),
+  LOGIN_LOCKOUT_MINUTES: z.coerce
+    .number()
+    .positive('LOGIN_LOCKOUT_MINUTES must be positive')
+    .default(15),
+  LOGIN_IP_MAX_ACCOUNTS: z.coerce.number().int().positive().default(10),
   PASSWORD_RESET_TTL_MINUTES: z.coerce
     .number()
     .positive('PASSWORD_RESET_TTL_MINUTES must be positive')
@@ -129,6 +264,37 @@ const Env = z.object({
     .number()
     .positive('PASSWORD_RESET_RATE_LIMIT_MINUTES must be positive')
     .default(5),
+  EMAIL_VERIFICATION_TTL_HOURS: z.coerce
+    .number()
+    .positive('EMAIL_VERIFICATION_TTL_HOURS must be positive')
+    .default(48),
+  APP_URL: z.string().url().default('http://localhost:5173'),
+  EMAIL_TRANSPORT: z.enum(['file', 'console', 'smtp']).default('file'),
+  EMAIL_FROM: z.string().default("Sofia's Shop <no-reply@localhost>"),
+  EMAIL_FILE_DIR: z.string().default('mail'),
+  EMAIL_OUTBOX_POLL_SECONDS: z.coerce.number().min(0).default(30),
+  SHIPMENT_TRACKING_POLL_SECONDS: z.coerce.number().min(0).default(300),
+  LOCAL_CARRIER_STEP_SECONDS: z.coerce.number().positive().default(300),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().positive().default(587),
+  SMTP_SECURE: z
+    .preprocess((val) => {
+      if (val === undefined || val === '') return false;
+      if (typeof val === 'string') return val === 'true' || val === '1';
+      return val;
+    }, z.boolean())
+    .default(false),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
+  PRICING_CONFIG_FILE: z.string().optional(),
+  PAYMENT_MOCK_OUTCOME: z.enum(['success', 'decline', 'challenge']).default('success'),
+  PAYMENT_WEBHOOK_SECRET: z.string().min(16).optional(),
+  PAYMENT_WEBHOOK_URL: z.string().url().optional(),
+  ORDER_RESERVATION_TTL_MINUTES: z.coerce
+    .number()
+    .positive('ORDER_RESERVATION_TTL_MINUTES must be positive')
+    .default(30),
+  LOW_STOCK_THRESHOLD: z.coerce.number().int().min(0).default(5),
   LOG_TO_FILE: z.string().optional(),
   LOG_DIR: z.string().optional(),
   LOG_FILE: z.string().optional(),
@@ -0,0 +1,78 @@
+/**
+ * Pricing configuration loader. Defaults reproduce the historical storefront
+ * rules (10% tax, $10 shipping, free shipping over $100) and can be replaced by
+ * a JSON file referenced through PRICING_CONFIG_FILE.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import type { PricingConfig } from '../domain/pricing';
+import { loadEnv } from './env';
+
+const rate = z.number().min(0).max(1);
+const money = z.number().min(0);
+
+const PricingConfigSchema = z.object({
+  currency: z.string().min(1).default('USD'),
+  defaultTaxRate: rate.default(0.1),
+  taxRules: z
+    .array(
+      z.object({
+        countries: z.array(z.string().min(1)).min(1),
+        states: z.array(z.string().min(1)).optional(),
+        rate,
+        label: z.string().optional(),
+      })
+    )
+    .default([]),
+  shippingTiers: z
+    .array(z.object({ upTo: money.nullable(), cost: money }))
+    .min(1)
+    .refine((tiers) => tiers.some((tier) => tier.upTo === null), {
+      message: 'shippingTiers must include an open-ended tier ({ "upTo": null })',
+    }),
+});
+
+export const DEFAULT_PRICING_CONFIG: PricingConfig = {
+  currency: 'USD',
+  defaultTaxRate: 0.1,
+  taxRules: [
+    { countries: ['AU', 'AUS', 'Australia'], rate: 0.1, label: 'GST' },
+    { countries: ['NZ', 'NZL', 'New Zealand'], rate: 0.15, label: 'GST' },
+  ],
+  shippingTiers: [
+    { upTo: 100, cost: 10 },
+    { upTo: null, cost: 0 },
+  ],
+};
+
+let cached: PricingConfig | null = null;
+
+/**
+ * Resolve the active pricing configuration, reading PRICING_CONFIG_FILE once if set.
+ *
+ * @throws Error If the file cannot be read or does not match the expected shape.
+ */
+export function loadPricingConfig(): PricingConfig {
+  if (cached) return cached;
+  const { PRICING_CONFIG_FILE } = loadEnv();
+  if (!PRICING_CONFIG_FILE) {
+    cached = DEFAULT_PRICING_CONFIG;
+    return cached;
+  }
+  const abs = path.isAbsolute(PRICING_CONFIG_FILE)
+    ? PRICING_CONFIG_FILE
+    : path.resolve(process.cwd(), PRICING_CONFIG_FILE);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(abs, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Failed to read pricing config at "${abs}": ${(err as Error).message}`);
+  }
+  const parsed = PricingConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid pricing config at "${abs}":\n${parsed.error.toString()}`);
+  }
+  cached = parsed.data;
+  return cached;
+}
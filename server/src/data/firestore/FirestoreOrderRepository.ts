@@ -13,12 +13,50 @@ import { getDb } from '../../config/firestore';
 import {
   type CreateOrderInput,
   type Order,
+  type OrderItem,
+  type OrderQuote,
   type OrderStats,
   OrderStatus,
   PaymentStatus,
+  type QuoteOrderInput,
+  UNPAID_PAYMENT_STATUSES,
   type UpdateOrderInput,
 } from '../../domain/orders';
-import type { OrderRepository } from '../ports/OrderRepository';
+import { orphanedReleaseReason, type StockActor, StockMovementType } from '../../domain/inventory';
+import type { PricingEngine, PromotionContext } from '../../domain/pricing';
+import type { Product } from '../../domain/product';
+import { normalizePromoCode, type PromotionRedemption } from '../../domain/promotions';
+import type { OrderRepository, OrderUpdateOptions } from '../ports/OrderRepository';
+import { unreleasedItems } from '../shared/inventory';
+import {
+  createInsufficientStockError,
+  createOrderNotFoundError,
+  createOrderStateChangedError,
+  createProductNotFoundError,
+  createPromotionNotFoundError,
+} from '../shared/orderErrors';
+import {
+  availableStock,
+  buildOrderItem,
+  resolveVariant,
+  withStockChange,
+} from '../shared/variants';
+import { mapDocToProduct } from './products.repo.fs';
+import {
+  mapDocToPromotion,
+  PROMOTION_REDEMPTIONS_SUBCOLLECTION,
+  PROMOTIONS_COLLECTION,
+} from './promotions.repo.fs';
+import { writeStockMovement } from './stockMovements.repo.fs';
+
+/**
+ * A promotion use read inside a transaction, waiting to be given back
+ */
+interface PendingRedemptionRelease {
+  redemptionRef: admin.firestore.DocumentReference;
+  promotionRef?: admin.firestore.DocumentReference;
+  redemptionCount: number;
+}
 
 /**
  * Firestore implementation of the order repository
@@ -30,9 +68,11 @@ export class FirestoreOrderRepository implements OrderRepository {
   private readonly collectionName = 'orders';
   private readonly productsCollectionName = 'products';
 
-  // Shipping configuration (can be injected or loaded from config in future)
-  private readonly freeShippingThreshold = 100;
-  private readonly defaultShippingCost = 10;
+  /**
+   * @param {PricingEngine} pricing - Computes tax, shipping and totals for new orders
+   */
+  constructor(private readonly pricing: PricingEngine) {}
+
   async getStats(startDate?: Date, endDate?: Date): Promise<OrderStats> {
     const db = getDb();
     let baseQuery: admin.firestore.Query = db.collection(this.collectionName);
@@ -105,10 +145,14 @@ export class FirestoreOrderRepository implements OrderRepository {
           return tx.get(productRef).then((snap) => ({ item, productRef, snap }));
         })
       );
+      const promotion = await this.resolvePromotion(tx, orderData.promoCode, userId);
 
       // PHASE 2: Process reads and validate
       const orderItems: Order['items'] = [];
-      let subtotal = 0;
+      const updatedProducts = new Map<
+        string,
+        { ref: admin.firestore.DocumentReference; product: Product }
+      >();
 
       for (const { item, productRef, snap: productSnap } of productReads) {
         const quantity = Math.floor(item.quantity);
@@ -117,79 +161,74 @@ export class FirestoreOrderRepository implements OrderRepository {
         }
 
         if (!productSnap.exists) {
-          throw this.createProductNotFoundError(item.productId);
+          throw createProductNotFoundError(item.productId);
         }
 
-        const productData = productSnap.data() || {};
-        const productName =
-          typeof productData.name === 'string' ? productData.name : 'Unnamed product';
-        const unitPriceRaw = Number(productData.price ?? 0);
-        const unitPrice = Number.isFinite(unitPriceRaw) && unitPriceRaw >= 0 ? unitPriceRaw : 0;
-
-        const stockRaw =
-          typeof productData.stock === 'number'
-            ? productData.stock
-            : typeof productData.stock === 'string'
-              ? Number(productData.stock)
-              : 0;
-        const availableStock =
-          Number.isFinite(stockRaw) && stockRaw >= 0 ? Math.floor(stockRaw) : 0;
-
-        if (quantity > availableStock) {
-          throw this.createInsufficientStockError(
+        const product =
+          updatedProducts.get(item.productId)?.product ??
+          mapDocToProduct(productSnap.id, productSnap.data() || {});
+        const variant = resolveVariant(product, item.variantId);
+        const orderItem = buildOrderItem(product, variant, quantity);
+        const available = availableStock(product, variant);
+
+        if (quantity > available) {
+          throw createInsufficientStockError(
             item.productId,
-            productName,
-            availableStock,
-            quantity
+            orderItem.variantName
+              ? `${orderItem.productName} (${orderItem.variantName})`
+              : orderItem.productName,
+            available,
+            quantity,
+            variant?.id
           );
         }
 
-        const itemTotal = unitPrice * quantity;
-        subtotal += itemTotal;
-
-        const productImageCandidate =
-          Array.isArray(productData.images) && typeof productData.images[0] === 'string'
-            ? (productData.images[0] as string)
-            : Array.isArray(productData.imageUrls) && typeof productData.imageUrls[0] === 'string'
-              ? (productData.imageUrls[0] as string)
-              : undefined;
-
-        const orderItem: Order['items'][number] = {
-          productId: item.productId,
-          productName,
-          quantity,
-          unitPrice,
-          totalPrice: itemTotal,
-        };
-
-        if (typeof productImageCandidate === 'string') {
-          orderItem.productImage = productImageCandidate;
-        }
-
+        updatedProducts.set(item.productId, {
+          ref: productRef,
+          product: withStockChange(product, variant?.id, -quantity)!,
+        });
         orderItems.push(orderItem);
       }
 
+      const pricing = this.pricing.price({
+        lines: orderItems,
+        destination: orderData.shippingAddress,
+        promotion,
+      });
+
       // PHASE 3: Perform all writes after all reads are complete
-      for (const { productRef, item } of productReads) {
+      for (const { ref, product } of updatedProducts.values()) {
+        tx.update(ref, this.stockFields(product));
+      }
+      const balances = new Map<string, number>();
+      for (const { item, snap } of productReads) {
         const quantity = Math.floor(item.quantity);
-        tx.update(productRef, {
-          stock: admin.firestore.FieldValue.increment(-quantity),
+        const balanceAfter =
+          (balances.get(item.productId) ?? mapDocToProduct(snap.id, snap.data() || {}).stock) -
+          quantity;
+        balances.set(item.productId, balanceAfter);
+        writeStockMovement(tx, {
+          productId: item.productId,
+          variantId: item.variantId,
+          type: StockMovementType.SALE,
+          quantity: -quantity,
+          balanceAfter,
+          orderId: orderDocRef.id,
+          actorId: userId,
+          actorEmail: userEmail,
         });
       }
 
-      const taxRate = 0.1;
-      const taxAmount = subtotal * taxRate;
-      const shippingCost = this.calculateShippingCost(subtotal);
-      const totalAmount = subtotal + taxAmount + shippingCost;
-
       const firestoreOrder = {
         userId,
         userEmail,
         items: orderItems,
-        subtotal,
-        taxAmount,
-        shippingCost,
-        totalAmount,
+        subtotal: pricing.subtotal,
+        discountAmount: pricing.discountAmount,
+        ...(pricing.discount ? { discount: pricing.discount } : {}),
+        taxAmount: pricing.taxAmount,
+        shippingCost: pricing.shippingCost,
+        totalAmount: pricing.totalAmount,
         status: OrderStatus.PENDING,
         paymentStatus: PaymentStatus.PENDING,
         paymentMethod: orderData.paymentMethod,
@@ -201,6 +240,23 @@ export class FirestoreOrderRepository implements OrderRepository {
       };
 
       tx.set(orderDocRef, firestoreOrder);
+
+      if (promotion) {
+        const promotionRef = db.collection(PROMOTIONS_COLLECTION).doc(promotion.promotion.id);
+        const redemption: PromotionRedemption = {
+          promotionId: promotion.promotion.id,
+          userId,
+          orderId: orderDocRef.id,
+          createdAt: now.getTime(),
+        };
+        tx.update(promotionRef, {
+          redemptionCount: admin.firestore.FieldValue.increment(1),
+        });
+        tx.set(
+          promotionRef.collection(PROMOTION_REDEMPTIONS_SUBCOLLECTION).doc(orderDocRef.id),
+          redemption
+        );
+      }
     });
 
     // Fetch the created order to return complete data
@@ -208,6 +264,40 @@ export class FirestoreOrderRepository implements OrderRepository {
     return this.mapFirestoreDocToOrder(createdDoc.id, createdDoc.data()!);
   }
 
+  /**
+   * Price a prospective order with current product prices without reserving stock
+   *
+   * @param {QuoteOrderInput} input - Cart lines and optional destination
+   * @returns {Promise<OrderQuote>} Priced lines and totals
+   * @throws {Error} If a product does not exist
+   */
+  async quote(input: QuoteOrderInput): Promise<OrderQuote> {
+    const db = getDb();
+    const refs = input.items.map((item) =>
+      db.collection(this.productsCollectionName).doc(item.productId)
+    );
+    const snaps = refs.length ? await db.getAll(...refs) : [];
+
+    const items: OrderItem[] = input.items.map((item, index) => {
+      const quantity = Math.floor(item.quantity);
+      if (!Number.isFinite(quantity) || quantity <= 0) {
+        throw new Error(`Invalid quantity for product ${item.productId}: ${item.quantity}`);
+      }
+      const snap = snaps[index];
+      if (!snap?.exists) {
+        throw createProductNotFoundError(item.productId);
+      }
+      const product = mapDocToProduct(snap.id, snap.data() || {});
+      return buildOrderItem(product, resolveVariant(product, item.variantId), quantity);
+    });
+
+    const promotion = await this.resolvePromotion(db, input.promoCode);
+    return {
+      items,
+      ...this.pricing.price({ lines: items, destination: input.shippingAddress, promotion }),
+    };
+  }
+
   /**
    * Find an order by ID
    *
@@ -294,15 +384,41 @@ export class FirestoreOrderRepository implements OrderRepository {
     return snapshot.docs.map((doc) => this.mapFirestoreDocToOrder(doc.id, doc.data()));
   }
 
+  /**
+   * Find lapsed reservations. Status and payment status are both filtered in
+   * the query, served by the (status, paymentStatus, createdAt ASC) index.
+   *
+   * @param {Date} createdBefore - Reservation cutoff
+   * @param {number} limit - Maximum number of orders to return
+   * @returns {Promise<Order[]>} Unpaid pending orders, oldest first
+   */
+  async findExpiredReservations(createdBefore: Date, limit: number): Promise<Order[]> {
+    const snapshot = await getDb()
+      .collection(this.collectionName)
+      .where('status', '==', OrderStatus.PENDING)
+      .where('paymentStatus', 'in', [...UNPAID_PAYMENT_STATUSES])
+      .where('createdAt', '<', admin.firestore.Timestamp.fromDate(createdBefore))
+      .orderBy('createdAt', 'asc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map((doc) => this.mapFirestoreDocToOrder(doc.id, doc.data()));
+  }
+
   /**
    * Update an existing order
    *
    * @param {string} id - Order ID to update
    * @param {UpdateOrderInput} updateData - Data to update
+   * @param {OrderUpdateOptions} [options] - Guard on the current state and the acting user
    * @returns {Promise<Order>} The updated order
-   * @throws {Error} If order not found or update fails
+   * @throws {Error} If order not found, the guard fails or update fails
    */
-  async update(id: string, updateData: UpdateOrderInput): Promise<Order> {
+  async update(
+    id: string,
+    updateData: UpdateOrderInput,
+    options?: OrderUpdateOptions
+  ): Promise<Order> {
+    const guard = options?.guard;
     const db = getDb();
     const orderRef = db.collection(this.collectionName).doc(id);
     const now = new Date();
@@ -311,10 +427,20 @@ export class FirestoreOrderRepository implements OrderRepository {
       const orderDoc = await tx.get(orderRef);
 
       if (!orderDoc.exists) {
-        throw this.createOrderNotFoundError(id);
+        throw createOrderNotFoundError(id);
       }
 
       const existing = orderDoc.data() || {};
+      if (
+        (guard?.statuses && !guard.statuses.includes(existing.status)) ||
+        (guard?.paymentStatuses && !guard.paymentStatuses.includes(existing.paymentStatus)) ||
+        (guard?.payment &&
+          ((existing.payment?.paymentId ?? null) !== guard.payment.paymentId ||
+            (guard.payment.versionBelow !== undefined &&
+              Number(existing.payment?.version ?? 0) >= guard.payment.versionBelow)))
+      ) {
+        throw createOrderStateChangedError(id, existing.status);
+      }
       const updatePayload: Record<string, unknown> = {
         updatedAt: admin.firestore.Timestamp.fromDate(now),
       };
@@ -325,6 +451,9 @@ export class FirestoreOrderRepository implements OrderRepository {
       if (updateData.paymentStatus !== undefined) {
         updatePayload.paymentStatus = updateData.paymentStatus;
       }
+      if (updateData.payment !== undefined) {
+        updatePayload.payment = updateData.payment;
+      }
       if (updateData.notes !== undefined) {
         updatePayload.notes = updateData.notes;
       }
@@ -354,7 +483,13 @@ export class FirestoreOrderRepository implements OrderRepository {
 
       if (willReleaseInventory) {
         const items = Array.isArray(existing.items) ? existing.items : [];
-        await this.restoreInventory(tx, db, items);
+        const redemption = await this.readRedemption(tx, db, id, existing.discount);
+        await this.restoreInventory(tx, db, unreleasedItems(items, existing.restockedQuantities), {
+          orderId: id,
+          actor: options?.actor,
+          reason: `Order ${updateData.status}`,
+        });
+        this.releaseRedemption(tx, redemption);
         updatePayload.inventoryReleased = true;
       }
 
@@ -369,10 +504,11 @@ export class FirestoreOrderRepository implements OrderRepository {
    * Delete an order (admin function)
    *
    * @param {string} id - Order ID to delete
+   * @param {StockActor} [actor] - Who deleted it
    * @returns {Promise<void>}
    * @throws {Error} If order not found
    */
-  async delete(id: string): Promise<void> {
+  async delete(id: string, actor?: StockActor): Promise<void> {
     const db = getDb();
     const orderRef = db.collection(this.collectionName).doc(id);
 
@@ -380,13 +516,19 @@ export class FirestoreOrderRepository implements OrderRepository {
       const orderDoc = await tx.get(orderRef);
 
       if (!orderDoc.exists) {
-        throw this.createOrderNotFoundError(id);
+        throw createOrderNotFoundError(id);
       }
 
       const data = orderDoc.data() || {};
       if (data.inventoryReleased !== true) {
         const items = Array.isArray(data.items) ? data.items : [];
-        await this.restoreInventory(tx, db, items);
+        const redemption = await this.readRedemption(tx, db, id, data.discount);
+        await this.restoreInventory(tx, db, unreleasedItems(items, data.restockedQuantities), {
+          orderId: id,
+          actor,
+          reason: 'Order deleted',
+        });
+        this.releaseRedemption(tx, redemption);
       }
 
       tx.delete(orderRef);
@@ -405,65 +547,164 @@ export class FirestoreOrderRepository implements OrderRepository {
     return order?.userId === userId;
   }
 
-  private createInsufficientStockError(
-    productId: string,
-    productName: string,
-    available: number,
-    requested: number
-  ): Error {
-    const error = new Error(
-      `Insufficient stock for ${productName}. Requested ${requested}, but only ${available} left.`
+  /**
+   * Look up a promo code and the caller's prior redemptions of it. Pass the
+   * order transaction so the reads are part of it.
+   *
+   * @throws {Error} With code PROMOTION_NOT_FOUND when the code does not exist
+   * @private
+   */
+  private async resolvePromotion(
+    reader: admin.firestore.Transaction | admin.firestore.Firestore,
+    promoCode?: string,
+    userId?: string
+  ): Promise<PromotionContext | undefined> {
+    if (!promoCode) return undefined;
+    const code = normalizePromoCode(promoCode);
+    const db = getDb();
+    const read = (query: admin.firestore.Query) =>
+      reader instanceof admin.firestore.Transaction ? reader.get(query) : query.get();
+
+    const snap = await read(
+      db.collection(PROMOTIONS_COLLECTION).where('code', '==', code).limit(1)
     );
-    (error as any).code = 'INSUFFICIENT_STOCK';
-    (error as any).productId = productId;
-    (error as any).available = available;
-    (error as any).requested = requested;
-    return error;
-  }
+    const doc = snap.docs[0];
+    if (!doc) {
+      throw createPromotionNotFoundError(code);
+    }
 
-  private createProductNotFoundError(productId: string): Error {
-    const error = new Error(`Product not found: ${productId}`);
-    (error as any).code = 'PRODUCT_NOT_FOUND';
-    (error as any).productId = productId;
-    return error;
-  }
+    let userRedemptions = 0;
+    if (userId) {
+      const redemptions = await read(
+        doc.ref.collection(PROMOTION_REDEMPTIONS_SUBCOLLECTION).where('userId', '==', userId)
+      );
+      userRedemptions = redemptions.size;
+    }
 
-  private createOrderNotFoundError(orderId: string): Error {
-    const error = new Error(`Order not found: ${orderId}`);
-    (error as any).status = 404;
-    return error;
+    return { promotion: mapDocToPromotion(doc.id, doc.data()), userRedemptions, now: Date.now() };
   }
 
+  /**
+   * Put order quantities back into stock and record the releases in the
+   * stock ledger. Every product is read before the first write, as Firestore
+   * transactions require.
+   *
+   * @private
+   */
   private async restoreInventory(
     tx: admin.firestore.Transaction,
     db: admin.firestore.Firestore,
-    items: Array<{ productId?: string; quantity?: number }>
+    items: Array<{ productId?: string; variantId?: string; quantity?: number }>,
+    context: { orderId: string; actor?: StockActor; reason: string }
   ): Promise<void> {
     if (!Array.isArray(items)) return;
+    const lines: Array<{ productId: string; variantId?: string; quantity: number }> = [];
     for (const item of items) {
       const productId = typeof item.productId === 'string' ? item.productId : null;
       const qtyRaw = Number(item?.quantity ?? 0);
       const quantity = Number.isFinite(qtyRaw) ? Math.floor(qtyRaw) : 0;
       if (!productId || quantity <= 0) continue;
-      const productRef = db.collection(this.productsCollectionName).doc(productId);
-      const productDoc = await tx.get(productRef);
+      const variantId = typeof item.variantId === 'string' ? item.variantId : undefined;
+      lines.push({ productId, variantId, quantity });
+    }
+    if (lines.length === 0) return;
+
+    const productIds = Array.from(new Set(lines.map((line) => line.productId)));
+    const productDocs = await tx.getAll(
+      ...productIds.map((productId) => db.collection(this.productsCollectionName).doc(productId))
+    );
+    const products = new Map<
+      string,
+      { ref: admin.firestore.DocumentReference; product: Product }
+    >();
+    for (const productDoc of productDocs) {
       if (!productDoc.exists) continue;
-      tx.update(productRef, {
-        stock: admin.firestore.FieldValue.increment(quantity),
+      products.set(productDoc.id, {
+        ref: productDoc.ref,
+        product: mapDocToProduct(productDoc.id, productDoc.data() || {}),
+      });
+    }
+
+    const touched = new Set<string>();
+    for (const line of lines) {
+      const entry = products.get(line.productId);
+      if (!entry) continue;
+      const next = withStockChange(entry.product, line.variantId, line.quantity);
+      if (next) {
+        entry.product = next;
+        touched.add(line.productId);
+      }
+      writeStockMovement(tx, {
+        productId: line.productId,
+        variantId: line.variantId,
+        type: StockMovementType.RELEASE,
+        quantity: next ? line.quantity : 0,
+        balanceAfter: entry.product.stock,
+        orderId: context.orderId,
+        actorId: context.actor?.id,
+        actorEmail: context.actor?.email,
+        reason: next ? context.reason : orphanedReleaseReason(line.quantity),
+      });
+    }
+    for (const productId of touched) {
+      const { ref, product } = products.get(productId)!;
+      tx.update(ref, this.stockFields(product));
+    }
+  }
+
+  /**
+   * Read the promotion use an order took. Firestore needs every read of a
+   * transaction before its first write, so this runs ahead of restoreInventory
+   * and releaseRedemption applies the result afterwards.
+   *
+   * @private
+   */
+  private async readRedemption(
+    tx: admin.firestore.Transaction,
+    db: admin.firestore.Firestore,
+    orderId: string,
+    discount: { promotionId?: unknown } | undefined
+  ): Promise<PendingRedemptionRelease | null> {
+    if (typeof discount?.promotionId !== 'string') return null;
+    const promotionRef = db.collection(PROMOTIONS_COLLECTION).doc(discount.promotionId);
+    const redemptionRef = promotionRef.collection(PROMOTION_REDEMPTIONS_SUBCOLLECTION).doc(orderId);
+    const [promotionDoc, redemptionDoc] = await tx.getAll(promotionRef, redemptionRef);
+    if (!redemptionDoc.exists) return null;
+    return {
+      redemptionRef,
+      promotionRef: promotionDoc.exists ? promotionRef : undefined,
+      redemptionCount: Number(promotionDoc.data()?.redemptionCount ?? 0),
+    };
+  }
+
+  /**
+   * Give back a promotion use read by readRedemption, so cancelled, refunded
+   * and deleted orders stop counting towards maxRedemptions
+   *
+   * @private
+   */
+  private releaseRedemption(
+    tx: admin.firestore.Transaction,
+    pending: PendingRedemptionRelease | null
+  ): void {
+    if (!pending) return;
+    tx.delete(pending.redemptionRef);
+    if (pending.promotionRef) {
+      tx.update(pending.promotionRef, {
+        redemptionCount: Math.max(0, pending.redemptionCount - 1),
       });
     }
   }
 
   /**
-   * Calculate shipping cost based on subtotal.
-   * This logic is configurable via class properties.
+   * Stock fields to write back for a product read in the same transaction
    *
    * @private
-   * @param {number} subtotal - The order subtotal
-   * @returns {number} Shipping cost
    */
-  private calculateShippingCost(subtotal: number): number {
-    return subtotal > this.freeShippingThreshold ? 0 : this.defaultShippingCost;
+  private stockFields(product: Product): Record<string, unknown> {
+    return product.variants
+      ? { stock: product.stock, variants: product.variants }
+      : { stock: product.stock };
   }
 
   /**
@@ -481,12 +722,15 @@ export class FirestoreOrderRepository implements OrderRepository {
       userEmail: data.userEmail,
       items: data.items,
       subtotal: data.subtotal,
+      discountAmount: data.discountAmount ?? 0,
+      discount: data.discount,
       taxAmount: data.taxAmount,
       shippingCost: data.shippingCost,
       totalAmount: data.totalAmount,
       status: data.status,
       paymentStatus: data.paymentStatus,
       paymentMethod: data.paymentMethod,
+      payment: data.payment,
       shippingAddress: data.shippingAddress,
       tracking: data.tracking
         ? {
@@ -0,0 +1,36 @@
+import { getDb } from '../../config/firestore';
+import type { Cart } from '../../domain/cart';
+import type { CartsRepo } from '../ports/carts.repo';
+
+const COLLECTION = 'carts'; // docs keyed by cart id
+
+export const fsCartsRepo: CartsRepo = {
+  async get(id) {
+    const snap = await getDb().collection(COLLECTION).doc(id).get();
+    if (!snap.exists) return null;
+    return snap.data() as Cart;
+  },
+  async update(id, apply) {
+    const db = getDb();
+    const ref = db.collection(COLLECTION).doc(id);
+    return db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      const cart = apply(snap.exists ? (snap.data() as Cart) : null);
+      tx.set(ref, cart);
+      return cart;
+    });
+  },
+  async remove(id) {
+    await getDb().collection(COLLECTION).doc(id).delete();
+  },
+  async removeExpired(now, limit) {
+    const db = getDb();
+    // User carts have expiresAt null, which a range filter never matches
+    const snap = await db.collection(COLLECTION).where('expiresAt', '<', now).limit(limit).get();
+    if (snap.empty) return 0;
+    const batch = db.batch();
+    for (const doc of snap.docs) batch.delete(doc.ref);
+    await batch.commit();
+    return snap.size;
+  },
+};
@@ -0,0 +1,15 @@
+import { getDb } from '../../config/firestore';
+import type { ConfigRepo } from '../ports/config.repo';
+
+const COLLECTION = 'config';
+
+export const fsConfigRepo: ConfigRepo = {
+  async get<T extends Record<string, unknown>>(key: string) {
+    const snap = await getDb().collection(COLLECTION).doc(key).get();
+    if (!snap.exists) return null;
+    return snap.data() as T;
+  },
+  async merge(key, value) {
+    await getDb().collection(COLLECTION).doc(key).set(value, { merge: true });
+  },
+};
@@ -0,0 +1,57 @@
+import { getDb } from '../../config/firestore';
+import type { OutboxEmail } from '../../domain/email';
+import type { EmailOutboxRepo } from '../ports/emailOutbox.repo';
+
+const COLLECTION = 'email_outbox';
+
+function fromDoc(id: string, data: FirebaseFirestore.DocumentData): OutboxEmail {
+  return { id, ...(data as Omit<OutboxEmail, 'id'>) };
+}
+
+export const fsEmailOutboxRepo: EmailOutboxRepo = {
+  async enqueue(email) {
+    const { id, ...data } = email;
+    await getDb().collection(COLLECTION).doc(id).set(data);
+  },
+  async get(id) {
+    const snap = await getDb().collection(COLLECTION).doc(id).get();
+    return snap.exists ? fromDoc(snap.id, snap.data()!) : null;
+  },
+  async listDue(now, limit) {
+    const snap = await getDb()
+      .collection(COLLECTION)
+      .where('status', '==', 'pending')
+      .where('nextAttemptAt', '<=', now)
+      .orderBy('nextAttemptAt', 'asc')
+      .limit(limit)
+      .get();
+    return snap.docs.map((doc) => fromDoc(doc.id, doc.data()));
+  },
+  async claim(id, now, claimUntil) {
+    const db = getDb();
+    const ref = db.collection(COLLECTION).doc(id);
+    return db.runTransaction(async (tx) => {
+      const email = (await tx.get(ref)).data() as Omit<OutboxEmail, 'id'> | undefined;
+      if (!email || email.status !== 'pending' || email.nextAttemptAt > now) return false;
+      tx.update(ref, { nextAttemptAt: claimUntil });
+      return true;
+    });
+  },
+  async update(id, patch) {
+    await getDb().collection(COLLECTION).doc(id).update(patch);
+  },
+  async removeSent(before, limit) {
+    const db = getDb();
+    const snap = await db
+      .collection(COLLECTION)
+      .where('status', '==', 'sent')
+      .where('sentAt', '<', before)
+      .limit(limit)
+      .get();
+    if (snap.empty) return 0;
+    const batch = db.batch();
+    for (const doc of snap.docs) batch.delete(doc.ref);
+    await batch.commit();
+    return snap.size;
+  },
+};
@@ -0,0 +1,30 @@
+import { getDb } from '../../config/firestore';
+import type {
+  EmailVerificationRecord,
+  EmailVerificationsRepo,
+} from '../ports/emailVerifications.repo';
+
+const COLLECTION = 'email_verifications'; // docs keyed by sha256(token)
+
+export const fsEmailVerificationsRepo: EmailVerificationsRepo = {
+  async create(tokenHash, record) {
+    await getDb().collection(COLLECTION).doc(tokenHash).set(record);
+  },
+  async get(tokenHash) {
+    const snap = await getDb().collection(COLLECTION).doc(tokenHash).get();
+    if (!snap.exists) return null;
+    return snap.data() as EmailVerificationRecord;
+  },
+  async remove(tokenHash) {
+    await getDb().collection(COLLECTION).doc(tokenHash).delete();
+  },
+  async removeExpired(now, limit) {
+    const db = getDb();
+    const snap = await db.collection(COLLECTION).where('expiresAt', '<', now).limit(limit).get();
+    if (snap.empty) return 0;
+    const batch = db.batch();
+    for (const doc of snap.docs) batch.delete(doc.ref);
+    await batch.commit();
+    return snap.size;
+  },
+};
@@ -0,0 +1,44 @@
+import { createHash } from 'crypto';
+import { getDb } from '../../config/firestore';
+import type { IdempotencyRecord } from '../../domain/idempotency';
+import type { IdempotencyRepo } from '../ports/idempotency.repo';
+
+const COLLECTION = 'idempotency_keys'; // docs keyed by sha256(key)
+
+// Keys are chosen by clients and may contain characters that are not valid in document IDs
+function docRef(key: string) {
+  return getDb().collection(COLLECTION).doc(createHash('sha256').update(key).digest('hex'));
+}
+
+export const fsIdempotencyRepo: IdempotencyRepo = {
+  async claim(record) {
+    const ref = docRef(record.key);
+    return getDb().runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      const existing = snap.exists ? (snap.data() as IdempotencyRecord) : null;
+      if (existing && existing.expiresAt >= Date.now()) return existing;
+      tx.set(ref, record);
+      return null;
+    });
+  },
+  async complete(key, responseStatus, responseBody) {
+    // Round-trip through JSON: Firestore refuses undefined values and class instances
+    await docRef(key).update({
+      status: 'completed',
+      responseStatus,
+      responseBody: responseBody === undefined ? null : JSON.parse(JSON.stringify(responseBody)),
+    });
+  },
+  async release(key) {
+    await docRef(key).delete();
+  },
+  async removeExpired(now, limit) {
+    const db = getDb();
+    const snap = await db.collection(COLLECTION).where('expiresAt', '<', now).limit(limit).get();
+    if (snap.empty) return 0;
+    const batch = db.batch();
+    for (const doc of snap.docs) batch.delete(doc.ref);
+    await batch.commit();
+    return snap.size;
+  },
+};
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fsInvoicesRepo } from './invoices.repo.fs';
+
+interface StoredDoc {
+  data: Record<string, unknown>;
+  version: number;
+}
+
+/**
+ * Just enough of Firestore for the invoices repo: documents by path, and
+ * optimistic transactions that retry when a document they read has changed
+ * by the time they commit.
+ */
+function createFakeDb() {
+  const docs = new Map<string, StoredDoc>();
+  const snapshot = (path: string) => {
+    const doc = docs.get(path);
+    return { exists: !!doc, data: () => (doc ? structuredClone(doc.data) : undefined) };
+  };
+  const db = {
+    collection: (collection: string) => ({
+      doc: (id: string) => {
+        const path = `${collection}/${id}`;
+        return { path, get: async () => snapshot(path) };
+      },
+    }),
+    async runTransaction<T>(fn: (tx: unknown) => Promise<T>): Promise<T> {
+      for (;;) {
+        const reads = new Map<string, number>();
+        const writes = new Map<string, Record<string, unknown>>();
+        const tx = {
+          async get(ref: { path: string }) {
+            reads.set(ref.path, docs.get(ref.path)?.version ?? 0);
+            return snapshot(ref.path);
+          },
+          set(ref: { path: string }, data: Record<string, unknown>) {
+            writes.set(ref.path, structuredClone(data));
+          },
+        };
+        const result = await fn(tx);
+        await Promise.resolve(); // commit after other transactions had a chance to run
+        const stale = [...reads].some(
+          ([path, version]) => (docs.get(path)?.version ?? 0) !== version
+        );
+        if (stale) continue;
+        for (const [path, data] of writes) {
+          docs.set(path, { data, version: (docs.get(path)?.version ?? 0) + 1 });
+        }
+        return result;
+      }
+    },
+  };
+  return { db, docs };
+}
+
+let fake = createFakeDb();
+
+vi.mock('../../config/firestore', () => ({ getDb: () => fake.db }));
+
+beforeEach(() => {
+  fake = createFakeDb();
+});
+
+describe('firestore invoices repo', () => {
+  it('takes concurrent invoice numbers from the counter without sharing one', async () => {
+    const issued = await Promise.all(
+      ['order-1', 'order-2', 'order-3'].map((orderId) => fsInvoicesRepo.issue(orderId, 1000))
+    );
+
+    expect(issued.map((i) => i.sequence).sort()).toEqual([1, 2, 3]);
+    expect(fake.docs.get('counters/invoices')?.data).toEqual({ last: 3 });
+  });
+
+  it('continues from the stored counter and keeps an issued invoice', async () => {
+    fake.docs.set('counters/invoices', { data: { last: 41 }, version: 1 });
+
+    const first = await fsInvoicesRepo.issue('order-1', 1000);
+    const again = await fsInvoicesRepo.issue('order-1', 2000);
+
+    expect(first).toMatchObject({ sequence: 42, number: 'INV-000042', issuedAt: 1000 });
+    expect(again).toEqual(first);
+    expect(await fsInvoicesRepo.getByOrder('order-1')).toEqual(first);
+    expect(fake.docs.get('counters/invoices')?.data).toEqual({ last: 42 });
+  });
+
+  it('gives one order a single number when it is issued twice at once', async () => {
+    const [a, b] = await Promise.all([
+      fsInvoicesRepo.issue('order-1', 1000),
+      fsInvoicesRepo.issue('order-1', 1000),
+    ]);
+
+    expect(a.number).toBe(b.number);
+    expect(fake.docs.get('counters/invoices')?.data).toEqual({ last: 1 });
+  });
+});
@@ -0,0 +1,32 @@
+import { getDb } from '../../config/firestore';
+import { formatInvoiceNumber, type InvoiceRecord } from '../../domain/invoices';
+import type { InvoicesRepo } from '../ports/invoices.repo';
+
+const COLLECTION = 'invoices'; // docs keyed by order ID
+const COUNTER = { collection: 'counters', doc: 'invoices' }; // { last: number }
+
+export const fsInvoicesRepo: InvoicesRepo = {
+  async getByOrder(orderId) {
+    const snap = await getDb().collection(COLLECTION).doc(orderId).get();
+    return snap.exists ? (snap.data() as InvoiceRecord) : null;
+  },
+  async issue(orderId, issuedAt) {
+    const db = getDb();
+    const ref = db.collection(COLLECTION).doc(orderId);
+    const counterRef = db.collection(COUNTER.collection).doc(COUNTER.doc);
+    return db.runTransaction(async (tx) => {
+      const [snap, counter] = await Promise.all([tx.get(ref), tx.get(counterRef)]);
+      if (snap.exists) return snap.data() as InvoiceRecord;
+      const sequence = ((counter.data()?.last as number | undefined) ?? 0) + 1;
+      const invoice: InvoiceRecord = {
+        orderId,
+        sequence,
+        number: formatInvoiceNumber(sequence),
+        issuedAt,
+      };
+      tx.set(counterRef, { last: sequence });
+      tx.set(ref, invoice);
+      return invoice;
+    });
+  },
+};
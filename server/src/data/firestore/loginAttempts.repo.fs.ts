@@ -0,0 +1,68 @@
+import { createHash } from 'crypto';
+import { getDb } from '../../config/firestore';
+import type {
+  AccountLoginAttempts,
+  IpLoginAttempts,
+  LoginAttemptsRepo,
+} from '../ports/loginAttempts.repo';
+
+const ACCOUNTS = 'login_attempts'; // docs keyed by sha256(email)
+const IPS = 'login_ip_attempts'; // docs keyed by sha256(ip)
+
+// Emails and IPv6 addresses may contain characters that are not valid in document IDs
+function docId(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export const fsLoginAttemptsRepo: LoginAttemptsRepo = {
+  async getAccount(email) {
+    const snap = await getDb().collection(ACCOUNTS).doc(docId(email)).get();
+    if (!snap.exists) return null;
+    return snap.data() as AccountLoginAttempts;
+  },
+  async recordFailure(email, ip, update) {
+    const db = getDb();
+    const accountRef = db.collection(ACCOUNTS).doc(docId(email));
+    const ipRef = ip ? db.collection(IPS).doc(docId(ip)) : null;
+    return db.runTransaction(async (tx) => {
+      const [accountSnap, ipSnap] = await tx.getAll(accountRef, ...(ipRef ? [ipRef] : []));
+      const next = update(
+        accountSnap.exists ? (accountSnap.data() as AccountLoginAttempts) : null,
+        ipSnap?.exists ? (ipSnap.data() as IpLoginAttempts) : null
+      );
+      tx.set(accountRef, next.account);
+      if (ipRef && next.ip) tx.set(ipRef, next.ip);
+      return next;
+    });
+  },
+  async removeAccount(email) {
+    await getDb().collection(ACCOUNTS).doc(docId(email)).delete();
+  },
+  async listLocked(now) {
+    const snap = await getDb().collection(ACCOUNTS).where('lockedUntil', '>', now).get();
+    return snap.docs.map((doc) => doc.data() as AccountLoginAttempts);
+  },
+  async getIp(ip) {
+    const snap = await getDb().collection(IPS).doc(docId(ip)).get();
+    if (!snap.exists) return null;
+    return snap.data() as IpLoginAttempts;
+  },
+  async removeStale(before, limit) {
+    const db = getDb();
+    let removed = 0;
+    for (const collection of [ACCOUNTS, IPS]) {
+      if (removed >= limit) break;
+      const snap = await db
+        .collection(collection)
+        .where('updatedAt', '<', before)
+        .limit(limit - removed)
+        .get();
+      if (snap.empty) continue;
+      const batch = db.batch();
+      for (const doc of snap.docs) batch.delete(doc.ref);
+      await batch.commit();
+      removed += snap.size;
+    }
+    return removed;
+  },
+};
@@ -0,0 +1,28 @@
+import { getDb } from '../../config/firestore';
+import type { TimelineEntry } from '../../domain/orderTimeline';
+import type { OrderTimelineRepo } from '../ports/orderTimeline.repo';
+
+const COLLECTION = 'order_timeline';
+
+function toEntry(id: string, data: FirebaseFirestore.DocumentData): TimelineEntry {
+  return { ...(data as Omit<TimelineEntry, 'id'>), id };
+}
+
+export const fsOrderTimelineRepo: OrderTimelineRepo = {
+  async append(input) {
+    const ref = getDb().collection(COLLECTION).doc();
+    // Firestore refuses undefined values
+    const payload = JSON.parse(JSON.stringify({ ...input, createdAt: Date.now() }));
+    await ref.set(payload);
+    return toEntry(ref.id, payload);
+  },
+
+  async listByOrder(orderId) {
+    const snap = await getDb()
+      .collection(COLLECTION)
+      .where('orderId', '==', orderId)
+      .orderBy('createdAt', 'asc')
+      .get();
+    return snap.docs.map((d) => toEntry(d.id, d.data()));
+  },
+};
@@ -0,0 +1,37 @@
+import { getDb } from '../../config/firestore';
+import type { PasswordResetRecord, PasswordResetsRepo } from '../ports/passwordResets.repo';
+
+const RESETS_COL = 'password_resets'; // docs keyed by sha256(token)
+const RATE_LIMIT_COL = 'password_reset_rl'; // docs keyed by userId => { nextAllowedAt }
+
+export const fsPasswordResetsRepo: PasswordResetsRepo = {
+  async create(tokenHash, record) {
+    await getDb().collection(RESETS_COL).doc(tokenHash).set(record);
+  },
+  async get(tokenHash) {
+    const snap = await getDb().collection(RESETS_COL).doc(tokenHash).get();
+    if (!snap.exists) return null;
+    return snap.data() as PasswordResetRecord;
+  },
+  async remove(tokenHash) {
+    await getDb().collection(RESETS_COL).doc(tokenHash).delete();
+  },
+  async getNextAllowedAt(userId) {
+    const snap = await getDb().collection(RATE_LIMIT_COL).doc(userId).get();
+    if (!snap.exists) return null;
+    const { nextAllowedAt } = snap.data() as { nextAllowedAt: number };
+    return nextAllowedAt;
+  },
+  async setNextAllowedAt(userId, nextAllowedAt) {
+    await getDb().collection(RATE_LIMIT_COL).doc(userId).set({ nextAllowedAt });
+  },
+  async removeExpired(now, limit) {
+    const db = getDb();
+    const snap = await db.collection(RESETS_COL).where('expiresAt', '<', now).limit(limit).get();
+    if (snap.empty) return 0;
+    const batch = db.batch();
+    for (const doc of snap.docs) batch.delete(doc.ref);
+    await batch.commit();
+    return snap.size;
+  },
+};
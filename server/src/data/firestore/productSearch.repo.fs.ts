@@ -0,0 +1,167 @@
+import * as admin from 'firebase-admin';
+import { getDb } from '../../config/firestore';
+import type { Product } from '../../domain/product';
+import type { ProductSearchRepo } from '../ports/productSearch.repo';
+import {
+  maxEdits,
+  type PostingList,
+  postingChanges,
+  productPostings,
+  runSearch,
+  termMatch,
+} from '../shared/searchIndex';
+import { mapDocToProduct, PRODUCTS_COLLECTION } from './products.repo.fs';
+
+/** One document per term, ID = the term, `{ postings: { [productId]: SearchPosting } }` */
+export const SEARCH_TERMS_COLLECTION = 'searchTerms';
+
+/** Longer prefixes are rarer, so this mostly bounds one- and two-letter queries */
+const PREFIX_TERM_LIMIT = 50;
+/** Terms sharing a query token's first letter that are checked for typos */
+const FUZZY_SCAN_LIMIT = 1000;
+const BATCH_SIZE = 400;
+
+/**
+ * Move a product's postings from `before` to `after` as part of the caller's
+ * transaction. Only changed terms are written; terms left empty stay behind
+ * as empty documents and are skipped at query time.
+ */
+export function writeSearchPostings(
+  tx: FirebaseFirestore.Transaction,
+  productId: string,
+  before?: Product,
+  after?: Product
+): void {
+  const terms = getDb().collection(SEARCH_TERMS_COLLECTION);
+  const { removed, upserted } = postingChanges(before, after);
+  for (const term of removed) {
+    tx.set(
+      terms.doc(term),
+      { postings: { [productId]: admin.firestore.FieldValue.delete() } },
+      { merge: true }
+    );
+  }
+  for (const [term, posting] of Object.entries(upserted)) {
+    tx.set(terms.doc(term), { postings: { [productId]: posting } }, { merge: true });
+  }
+}
+
+/**
+ * Firestore-backed product search.
+ *
+ * @remarks
+ * - Query tokens are resolved with document ID range queries on the term
+ *   collection: one for exact and prefix matches, and one listing IDs that
+ *   share the first letter to find typos, whose postings are then fetched.
+ * - Browsing without a query still reads the whole products collection, as
+ *   listing did before; facets need every product's category and price.
+ * - rebuild() rewrites every term document from the products collection in
+ *   batches and deletes terms no product uses any more.
+ * - backfill() only rebuilds when the term collection is empty, so it is
+ *   cheap enough to run on every start.
+ */
+export const fsProductSearchRepo: ProductSearchRepo = {
+  async search(params) {
+    const db = getDb();
+    const terms = db.collection(SEARCH_TERMS_COLLECTION);
+    const documentId = admin.firestore.FieldPath.documentId();
+    return runSearch(
+      {
+        async postings(tokens) {
+          const lists = new Map<string, PostingList>();
+          const nearMisses = new Set<string>();
+          await Promise.all(
+            tokens.map(async (token) => {
+              const prefixed = await terms
+                .where(documentId, '>=', token)
+                .where(documentId, '<', `${token}\uf8ff`)
+                .limit(PREFIX_TERM_LIMIT)
+                .get();
+              for (const doc of prefixed.docs) lists.set(doc.id, doc.get('postings') ?? {});
+              if (maxEdits(token) === 0) return;
+              const sameInitial = await terms
+                .where(documentId, '>=', token[0])
+                .where(documentId, '<', `${token[0]}\uf8ff`)
+                .select()
+                .limit(FUZZY_SCAN_LIMIT)
+                .get();
+              for (const doc of sameInitial.docs) {
+                if (termMatch(token, doc.id) > 0) nearMisses.add(doc.id);
+              }
+            })
+          );
+          const refs = Array.from(nearMisses)
+            .filter((term) => !lists.has(term))
+            .map((term) => terms.doc(term));
+          if (refs.length) {
+            for (const doc of await db.getAll(...refs)) {
+              if (doc.exists) lists.set(doc.id, doc.get('postings') ?? {});
+            }
+          }
+          return lists;
+        },
+
+        async documentCount() {
+          const snap = await db.collection(PRODUCTS_COLLECTION).count().get();
+          return snap.data().count;
+        },
+
+        async all() {
+          const snap = await db.collection(PRODUCTS_COLLECTION).get();
+          return snap.docs.map((d) => mapDocToProduct(d.id, d.data()));
+        },
+
+        async load(ids) {
+          if (ids.length === 0) return [];
+          const products = db.collection(PRODUCTS_COLLECTION);
+          const docs = await db.getAll(...ids.map((id) => products.doc(id)));
+          return docs.filter((d) => d.exists).map((d) => mapDocToProduct(d.id, d.data()!));
+        },
+      },
+      params
+    );
+  },
+
+  async rebuild() {
+    const db = getDb();
+    const [productsSnap, termsSnap] = await Promise.all([
+      db.collection(PRODUCTS_COLLECTION).get(),
+      db.collection(SEARCH_TERMS_COLLECTION).select().get(),
+    ]);
+    const index = new Map<string, PostingList>();
+    for (const doc of productsSnap.docs) {
+      const product = mapDocToProduct(doc.id, doc.data());
+      for (const [term, posting] of Object.entries(productPostings(product))) {
+        const list = index.get(term) ?? {};
+        list[product.id] = posting;
+        index.set(term, list);
+      }
+    }
+
+    const writes: Array<(batch: FirebaseFirestore.WriteBatch) => void> = [];
+    for (const [term, postings] of index) {
+      writes.push((batch) =>
+        batch.set(db.collection(SEARCH_TERMS_COLLECTION).doc(term), { postings })
+      );
+    }
+    for (const doc of termsSnap.docs) {
+      if (!index.has(doc.id)) writes.push((batch) => batch.delete(doc.ref));
+    }
+    for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+      const batch = db.batch();
+      for (const write of writes.slice(i, i + BATCH_SIZE)) write(batch);
+      await batch.commit();
+    }
+    return productsSnap.size;
+  },
+
+  async backfill() {
+    const db = getDb();
+    const [productsSnap, termsSnap] = await Promise.all([
+      db.collection(PRODUCTS_COLLECTION).select().limit(1).get(),
+      db.collection(SEARCH_TERMS_COLLECTION).select().limit(1).get(),
+    ]);
+    if (productsSnap.empty || !termsSnap.empty) return 0;
+    return this.rebuild();
+  },
+};
@@ -1,10 +1,56 @@
+import * as admin from 'firebase-admin';
 import { getDb } from '../../config/firestore';
-import type { Product } from '../../domain/product';
+import { StockMovementType } from '../../domain/inventory';
+import type { Product, ProductOption, ProductVariant } from '../../domain/product';
+import { emptyRatingCounts } from '../../domain/reviews';
 import type { ProductsRepo } from '../ports/products.repo';
+import { buildListPage, DEFAULT_LIST_LIMIT, readListCursor } from '../shared/productCursor';
+import { buildProductTimeseries } from '../shared/productTimeseries';
+import { applyVariantStock, stockAdjustments, totalVariantStock } from '../shared/variants';
+import { writeSearchPostings } from './productSearch.repo.fs';
+import { writeStockMovement } from './stockMovements.repo.fs';
 
-const COLLECTION = 'products';
+export const PRODUCTS_COLLECTION = 'products';
+/** Firestore caps `in` filters at 30 values */
+const SKU_QUERY_CHUNK = 30;
 
-function mapDocToProduct(id: string, data: FirebaseFirestore.DocumentData): Product {
+function toStock(value: unknown): number {
+  const stock = Math.floor(
+    Number(typeof value === 'number' ? value : typeof value === 'string' ? value : 0)
+  );
+  return Number.isFinite(stock) && stock >= 0 ? stock : 0;
+}
+
+function mapOptions(raw: unknown): ProductOption[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((o) => o && typeof o.name === 'string' && Array.isArray(o.values))
+    .map((o) => ({
+      name: o.name,
+      values: o.values.filter((v: unknown): v is string => typeof v === 'string'),
+    }));
+}
+
+function mapVariants(raw: unknown): ProductVariant[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((v) => v && typeof v.id === 'string')
+    .map((v) => {
+      const price = Number(v.price);
+      return {
+        id: v.id,
+        sku: typeof v.sku === 'string' ? v.sku : '',
+        options: v.options && typeof v.options === 'object' ? { ...v.options } : {},
+        ...(v.price != null && Number.isFinite(price) ? { price } : {}),
+        stock: toStock(v.stock),
+        ...(Array.isArray(v.images)
+          ? { images: v.images.filter((i: unknown): i is string => typeof i === 'string') }
+          : {}),
+      };
+    });
+}
+
+export function mapDocToProduct(id: string, data: FirebaseFirestore.DocumentData): Product {
   const createdAtRaw = data.createdAt;
   const createdAt =
     typeof createdAtRaw === 'number'
@@ -19,11 +65,8 @@ function mapDocToProduct(id: string, data: FirebaseFirestore.DocumentData): Prod
   const ratingValue = Number(data.rating ?? 0);
   const rating = Number.isFinite(ratingValue) ? Math.min(5, Math.max(0, ratingValue)) : 0;
 
-  const rawStock = Number(
-    typeof data.stock === 'number' ? data.stock : typeof data.stock === 'string' ? data.stock : 0
-  );
-  let stock = Math.floor(rawStock);
-  if (!Number.isFinite(stock) || stock < 0) stock = 0;
+  const variants = mapVariants(data.variants);
+  const stock = variants.length ? totalVariantStock(variants) : toStock(data.stock);
 
   const images =
     Array.isArray(data.images) && data.images.every((v) => typeof v === 'string')
@@ -35,58 +78,75 @@ function mapDocToProduct(id: string, data: FirebaseFirestore.DocumentData): Prod
   return {
     id,
     name: typeof data.name === 'string' ? data.name : 'Untitled product',
+    ...(typeof data.sku === 'string' && data.sku ? { sku: data.sku } : {}),
     price,
     description: typeof data.description === 'string' ? data.description : undefined,
     category: typeof data.category === 'string' ? data.category : 'uncategorised',
     rating,
+    ...(typeof data.reviewCount === 'number' ? { reviewCount: data.reviewCount } : {}),
+    ...(data.ratingCounts && typeof data.ratingCounts === 'object'
+      ? { ratingCounts: { ...emptyRatingCounts(), ...data.ratingCounts } }
+      : {}),
     stock,
+    ...(typeof data.lowStockThreshold === 'number'
+      ? { lowStockThreshold: data.lowStockThreshold }
+      : {}),
     createdAt,
     images,
+    ...(variants.length ? { options: mapOptions(data.options), variants } : {}),
   };
 }
 
 /**
  * Firestore-backed implementation of the ProductsRepo interface.
  *
- * Uses getDb() and a COLLECTION constant to interact with a Firestore collection
+ * Uses getDb() and a PRODUCTS_COLLECTION constant to interact with a Firestore collection
  * of product documents. All methods perform simple, promise-based Firestore
  * operations and convert Firestore documents into Product objects with an `id`
  * property added from the document ID.
  *
  * @remarks
- * - Sorting: list() accepts an optional sort descriptor; when combined with
- *   filters in Firestore you may need to create composite indexes in your
- *   Firebase project.
+ * - Sorting and paging: list() orders by the sort field and then document
+ *   ID and pages with startAfter() on those values, so a page costs `limit`
+ *   reads plus one count() aggregation. Combining a sort with filters needs a
+ *   composite index (the error handler surfaces the console link).
  * - Timestamps: create() adds a `createdAt` timestamp using Date.now() (a
  *   numeric milliseconds value).
- * - Concurrency: update() reads the document first and throws when it does not
- *   exist; it then applies a patch via update() and returns the freshly-read
- *   document. If strong concurrency control is required, consider using
- *   transactions or optimistic concurrency patterns (e.g. version fields).
+ * - Concurrency: update() reads and patches the document in a transaction and
+ *   throws when it does not exist, so a stock edit and its ledger entry are
+ *   written together and the recorded delta matches what was overwritten.
+ * - Variants: stored inline on the product document; `stock` is kept equal to
+ *   the sum of variant stock so list views and alerts need not read variants.
+ * - Search: create(), update() and remove() update the `searchTerms` index in
+ *   the same transaction as the product; list() no longer matches text.
  * - stats(): computes count and average price by fetching all documents and
  *   aggregating in-memory; for large collections prefer a server-side
  *   aggregation strategy.
  *
  * Methods:
- * - list(params?): Promise<Product[]>
+ * - list(params?): Promise<ProductListPage>
  *   - params.sort?: { field: string; dir: 'asc' | 'desc' }
- *   - Returns all products (optionally ordered). Each product includes its
- *     Firestore doc id under `id`.
+ *   - params.limit?, params.cursor?: page size and a cursor from a previous page
+ *   - Returns one page of products with the filtered total and the cursors of
+ *     the neighbouring pages. Each product includes its Firestore doc id under `id`.
  *
  * - getById(id: string): Promise<Product | null>
  *   - Returns the product for the given id or null if not found.
  *
+ * - findBySkus(skus: string[]): Promise<Product[]>
+ *   - Runs one `in` query per 30 SKUs, Firestore's limit for that operator.
+ *
  * - create(input: Partial<Product>): Promise<Product>
  *   - Adds a new product document to Firestore with a `createdAt` timestamp.
  *   - Returns the created product including its generated `id`.
  *
- * - update(id: string, patch: Partial<Product>): Promise<Product>
+ * - update(id: string, patch: ProductPatch): Promise<Product>
  *   - Applies a patch to an existing product. Throws an Error when the target
  *     document does not exist. Returns the updated product object as stored in
  *     Firestore after the update.
  *
  * - remove(id: string): Promise<void>
- *   - Deletes the product document with the specified id.
+ *   - Deletes the product document with the specified id and its index postings.
  *
  * - stats(): Promise<{ count: number; avgPrice: number }>
  *   - Fetches all products and returns a simple aggregate: count of products
@@ -94,49 +154,54 @@ function mapDocToProduct(id: string, data: FirebaseFirestore.DocumentData): Prod
  *
  * @example
  * // list with sorting
- * const products = await fsProductsRepo.list({ sort: { field: 'price', dir: 'asc' } });
+ * const { data, nextCursor } = await fsProductsRepo.list({ sort: { field: 'price', dir: 'asc' } });
+ * const next = await fsProductsRepo.list({ sort: { field: 'price', dir: 'asc' }, cursor: nextCursor! });
  *
  * @throws Error
  * - update(): when the provided id does not exist in the Firestore collection.
  */
 export const fsProductsRepo: ProductsRepo = {
-  async list(params) {
+  async list(params = {}) {
     const db = getDb();
-    let q: FirebaseFirestore.Query = db.collection(COLLECTION);
-    const { sort, filter, page = 1, pageSize = 20 } = params || {};
-    // Apply server-side filters when feasible (category, price). Text search is in-memory fallback.
+    let q: FirebaseFirestore.Query = db.collection(PRODUCTS_COLLECTION);
+    const { sort, filter } = params;
+    const limit = params.limit ?? DEFAULT_LIST_LIMIT;
+    const position = readListCursor(params);
     if (filter?.category) q = q.where('category', '==', filter.category);
     if (filter?.minPrice != null) q = q.where('price', '>=', filter.minPrice);
     if (filter?.maxPrice != null) q = q.where('price', '<=', filter.maxPrice);
-    if (sort) q = q.orderBy(sort.field as string, sort.dir);
-    const snap = await q.get();
-    let items = snap.docs
-      .map((d) => {
-        const data = d.data();
-        return data ? mapDocToProduct(d.id, data) : null;
-      })
-      .filter((p): p is Product => Boolean(p));
-    // Client text filter fallback
-    if (filter?.q) {
-      const qlc = filter.q.toLowerCase();
-      items = items.filter(
-        (p) =>
-          p.name.toLowerCase().includes(qlc) || (p.description || '').toLowerCase().includes(qlc)
-      );
-    }
-    const total = items.length;
-    const start = Math.max(0, (page - 1) * pageSize);
-    const end = start + pageSize;
-    const data = items.slice(start, end);
-    return { data, total };
+    if (filter?.priceBelow != null) q = q.where('price', '<', filter.priceBelow);
+    const total = q.count().get();
+    // A backwards page reads in reverse from its cursor, then buildListPage flips it
+    const flip = (dir: 'asc' | 'desc') =>
+      position?.direction === 'before' ? (dir === 'asc' ? 'desc' : 'asc') : dir;
+    if (sort) q = q.orderBy(sort.field as string, flip(sort.dir));
+    q = q.orderBy(admin.firestore.FieldPath.documentId(), flip(sort?.dir ?? 'asc'));
+    if (position) q = sort ? q.startAfter(...position.key) : q.startAfter(position.key[1]);
+    const [snap, count] = await Promise.all([q.limit(limit + 1).get(), total]);
+    const rows = snap.docs.map((d) => mapDocToProduct(d.id, d.data()));
+    return buildListPage(rows, count.data().count, params, position);
   },
 
   async getById(id) {
-    const d = await getDb().collection(COLLECTION).doc(id).get();
+    const d = await getDb().collection(PRODUCTS_COLLECTION).doc(id).get();
     return d.exists ? mapDocToProduct(d.id, d.data()!) : null;
   },
 
-  async create(input) {
+  async findBySkus(skus) {
+    const products = getDb().collection(PRODUCTS_COLLECTION);
+    const unique = Array.from(new Set(skus));
+    const chunks: string[][] = [];
+    for (let i = 0; i < unique.length; i += SKU_QUERY_CHUNK) {
+      chunks.push(unique.slice(i, i + SKU_QUERY_CHUNK));
+    }
+    const snaps = await Promise.all(
+      chunks.map((chunk) => products.where('sku', 'in', chunk).get())
+    );
+    return snaps.flatMap((snap) => snap.docs.map((d) => mapDocToProduct(d.id, d.data())));
+  },
+
+  async create(input, actor) {
     const now = Date.now();
     const imagesInput =
       Array.isArray((input as any)?.images) &&
@@ -146,22 +211,35 @@ export const fsProductsRepo: ProductsRepo = {
     const stockRaw = Number((input as any)?.stock ?? 0);
     let stock = Math.floor(stockRaw);
     if (!Number.isFinite(stock) || stock < 0) stock = 0;
-    const payload: Omit<Product, 'id'> = {
+    const db = getDb();
+    const ref = db.collection(PRODUCTS_COLLECTION).doc();
+    const { id: _id, ...payload } = applyVariantStock({
       ...(input as any),
+      id: ref.id,
       images: imagesInput,
       stock,
       createdAt: now,
-    } as any;
-    const ref = await getDb()
-      .collection(COLLECTION)
-      .add(payload as any);
+    });
+    await db.runTransaction(async (tx) => {
+      tx.set(ref, payload as any);
+      writeSearchPostings(tx, ref.id, undefined, mapDocToProduct(ref.id, payload as any));
+      for (const adjustment of stockAdjustments(undefined, { ...payload, id: ref.id })) {
+        writeStockMovement(tx, {
+          productId: ref.id,
+          ...adjustment,
+          type: StockMovementType.ADJUSTMENT,
+          actorId: actor?.id,
+          actorEmail: actor?.email,
+          reason: 'Opening stock',
+        });
+      }
+    });
     return mapDocToProduct(ref.id, payload as any);
   },
 
-  async update(id, patch) {
-    const ref = getDb().collection(COLLECTION).doc(id);
-    const snap = await ref.get();
-    if (!snap.exists) throw new Error(`Product with id ${id} does not exist.`);
+  async update(id, patch, actor) {
+    const db = getDb();
+    const ref = db.collection(PRODUCTS_COLLECTION).doc(id);
     if (patch.stock != null) {
       const numericStock = Number(patch.stock);
       if (!Number.isFinite(numericStock) || numericStock < 0) {
@@ -174,18 +252,55 @@ export const fsProductsRepo: ProductsRepo = {
         ? patch.images.filter((value): value is string => typeof value === 'string')
         : [];
     }
-    await ref.update(patch);
+    await db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      if (!snap.exists) throw new Error(`Product with id ${id} does not exist.`);
+      const existing = mapDocToProduct(snap.id, snap.data()!);
+      const { lowStockThreshold, ...changes } = patch;
+      const next = applyVariantStock({ ...existing, ...changes, id }, existing, changes);
+      tx.update(ref, {
+        ...changes,
+        ...(lowStockThreshold !== undefined
+          ? { lowStockThreshold: lowStockThreshold ?? admin.firestore.FieldValue.delete() }
+          : {}),
+        stock: next.stock,
+        ...(patch.variants !== undefined && !next.variants
+          ? {
+              options: admin.firestore.FieldValue.delete(),
+              variants: admin.firestore.FieldValue.delete(),
+            }
+          : {}),
+      });
+      writeSearchPostings(tx, id, existing, next);
+      for (const adjustment of stockAdjustments(existing, next)) {
+        writeStockMovement(tx, {
+          productId: id,
+          ...adjustment,
+          type: StockMovementType.ADJUSTMENT,
+          actorId: actor?.id,
+          actorEmail: actor?.email,
+          reason: 'Stock edited',
+        });
+      }
+    });
     const updated = await ref.get();
     return mapDocToProduct(updated.id, updated.data()!);
   },
 
   async remove(id) {
-    await getDb().collection(COLLECTION).doc(id).delete();
+    const db = getDb();
+    const ref = db.collection(PRODUCTS_COLLECTION).doc(id);
+    await db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      if (!snap.exists) return;
+      tx.delete(ref);
+      writeSearchPostings(tx, id, mapDocToProduct(id, snap.data()!));
+    });
   },
 
   async stats() {
     // Fetch and compute; avoids referencing this.list to keep types simple
-    const snap = await getDb().collection(COLLECTION).get();
+    const snap = await getDb().collection(PRODUCTS_COLLECTION).get();
     const products: Product[] = snap.docs
       .map((d) => mapDocToProduct(d.id, d.data()))
       .filter((p): p is Product => Boolean(p));
@@ -198,37 +313,13 @@ export const fsProductsRepo: ProductsRepo = {
     const { windowDays = 30, interval = 'day' } = params || {};
     const since = Date.now() - windowDays * 24 * 60 * 60 * 1000;
     const snap = await getDb()
-      .collection(COLLECTION)
+      .collection(PRODUCTS_COLLECTION)
       .where('createdAt', '>=', since)
       .orderBy('createdAt', 'asc')
       .get();
     const items: Product[] = snap.docs
       .map((d) => mapDocToProduct(d.id, d.data()))
       .filter((p): p is Product => Boolean(p));
-    const buckets = new Map<number, { count: number; sum: number }>();
-    function bucketKey(ts: number): number {
-      const d = new Date(ts);
-      if (interval === 'week') {
-        // Monday-based week start
-        const day = d.getUTCDay();
-        const diff = (day + 6) % 7; // 0..6 (Mon=0)
-        const start =
-          Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()) - diff * 86400000;
-        return start;
-      }
-      if (interval === 'month') return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1);
-      return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
-    }
-    for (const p of items) {
-      const k = bucketKey(p.createdAt);
-      const b = buckets.get(k) || { count: 0, sum: 0 };
-      b.count += 1;
-      b.sum += p.price || 0;
-      buckets.set(k, b);
-    }
-    const rows = Array.from(buckets.entries())
-      .sort((a, b) => a[0] - b[0])
-      .map(([t, v]) => ({ t, count: v.count, avgPrice: v.count ? v.sum / v.count : 0 }));
-    return rows;
+    return buildProductTimeseries(items, interval);
   },
 };
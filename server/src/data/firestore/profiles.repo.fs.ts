@@ -0,0 +1,86 @@
+import { getDb } from '../../config/firestore';
+import type { SavedAddress, UserProfile } from '../../domain/profile';
+import type { ProfilesRepo } from '../ports/profiles.repo';
+
+const COLLECTION = 'profiles'; // docs keyed by userId
+const ADDRESSES = 'addresses'; // subcollection of each profile, docs keyed by address id
+
+function addressesOf(userId: string) {
+  return getDb().collection(COLLECTION).doc(userId).collection(ADDRESSES);
+}
+
+export const fsProfilesRepo: ProfilesRepo = {
+  async get(userId) {
+    const snap = await getDb().collection(COLLECTION).doc(userId).get();
+    if (!snap.exists) return null;
+    return snap.data() as UserProfile;
+  },
+  async save(profile) {
+    await getDb().collection(COLLECTION).doc(profile.userId).set(profile);
+  },
+  async listAddresses(userId) {
+    const snap = await addressesOf(userId).orderBy('createdAt').get();
+    return snap.docs.map((doc) => doc.data() as SavedAddress);
+  },
+  async getAddress(userId, id) {
+    const snap = await addressesOf(userId).doc(id).get();
+    if (!snap.exists) return null;
+    return snap.data() as SavedAddress;
+  },
+  async addAddress(userId, address, limit) {
+    const db = getDb();
+    return db.runTransaction(async (tx) => {
+      const snap = await tx.get(addressesOf(userId));
+      if (snap.size >= limit) return null;
+      const saved: SavedAddress = {
+        ...address,
+        isDefault:
+          address.isDefault || !snap.docs.some((doc) => (doc.data() as SavedAddress).isDefault),
+      };
+      if (saved.isDefault) {
+        for (const doc of snap.docs) {
+          if ((doc.data() as SavedAddress).isDefault) tx.update(doc.ref, { isDefault: false });
+        }
+      }
+      tx.set(addressesOf(userId).doc(saved.id), saved);
+      return saved;
+    });
+  },
+  async saveAddress(userId, address) {
+    await addressesOf(userId).doc(address.id).set(address);
+  },
+  async removeAddress(userId, id) {
+    const db = getDb();
+    return db.runTransaction(async (tx) => {
+      const snap = await tx.get(addressesOf(userId).orderBy('createdAt'));
+      const removed = snap.docs.find((doc) => doc.id === id);
+      if (!removed) return false;
+      tx.delete(removed.ref);
+      if ((removed.data() as SavedAddress).isDefault) {
+        const next = snap.docs.find((doc) => doc.id !== id);
+        if (next) tx.update(next.ref, { isDefault: true });
+      }
+      return true;
+    });
+  },
+  async setDefaultAddress(userId, id) {
+    const db = getDb();
+    return db.runTransaction(async (tx) => {
+      const snap = await tx.get(addressesOf(userId));
+      if (!snap.docs.some((doc) => doc.id === id)) return false;
+      for (const doc of snap.docs) {
+        const isDefault = doc.id === id;
+        if ((doc.data() as SavedAddress).isDefault !== isDefault) tx.update(doc.ref, { isDefault });
+      }
+      return true;
+    });
+  },
+  async removeAll(userId) {
+    const db = getDb();
+    const snap = await addressesOf(userId).get();
+    const batch = db.batch();
+    for (const doc of snap.docs) batch.delete(doc.ref);
+    batch.delete(db.collection(COLLECTION).doc(userId));
+    await batch.commit();
+  },
+};
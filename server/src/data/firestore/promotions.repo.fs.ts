@@ -0,0 +1,92 @@
+import { getDb } from '../../config/firestore';
+import { normalizePromoCode, type Promotion } from '../../domain/promotions';
+import type { PromotionsRepo } from '../ports/promotions.repo';
+
+export const PROMOTIONS_COLLECTION = 'promotions';
+export const PROMOTION_REDEMPTIONS_SUBCOLLECTION = 'redemptions'; // promotions/{id}/redemptions/{orderId}
+
+export function mapDocToPromotion(id: string, data: FirebaseFirestore.DocumentData): Promotion {
+  return {
+    ...(data as Omit<Promotion, 'id'>),
+    id,
+    redemptionCount: Number(data.redemptionCount ?? 0),
+    active: data.active !== false,
+  };
+}
+
+function codeTaken(): Error {
+  return Object.assign(new Error('Promo code already exists'), { status: 409 });
+}
+
+export const fsPromotionsRepo: PromotionsRepo = {
+  async list() {
+    const snap = await getDb().collection(PROMOTIONS_COLLECTION).orderBy('createdAt', 'desc').get();
+    return snap.docs.map((d) => mapDocToPromotion(d.id, d.data()));
+  },
+
+  async getById(id) {
+    const snap = await getDb().collection(PROMOTIONS_COLLECTION).doc(id).get();
+    return snap.exists ? mapDocToPromotion(snap.id, snap.data()!) : null;
+  },
+
+  async findByCode(code) {
+    const snap = await getDb()
+      .collection(PROMOTIONS_COLLECTION)
+      .where('code', '==', normalizePromoCode(code))
+      .limit(1)
+      .get();
+    const doc = snap.docs[0];
+    return doc ? mapDocToPromotion(doc.id, doc.data()) : null;
+  },
+
+  async create(input) {
+    const db = getDb();
+    const code = normalizePromoCode(input.code);
+    const ref = db.collection(PROMOTIONS_COLLECTION).doc();
+    const now = Date.now();
+    const payload: Omit<Promotion, 'id'> = {
+      ...input,
+      code,
+      redemptionCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.runTransaction(async (tx) => {
+      const existing = await tx.get(
+        db.collection(PROMOTIONS_COLLECTION).where('code', '==', code).limit(1)
+      );
+      if (!existing.empty) throw codeTaken();
+      tx.set(ref, payload);
+    });
+    return { ...payload, id: ref.id };
+  },
+
+  async update(id, input) {
+    const db = getDb();
+    const ref = db.collection(PROMOTIONS_COLLECTION).doc(id);
+    const code = normalizePromoCode(input.code);
+    return db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      if (!snap.exists) throw Object.assign(new Error('Promotion not found'), { status: 404 });
+      const clash = await tx.get(
+        db.collection(PROMOTIONS_COLLECTION).where('code', '==', code).limit(1)
+      );
+      if (clash.docs.some((d) => d.id !== id)) throw codeTaken();
+      const existing = mapDocToPromotion(id, snap.data()!);
+      const payload: Omit<Promotion, 'id'> = {
+        ...input,
+        code,
+        redemptionCount: existing.redemptionCount,
+        createdAt: existing.createdAt,
+        updatedAt: Date.now(),
+      };
+      // set (not update) so fields cleared in the form are removed
+      tx.set(ref, payload);
+      return { ...payload, id };
+    });
+  },
+
+  async remove(id) {
+    await getDb().collection(PROMOTIONS_COLLECTION).doc(id).delete();
+  },
+};
@@ -0,0 +1,48 @@
+import { createHash } from 'crypto';
+import { getDb } from '../../config/firestore';
+import { consumeRateLimit, type RateLimitState, refundRateLimit } from '../../domain/rateLimit';
+import type { RateLimitStore } from '../ports/rateLimits.repo';
+
+const COLLECTION = 'rate_limits'; // docs keyed by sha256(key)
+
+// Keys contain IP addresses, and IPv6 addresses contain characters that are not valid in document IDs
+function docRef(key: string) {
+  return getDb().collection(COLLECTION).doc(createHash('sha256').update(key).digest('hex'));
+}
+
+export const fsRateLimitStore: RateLimitStore = {
+  async consume(key, policy, now = Date.now()) {
+    const ref = docRef(key);
+    return getDb().runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      const { state, result } = consumeRateLimit(
+        snap.exists ? (snap.data() as RateLimitState) : null,
+        key,
+        policy,
+        now
+      );
+      tx.set(ref, state);
+      return result;
+    });
+  },
+  async refund(key, policy) {
+    const ref = docRef(key);
+    await getDb().runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      if (!snap.exists) return;
+      tx.set(ref, refundRateLimit(snap.data() as RateLimitState, policy));
+    });
+  },
+  async reset(key) {
+    await docRef(key).delete();
+  },
+  async removeExpired(now, limit) {
+    const db = getDb();
+    const snap = await db.collection(COLLECTION).where('expiresAt', '<=', now).limit(limit).get();
+    if (snap.empty) return 0;
+    const batch = db.batch();
+    for (const doc of snap.docs) batch.delete(doc.ref);
+    await batch.commit();
+    return snap.size;
+  },
+};
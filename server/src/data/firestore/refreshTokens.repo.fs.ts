@@ -0,0 +1,35 @@
+import { getDb } from '../../config/firestore';
+import type { RefreshTokenRecord, RefreshTokensRepo } from '../ports/refreshTokens.repo';
+
+const COLLECTION = 'refresh_tokens'; // docs keyed by sha256(token)
+
+export const fsRefreshTokensRepo: RefreshTokensRepo = {
+  async create(tokenHash, token) {
+    await getDb().collection(COLLECTION).doc(tokenHash).set(token);
+  },
+  async get(tokenHash) {
+    const snap = await getDb().collection(COLLECTION).doc(tokenHash).get();
+    if (!snap.exists) return null;
+    return snap.data() as RefreshTokenRecord;
+  },
+  async rotate(tokenHash, nextHash, next, successor) {
+    const db = getDb();
+    const ref = db.collection(COLLECTION).doc(tokenHash);
+    return db.runTransaction(async (tx) => {
+      const current = (await tx.get(ref)).data() as RefreshTokenRecord | undefined;
+      if (!current || current.usedAt != null) return false;
+      tx.update(ref, { usedAt: next.createdAt, successor });
+      tx.set(db.collection(COLLECTION).doc(nextHash), next);
+      return true;
+    });
+  },
+  async removeExpired(now, limit) {
+    const db = getDb();
+    const snap = await db.collection(COLLECTION).where('expiresAt', '<', now).limit(limit).get();
+    if (snap.empty) return 0;
+    const batch = db.batch();
+    for (const doc of snap.docs) batch.delete(doc.ref);
+    await batch.commit();
+    return snap.size;
+  },
+};
@@ -0,0 +1,168 @@
+import * as admin from 'firebase-admin';
+import { getDb } from '../../config/firestore';
+import { StockMovementType, stockKey } from '../../domain/inventory';
+import type { RefundRecord, ReturnRequest } from '../../domain/returns';
+import { pendingStatusFor, type ReturnsRepo } from '../ports/returns.repo';
+import { withStockChange } from '../shared/variants';
+import { mapDocToProduct } from './products.repo.fs';
+import { writeStockMovement } from './stockMovements.repo.fs';
+
+const RETURNS = 'returns';
+const REFUNDS = 'refunds';
+const ORDERS = 'orders';
+const PRODUCTS = 'products';
+
+function toReturn(id: string, data: FirebaseFirestore.DocumentData): ReturnRequest {
+  return { ...(data as Omit<ReturnRequest, 'id'>), id };
+}
+
+export const fsReturnsRepo: ReturnsRepo = {
+  async create(input) {
+    const ref = getDb().collection(RETURNS).doc();
+    const now = Date.now();
+    const payload: Omit<ReturnRequest, 'id'> = { ...input, createdAt: now, updatedAt: now };
+    await ref.set(payload);
+    return { ...payload, id: ref.id };
+  },
+
+  async getById(id) {
+    const snap = await getDb().collection(RETURNS).doc(id).get();
+    return snap.exists ? toReturn(snap.id, snap.data()!) : null;
+  },
+
+  async listByOrder(orderId) {
+    const snap = await getDb()
+      .collection(RETURNS)
+      .where('orderId', '==', orderId)
+      .orderBy('createdAt', 'desc')
+      .get();
+    return snap.docs.map((d) => toReturn(d.id, d.data()));
+  },
+
+  async list({ status, limit }) {
+    let query: FirebaseFirestore.Query = getDb().collection(RETURNS);
+    if (status) query = query.where('status', '==', status);
+    query = query.orderBy('createdAt', 'desc');
+    if (limit) query = query.limit(limit);
+    const snap = await query.get();
+    return snap.docs.map((d) => toReturn(d.id, d.data()));
+  },
+
+  async transition(id, from, to) {
+    const db = getDb();
+    const ref = db.collection(RETURNS).doc(id);
+    return db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      if (!snap.exists) throw Object.assign(new Error('Return request not found'), { status: 404 });
+      const existing = toReturn(snap.id, snap.data()!);
+      if (existing.status !== from) {
+        throw Object.assign(new Error(`Return request is already ${existing.status}`), {
+          status: 409,
+        });
+      }
+      const update = { status: to, updatedAt: Date.now() };
+      tx.update(ref, update);
+      return { ...existing, ...update };
+    });
+  },
+
+  async resolve(id, resolution) {
+    const db = getDb();
+    const ref = db.collection(RETURNS).doc(id);
+    const restockItems = resolution.restockItems ?? [];
+
+    return db.runTransaction(async (tx) => {
+      // All reads first, as Firestore transactions require
+      const snap = await tx.get(ref);
+      if (!snap.exists) throw Object.assign(new Error('Return request not found'), { status: 404 });
+      const existing = toReturn(snap.id, snap.data()!);
+      if (existing.status !== pendingStatusFor(resolution)) {
+        throw Object.assign(new Error(`Return request is already ${existing.status}`), {
+          status: 409,
+        });
+      }
+      const productIds = Array.from(new Set(restockItems.map((item) => item.productId)));
+      const productSnaps = productIds.length
+        ? await tx.getAll(...productIds.map((productId) => db.collection(PRODUCTS).doc(productId)))
+        : [];
+      const products = new Map(
+        productSnaps
+          .filter((productSnap) => productSnap.exists)
+          .map((productSnap) => [
+            productSnap.id,
+            mapDocToProduct(productSnap.id, productSnap.data()!),
+          ])
+      );
+
+      const now = Date.now();
+      const update: Partial<ReturnRequest> = {
+        status: resolution.status,
+        resolvedBy: resolution.resolvedBy,
+        resolvedAt: now,
+        updatedAt: now,
+        restocked: restockItems.length > 0,
+        ...(resolution.adminNote ? { adminNote: resolution.adminNote } : {}),
+      };
+
+      if (resolution.refund) {
+        const refundRef = db.collection(REFUNDS).doc();
+        const refund: Omit<RefundRecord, 'id'> = {
+          ...resolution.refund,
+          orderId: existing.orderId,
+          returnId: id,
+          createdAt: now,
+        };
+        tx.set(refundRef, refund);
+        update.refundId = refundRef.id;
+        update.refundAmount = refund.amount;
+      }
+
+      if (restockItems.length) {
+        const orderUpdate: Record<string, unknown> = {};
+        const restocked = new Map<string, number>();
+        for (const item of restockItems) {
+          const product = products.get(item.productId);
+          const next = product && withStockChange(product, item.variantId, item.quantity);
+          if (next) {
+            products.set(next.id, next);
+            writeStockMovement(tx, {
+              productId: item.productId,
+              variantId: item.variantId,
+              type: StockMovementType.RESTOCK,
+              quantity: item.quantity,
+              balanceAfter: next.stock,
+              orderId: existing.orderId,
+              returnId: id,
+              actorId: resolution.resolvedBy,
+            });
+          }
+          const key = stockKey(item.productId, item.variantId);
+          restocked.set(key, (restocked.get(key) ?? 0) + item.quantity);
+        }
+        for (const product of products.values()) {
+          tx.update(db.collection(PRODUCTS).doc(product.id), {
+            stock: product.stock,
+            ...(product.variants ? { variants: product.variants } : {}),
+          });
+        }
+        for (const [key, quantity] of restocked) {
+          orderUpdate[`restockedQuantities.${key}`] =
+            admin.firestore.FieldValue.increment(quantity);
+        }
+        tx.update(db.collection(ORDERS).doc(existing.orderId), orderUpdate);
+      }
+
+      tx.update(ref, update);
+      return { ...existing, ...update };
+    });
+  },
+
+  async listRefunds(orderId) {
+    const snap = await getDb()
+      .collection(REFUNDS)
+      .where('orderId', '==', orderId)
+      .orderBy('createdAt', 'desc')
+      .get();
+    return snap.docs.map((d) => ({ ...(d.data() as Omit<RefundRecord, 'id'>), id: d.id }));
+  },
+};
@@ -0,0 +1,137 @@
+import * as admin from 'firebase-admin';
+import { getDb } from '../../config/firestore';
+import {
+  applyRatingChange,
+  type Review,
+  ReviewStatus,
+  summarizeRatings,
+} from '../../domain/reviews';
+import type { ReviewsRepo } from '../ports/reviews.repo';
+import {
+  buildReviewPage,
+  DEFAULT_REVIEW_LIMIT,
+  readReviewCursor,
+  reviewId,
+  reviewOrder,
+} from '../shared/reviews';
+import { mapDocToProduct, PRODUCTS_COLLECTION } from './products.repo.fs';
+
+const REVIEWS = 'reviews';
+
+function toReview(id: string, data: FirebaseFirestore.DocumentData): Review {
+  return { ...(data as Omit<Review, 'id'>), id };
+}
+
+/**
+ * Replace the stored review with the one `build` returns and apply the change
+ * to the product's rating aggregates in one transaction. The product document
+ * is read inside the transaction so concurrent moderation cannot lose a count.
+ */
+async function writeReview(
+  ref: FirebaseFirestore.DocumentReference,
+  build: (existing: Review | null) => Review
+): Promise<Review> {
+  const db = getDb();
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const existing = snap.exists ? toReview(snap.id, snap.data()!) : null;
+    const next = build(existing);
+    const removed = existing?.status === ReviewStatus.APPROVED ? existing.rating : undefined;
+    const added = next.status === ReviewStatus.APPROVED ? next.rating : undefined;
+    const productRef = db.collection(PRODUCTS_COLLECTION).doc(next.productId);
+    const productSnap = removed !== added ? await tx.get(productRef) : null;
+    if (productSnap?.exists) {
+      const product = mapDocToProduct(productSnap.id, productSnap.data()!);
+      const counts = applyRatingChange(product.ratingCounts, removed, added);
+      const summary = summarizeRatings(counts);
+      tx.update(productRef, {
+        rating: summary.average,
+        reviewCount: summary.count,
+        ratingCounts: counts,
+      });
+    }
+    const { id: _id, ...payload } = next;
+    tx.set(ref, payload);
+    return next;
+  });
+}
+
+/**
+ * Firestore-backed product reviews.
+ *
+ * @remarks
+ * - Document ID is `<productId>_<userId>`, so resubmitting overwrites the
+ *   user's earlier review instead of adding another.
+ * - listApproved() pages with startAfter() on the sort fields and document
+ *   ID; each sort has its composite index in firestore.indexes.json.
+ * - Product aggregates are only written when approval changes the counts;
+ *   submit() and moderate() read and write review and product together.
+ */
+export const fsReviewsRepo: ReviewsRepo = {
+  async submit(input) {
+    const id = reviewId(input.productId, input.userId);
+    return writeReview(getDb().collection(REVIEWS).doc(id), (existing) => {
+      const now = Date.now();
+      return {
+        ...input,
+        id,
+        status: ReviewStatus.PENDING,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+    });
+  },
+
+  async getById(id) {
+    const snap = await getDb().collection(REVIEWS).doc(id).get();
+    return snap.exists ? toReview(snap.id, snap.data()!) : null;
+  },
+
+  async findByUserAndProduct(userId, productId) {
+    const snap = await getDb().collection(REVIEWS).doc(reviewId(productId, userId)).get();
+    return snap.exists ? toReview(snap.id, snap.data()!) : null;
+  },
+
+  async listApproved(productId, params = {}) {
+    const after = readReviewCursor(productId, params);
+    const limit = params.limit ?? DEFAULT_REVIEW_LIMIT;
+    let query: FirebaseFirestore.Query = getDb()
+      .collection(REVIEWS)
+      .where('productId', '==', productId)
+      .where('status', '==', ReviewStatus.APPROVED);
+    for (const { field, dir } of reviewOrder(params)) query = query.orderBy(field, dir);
+    query = query.orderBy(admin.firestore.FieldPath.documentId(), 'asc');
+    if (after) query = query.startAfter(...after);
+    const snap = await query.limit(limit + 1).get();
+    return buildReviewPage(
+      snap.docs.map((d) => toReview(d.id, d.data())),
+      productId,
+      params
+    );
+  },
+
+  async list({ status, limit }) {
+    let query: FirebaseFirestore.Query = getDb().collection(REVIEWS);
+    if (status) query = query.where('status', '==', status);
+    query = query.orderBy('updatedAt', 'desc');
+    if (limit) query = query.limit(limit);
+    const snap = await query.get();
+    return snap.docs.map((d) => toReview(d.id, d.data()));
+  },
+
+  async moderate(id, moderation) {
+    return writeReview(getDb().collection(REVIEWS).doc(id), (existing) => {
+      if (!existing) throw Object.assign(new Error('Review not found'), { status: 404 });
+      const now = Date.now();
+      const { moderationNote: _note, ...rest } = existing;
+      return {
+        ...rest,
+        status: moderation.status,
+        moderatedBy: moderation.moderatedBy,
+        moderatedAt: now,
+        updatedAt: now,
+        ...(moderation.note ? { moderationNote: moderation.note } : {}),
+      };
+    });
+  },
+};
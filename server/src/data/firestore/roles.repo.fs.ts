@@ -0,0 +1,23 @@
+import { getDb } from '../../config/firestore';
+import type { Role } from '../../domain/roles';
+import type { RolesRepo } from '../ports/roles.repo';
+
+const COLLECTION = 'roles'; // docs keyed by role id
+
+export const fsRolesRepo: RolesRepo = {
+  async list() {
+    const snap = await getDb().collection(COLLECTION).orderBy('name').get();
+    return snap.docs.map((d) => d.data() as Role);
+  },
+  async get(id) {
+    const snap = await getDb().collection(COLLECTION).doc(id).get();
+    if (!snap.exists) return null;
+    return snap.data() as Role;
+  },
+  async save(role) {
+    await getDb().collection(COLLECTION).doc(role.id).set(role);
+  },
+  async remove(id) {
+    await getDb().collection(COLLECTION).doc(id).delete();
+  },
+};
@@ -0,0 +1,53 @@
+import { getDb } from '../../config/firestore';
+import type { Session } from '../../domain/session';
+import type { SessionsRepo } from '../ports/sessions.repo';
+
+const COLLECTION = 'sessions';
+
+function activeQuery(userId: string) {
+  return getDb()
+    .collection(COLLECTION)
+    .where('userId', '==', userId)
+    .where('revokedAt', '==', null);
+}
+
+export const fsSessionsRepo: SessionsRepo = {
+  async create(session) {
+    const { id, ...data } = session;
+    await getDb().collection(COLLECTION).doc(id).set(data);
+  },
+  async get(id) {
+    const snap = await getDb().collection(COLLECTION).doc(id).get();
+    if (!snap.exists) return null;
+    return { id: snap.id, ...(snap.data() as Omit<Session, 'id'>) };
+  },
+  async listActive(userId) {
+    const snap = await activeQuery(userId).orderBy('lastSeenAt', 'desc').get();
+    return snap.docs.map((doc) => ({ id: doc.id, ...(doc.data() as Omit<Session, 'id'>) }));
+  },
+  async touch(id, seen) {
+    await getDb()
+      .collection(COLLECTION)
+      .doc(id)
+      .update({ lastSeenAt: seen.lastSeenAt, ...(seen.ip ? { ip: seen.ip } : {}) });
+  },
+  async revoke(id, reason) {
+    const db = getDb();
+    const ref = db.collection(COLLECTION).doc(id);
+    return db.runTransaction(async (tx) => {
+      const session = (await tx.get(ref)).data() as Omit<Session, 'id'> | undefined;
+      if (!session || session.revokedAt != null) return false;
+      tx.update(ref, { revokedAt: Date.now(), revokedReason: reason });
+      return true;
+    });
+  },
+  async revokeAllForUser(userId, reason) {
+    const snap = await activeQuery(userId).get();
+    if (snap.empty) return 0;
+    const now = Date.now();
+    const batch = getDb().batch();
+    for (const doc of snap.docs) batch.update(doc.ref, { revokedAt: now, revokedReason: reason });
+    await batch.commit();
+    return snap.size;
+  },
+};
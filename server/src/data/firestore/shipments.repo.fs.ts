@@ -0,0 +1,80 @@
+import * as admin from 'firebase-admin';
+import { getDb } from '../../config/firestore';
+import { type Shipment, ShipmentStatus } from '../../domain/shipments';
+import type { ShipmentsRepo } from '../ports/shipments.repo';
+
+const COLLECTION = 'shipments';
+
+const ACTIVE_STATUSES = Object.values(ShipmentStatus).filter(
+  (status) => status !== ShipmentStatus.DELIVERED
+);
+
+function toShipment(id: string, data: FirebaseFirestore.DocumentData): Shipment {
+  return { ...(data as Omit<Shipment, 'id'>), id };
+}
+
+export const fsShipmentsRepo: ShipmentsRepo = {
+  async create(orderId, build) {
+    const db = getDb();
+    const shipments = db
+      .collection(COLLECTION)
+      .where('orderId', '==', orderId)
+      .orderBy('createdAt', 'asc');
+    return db.runTransaction(async (tx) => {
+      const existing = (await tx.get(shipments)).docs.map((d) => toShipment(d.id, d.data()));
+      // The n-th shipment of an order has a fixed ID and is read before it is
+      // written, so a concurrent transaction adding it too conflicts and retries
+      const ref = db.collection(COLLECTION).doc(`${orderId}-${existing.length + 1}`);
+      if ((await tx.get(ref)).exists) {
+        throw Object.assign(new Error('Shipments of this order changed meanwhile'), {
+          status: 409,
+        });
+      }
+      const input = build(existing);
+      const now = Date.now();
+      // Firestore refuses undefined values
+      const payload = JSON.parse(JSON.stringify({ ...input, createdAt: now, updatedAt: now }));
+      tx.set(ref, payload);
+      return toShipment(ref.id, payload);
+    });
+  },
+
+  async getById(id) {
+    const snap = await getDb().collection(COLLECTION).doc(id).get();
+    return snap.exists ? toShipment(snap.id, snap.data()!) : null;
+  },
+
+  async listByOrder(orderId) {
+    const snap = await getDb()
+      .collection(COLLECTION)
+      .where('orderId', '==', orderId)
+      .orderBy('createdAt', 'asc')
+      .get();
+    return snap.docs.map((d) => toShipment(d.id, d.data()));
+  },
+
+  async listActive(limit) {
+    const snap = await getDb()
+      .collection(COLLECTION)
+      .where('status', 'in', ACTIVE_STATUSES)
+      .orderBy('lastCheckedAt', 'asc')
+      .limit(limit)
+      .get();
+    return snap.docs.map((d) => toShipment(d.id, d.data()));
+  },
+
+  async updateTracking(id, update) {
+    const ref = getDb().collection(COLLECTION).doc(id);
+    const snap = await ref.get();
+    if (!snap.exists) throw Object.assign(new Error('Shipment not found'), { status: 404 });
+    await ref.update({
+      status: update.status,
+      events: JSON.parse(JSON.stringify(update.events)),
+      estimatedDelivery: update.estimatedDelivery ?? admin.firestore.FieldValue.delete(),
+      deliveredAt: update.deliveredAt ?? admin.firestore.FieldValue.delete(),
+      lastCheckedAt: update.lastCheckedAt,
+      updatedAt: Date.now(),
+    });
+    return toShipment(id, (await ref.get()).data()!);
+  },
+};
@@ -0,0 +1,49 @@
+import { getDb } from '../../config/firestore';
+import type { NewStockMovement, StockMovement } from '../../domain/inventory';
+import type { StockMovementsRepo } from '../ports/stockMovements.repo';
+
+export const STOCK_MOVEMENTS_COLLECTION = 'stockMovements';
+
+/**
+ * Append a movement as part of the caller's transaction
+ */
+export function writeStockMovement(
+  tx: FirebaseFirestore.Transaction,
+  movement: NewStockMovement
+): void {
+  const ref = getDb().collection(STOCK_MOVEMENTS_COLLECTION).doc();
+  // Firestore rejects undefined fields
+  const payload = Object.fromEntries(
+    Object.entries({ ...movement, createdAt: Date.now() }).filter(([, v]) => v !== undefined)
+  );
+  tx.set(ref, payload);
+}
+
+export const fsStockMovementsRepo: StockMovementsRepo = {
+  async listByProduct(productId, params) {
+    const snap = await getDb()
+      .collection(STOCK_MOVEMENTS_COLLECTION)
+      .where('productId', '==', productId)
+      .orderBy('createdAt', 'desc')
+      .limit(params?.limit ?? 100)
+      .get();
+    return snap.docs.map((d) => ({ ...(d.data() as Omit<StockMovement, 'id'>), id: d.id }));
+  },
+
+  async totals() {
+    // Full scan; fine for an on-demand admin check, not for request paths
+    const snap = await getDb()
+      .collection(STOCK_MOVEMENTS_COLLECTION)
+      .select('productId', 'quantity')
+      .get();
+    const totals: Record<string, { quantity: number; count: number }> = {};
+    for (const doc of snap.docs) {
+      const { productId, quantity } = doc.data();
+      const entry = totals[productId] ?? { quantity: 0, count: 0 };
+      entry.quantity += Number(quantity) || 0;
+      entry.count += 1;
+      totals[productId] = entry;
+    }
+    return totals;
+  },
+};
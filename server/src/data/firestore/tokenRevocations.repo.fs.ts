@@ -0,0 +1,27 @@
+import { getDb } from '../../config/firestore';
+import type { TokenRevocation, TokenRevocationsRepo } from '../ports/tokenRevocations.repo';
+
+const COLLECTION = 'token_revocations';
+
+export const fsTokenRevocationsRepo: TokenRevocationsRepo = {
+  async get(userId) {
+    const snap = await getDb().collection(COLLECTION).doc(userId).get();
+    if (!snap.exists) return null;
+    return snap.data() as TokenRevocation;
+  },
+  async set(revocation) {
+    await getDb().collection(COLLECTION).doc(revocation.userId).set(revocation);
+  },
+  async remove(userId) {
+    await getDb().collection(COLLECTION).doc(userId).delete();
+  },
+  async removeExpired(now, limit) {
+    const db = getDb();
+    const snap = await db.collection(COLLECTION).where('expiresAt', '<', now).limit(limit).get();
+    if (snap.empty) return 0;
+    const batch = db.batch();
+    for (const doc of snap.docs) batch.delete(doc.ref);
+    await batch.commit();
+    return snap.size;
+  },
+};
@@ -0,0 +1,41 @@
+import { getDb } from '../../config/firestore';
+import type { TwoFactorRecord, TwoFactorRepo } from '../ports/twoFactor.repo';
+
+const COLLECTION = 'two_factor'; // docs keyed by userId
+
+export const fsTwoFactorRepo: TwoFactorRepo = {
+  async get(userId) {
+    const snap = await getDb().collection(COLLECTION).doc(userId).get();
+    if (!snap.exists) return null;
+    return snap.data() as TwoFactorRecord;
+  },
+  async save(record) {
+    await getDb().collection(COLLECTION).doc(record.userId).set(record);
+  },
+  async remove(userId) {
+    await getDb().collection(COLLECTION).doc(userId).delete();
+  },
+  async useStep(userId, step) {
+    const db = getDb();
+    const ref = db.collection(COLLECTION).doc(userId);
+    return db.runTransaction(async (tx) => {
+      const current = (await tx.get(ref)).data() as TwoFactorRecord | undefined;
+      if (!current || step <= current.lastUsedStep) return false;
+      tx.update(ref, { lastUsedStep: step, updatedAt: Date.now() });
+      return true;
+    });
+  },
+  async useRecoveryCode(userId, codeHash) {
+    const db = getDb();
+    const ref = db.collection(COLLECTION).doc(userId);
+    return db.runTransaction(async (tx) => {
+      const current = (await tx.get(ref)).data() as TwoFactorRecord | undefined;
+      if (!current?.recoveryCodes.includes(codeHash)) return false;
+      tx.update(ref, {
+        recoveryCodes: current.recoveryCodes.filter((hash) => hash !== codeHash),
+        updatedAt: Date.now(),
+      });
+      return true;
+    });
+  },
+};
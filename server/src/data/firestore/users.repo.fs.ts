@@ -1,5 +1,6 @@
 import { getDb } from '../../config/firestore';
 import type { User } from '../../domain/user';
+import type { UsersRepo } from '../ports/users.repo';
 
 const USERS_COL = 'users';
 const EMAILS_COL = 'emails'; // docs keyed by normalized email => { userId, createdAt }
@@ -8,16 +9,6 @@ function normalizeEmail(email: string): string {
   return email.trim().toLowerCase();
 }
 
-export interface UsersRepo {
-  createInitialUser(input: { email: string; passwordHash: string }): Promise<User>;
-  createUser(input: { email: string; passwordHash: string }): Promise<User>;
-  findByEmail(email: string): Promise<User | null>;
-  list(): Promise<Array<Pick<User, 'id' | 'email' | 'role'>>>;
-  remove(id: string): Promise<void>;
-  setRole(id: string, role: 'user' | 'admin'): Promise<User>;
-  updatePassword(id: string, passwordHash: string): Promise<void>;
-}
-
 export const fsUsersRepo: UsersRepo = {
   async createInitialUser({ email, passwordHash }) {
     const db = getDb();
@@ -34,7 +25,13 @@ export const fsUsersRepo: UsersRepo = {
       if (emailSnap.exists)
         throw Object.assign(new Error('Email already registered'), { status: 409 });
       const userRef = db.collection(USERS_COL).doc();
-      const user: User = { id: userRef.id, email: norm, passwordHash, role: 'admin' };
+      const user: User = {
+        id: userRef.id,
+        email: norm,
+        passwordHash,
+        role: 'admin',
+        emailVerified: false,
+      };
       tx.set(userRef, user);
       tx.set(emailRef, { userId: userRef.id, createdAt: Date.now() });
       return user;
@@ -51,7 +48,13 @@ export const fsUsersRepo: UsersRepo = {
       if (emailSnap.exists)
         throw Object.assign(new Error('Email already registered'), { status: 409 });
       const userRef = db.collection(USERS_COL).doc();
-      const user: User = { id: userRef.id, email: norm, passwordHash, role: 'user' };
+      const user: User = {
+        id: userRef.id,
+        email: norm,
+        passwordHash,
+        role: 'user',
+        emailVerified: false,
+      };
       tx.set(userRef, user);
       tx.set(emailRef, { userId: userRef.id, createdAt: Date.now() });
       return user;
@@ -69,6 +72,24 @@ export const fsUsersRepo: UsersRepo = {
     if (!userSnap.exists) return null;
     return userSnap.data() as User;
   },
+  async findById(id: string) {
+    const db = getDb();
+    const snap = await db.collection(USERS_COL).doc(id).get();
+    if (!snap.exists) return null;
+    return snap.data() as User;
+  },
+  async findByEmailLocalPart(localPart: string, limit: number) {
+    const db = getDb();
+    const norm = normalizeEmail(localPart);
+    // Emails from `name@` up to, not including, `nameA` ('A' follows '@')
+    const snap = await db
+      .collection(USERS_COL)
+      .where('email', '>=', `${norm}@`)
+      .where('email', '<', `${norm}A`)
+      .limit(limit)
+      .get();
+    return snap.docs.map((d) => d.data() as User);
+  },
   async list() {
     const db = getDb();
     const snap = await db.collection(USERS_COL).get();
@@ -93,7 +114,7 @@ export const fsUsersRepo: UsersRepo = {
         .catch(() => {}),
     ]);
   },
-  async setRole(id: string, role: 'user' | 'admin') {
+  async setRole(id: string, role: string) {
     const db = getDb();
     const ref = db.collection(USERS_COL).doc(id);
     const snap = await ref.get();
@@ -106,4 +127,8 @@ export const fsUsersRepo: UsersRepo = {
     const db = getDb();
     await db.collection(USERS_COL).doc(id).update({ passwordHash });
   },
+  async markEmailVerified(id: string) {
+    const db = getDb();
+    await db.collection(USERS_COL).doc(id).update({ emailVerified: true });
+  },
 };
@@ -0,0 +1,239 @@
+/**
+ * Repository registry selecting the backing data store for the whole server.
+ *
+ * `DATA_STORE=firestore` (default) wires the Firestore adapters, while
+ * `DATA_STORE=memory` wires process-local implementations of the same ports so
+ * the API and its test suites run without Firebase credentials or an emulator.
+ * Rate limits stay in process memory either way unless RATE_LIMIT_STORE=shared.
+ */
+import { loadEnv } from '../config/env';
+import { getPricingEngine } from '../services/pricing';
+import { fsAuditLogsRepo } from './firestore/auditLogs.repo.fs';
+import { fsCartsRepo } from './firestore/carts.repo.fs';
+import { fsConfigRepo } from './firestore/config.repo.fs';
+import { fsEmailOutboxRepo } from './firestore/emailOutbox.repo.fs';
+import { fsEmailVerificationsRepo } from './firestore/emailVerifications.repo.fs';
+import { FirestoreOrderRepository } from './firestore/FirestoreOrderRepository';
+import { fsFavoritesRepo } from './firestore/favorites.repo.fs';
+import { fsIdempotencyRepo } from './firestore/idempotency.repo.fs';
+import { fsInvoicesRepo } from './firestore/invoices.repo.fs';
+import { fsLoginAttemptsRepo } from './firestore/loginAttempts.repo.fs';
+import { fsOrderTimelineRepo } from './firestore/orderTimeline.repo.fs';
+import { fsPasswordResetsRepo } from './firestore/passwordResets.repo.fs';
+import { fsProductSearchRepo } from './firestore/productSearch.repo.fs';
+import { fsProductsRepo } from './firestore/products.repo.fs';
+import { fsProfilesRepo } from './firestore/profiles.repo.fs';
+import { fsPromotionsRepo } from './firestore/promotions.repo.fs';
+import { fsRateLimitStore } from './firestore/rateLimits.repo.fs';
+import { fsRefreshTokensRepo } from './firestore/refreshTokens.repo.fs';
+import { fsReturnsRepo } from './firestore/returns.repo.fs';
+import { fsReviewsRepo } from './firestore/reviews.repo.fs';
+import { fsRolesRepo } from './firestore/roles.repo.fs';
+import { fsSessionsRepo } from './firestore/sessions.repo.fs';
+import { fsShipmentsRepo } from './firestore/shipments.repo.fs';
+import { fsStockMovementsRepo } from './firestore/stockMovements.repo.fs';
+import { fsTokenRevocationsRepo } from './firestore/tokenRevocations.repo.fs';
+import { fsTwoFactorRepo } from './firestore/twoFactor.repo.fs';
+import { fsUsersRepo } from './firestore/users.repo.fs';
+import { createMemoryAuditLogsRepo } from './memory/auditLogs.repo.memory';
+import { createMemoryCartsRepo } from './memory/carts.repo.memory';
+import { createMemoryConfigRepo } from './memory/config.repo.memory';
+import { createMemoryEmailOutboxRepo } from './memory/emailOutbox.repo.memory';
+import { createMemoryEmailVerificationsRepo } from './memory/emailVerifications.repo.memory';
+import { createMemoryFavoritesRepo } from './memory/favorites.repo.memory';
+import { createMemoryIdempotencyRepo } from './memory/idempotency.repo.memory';
+import { InMemoryOrderRepository } from './memory/InMemoryOrderRepository';
+import { createMemoryInvoicesRepo } from './memory/invoices.repo.memory';
+import { createMemoryLoginAttemptsRepo } from './memory/loginAttempts.repo.memory';
+import { createMemoryOrderTimelineRepo } from './memory/orderTimeline.repo.memory';
+import { createMemoryPasswordResetsRepo } from './memory/passwordResets.repo.memory';
+import { createMemoryProductSearchRepo } from './memory/productSearch.repo.memory';
+import { createMemoryProductsRepo } from './memory/products.repo.memory';
+import { createMemoryProfilesRepo } from './memory/profiles.repo.memory';
+import { createMemoryPromotionsRepo } from './memory/promotions.repo.memory';
+import { createMemoryRateLimitStore } from './memory/rateLimits.repo.memory';
+import { createMemoryRefreshTokensRepo } from './memory/refreshTokens.repo.memory';
+import { createMemoryReturnsRepo } from './memory/returns.repo.memory';
+import { createMemoryReviewsRepo } from './memory/reviews.repo.memory';
+import { createMemoryRolesRepo } from './memory/roles.repo.memory';
+import { createMemorySessionsRepo } from './memory/sessions.repo.memory';
+import { createMemoryShipmentsRepo } from './memory/shipments.repo.memory';
+import { createMemoryStockMovementsRepo } from './memory/stockMovements.repo.memory';
+import { createMemoryStore, type MemoryStore } from './memory/store';
+import { createMemoryTokenRevocationsRepo } from './memory/tokenRevocations.repo.memory';
+import { createMemoryTwoFactorRepo } from './memory/twoFactor.repo.memory';
+import { createMemoryUsersRepo } from './memory/users.repo.memory';
+import type { AuditLogsRepo } from './ports/auditLogs.repo';
+import type { CartsRepo } from './ports/carts.repo';
+import type { ConfigRepo } from './ports/config.repo';
+import type { EmailOutboxRepo } from './ports/emailOutbox.repo';
+import type { EmailVerificationsRepo } from './ports/emailVerifications.repo';
+import type { FavoritesRepo } from './ports/favorites.repo';
+import type { IdempotencyRepo } from './ports/idempotency.repo';
+import type { InvoicesRepo } from './ports/invoices.repo';
+import type { LoginAttemptsRepo } from './ports/loginAttempts.repo';
+import type { OrderRepository } from './ports/OrderRepository';
+import type { OrderTimelineRepo } from './ports/orderTimeline.repo';
+import type { PasswordResetsRepo } from './ports/passwordResets.repo';
+import type { ProductSearchRepo } from './ports/productSearch.repo';
+import type { ProductsRepo } from './ports/products.repo';
+import type { ProfilesRepo } from './ports/profiles.repo';
+import type { PromotionsRepo } from './ports/promotions.repo';
+import type { RateLimitStore } from './ports/rateLimits.repo';
+import type { RefreshTokensRepo } from './ports/refreshTokens.repo';
+import type { ReturnsRepo } from './ports/returns.repo';
+import type { ReviewsRepo } from './ports/reviews.repo';
+import type { RolesRepo } from './ports/roles.repo';
+import type { SessionsRepo } from './ports/sessions.repo';
+import type { ShipmentsRepo } from './ports/shipments.repo';
+import type { StockMovementsRepo } from './ports/stockMovements.repo';
+import type { TokenRevocationsRepo } from './ports/tokenRevocations.repo';
+import type { TwoFactorRepo } from './ports/twoFactor.repo';
+import type { UsersRepo } from './ports/users.repo';
+
+export type DataStore = 'firestore' | 'memory';
+
+export interface Repositories {
+  store: DataStore;
+  products: ProductsRepo;
+  productSearch: ProductSearchRepo;
+  orders: OrderRepository;
+  users: UsersRepo;
+  roles: RolesRepo;
+  profiles: ProfilesRepo;
+  favorites: FavoritesRepo;
+  carts: CartsRepo;
+  auditLogs: AuditLogsRepo;
+  tokenRevocations: TokenRevocationsRepo;
+  passwordResets: PasswordResetsRepo;
+  refreshTokens: RefreshTokensRepo;
+  sessions: SessionsRepo;
+  twoFactor: TwoFactorRepo;
+  loginAttempts: LoginAttemptsRepo;
+  rateLimits: RateLimitStore;
+  idempotency: IdempotencyRepo;
+  emailVerifications: EmailVerificationsRepo;
+  emailOutbox: EmailOutboxRepo;
+  config: ConfigRepo;
+  promotions: PromotionsRepo;
+  returns: ReturnsRepo;
+  shipments: ShipmentsRepo;
+  invoices: InvoicesRepo;
+  orderTimeline: OrderTimelineRepo;
+  reviews: ReviewsRepo;
+  stockMovements: StockMovementsRepo;
+}
+
+export function createFirestoreRepositories(): Repositories {
+  return {
+    store: 'firestore',
+    products: fsProductsRepo,
+    productSearch: fsProductSearchRepo,
+    orders: new FirestoreOrderRepository(getPricingEngine()),
+    users: fsUsersRepo,
+    roles: fsRolesRepo,
+    profiles: fsProfilesRepo,
+    favorites: fsFavoritesRepo,
+    carts: fsCartsRepo,
+    auditLogs: fsAuditLogsRepo,
+    tokenRevocations: fsTokenRevocationsRepo,
+    passwordResets: fsPasswordResetsRepo,
+    refreshTokens: fsRefreshTokensRepo,
+    sessions: fsSessionsRepo,
+    twoFactor: fsTwoFactorRepo,
+    loginAttempts: fsLoginAttemptsRepo,
+    // Limits are only shared between instances when asked for: every request
+    // would otherwise pay for a Firestore transaction
+    rateLimits:
+      loadEnv().RATE_LIMIT_STORE === 'shared'
+        ? fsRateLimitStore
+        : createMemoryRateLimitStore(createMemoryStore()),
+    idempotency: fsIdempotencyRepo,
+    emailVerifications: fsEmailVerificationsRepo,
+    emailOutbox: fsEmailOutboxRepo,
+    config: fsConfigRepo,
+    promotions: fsPromotionsRepo,
+    returns: fsReturnsRepo,
+    shipments: fsShipmentsRepo,
+    invoices: fsInvoicesRepo,
+    orderTimeline: fsOrderTimelineRepo,
+    reviews: fsReviewsRepo,
+    stockMovements: fsStockMovementsRepo,
+  };
+}
+
+/**
+ * Build a fresh, empty set of in-memory repositories. Pass an existing store to
+ * share (or pre-seed) state between repository sets.
+ */
+export function createMemoryRepositories(store: MemoryStore = createMemoryStore()): Repositories {
+  return {
+    store: 'memory',
+    products: createMemoryProductsRepo(store),
+    productSearch: createMemoryProductSearchRepo(store),
+    orders: new InMemoryOrderRepository(store, getPricingEngine()),
+    users: createMemoryUsersRepo(store),
+    roles: createMemoryRolesRepo(store),
+    profiles: createMemoryProfilesRepo(store),
+    favorites: createMemoryFavoritesRepo(store),
+    carts: createMemoryCartsRepo(store),
+    auditLogs: createMemoryAuditLogsRepo(store),
+    tokenRevocations: createMemoryTokenRevocationsRepo(store),
+    passwordResets: createMemoryPasswordResetsRepo(store),
+    refreshTokens: createMemoryRefreshTokensRepo(store),
+    sessions: createMemorySessionsRepo(store),
+    twoFactor: createMemoryTwoFactorRepo(store),
+    loginAttempts: createMemoryLoginAttemptsRepo(store),
+    rateLimits: createMemoryRateLimitStore(store),
+    idempotency: createMemoryIdempotencyRepo(store),
+    emailVerifications: createMemoryEmailVerificationsRepo(store),
+    emailOutbox: createMemoryEmailOutboxRepo(store),
+    config: createMemoryConfigRepo(store),
+    promotions: createMemoryPromotionsRepo(store),
+    returns: createMemoryReturnsRepo(store),
+    shipments: createMemoryShipmentsRepo(store),
+    invoices: createMemoryInvoicesRepo(store),
+    orderTimeline: createMemoryOrderTimelineRepo(store),
+    reviews: createMemoryReviewsRepo(store),
+    stockMovements: createMemoryStockMovementsRepo(store),
+  };
+}
+
+export function createRepositories(store: DataStore): Repositories {
+  return store === 'memory' ? createMemoryRepositories() : createFirestoreRepositories();
+}
+
+let active: Repositories | null = null;
+
+/**
+ * Repositories for the configured DATA_STORE, created on first use.
+ */
+export function getRepositories(): Repositories {
+  if (!active) active = createRepositories(loadEnv().DATA_STORE);
+  return active;
+}
+
+/**
+ * Replace the active repositories (e.g. with a seeded memory set in tests).
+ */
+export function setRepositories(repositories: Repositories): void {
+  active = repositories;
+}
+
+/**
+ * One of the active repositories, looked up again on every call. Services
+ * created when their module is imported take these, so they follow
+ * setRepositories() and the DATA_STORE of the moment instead of keeping the
+ * repositories that were active at import time.
+ */
+export function lazyRepository<K extends Exclude<keyof Repositories, 'store'>>(
+  name: K
+): Repositories[K] {
+  return new Proxy({} as Repositories[K], {
+    get(_target, property) {
+      const repo = getRepositories()[name];
+      const value = Reflect.get(repo, property);
+      return typeof value === 'function' ? value.bind(repo) : value;
+    },
+  });
+}
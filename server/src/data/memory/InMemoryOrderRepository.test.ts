@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import { StockMovementType } from '../../domain/inventory';
+import { OrderStatus, PaymentMethod } from '../../domain/orders';
+import { PromotionType } from '../../domain/promotions';
+import { createMemoryRepositories } from '../index';
+import { createMemoryStore } from './store';
+
+const shippingAddress = {
+  fullName: 'Ada Lovelace',
+  street: '12 Analytical Row',
+  city: 'London',
+  state: 'LDN',
+  postalCode: 'N1 9GU',
+  country: 'GB',
+};
+
+async function setup() {
+  const store = createMemoryStore();
+  const repos = createMemoryRepositories(store);
+  const mug = await repos.products.create({
+    name: 'Mug',
+    sku: 'MUG-1',
+    price: 10,
+    category: 'kitchen',
+    rating: 0,
+    stock: 5,
+  });
+  const shirt = await repos.products.create({
+    name: 'Shirt',
+    price: 20,
+    category: 'apparel',
+    rating: 0,
+    stock: 3,
+    options: [{ name: 'Size', values: ['S', 'M'] }],
+    variants: [
+      { id: 'shirt-s', sku: 'SHIRT-S', options: { Size: 'S' }, stock: 1 },
+      { id: 'shirt-m', sku: 'SHIRT-M', options: { Size: 'M' }, stock: 2 },
+    ],
+  });
+  return { store, repos, mug, shirt };
+}
+
+function orderInput(items: Array<{ productId: string; variantId?: string; quantity: number }>) {
+  return { items, paymentMethod: PaymentMethod.CREDIT_CARD, shippingAddress };
+}
+
+describe('InMemoryOrderRepository', () => {
+  it('decrements product and variant stock and records sales in the ledger', async () => {
+    const { store, repos, mug, shirt } = await setup();
+
+    const order = await repos.orders.create(
+      orderInput([
+        { productId: mug.id, quantity: 2 },
+        { productId: shirt.id, variantId: 'shirt-m', quantity: 1 },
+      ]),
+      'user-1',
+      'ada@example.com'
+    );
+
+    expect(order.status).toBe(OrderStatus.PENDING);
+    expect((await repos.products.getById(mug.id))?.stock).toBe(3);
+    const updatedShirt = await repos.products.getById(shirt.id);
+    expect(updatedShirt?.stock).toBe(2);
+    expect(updatedShirt?.variants?.find((v) => v.id === 'shirt-m')?.stock).toBe(1);
+
+    const sales = store.stockMovements.filter((m) => m.type === StockMovementType.SALE);
+    expect(sales.map((m) => [m.productId, m.quantity, m.balanceAfter])).toEqual([
+      [mug.id, -2, 3],
+      [shirt.id, -1, 2],
+    ]);
+  });
+
+  it('changes nothing when any line is short of stock', async () => {
+    const { store, repos, mug, shirt } = await setup();
+    const movementsBefore = store.stockMovements.length;
+
+    await expect(
+      repos.orders.create(
+        orderInput([
+          { productId: mug.id, quantity: 2 },
+          { productId: shirt.id, variantId: 'shirt-s', quantity: 2 },
+        ]),
+        'user-1',
+        'ada@example.com'
+      )
+    ).rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK' });
+
+    expect((await repos.products.getById(mug.id))?.stock).toBe(5);
+    expect((await repos.products.getById(shirt.id))?.stock).toBe(3);
+    expect(store.orders.size).toBe(0);
+    expect(store.stockMovements.length).toBe(movementsBefore);
+  });
+
+  it('never sells the same units twice to concurrent orders', async () => {
+    const { repos, mug } = await setup();
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 4 }, (_, i) =>
+        repos.orders.create(
+          orderInput([{ productId: mug.id, quantity: 2 }]),
+          `user-${i}`,
+          `user-${i}@example.com`
+        )
+      )
+    );
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(2);
+    expect((await repos.products.getById(mug.id))?.stock).toBe(1);
+  });
+
+  it('restocks once when an order is cancelled', async () => {
+    const { store, repos, mug } = await setup();
+    const order = await repos.orders.create(
+      orderInput([{ productId: mug.id, quantity: 4 }]),
+      'user-1',
+      'ada@example.com'
+    );
+
+    await repos.orders.update(order.id, { status: OrderStatus.CANCELLED });
+    await repos.orders.update(order.id, { status: OrderStatus.REFUNDED });
+
+    expect((await repos.products.getById(mug.id))?.stock).toBe(5);
+    const releases = store.stockMovements.filter((m) => m.type === StockMovementType.RELEASE);
+    expect(releases).toHaveLength(1);
+    expect(releases[0]).toMatchObject({ orderId: order.id, quantity: 4, balanceAfter: 5 });
+  });
+
+  it('records units of a removed variant in the ledger when the order is released', async () => {
+    const { store, repos, shirt } = await setup();
+    const order = await repos.orders.create(
+      orderInput([{ productId: shirt.id, variantId: 'shirt-s', quantity: 1 }]),
+      'user-1',
+      'ada@example.com'
+    );
+    await repos.products.update(shirt.id, {
+      options: shirt.options,
+      variants: shirt.variants!.filter((v) => v.id !== 'shirt-s'),
+    });
+
+    await repos.orders.update(order.id, { status: OrderStatus.CANCELLED });
+
+    const release = store.stockMovements.find((m) => m.type === StockMovementType.RELEASE);
+    expect(release).toMatchObject({ orderId: order.id, variantId: 'shirt-s', quantity: 0 });
+    expect(release?.reason).toMatch(/^orphaned_release/);
+    const product = await repos.products.getById(shirt.id);
+    const ledger = store.stockMovements
+      .filter((m) => m.productId === shirt.id)
+      .reduce((sum, m) => sum + m.quantity, 0);
+    expect(ledger).toBe(product?.stock);
+  });
+
+  it('rejects an update whose guard no longer matches', async () => {
+    const { repos, mug } = await setup();
+    const order = await repos.orders.create(
+      orderInput([{ productId: mug.id, quantity: 1 }]),
+      'user-1',
+      'ada@example.com'
+    );
+    await repos.orders.update(order.id, { status: OrderStatus.CANCELLED });
+
+    await expect(
+      repos.orders.update(
+        order.id,
+        { status: OrderStatus.PROCESSING },
+        { guard: { statuses: [OrderStatus.PENDING] } }
+      )
+    ).rejects.toThrow();
+    expect((await repos.orders.findById(order.id))?.status).toBe(OrderStatus.CANCELLED);
+  });
+
+  it('gives back the promotion use of a cancelled order', async () => {
+    const { store, repos, mug } = await setup();
+    const promotion = await repos.promotions.create({
+      code: 'ONCE',
+      type: PromotionType.PERCENT_OFF,
+      value: 10,
+      maxRedemptions: 1,
+      active: true,
+    });
+    const order = await repos.orders.create(
+      { ...orderInput([{ productId: mug.id, quantity: 1 }]), promoCode: 'once' },
+      'user-1',
+      'ada@example.com'
+    );
+    expect((await repos.promotions.getById(promotion.id))?.redemptionCount).toBe(1);
+
+    await repos.orders.update(order.id, { status: OrderStatus.CANCELLED });
+    await repos.orders.update(order.id, { status: OrderStatus.REFUNDED });
+
+    expect((await repos.promotions.getById(promotion.id))?.redemptionCount).toBe(0);
+    expect(store.promotionRedemptions).toHaveLength(0);
+    await expect(
+      repos.orders.create(
+        { ...orderInput([{ productId: mug.id, quantity: 1 }]), promoCode: 'ONCE' },
+        'user-2',
+        'grace@example.com'
+      )
+    ).resolves.toMatchObject({ discount: { promotionId: promotion.id } });
+  });
+});
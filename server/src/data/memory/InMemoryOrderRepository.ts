@@ -0,0 +1,474 @@
+/**
+ * In-Memory Order Repository Implementation
+ *
+ * Implements the OrderRepository interface on top of the process-local memory
+ * store. Intended for offline development and tests; state is lost on restart.
+ *
+ * @fileoverview In-memory implementation of order repository
+ * @module data/memory/InMemoryOrderRepository
+ */
+
+import {
+  type CreateOrderInput,
+  type Order,
+  type OrderItem,
+  type OrderQuote,
+  type OrderStats,
+  OrderStatus,
+  PaymentStatus,
+  type QuoteOrderInput,
+  UNPAID_PAYMENT_STATUSES,
+  type UpdateOrderInput,
+} from '../../domain/orders';
+import { orphanedReleaseReason, type StockActor, StockMovementType } from '../../domain/inventory';
+import type { Product } from '../../domain/product';
+import type { PricingEngine, PromotionContext } from '../../domain/pricing';
+import { normalizePromoCode } from '../../domain/promotions';
+import type { OrderRepository, OrderUpdateOptions } from '../ports/OrderRepository';
+import { unreleasedItems } from '../shared/inventory';
+import {
+  createInsufficientStockError,
+  createOrderNotFoundError,
+  createOrderStateChangedError,
+  createProductNotFoundError,
+  createPromotionNotFoundError,
+} from '../shared/orderErrors';
+import {
+  availableStock,
+  buildOrderItem,
+  resolveVariant,
+  withStockChange,
+} from '../shared/variants';
+import { findPromotionByCode } from './promotions.repo.memory';
+import { recordStockMovement } from './stockMovements.repo.memory';
+import { clone, type MemoryStore, newId, type StoredOrder } from './store';
+
+const RELEASED_STATUSES = [OrderStatus.CANCELLED, OrderStatus.REFUNDED];
+
+/**
+ * In-memory implementation of the order repository
+ *
+ * Multi-entity writes (order + product stock) are validated and applied without
+ * awaiting in between, which gives them the same all-or-nothing semantics as
+ * the Firestore transactions in FirestoreOrderRepository.
+ *
+ * @class InMemoryOrderRepository
+ * @implements {OrderRepository}
+ */
+export class InMemoryOrderRepository implements OrderRepository {
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly pricing: PricingEngine
+  ) {}
+
+  /**
+   * Create a new order, decrementing product stock atomically
+   *
+   * @param {CreateOrderInput} orderData - Order data to create
+   * @param {string} userId - ID of the user creating the order
+   * @param {string} userEmail - Email of the user creating the order
+   * @returns {Promise<Order>} The created order
+   * @throws {Error} If product validation fails
+   */
+  async create(orderData: CreateOrderInput, userId: string, userEmail: string): Promise<Order> {
+    const now = new Date();
+    const orderItems: OrderItem[] = [];
+    const updatedProducts = new Map<string, Product>();
+
+    // PHASE 1: Validate every line before touching any stock
+    for (const item of orderData.items) {
+      const quantity = Math.floor(item.quantity);
+      if (!Number.isFinite(quantity) || quantity <= 0) {
+        throw new Error(`Invalid quantity for product ${item.productId}: ${item.quantity}`);
+      }
+
+      const product =
+        updatedProducts.get(item.productId) ?? this.store.products.get(item.productId);
+      if (!product) {
+        throw createProductNotFoundError(item.productId);
+      }
+
+      const variant = resolveVariant(product, item.variantId);
+      const orderItem = buildOrderItem(product, variant, quantity);
+      const available = availableStock(product, variant);
+      if (quantity > available) {
+        throw createInsufficientStockError(
+          product.id,
+          orderItem.variantName ? `${product.name} (${orderItem.variantName})` : product.name,
+          available,
+          quantity,
+          variant?.id
+        );
+      }
+      updatedProducts.set(product.id, withStockChange(product, variant?.id, -quantity)!);
+
+      orderItems.push(orderItem);
+    }
+
+    const promotion = this.resolvePromotion(orderData.promoCode, userId);
+    const pricing = this.pricing.price({
+      lines: orderItems,
+      destination: orderData.shippingAddress,
+      promotion,
+    });
+
+    // PHASE 2: Apply all writes
+    const orderId = newId();
+    const balances = new Map<string, number>();
+    for (const item of orderItems) {
+      const balanceAfter =
+        (balances.get(item.productId) ?? this.store.products.get(item.productId)!.stock) -
+        item.quantity;
+      balances.set(item.productId, balanceAfter);
+      recordStockMovement(this.store, {
+        productId: item.productId,
+        variantId: item.variantId,
+        type: StockMovementType.SALE,
+        quantity: -item.quantity,
+        balanceAfter,
+        orderId,
+        actorId: userId,
+        actorEmail: userEmail,
+      });
+    }
+    for (const [productId, product] of updatedProducts) {
+      this.store.products.set(productId, product);
+    }
+
+    const order: StoredOrder = {
+      id: orderId,
+      userId,
+      userEmail,
+      items: orderItems,
+      subtotal: pricing.subtotal,
+      discountAmount: pricing.discountAmount,
+      ...(pricing.discount ? { discount: pricing.discount } : {}),
+      taxAmount: pricing.taxAmount,
+      shippingCost: pricing.shippingCost,
+      totalAmount: pricing.totalAmount,
+      status: OrderStatus.PENDING,
+      paymentStatus: PaymentStatus.PENDING,
+      paymentMethod: orderData.paymentMethod,
+      shippingAddress: clone(orderData.shippingAddress),
+      notes: orderData.notes,
+      createdAt: now,
+      updatedAt: now,
+      inventoryReleased: false,
+    };
+    this.store.orders.set(order.id, order);
+
+    if (promotion) {
+      const stored = this.store.promotions.get(promotion.promotion.id)!;
+      this.store.promotions.set(stored.id, {
+        ...stored,
+        redemptionCount: stored.redemptionCount + 1,
+      });
+      this.store.promotionRedemptions.push({
+        promotionId: stored.id,
+        userId,
+        orderId: order.id,
+        createdAt: now.getTime(),
+      });
+    }
+
+    return this.toOrder(order);
+  }
+
+  /**
+   * Price a prospective order with current product prices without reserving stock
+   *
+   * @param {QuoteOrderInput} input - Cart lines and optional destination
+   * @returns {Promise<OrderQuote>} Priced lines and totals
+   * @throws {Error} If a product does not exist
+   */
+  async quote(input: QuoteOrderInput): Promise<OrderQuote> {
+    const items = input.items.map((item) => {
+      const quantity = Math.floor(item.quantity);
+      if (!Number.isFinite(quantity) || quantity <= 0) {
+        throw new Error(`Invalid quantity for product ${item.productId}: ${item.quantity}`);
+      }
+      const product = this.store.products.get(item.productId);
+      if (!product) {
+        throw createProductNotFoundError(item.productId);
+      }
+      return buildOrderItem(product, resolveVariant(product, item.variantId), quantity);
+    });
+
+    const promotion = this.resolvePromotion(input.promoCode);
+    return {
+      items,
+      ...this.pricing.price({ lines: items, destination: input.shippingAddress, promotion }),
+    };
+  }
+
+  /**
+   * Find an order by ID
+   *
+   * @param {string} id - Order ID to find
+   * @returns {Promise<Order | null>} The order if found, null otherwise
+   */
+  async findById(id: string): Promise<Order | null> {
+    const order = this.store.orders.get(id);
+    return order ? this.toOrder(order) : null;
+  }
+
+  /**
+   * Find all orders for a specific user
+   *
+   * @param {string} userId - User ID to find orders for
+   * @param {number} [limit] - Optional limit for pagination
+   * @param {string} [lastOrderId] - Optional last order ID for pagination
+   * @returns {Promise<Order[]>} Array of user orders
+   */
+  async findByUserId(userId: string, limit?: number, lastOrderId?: string): Promise<Order[]> {
+    return this.page((order) => order.userId === userId, limit, lastOrderId);
+  }
+
+  /**
+   * Find all orders (admin function)
+   *
+   * @param {number} [limit] - Optional limit for pagination
+   * @param {string} [lastOrderId] - Optional last order ID for pagination
+   * @param {OrderStatus} [status] - Optional status filter
+   * @returns {Promise<Order[]>} Array of all orders
+   */
+  async findAll(limit?: number, lastOrderId?: string, status?: OrderStatus): Promise<Order[]> {
+    return this.page((order) => !status || order.status === status, limit, lastOrderId);
+  }
+
+  async findExpiredReservations(createdBefore: Date, limit: number): Promise<Order[]> {
+    return Array.from(this.store.orders.values())
+      .filter(
+        (order) =>
+          order.status === OrderStatus.PENDING &&
+          UNPAID_PAYMENT_STATUSES.includes(order.paymentStatus) &&
+          order.createdAt < createdBefore
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit)
+      .map((order) => this.toOrder(order));
+  }
+
+  /**
+   * Update an existing order, releasing inventory exactly once on cancel/refund
+   *
+   * @param {string} id - Order ID to update
+   * @param {UpdateOrderInput} updateData - Data to update
+   * @param {OrderUpdateOptions} [options] - Guard on the current state and the acting user
+   * @returns {Promise<Order>} The updated order
+   * @throws {Error} If order not found or the guard fails
+   */
+  async update(
+    id: string,
+    updateData: UpdateOrderInput,
+    options?: OrderUpdateOptions
+  ): Promise<Order> {
+    const guard = options?.guard;
+    const existing = this.store.orders.get(id);
+    if (!existing) {
+      throw createOrderNotFoundError(id);
+    }
+    if (
+      (guard?.statuses && !guard.statuses.includes(existing.status)) ||
+      (guard?.paymentStatuses && !guard.paymentStatuses.includes(existing.paymentStatus)) ||
+      (guard?.payment &&
+        ((existing.payment?.paymentId ?? null) !== guard.payment.paymentId ||
+          (guard.payment.versionBelow !== undefined &&
+            (existing.payment?.version ?? 0) >= guard.payment.versionBelow)))
+    ) {
+      throw createOrderStateChangedError(id, existing.status);
+    }
+
+    const next: StoredOrder = { ...existing, updatedAt: new Date() };
+    if (updateData.status !== undefined) next.status = updateData.status;
+    if (updateData.paymentStatus !== undefined) next.paymentStatus = updateData.paymentStatus;
+    if (updateData.payment !== undefined) next.payment = clone(updateData.payment);
+    if (updateData.notes !== undefined) next.notes = updateData.notes;
+    if (updateData.shippingAddress !== undefined) {
+      next.shippingAddress = clone(updateData.shippingAddress);
+    }
+    if (updateData.tracking) next.tracking = clone(updateData.tracking);
+
+    const willReleaseInventory =
+      updateData.status !== undefined &&
+      RELEASED_STATUSES.includes(updateData.status) &&
+      !existing.inventoryReleased &&
+      !RELEASED_STATUSES.includes(existing.status);
+
+    if (willReleaseInventory) {
+      this.restoreInventory(
+        unreleasedItems(existing.items, existing.restockedQuantities),
+        id,
+        options?.actor,
+        `Order ${updateData.status}`
+      );
+      this.releaseRedemption(existing);
+      next.inventoryReleased = true;
+    }
+
+    this.store.orders.set(id, next);
+    return this.toOrder(next);
+  }
+
+  /**
+   * Delete an order (admin function)
+   *
+   * @param {string} id - Order ID to delete
+   * @param {StockActor} [actor] - Who deleted it
+   * @returns {Promise<void>}
+   * @throws {Error} If order not found
+   */
+  async delete(id: string, actor?: StockActor): Promise<void> {
+    const existing = this.store.orders.get(id);
+    if (!existing) {
+      throw createOrderNotFoundError(id);
+    }
+    if (!existing.inventoryReleased) {
+      this.restoreInventory(
+        unreleasedItems(existing.items, existing.restockedQuantities),
+        id,
+        actor,
+        'Order deleted'
+      );
+      this.releaseRedemption(existing);
+    }
+    this.store.orders.delete(id);
+  }
+
+  async getStats(startDate?: Date, endDate?: Date): Promise<OrderStats> {
+    const orders = Array.from(this.store.orders.values()).filter(
+      (order) =>
+        (!startDate || order.createdAt >= startDate) && (!endDate || order.createdAt <= endDate)
+    );
+
+    const statusBreakdown = {} as Record<OrderStatus, number>;
+    for (const status of Object.values(OrderStatus)) {
+      statusBreakdown[status] = 0;
+    }
+    let totalRevenue = 0;
+    for (const order of orders) {
+      statusBreakdown[order.status] += 1;
+      totalRevenue += order.totalAmount;
+    }
+
+    const totalOrders = orders.length;
+    return {
+      totalOrders,
+      totalRevenue,
+      averageOrderValue: totalOrders > 0 ? totalRevenue / totalOrders : 0,
+      pendingOrders: statusBreakdown[OrderStatus.PENDING],
+      statusBreakdown,
+    };
+  }
+
+  /**
+   * Check if user owns the order
+   *
+   * @param {string} orderId - Order ID to check
+   * @param {string} userId - User ID to verify ownership
+   * @returns {Promise<boolean>} True if user owns the order
+   */
+  async isOwnedByUser(orderId: string, userId: string): Promise<boolean> {
+    return this.store.orders.get(orderId)?.userId === userId;
+  }
+
+  /**
+   * Newest-first page of orders matching `predicate`, starting after `lastOrderId`
+   * when it refers to an order in the same result set.
+   */
+  private page(
+    predicate: (order: StoredOrder) => boolean,
+    limit?: number,
+    lastOrderId?: string
+  ): Order[] {
+    // Reverse insertion order first so orders created in the same millisecond stay newest-first.
+    let orders = Array.from(this.store.orders.values())
+      .reverse()
+      .filter(predicate)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    if (lastOrderId) {
+      const index = orders.findIndex((order) => order.id === lastOrderId);
+      if (index >= 0) orders = orders.slice(index + 1);
+    }
+
+    if (limit && Number.isFinite(limit)) {
+      orders = orders.slice(0, limit);
+    }
+
+    return orders.map((order) => this.toOrder(order));
+  }
+
+  /**
+   * Look up a promo code and the caller's prior redemptions of it
+   *
+   * @throws {Error} With code PROMOTION_NOT_FOUND when the code does not exist
+   */
+  private resolvePromotion(promoCode?: string, userId?: string): PromotionContext | undefined {
+    if (!promoCode) return undefined;
+    const promotion = findPromotionByCode(this.store, promoCode);
+    if (!promotion) {
+      throw createPromotionNotFoundError(normalizePromoCode(promoCode));
+    }
+    const userRedemptions = userId
+      ? this.store.promotionRedemptions.filter(
+          (r) => r.promotionId === promotion.id && r.userId === userId
+        ).length
+      : 0;
+    return { promotion: clone(promotion), userRedemptions, now: Date.now() };
+  }
+
+  private restoreInventory(
+    items: Order['items'],
+    orderId: string,
+    actor: StockActor | undefined,
+    reason: string
+  ): void {
+    for (const item of items) {
+      const product = this.store.products.get(item.productId);
+      if (!product || item.quantity <= 0) continue;
+      const next = withStockChange(product, item.variantId, item.quantity);
+      if (next) this.store.products.set(product.id, next);
+      recordStockMovement(this.store, {
+        productId: product.id,
+        variantId: item.variantId,
+        type: StockMovementType.RELEASE,
+        quantity: next ? item.quantity : 0,
+        balanceAfter: (next ?? product).stock,
+        orderId,
+        actorId: actor?.id,
+        actorEmail: actor?.email,
+        reason: next ? reason : orphanedReleaseReason(item.quantity),
+      });
+    }
+  }
+
+  /**
+   * Give back the promotion use an order took, so cancelled, refunded and
+   * deleted orders stop counting towards maxRedemptions
+   */
+  private releaseRedemption(order: StoredOrder): void {
+    if (!order.discount) return;
+    const redemptions = this.store.promotionRedemptions;
+    const index = redemptions.findIndex(
+      (r) => r.promotionId === order.discount!.promotionId && r.orderId === order.id
+    );
+    if (index === -1) return;
+    redemptions.splice(index, 1);
+    const promotion = this.store.promotions.get(order.discount.promotionId);
+    if (promotion) {
+      this.store.promotions.set(promotion.id, {
+        ...promotion,
+        redemptionCount: Math.max(0, promotion.redemptionCount - 1),
+      });
+    }
+  }
+
+  /**
+   * Strip store bookkeeping and detach the result from the stored object
+   */
+  private toOrder(stored: StoredOrder): Order {
+    const { inventoryReleased: _inventoryReleased, ...order } = stored;
+    return clone(order);
+  }
+}
@@ -0,0 +1,30 @@
+import type { AuditLogRecord, AuditLogsRepo } from '../ports/auditLogs.repo';
+import { clone, type MemoryStore, newId } from './store';
+
+export function createMemoryAuditLogsRepo(store: MemoryStore): AuditLogsRepo {
+  return {
+    async add(entry) {
+      const record: AuditLogRecord = {
+        id: newId(),
+        ...entry,
+        createdAt: entry.createdAt ?? Date.now(),
+      };
+      store.auditLogs.set(record.id, record);
+      return clone(record);
+    },
+
+    async list(params) {
+      const limit = Math.max(1, Math.min(100, params.limit ?? 25));
+      // Newest first; reverse insertion order keeps same-millisecond entries stable.
+      const data = Array.from(store.auditLogs.values())
+        .reverse()
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .filter((log) => !params.action || log.action === params.action)
+        .filter((log) => !params.after || log.createdAt < params.after)
+        .slice(0, limit)
+        .map(clone);
+      const last = data[data.length - 1];
+      return { data, nextCursor: last?.createdAt };
+    },
+  };
+}
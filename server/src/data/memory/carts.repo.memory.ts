@@ -0,0 +1,31 @@
+import type { CartsRepo } from '../ports/carts.repo';
+import { clone, type MemoryStore } from './store';
+
+export function createMemoryCartsRepo(store: MemoryStore): CartsRepo {
+  return {
+    async get(id) {
+      const cart = store.carts.get(id);
+      return cart ? clone(cart) : null;
+    },
+    async update(id, apply) {
+      const current = store.carts.get(id);
+      const cart = apply(current ? clone(current) : null);
+      store.carts.set(id, clone(cart));
+      return clone(cart);
+    },
+    async remove(id) {
+      store.carts.delete(id);
+    },
+    async removeExpired(now, limit) {
+      let removed = 0;
+      for (const [id, cart] of store.carts) {
+        if (removed >= limit) break;
+        if (cart.expiresAt != null && cart.expiresAt < now) {
+          store.carts.delete(id);
+          removed += 1;
+        }
+      }
+      return removed;
+    },
+  };
+}
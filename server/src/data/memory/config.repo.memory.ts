@@ -0,0 +1,15 @@
+import type { ConfigRepo } from '../ports/config.repo';
+import { clone, type MemoryStore } from './store';
+
+export function createMemoryConfigRepo(store: MemoryStore): ConfigRepo {
+  return {
+    async get<T extends Record<string, unknown>>(key: string) {
+      const doc = store.config.get(key);
+      return doc ? (clone(doc) as T) : null;
+    },
+    async merge(key, value) {
+      const existing = store.config.get(key) ?? {};
+      store.config.set(key, { ...existing, ...clone(value) });
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import type { EmailOutboxRepo } from '../ports/emailOutbox.repo';
+import { clone, type MemoryStore } from './store';
+
+export function createMemoryEmailOutboxRepo(store: MemoryStore): EmailOutboxRepo {
+  return {
+    async enqueue(email) {
+      store.emailOutbox.set(email.id, clone(email));
+    },
+    async get(id) {
+      const email = store.emailOutbox.get(id);
+      return email ? clone(email) : null;
+    },
+    async listDue(now, limit) {
+      return Array.from(store.emailOutbox.values())
+        .filter((e) => e.status === 'pending' && e.nextAttemptAt <= now)
+        .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt)
+        .slice(0, limit)
+        .map(clone);
+    },
+    async claim(id, now, claimUntil) {
+      const email = store.emailOutbox.get(id);
+      if (!email || email.status !== 'pending' || email.nextAttemptAt > now) return false;
+      email.nextAttemptAt = claimUntil;
+      return true;
+    },
+    async update(id, patch) {
+      const email = store.emailOutbox.get(id);
+      if (email) Object.assign(email, clone(patch));
+    },
+    async removeSent(before, limit) {
+      let removed = 0;
+      for (const [id, email] of store.emailOutbox) {
+        if (removed >= limit) break;
+        if (email.status === 'sent' && (email.sentAt ?? 0) < before) {
+          store.emailOutbox.delete(id);
+          removed += 1;
+        }
+      }
+      return removed;
+    },
+  };
+}
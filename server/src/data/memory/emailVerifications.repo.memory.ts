@@ -0,0 +1,28 @@
+import type { EmailVerificationsRepo } from '../ports/emailVerifications.repo';
+import type { MemoryStore } from './store';
+
+export function createMemoryEmailVerificationsRepo(store: MemoryStore): EmailVerificationsRepo {
+  return {
+    async create(tokenHash, record) {
+      store.emailVerifications.set(tokenHash, { ...record });
+    },
+    async get(tokenHash) {
+      const record = store.emailVerifications.get(tokenHash);
+      return record ? { ...record } : null;
+    },
+    async remove(tokenHash) {
+      store.emailVerifications.delete(tokenHash);
+    },
+    async removeExpired(now, limit) {
+      let removed = 0;
+      for (const [hash, record] of store.emailVerifications) {
+        if (removed >= limit) break;
+        if (record.expiresAt < now) {
+          store.emailVerifications.delete(hash);
+          removed += 1;
+        }
+      }
+      return removed;
+    },
+  };
+}
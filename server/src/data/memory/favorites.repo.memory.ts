@@ -0,0 +1,30 @@
+import type { FavoritesRepo } from '../ports/favorites.repo';
+import type { MemoryStore } from './store';
+
+export function createMemoryFavoritesRepo(store: MemoryStore): FavoritesRepo {
+  function forUser(userId: string) {
+    let favorites = store.favorites.get(userId);
+    if (!favorites) {
+      favorites = new Map();
+      store.favorites.set(userId, favorites);
+    }
+    return favorites;
+  }
+
+  return {
+    async list(userId) {
+      return Array.from(forUser(userId).values())
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map((record) => ({ ...record }));
+    },
+    async add(userId, productId) {
+      forUser(userId).set(productId, { productId, createdAt: Date.now() });
+    },
+    async remove(userId, productId) {
+      forUser(userId).delete(productId);
+    },
+    async exists(userId, productId) {
+      return forUser(userId).has(productId);
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import type { IdempotencyRepo } from '../ports/idempotency.repo';
+import { clone, type MemoryStore } from './store';
+
+export function createMemoryIdempotencyRepo(store: MemoryStore): IdempotencyRepo {
+  return {
+    async claim(record) {
+      const existing = store.idempotencyKeys.get(record.key);
+      if (existing && existing.expiresAt >= Date.now()) return clone(existing);
+      store.idempotencyKeys.set(record.key, clone(record));
+      return null;
+    },
+    async complete(key, responseStatus, responseBody) {
+      const record = store.idempotencyKeys.get(key);
+      if (!record) return;
+      store.idempotencyKeys.set(key, {
+        ...record,
+        status: 'completed',
+        responseStatus,
+        responseBody: clone(responseBody),
+      });
+    },
+    async release(key) {
+      store.idempotencyKeys.delete(key);
+    },
+    async removeExpired(now, limit) {
+      let removed = 0;
+      for (const [key, record] of store.idempotencyKeys) {
+        if (removed >= limit) break;
+        if (record.expiresAt < now) {
+          store.idempotencyKeys.delete(key);
+          removed += 1;
+        }
+      }
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryInvoicesRepo } from './invoices.repo.memory';
+import { createMemoryStore } from './store';
+
+describe('memory invoices repo', () => {
+  it('numbers invoices uniquely and in order across orders', async () => {
+    const repo = createMemoryInvoicesRepo(createMemoryStore());
+
+    const issued = await Promise.all(
+      ['order-1', 'order-2', 'order-3'].map((orderId) => repo.issue(orderId, 1000))
+    );
+
+    expect(issued.map((i) => i.number)).toEqual(['INV-000001', 'INV-000002', 'INV-000003']);
+  });
+
+  it('keeps the number and date of an invoice already issued', async () => {
+    const repo = createMemoryInvoicesRepo(createMemoryStore());
+    const first = await repo.issue('order-1', 1000);
+
+    const again = await repo.issue('order-1', 2000);
+
+    expect(again).toEqual(first);
+    expect((await repo.issue('order-2', 3000)).sequence).toBe(2);
+  });
+
+  it('never reuses a number, even once an invoice is gone', async () => {
+    const store = createMemoryStore();
+    const repo = createMemoryInvoicesRepo(store);
+    await repo.issue('order-1', 1000);
+    await repo.issue('order-2', 1000);
+
+    store.invoices.delete('order-2');
+
+    expect((await repo.issue('order-3', 2000)).number).toBe('INV-000003');
+  });
+});
@@ -0,0 +1,21 @@
+import { formatInvoiceNumber } from '../../domain/invoices';
+import type { InvoicesRepo } from '../ports/invoices.repo';
+import { clone, type MemoryStore } from './store';
+
+export function createMemoryInvoicesRepo(store: MemoryStore): InvoicesRepo {
+  return {
+    async getByOrder(orderId) {
+      const invoice = store.invoices.get(orderId);
+      return invoice ? clone(invoice) : null;
+    },
+    async issue(orderId, issuedAt) {
+      let invoice = store.invoices.get(orderId);
+      if (!invoice) {
+        const sequence = ++store.lastInvoiceSequence;
+        invoice = { orderId, sequence, number: formatInvoiceNumber(sequence), issuedAt };
+        store.invoices.set(orderId, invoice);
+      }
+      return clone(invoice);
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import type { LoginAttemptsRepo } from '../ports/loginAttempts.repo';
+import { clone, type MemoryStore } from './store';
+
+export function createMemoryLoginAttemptsRepo(store: MemoryStore): LoginAttemptsRepo {
+  return {
+    async getAccount(email) {
+      const record = store.loginAttempts.get(email);
+      return record ? clone(record) : null;
+    },
+    async recordFailure(email, ip, update) {
+      const account = store.loginAttempts.get(email);
+      const ipRecord = ip ? store.loginIpAttempts.get(ip) : undefined;
+      const next = update(account ? clone(account) : null, ipRecord ? clone(ipRecord) : null);
+      store.loginAttempts.set(email, clone(next.account));
+      if (ip && next.ip) store.loginIpAttempts.set(ip, clone(next.ip));
+      return clone(next);
+    },
+    async removeAccount(email) {
+      store.loginAttempts.delete(email);
+    },
+    async listLocked(now) {
+      return [...store.loginAttempts.values()]
+        .filter((record) => record.lockedUntil != null && record.lockedUntil > now)
+        .map(clone);
+    },
+    async getIp(ip) {
+      const record = store.loginIpAttempts.get(ip);
+      return record ? clone(record) : null;
+    },
+    async removeStale(before, limit) {
+      let removed = 0;
+      for (const map of [store.loginAttempts, store.loginIpAttempts]) {
+        for (const [key, record] of map) {
+          if (removed >= limit) return removed;
+          if (record.updatedAt < before) {
+            map.delete(key);
+            removed += 1;
+          }
+        }
+      }
+      return removed;
+    },
+  };
+}
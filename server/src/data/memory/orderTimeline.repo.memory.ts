@@ -0,0 +1,17 @@
+import type { TimelineEntry } from '../../domain/orderTimeline';
+import type { OrderTimelineRepo } from '../ports/orderTimeline.repo';
+import { clone, type MemoryStore, newId } from './store';
+
+export function createMemoryOrderTimelineRepo(store: MemoryStore): OrderTimelineRepo {
+  return {
+    async append(input) {
+      const entry: TimelineEntry = { ...clone(input), id: newId(), createdAt: Date.now() };
+      store.orderTimeline.push(entry);
+      return clone(entry);
+    },
+
+    async listByOrder(orderId) {
+      return store.orderTimeline.filter((e) => e.orderId === orderId).map(clone);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import type { PasswordResetsRepo } from '../ports/passwordResets.repo';
+import type { MemoryStore } from './store';
+
+export function createMemoryPasswordResetsRepo(store: MemoryStore): PasswordResetsRepo {
+  return {
+    async create(tokenHash, record) {
+      store.passwordResets.set(tokenHash, { ...record });
+    },
+    async get(tokenHash) {
+      const record = store.passwordResets.get(tokenHash);
+      return record ? { ...record } : null;
+    },
+    async remove(tokenHash) {
+      store.passwordResets.delete(tokenHash);
+    },
+    async getNextAllowedAt(userId) {
+      return store.passwordResetNextAllowedAt.get(userId) ?? null;
+    },
+    async setNextAllowedAt(userId, nextAllowedAt) {
+      store.passwordResetNextAllowedAt.set(userId, nextAllowedAt);
+    },
+    async removeExpired(now, limit) {
+      let removed = 0;
+      for (const [hash, record] of store.passwordResets) {
+        if (removed >= limit) break;
+        if (record.expiresAt < now) {
+          store.passwordResets.delete(hash);
+          removed += 1;
+        }
+      }
+      return removed;
+    },
+  };
+}
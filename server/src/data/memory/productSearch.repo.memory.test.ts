@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryProductSearchRepo } from './productSearch.repo.memory';
+import { createMemoryProductsRepo } from './products.repo.memory';
+import { createMemoryStore } from './store';
+
+describe('memory product search repo', () => {
+  it('backfills an index that predates the products in it', async () => {
+    const store = createMemoryStore();
+    store.products.set('p1', {
+      id: 'p1',
+      name: 'Walnut chopping board',
+      price: 35,
+      category: 'kitchen',
+      rating: 0,
+      stock: 4,
+      createdAt: Date.now(),
+    });
+    const search = createMemoryProductSearchRepo(store);
+    expect((await search.search({ q: 'walnut' })).total).toBe(0);
+
+    expect(await search.backfill()).toBe(1);
+
+    expect((await search.search({ q: 'walnut' })).data.map((p) => p.id)).toEqual(['p1']);
+  });
+
+  it('leaves an index with terms alone', async () => {
+    const store = createMemoryStore();
+    await createMemoryProductsRepo(store).create({
+      name: 'Oak stool',
+      price: 60,
+      category: 'furniture',
+      rating: 0,
+      stock: 2,
+    });
+
+    expect(await createMemoryProductSearchRepo(store).backfill()).toBe(0);
+  });
+});
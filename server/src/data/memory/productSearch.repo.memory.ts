@@ -0,0 +1,57 @@
+import type { Product } from '../../domain/product';
+import type { ProductSearchRepo } from '../ports/productSearch.repo';
+import { postingChanges, runSearch } from '../shared/searchIndex';
+import { clone, type MemoryStore } from './store';
+
+/**
+ * Move a product's postings from `before` to `after`; callers invoke this
+ * alongside the product write it mirrors
+ */
+export function indexProduct(store: MemoryStore, before?: Product, after?: Product): void {
+  const id = (after ?? before)?.id;
+  if (!id) return;
+  const { removed, upserted } = postingChanges(before, after);
+  for (const term of removed) {
+    const list = store.searchIndex.get(term);
+    if (!list) continue;
+    delete list[id];
+    if (Object.keys(list).length === 0) store.searchIndex.delete(term);
+  }
+  for (const [term, posting] of Object.entries(upserted)) {
+    const list = store.searchIndex.get(term) ?? {};
+    list[id] = posting;
+    store.searchIndex.set(term, list);
+  }
+}
+
+export function createMemoryProductSearchRepo(store: MemoryStore): ProductSearchRepo {
+  return {
+    async search(params) {
+      return runSearch(
+        {
+          // Every term is a candidate; ranking keeps the ones that match
+          postings: async () => store.searchIndex,
+          documentCount: async () => store.products.size,
+          all: async () => Array.from(store.products.values()).map(clone),
+          load: async (ids) =>
+            ids.flatMap((id) => {
+              const product = store.products.get(id);
+              return product ? [clone(product)] : [];
+            }),
+        },
+        params
+      );
+    },
+
+    async rebuild() {
+      store.searchIndex.clear();
+      for (const product of store.products.values()) indexProduct(store, undefined, product);
+      return store.products.size;
+    },
+
+    async backfill() {
+      if (store.searchIndex.size > 0 || store.products.size === 0) return 0;
+      return this.rebuild();
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryProductsRepo } from './products.repo.memory';
+import { createMemoryStore } from './store';
+
+describe('memory products repo', () => {
+  it('sets and removes a product low-stock threshold', async () => {
+    const repo = createMemoryProductsRepo(createMemoryStore());
+    const product = await repo.create({
+      name: 'Teapot',
+      price: 18,
+      category: 'kitchen',
+      rating: 0,
+      stock: 6,
+    });
+
+    const withThreshold = await repo.update(product.id, { lowStockThreshold: 2 });
+    expect(withThreshold.lowStockThreshold).toBe(2);
+
+    const renamed = await repo.update(product.id, { name: 'Blue teapot' });
+    expect(renamed.lowStockThreshold).toBe(2);
+
+    const cleared = await repo.update(product.id, { lowStockThreshold: null });
+    expect(cleared).not.toHaveProperty('lowStockThreshold');
+    expect(cleared.name).toBe('Blue teapot');
+  });
+});
@@ -0,0 +1,158 @@
+import { StockMovementType } from '../../domain/inventory';
+import type { Product } from '../../domain/product';
+import type { ProductsRepo } from '../ports/products.repo';
+import {
+  buildListPage,
+  DEFAULT_LIST_LIMIT,
+  type ListKey,
+  listKey,
+  readListCursor,
+} from '../shared/productCursor';
+import { buildProductTimeseries } from '../shared/productTimeseries';
+import { applyVariantStock, stockAdjustments } from '../shared/variants';
+import { indexProduct } from './productSearch.repo.memory';
+import { recordStockMovement } from './stockMovements.repo.memory';
+import { clone, type MemoryStore, newId } from './store';
+
+function normalizeStock(value: unknown): number {
+  const stock = Math.floor(Number(value ?? 0));
+  return Number.isFinite(stock) && stock >= 0 ? stock : 0;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return -1;
+  if (b === undefined || b === null) return 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * In-memory implementation of the ProductsRepo interface.
+ *
+ * Mirrors the normalisation rules of `fsProductsRepo` (non-negative integer
+ * stock, string-only image lists, numeric `createdAt`) so services behave the
+ * same against either store, and keeps `store.searchIndex` in step with every
+ * write. Products live in `store.products`, which the in-memory order
+ * repository also mutates when decrementing stock.
+ */
+export function createMemoryProductsRepo(store: MemoryStore): ProductsRepo {
+  return {
+    async list(params = {}) {
+      const { sort, filter } = params;
+      const limit = params.limit ?? DEFAULT_LIST_LIMIT;
+      const position = readListCursor(params);
+      let items = Array.from(store.products.values());
+      if (filter?.category) items = items.filter((p) => p.category === filter.category);
+      if (filter?.minPrice != null) items = items.filter((p) => p.price >= filter.minPrice!);
+      if (filter?.maxPrice != null) items = items.filter((p) => p.price <= filter.maxPrice!);
+      if (filter?.priceBelow != null) items = items.filter((p) => p.price < filter.priceBelow!);
+      const dir = sort?.dir === 'desc' ? -1 : 1;
+      const compare = (a: ListKey, b: ListKey) =>
+        dir * (compareValues(a[0], b[0]) || compareValues(a[1], b[1]));
+      items.sort((a, b) => compare(listKey(a, params), listKey(b, params)));
+      let rows = items;
+      if (position?.direction === 'after') {
+        rows = items.filter((p) => compare(listKey(p, params), position.key) > 0);
+      } else if (position?.direction === 'before') {
+        rows = items.filter((p) => compare(listKey(p, params), position.key) < 0).reverse();
+      }
+      return buildListPage(rows.slice(0, limit + 1).map(clone), items.length, params, position);
+    },
+
+    async getById(id) {
+      const product = store.products.get(id);
+      return product ? clone(product) : null;
+    },
+
+    async findBySkus(skus) {
+      const wanted = new Set(skus);
+      return Array.from(store.products.values())
+        .filter((product) => product.sku !== undefined && wanted.has(product.sku))
+        .map(clone);
+    },
+
+    async create(input, actor) {
+      const images = Array.isArray(input.images)
+        ? input.images.filter((value): value is string => typeof value === 'string')
+        : [];
+      const product = applyVariantStock({
+        ...clone(input),
+        id: newId(),
+        images,
+        stock: normalizeStock(input.stock),
+        createdAt: Date.now(),
+      });
+      store.products.set(product.id, product);
+      indexProduct(store, undefined, product);
+      for (const adjustment of stockAdjustments(undefined, product)) {
+        recordStockMovement(store, {
+          productId: product.id,
+          ...adjustment,
+          type: StockMovementType.ADJUSTMENT,
+          actorId: actor?.id,
+          actorEmail: actor?.email,
+          reason: 'Opening stock',
+        });
+      }
+      return clone(product);
+    },
+
+    async update(id, patch, actor) {
+      const existing = store.products.get(id);
+      if (!existing) throw new Error(`Product with id ${id} does not exist.`);
+      const { lowStockThreshold, ...changes } = clone(patch);
+      let next: Product = { ...existing, ...changes, id };
+      if (lowStockThreshold === null) delete next.lowStockThreshold;
+      else if (lowStockThreshold !== undefined) next.lowStockThreshold = lowStockThreshold;
+      if (patch.stock != null) {
+        const numericStock = Number(patch.stock);
+        if (!Number.isFinite(numericStock) || numericStock < 0) {
+          throw new Error('Stock must be a non-negative integer');
+        }
+        next.stock = Math.floor(numericStock);
+      }
+      if (patch.images) {
+        next.images = Array.isArray(patch.images)
+          ? patch.images.filter((value): value is string => typeof value === 'string')
+          : [];
+      }
+      next = applyVariantStock(next, existing, changes);
+      store.products.set(id, next);
+      indexProduct(store, existing, next);
+      for (const adjustment of stockAdjustments(existing, next)) {
+        recordStockMovement(store, {
+          productId: id,
+          ...adjustment,
+          type: StockMovementType.ADJUSTMENT,
+          actorId: actor?.id,
+          actorEmail: actor?.email,
+          reason: 'Stock edited',
+        });
+      }
+      return clone(next);
+    },
+
+    async remove(id) {
+      const existing = store.products.get(id);
+      store.products.delete(id);
+      if (existing) indexProduct(store, existing);
+    },
+
+    async stats() {
+      const products = Array.from(store.products.values());
+      const count = products.length;
+      const avgPrice = count ? products.reduce((sum, p) => sum + (p.price || 0), 0) / count : 0;
+      return { count, avgPrice };
+    },
+
+    async timeseries(params) {
+      const { windowDays = 30, interval = 'day' } = params || {};
+      const since = Date.now() - windowDays * 24 * 60 * 60 * 1000;
+      const items = Array.from(store.products.values())
+        .filter((p) => p.createdAt >= since)
+        .sort((a, b) => a.createdAt - b.createdAt);
+      return buildProductTimeseries(items, interval);
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import type { SavedAddress } from '../../domain/profile';
+import type { ProfilesRepo } from '../ports/profiles.repo';
+import { clone, type MemoryStore } from './store';
+
+export function createMemoryProfilesRepo(store: MemoryStore): ProfilesRepo {
+  function addressesOf(userId: string): Map<string, SavedAddress> {
+    let addresses = store.addresses.get(userId);
+    if (!addresses) {
+      addresses = new Map();
+      store.addresses.set(userId, addresses);
+    }
+    return addresses;
+  }
+
+  return {
+    async get(userId) {
+      const profile = store.profiles.get(userId);
+      return profile ? clone(profile) : null;
+    },
+    async save(profile) {
+      store.profiles.set(profile.userId, clone(profile));
+    },
+    async listAddresses(userId) {
+      return [...addressesOf(userId).values()].sort((a, b) => a.createdAt - b.createdAt).map(clone);
+    },
+    async getAddress(userId, id) {
+      const address = addressesOf(userId).get(id);
+      return address ? clone(address) : null;
+    },
+    async addAddress(userId, address, limit) {
+      const addresses = addressesOf(userId);
+      if (addresses.size >= limit) return null;
+      const saved = clone(address);
+      saved.isDefault = address.isDefault || ![...addresses.values()].some((a) => a.isDefault);
+      if (saved.isDefault) {
+        for (const other of addresses.values()) other.isDefault = false;
+      }
+      addresses.set(saved.id, saved);
+      return clone(saved);
+    },
+    async saveAddress(userId, address) {
+      addressesOf(userId).set(address.id, clone(address));
+    },
+    async removeAddress(userId, id) {
+      const addresses = addressesOf(userId);
+      const removed = addresses.get(id);
+      if (!removed) return false;
+      addresses.delete(id);
+      if (removed.isDefault) {
+        const [next] = [...addresses.values()].sort((a, b) => a.createdAt - b.createdAt);
+        if (next) next.isDefault = true;
+      }
+      return true;
+    },
+    async setDefaultAddress(userId, id) {
+      const addresses = addressesOf(userId);
+      if (!addresses.has(id)) return false;
+      for (const address of addresses.values()) {
+        address.isDefault = address.id === id;
+      }
+      return true;
+    },
+    async removeAll(userId) {
+      store.profiles.delete(userId);
+      store.addresses.delete(userId);
+    },
+  };
+}
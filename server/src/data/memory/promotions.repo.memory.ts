@@ -0,0 +1,67 @@
+import { normalizePromoCode, type Promotion } from '../../domain/promotions';
+import type { PromotionsRepo } from '../ports/promotions.repo';
+import { clone, type MemoryStore, newId } from './store';
+
+export function findPromotionByCode(store: MemoryStore, code: string): Promotion | undefined {
+  const norm = normalizePromoCode(code);
+  for (const promotion of store.promotions.values()) {
+    if (promotion.code === norm) return promotion;
+  }
+  return undefined;
+}
+
+function codeTaken(): Error {
+  return Object.assign(new Error('Promo code already exists'), { status: 409 });
+}
+
+export function createMemoryPromotionsRepo(store: MemoryStore): PromotionsRepo {
+  return {
+    async list() {
+      return Array.from(store.promotions.values())
+        .reverse()
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map(clone);
+    },
+    async getById(id) {
+      const promotion = store.promotions.get(id);
+      return promotion ? clone(promotion) : null;
+    },
+    async findByCode(code) {
+      const promotion = findPromotionByCode(store, code);
+      return promotion ? clone(promotion) : null;
+    },
+    async create(input) {
+      if (findPromotionByCode(store, input.code)) throw codeTaken();
+      const now = Date.now();
+      const promotion: Promotion = {
+        ...clone(input),
+        id: newId(),
+        code: normalizePromoCode(input.code),
+        redemptionCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      store.promotions.set(promotion.id, promotion);
+      return clone(promotion);
+    },
+    async update(id, input) {
+      const existing = store.promotions.get(id);
+      if (!existing) throw Object.assign(new Error('Promotion not found'), { status: 404 });
+      const clash = findPromotionByCode(store, input.code);
+      if (clash && clash.id !== id) throw codeTaken();
+      const next: Promotion = {
+        ...clone(input),
+        id,
+        code: normalizePromoCode(input.code),
+        redemptionCount: existing.redemptionCount,
+        createdAt: existing.createdAt,
+        updatedAt: Date.now(),
+      };
+      store.promotions.set(id, next);
+      return clone(next);
+    },
+    async remove(id) {
+      store.promotions.delete(id);
+    },
+  };
+}
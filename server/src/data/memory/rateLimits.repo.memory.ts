@@ -0,0 +1,36 @@
+import { consumeRateLimit, refundRateLimit } from '../../domain/rateLimit';
+import type { RateLimitStore } from '../ports/rateLimits.repo';
+import type { MemoryStore } from './store';
+
+export function createMemoryRateLimitStore(store: MemoryStore): RateLimitStore {
+  return {
+    async consume(key, policy, now = Date.now()) {
+      const { state, result } = consumeRateLimit(
+        store.rateLimits.get(key) ?? null,
+        key,
+        policy,
+        now
+      );
+      store.rateLimits.set(key, state);
+      return result;
+    },
+    async refund(key, policy) {
+      const state = store.rateLimits.get(key);
+      if (state) store.rateLimits.set(key, refundRateLimit(state, policy));
+    },
+    async reset(key) {
+      store.rateLimits.delete(key);
+    },
+    async removeExpired(now, limit) {
+      let removed = 0;
+      for (const [key, state] of store.rateLimits) {
+        if (removed >= limit) break;
+        if (state.expiresAt <= now) {
+          store.rateLimits.delete(key);
+          removed += 1;
+        }
+      }
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import type { RefreshTokensRepo } from '../ports/refreshTokens.repo';
+import type { MemoryStore } from './store';
+
+export function createMemoryRefreshTokensRepo(store: MemoryStore): RefreshTokensRepo {
+  return {
+    async create(tokenHash, token) {
+      store.refreshTokens.set(tokenHash, { ...token });
+    },
+    async get(tokenHash) {
+      const record = store.refreshTokens.get(tokenHash);
+      return record ? { ...record } : null;
+    },
+    async rotate(tokenHash, nextHash, next, successor) {
+      const current = store.refreshTokens.get(tokenHash);
+      if (!current || current.usedAt != null) return false;
+      current.usedAt = next.createdAt;
+      current.successor = successor;
+      store.refreshTokens.set(nextHash, { ...next });
+      return true;
+    },
+    async removeExpired(now, limit) {
+      let removed = 0;
+      for (const [hash, record] of store.refreshTokens) {
+        if (removed >= limit) break;
+        if (record.expiresAt < now) {
+          store.refreshTokens.delete(hash);
+          removed += 1;
+        }
+      }
+      return removed;
+    },
+  };
+}
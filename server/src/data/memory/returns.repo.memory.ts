@@ -0,0 +1,128 @@
+import { StockMovementType, stockKey } from '../../domain/inventory';
+import type { RefundRecord, ReturnRequest } from '../../domain/returns';
+import { pendingStatusFor, type ReturnsRepo } from '../ports/returns.repo';
+import { withStockChange } from '../shared/variants';
+import { recordStockMovement } from './stockMovements.repo.memory';
+import { clone, type MemoryStore, newId } from './store';
+
+function newestFirst<T extends { createdAt: number }>(records: Iterable<T>): T[] {
+  // Reverse insertion order first so records created in the same millisecond stay newest-first
+  return Array.from(records)
+    .reverse()
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function createMemoryReturnsRepo(store: MemoryStore): ReturnsRepo {
+  return {
+    async create(input) {
+      const now = Date.now();
+      const request: ReturnRequest = {
+        ...clone(input),
+        id: newId(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      store.returns.set(request.id, request);
+      return clone(request);
+    },
+
+    async getById(id) {
+      const request = store.returns.get(id);
+      return request ? clone(request) : null;
+    },
+
+    async listByOrder(orderId) {
+      return newestFirst(store.returns.values())
+        .filter((r) => r.orderId === orderId)
+        .map(clone);
+    },
+
+    async list({ status, limit }) {
+      const matching = newestFirst(store.returns.values()).filter(
+        (r) => !status || r.status === status
+      );
+      return (limit ? matching.slice(0, limit) : matching).map(clone);
+    },
+
+    async transition(id, from, to) {
+      const existing = store.returns.get(id);
+      if (!existing) throw Object.assign(new Error('Return request not found'), { status: 404 });
+      if (existing.status !== from) {
+        throw Object.assign(new Error(`Return request is already ${existing.status}`), {
+          status: 409,
+        });
+      }
+      const next: ReturnRequest = { ...existing, status: to, updatedAt: Date.now() };
+      store.returns.set(id, next);
+      return clone(next);
+    },
+
+    async resolve(id, resolution) {
+      const existing = store.returns.get(id);
+      if (!existing) throw Object.assign(new Error('Return request not found'), { status: 404 });
+      if (existing.status !== pendingStatusFor(resolution)) {
+        throw Object.assign(new Error(`Return request is already ${existing.status}`), {
+          status: 409,
+        });
+      }
+
+      const now = Date.now();
+      const next: ReturnRequest = {
+        ...existing,
+        status: resolution.status,
+        resolvedBy: resolution.resolvedBy,
+        resolvedAt: now,
+        updatedAt: now,
+        restocked: Boolean(resolution.restockItems?.length),
+        ...(resolution.adminNote ? { adminNote: resolution.adminNote } : {}),
+      };
+
+      if (resolution.refund) {
+        const refund: RefundRecord = {
+          ...clone(resolution.refund),
+          id: newId(),
+          orderId: existing.orderId,
+          returnId: id,
+          createdAt: now,
+        };
+        store.refunds.set(refund.id, refund);
+        next.refundId = refund.id;
+        next.refundAmount = refund.amount;
+      }
+
+      if (resolution.restockItems?.length) {
+        const order = store.orders.get(existing.orderId);
+        const restocked = { ...(order?.restockedQuantities ?? {}) };
+        for (const item of resolution.restockItems) {
+          const product = store.products.get(item.productId);
+          const next = product && withStockChange(product, item.variantId, item.quantity);
+          if (next) {
+            store.products.set(next.id, next);
+            recordStockMovement(store, {
+              productId: next.id,
+              variantId: item.variantId,
+              type: StockMovementType.RESTOCK,
+              quantity: item.quantity,
+              balanceAfter: next.stock,
+              orderId: existing.orderId,
+              returnId: id,
+              actorId: resolution.resolvedBy,
+            });
+          }
+          const key = stockKey(item.productId, item.variantId);
+          restocked[key] = (restocked[key] ?? 0) + item.quantity;
+        }
+        if (order) store.orders.set(order.id, { ...order, restockedQuantities: restocked });
+      }
+
+      store.returns.set(id, next);
+      return clone(next);
+    },
+
+    async listRefunds(orderId) {
+      return newestFirst(store.refunds.values())
+        .filter((r) => r.orderId === orderId)
+        .map(clone);
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import type { Product } from '../../domain/product';
+import {
+  applyRatingChange,
+  type Review,
+  ReviewStatus,
+  summarizeRatings,
+} from '../../domain/reviews';
+import type { ReviewsRepo } from '../ports/reviews.repo';
+import {
+  buildReviewPage,
+  compareReviewKeys,
+  DEFAULT_REVIEW_LIMIT,
+  readReviewCursor,
+  reviewId,
+  reviewKey,
+} from '../shared/reviews';
+import { clone, type MemoryStore } from './store';
+
+/**
+ * Apply a review moving from `before` to `after` to its product's rating
+ * aggregates; callers invoke this alongside the review write
+ */
+function updateProductRating(store: MemoryStore, before: Review | undefined, after: Review): void {
+  const product = store.products.get(after.productId);
+  if (!product) return;
+  const counts = applyRatingChange(
+    product.ratingCounts,
+    before?.status === ReviewStatus.APPROVED ? before.rating : undefined,
+    after.status === ReviewStatus.APPROVED ? after.rating : undefined
+  );
+  const summary = summarizeRatings(counts);
+  const next: Product = {
+    ...product,
+    rating: summary.average,
+    reviewCount: summary.count,
+    ratingCounts: counts,
+  };
+  store.products.set(product.id, next);
+}
+
+export function createMemoryReviewsRepo(store: MemoryStore): ReviewsRepo {
+  return {
+    async submit(input) {
+      const id = reviewId(input.productId, input.userId);
+      const existing = store.reviews.get(id);
+      const now = Date.now();
+      const review: Review = {
+        ...clone(input),
+        id,
+        status: ReviewStatus.PENDING,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      updateProductRating(store, existing, review);
+      store.reviews.set(id, review);
+      return clone(review);
+    },
+
+    async getById(id) {
+      const review = store.reviews.get(id);
+      return review ? clone(review) : null;
+    },
+
+    async findByUserAndProduct(userId, productId) {
+      const review = store.reviews.get(reviewId(productId, userId));
+      return review ? clone(review) : null;
+    },
+
+    async listApproved(productId, params = {}) {
+      const after = readReviewCursor(productId, params);
+      const limit = params.limit ?? DEFAULT_REVIEW_LIMIT;
+      const rows = Array.from(store.reviews.values())
+        .filter((r) => r.productId === productId && r.status === ReviewStatus.APPROVED)
+        .sort((a, b) => compareReviewKeys(reviewKey(a, params), reviewKey(b, params), params))
+        .filter((r) => !after || compareReviewKeys(reviewKey(r, params), after, params) > 0)
+        .slice(0, limit + 1)
+        .map(clone);
+      return buildReviewPage(rows, productId, params);
+    },
+
+    async list({ status, limit }) {
+      const matching = Array.from(store.reviews.values())
+        .filter((r) => !status || r.status === status)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+      return (limit ? matching.slice(0, limit) : matching).map(clone);
+    },
+
+    async moderate(id, moderation) {
+      const existing = store.reviews.get(id);
+      if (!existing) throw Object.assign(new Error('Review not found'), { status: 404 });
+      const now = Date.now();
+      const { moderationNote: _note, ...rest } = existing;
+      const next: Review = {
+        ...rest,
+        status: moderation.status,
+        moderatedBy: moderation.moderatedBy,
+        moderatedAt: now,
+        updatedAt: now,
+        ...(moderation.note ? { moderationNote: moderation.note } : {}),
+      };
+      updateProductRating(store, existing, next);
+      store.reviews.set(id, next);
+      return clone(next);
+    },
+  };
+}
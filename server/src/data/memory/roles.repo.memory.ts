@@ -0,0 +1,22 @@
+import type { RolesRepo } from '../ports/roles.repo';
+import { clone, type MemoryStore } from './store';
+
+export function createMemoryRolesRepo(store: MemoryStore): RolesRepo {
+  return {
+    async list() {
+      return Array.from(store.roles.values())
+        .map((role) => clone(role))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    async get(id) {
+      const role = store.roles.get(id);
+      return role ? clone(role) : null;
+    },
+    async save(role) {
+      store.roles.set(role.id, clone(role));
+    },
+    async remove(id) {
+      store.roles.delete(id);
+    },
+  };
+}
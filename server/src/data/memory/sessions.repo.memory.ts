@@ -0,0 +1,44 @@
+import type { SessionsRepo } from '../ports/sessions.repo';
+import type { MemoryStore } from './store';
+
+export function createMemorySessionsRepo(store: MemoryStore): SessionsRepo {
+  return {
+    async create(session) {
+      store.sessions.set(session.id, { ...session });
+    },
+    async get(id) {
+      const session = store.sessions.get(id);
+      return session ? { ...session } : null;
+    },
+    async listActive(userId) {
+      return Array.from(store.sessions.values())
+        .filter((s) => s.userId === userId && s.revokedAt == null)
+        .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+        .map((s) => ({ ...s }));
+    },
+    async touch(id, seen) {
+      const session = store.sessions.get(id);
+      if (!session) return;
+      session.lastSeenAt = seen.lastSeenAt;
+      if (seen.ip) session.ip = seen.ip;
+    },
+    async revoke(id, reason) {
+      const session = store.sessions.get(id);
+      if (!session || session.revokedAt != null) return false;
+      session.revokedAt = Date.now();
+      session.revokedReason = reason;
+      return true;
+    },
+    async revokeAllForUser(userId, reason) {
+      const now = Date.now();
+      let revoked = 0;
+      for (const session of store.sessions.values()) {
+        if (session.userId !== userId || session.revokedAt != null) continue;
+        session.revokedAt = now;
+        session.revokedReason = reason;
+        revoked += 1;
+      }
+      return revoked;
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { type Shipment, ShipmentStatus } from '../../domain/shipments';
+import type { ShipmentsRepo } from '../ports/shipments.repo';
+import { clone, type MemoryStore, newId } from './store';
+
+export function createMemoryShipmentsRepo(store: MemoryStore): ShipmentsRepo {
+  function listByOrder(orderId: string): Shipment[] {
+    return Array.from(store.shipments.values())
+      .filter((s) => s.orderId === orderId)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(clone);
+  }
+
+  return {
+    async create(orderId, build) {
+      const input = build(listByOrder(orderId));
+      const now = Date.now();
+      const shipment: Shipment = { ...clone(input), id: newId(), createdAt: now, updatedAt: now };
+      store.shipments.set(shipment.id, shipment);
+      return clone(shipment);
+    },
+
+    async getById(id) {
+      const shipment = store.shipments.get(id);
+      return shipment ? clone(shipment) : null;
+    },
+
+    async listByOrder(orderId) {
+      return listByOrder(orderId);
+    },
+
+    async listActive(limit) {
+      return Array.from(store.shipments.values())
+        .filter((s) => s.status !== ShipmentStatus.DELIVERED)
+        .sort((a, b) => a.lastCheckedAt - b.lastCheckedAt)
+        .slice(0, limit)
+        .map(clone);
+    },
+
+    async updateTracking(id, update) {
+      const shipment = store.shipments.get(id);
+      if (!shipment) throw Object.assign(new Error('Shipment not found'), { status: 404 });
+      const next: Shipment = { ...shipment, ...clone(update), updatedAt: Date.now() };
+      store.shipments.set(id, next);
+      return clone(next);
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import type { NewStockMovement } from '../../domain/inventory';
+import type { StockMovementsRepo } from '../ports/stockMovements.repo';
+import { clone, type MemoryStore, newId } from './store';
+
+/**
+ * Append a movement; callers invoke this alongside the stock write it explains
+ */
+export function recordStockMovement(store: MemoryStore, movement: NewStockMovement): void {
+  store.stockMovements.push({ ...clone(movement), id: newId(), createdAt: Date.now() });
+}
+
+export function createMemoryStockMovementsRepo(store: MemoryStore): StockMovementsRepo {
+  return {
+    async listByProduct(productId, params) {
+      return store.stockMovements
+        .filter((m) => m.productId === productId)
+        .reverse()
+        .slice(0, params?.limit ?? 100)
+        .map(clone);
+    },
+
+    async totals() {
+      const totals: Record<string, { quantity: number; count: number }> = {};
+      for (const { productId, quantity } of store.stockMovements) {
+        const entry = totals[productId] ?? { quantity: 0, count: 0 };
+        entry.quantity += quantity;
+        entry.count += 1;
+        totals[productId] = entry;
+      }
+      return totals;
+    },
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Process-local backing store shared by the in-memory repositories.
+ *
+ * Repositories that need to change several entities atomically (for example an
+ * order and the stock of its products) operate on the same store instance and
+ * perform their validation and writes synchronously, so no other request can
+ * interleave between the checks and the mutation.
+ */
+import { randomUUID } from 'crypto';
+import type { Cart } from '../../domain/cart';
+import type { OutboxEmail } from '../../domain/email';
+import type { IdempotencyRecord } from '../../domain/idempotency';
+import type { StockMovement } from '../../domain/inventory';
+import type { InvoiceRecord } from '../../domain/invoices';
+import type { Order } from '../../domain/orders';
+import type { TimelineEntry } from '../../domain/orderTimeline';
+import type { Product } from '../../domain/product';
+import type { SavedAddress, UserProfile } from '../../domain/profile';
+import type { RateLimitState } from '../../domain/rateLimit';
+import type { Promotion, PromotionRedemption } from '../../domain/promotions';
+import type { RefundRecord, ReturnRequest } from '../../domain/returns';
+import type { Review } from '../../domain/reviews';
+import type { Role } from '../../domain/roles';
+import type { Session } from '../../domain/session';
+import type { Shipment } from '../../domain/shipments';
+import type { User } from '../../domain/user';
+import type { AuditLogRecord } from '../ports/auditLogs.repo';
+import type { EmailVerificationRecord } from '../ports/emailVerifications.repo';
+import type { FavoriteRecord } from '../ports/favorites.repo';
+import type { AccountLoginAttempts, IpLoginAttempts } from '../ports/loginAttempts.repo';
+import type { PasswordResetRecord } from '../ports/passwordResets.repo';
+import type { RefreshTokenRecord } from '../ports/refreshTokens.repo';
+import type { TokenRevocation } from '../ports/tokenRevocations.repo';
+import type { TwoFactorRecord } from '../ports/twoFactor.repo';
+import type { PostingList } from '../shared/searchIndex';
+
+/**
+ * Order as persisted by the memory store, including bookkeeping that is not part
+ * of the public Order shape.
+ */
+export type StoredOrder = Order & {
+  inventoryReleased: boolean;
+  restockedQuantities?: Record<string, number>; // stockKey() => units restocked by returns
+};
+
+export interface MemoryStore {
+  products: Map<string, Product>;
+  orders: Map<string, StoredOrder>;
+  users: Map<string, User>;
+  roles: Map<string, Role>; // custom roles only
+  profiles: Map<string, UserProfile>; // keyed by userId
+  addresses: Map<string, Map<string, SavedAddress>>; // userId => addressId => address
+  favorites: Map<string, Map<string, FavoriteRecord>>; // userId => productId => record
+  carts: Map<string, Cart>; // keyed by userId, or guest cart id
+  auditLogs: Map<string, AuditLogRecord>;
+  tokenRevocations: Map<string, TokenRevocation>; // keyed by userId
+  passwordResets: Map<string, PasswordResetRecord>; // keyed by sha256(token)
+  passwordResetNextAllowedAt: Map<string, number>; // keyed by userId
+  refreshTokens: Map<string, RefreshTokenRecord>; // keyed by sha256(token)
+  sessions: Map<string, Session>;
+  twoFactor: Map<string, TwoFactorRecord>; // keyed by userId
+  loginAttempts: Map<string, AccountLoginAttempts>; // keyed by email
+  loginIpAttempts: Map<string, IpLoginAttempts>; // keyed by IP address
+  rateLimits: Map<string, RateLimitState>; // keyed by limiter name and client
+  idempotencyKeys: Map<string, IdempotencyRecord>; // keyed by scoped key
+  emailVerifications: Map<string, EmailVerificationRecord>; // keyed by sha256(token)
+  emailOutbox: Map<string, OutboxEmail>;
+  config: Map<string, Record<string, unknown>>;
+  promotions: Map<string, Promotion>;
+  promotionRedemptions: PromotionRedemption[];
+  returns: Map<string, ReturnRequest>;
+  refunds: Map<string, RefundRecord>;
+  shipments: Map<string, Shipment>;
+  invoices: Map<string, InvoiceRecord>; // keyed by orderId
+  lastInvoiceSequence: number; // never reused, even if invoices are removed
+  orderTimeline: TimelineEntry[]; // append-only, oldest first
+  stockMovements: StockMovement[]; // append-only, oldest first
+  searchIndex: Map<string, PostingList>; // term => postings
+  reviews: Map<string, Review>; // keyed by reviewId(productId, userId)
+}
+
+export function createMemoryStore(): MemoryStore {
+  return {
+    products: new Map(),
+    orders: new Map(),
+    users: new Map(),
+    roles: new Map(),
+    profiles: new Map(),
+    addresses: new Map(),
+    favorites: new Map(),
+    carts: new Map(),
+    auditLogs: new Map(),
+    tokenRevocations: new Map(),
+    passwordResets: new Map(),
+    passwordResetNextAllowedAt: new Map(),
+    refreshTokens: new Map(),
+    sessions: new Map(),
+    twoFactor: new Map(),
+    loginAttempts: new Map(),
+    loginIpAttempts: new Map(),
+    rateLimits: new Map(),
+    idempotencyKeys: new Map(),
+    emailVerifications: new Map(),
+    emailOutbox: new Map(),
+    config: new Map(),
+    promotions: new Map(),
+    promotionRedemptions: [],
+    returns: new Map(),
+    refunds: new Map(),
+    shipments: new Map(),
+    invoices: new Map(),
+    lastInvoiceSequence: 0,
+    orderTimeline: [],
+    stockMovements: [],
+    searchIndex: new Map(),
+    reviews: new Map(),
+  };
+}
+
+/**
+ * Generate an opaque document id (mirrors Firestore auto-ids being plain strings).
+ */
+export function newId(): string {
+  return randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Deep copy a stored value so callers can never mutate the store by reference.
+ */
+export function clone<T>(value: T): T {
+  return structuredClone(value);
+}
@@ -0,0 +1,28 @@
+import type { TokenRevocationsRepo } from '../ports/tokenRevocations.repo';
+import type { MemoryStore } from './store';
+
+export function createMemoryTokenRevocationsRepo(store: MemoryStore): TokenRevocationsRepo {
+  return {
+    async get(userId) {
+      const revocation = store.tokenRevocations.get(userId);
+      return revocation ? { ...revocation } : null;
+    },
+    async set(revocation) {
+      store.tokenRevocations.set(revocation.userId, { ...revocation });
+    },
+    async remove(userId) {
+      store.tokenRevocations.delete(userId);
+    },
+    async removeExpired(now, limit) {
+      let removed = 0;
+      for (const [userId, revocation] of store.tokenRevocations) {
+        if (removed >= limit) break;
+        if (revocation.expiresAt < now) {
+          store.tokenRevocations.delete(userId);
+          removed += 1;
+        }
+      }
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import type { TwoFactorRepo } from '../ports/twoFactor.repo';
+import { clone, type MemoryStore } from './store';
+
+export function createMemoryTwoFactorRepo(store: MemoryStore): TwoFactorRepo {
+  return {
+    async get(userId) {
+      const record = store.twoFactor.get(userId);
+      return record ? clone(record) : null;
+    },
+    async save(record) {
+      store.twoFactor.set(record.userId, clone(record));
+    },
+    async remove(userId) {
+      store.twoFactor.delete(userId);
+    },
+    async useStep(userId, step) {
+      const record = store.twoFactor.get(userId);
+      if (!record || step <= record.lastUsedStep) return false;
+      record.lastUsedStep = step;
+      record.updatedAt = Date.now();
+      return true;
+    },
+    async useRecoveryCode(userId, codeHash) {
+      const record = store.twoFactor.get(userId);
+      const index = record ? record.recoveryCodes.indexOf(codeHash) : -1;
+      if (!record || index === -1) return false;
+      record.recoveryCodes.splice(index, 1);
+      record.updatedAt = Date.now();
+      return true;
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import type { User } from '../../domain/user';
+import type { UsersRepo } from '../ports/users.repo';
+import { clone, type MemoryStore, newId } from './store';
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function createMemoryUsersRepo(store: MemoryStore): UsersRepo {
+  function findUserByEmail(norm: string): User | undefined {
+    for (const user of store.users.values()) {
+      if (user.email === norm) return user;
+    }
+    return undefined;
+  }
+
+  function insert(email: string, passwordHash: string, role: User['role']): User {
+    const norm = normalizeEmail(email);
+    if (findUserByEmail(norm))
+      throw Object.assign(new Error('Email already registered'), { status: 409 });
+    const user: User = { id: newId(), email: norm, passwordHash, role, emailVerified: false };
+    store.users.set(user.id, user);
+    return clone(user);
+  }
+
+  return {
+    async createInitialUser({ email, passwordHash }) {
+      // Only promote to admin when no existing admin users are present.
+      const hasAdmin = Array.from(store.users.values()).some((u) => u.role === 'admin');
+      return insert(email, passwordHash, hasAdmin ? 'user' : 'admin');
+    },
+    async createUser({ email, passwordHash }) {
+      return insert(email, passwordHash, 'user');
+    },
+    async findByEmail(email) {
+      const user = findUserByEmail(normalizeEmail(email));
+      return user ? clone(user) : null;
+    },
+    async findById(id) {
+      const user = store.users.get(id);
+      return user ? clone(user) : null;
+    },
+    async findByEmailLocalPart(localPart, limit) {
+      const prefix = `${normalizeEmail(localPart)}@`;
+      const matches: User[] = [];
+      for (const user of store.users.values()) {
+        if (matches.length === limit) break;
+        if (user.email.startsWith(prefix)) matches.push(clone(user));
+      }
+      return matches;
+    },
+    async list() {
+      return Array.from(store.users.values()).map(({ id, email, role }) => ({ id, email, role }));
+    },
+    async remove(id) {
+      store.users.delete(id);
+    },
+    async setRole(id, role) {
+      const user = store.users.get(id);
+      if (!user) throw Object.assign(new Error('User not found'), { status: 404 });
+      user.role = role;
+      return clone(user);
+    },
+    async updatePassword(id, passwordHash) {
+      const user = store.users.get(id);
+      if (!user) throw Object.assign(new Error('User not found'), { status: 404 });
+      user.passwordHash = passwordHash;
+    },
+    async markEmailVerified(id) {
+      const user = store.users.get(id);
+      if (!user) throw Object.assign(new Error('User not found'), { status: 404 });
+      user.emailVerified = true;
+    },
+  };
+}
@@ -8,11 +8,15 @@
  * @module data/ports/OrderRepository
  */
 
+import type { StockActor } from '../../domain/inventory';
 import type {
   CreateOrderInput,
   Order,
+  OrderQuote,
   OrderStats,
   OrderStatus,
+  PaymentStatus,
+  QuoteOrderInput,
   UpdateOrderInput,
 } from '../../domain/orders';
 
@@ -27,6 +31,27 @@ export interface ProductForOrder {
   imageUrls?: string[];
 }
 
+/**
+ * State an order must still be in for an update to apply. Checked inside the
+ * update itself, so a decision made on an earlier read cannot overwrite a
+ * concurrent change.
+ */
+export interface OrderUpdateGuard {
+  statuses?: OrderStatus[];
+  paymentStatuses?: PaymentStatus[];
+  /**
+   * The gateway payment currently on the order (null for none), and optionally
+   * a version the recorded snapshot must be older than
+   */
+  payment?: { paymentId: string | null; versionBelow?: number };
+}
+
+export interface OrderUpdateOptions {
+  guard?: OrderUpdateGuard;
+  /** Who made the change; recorded on stock movements the update causes */
+  actor?: StockActor;
+}
+
 /**
  * Order repository interface for data access operations
  *
@@ -44,6 +69,15 @@ export interface OrderRepository {
    */
   create(orderData: CreateOrderInput, userId: string, userEmail: string): Promise<Order>;
 
+  /**
+   * Price a prospective order with current product prices without reserving stock
+   *
+   * @param {QuoteOrderInput} input - Cart lines and optional destination
+   * @returns {Promise<OrderQuote>} Priced lines and totals
+   * @throws {Error} If a product does not exist
+   */
+  quote(input: QuoteOrderInput): Promise<OrderQuote>;
+
   /**
    * Find an order by ID
    *
@@ -73,23 +107,36 @@ export interface OrderRepository {
   findAll(limit?: number, lastOrderId?: string, status?: OrderStatus): Promise<Order[]>;
 
   /**
-   * Update an existing order
+   * Find pending orders created before a cutoff whose payment is still
+   * outstanding, oldest first
+   *
+   * @param {Date} createdBefore - Reservation cutoff
+   * @param {number} limit - Maximum number of orders to return
+   * @returns {Promise<Order[]>} Orders whose stock reservation has lapsed
+   */
+  findExpiredReservations(createdBefore: Date, limit: number): Promise<Order[]>;
+
+  /**
+   * Update an existing order. Moving to cancelled or refunded puts the stock
+   * back, at most once per order.
    *
    * @param {string} id - Order ID to update
    * @param {UpdateOrderInput} updateData - Data to update
+   * @param {OrderUpdateOptions} [options] - Guard on the current state and the acting user
    * @returns {Promise<Order>} The updated order
-   * @throws {Error} If order not found or update fails
+   * @throws {Error} If order not found (404), the guard fails (409) or update fails
    */
-  update(id: string, updateData: UpdateOrderInput): Promise<Order>;
+  update(id: string, updateData: UpdateOrderInput, options?: OrderUpdateOptions): Promise<Order>;
 
   /**
    * Delete an order (admin function)
    *
    * @param {string} id - Order ID to delete
+   * @param {StockActor} [actor] - Who deleted it; recorded on released stock
    * @returns {Promise<void>}
    * @throws {Error} If order not found or delete fails
    */
-  delete(id: string): Promise<void>;
+  delete(id: string, actor?: StockActor): Promise<void>;
 
   /**
    * Get order statistics (admin function)
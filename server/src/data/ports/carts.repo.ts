@@ -0,0 +1,24 @@
+import type { Cart } from '../../domain/cart';
+
+/**
+ * Repository contract for shopping carts, keyed by cart ID (the user ID for
+ * users' carts).
+ */
+export interface CartsRepo {
+  get(id: string): Promise<Cart | null>;
+  /**
+   * Read cart `id` (null when there is none) and store what `apply` makes of
+   * it, atomically, so concurrent changes to one cart are not lost. `apply`
+   * may run more than once and should only compute; an error it throws
+   * leaves the cart as it was.
+   *
+   * @returns The cart as stored
+   */
+  update(id: string, apply: (current: Cart | null) => Cart): Promise<Cart>;
+  remove(id: string): Promise<void>;
+  /**
+   * Delete up to `limit` guest carts that expired before `now`.
+   * Resolves with the number of carts removed.
+   */
+  removeExpired(now: number, limit: number): Promise<number>;
+}
@@ -0,0 +1,11 @@
+/**
+ * Repository contract for small platform-wide configuration documents
+ * (e.g. the maintenance mode flag) keyed by a stable identifier.
+ */
+export interface ConfigRepo {
+  get<T extends Record<string, unknown>>(key: string): Promise<T | null>;
+  /**
+   * Shallow-merge `value` into the stored document, creating it when missing.
+   */
+  merge(key: string, value: Record<string, unknown>): Promise<void>;
+}
@@ -0,0 +1,26 @@
+import type { OutboxEmail } from '../../domain/email';
+
+/**
+ * Repository contract for the transactional email outbox.
+ */
+export interface EmailOutboxRepo {
+  enqueue(email: OutboxEmail): Promise<void>;
+  get(id: string): Promise<OutboxEmail | null>;
+  /**
+   * Up to `limit` pending messages whose `nextAttemptAt` is at or before `now`,
+   * oldest due first.
+   */
+  listDue(now: number, limit: number): Promise<OutboxEmail[]>;
+  /**
+   * Take a due message for delivery by moving its `nextAttemptAt` to
+   * `claimUntil`. Resolves false when another worker claimed it first or it is
+   * no longer pending.
+   */
+  claim(id: string, now: number, claimUntil: number): Promise<boolean>;
+  update(id: string, patch: Partial<Omit<OutboxEmail, 'id'>>): Promise<void>;
+  /**
+   * Delete up to `limit` sent messages sent before `before`.
+   * Resolves with the number of messages removed.
+   */
+  removeSent(before: number, limit: number): Promise<number>;
+}
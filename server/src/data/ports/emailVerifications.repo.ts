@@ -0,0 +1,23 @@
+/**
+ * Stored email-verification token. Only the SHA-256 hash of the raw token is persisted.
+ */
+export interface EmailVerificationRecord {
+  userId: string;
+  email: string; // address the token confirms; a token for an old address does nothing
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Repository contract for email-verification tokens.
+ */
+export interface EmailVerificationsRepo {
+  create(tokenHash: string, record: EmailVerificationRecord): Promise<void>;
+  get(tokenHash: string): Promise<EmailVerificationRecord | null>;
+  remove(tokenHash: string): Promise<void>;
+  /**
+   * Delete up to `limit` tokens whose `expiresAt` is before `now`.
+   * Resolves with the number of tokens removed.
+   */
+  removeExpired(now: number, limit: number): Promise<number>;
+}
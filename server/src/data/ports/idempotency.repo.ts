@@ -0,0 +1,21 @@
+import type { IdempotencyRecord } from '../../domain/idempotency';
+
+/**
+ * Repository contract for idempotency keys, keyed by the scoped key.
+ */
+export interface IdempotencyRepo {
+  /**
+   * Store `record` unless a live record has the same key. Resolves with the
+   * existing record in that case, or null when `record` was stored.
+   */
+  claim(record: IdempotencyRecord): Promise<IdempotencyRecord | null>;
+  /** Keep the response of the request that claimed `key` */
+  complete(key: string, responseStatus: number, responseBody: unknown): Promise<void>;
+  /** Forget a claim, so the key can be used again (e.g. after a server error) */
+  release(key: string): Promise<void>;
+  /**
+   * Delete up to `limit` records that expired before `now`.
+   * Resolves with the number of records removed.
+   */
+  removeExpired(now: number, limit: number): Promise<number>;
+}
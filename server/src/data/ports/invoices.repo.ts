@@ -0,0 +1,13 @@
+import type { InvoiceRecord } from '../../domain/invoices';
+
+/**
+ * Repository contract for invoice numbers, one per order.
+ */
+export interface InvoicesRepo {
+  getByOrder(orderId: string): Promise<InvoiceRecord | null>;
+  /**
+   * The order's invoice, numbered with the next sequence number when it has
+   * none yet. Atomic: concurrent calls never share or skip a number.
+   */
+  issue(orderId: string, issuedAt: number): Promise<InvoiceRecord>;
+}
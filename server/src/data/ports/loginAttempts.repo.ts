@@ -0,0 +1,59 @@
+/**
+ * Recent failed logins of one account, keyed by the (lowercased) login email,
+ * whether or not an account with that address exists.
+ */
+export interface AccountLoginAttempts {
+  email: string;
+  failures: number; // failures since the last success or lockout, within the failure window
+  lastFailureAt: number;
+  nextAttemptAt: number; // progressive delay: attempts before this are refused
+  lockedUntil: number | null;
+  lockouts: number; // lockouts in a row; each one lasts twice as long as the last
+  updatedAt: number;
+}
+
+/**
+ * Accounts that failed to log in from one IP address within the failure window.
+ */
+export interface IpLoginAttempts {
+  ip: string;
+  accounts: string[]; // SHA-256 hashes of the emails tried
+  windowStart: number;
+  blockedUntil: number | null;
+  updatedAt: number;
+}
+
+/** The records one failed login leaves behind; `ip` is left out for requests without one */
+export interface LoginFailureRecords {
+  account: AccountLoginAttempts;
+  ip?: IpLoginAttempts;
+}
+
+/**
+ * Repository contract for failed-login tracking.
+ */
+export interface LoginAttemptsRepo {
+  getAccount(email: string): Promise<AccountLoginAttempts | null>;
+  /**
+   * Read the records of `email` and, when given, `ip`, and store what
+   * `update` makes of them, atomically, so concurrent failures all count.
+   * `update` may run more than once and should only compute.
+   */
+  recordFailure(
+    email: string,
+    ip: string | undefined,
+    update: (
+      account: AccountLoginAttempts | null,
+      ip: IpLoginAttempts | null
+    ) => LoginFailureRecords
+  ): Promise<LoginFailureRecords>;
+  removeAccount(email: string): Promise<void>;
+  /** Accounts whose lockout has not run out at `now` */
+  listLocked(now: number): Promise<AccountLoginAttempts[]>;
+  getIp(ip: string): Promise<IpLoginAttempts | null>;
+  /**
+   * Delete up to `limit` account and IP records last updated before `before`.
+   * Resolves with the number of records removed.
+   */
+  removeStale(before: number, limit: number): Promise<number>;
+}
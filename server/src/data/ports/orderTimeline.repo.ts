@@ -0,0 +1,12 @@
+import type { TimelineEntry } from '../../domain/orderTimeline';
+
+export type NewTimelineEntry = Omit<TimelineEntry, 'id' | 'createdAt'>;
+
+/**
+ * Repository contract for order timelines. Entries are append-only.
+ */
+export interface OrderTimelineRepo {
+  append(input: NewTimelineEntry): Promise<TimelineEntry>;
+  /** An order's entries, oldest first */
+  listByOrder(orderId: string): Promise<TimelineEntry[]>;
+}
@@ -0,0 +1,27 @@
+/**
+ * Stored password-reset token. Only the SHA-256 hash of the raw token is persisted.
+ */
+export interface PasswordResetRecord {
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Repository contract for password-reset tokens and their per-user request throttle.
+ */
+export interface PasswordResetsRepo {
+  create(tokenHash: string, record: PasswordResetRecord): Promise<void>;
+  get(tokenHash: string): Promise<PasswordResetRecord | null>;
+  remove(tokenHash: string): Promise<void>;
+  /**
+   * Timestamp (ms) before which the user may not request another reset, if any.
+   */
+  getNextAllowedAt(userId: string): Promise<number | null>;
+  setNextAllowedAt(userId: string, nextAllowedAt: number): Promise<void>;
+  /**
+   * Delete up to `limit` tokens whose `expiresAt` is before `now`.
+   * Resolves with the number of tokens removed.
+   */
+  removeExpired(now: number, limit: number): Promise<number>;
+}
@@ -0,0 +1,16 @@
+import type { ProductSearchParams, ProductSearchResult } from '../../domain/search';
+
+/**
+ * Read side of the product search index. The index itself is updated by the
+ * products repository in the same write as the product change.
+ */
+export interface ProductSearchRepo {
+  search(params?: ProductSearchParams): Promise<ProductSearchResult>;
+  /** Re-index every product, e.g. after a bulk import outside the API; returns the product count */
+  rebuild(): Promise<number>;
+  /**
+   * Rebuild only when products exist but the index has no terms, as with a
+   * catalogue created before search was added; returns the products indexed
+   */
+  backfill(): Promise<number>;
+}
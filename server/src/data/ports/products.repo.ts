@@ -1,21 +1,44 @@
 // IProductsRepo interface
-import type { Product } from '../../domain/product';
+import type { StockActor } from '../../domain/inventory';
+import type { Product, ProductPatch } from '../../domain/product';
+
+export interface ProductListParams {
+  /** Ties, and lists without a sort, are ordered by product ID in the same direction */
+  sort?: { field: keyof Product; dir: 'asc' | 'desc' };
+  /** Text queries go through ProductSearchRepo, which ranks against the search index */
+  filter?: {
+    category?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    /** Exclusive upper price bound, for price facet buckets */
+    priceBelow?: number;
+  };
+  limit?: number;
+  /** `nextCursor` or `prevCursor` from a previous page of the same sort and filter */
+  cursor?: string;
+}
+
+export interface ProductListPage {
+  data: Product[];
+  /** Matches for the filter across all pages */
+  total: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
 
 export interface ProductsRepo {
-  list(params?: {
-    sort?: { field: keyof Product; dir: 'asc' | 'desc' };
-    filter?: {
-      q?: string; // match name/description substring (best-effort)
-      category?: string;
-      minPrice?: number;
-      maxPrice?: number;
-    };
-    page?: number;
-    pageSize?: number;
-  }): Promise<{ data: Product[]; total: number }>;
+  /**
+   * @throws {Error} 400 when the cursor was issued for a different sort or filter
+   */
+  list(params?: ProductListParams): Promise<ProductListPage>;
   getById(id: string): Promise<Product | null>;
-  create(input: Omit<Product, 'id' | 'createdAt'>): Promise<Product>;
-  update(id: string, patch: Partial<Product>): Promise<Product>;
+  /** Products whose own SKU (not a variant's) is one of `skus` */
+  findBySkus(skus: string[]): Promise<Product[]>;
+  /** Opening stock is recorded as an adjustment in the stock ledger; the product is indexed for search */
+  create(input: Omit<Product, 'id' | 'createdAt'>, actor?: StockActor): Promise<Product>;
+  /** A stock change is recorded as an adjustment in the stock ledger; the search index follows */
+  update(id: string, patch: ProductPatch, actor?: StockActor): Promise<Product>;
+  /** Also drops the product from the search index */
   remove(id: string): Promise<void>;
   stats(): Promise<{ count: number; avgPrice: number }>;
   timeseries(params?: {
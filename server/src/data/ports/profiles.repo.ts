@@ -0,0 +1,41 @@
+import type { SavedAddress, UserProfile } from '../../domain/profile';
+
+/**
+ * Repository contract for user profiles and their saved addresses.
+ *
+ * Firestore implementation stores profiles as `profiles/{userId}` and
+ * addresses under `profiles/{userId}/addresses/{addressId}`.
+ */
+export interface ProfilesRepo {
+  get(userId: string): Promise<UserProfile | null>;
+  /** Create or replace a profile */
+  save(profile: UserProfile): Promise<void>;
+  /** Addresses of a user, oldest first */
+  listAddresses(userId: string): Promise<SavedAddress[]>;
+  getAddress(userId: string, id: string): Promise<SavedAddress | null>;
+  /**
+   * Add a new address unless the user already has `limit` of them, in one
+   * transaction. The address becomes the default when its `isDefault` is set or
+   * the user has no default yet, and the flag is then cleared on the others.
+   *
+   * @returns The address as saved, or null when the limit is reached
+   */
+  addAddress(userId: string, address: SavedAddress, limit: number): Promise<SavedAddress | null>;
+  /** Replace an existing address; `isDefault` is kept as given */
+  saveAddress(userId: string, address: SavedAddress): Promise<void>;
+  /**
+   * Delete an address. When it was the default, the oldest remaining address
+   * becomes the default in the same transaction.
+   *
+   * @returns false when the user has no such address
+   */
+  removeAddress(userId: string, id: string): Promise<boolean>;
+  /**
+   * Make `id` the user's default address and clear the flag on every other one.
+   *
+   * @returns false when the user has no such address
+   */
+  setDefaultAddress(userId: string, id: string): Promise<boolean>;
+  /** Delete the profile and all addresses of a user */
+  removeAll(userId: string): Promise<void>;
+}
@@ -0,0 +1,23 @@
+import type { Promotion, PromotionInput } from '../../domain/promotions';
+
+/**
+ * Repository contract for admin-managed promotions.
+ *
+ * Codes are unique (compared after normalisation). Redemptions are written by
+ * the order repositories inside the order transaction, not through this port.
+ */
+export interface PromotionsRepo {
+  list(): Promise<Promotion[]>;
+  getById(id: string): Promise<Promotion | null>;
+  findByCode(code: string): Promise<Promotion | null>;
+  /**
+   * @throws Error with status 409 when the code is already in use
+   */
+  create(input: PromotionInput): Promise<Promotion>;
+  /**
+   * Replace the editable fields of a promotion; usage counters are kept.
+   * @throws Error with status 404 when missing, 409 when the new code is taken
+   */
+  update(id: string, input: PromotionInput): Promise<Promotion>;
+  remove(id: string): Promise<void>;
+}
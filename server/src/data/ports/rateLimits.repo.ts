@@ -0,0 +1,19 @@
+import type { RateLimitPolicy, RateLimitResult } from '../../domain/rateLimit';
+
+/**
+ * Store behind the rate-limit middleware, holding one `RateLimitState` per
+ * limiter and client. Every operation on a key must be atomic: with a shared
+ * store, instances behind a load balancer count against the same limits.
+ */
+export interface RateLimitStore {
+  /** Count one request for `key` under `policy` and report whether it may go ahead */
+  consume(key: string, policy: RateLimitPolicy, now?: number): Promise<RateLimitResult>;
+  /** Take back one counted request, e.g. when a limiter skips successful requests */
+  refund(key: string, policy: RateLimitPolicy): Promise<void>;
+  reset(key: string): Promise<void>;
+  /**
+   * Delete up to `limit` records that expired before `now`.
+   * Resolves with the number of records removed.
+   */
+  removeExpired(now: number, limit: number): Promise<number>;
+}
@@ -0,0 +1,41 @@
+/**
+ * Stored refresh token. Only the SHA-256 hash of the raw token is persisted.
+ * Each refresh swaps the token for a new one in the same session; `usedAt`
+ * marks a token that has already been swapped, so presenting it again after
+ * a short grace period means it leaked.
+ */
+export interface RefreshTokenRecord {
+  userId: string;
+  sessionId: string;
+  createdAt: number;
+  expiresAt: number;
+  usedAt?: number;
+  /** The token it was swapped for, encrypted with a key only the raw token gives */
+  successor?: string;
+}
+
+/**
+ * Repository contract for rotating refresh tokens. Whether a token's session
+ * is still live is tracked by the SessionsRepo.
+ */
+export interface RefreshTokensRepo {
+  create(tokenHash: string, token: RefreshTokenRecord): Promise<void>;
+  get(tokenHash: string): Promise<RefreshTokenRecord | null>;
+  /**
+   * Mark `tokenHash` used, keeping the sealed `successor` on it, and store
+   * the successor's record, atomically. Resolves false without writing when
+   * the token was already used, so two concurrent refreshes cannot both
+   * succeed.
+   */
+  rotate(
+    tokenHash: string,
+    nextHash: string,
+    next: RefreshTokenRecord,
+    successor: string
+  ): Promise<boolean>;
+  /**
+   * Delete up to `limit` tokens whose `expiresAt` is before `now`.
+   * Resolves with the number of tokens removed.
+   */
+  removeExpired(now: number, limit: number): Promise<number>;
+}
@@ -0,0 +1,48 @@
+import {
+  type RefundRecord,
+  type ReturnItem,
+  type ReturnRequest,
+  ReturnStatus,
+} from '../../domain/returns';
+
+/** Status a request must be in for a resolution to apply */
+export function pendingStatusFor(resolution: Pick<ReturnResolution, 'status'>): ReturnStatus {
+  return resolution.status === ReturnStatus.APPROVED
+    ? ReturnStatus.APPROVING
+    : ReturnStatus.REQUESTED;
+}
+
+export type NewReturnRequest = Omit<ReturnRequest, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface ReturnResolution {
+  status: ReturnStatus.APPROVED | ReturnStatus.REJECTED;
+  resolvedBy: string;
+  adminNote?: string;
+  refund?: Omit<RefundRecord, 'id' | 'orderId' | 'returnId' | 'createdAt'>;
+  /** Items to put back in stock; recorded on the order so a later release skips them */
+  restockItems?: ReturnItem[];
+}
+
+/**
+ * Repository contract for return requests and the refunds they produce.
+ */
+export interface ReturnsRepo {
+  create(input: NewReturnRequest): Promise<ReturnRequest>;
+  getById(id: string): Promise<ReturnRequest | null>;
+  listByOrder(orderId: string): Promise<ReturnRequest[]>;
+  list(params: { status?: ReturnStatus; limit?: number }): Promise<ReturnRequest[]>;
+  /**
+   * Move a request from one status to another, only if it is still in `from`.
+   * Approvals claim a request this way before any money moves.
+   * @throws Error with status 404 when missing, 409 when not in `from`
+   */
+  transition(id: string, from: ReturnStatus, to: ReturnStatus): Promise<ReturnRequest>;
+  /**
+   * Resolve a pending request, writing the refund record and restocking
+   * products in one atomic step. Approvals complete a request claimed as
+   * APPROVING; rejections resolve a REQUESTED one.
+   * @throws Error with status 404 when missing, 409 when no longer pending
+   */
+  resolve(id: string, resolution: ReturnResolution): Promise<ReturnRequest>;
+  listRefunds(orderId: string): Promise<RefundRecord[]>;
+}
@@ -0,0 +1,52 @@
+import type { Review, ReviewSort, ReviewStatus } from '../../domain/reviews';
+
+export type NewReview = Pick<
+  Review,
+  'productId' | 'userId' | 'userEmail' | 'authorName' | 'orderId' | 'rating' | 'title' | 'body'
+>;
+
+export interface ReviewModeration {
+  status: ReviewStatus;
+  moderatedBy: string;
+  note?: string;
+}
+
+export interface ReviewListParams {
+  /** Defaults to newest first */
+  sort?: ReviewSort;
+  limit?: number;
+  /** `nextCursor` from the previous page with the same sort */
+  cursor?: string;
+}
+
+export interface ReviewPage {
+  data: Review[];
+  nextCursor: string | null;
+}
+
+/**
+ * Repository contract for product reviews. Whenever a review starts or stops
+ * being approved, the product's `rating`, `reviewCount` and `ratingCounts`
+ * are updated in the same atomic step.
+ */
+export interface ReviewsRepo {
+  /**
+   * Create the user's review of a product, or replace their earlier one. The
+   * review goes (back) to pending, so an approved one stops counting until
+   * it is approved again.
+   */
+  submit(input: NewReview): Promise<Review>;
+  getById(id: string): Promise<Review | null>;
+  findByUserAndProduct(userId: string, productId: string): Promise<Review | null>;
+  /**
+   * One page of a product's approved reviews
+   * @throws Error with status 400 when the cursor belongs to another product or sort
+   */
+  listApproved(productId: string, params?: ReviewListParams): Promise<ReviewPage>;
+  /** Moderation queue, most recently submitted or moderated first */
+  list(params: { status?: ReviewStatus; limit?: number }): Promise<Review[]>;
+  /**
+   * @throws Error with status 404 when the review does not exist
+   */
+  moderate(id: string, moderation: ReviewModeration): Promise<Review>;
+}
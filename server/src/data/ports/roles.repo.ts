@@ -0,0 +1,13 @@
+import type { Role } from '../../domain/roles';
+
+/**
+ * Repository contract for custom roles. Built-in roles live in code
+ * (`BUILT_IN_ROLES`) and are never stored.
+ */
+export interface RolesRepo {
+  list(): Promise<Role[]>;
+  get(id: string): Promise<Role | null>;
+  /** Create or replace a role */
+  save(role: Role): Promise<void>;
+  remove(id: string): Promise<void>;
+}
@@ -0,0 +1,17 @@
+import type { Session } from '../../domain/session';
+
+/**
+ * Repository contract for sign-in sessions.
+ */
+export interface SessionsRepo {
+  create(session: Session): Promise<void>;
+  get(id: string): Promise<Session | null>;
+  /** Sessions of a user that have not been revoked, most recently seen first */
+  listActive(userId: string): Promise<Session[]>;
+  /** Record activity on a session */
+  touch(id: string, seen: { lastSeenAt: number; ip?: string }): Promise<void>;
+  /** Revoke a live session; resolves false when it is unknown or already revoked */
+  revoke(id: string, reason: string): Promise<boolean>;
+  /** Revoke every live session of the user; resolves with how many were revoked */
+  revokeAllForUser(userId: string, reason: string): Promise<number>;
+}
@@ -0,0 +1,28 @@
+import type { Shipment } from '../../domain/shipments';
+
+export type NewShipment = Omit<Shipment, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type ShipmentTrackingUpdate = Pick<
+  Shipment,
+  'status' | 'events' | 'estimatedDelivery' | 'deliveredAt' | 'lastCheckedAt'
+>;
+
+/**
+ * Repository contract for order shipments.
+ */
+export interface ShipmentsRepo {
+  /**
+   * Add a shipment to an order in one transaction with reading the order's
+   * shipments, so two requests cannot ship the same units. `build` gets the
+   * current shipments, oldest first, and returns the new one or throws to
+   * abort; it may run more than once and should only compute.
+   */
+  create(orderId: string, build: (shipments: Shipment[]) => NewShipment): Promise<Shipment>;
+  getById(id: string): Promise<Shipment | null>;
+  /** An order's shipments, oldest first */
+  listByOrder(orderId: string): Promise<Shipment[]>;
+  /** Up to `limit` shipments not delivered yet, least recently checked first */
+  listActive(limit: number): Promise<Shipment[]>;
+  /** @throws Error with status 404 when the shipment does not exist */
+  updateTracking(id: string, update: ShipmentTrackingUpdate): Promise<Shipment>;
+}
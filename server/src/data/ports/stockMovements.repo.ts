@@ -0,0 +1,12 @@
+import type { StockMovement } from '../../domain/inventory';
+
+/**
+ * Read side of the stock movement ledger. Movements are appended by the
+ * product, order and return repositories in the same write as the stock change.
+ */
+export interface StockMovementsRepo {
+  /** Newest first */
+  listByProduct(productId: string, params?: { limit?: number }): Promise<StockMovement[]>;
+  /** Sum and count of movements per product ID */
+  totals(): Promise<Record<string, { quantity: number; count: number }>>;
+}
@@ -0,0 +1,24 @@
+/**
+ * Revocation marker invalidating every token issued to a user before `revokedAt`.
+ */
+export interface TokenRevocation {
+  userId: string;
+  revokedAt: number; // timestamp in ms
+  expiresAt: number; // timestamp in ms - when this revocation record can be cleaned up
+  reason?: string; // e.g., "password_change", "security_breach", "manual_logout"
+}
+
+/**
+ * Repository contract for per-user token revocation records.
+ * At most one record is kept per user; writing replaces the previous one.
+ */
+export interface TokenRevocationsRepo {
+  get(userId: string): Promise<TokenRevocation | null>;
+  set(revocation: TokenRevocation): Promise<void>;
+  remove(userId: string): Promise<void>;
+  /**
+   * Delete up to `limit` records whose `expiresAt` is before `now`.
+   * Resolves with the number of records removed.
+   */
+  removeExpired(now: number, limit: number): Promise<number>;
+}
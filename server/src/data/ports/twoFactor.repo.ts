@@ -0,0 +1,32 @@
+/**
+ * Two-factor (TOTP) settings of a user. Recovery codes are stored as SHA-256
+ * hashes; the TOTP secret itself must stay readable to check codes.
+ */
+export interface TwoFactorRecord {
+  userId: string;
+  secret: string | null; // base32 TOTP secret, set once enrolment is confirmed
+  pendingSecret: string | null; // secret handed out by setup, awaiting a first valid code
+  enabledAt: number | null;
+  recoveryCodes: string[]; // hashes of the recovery codes not used yet
+  lastUsedStep: number; // newest TOTP time step accepted, so each code only works once
+  updatedAt: number;
+}
+
+/**
+ * Repository contract for two-factor settings, keyed by user ID.
+ */
+export interface TwoFactorRepo {
+  get(userId: string): Promise<TwoFactorRecord | null>;
+  save(record: TwoFactorRecord): Promise<void>;
+  remove(userId: string): Promise<void>;
+  /**
+   * Accept a TOTP time step if it is newer than the last one accepted.
+   * Resolves false when it is not, i.e. the code was already used.
+   */
+  useStep(userId: string, step: number): Promise<boolean>;
+  /**
+   * Strike a recovery code off the list. Resolves false when the hash is not
+   * among the unused codes.
+   */
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+}
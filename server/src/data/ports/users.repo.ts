@@ -0,0 +1,25 @@
+import type { User } from '../../domain/user';
+
+/**
+ * Repository contract for user accounts.
+ *
+ * Emails are normalised (trimmed + lower-cased) by implementations and must be
+ * unique across all users. New users start with `emailVerified: false`.
+ */
+export interface UsersRepo {
+  /**
+   * Create a user, promoting them to admin when no admin exists yet.
+   */
+  createInitialUser(input: { email: string; passwordHash: string }): Promise<User>;
+  createUser(input: { email: string; passwordHash: string }): Promise<User>;
+  findByEmail(email: string): Promise<User | null>;
+  findById(id: string): Promise<User | null>;
+  /** Up to `limit` users whose email address starts with `localPart@` */
+  findByEmailLocalPart(localPart: string, limit: number): Promise<User[]>;
+  list(): Promise<Array<Pick<User, 'id' | 'email' | 'role'>>>;
+  remove(id: string): Promise<void>;
+  setRole(id: string, role: string): Promise<User>;
+  updatePassword(id: string, passwordHash: string): Promise<void>;
+  /** Record that the user confirmed their address */
+  markEmailVerified(id: string): Promise<void>;
+}
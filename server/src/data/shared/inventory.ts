@@ -0,0 +1,25 @@
+import { stockKey } from '../../domain/inventory';
+
+/**
+ * Order lines reduced by the units already put back in stock by approved
+ * returns, i.e. what releasing the order's inventory still has to restore.
+ * `restockedQuantities` is keyed by `stockKey(productId, variantId)`.
+ */
+export function unreleasedItems<
+  T extends { productId?: string; variantId?: string; quantity?: number },
+>(items: T[], restockedQuantities: Record<string, number> = {}): T[] {
+  const remaining = { ...restockedQuantities };
+  const result: T[] = [];
+  for (const item of items) {
+    const productId = item.productId;
+    const quantity = Math.floor(Number(item.quantity ?? 0));
+    if (!productId || !(quantity > 0)) continue;
+    const key = stockKey(productId, item.variantId);
+    const alreadyRestocked = Math.min(remaining[key] ?? 0, quantity);
+    remaining[key] = (remaining[key] ?? 0) - alreadyRestocked;
+    if (quantity - alreadyRestocked > 0) {
+      result.push({ ...item, quantity: quantity - alreadyRestocked });
+    }
+  }
+  return result;
+}
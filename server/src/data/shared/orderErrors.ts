@@ -0,0 +1,64 @@
+/**
+ * Error factories shared by OrderRepository implementations. OrderService maps
+ * the `code` values onto HTTP statuses, so every store must raise the same shapes.
+ */
+
+export function createInsufficientStockError(
+  productId: string,
+  productName: string,
+  available: number,
+  requested: number,
+  variantId?: string
+): Error {
+  const error = new Error(
+    `Insufficient stock for ${productName}. Requested ${requested}, but only ${available} left.`
+  );
+  (error as any).code = 'INSUFFICIENT_STOCK';
+  (error as any).productId = productId;
+  if (variantId) (error as any).variantId = variantId;
+  (error as any).available = available;
+  (error as any).requested = requested;
+  return error;
+}
+
+export function createProductNotFoundError(productId: string): Error {
+  const error = new Error(`Product not found: ${productId}`);
+  (error as any).code = 'PRODUCT_NOT_FOUND';
+  (error as any).productId = productId;
+  return error;
+}
+
+export function createPromotionNotFoundError(code: string): Error {
+  const error = new Error(`Promo code ${code} is not valid`);
+  (error as any).code = 'PROMOTION_NOT_FOUND';
+  (error as any).promoCode = code;
+  return error;
+}
+
+export function createOrderNotFoundError(orderId: string): Error {
+  const error = new Error(`Order not found: ${orderId}`);
+  (error as any).status = 404;
+  return error;
+}
+
+export function createOrderStateChangedError(orderId: string, status: string): Error {
+  const error = new Error(`Order ${orderId} changed concurrently and is now ${status}`);
+  (error as any).status = 409;
+  (error as any).code = 'ORDER_STATE_CHANGED';
+  return error;
+}
+
+export function createVariantRequiredError(productId: string, productName: string): Error {
+  const error = new Error(`Choose an option of ${productName} to order it`);
+  (error as any).code = 'VARIANT_REQUIRED';
+  (error as any).productId = productId;
+  return error;
+}
+
+export function createVariantNotFoundError(productId: string, variantId: string): Error {
+  const error = new Error(`Variant ${variantId} not found for product ${productId}`);
+  (error as any).code = 'VARIANT_NOT_FOUND';
+  (error as any).productId = productId;
+  (error as any).variantId = variantId;
+  return error;
+}
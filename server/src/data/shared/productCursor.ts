@@ -0,0 +1,68 @@
+/**
+ * Keyset cursors for product listing, shared by the product repositories.
+ * A cursor records the sort value and ID of the first or last row of a page
+ * and which way to read from it; rows are always ordered by the sort field
+ * and then by ID, so every row has a distinct position.
+ */
+
+import type { Product } from '../../domain/product';
+import { decodeCursor, encodeCursor } from '../../utils/cursor';
+import type { ProductListPage, ProductListParams } from '../ports/products.repo';
+
+export const DEFAULT_LIST_LIMIT = 20;
+
+/** Sort value (null when unsorted) and product ID */
+export type ListKey = [unknown, string];
+
+export interface ListPosition {
+  direction: 'after' | 'before';
+  key: ListKey;
+}
+
+function cursorScope(params: ProductListParams) {
+  return { sort: params.sort ?? null, filter: params.filter ?? {} };
+}
+
+export function listKey(product: Product, params: ProductListParams): ListKey {
+  return [params.sort ? (product[params.sort.field] ?? null) : null, product.id];
+}
+
+/**
+ * @throws {Error} 400 when the cursor is malformed or belongs to another sort or filter
+ */
+export function readListCursor(params: ProductListParams): ListPosition | null {
+  if (!params.cursor) return null;
+  const { d, k } = decodeCursor<{ d?: unknown; k?: unknown }>(params.cursor, cursorScope(params));
+  if ((d !== 'after' && d !== 'before') || !Array.isArray(k) || typeof k[1] !== 'string') {
+    throw Object.assign(new Error('Invalid or expired cursor for this query'), { status: 400 });
+  }
+  return { direction: d, key: [k[0] ?? null, k[1]] };
+}
+
+/**
+ * Turn up to `limit + 1` rows read from `position` into a page. Rows of a
+ * backwards page arrive nearest-first and are flipped into display order; the
+ * extra row only tells whether more rows lie in the reading direction.
+ */
+export function buildListPage(
+  rows: Product[],
+  total: number,
+  params: ProductListParams,
+  position: ListPosition | null
+): ProductListPage {
+  const limit = params.limit ?? DEFAULT_LIST_LIMIT;
+  const backwards = position?.direction === 'before';
+  const hasMore = rows.length > limit;
+  const data = backwards ? rows.slice(0, limit).reverse() : rows.slice(0, limit);
+  // The row the cursor pointed at lies on the other side of the page
+  const moreAfter = backwards || hasMore;
+  const moreBefore = backwards ? hasMore : position !== null;
+  const cursorAt = (direction: ListPosition['direction'], product: Product) =>
+    encodeCursor({ d: direction, k: listKey(product, params) }, cursorScope(params));
+  return {
+    data,
+    total,
+    nextCursor: moreAfter && data.length ? cursorAt('after', data[data.length - 1]) : null,
+    prevCursor: moreBefore && data.length ? cursorAt('before', data[0]) : null,
+  };
+}
@@ -0,0 +1,37 @@
+import type { Product } from '../../domain/product';
+
+export type TimeseriesInterval = 'day' | 'week' | 'month';
+
+function bucketKey(ts: number, interval: TimeseriesInterval): number {
+  const d = new Date(ts);
+  if (interval === 'week') {
+    // Monday-based week start
+    const day = d.getUTCDay();
+    const diff = (day + 6) % 7; // 0..6 (Mon=0)
+    return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()) - diff * 86400000;
+  }
+  if (interval === 'month') return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+}
+
+/**
+ * Group products into UTC day/week/month buckets by `createdAt`, returning the
+ * product count and average price per bucket in ascending time order.
+ * Shared by every ProductsRepo implementation so their timeseries agree.
+ */
+export function buildProductTimeseries(
+  items: Product[],
+  interval: TimeseriesInterval
+): Array<{ t: number; count: number; avgPrice: number }> {
+  const buckets = new Map<number, { count: number; sum: number }>();
+  for (const p of items) {
+    const k = bucketKey(p.createdAt, interval);
+    const b = buckets.get(k) || { count: 0, sum: 0 };
+    b.count += 1;
+    b.sum += p.price || 0;
+    buckets.set(k, b);
+  }
+  return Array.from(buckets.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([t, v]) => ({ t, count: v.count, avgPrice: v.count ? v.sum / v.count : 0 }));
+}
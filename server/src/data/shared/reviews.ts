@@ -0,0 +1,100 @@
+/**
+ * Review helpers shared by the review repositories: stable review IDs, and
+ * keyset cursors for a product's approved reviews. Rows are ordered by the
+ * sort's fields and then by ID, and a cursor records those values for the
+ * last review of a page.
+ */
+
+import type { Review, ReviewSort } from '../../domain/reviews';
+import { decodeCursor, encodeCursor } from '../../utils/cursor';
+import type { ReviewListParams, ReviewPage } from '../ports/reviews.repo';
+
+export const DEFAULT_REVIEW_LIMIT = 10;
+
+/** One review per user and product, so a second submission replaces the first */
+export function reviewId(productId: string, userId: string): string {
+  return `${productId}_${userId}`;
+}
+
+export type ReviewOrder = Array<{ field: 'rating' | 'createdAt'; dir: 'asc' | 'desc' }>;
+
+const ORDERS: Record<ReviewSort, ReviewOrder> = {
+  newest: [{ field: 'createdAt', dir: 'desc' }],
+  oldest: [{ field: 'createdAt', dir: 'asc' }],
+  // Equal ratings show the most recent reviews first
+  highest: [
+    { field: 'rating', dir: 'desc' },
+    { field: 'createdAt', dir: 'desc' },
+  ],
+  lowest: [
+    { field: 'rating', dir: 'asc' },
+    { field: 'createdAt', dir: 'desc' },
+  ],
+};
+
+/** Sort field values followed by the review ID */
+export type ReviewKey = Array<number | string>;
+
+export function reviewOrder(params: ReviewListParams): ReviewOrder {
+  return ORDERS[params.sort ?? 'newest'];
+}
+
+export function reviewKey(review: Review, params: ReviewListParams): ReviewKey {
+  return [...reviewOrder(params).map(({ field }) => review[field]), review.id];
+}
+
+/**
+ * Orders two keys the way a page is read; IDs break ties in ascending order
+ */
+export function compareReviewKeys(a: ReviewKey, b: ReviewKey, params: ReviewListParams): number {
+  const order = reviewOrder(params);
+  for (let i = 0; i < order.length; i++) {
+    const diff = (a[i] as number) - (b[i] as number);
+    if (diff !== 0) return order[i].dir === 'asc' ? diff : -diff;
+  }
+  const [idA, idB] = [String(a[order.length]), String(b[order.length])];
+  return idA < idB ? -1 : idA > idB ? 1 : 0;
+}
+
+function cursorScope(productId: string, params: ReviewListParams) {
+  return { productId, sort: params.sort ?? 'newest' };
+}
+
+/**
+ * @throws {Error} 400 when the cursor is malformed or belongs to another product or sort
+ */
+export function readReviewCursor(productId: string, params: ReviewListParams): ReviewKey | null {
+  if (!params.cursor) return null;
+  const { k } = decodeCursor<{ k?: unknown }>(params.cursor, cursorScope(productId, params));
+  const size = reviewOrder(params).length + 1;
+  if (
+    !Array.isArray(k) ||
+    k.length !== size ||
+    !k.slice(0, -1).every((v) => typeof v === 'number') ||
+    typeof k[size - 1] !== 'string'
+  ) {
+    throw Object.assign(new Error('Invalid or expired cursor for this query'), { status: 400 });
+  }
+  return k as ReviewKey;
+}
+
+/**
+ * Turn up to `limit + 1` rows into a page; the extra row only tells whether
+ * another page follows.
+ */
+export function buildReviewPage(
+  rows: Review[],
+  productId: string,
+  params: ReviewListParams
+): ReviewPage {
+  const limit = params.limit ?? DEFAULT_REVIEW_LIMIT;
+  const data = rows.slice(0, limit);
+  const last = data[data.length - 1];
+  return {
+    data,
+    nextCursor:
+      rows.length > limit && last
+        ? encodeCursor({ k: reviewKey(last, params) }, cursorScope(productId, params))
+        : null,
+  };
+}
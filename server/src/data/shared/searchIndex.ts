@@ -0,0 +1,306 @@
+/**
+ * Inverted index and ranking shared by the product search repositories.
+ *
+ * Every product contributes weighted terms from its name, category, variant
+ * SKUs and option values, and description. Each term keeps a posting list of
+ * product ID => weight, denormalised with the category and price so matches
+ * can be filtered and faceted without loading the products themselves.
+ */
+
+import type { Product } from '../../domain/product';
+import {
+  type FacetCount,
+  PRICE_BUCKETS,
+  type ProductSearchParams,
+  type ProductSearchResult,
+  priceBucketFor,
+} from '../../domain/search';
+
+export interface SearchPosting {
+  weight: number;
+  category: string;
+  price: number;
+}
+
+/** Product ID => posting */
+export type PostingList = Record<string, SearchPosting>;
+
+const FIELD_WEIGHTS = { name: 3, category: 2, sku: 2, option: 1.5, description: 1 };
+const MAX_TERM_WEIGHT = 10;
+/** Keeps a product's index writes well inside a Firestore transaction */
+const MAX_TERMS_PER_PRODUCT = 150;
+const MAX_QUERY_TOKENS = 8;
+const STOP_WORDS = new Set(['a', 'an', 'and', 'by', 'for', 'in', 'of', 'on', 'or', 'the', 'to']);
+
+/**
+ * Lowercase, strip accents and split on anything that is not a letter or
+ * digit. Single letters and stop words are dropped; single digits are kept.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => (t.length > 1 || /^\d$/.test(t)) && !STOP_WORDS.has(t));
+}
+
+/**
+ * Terms a product is indexed under, with their postings
+ */
+export function productPostings(product: Product): Record<string, SearchPosting> {
+  const weights = new Map<string, number>();
+  const add = (text: string | undefined, weight: number) => {
+    for (const term of tokenize(text ?? '')) {
+      weights.set(term, (weights.get(term) ?? 0) + weight);
+    }
+  };
+  add(product.name, FIELD_WEIGHTS.name);
+  add(product.category, FIELD_WEIGHTS.category);
+  add(product.sku, FIELD_WEIGHTS.sku);
+  for (const variant of product.variants ?? []) {
+    add(variant.sku, FIELD_WEIGHTS.sku);
+  }
+  const optionValues = new Set((product.options ?? []).flatMap((o) => o.values));
+  for (const value of optionValues) add(value, FIELD_WEIGHTS.option);
+  add(product.description, FIELD_WEIGHTS.description);
+
+  const postings: Record<string, SearchPosting> = {};
+  const ranked = Array.from(weights).sort((a, b) => b[1] - a[1]);
+  for (const [term, weight] of ranked.slice(0, MAX_TERMS_PER_PRODUCT)) {
+    postings[term] = {
+      weight: Math.min(MAX_TERM_WEIGHT, weight),
+      category: product.category,
+      price: product.price,
+    };
+  }
+  return postings;
+}
+
+/**
+ * Index changes for a product moving from `before` to `after` (either may be
+ * absent for a create or remove): terms to drop it from, and terms whose
+ * posting must be written.
+ */
+export function postingChanges(
+  before?: Product,
+  after?: Product
+): { removed: string[]; upserted: Record<string, SearchPosting> } {
+  const previous = before ? productPostings(before) : {};
+  const next = after ? productPostings(after) : {};
+  const removed = Object.keys(previous).filter((term) => !(term in next));
+  const upserted: Record<string, SearchPosting> = {};
+  for (const [term, posting] of Object.entries(next)) {
+    const old = previous[term];
+    if (
+      !old ||
+      old.weight !== posting.weight ||
+      old.category !== posting.category ||
+      old.price !== posting.price
+    ) {
+      upserted[term] = posting;
+    }
+  }
+  return { removed, upserted };
+}
+
+/**
+ * Typos tolerated for a query token: none for short words, then one, then two
+ */
+export function maxEdits(token: string): number {
+  if (token.length < 4) return 0;
+  return token.length < 8 ? 1 : 2;
+}
+
+/**
+ * Edit distance counting a swap of two neighbouring letters as one edit, so
+ * "ceramci" is one typo away from "ceramic". Gives up once `limit` is exceeded.
+ */
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well an indexed term answers a query token: 1 for the same word, 0.75
+ * when the token is a prefix of it (search-as-you-type), 0.5 minus a little
+ * per edit for a near miss, 0 otherwise. Near misses must share the first
+ * letter, which lets the Firestore index find candidates with a range query.
+ */
+export function termMatch(token: string, term: string): number {
+  if (term === token) return 1;
+  if (term.startsWith(token)) return 0.75;
+  const limit = maxEdits(token);
+  if (limit === 0 || term[0] !== token[0]) return 0;
+  const distance = editDistance(token, term, limit);
+  return distance <= limit ? 0.5 - 0.1 * (distance - 1) : 0;
+}
+
+/**
+ * Where a search reads the index and products from
+ */
+export interface SearchSource {
+  /** Posting lists for indexed terms that may match any of the tokens; extra terms are fine */
+  postings(tokens: string[]): Promise<Map<string, PostingList>>;
+  /** Number of indexed products, for inverse document frequency */
+  documentCount(): Promise<number>;
+  /** Every product, for browsing without a query */
+  all(): Promise<Product[]>;
+  /** Products by ID in any order; missing IDs are skipped */
+  load(ids: string[]): Promise<Product[]>;
+}
+
+type Match = { score: number; category: string; price: number };
+
+/**
+ * Score products against the query tokens. A product must match every token;
+ * per token it scores its best matching term as match quality x term weight x
+ * inverse document frequency.
+ */
+function rank(
+  tokens: string[],
+  lists: Map<string, PostingList>,
+  documentCount: number
+): Map<string, Match> {
+  let matches: Map<string, Match> | null = null;
+  for (const token of tokens) {
+    const best = new Map<string, Match>();
+    for (const [term, list] of lists) {
+      const quality = termMatch(token, term);
+      if (quality === 0) continue;
+      const ids = Object.keys(list);
+      if (ids.length === 0) continue;
+      const idf = Math.log(1 + Math.max(documentCount, ids.length) / ids.length);
+      for (const id of ids) {
+        const posting = list[id];
+        const score = quality * posting.weight * idf;
+        const current = best.get(id);
+        if (!current || score > current.score) {
+          best.set(id, { score, category: posting.category, price: posting.price });
+        }
+      }
+    }
+    if (!matches) {
+      matches = best;
+      continue;
+    }
+    const previous: Map<string, Match> = matches;
+    matches = new Map();
+    for (const [id, match] of best) {
+      const prior = previous.get(id);
+      if (prior) matches.set(id, { ...match, score: prior.score + match.score });
+    }
+  }
+  return matches ?? new Map();
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return -1;
+  if (b === undefined || b === null) return 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Run a search against a source: rank or browse, filter, count facets, sort
+ * and load the requested page.
+ */
+export async function runSearch(
+  source: SearchSource,
+  params: ProductSearchParams = {}
+): Promise<ProductSearchResult> {
+  const { sort, page = 1, pageSize = 20 } = params;
+  const tokens = Array.from(new Set(tokenize(params.q ?? ''))).slice(0, MAX_QUERY_TOKENS);
+
+  let matches: Map<string, Match>;
+  const loaded = new Map<string, Product>();
+  if (tokens.length) {
+    const [lists, documentCount] = await Promise.all([
+      source.postings(tokens),
+      source.documentCount(),
+    ]);
+    matches = rank(tokens, lists, documentCount);
+  } else {
+    matches = new Map();
+    for (const product of await source.all()) {
+      loaded.set(product.id, product);
+      matches.set(product.id, { score: 0, category: product.category, price: product.price });
+    }
+  }
+
+  const bucket = PRICE_BUCKETS.find((b) => b.key === params.priceBucket);
+  const inCategory = (m: Match) => !params.category || m.category === params.category;
+  const inPrice = (m: Match) =>
+    (!bucket || priceBucketFor(m.price) === bucket.key) &&
+    (params.minPrice == null || m.price >= params.minPrice) &&
+    (params.maxPrice == null || m.price <= params.maxPrice) &&
+    (params.priceBelow == null || m.price < params.priceBelow);
+
+  const categoryCounts = new Map<string, number>();
+  const priceCounts = new Map<string, number>();
+  let ids: string[] = [];
+  for (const [id, match] of matches) {
+    const category = inCategory(match);
+    const price = inPrice(match);
+    if (price) categoryCounts.set(match.category, (categoryCounts.get(match.category) ?? 0) + 1);
+    if (category) {
+      const key = priceBucketFor(match.price);
+      priceCounts.set(key, (priceCounts.get(key) ?? 0) + 1);
+    }
+    if (category && price) ids.push(id);
+  }
+
+  if (sort && sort.field !== 'price') {
+    // Other fields live on the product, so load every match before sorting
+    const missing = ids.filter((id) => !loaded.has(id));
+    for (const product of await source.load(missing)) loaded.set(product.id, product);
+    ids = ids.filter((id) => loaded.has(id));
+  }
+  const dir = sort?.dir === 'desc' ? -1 : 1;
+  ids.sort((a, b) => {
+    if (sort?.field === 'price') return dir * (matches.get(a)!.price - matches.get(b)!.price);
+    if (sort) return dir * compareValues(loaded.get(a)![sort.field], loaded.get(b)![sort.field]);
+    if (tokens.length) return matches.get(b)!.score - matches.get(a)!.score || a.localeCompare(b);
+    return (loaded.get(b)?.createdAt ?? 0) - (loaded.get(a)?.createdAt ?? 0);
+  });
+
+  const start = Math.max(0, (page - 1) * pageSize);
+  const pageIds = ids.slice(start, start + pageSize);
+  const missing = pageIds.filter((id) => !loaded.has(id));
+  for (const product of await source.load(missing)) loaded.set(product.id, product);
+  const data = pageIds.map((id) => loaded.get(id)).filter((p): p is Product => Boolean(p));
+
+  const categories: FacetCount[] = Array.from(categoryCounts)
+    .map(([value, count]) => ({ value, label: value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  const price: FacetCount[] = PRICE_BUCKETS.map((b) => ({
+    value: b.key,
+    label: b.label,
+    count: priceCounts.get(b.key) ?? 0,
+  }));
+  const scores: Record<string, number> = {};
+  if (tokens.length) {
+    for (const product of data) {
+      scores[product.id] = Math.round(matches.get(product.id)!.score * 1000) / 1000;
+    }
+  }
+  return { data, total: ids.length, facets: { categories, price }, scores };
+}
@@ -0,0 +1,148 @@
+/**
+ * Per-variant stock bookkeeping shared by the product, order and return
+ * repositories. A product without variants keeps a single stock bucket; a
+ * product with variants keeps one bucket per variant and `Product.stock`
+ * holds their sum.
+ */
+
+import type { OrderItem } from '../../domain/orders';
+import {
+  describeVariant,
+  hasVariants,
+  type Product,
+  type ProductVariant,
+} from '../../domain/product';
+import { createVariantNotFoundError, createVariantRequiredError } from './orderErrors';
+
+export function totalVariantStock(variants: ProductVariant[]): number {
+  return variants.reduce((sum, variant) => sum + variant.stock, 0);
+}
+
+/**
+ * Settle `stock` on a created or patched product: products with variants take
+ * it from their variants, and dropping every variant keeps the previous total
+ * unless the patch sets a new one.
+ *
+ * @throws {Error} 400 when a patch sets `stock` directly on a product with variants
+ */
+export function applyVariantStock(
+  next: Product,
+  existing?: Product,
+  patch?: Partial<Product>
+): Product {
+  const stockGiven = patch?.stock != null;
+  if (existing && hasVariants(existing) && patch?.variants === undefined && stockGiven) {
+    throw Object.assign(
+      new Error('Stock is tracked per variant; update the variants to change it'),
+      { status: 400 }
+    );
+  }
+  if (hasVariants(next)) {
+    return { ...next, stock: totalVariantStock(next.variants!) };
+  }
+  const { options: _options, variants: _variants, ...simple } = next;
+  return existing && hasVariants(existing) && !stockGiven
+    ? { ...simple, stock: existing.stock }
+    : simple;
+}
+
+/**
+ * Variant an order line refers to. Products with variants require one; other
+ * products must not name one.
+ *
+ * @throws {Error} With code VARIANT_REQUIRED or VARIANT_NOT_FOUND
+ */
+export function resolveVariant(product: Product, variantId?: string): ProductVariant | undefined {
+  if (!hasVariants(product)) {
+    if (variantId) throw createVariantNotFoundError(product.id, variantId);
+    return undefined;
+  }
+  if (!variantId) throw createVariantRequiredError(product.id, product.name);
+  const variant = product.variants!.find((v) => v.id === variantId);
+  if (!variant) throw createVariantNotFoundError(product.id, variantId);
+  return variant;
+}
+
+export function availableStock(product: Product, variant?: ProductVariant): number {
+  return variant ? variant.stock : product.stock;
+}
+
+/**
+ * Product with `delta` units added to one bucket (and the product total), or
+ * null when the bucket no longer exists because variants were added or removed.
+ */
+export function withStockChange(
+  product: Product,
+  variantId: string | undefined,
+  delta: number
+): Product | null {
+  if (!hasVariants(product)) {
+    return variantId ? null : { ...product, stock: product.stock + delta };
+  }
+  const index = variantId ? product.variants!.findIndex((v) => v.id === variantId) : -1;
+  if (index < 0) return null;
+  const variants = product.variants!.map((v, i) =>
+    i === index ? { ...v, stock: v.stock + delta } : v
+  );
+  return { ...product, variants, stock: totalVariantStock(variants) };
+}
+
+/**
+ * Ledger adjustments explaining a manual edit from `before` to `after`: one
+ * entry per stock bucket whose level changed, with running product balances.
+ */
+export function stockAdjustments(
+  before: Product | undefined,
+  after: Product
+): Array<{ variantId?: string; quantity: number; balanceAfter: number }> {
+  const levels = (product?: Product) => {
+    const map = new Map<string, number>();
+    if (!product) return map;
+    if (hasVariants(product)) {
+      for (const variant of product.variants!) map.set(variant.id, variant.stock);
+    } else {
+      map.set('', product.stock);
+    }
+    return map;
+  };
+  const previous = levels(before);
+  const next = levels(after);
+  const keys = new Set([...previous.keys(), ...next.keys()]);
+  const adjustments: Array<{ variantId?: string; quantity: number; balanceAfter: number }> = [];
+  let balance = before?.stock ?? 0;
+  for (const key of keys) {
+    const quantity = (next.get(key) ?? 0) - (previous.get(key) ?? 0);
+    if (quantity === 0) continue;
+    balance += quantity;
+    adjustments.push({ ...(key ? { variantId: key } : {}), quantity, balanceAfter: balance });
+  }
+  return adjustments;
+}
+
+/**
+ * Priced order line for `quantity` units of a product, or of one of its variants
+ */
+export function buildOrderItem(
+  product: Product,
+  variant: ProductVariant | undefined,
+  quantity: number
+): OrderItem {
+  const unitPrice = variant?.price ?? product.price;
+  const orderItem: OrderItem = {
+    productId: product.id,
+    productName: product.name,
+    quantity,
+    unitPrice,
+    totalPrice: unitPrice * quantity,
+  };
+  if (variant) {
+    orderItem.variantId = variant.id;
+    orderItem.variantName = describeVariant(variant, product.options);
+    orderItem.sku = variant.sku;
+  }
+  const image = variant?.images?.[0] ?? product.images?.[0];
+  if (typeof image === 'string') {
+    orderItem.productImage = image;
+  }
+  return orderItem;
+}
@@ -0,0 +1,73 @@
+/**
+ * Shopping carts kept on the server, so a cart follows its owner across
+ * devices. Signed-in users have one cart keyed by their user ID; guests get a
+ * cart of their own, identified by a signed token the client keeps, which is
+ * merged into the user's cart when they log in.
+ */
+
+export type CartOwner = { type: 'user'; id: string } | { type: 'guest'; id: string };
+
+export interface CartLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  unitPrice: number; // price the customer last saw; a different current price flags the line
+  addedAt: number;
+}
+
+export interface Cart {
+  id: string; // user ID, or the guest cart ID
+  owner: CartOwner['type'];
+  lines: CartLine[]; // in the order they were added
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number | null; // guest carts only; user carts are kept
+}
+
+/**
+ * A cart line checked against the catalog: current price and stock, and what
+ * changed since the customer added it.
+ */
+export interface CartLineView {
+  key: string; // cartLineKey()
+  productId: string;
+  variantId?: string;
+  variantName?: string; // e.g. "M / Red"
+  name: string;
+  image?: string;
+  quantity: number;
+  unitPrice: number; // current price
+  previousUnitPrice?: number; // set when the price changed since the line was added
+  priceChanged: boolean;
+  stock: number;
+  insufficientStock: boolean; // fewer units in stock than `quantity`
+}
+
+export interface CartView {
+  id: string;
+  owner: CartOwner['type'];
+  lines: CartLineView[];
+  /** Lines dropped because their product or variant no longer exists */
+  removed: Array<Pick<CartLine, 'productId' | 'variantId'>>;
+  itemCount: number;
+  subtotal: number; // at current prices
+  updatedAt: number;
+  token?: string; // guest carts: the signed ID to send back in X-Cart-Token
+}
+
+export const MAX_CART_LINES = 50;
+export const MAX_LINE_QUANTITY = 99;
+export const GUEST_CART_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Identity of a cart line: the product, plus the variant for products with
+ * variants. Matches the client's line keys.
+ */
+export function cartLineKey(line: Pick<CartLine, 'productId' | 'variantId'>): string {
+  return line.variantId ? `${line.productId}:${line.variantId}` : line.productId;
+}
+
+export function parseCartLineKey(key: string): Pick<CartLine, 'productId' | 'variantId'> {
+  const [productId, variantId] = key.split(':');
+  return variantId ? { productId, variantId } : { productId };
+}
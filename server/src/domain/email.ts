@@ -0,0 +1,48 @@
+/**
+ * Transactional email. Messages are rendered when they are queued and stored
+ * in an outbox, which a worker drains through the configured transport and
+ * retries with backoff until delivery succeeds or the attempts run out.
+ */
+
+export type EmailTemplate =
+  | 'verify_email'
+  | 'password_reset'
+  | 'order_confirmation'
+  | 'shipping_update'
+  | 'order_mention';
+
+/** A rendered message, ready to hand to a transport */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+
+export interface OutboxEmail extends EmailMessage {
+  id: string;
+  template: EmailTemplate;
+  status: OutboxStatus;
+  attempts: number;
+  /** When the worker may (re)try; pushed forward while an attempt is in flight */
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+  sentAt?: number;
+}
+
+/** Attempts after which a message is given up on and marked failed */
+export const OUTBOX_MAX_ATTEMPTS = 6;
+
+/** How long a claimed message stays hidden from other workers while it is sent */
+export const OUTBOX_CLAIM_MS = 2 * 60_000;
+
+/**
+ * Delay before retrying after `attempts` failed deliveries: 1, 5, 25 minutes,
+ * then capped at 2 hours.
+ */
+export function outboxRetryDelayMs(attempts: number): number {
+  return Math.min(60_000 * 5 ** Math.max(attempts - 1, 0), 2 * 60 * 60_000);
+}
@@ -0,0 +1,17 @@
+/**
+ * Idempotency keys let a client retry a mutating request without repeating
+ * its effect: the first request with a key runs and its response is kept;
+ * later requests with the same key and payload get that response back.
+ */
+
+export interface IdempotencyRecord {
+  key: string; // scoped: route name, caller and the client's key
+  fingerprint: string; // sha256 of method, path and body of the first request
+  status: 'in_progress' | 'completed';
+  responseStatus?: number;
+  responseBody?: unknown;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
@@ -0,0 +1,77 @@
+/**
+ * Inventory Ledger Domain Types
+ *
+ * Every change to a product's stock is appended to a movement ledger, so the
+ * current `Product.stock` can be explained (and recomputed) from its history.
+ */
+
+export enum StockMovementType {
+  /** Units taken by a new order */
+  SALE = 'sale',
+  /** Units put back when an order is cancelled, refunded or deleted */
+  RELEASE = 'release',
+  /** Manual change by an admin, including a product's opening stock */
+  ADJUSTMENT = 'adjustment',
+  /** Returned units put back on approval of a return request */
+  RESTOCK = 'restock',
+}
+
+export interface StockMovement {
+  id: string;
+  productId: string;
+  /** Set for products with variants; the change applied to that variant's stock */
+  variantId?: string;
+  type: StockMovementType;
+  /** Signed change in units (negative for sales) */
+  quantity: number;
+  /** Product stock (across all variants) right after this movement */
+  balanceAfter: number;
+  orderId?: string;
+  returnId?: string;
+  actorId?: string;
+  actorEmail?: string;
+  reason?: string;
+  createdAt: number; // ms timestamp
+}
+
+/**
+ * Key identifying a stock bucket in per-line maps such as an order's
+ * restocked quantities. Plain product IDs stay valid for simple products.
+ */
+export function stockKey(productId: string, variantId?: string): string {
+  return variantId ? `${productId}:${variantId}` : productId;
+}
+
+/**
+ * Reason on the zero-quantity RELEASE recorded when an order gives back units
+ * whose stock bucket no longer exists (the variant was removed, or variants
+ * were added to a simple product), so the ledger shows why nothing came back
+ */
+export function orphanedReleaseReason(quantity: number): string {
+  return `orphaned_release: ${quantity} unit(s) of a removed stock bucket not restocked`;
+}
+
+export type NewStockMovement = Omit<StockMovement, 'id' | 'createdAt'>;
+
+/** Who caused a stock change */
+export interface StockActor {
+  id?: string;
+  email?: string;
+}
+
+export interface StockReconciliationEntry {
+  productId: string;
+  productName: string;
+  stock: number;
+  /** Stock implied by the sum of the product's movements */
+  ledgerStock: number;
+  difference: number;
+  movementCount: number;
+}
+
+export interface LowStockAlert {
+  productId: string;
+  productName: string;
+  stock: number;
+  threshold: number;
+}
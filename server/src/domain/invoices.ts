@@ -0,0 +1,18 @@
+/**
+ * Tax invoices. An order gets its invoice number the first time its invoice is
+ * issued; numbers are sequential across the shop, with no gaps or reuse, and
+ * the number and date never change afterwards.
+ */
+
+export interface InvoiceRecord {
+  orderId: string;
+  sequence: number; // 1, 2, 3, ...
+  number: string; // formatInvoiceNumber(sequence)
+  issuedAt: number;
+}
+
+export const INVOICE_NUMBER_PREFIX = 'INV-';
+
+export function formatInvoiceNumber(sequence: number): string {
+  return `${INVOICE_NUMBER_PREFIX}${String(sequence).padStart(6, '0')}`;
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { parseMentionHandles } from './orderTimeline';
+
+describe('parseMentionHandles', () => {
+  it('finds local parts and full email addresses, lower-cased and once each', () => {
+    expect(parseMentionHandles('@Sam, can you and @grace.h@Example.com look? Thanks @sam')).toEqual(
+      ['sam', 'grace.h@example.com']
+    );
+  });
+
+  it('drops the full stop ending a sentence', () => {
+    expect(parseMentionHandles('Handing over to @linus.')).toEqual(['linus']);
+    expect(parseMentionHandles('Ask @ada@example.com.')).toEqual(['ada@example.com']);
+  });
+
+  it('ignores email addresses quoted without a mention', () => {
+    expect(parseMentionHandles('The customer wrote from ada@example.com')).toEqual([]);
+    expect(parseMentionHandles('No mentions here, not even a lone @')).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Order timeline. Every order keeps its own history: status and payment
+ * changes, edits to the shipping address, tracking or notes, and comments
+ * staff leave for each other. Internal entries (staff comments) are never
+ * shown to the customer.
+ */
+
+export type TimelineEntryType =
+  | 'created'
+  | 'status_change'
+  | 'payment'
+  | 'address_updated'
+  | 'tracking_updated'
+  | 'notes_updated'
+  | 'comment';
+
+/** Who made a change; customers only see staff and system changes as such, never who */
+export type TimelineActorType = 'customer' | 'staff' | 'system';
+
+export interface TimelineMention {
+  userId: string;
+  email: string;
+}
+
+export interface TimelineEntry {
+  id: string;
+  orderId: string;
+  type: TimelineEntryType;
+  summary: string; // one line for the customer or staff, e.g. "Status changed from pending to confirmed"
+  body?: string; // comment text
+  mentions?: TimelineMention[]; // staff @mentioned in a comment
+  internal: boolean; // staff only
+  actorType: TimelineActorType;
+  actorId?: string; // absent for system changes and provider webhooks
+  actorEmail?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: number;
+}
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+/** Handles written as `@name` in a comment: an email address or its local part */
+export function parseMentionHandles(body: string): string[] {
+  const handles = body.match(/(?<![\w.+-])@[\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?/g) ?? [];
+  return [...new Set(handles.map((handle) => handle.slice(1).replace(/\.+$/, '').toLowerCase()))];
+}
@@ -3,6 +3,10 @@
  * Defines the data structures and interfaces for the order management system.
  * Orders link products with customers and track the purchase lifecycle.
  */
+import type { OrderPayment } from './payments';
+import type { PriceBreakdown } from './pricing';
+import type { OrderDiscount } from './promotions';
+
 export enum OrderStatus {
   PENDING = 'pending',
   CONFIRMED = 'confirmed',
@@ -20,11 +24,24 @@ export enum OrderStatus {
  */
 export enum PaymentStatus {
   PENDING = 'pending',
+  AUTHORIZED = 'authorized',
   PAID = 'paid',
   FAILED = 'failed',
+  PARTIALLY_REFUNDED = 'partially_refunded',
   REFUNDED = 'refunded',
+  VOIDED = 'voided',
 }
 
+/**
+ * Payment states in which no money is held for the order. A pending order in
+ * one of these states only reserves stock until its reservation expires.
+ */
+export const UNPAID_PAYMENT_STATUSES: readonly PaymentStatus[] = [
+  PaymentStatus.PENDING,
+  PaymentStatus.FAILED,
+  PaymentStatus.VOIDED,
+];
+
 /**
  * Payment method enumeration
  *
@@ -43,6 +60,9 @@ export enum PaymentMethod {
 export interface OrderItem {
   productId: string;
   productName: string;
+  variantId?: string;
+  variantName?: string; // e.g. "M / Red"
+  sku?: string;
   quantity: number;
   unitPrice: number;
   totalPrice: number;
@@ -62,6 +82,27 @@ export interface ShippingAddress {
   phone?: string;
 }
 
+export const SHIPPING_ADDRESS_REQUIRED_FIELDS: Array<keyof ShippingAddress> = [
+  'fullName',
+  'street',
+  'city',
+  'state',
+  'postalCode',
+  'country',
+];
+
+/**
+ * Required fields of a shipping address that are missing or blank
+ */
+export function missingShippingAddressFields(
+  address: Partial<ShippingAddress>
+): Array<keyof ShippingAddress> {
+  return SHIPPING_ADDRESS_REQUIRED_FIELDS.filter((field) => {
+    const value = address[field];
+    return typeof value !== 'string' || value.trim().length === 0;
+  });
+}
+
 /**
  * Order tracking information
 
@@ -82,12 +123,15 @@ export interface Order {
   userEmail: string;
   items: OrderItem[];
   subtotal: number;
+  discountAmount: number;
+  discount?: OrderDiscount;
   taxAmount: number;
   shippingCost: number;
   totalAmount: number;
   status: OrderStatus;
   paymentStatus: PaymentStatus;
   paymentMethod: PaymentMethod;
+  payment?: OrderPayment;
   shippingAddress: ShippingAddress;
   tracking?: OrderTracking;
   notes?: string;
@@ -102,11 +146,29 @@ export interface Order {
 export interface CreateOrderInput {
   items: Array<{
     productId: string;
+    variantId?: string; // required for products with variants
     quantity: number;
   }>;
   paymentMethod: PaymentMethod;
   shippingAddress: ShippingAddress;
   notes?: string;
+  promoCode?: string;
+}
+
+/**
+ * Price quote input: the cart lines plus the destination fields that affect tax
+ */
+export interface QuoteOrderInput {
+  items: CreateOrderInput['items'];
+  shippingAddress?: Pick<ShippingAddress, 'country'> & Partial<Pick<ShippingAddress, 'state'>>;
+  promoCode?: string;
+}
+
+/**
+ * Priced cart lines and totals exactly as order creation would charge them
+ */
+export interface OrderQuote extends PriceBreakdown {
+  items: OrderItem[];
 }
 
 /**
@@ -116,6 +178,7 @@ export interface CreateOrderInput {
 export interface UpdateOrderInput {
   status?: OrderStatus;
   paymentStatus?: PaymentStatus;
+  payment?: OrderPayment;
   tracking?: OrderTracking;
   notes?: string;
   shippingAddress?: ShippingAddress;
@@ -0,0 +1,100 @@
+/**
+ * Payment Domain Types
+ *
+ * Provider-neutral view of a card payment moving through
+ * authorize → capture → refund (or void), plus the gateway port that
+ * concrete providers implement.
+ */
+
+/**
+ * Status of a payment as reported by the gateway
+ */
+export enum GatewayPaymentStatus {
+  REQUIRES_ACTION = 'requires_action', // e.g. 3-D Secure challenge pending
+  AUTHORIZED = 'authorized',
+  CAPTURED = 'captured',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded',
+  VOIDED = 'voided',
+  DECLINED = 'declined',
+}
+
+/**
+ * Snapshot of a payment returned by every gateway operation and carried by webhooks
+ */
+export interface PaymentResult {
+  paymentId: string;
+  orderId: string;
+  status: GatewayPaymentStatus;
+  currency: string;
+  amount: number; // authorized amount
+  capturedAmount: number;
+  refundedAmount: number;
+  /**
+   * Increases with every state change of this payment so stale or duplicate
+   * webhook deliveries can be ignored.
+   */
+  version: number;
+  challengeUrl?: string; // set while REQUIRES_ACTION
+  failureReason?: string; // set when DECLINED
+}
+
+export interface AuthorizePaymentRequest {
+  orderId: string;
+  amount: number;
+  currency: string;
+  paymentMethod: string;
+  /**
+   * Provider-specific payment method token. The mock gateway understands
+   * `tok_success`, `tok_decline` and `tok_challenge`.
+   */
+  token?: string;
+}
+
+/**
+ * Port implemented by payment providers.
+ *
+ * Declines are returned as a DECLINED result; operations that are not allowed
+ * in the payment's current state throw with code PAYMENT_INVALID_STATE.
+ */
+export interface PaymentGateway {
+  readonly provider: string;
+  authorize(request: AuthorizePaymentRequest): Promise<PaymentResult>;
+  capture(paymentId: string, amount?: number): Promise<PaymentResult>;
+  refund(paymentId: string, amount?: number): Promise<PaymentResult>;
+  void(paymentId: string): Promise<PaymentResult>;
+}
+
+export type PaymentEventType =
+  | 'payment.action_required'
+  | 'payment.authorized'
+  | 'payment.captured'
+  | 'payment.refunded'
+  | 'payment.voided'
+  | 'payment.declined';
+
+/**
+ * Body of a webhook delivery from the payment provider
+ */
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentEventType;
+  createdAt: number; // ms timestamp
+  data: PaymentResult;
+}
+
+/**
+ * Payment details recorded on the order
+ */
+export interface OrderPayment {
+  provider: string;
+  paymentId: string;
+  status: GatewayPaymentStatus;
+  currency: string;
+  amount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+  version: number;
+  challengeUrl?: string;
+  failureReason?: string;
+}
@@ -0,0 +1,90 @@
+/**
+ * Pricing Domain Types
+ *
+ * Describes the configurable rules used to turn an order subtotal into the
+ * tax, shipping and total amounts charged to the customer.
+ */
+import type { OrderDiscount, Promotion } from './promotions';
+
+/**
+ * Tax rate applied when the shipping destination matches.
+ * A rule with `states` only matches those states within its countries and takes
+ * precedence over a country-wide rule.
+ */
+export interface TaxRule {
+  countries: string[]; // ISO codes and/or names, matched case-insensitively
+  states?: string[];
+  rate: number; // e.g. 0.1 for 10%
+  label?: string; // e.g. "GST"
+}
+
+/**
+ * Shipping cost for subtotals up to (and including) `upTo`.
+ * The tier with `upTo: null` covers every larger subtotal.
+ */
+export interface ShippingTier {
+  upTo: number | null;
+  cost: number;
+}
+
+export interface PricingConfig {
+  currency: string;
+  defaultTaxRate: number;
+  taxRules: TaxRule[];
+  shippingTiers: ShippingTier[];
+}
+
+/**
+ * Where the order ships to; only the fields that affect pricing.
+ */
+export interface PricingDestination {
+  country?: string;
+  state?: string;
+}
+
+/**
+ * A priced cart line as seen by the pricing engine
+ */
+export interface PricingLine {
+  productId: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+/**
+ * Promotion to apply together with the usage facts needed to check its caps
+ */
+export interface PromotionContext {
+  promotion: Promotion;
+  userRedemptions: number;
+  now: number;
+}
+
+export interface PricingInput {
+  lines: PricingLine[];
+  destination?: PricingDestination;
+  promotion?: PromotionContext;
+}
+
+export interface PriceBreakdown {
+  currency: string;
+  subtotal: number;
+  discountAmount: number;
+  discount?: OrderDiscount;
+  taxRate: number;
+  taxLabel?: string;
+  taxAmount: number;
+  shippingCost: number;
+  totalAmount: number;
+}
+
+/**
+ * Computes order totals. Implementations must be pure and synchronous so they
+ * can run inside repository transactions.
+ */
+export interface PricingEngine {
+  /**
+   * @throws {Error} With code PROMOTION_NOT_APPLICABLE when the promotion cannot be used
+   */
+  price(input: PricingInput): PriceBreakdown;
+}
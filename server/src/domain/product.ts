@@ -2,18 +2,73 @@
  * Domain model definitions and invariants for catalog products.
  */
 
+import type { RatingCounts } from './reviews';
+
+/**
+ * One axis a product varies along, e.g. `{ name: 'Size', values: ['S', 'M', 'L'] }`
+ */
+export type ProductOption = {
+  name: string;
+  values: string[];
+};
+
+/**
+ * A purchasable combination of option values with its own SKU and stock
+ */
+export type ProductVariant = {
+  id: string;
+  sku: string;
+  options: Record<string, string>; // option name -> value, one entry per product option
+  price?: number; // overrides Product.price when set
+  stock: number; // available inventory count (>= 0)
+  images?: string[]; // shown instead of the product images when the variant is selected
+};
+
 export type Product = {
   id: string;
   name: string;
+  sku?: string; // unique across products; bulk import matches rows to products by it
   price: number;
   description?: string;
   category: string;
-  rating: number; // rating from 1.0 to 5.0 (inclusive), decimals allowed
-  stock: number; // available inventory count (>= 0)
+  rating: number; // average of approved review ratings (1.0 to 5.0), 0 until the first review
+  reviewCount?: number; // approved reviews behind `rating`
+  ratingCounts?: RatingCounts; // approved reviews per star rating
+  stock: number; // available inventory count (>= 0); the sum of variant stock when variants exist
+  lowStockThreshold?: number; // alert at or below this stock; falls back to LOW_STOCK_THRESHOLD
   createdAt: number; // Unix timestamp in milliseconds
   /**
    * One or more image URLs associated with the product. URLs should be absolute (http/https).
    * Clients may render the first image as the primary thumbnail.
    */
   images?: string[];
+  options?: ProductOption[];
+  /** When present, orders must name a variant and stock is tracked per variant */
+  variants?: ProductVariant[];
+};
+
+/**
+ * Changes to a product. A null `lowStockThreshold` removes the product's own
+ * threshold so LOW_STOCK_THRESHOLD applies again.
+ */
+export type ProductPatch = Partial<Omit<Product, 'lowStockThreshold'>> & {
+  lowStockThreshold?: number | null;
 };
+
+export function hasVariants(product: Pick<Product, 'variants'>): boolean {
+  return Array.isArray(product.variants) && product.variants.length > 0;
+}
+
+/**
+ * Human-readable variant label in option order, e.g. "M / Red"
+ */
+export function describeVariant(
+  variant: Pick<ProductVariant, 'options'>,
+  options: ProductOption[] = []
+): string {
+  const names = options.length ? options.map((o) => o.name) : Object.keys(variant.options);
+  return names
+    .map((name) => variant.options[name])
+    .filter(Boolean)
+    .join(' / ');
+}
@@ -0,0 +1,85 @@
+/**
+ * Bulk Product Import/Export Types
+ *
+ * Products move in and out of the catalog as CSV or JSON rows keyed by SKU.
+ * Importing a row updates the product with that SKU, or creates one when no
+ * product has it. Rows without a SKU, as exported for products that never had
+ * one, match by product id instead and can only update. A dry run reports what
+ * each row would change without writing anything.
+ */
+
+import type { Product } from './product';
+
+export type ProductTransferFormat = 'csv' | 'json';
+
+/**
+ * Columns in export order. In CSV, `images` are separated by `|` and
+ * `options` / `variants` hold JSON; empty cells leave a product's current
+ * value alone when updating. `id` is only read from rows without a SKU.
+ */
+export const PRODUCT_TRANSFER_COLUMNS = [
+  'id',
+  'sku',
+  'name',
+  'description',
+  'category',
+  'price',
+  'stock',
+  'lowStockThreshold',
+  'images',
+  'options',
+  'variants',
+] as const;
+
+export type ProductTransferField = (typeof PRODUCT_TRANSFER_COLUMNS)[number];
+
+export const IMPORT_ROW_LIMIT = 1000;
+
+/** Import row as read from the file, before validation */
+export interface ImportRecord {
+  /** CSV line number, or 1-based position in a JSON array */
+  line: number;
+  data: Record<string, unknown>;
+}
+
+export interface ImportFieldError {
+  field: string;
+  message: string;
+}
+
+/** Columns a row sets. Rows that create a product need the same fields as the create form */
+export type ProductImportInput = Partial<Pick<Product, ProductTransferField>>;
+
+/** Fields a row must set when no product has its SKU yet */
+export const IMPORT_CREATE_REQUIRED = ['name', 'price', 'category'] as const;
+
+/** Import row after validation against the product schema */
+export interface ProductImportRow {
+  line: number;
+  sku?: string;
+  /** Present when the row passed validation */
+  product?: ProductImportInput;
+  /** Columns the row sets; an update only changes these */
+  fields: ProductTransferField[];
+  errors: ImportFieldError[];
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ProductImportResult {
+  line: number;
+  sku?: string;
+  action: ImportAction;
+  productId?: string;
+  /** Old and new value of every column the row changes */
+  changes?: Partial<Record<ProductTransferField, { from?: unknown; to: unknown }>>;
+  errors?: ImportFieldError[];
+}
+
+export interface ProductImportReport {
+  dryRun: boolean;
+  /** False for a dry run, or when any row was invalid so nothing was written */
+  applied: boolean;
+  summary: Record<ImportAction, number> & { total: number };
+  rows: ProductImportResult[];
+}
@@ -0,0 +1,44 @@
+/**
+ * Customer profile and address book. Kept apart from `User`, which holds only
+ * what authentication needs.
+ */
+import type { ShippingAddress } from './orders';
+
+export interface MarketingPreferences {
+  email: boolean; // newsletters and offers by email
+  sms: boolean;
+}
+
+export interface UserProfile {
+  userId: string;
+  displayName?: string;
+  phone?: string;
+  marketing: MarketingPreferences;
+  updatedAt: number;
+}
+
+/** Fields a user sets on their own profile; omitted fields are left unchanged */
+export type ProfileInput = Partial<Pick<UserProfile, 'displayName' | 'phone'>> & {
+  marketing?: Partial<MarketingPreferences>;
+};
+
+/**
+ * Shipping address kept for later orders. Exactly one address of a user who
+ * has any is the default, which checkout offers first.
+ */
+export interface SavedAddress extends ShippingAddress {
+  id: string;
+  label?: string; // e.g. "Home" or "Work"
+  isDefault: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AddressInput = ShippingAddress & { label?: string };
+
+export const MAX_SAVED_ADDRESSES = 20;
+
+/** Profile of a user who has never saved one: no marketing without opting in */
+export function emptyProfile(userId: string): UserProfile {
+  return { userId, marketing: { email: false, sms: false }, updatedAt: 0 };
+}
@@ -0,0 +1,74 @@
+/**
+ * Promotion Domain Types
+ *
+ * Promo codes customers enter at checkout and the discount they produce on an order.
+ */
+
+/**
+ * Canonical form of a promo code as typed by a customer or admin
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Kind of discount a promotion grants
+ *
+ * @enum {string}
+ */
+export enum PromotionType {
+  PERCENT_OFF = 'percent_off',
+  FIXED_AMOUNT = 'fixed_amount',
+  FREE_SHIPPING = 'free_shipping',
+  BUY_X_GET_Y = 'buy_x_get_y',
+}
+
+/**
+ * Promotion definition managed by admins
+ */
+export interface Promotion {
+  id: string;
+  code: string; // stored upper-cased, unique
+  description?: string;
+  type: PromotionType;
+  /**
+   * PERCENT_OFF: percentage 1-100. FIXED_AMOUNT: currency amount.
+   * BUY_X_GET_Y: percentage off the "get" units (defaults to 100 = free).
+   */
+  value?: number;
+  buyQuantity?: number; // BUY_X_GET_Y only
+  getQuantity?: number; // BUY_X_GET_Y only
+  productIds?: string[]; // restrict to these products; empty = whole cart
+  minSubtotal?: number;
+  startsAt?: number; // ms timestamp
+  endsAt?: number; // ms timestamp
+  maxRedemptions?: number; // across all customers
+  maxRedemptionsPerUser?: number;
+  redemptionCount: number;
+  active: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PromotionInput = Omit<Promotion, 'id' | 'redemptionCount' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * A single use of a promotion by an order
+ */
+export interface PromotionRedemption {
+  promotionId: string;
+  userId: string;
+  orderId: string;
+  createdAt: number;
+}
+
+/**
+ * Discount line recorded on an order (and returned with quotes)
+ */
+export interface OrderDiscount {
+  promotionId: string;
+  code: string;
+  type: PromotionType;
+  description: string;
+  amount: number;
+}
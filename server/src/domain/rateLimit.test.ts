@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import {
+  consumeRateLimit,
+  type RateLimitPolicy,
+  type RateLimitResult,
+  type RateLimitState,
+  refundRateLimit,
+} from './rateLimit';
+
+/** A client sending requests at the given times, with the limiter's state carried between them */
+function client(policy: RateLimitPolicy) {
+  let state: RateLimitState | null = null;
+  return {
+    at(now: number): RateLimitResult {
+      const next = consumeRateLimit(state, 'client-1', policy, now);
+      state = next.state;
+      return next.result;
+    },
+    burst(now: number, count: number): boolean[] {
+      return Array.from({ length: count }, () => this.at(now).allowed);
+    },
+    get state() {
+      return state;
+    },
+  };
+}
+
+describe('consumeRateLimit: fixed-window', () => {
+  const policy: RateLimitPolicy = { algorithm: 'fixed-window', limit: 3, windowMs: 1000 };
+
+  it('allows the limit within a window and counts down what remains', () => {
+    const c = client(policy);
+
+    expect([c.at(0), c.at(10), c.at(20)].map((r) => r.remaining)).toEqual([2, 1, 0]);
+    expect(c.at(30)).toEqual({
+      allowed: false,
+      limit: 3,
+      remaining: 0,
+      resetTime: 1000,
+      retryAfterMs: 970,
+    });
+  });
+
+  it('starts a new window once the old one has run out', () => {
+    const c = client(policy);
+    c.burst(0, 3);
+
+    expect(c.at(999).allowed).toBe(false);
+    expect(c.at(1000)).toMatchObject({ allowed: true, remaining: 2, resetTime: 2000 });
+  });
+
+  it('lets a burst through on each side of a window edge', () => {
+    const c = client(policy);
+
+    expect([...c.burst(900, 3), ...c.burst(1900, 3)]).toEqual(Array(6).fill(true));
+  });
+});
+
+describe('consumeRateLimit: sliding-window', () => {
+  const policy: RateLimitPolicy = { algorithm: 'sliding-window', limit: 4, windowMs: 1000 };
+
+  it('weighs the previous window, so a burst cannot straddle the edge', () => {
+    const c = client(policy);
+    expect(c.burst(10_900, 4)).toEqual([true, true, true, true]);
+
+    expect(c.at(11_000)).toMatchObject({ allowed: false, resetTime: 12_000 });
+  });
+
+  it('tells a client with a full window when one more request fits', () => {
+    const c = client(policy);
+    c.burst(10_000, 4);
+
+    const denied = c.at(10_000);
+
+    // Three quarters of the full window still overlap at 11 250, the weight of three requests
+    expect(denied.retryAfterMs).toBe(1250);
+    expect(c.at(11_249).allowed).toBe(false);
+    expect(c.at(11_250).allowed).toBe(true);
+  });
+
+  it('tells a client held back by the previous window when its weight has shrunk enough', () => {
+    const c = client(policy);
+    c.burst(10_000, 2);
+    expect(c.burst(11_000, 3)).toEqual([true, true, false]);
+
+    const denied = c.at(11_000);
+
+    expect(denied.retryAfterMs).toBe(500);
+    expect(c.at(11_500)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('forgets a window that is no longer the previous one', () => {
+    const c = client(policy);
+    c.burst(10_000, 4);
+
+    expect(c.burst(12_000, 4)).toEqual([true, true, true, true]);
+  });
+});
+
+describe('consumeRateLimit: token-bucket', () => {
+  // One token back every 250 ms
+  const policy: RateLimitPolicy = { algorithm: 'token-bucket', limit: 4, windowMs: 1000 };
+
+  it('allows a burst of the bucket size, then the refill rate', () => {
+    const c = client(policy);
+
+    expect(c.burst(0, 4)).toEqual([true, true, true, true]);
+    expect(c.at(0)).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 250 });
+    expect(c.at(200)).toMatchObject({ allowed: false, retryAfterMs: 50 });
+    expect(c.at(250).allowed).toBe(true);
+    expect(c.at(300).allowed).toBe(false);
+    expect(c.at(500).allowed).toBe(true);
+  });
+
+  it('refills no further than the bucket size', () => {
+    const c = client(policy);
+    c.burst(0, 4);
+
+    expect(c.burst(60_000, 5)).toEqual([true, true, true, true, false]);
+  });
+
+  it('reports when the bucket is full again', () => {
+    const c = client(policy);
+
+    expect(c.at(0)).toMatchObject({ remaining: 3, resetTime: 250 });
+    expect(c.at(0)).toMatchObject({ remaining: 2, resetTime: 500 });
+  });
+});
+
+describe('consumeRateLimit', () => {
+  it('returns a new state record and leaves the one it was given alone', () => {
+    const policy: RateLimitPolicy = { algorithm: 'fixed-window', limit: 3, windowMs: 1000 };
+    const first = consumeRateLimit(null, 'client-1', policy, 0).state;
+    const snapshot = { ...first };
+
+    const second = consumeRateLimit(first, 'client-1', policy, 10).state;
+
+    expect(first).toEqual(snapshot);
+    expect(second).toMatchObject({ key: 'client-1', count: 2, updatedAt: 10, expiresAt: 1000 });
+  });
+});
+
+describe('refundRateLimit', () => {
+  it('gives back a counted request', () => {
+    const policy: RateLimitPolicy = { algorithm: 'fixed-window', limit: 3, windowMs: 1000 };
+    const c = client(policy);
+    c.burst(0, 3);
+
+    const refunded = refundRateLimit(c.state!, policy);
+
+    expect(refunded.count).toBe(2);
+    expect(consumeRateLimit(refunded, 'client-1', policy, 10).result.allowed).toBe(true);
+  });
+
+  it('puts a token back, up to the bucket size', () => {
+    const policy: RateLimitPolicy = { algorithm: 'token-bucket', limit: 4, windowMs: 1000 };
+    const c = client(policy);
+    c.at(0);
+
+    expect(refundRateLimit(c.state!, policy).tokens).toBe(4);
+    expect(refundRateLimit(refundRateLimit(c.state!, policy), policy).tokens).toBe(4);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Rate-limit algorithms. Each limiter keeps one small state record per key
+ * (client); `consume` decides whether a request may go ahead and returns the
+ * record to store, so any store that can read and write it atomically can
+ * share limits between server instances.
+ */
+
+/**
+ * - `fixed-window`: up to `limit` requests in a window that starts with the
+ *   first request and lasts `windowMs`.
+ * - `sliding-window`: weighs the previous window's count by how much of it
+ *   still overlaps the last `windowMs`, so there is no burst at window edges.
+ * - `token-bucket`: a bucket of `limit` tokens refilled evenly over `windowMs`;
+ *   allows short bursts and a steady rate after them.
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+export interface RateLimitPolicy {
+  limit: number; // requests per window (bucket size for token-bucket)
+  windowMs: number;
+  algorithm: RateLimitAlgorithm;
+}
+
+export interface RateLimitState {
+  key: string;
+  count: number; // requests in the current window (window algorithms)
+  previousCount: number; // requests in the window before (sliding-window)
+  windowStart: number;
+  tokens: number; // tokens left at updatedAt (token-bucket)
+  updatedAt: number;
+  expiresAt: number; // after this the record carries no information and can be deleted
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number; // when the quota is fully available again
+  retryAfterMs: number; // 0 when allowed
+}
+
+function emptyState(key: string, now: number): RateLimitState {
+  return {
+    key,
+    count: 0,
+    previousCount: 0,
+    windowStart: now,
+    tokens: 0,
+    updatedAt: now,
+    expiresAt: now,
+  };
+}
+
+function consumeFixedWindow(state: RateLimitState, policy: RateLimitPolicy, now: number) {
+  const { limit, windowMs } = policy;
+  if (now >= state.windowStart + windowMs) {
+    state.windowStart = now;
+    state.count = 0;
+  }
+  const resetTime = state.windowStart + windowMs;
+  const allowed = state.count < limit;
+  if (allowed) state.count += 1;
+  state.expiresAt = resetTime;
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - state.count),
+    resetTime,
+    retryAfterMs: allowed ? 0 : resetTime - now,
+  };
+}
+
+function consumeSlidingWindow(state: RateLimitState, policy: RateLimitPolicy, now: number) {
+  const { limit, windowMs } = policy;
+  // Windows are aligned to multiples of windowMs so every instance agrees on them
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  if (state.windowStart !== windowStart) {
+    state.previousCount = state.windowStart === windowStart - windowMs ? state.count : 0;
+    state.count = 0;
+    state.windowStart = windowStart;
+  }
+  const overlap = 1 - (now - windowStart) / windowMs;
+  const estimate = state.previousCount * overlap + state.count;
+  const allowed = estimate + 1 <= limit;
+  let retryAfterMs = 0;
+  if (allowed) {
+    state.count += 1;
+  } else if (state.count < limit) {
+    // The previous window's weight has to shrink until one more request fits
+    const fits = windowMs * (1 - (limit - 1 - state.count) / state.previousCount);
+    retryAfterMs = windowStart + fits - now;
+  } else {
+    // This window alone is full: wait into the next one, where it becomes the previous window
+    const fits = windowMs * (1 - (limit - 1) / state.count);
+    retryAfterMs = windowStart + windowMs + fits - now;
+  }
+  state.expiresAt = windowStart + 2 * windowMs;
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - state.previousCount * overlap - state.count)),
+    resetTime: windowStart + windowMs,
+    retryAfterMs: Math.max(0, Math.ceil(retryAfterMs)),
+  };
+}
+
+function consumeTokenBucket(
+  state: RateLimitState,
+  policy: RateLimitPolicy,
+  now: number,
+  isNew: boolean
+) {
+  const { limit, windowMs } = policy;
+  const refillPerMs = limit / windowMs;
+  const tokens = isNew
+    ? limit
+    : Math.min(limit, state.tokens + Math.max(0, now - state.updatedAt) * refillPerMs);
+  const allowed = tokens >= 1;
+  state.tokens = allowed ? tokens - 1 : tokens;
+  const resetTime = now + Math.ceil((limit - state.tokens) / refillPerMs);
+  state.expiresAt = resetTime;
+  return {
+    allowed,
+    limit,
+    remaining: Math.floor(state.tokens),
+    resetTime,
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+  };
+}
+
+/**
+ * Count one request against `state` (null for a key not seen yet or whose
+ * record expired). Returns the record to store, which is a new object, and the
+ * decision for the request.
+ */
+export function consumeRateLimit(
+  state: RateLimitState | null,
+  key: string,
+  policy: RateLimitPolicy,
+  now: number
+): { state: RateLimitState; result: RateLimitResult } {
+  const isNew = !state || state.expiresAt <= now;
+  const next = isNew ? emptyState(key, now) : { ...state };
+  let result: RateLimitResult;
+  switch (policy.algorithm) {
+    case 'sliding-window':
+      result = consumeSlidingWindow(next, policy, now);
+      break;
+    case 'token-bucket':
+      result = consumeTokenBucket(next, policy, now, isNew);
+      break;
+    default:
+      result = consumeFixedWindow(next, policy, now);
+  }
+  next.updatedAt = now;
+  return { state: next, result };
+}
+
+/**
+ * Give back a request that should not have counted (e.g. a successful login
+ * under a limiter that only counts failures).
+ */
+export function refundRateLimit(state: RateLimitState, policy: RateLimitPolicy): RateLimitState {
+  if (policy.algorithm === 'token-bucket') {
+    return { ...state, tokens: Math.min(policy.limit, state.tokens + 1) };
+  }
+  return { ...state, count: Math.max(0, state.count - 1) };
+}
@@ -0,0 +1,65 @@
+/**
+ * Returns (RMA) Domain Types
+ *
+ * A customer asks to send back some units of a delivered order; an admin
+ * approves (refunding and optionally restocking) or rejects the request.
+ */
+
+export enum ReturnStatus {
+  REQUESTED = 'requested',
+  /** Claimed by an approval whose refund is in flight */
+  APPROVING = 'approving',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+export interface ReturnItem {
+  productId: string;
+  productName: string;
+  variantId?: string;
+  variantName?: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface ReturnRequest {
+  id: string;
+  orderId: string;
+  userId: string;
+  userEmail: string;
+  items: ReturnItem[];
+  reason: string;
+  status: ReturnStatus;
+  /** Value of the returned units after the order's discount */
+  itemsValue: number;
+  refundId?: string;
+  refundAmount?: number;
+  restocked: boolean;
+  adminNote?: string;
+  resolvedBy?: string;
+  resolvedAt?: number;
+  createdAt: number; // ms timestamp
+  updatedAt: number;
+}
+
+export interface CreateReturnInput {
+  items: Array<{ productId: string; variantId?: string; quantity: number }>;
+  reason: string;
+}
+
+/**
+ * How a refund reached the customer: through the payment gateway or
+ * outside the system (e.g. cash on delivery)
+ */
+export type RefundMethod = 'gateway' | 'manual';
+
+export interface RefundRecord {
+  id: string;
+  orderId: string;
+  returnId?: string;
+  amount: number;
+  method: RefundMethod;
+  paymentId?: string;
+  createdBy: string;
+  createdAt: number;
+}
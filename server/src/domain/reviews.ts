@@ -0,0 +1,92 @@
+/**
+ * Product Review Domain Types
+ *
+ * Customers who received a product rate it from one to five stars and may
+ * write a review. Reviews wait for moderation; only approved ones are shown
+ * and counted in the product's average rating and rating distribution.
+ */
+
+export enum ReviewStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  HIDDEN = 'hidden',
+  FLAGGED = 'flagged',
+}
+
+export type StarRating = 1 | 2 | 3 | 4 | 5;
+
+export const STAR_RATINGS: readonly StarRating[] = [1, 2, 3, 4, 5];
+
+/** Number of approved reviews per star rating */
+export type RatingCounts = Record<StarRating, number>;
+
+export interface Review {
+  id: string;
+  productId: string;
+  userId: string;
+  userEmail: string;
+  /** Shown publicly instead of the email, e.g. "Jane D." */
+  authorName: string;
+  /** Delivered order that proves the purchase */
+  orderId: string;
+  rating: StarRating;
+  title?: string;
+  body: string;
+  status: ReviewStatus;
+  moderatedBy?: string;
+  moderatedAt?: number;
+  moderationNote?: string;
+  createdAt: number; // ms timestamp
+  updatedAt: number;
+}
+
+/** Review as listed on the product page, without the author's email or moderation details */
+export type PublicReview = Omit<
+  Review,
+  'userEmail' | 'moderatedBy' | 'moderatedAt' | 'moderationNote'
+>;
+
+export interface CreateReviewInput {
+  rating: StarRating;
+  title?: string;
+  body: string;
+}
+
+export type ReviewSort = 'newest' | 'oldest' | 'highest' | 'lowest';
+
+export interface ReviewSummary {
+  /** Mean of approved ratings to two decimals; 0 without reviews */
+  average: number;
+  count: number;
+  distribution: RatingCounts;
+}
+
+export function emptyRatingCounts(): RatingCounts {
+  return { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+}
+
+/**
+ * Move one review's contribution out of and into the counts; pass the rating
+ * it counted with before (if approved) and the one it counts with now.
+ */
+export function applyRatingChange(
+  counts: Partial<RatingCounts> | undefined,
+  removed?: StarRating,
+  added?: StarRating
+): RatingCounts {
+  const next = { ...emptyRatingCounts(), ...counts };
+  if (removed) next[removed] = Math.max(0, next[removed] - 1);
+  if (added) next[added] += 1;
+  return next;
+}
+
+export function summarizeRatings(counts: Partial<RatingCounts> | undefined): ReviewSummary {
+  const distribution = { ...emptyRatingCounts(), ...counts };
+  const count = STAR_RATINGS.reduce((sum, star) => sum + distribution[star], 0);
+  const total = STAR_RATINGS.reduce((sum, star) => sum + star * distribution[star], 0);
+  return {
+    average: count ? Math.round((total / count) * 100) / 100 : 0,
+    count,
+    distribution,
+  };
+}
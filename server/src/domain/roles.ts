@@ -0,0 +1,85 @@
+/**
+ * Role-based access control. A user has one role; a role is a named set of
+ * permissions. Built-in roles ship with the server and cannot be edited;
+ * admins can define further roles of their own.
+ */
+
+/** Every permission the API checks, with what it allows */
+export const PERMISSIONS = {
+  'orders:read': 'View all orders and their activity',
+  'orders:fulfil': 'Update, cancel and delete any order',
+  'payments:manage': 'Capture, refund and void payments',
+  'returns:manage': 'Approve and reject return requests',
+  'products:write': 'Create, edit, import and delete products',
+  'inventory:read': 'View stock levels, movements and reconciliation',
+  'promotions:manage': 'Create and edit promotions',
+  'reviews:moderate': 'Approve, hide and flag product reviews',
+  'users:manage': 'Manage user accounts, their roles and sessions',
+  'roles:manage': 'Create and edit roles',
+  'audit:read': 'Read the audit log',
+  'reports:read': 'View sales statistics and reports',
+  'maintenance:run': 'Run maintenance jobs and toggle maintenance mode',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && Object.hasOwn(PERMISSIONS, value);
+}
+
+export interface Role {
+  id: string; // stored on users as `role`; lowercase letters, digits and underscores
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  builtIn: boolean;
+  createdAt?: number; // custom roles only
+  updatedAt?: number;
+}
+
+/** Fields an admin sets on a custom role */
+export type RoleInput = Pick<Role, 'name' | 'description' | 'permissions'>;
+
+export const BUILT_IN_ROLES: Role[] = [
+  {
+    id: 'admin',
+    name: 'Administrator',
+    description: 'Full access to everything',
+    permissions: ALL_PERMISSIONS,
+    builtIn: true,
+  },
+  {
+    id: 'user',
+    name: 'Customer',
+    description: 'Shops and manages their own orders; no staff access',
+    permissions: [],
+    builtIn: true,
+  },
+  {
+    id: 'support',
+    name: 'Support',
+    description: 'Helps customers with their orders, returns and accounts',
+    permissions: ['orders:read', 'returns:manage', 'reviews:moderate', 'users:manage'],
+    builtIn: true,
+  },
+  {
+    id: 'fulfilment',
+    name: 'Fulfilment',
+    description: 'Packs and ships orders and keeps an eye on stock',
+    permissions: ['orders:read', 'orders:fulfil', 'inventory:read'],
+    builtIn: true,
+  },
+  {
+    id: 'catalog_manager',
+    name: 'Catalog manager',
+    description: 'Looks after products, promotions and reviews',
+    permissions: ['products:write', 'inventory:read', 'promotions:manage', 'reviews:moderate'],
+    builtIn: true,
+  },
+];
+
+export function getBuiltInRole(id: string): Role | undefined {
+  return BUILT_IN_ROLES.find((role) => role.id === id);
+}
@@ -0,0 +1,68 @@
+/**
+ * Product Search Domain Types
+ *
+ * Catalog search runs against an inverted index of product terms that the
+ * product repositories keep current on create, update and remove. Results are
+ * ranked by relevance and come with facet counts for the filter sidebar.
+ */
+
+import type { Product } from './product';
+
+/**
+ * Fixed price ranges offered as a facet; `min` is inclusive, `max` exclusive
+ */
+export const PRICE_BUCKETS: ReadonlyArray<{
+  key: string;
+  label: string;
+  min: number;
+  max?: number;
+}> = [
+  { key: 'under-25', label: 'Under $25', min: 0, max: 25 },
+  { key: '25-50', label: '$25 to $50', min: 25, max: 50 },
+  { key: '50-100', label: '$50 to $100', min: 50, max: 100 },
+  { key: '100-250', label: '$100 to $250', min: 100, max: 250 },
+  { key: '250-plus', label: '$250 and up', min: 250 },
+];
+
+export function priceBucketFor(price: number): string {
+  const bucket = PRICE_BUCKETS.find((b) => price >= b.min && (b.max == null || price < b.max));
+  return (bucket ?? PRICE_BUCKETS[0]).key;
+}
+
+export interface ProductSearchParams {
+  q?: string;
+  category?: string;
+  /** Key from PRICE_BUCKETS */
+  priceBucket?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  /** Exclusive upper price bound */
+  priceBelow?: number;
+  /** Defaults to relevance when `q` is set */
+  sort?: { field: keyof Product; dir: 'asc' | 'desc' };
+  page?: number;
+  pageSize?: number;
+}
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+/**
+ * Each facet counts matches under every other active filter, so picking a
+ * category still shows how many results the other categories would give.
+ */
+export interface SearchFacets {
+  categories: FacetCount[];
+  price: FacetCount[];
+}
+
+export interface ProductSearchResult {
+  data: Product[];
+  total: number;
+  facets: SearchFacets;
+  /** Relevance per returned product ID; empty when browsing without a query */
+  scores: Record<string, number>;
+}
@@ -0,0 +1,54 @@
+/**
+ * Sign-in sessions. Every login starts a session that its access tokens name
+ * (the `sid` claim) and its refresh tokens belong to, so one device can be
+ * signed out without touching the others.
+ */
+
+export interface Session {
+  id: string;
+  userId: string;
+  device: string; // human-readable label derived from the user agent, e.g. "Firefox on Windows"
+  userAgent?: string;
+  ip?: string; // address of the most recent activity
+  createdAt: number;
+  lastSeenAt: number; // refreshed at most every SESSION_TOUCH_INTERVAL_MS while in use
+  revokedAt: number | null;
+  revokedReason?: string; // e.g. "manual_logout", "revoked_by_user", "reuse_detected"
+}
+
+/** Where a request comes from, as far as the server can tell */
+export interface SessionClient {
+  userAgent?: string;
+  ip?: string;
+}
+
+export const SESSION_TOUCH_INTERVAL_MS = 60_000;
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Short device label for a user agent, e.g. "Chrome on macOS". Clients that
+ * are not browsers are named by their product token, e.g. "curl".
+ */
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? userAgent.split(/[/\s]/)[0]?.slice(0, 40) ?? 'Unknown device';
+}
@@ -0,0 +1,84 @@
+/**
+ * Shipment Domain Types
+ *
+ * An order is fulfilled by one or more shipments, each carrying some of its
+ * units with one carrier. Carriers sit behind the CarrierAdapter port; the
+ * tracking events they report make up the shipment's timeline.
+ */
+
+import type { ShippingAddress } from './orders';
+
+export enum ShipmentStatus {
+  LABEL_CREATED = 'label_created',
+  IN_TRANSIT = 'in_transit',
+  OUT_FOR_DELIVERY = 'out_for_delivery',
+  DELIVERED = 'delivered',
+  EXCEPTION = 'exception', // e.g. a failed delivery attempt; the carrier usually retries
+}
+
+export interface ShipmentItem {
+  productId: string;
+  productName: string;
+  variantId?: string;
+  variantName?: string;
+  quantity: number;
+}
+
+export interface TrackingEvent {
+  status: ShipmentStatus;
+  description: string;
+  location?: string;
+  occurredAt: number; // ms timestamp
+}
+
+export interface Shipment {
+  id: string;
+  orderId: string;
+  userId: string;
+  carrier: string; // CarrierAdapter code
+  carrierName: string;
+  trackingNumber: string;
+  items: ShipmentItem[];
+  status: ShipmentStatus;
+  events: TrackingEvent[]; // oldest first
+  estimatedDelivery?: number;
+  deliveredAt?: number;
+  lastCheckedAt: number; // last time the carrier was asked for events
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CreateShipmentInput {
+  carrier: string;
+  /** Units to ship; defaults to every unit of the order not shipped yet */
+  items?: Array<{ productId: string; variantId?: string; quantity: number }>;
+}
+
+export interface CarrierShipmentRequest {
+  orderId: string;
+  destination: ShippingAddress;
+  items: ShipmentItem[];
+}
+
+export interface CarrierLabel {
+  trackingNumber: string;
+  estimatedDelivery?: number;
+}
+
+export interface CarrierTracking {
+  status: ShipmentStatus;
+  events: TrackingEvent[]; // oldest first
+  estimatedDelivery?: number;
+}
+
+/**
+ * Port implemented by carriers. Operations throw with code
+ * CARRIER_UNAVAILABLE when the carrier cannot be reached.
+ */
+export interface CarrierAdapter {
+  readonly code: string;
+  readonly name: string;
+  createShipment(request: CarrierShipmentRequest): Promise<CarrierLabel>;
+  track(trackingNumber: string): Promise<CarrierTracking>;
+}
@@ -3,4 +3,15 @@
  */
 // TS types, invariants
 
-export type User = { id: string; email: string; passwordHash: string; role: 'user' | 'admin' };
+export type User = {
+  id: string;
+  email: string;
+  passwordHash: string;
+  role: string; // id of a built-in or custom role, see domain/roles
+  emailVerified?: boolean; // false until the address is confirmed; absent on accounts from before verification
+};
+
+/** Accounts created before email verification existed count as verified */
+export function isEmailVerified(user: Pick<User, 'emailVerified'>): boolean {
+  return user.emailVerified !== false;
+}
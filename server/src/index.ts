@@ -7,6 +7,10 @@
 
 import { app } from './app';
 import { loadEnv } from './config/env';
+import { getEmailService } from './services/email';
+import { productsService } from './services/products';
+import { shipmentsService } from './services/shipments';
+import { logError, logInfo } from './utils/logger';
 
 const env = loadEnv();
 
@@ -15,3 +19,21 @@ if (!port || isNaN(port) || port <= 0) {
   throw new Error('Invalid or missing PORT in environment configuration.');
 }
 app.listen(port, () => console.log(`API listening on :${port}`));
+
+// Retry emails whose first delivery attempt failed
+if (env.EMAIL_OUTBOX_POLL_SECONDS > 0) {
+  getEmailService().startWorker(env.EMAIL_OUTBOX_POLL_SECONDS * 1000);
+}
+
+// Pull new tracking events of undelivered shipments from their carriers
+if (env.SHIPMENT_TRACKING_POLL_SECONDS > 0) {
+  shipmentsService.startWorker(env.SHIPMENT_TRACKING_POLL_SECONDS * 1000);
+}
+
+// Index products created before search existed; a no-op once the index has terms
+productsService
+  .backfillSearchIndex()
+  .then((indexed) => {
+    if (indexed > 0) logInfo('Search index backfilled', { indexed });
+  })
+  .catch((error) => logError('Search index backfill failed', error));
@@ -0,0 +1 @@
+export { profileService } from './profile.service';
@@ -0,0 +1,108 @@
+import { createMemoryRepositories, setRepositories } from '@server/data';
+import { MAX_SAVED_ADDRESSES } from '@server/domain/profile';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { profileService } from './profile.service';
+
+function address(label: string) {
+  return {
+    label,
+    fullName: 'Ada Lovelace',
+    street: `${label} Analytical Row`,
+    city: 'London',
+    state: 'LDN',
+    postalCode: 'N1 9GU',
+    country: 'GB',
+  };
+}
+
+async function defaults(userId: string) {
+  return (await profileService.listAddresses(userId))
+    .filter((a) => a.isDefault)
+    .map((a) => a.label);
+}
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories());
+  vi.useRealTimers();
+});
+
+describe('profileService address book', () => {
+  it('makes the first address the default and moves the default when asked', async () => {
+    const home = await profileService.addAddress('user-1', address('home'));
+    const work = await profileService.addAddress('user-1', address('work'));
+
+    expect(home.isDefault).toBe(true);
+    expect(work.isDefault).toBe(false);
+
+    await profileService.addAddress('user-1', { ...address('cabin'), isDefault: true });
+
+    expect(await defaults('user-1')).toEqual(['cabin']);
+  });
+
+  it('gives concurrent first addresses a single default', async () => {
+    await Promise.all(
+      ['a', 'b', 'c'].map((label) => profileService.addAddress('user-1', address(label)))
+    );
+
+    expect(await defaults('user-1')).toHaveLength(1);
+  });
+
+  it(`refuses more than ${MAX_SAVED_ADDRESSES} addresses, also when added at once`, async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: MAX_SAVED_ADDRESSES + 3 }, (_, i) =>
+        profileService.addAddress('user-1', address(`#${i}`))
+      )
+    );
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(MAX_SAVED_ADDRESSES);
+    expect(results.filter((r) => r.status === 'rejected')).toEqual(
+      Array(3).fill(expect.objectContaining({ reason: expect.objectContaining({ status: 409 }) }))
+    );
+    expect(await profileService.listAddresses('user-1')).toHaveLength(MAX_SAVED_ADDRESSES);
+  });
+
+  it('hands the default to the oldest remaining address when it is removed', async () => {
+    vi.useFakeTimers();
+    const home = await profileService.addAddress('user-1', address('home'));
+    vi.advanceTimersByTime(1);
+    await profileService.addAddress('user-1', address('work'));
+    vi.advanceTimersByTime(1);
+    await profileService.addAddress('user-1', address('cabin'));
+
+    await profileService.removeAddress('user-1', home.id);
+
+    expect(await defaults('user-1')).toEqual(['work']);
+  });
+
+  it('keeps the default when another address is removed', async () => {
+    await profileService.addAddress('user-1', address('home'));
+    const work = await profileService.addAddress('user-1', address('work'));
+
+    await profileService.removeAddress('user-1', work.id);
+
+    expect(await defaults('user-1')).toEqual(['home']);
+  });
+
+  it("answers 404 for another user's address", async () => {
+    const home = await profileService.addAddress('user-1', address('home'));
+
+    await expect(profileService.removeAddress('user-2', home.id)).rejects.toMatchObject({
+      status: 404,
+    });
+    await expect(
+      profileService.updateAddress('user-2', home.id, address('stolen'))
+    ).rejects.toMatchObject({ status: 404 });
+    await expect(profileService.setDefaultAddress('user-2', home.id)).rejects.toMatchObject({
+      status: 404,
+    });
+    expect(await profileService.listAddresses('user-1')).toMatchObject([
+      { id: home.id, label: 'home', isDefault: true },
+    ]);
+  });
+
+  it('refuses an incomplete address', async () => {
+    await expect(
+      profileService.addAddress('user-1', { ...address('home'), street: '  ' })
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
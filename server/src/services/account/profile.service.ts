@@ -0,0 +1,156 @@
+/**
+ * Profile service for the signed-in customer's own details.
+ *
+ * Provides the ability to:
+ * - Read and update the display name, phone number and marketing preferences
+ * - Keep an address book of shipping addresses with one default address
+ *
+ * Saved addresses must pass the same completeness check as an order's
+ * shipping address, so any of them can be used at checkout as is.
+ */
+
+import { randomUUID } from 'crypto';
+import { getRepositories } from '@server/data';
+import {
+  missingShippingAddressFields,
+  SHIPPING_ADDRESS_REQUIRED_FIELDS,
+} from '@server/domain/orders';
+import {
+  type AddressInput,
+  emptyProfile,
+  MAX_SAVED_ADDRESSES,
+  type ProfileInput,
+  type SavedAddress,
+  type UserProfile,
+} from '@server/domain/profile';
+
+function httpError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+/** Trimmed address fields; blank optional fields are dropped */
+function normalizeAddress(input: AddressInput): AddressInput {
+  const address: AddressInput = { ...input };
+  for (const field of [...SHIPPING_ADDRESS_REQUIRED_FIELDS, 'phone', 'label'] as const) {
+    const value = address[field];
+    if (typeof value === 'string') address[field] = value.trim();
+  }
+  if (!address.phone) delete address.phone;
+  if (!address.label) delete address.label;
+  if (missingShippingAddressFields(address).length > 0) {
+    throw httpError('Incomplete shipping address provided', 400);
+  }
+  return address;
+}
+
+async function findAddress(userId: string, id: string): Promise<SavedAddress> {
+  const address = await getRepositories().profiles.getAddress(userId, id);
+  if (!address) throw httpError('Address not found', 404);
+  return address;
+}
+
+export const profileService = {
+  async get(userId: string): Promise<UserProfile> {
+    return (await getRepositories().profiles.get(userId)) ?? emptyProfile(userId);
+  },
+
+  /** Fields left out of `input` keep their value; an empty string clears a field */
+  async update(userId: string, input: ProfileInput): Promise<UserProfile> {
+    const current = await this.get(userId);
+    const profile: UserProfile = {
+      ...current,
+      marketing: { ...current.marketing, ...input.marketing },
+      updatedAt: Date.now(),
+    };
+    for (const field of ['displayName', 'phone'] as const) {
+      const value = input[field];
+      if (value === undefined) continue;
+      if (value.trim()) profile[field] = value.trim();
+      else delete profile[field];
+    }
+    await getRepositories().profiles.save(profile);
+    return profile;
+  },
+
+  /** Default address first, then the rest oldest first */
+  async listAddresses(userId: string): Promise<SavedAddress[]> {
+    const addresses = await getRepositories().profiles.listAddresses(userId);
+    return [...addresses.filter((a) => a.isDefault), ...addresses.filter((a) => !a.isDefault)];
+  },
+
+  /**
+   * Save a new address. It becomes the default when asked to or when the user
+   * has no default yet, which makes the first address the default.
+   *
+   * @throws {Error} 400 for incomplete addresses, 409 once MAX_SAVED_ADDRESSES are saved
+   */
+  async addAddress(
+    userId: string,
+    input: AddressInput & { isDefault?: boolean }
+  ): Promise<SavedAddress> {
+    const { isDefault, ...fields } = input;
+    const now = Date.now();
+    const address = await getRepositories().profiles.addAddress(
+      userId,
+      {
+        ...normalizeAddress(fields),
+        id: randomUUID().replace(/-/g, ''),
+        isDefault: !!isDefault,
+        createdAt: now,
+        updatedAt: now,
+      },
+      MAX_SAVED_ADDRESSES
+    );
+    if (!address) {
+      throw httpError(`You can save up to ${MAX_SAVED_ADDRESSES} addresses`, 409);
+    }
+    return address;
+  },
+
+  /**
+   * Replace the fields of a saved address.
+   *
+   * @throws {Error} 404 for unknown addresses, 400 for incomplete ones
+   */
+  async updateAddress(
+    userId: string,
+    id: string,
+    input: AddressInput & { isDefault?: boolean }
+  ): Promise<SavedAddress> {
+    const { isDefault, ...fields } = input;
+    const current = await findAddress(userId, id);
+    const address: SavedAddress = {
+      ...normalizeAddress(fields),
+      id,
+      isDefault: current.isDefault,
+      createdAt: current.createdAt,
+      updatedAt: Date.now(),
+    };
+    await getRepositories().profiles.saveAddress(userId, address);
+    if (isDefault && !current.isDefault) return this.setDefaultAddress(userId, id);
+    return address;
+  },
+
+  /**
+   * Delete a saved address. Removing the default makes the oldest remaining
+   * address the default.
+   *
+   * @throws {Error} 404 for unknown addresses
+   */
+  async removeAddress(userId: string, id: string): Promise<void> {
+    if (!(await getRepositories().profiles.removeAddress(userId, id))) {
+      throw httpError('Address not found', 404);
+    }
+  },
+
+  /**
+   * @throws {Error} 404 for unknown addresses
+   */
+  async setDefaultAddress(userId: string, id: string): Promise<SavedAddress> {
+    const address = await findAddress(userId, id);
+    if (!(await getRepositories().profiles.setDefaultAddress(userId, id))) {
+      throw httpError('Address not found', 404);
+    }
+    return { ...address, isDefault: true };
+  },
+};
@@ -1,17 +1,71 @@
 /**
  * Authentication service layer responsible for credential workflows, JWT
- * issuance, password resets, and role administration. Wraps Firestore-backed
- * repositories, hashing utilities, and email/token subsystems to expose a
+ * issuance, password resets, and role administration. Wraps the configured
+ * data repositories, hashing utilities, and email/token subsystems to expose a
  * cohesive API for controllers.
  */
 
 import { loadEnv } from '@server/config/env';
-import { getDb } from '@server/config/firestore';
-import { fsUsersRepo } from '@server/data/firestore/users.repo.fs';
+import { getRepositories } from '@server/data';
 import bcrypt from 'bcrypt';
 import { createHash, randomBytes } from 'crypto';
 import jwt, { type SignOptions } from 'jsonwebtoken';
+import type { SessionClient } from '../../domain/session';
+import { isEmailVerified, type User } from '../../domain/user';
+import { logError } from '../../utils/logger';
+import { getEmailService } from '../email';
+import { emailVerificationService } from './emailVerification.service';
+import { loginProtectionService } from './loginProtection.service';
+import { refreshTokenService } from './refreshToken.service';
+import { rolesService } from './roles.service';
+import { sessionService } from './session.service';
 import { tokenRevocationService } from './tokenRevocation.service';
+import { twoFactorService } from './twoFactor.service';
+
+async function signAccessToken(
+  user: Pick<User, 'id' | 'email' | 'role'>,
+  sessionId: string
+): Promise<string> {
+  const env = loadEnv();
+  // Include explicit id/email for downstream middleware while preserving standard sub claim.
+  // `sid` ties the token to its session so the session can be revoked on its own.
+  // `permissions` only shapes the client UI; the API resolves them from the role on every request.
+  const payload = {
+    sub: user.id,
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    permissions: await rolesService.permissionsOf(user.role),
+    sid: sessionId,
+  };
+  const signOptions: SignOptions = {
+    expiresIn: env.JWT_EXPIRES_IN as SignOptions['expiresIn'],
+  };
+  return jwt.sign(payload, env.JWT_SECRET, signOptions);
+}
+
+/** What a user may see of their own account */
+async function toAccount(user: User) {
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    permissions: await rolesService.permissionsOf(user.role),
+    emailVerified: isEmailVerified(user),
+  };
+}
+
+/** Start a session for a user who has proven who they are, with its first tokens */
+async function signIn(user: User, client: SessionClient) {
+  await loginProtectionService.recordSuccess(user.email);
+  const session = await sessionService.start(user.id, client);
+  const refreshToken = await refreshTokenService.issue(user.id, session.id);
+  return {
+    token: await signAccessToken(user, session.id),
+    refreshToken,
+    user: await toAccount(user),
+  };
+}
 
 /**
  * Authentication Service
@@ -22,15 +76,19 @@ import { tokenRevocationService } from './tokenRevocation.service';
  *
  * **Features:**
  * - User registration with automatic admin assignment for first user
+ * - Email address verification by emailed link
  * - Secure password hashing with bcrypt
  * - JWT token generation with configurable expiration
+ * - Rotating refresh tokens that renew access tokens without a new login
+ * - Optional TOTP second login step (see twoFactorService)
+ * - Progressive delays and lockouts after failed logins (see loginProtectionService)
  * - Password reset flow with secure token generation
- * - User role management (admin/user)
- * - Account cleanup and user deletion
+ * - Account listing and deletion for staff (roles are assigned through rolesService)
  *
  * **Security:**
  * - Passwords are hashed with bcrypt (10 rounds)
- * - JWT tokens expire after 15 minutes
+ * - JWT tokens expire after 15 minutes; refresh tokens work once and expire
+ *   after REFRESH_TOKEN_TTL_DAYS without use
  * - Password reset tokens expire after 1 hour
  * - Constant-time comparisons for credentials
  * - Secure random token generation for password resets
@@ -43,6 +101,8 @@ export const authService = {
    *
    * The first registered user automatically becomes an admin.
    * Subsequent users are assigned the 'user' role by default.
+   * A link to verify the address is emailed; registration succeeds even if
+   * queuing that email fails (the user can ask for it again).
    *
    * @param {Object} credentials - User registration data
    * @param {string} credentials.email - User's email address
@@ -62,18 +122,31 @@ export const authService = {
   async register({ email, password }: { email: string; password: string }) {
     const passwordHash = await bcrypt.hash(password, 10);
     // Attempt to create as initial admin if none exists yet; falls back to normal user.
-    const user = await fsUsersRepo.createInitialUser({ email, passwordHash });
+    const user = await getRepositories().users.createInitialUser({ email, passwordHash });
+    await emailVerificationService
+      .send(user)
+      .catch((error) => logError('Failed to queue verification email', error, { userId: user.id }));
     return { id: user.id, email: user.email };
   },
 
   /**
-   * Authenticates a user with email and password, returning a JWT token.
+   * Authenticates a user with email and password, starting a session for the
+   * device and returning a JWT token and a refresh token to renew it with.
+   *
+   * When the user has two-factor authentication on, no session is started yet:
+   * the result only carries a challenge token to finish the login with
+   * `completeTwoFactorLogin`.
+   *
+   * Failures count towards locking the account and the client's IP address,
+   * and are refused outright while either is locked.
    *
    * @param {Object} credentials - Login credentials
    * @param {string} credentials.email - User's email address
    * @param {string} credentials.password - User's plain text password
-   * @returns {Promise<{token: string, user: {id: string, role: string}}>} JWT token and user data
+   * @param {SessionClient} [client] - User agent and IP the session is recorded with
+   * @returns {Promise<{token: string, refreshToken: string, user: {id: string, role: string, permissions: string[], emailVerified: boolean}} | {twoFactorRequired: true, challengeToken: string}>} Tokens and user data, or the 2FA challenge
    * @throws {Error} With status 401 when credentials are invalid
+   * @throws {Error} With status 429 (and `retryAfter` seconds) while the account or IP is locked out
    *
    * @example
    * ```typescript
@@ -82,85 +155,149 @@ export const authService = {
    *     email: 'user@example.com',
    *     password: 'userPassword'
    *   });
-   *   console.log(`Token: ${result.token}`);
-   *   console.log(`User role: ${result.user.role}`);
+   *   if ('twoFactorRequired' in result) {
+   *     // ask for a code, then call completeTwoFactorLogin(result.challengeToken, code)
+   *   } else {
+   *     console.log(`User role: ${result.user.role}`);
+   *   }
    * } catch (error) {
    *   console.error('Login failed:', error.message);
    * }
    * ```
    */
-  async login({ email, password }: { email: string; password: string }) {
-    const user = await fsUsersRepo.findByEmail(email);
-    if (!user) throw Object.assign(new Error('Invalid credentials'), { status: 401 });
-    const ok = await bcrypt.compare(password, user.passwordHash);
-    if (!ok) throw Object.assign(new Error('Invalid credentials'), { status: 401 });
-    const env = loadEnv();
-    // Include explicit id/email for downstream middleware while preserving standard sub claim.
-    const payload = { sub: user.id, id: user.id, email: user.email, role: user.role };
-    const signOptions: SignOptions = {
-      expiresIn: env.JWT_EXPIRES_IN as SignOptions['expiresIn'],
+  async login(
+    { email, password }: { email: string; password: string },
+    client: SessionClient = {}
+  ) {
+    await loginProtectionService.assertAllowed(email, client);
+    const user = await getRepositories().users.findByEmail(email);
+    const ok = user ? await bcrypt.compare(password, user.passwordHash) : false;
+    if (!user || !ok) {
+      await loginProtectionService.recordFailure(email, client, 'invalid_credentials');
+      throw Object.assign(new Error('Invalid credentials'), { status: 401 });
+    }
+    if (await twoFactorService.isEnabled(user.id)) {
+      return {
+        twoFactorRequired: true as const,
+        challengeToken: twoFactorService.createChallenge(user.id),
+      };
+    }
+    return signIn(user, client);
+  },
+
+  /**
+   * Second login step for users with two-factor authentication: checks a code
+   * from their authenticator app (or a recovery code) and starts the session.
+   *
+   * @param {string} challengeToken - Token returned by `login` for the checked password
+   * @param {string} code - Current TOTP code or an unused recovery code
+   * @param {SessionClient} [client] - User agent and IP the session is recorded with
+   * @returns {Promise<{token: string, refreshToken: string, user: {id: string, role: string, permissions: string[], emailVerified: boolean}}>} Tokens and user data
+   * @throws {Error} With status 401 when the challenge has expired or the code is wrong
+   * @throws {Error} With status 429 while the account or IP is locked out
+   */
+  async completeTwoFactorLogin(challengeToken: string, code: string, client: SessionClient = {}) {
+    const userId = twoFactorService.readChallenge(challengeToken);
+    const user = await getRepositories().users.findById(userId);
+    if (!user) throw Object.assign(new Error('Invalid two-factor code'), { status: 401 });
+    await loginProtectionService.assertAllowed(user.email, client);
+    if (!(await twoFactorService.verify(userId, code))) {
+      await loginProtectionService.recordFailure(user.email, client, 'invalid_two_factor_code');
+      throw Object.assign(new Error('Invalid two-factor code'), { status: 401 });
+    }
+    return signIn(user, client);
+  },
+
+  /**
+   * Exchanges a refresh token for a new access token and a new refresh token.
+   * The access token carries the user's current role, so a new role takes
+   * effect on the next refresh.
+   *
+   * @param {string} refreshToken - Refresh token from login or the previous refresh
+   * @param {SessionClient} [client] - Where the refresh comes from, recorded as session activity
+   * @returns {Promise<{token: string, refreshToken: string, user: {id: string, role: string}}>} Tokens and user data
+   * @throws {Error} With status 401 when the refresh token is invalid, reused or revoked
+   */
+  async refresh(refreshToken: string, client: SessionClient = {}) {
+    const rotated = await refreshTokenService.rotate(refreshToken);
+    const { users, sessions } = getRepositories();
+    const user = await users.findById(rotated.userId);
+    if (!user) {
+      await sessions.revoke(rotated.sessionId, 'user_deleted');
+      throw Object.assign(new Error('Invalid or expired refresh token'), { status: 401 });
+    }
+    await sessions.touch(rotated.sessionId, { lastSeenAt: Date.now(), ip: client.ip });
+    return {
+      token: await signAccessToken(user, rotated.sessionId),
+      refreshToken: rotated.refreshToken,
+      user: await toAccount(user),
     };
-    const token = jwt.sign(payload, env.JWT_SECRET, signOptions);
-    return { token, user: { id: user.id, email: user.email, role: user.role } };
   },
 
   /**
-   * Retrieves a list of all registered users (admin only).
+   * The signed-in user's own account details.
+   *
+   * @param {string} id - User ID from the access token
+   * @returns {Promise<{id: string, email: string, role: string, permissions: string[], emailVerified: boolean}>} Account data
+   * @throws {Error} With status 404 when the user no longer exists
+   */
+  async getAccount(id: string) {
+    const user = await getRepositories().users.findById(id);
+    if (!user) throw Object.assign(new Error('User not found'), { status: 404 });
+    return toAccount(user);
+  },
+
+  /**
+   * Retrieves a list of all registered users (staff with `users:manage`).
    *
    * @returns {Promise<Array>} Array of user objects with id, email, role
    * @throws {Error} When database access fails
    */
   async listUsers() {
-    return fsUsersRepo.list();
+    return getRepositories().users.list();
   },
 
   /**
-   * Removes a user account by ID (admin only).
+   * Removes a user account by ID (staff with `users:manage`).
    *
    * @param {string} id - User ID to remove
    * @returns {Promise<void>}
    * @throws {Error} When user not found or database error occurs
    */
   async removeUser(id: string) {
-    await fsUsersRepo.remove(id);
+    await getRepositories().users.remove(id);
+    await sessionService.revokeAll(id, 'user_deleted');
+    await getRepositories().twoFactor.remove(id);
+    await getRepositories().profiles.removeAll(id);
   },
 
   /**
-   * Updates a user's role (admin only).
-   *
-   * @param {string} id - User ID to update
-   * @param {'user'|'admin'} role - New role to assign
-   * @returns {Promise<Object>} Updated user object
-   * @throws {Error} When user not found or invalid role provided
-   */
-  async setRole(id: string, role: 'user' | 'admin') {
-    return fsUsersRepo.setRole(id, role);
-  },
-  /**
-   * Initiate a password reset by creating a one-time token (valid 1h) stored hashed in Firestore.
-   * Returns the raw token so the caller can deliver it through any approved channel.
+   * Initiate a password reset by creating a one-time token (valid 1h) that is stored hashed,
+   * and email the user a link to choose a new password with it.
+   * Also returns the raw token, which only tests may expose.
    */
   async requestPasswordReset(email: string): Promise<void | { token: string }> {
-    const user = await fsUsersRepo.findByEmail(email);
+    const user = await getRepositories().users.findByEmail(email);
     if (!user) return; // Do not leak existence
     const env = loadEnv();
-    const db = getDb();
-    const rlRef = db.collection('password_reset_rl').doc(user.id);
-    const rlSnap = await rlRef.get();
+    const resets = getRepositories().passwordResets;
     const now = Date.now();
     const rateLimitMs = env.PASSWORD_RESET_RATE_LIMIT_MINUTES * 60_000;
-    if (rlSnap.exists) {
-      const { nextAllowedAt } = rlSnap.data() as { nextAllowedAt: number };
-      if (now < nextAllowedAt) return; // silently ignore - rate limited
-    }
+    const nextAllowedAt = await resets.getNextAllowedAt(user.id);
+    if (nextAllowedAt != null && now < nextAllowedAt) return; // silently ignore - rate limited
     const raw = randomBytes(32).toString('hex');
     const hash = createHash('sha256').update(raw).digest('hex');
-    const ref = db.collection('password_resets').doc(hash);
     const tokenTtlMs = env.PASSWORD_RESET_TTL_MINUTES * 60_000;
     await Promise.all([
-      ref.set({ userId: user.id, createdAt: now, expiresAt: now + tokenTtlMs }),
-      rlRef.set({ nextAllowedAt: now + rateLimitMs }),
+      resets.create(hash, { userId: user.id, createdAt: now, expiresAt: now + tokenTtlMs }),
+      resets.setNextAllowedAt(user.id, now + rateLimitMs),
     ]);
+    const resetUrl = new URL('/reset-password', env.APP_URL);
+    resetUrl.searchParams.set('token', raw);
+    await getEmailService().queue('password_reset', user.email, {
+      resetUrl: resetUrl.toString(),
+      expiresInMinutes: env.PASSWORD_RESET_TTL_MINUTES,
+    });
     return { token: raw };
   },
   /**
@@ -171,22 +308,20 @@ export const authService = {
    */
   async resetPassword(token: string, newPassword: string): Promise<string> {
     const hash = createHash('sha256').update(token).digest('hex');
-    const db = getDb();
-    const ref = db.collection('password_resets').doc(hash);
-    const snap = await ref.get();
-    if (!snap.exists)
-      throw Object.assign(new Error('Invalid or expired reset token'), { status: 400 });
-    const data = snap.data() as { userId: string; expiresAt: number };
+    const resets = getRepositories().passwordResets;
+    const data = await resets.get(hash);
+    if (!data) throw Object.assign(new Error('Invalid or expired reset token'), { status: 400 });
     if (Date.now() > data.expiresAt) {
-      await ref.delete().catch(() => {});
+      await resets.remove(hash).catch(() => {});
       throw Object.assign(new Error('Invalid or expired reset token'), { status: 400 });
     }
     const passwordHash = await bcrypt.hash(newPassword, 10);
-    await fsUsersRepo.updatePassword(data.userId, passwordHash);
-    await ref.delete().catch(() => {});
+    await getRepositories().users.updatePassword(data.userId, passwordHash);
+    await resets.remove(hash).catch(() => {});
 
     // Revoke all existing tokens for security
     await tokenRevocationService.revokeAllTokens(data.userId, 'password_change');
+    await sessionService.revokeAll(data.userId, 'password_change');
 
     return data.userId;
   },
@@ -0,0 +1,90 @@
+/**
+ * Email verification service confirming that users own the address they
+ * registered with.
+ *
+ * Provides the ability to:
+ * - Email a one-time verification link (valid EMAIL_VERIFICATION_TTL_HOURS)
+ * - Confirm an address from the token in that link
+ * - Resend the link to a user who has not confirmed yet
+ *
+ * Only SHA-256 hashes of the tokens are persisted through the configured
+ * EmailVerificationsRepo; the links go out through the email outbox.
+ */
+
+import { loadEnv } from '@server/config/env';
+import { getRepositories } from '@server/data';
+import { isEmailVerified, type User } from '@server/domain/user';
+import { getEmailService } from '@server/services/email';
+import { logInfo } from '@server/utils/logger';
+import { createHash, randomBytes } from 'crypto';
+
+function hashToken(raw: string): string {
+  return createHash('sha256').update(raw).digest('hex');
+}
+
+function invalidLink(): Error {
+  return Object.assign(new Error('Invalid or expired verification link'), { status: 400 });
+}
+
+export const emailVerificationService = {
+  /**
+   * Create a verification token for the user's current address and email
+   * the link to it.
+   *
+   * @returns The raw token (only exposed to callers for tests)
+   */
+  async send(user: Pick<User, 'id' | 'email'>): Promise<string> {
+    const env = loadEnv();
+    const raw = randomBytes(32).toString('hex');
+    const now = Date.now();
+    await getRepositories().emailVerifications.create(hashToken(raw), {
+      userId: user.id,
+      email: user.email,
+      createdAt: now,
+      expiresAt: now + env.EMAIL_VERIFICATION_TTL_HOURS * 60 * 60_000,
+    });
+    const verifyUrl = new URL('/verify-email', env.APP_URL);
+    verifyUrl.searchParams.set('token', raw);
+    await getEmailService().queue('verify_email', user.email, {
+      verifyUrl: verifyUrl.toString(),
+      expiresInHours: env.EMAIL_VERIFICATION_TTL_HOURS,
+    });
+    return raw;
+  },
+
+  /**
+   * Mark the address a verification token was issued for as confirmed.
+   *
+   * @returns The ID of the verified user
+   * @throws {Error} 400 when the token is unknown or expired, or the user's address has changed since
+   */
+  async verify(token: string): Promise<string> {
+    const { emailVerifications, users } = getRepositories();
+    const hash = hashToken(token);
+    const record = await emailVerifications.get(hash);
+    if (!record) throw invalidLink();
+    await emailVerifications.remove(hash).catch(() => {});
+    if (Date.now() > record.expiresAt) throw invalidLink();
+    const user = await users.findById(record.userId);
+    if (!user || user.email !== record.email) throw invalidLink();
+    if (user.emailVerified !== true) {
+      await users.markEmailVerified(user.id);
+      logInfo('Email address verified', { userId: user.id });
+    }
+    return user.id;
+  },
+
+  /**
+   * Send a new verification link to a user who has not confirmed their address.
+   *
+   * @throws {Error} 404 for unknown users, 409 when the address is already verified
+   */
+  async resend(userId: string): Promise<string> {
+    const user = await getRepositories().users.findById(userId);
+    if (!user) throw Object.assign(new Error('User not found'), { status: 404 });
+    if (isEmailVerified(user)) {
+      throw Object.assign(new Error('Email is already verified'), { status: 409 });
+    }
+    return this.send(user);
+  },
+};
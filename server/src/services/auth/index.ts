@@ -1,2 +1,8 @@
 export { authService } from './auth.service';
+export { emailVerificationService } from './emailVerification.service';
+export { loginProtectionService } from './loginProtection.service';
+export { refreshTokenService } from './refreshToken.service';
+export { rolesService } from './roles.service';
+export { type SessionView, sessionService } from './session.service';
 export { tokenRevocationService } from './tokenRevocation.service';
+export { type TwoFactorStatus, twoFactorService } from './twoFactor.service';
@@ -0,0 +1,91 @@
+import { createMemoryRepositories, getRepositories, setRepositories } from '@server/data';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loginProtectionService } from './loginProtection.service';
+
+const client = { ip: '203.0.113.7', userAgent: 'test' };
+
+function fail(email: string, from = client) {
+  return loginProtectionService.recordFailure(email, from, 'invalid_credentials');
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+  vi.stubEnv('LOGIN_MAX_FAILURES', '5');
+  vi.stubEnv('LOGIN_LOCKOUT_MINUTES', '15');
+  vi.stubEnv('LOGIN_IP_MAX_ACCOUNTS', '3');
+  setRepositories(createMemoryRepositories());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('loginProtectionService', () => {
+  it('counts every one of concurrent failures and locks the account at the limit', async () => {
+    await Promise.all(Array.from({ length: 4 }, () => fail('Ada@Example.com')));
+
+    expect((await getRepositories().loginAttempts.getAccount('ada@example.com'))?.failures).toBe(4);
+
+    await fail('ada@example.com');
+
+    const account = await getRepositories().loginAttempts.getAccount('ada@example.com');
+    expect(account).toMatchObject({ failures: 0, lockouts: 1 });
+    expect(account?.lockedUntil).toBe(Date.now() + 15 * 60 * 1000);
+    await expect(
+      loginProtectionService.assertAllowed('ada@example.com', client)
+    ).rejects.toMatchObject({ status: 429, retryAfter: 15 * 60 });
+  });
+
+  it('delays attempts progressively after repeated failures', async () => {
+    await fail('ada@example.com');
+    await expect(loginProtectionService.assertAllowed('ada@example.com')).resolves.toBeUndefined();
+
+    await fail('ada@example.com');
+    await expect(loginProtectionService.assertAllowed('ada@example.com')).rejects.toMatchObject({
+      status: 429,
+      retryAfter: 1,
+    });
+
+    vi.advanceTimersByTime(1000);
+    await expect(loginProtectionService.assertAllowed('ada@example.com')).resolves.toBeUndefined();
+  });
+
+  it('doubles a lockout that follows another', async () => {
+    for (let i = 0; i < 5; i++) await fail('ada@example.com');
+    vi.advanceTimersByTime(15 * 60 * 1000);
+    for (let i = 0; i < 5; i++) await fail('ada@example.com');
+
+    const account = await getRepositories().loginAttempts.getAccount('ada@example.com');
+    expect(account?.lockouts).toBe(2);
+    expect(account?.lockedUntil).toBe(Date.now() + 30 * 60 * 1000);
+  });
+
+  it('blocks an IP address once failures from it span too many accounts', async () => {
+    await Promise.all(['a@example.com', 'b@example.com', 'c@example.com'].map((e) => fail(e)));
+
+    const ip = await getRepositories().loginAttempts.getIp(client.ip);
+    expect(ip?.accounts).toHaveLength(3);
+    await expect(
+      loginProtectionService.assertAllowed('d@example.com', client)
+    ).rejects.toMatchObject({ status: 429 });
+    await expect(
+      loginProtectionService.assertAllowed('d@example.com', { ip: '198.51.100.1' })
+    ).resolves.toBeUndefined();
+  });
+
+  it('forgets failures on unlock', async () => {
+    for (let i = 0; i < 5; i++) await fail('ada@example.com');
+    expect([...(await loginProtectionService.lockedAccounts()).keys()]).toEqual([
+      'ada@example.com',
+    ]);
+
+    await loginProtectionService.unlock('ada@example.com', 'admin-1');
+
+    await expect(
+      loginProtectionService.assertAllowed('ada@example.com', client)
+    ).resolves.toBeUndefined();
+    expect((await loginProtectionService.lockedAccounts()).size).toBe(0);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Login protection service slowing down password guessing against one
+ * account and credential stuffing across many.
+ *
+ * Provides the ability to:
+ * - Delay each further attempt on an account after repeated failures, and lock
+ *   it for LOGIN_LOCKOUT_MINUTES once LOGIN_MAX_FAILURES is reached (lockouts
+ *   in a row double in length)
+ * - Block an IP address from logging in once LOGIN_IP_MAX_ACCOUNTS different
+ *   accounts have failed from it
+ * - Unlock an account early (admins)
+ *
+ * Unknown email addresses are tracked like real accounts, so lockouts reveal
+ * nothing about which addresses are registered. Every failure is reported
+ * through the security logger. Persists through the configured LoginAttemptsRepo.
+ */
+
+import { loadEnv } from '@server/config/env';
+import { getRepositories } from '@server/data';
+import type { AccountLoginAttempts, IpLoginAttempts } from '@server/data/ports/loginAttempts.repo';
+import type { SessionClient } from '@server/domain/session';
+import { logInfo, logWarn } from '@server/utils/logger';
+import {
+  type AuthFailureEvent,
+  logAuthFailure,
+  logSuspiciousActivity,
+} from '@server/utils/securityLogger';
+import { createHash } from 'crypto';
+
+const FAILURE_WINDOW_MS = 15 * 60 * 1000; // failures further apart than this start over
+const MAX_DELAY_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+function policy() {
+  const env = loadEnv();
+  return {
+    maxFailures: env.LOGIN_MAX_FAILURES,
+    lockoutMs: env.LOGIN_LOCKOUT_MINUTES * 60 * 1000,
+    ipMaxAccounts: env.LOGIN_IP_MAX_ACCOUNTS,
+  };
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/** Wait before the next attempt after `failures` failures: none, then 1s, 2s, 4s… */
+function delayMs(failures: number): number {
+  return failures < 2 ? 0 : Math.min(1000 * 2 ** (failures - 2), MAX_DELAY_MS);
+}
+
+function tooManyAttempts(until: number, now: number): Error {
+  const retryAfter = Math.max(1, Math.ceil((until - now) / 1000));
+  const wait = retryAfter < 90 ? `${retryAfter} seconds` : `${Math.ceil(retryAfter / 60)} minutes`;
+  return Object.assign(new Error(`Too many failed login attempts. Try again in ${wait}.`), {
+    status: 429,
+    retryAfter,
+  });
+}
+
+export const loginProtectionService = {
+  /**
+   * Refuse a login attempt while its account or IP address is locked out, or
+   * before the account's progressive delay has passed.
+   *
+   * @throws {Error} 429 with `retryAfter` (seconds) when the attempt is refused
+   */
+  async assertAllowed(email: string, client: SessionClient = {}): Promise<void> {
+    const repo = getRepositories().loginAttempts;
+    const now = Date.now();
+    const key = normalizeEmail(email);
+    const [account, ip] = await Promise.all([
+      repo.getAccount(key),
+      client.ip ? repo.getIp(client.ip) : null,
+    ]);
+    const failure = { email: key, ip: client.ip, userAgent: client.userAgent };
+    if (ip?.blockedUntil != null && ip.blockedUntil > now) {
+      logAuthFailure({ ...failure, reason: 'ip_blocked' });
+      throw tooManyAttempts(ip.blockedUntil, now);
+    }
+    if (account?.lockedUntil != null && account.lockedUntil > now) {
+      logAuthFailure({ ...failure, reason: 'account_locked' });
+      throw tooManyAttempts(account.lockedUntil, now);
+    }
+    if (account && account.nextAttemptAt > now) throw tooManyAttempts(account.nextAttemptAt, now);
+  },
+
+  /**
+   * Count a failed attempt against the account and the IP address it came
+   * from, locking either when it crosses its limit. Concurrent failures all
+   * count, as the records are read and written together.
+   */
+  async recordFailure(
+    email: string,
+    client: SessionClient,
+    reason: Extract<AuthFailureEvent['reason'], 'invalid_credentials' | 'invalid_two_factor_code'>
+  ): Promise<void> {
+    const repo = getRepositories().loginAttempts;
+    const { maxFailures, lockoutMs, ipMaxAccounts } = policy();
+    const now = Date.now();
+    const key = normalizeEmail(email);
+    const hash = createHash('sha256').update(key).digest('hex');
+    logAuthFailure({ email: key, reason, ip: client.ip, userAgent: client.userAgent });
+
+    // Set by the last run of the update, which is the one that was stored
+    let locked = false;
+    let blocked = false;
+    const { account, ip } = await repo.recordFailure(key, client.ip, (previous, previousIp) => {
+      locked = false;
+      blocked = false;
+      // A lockout that ran out long ago no longer counts towards doubling the next one
+      const lockouts =
+        previous && now - previous.updatedAt < MAX_LOCKOUT_MS ? previous.lockouts : 0;
+      const recent = previous && now - previous.lastFailureAt < FAILURE_WINDOW_MS;
+      const account: AccountLoginAttempts = {
+        email: key,
+        failures: (recent ? previous.failures : 0) + 1,
+        lastFailureAt: now,
+        nextAttemptAt: now,
+        lockedUntil: previous?.lockedUntil ?? null,
+        lockouts,
+        updatedAt: now,
+      };
+      if (account.failures >= maxFailures) {
+        const duration = Math.min(lockoutMs * 2 ** lockouts, MAX_LOCKOUT_MS);
+        account.failures = 0;
+        account.lockedUntil = now + duration;
+        account.lockouts = lockouts + 1;
+        locked = true;
+      } else {
+        account.nextAttemptAt = now + delayMs(account.failures);
+      }
+      if (!client.ip) return { account };
+
+      const fresh = !previousIp || now - previousIp.windowStart >= FAILURE_WINDOW_MS;
+      const accounts = fresh ? [] : previousIp.accounts;
+      if (!accounts.includes(hash)) accounts.push(hash);
+      let blockedUntil = previousIp?.blockedUntil ?? null;
+      if (accounts.length >= ipMaxAccounts && (blockedUntil == null || blockedUntil <= now)) {
+        blockedUntil = now + lockoutMs;
+        blocked = true;
+      }
+      const ip: IpLoginAttempts = {
+        ip: client.ip,
+        accounts,
+        windowStart: fresh ? now : previousIp.windowStart,
+        blockedUntil,
+        updatedAt: now,
+      };
+      return { account, ip };
+    });
+
+    if (locked) {
+      logWarn('Locked account after repeated failed logins', {
+        category: 'security',
+        email: key,
+        lockedUntil: account.lockedUntil,
+        lockouts: account.lockouts,
+        ip: client.ip,
+      });
+    }
+    if (blocked && ip) {
+      logSuspiciousActivity({
+        type: 'credential_stuffing',
+        ip: ip.ip,
+        details: { accounts: ip.accounts.length, blockedUntil: ip.blockedUntil },
+      });
+    }
+  },
+
+  /** Forget an account's failures after a successful login */
+  async recordSuccess(email: string): Promise<void> {
+    await getRepositories().loginAttempts.removeAccount(normalizeEmail(email));
+  },
+
+  /**
+   * Lift an account's lockout and forget its failures.
+   */
+  async unlock(email: string, performedBy?: string): Promise<void> {
+    const key = normalizeEmail(email);
+    await getRepositories().loginAttempts.removeAccount(key);
+    logInfo('Unlocked account', { category: 'security', email: key, performedBy });
+  },
+
+  /** Email => end of lockout, for every account locked right now */
+  async lockedAccounts(): Promise<Map<string, number>> {
+    const now = Date.now();
+    const locked = await getRepositories().loginAttempts.listLocked(now);
+    return new Map(locked.map((record) => [record.email, record.lockedUntil as number]));
+  },
+};
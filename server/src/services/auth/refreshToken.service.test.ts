@@ -0,0 +1,69 @@
+import { createMemoryRepositories, getRepositories, setRepositories } from '@server/data';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { refreshTokenService } from './refreshToken.service';
+
+async function startSession() {
+  const now = Date.now();
+  await getRepositories().sessions.create({
+    id: 'session-1',
+    userId: 'user-1',
+    device: 'Firefox on Linux',
+    createdAt: now,
+    lastSeenAt: now,
+    revokedAt: null,
+  });
+  return refreshTokenService.issue('user-1', 'session-1');
+}
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('refreshTokenService.rotate', () => {
+  it('gives two tabs refreshing with the same token the same successor', async () => {
+    const token = await startSession();
+
+    const [first, second] = await Promise.all([
+      refreshTokenService.rotate(token),
+      refreshTokenService.rotate(token),
+    ]);
+
+    expect(second.refreshToken).toBe(first.refreshToken);
+    expect((await getRepositories().sessions.get('session-1'))?.revokedAt).toBeNull();
+    await expect(refreshTokenService.rotate(first.refreshToken)).resolves.toMatchObject({
+      sessionId: 'session-1',
+    });
+  });
+
+  it('answers a retry within the grace period with the successor', async () => {
+    vi.useFakeTimers();
+    const token = await startSession();
+    const first = await refreshTokenService.rotate(token);
+
+    vi.advanceTimersByTime(5_000);
+
+    await expect(refreshTokenService.rotate(token)).resolves.toMatchObject({
+      refreshToken: first.refreshToken,
+    });
+  });
+
+  it('revokes the session when a swapped token comes back later', async () => {
+    vi.useFakeTimers();
+    const token = await startSession();
+    const first = await refreshTokenService.rotate(token);
+
+    vi.advanceTimersByTime(60_000);
+
+    await expect(refreshTokenService.rotate(token)).rejects.toMatchObject({ status: 401 });
+    expect((await getRepositories().sessions.get('session-1'))?.revokedReason).toBe(
+      'reuse_detected'
+    );
+    await expect(refreshTokenService.rotate(first.refreshToken)).rejects.toMatchObject({
+      status: 401,
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Refresh token service for keeping users signed in past the access token's
+ * short lifetime.
+ *
+ * Provides the ability to:
+ * - Issue the first refresh token of a session when a user logs in
+ * - Rotate a refresh token: each one works once and is swapped for a new one
+ * - Detect reuse of a swapped token and revoke its whole session
+ * - Answer a swapped token with its successor for a few seconds, so tabs that
+ *   refresh at the same time, or a retry after a lost response, stay signed in
+ *
+ * Only SHA-256 hashes of the tokens are persisted through the configured
+ * RefreshTokensRepo; revoking a session (see sessionService) ends its tokens.
+ */
+
+import { loadEnv } from '@server/config/env';
+import { getRepositories } from '@server/data';
+import type { RefreshTokenRecord } from '@server/data/ports/refreshTokens.repo';
+import { logSuspiciousActivity } from '@server/utils/securityLogger';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/** How long a swapped token still gets its successor back instead of counting as reuse */
+const REUSE_GRACE_MS = 10_000;
+
+function hashToken(raw: string): string {
+  return createHash('sha256').update(raw).digest('hex');
+}
+
+function newToken(): { raw: string; hash: string } {
+  const raw = randomBytes(32).toString('base64url');
+  return { raw, hash: hashToken(raw) };
+}
+
+function invalidToken(): Error {
+  return Object.assign(new Error('Invalid or expired refresh token'), { status: 401 });
+}
+
+function ttlMs(): number {
+  return loadEnv().REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/** Differs from the stored hash, so only someone holding `raw` can derive it */
+function successorKey(raw: string): Buffer {
+  return createHash('sha256').update(`successor:${raw}`).digest();
+}
+
+/** Encrypt the token `raw` was swapped for, to be kept on `raw`'s record */
+function sealSuccessor(raw: string, successor: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', successorKey(raw), iv);
+  const data = Buffer.concat([cipher.update(successor, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map((part) => part.toString('base64url')).join('.');
+}
+
+function openSuccessor(raw: string, sealed: string): string | null {
+  try {
+    const [iv, tag, data] = sealed.split('.').map((part) => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', successorKey(raw), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Answer a token that was already swapped. Within the grace period that is
+ * the successor it was swapped for; after it, a copy of the token is in
+ * someone else's hands and the session is revoked.
+ */
+async function resendSuccessor(
+  raw: string,
+  record: RefreshTokenRecord
+): Promise<{ userId: string; sessionId: string; refreshToken: string }> {
+  const { sessions } = getRepositories();
+  const withinGrace = record.usedAt != null && Date.now() - record.usedAt <= REUSE_GRACE_MS;
+  const successor = withinGrace && record.successor ? openSuccessor(raw, record.successor) : null;
+  if (!successor) {
+    await sessions.revoke(record.sessionId, 'reuse_detected');
+    logSuspiciousActivity({
+      type: 'invalid_token',
+      userId: record.userId,
+      details: { reason: 'refresh_token_reuse', sessionId: record.sessionId },
+    });
+    throw invalidToken();
+  }
+  const session = await sessions.get(record.sessionId);
+  if (!session || session.revokedAt != null) throw invalidToken();
+  return { userId: record.userId, sessionId: record.sessionId, refreshToken: successor };
+}
+
+export const refreshTokenService = {
+  /**
+   * First refresh token of a session that was just started.
+   *
+   * @returns The raw refresh token to hand to the client
+   */
+  async issue(userId: string, sessionId: string): Promise<string> {
+    const now = Date.now();
+    const { raw, hash } = newToken();
+    await getRepositories().refreshTokens.create(hash, {
+      userId,
+      sessionId,
+      createdAt: now,
+      expiresAt: now + ttlMs(),
+    });
+    return raw;
+  },
+
+  /**
+   * Swap a refresh token for a new one in the same session. The new token
+   * gets a full lifetime, so a session lasts as long as it keeps being used.
+   *
+   * Presenting a token that was already swapped means a copy of it is in
+   * someone else's hands: the session is revoked, which also locks out
+   * whoever holds its newest token. Within REUSE_GRACE_MS of the swap it is
+   * more likely another tab or a retry, and gets the same successor back.
+   *
+   * @returns The user and session the token belongs to and the raw replacement token
+   * @throws {Error} 401 when the token is unknown, expired, reused or its session revoked
+   */
+  async rotate(raw: string): Promise<{ userId: string; sessionId: string; refreshToken: string }> {
+    const { refreshTokens, sessions } = getRepositories();
+    const hash = hashToken(raw);
+    const record = await refreshTokens.get(hash);
+    if (!record) throw invalidToken();
+    if (record.usedAt != null) return resendSuccessor(raw, record);
+    const now = Date.now();
+    if (record.expiresAt <= now) throw invalidToken();
+    const session = await sessions.get(record.sessionId);
+    if (!session || session.revokedAt != null) throw invalidToken();
+
+    const next = newToken();
+    const rotated = await refreshTokens.rotate(
+      hash,
+      next.hash,
+      {
+        userId: record.userId,
+        sessionId: record.sessionId,
+        createdAt: now,
+        expiresAt: now + ttlMs(),
+      },
+      sealSuccessor(raw, next.raw)
+    );
+    if (!rotated) {
+      // A concurrent refresh of the same token got there first; answer as it was answered
+      const swapped = await refreshTokens.get(hash);
+      if (!swapped) throw invalidToken();
+      return resendSuccessor(raw, swapped);
+    }
+    return { userId: record.userId, sessionId: record.sessionId, refreshToken: next.raw };
+  },
+};
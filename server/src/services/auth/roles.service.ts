@@ -0,0 +1,205 @@
+/**
+ * Roles service mapping users' roles to the permissions the API checks.
+ *
+ * Provides the ability to:
+ * - List the built-in roles together with the custom roles admins defined
+ * - Resolve a role to its permissions for every authenticated request
+ * - Create, edit and delete custom roles (built-in roles are read-only)
+ * - Assign a role to a user
+ *
+ * Nobody can hand out permissions they do not hold themselves: editing a role
+ * or assigning one requires every permission involved, including those of the
+ * user's current role, so staff cannot demote someone above them either.
+ *
+ * Custom roles persist through the configured RolesRepo. Lookups are cached for
+ * ROLE_CACHE_TTL_MS; edits clear the cache of the instance that made them and
+ * reach other server instances when their copy expires.
+ */
+
+import { getRepositories } from '@server/data';
+import {
+  BUILT_IN_ROLES,
+  getBuiltInRole,
+  type Permission,
+  type Role,
+  type RoleInput,
+} from '@server/domain/roles';
+import type { User } from '@server/domain/user';
+import { logSecurityEvent } from '@server/utils/securityLogger';
+
+const ROLE_CACHE_TTL_MS = 30 * 1000;
+const ROLE_ID_PATTERN = /^[a-z][a-z0-9_]{1,39}$/;
+
+let cache: { roles: Map<string, Role>; expiresAt: number } | null = null;
+
+async function customRoles(): Promise<Map<string, Role>> {
+  const now = Date.now();
+  if (!cache || cache.expiresAt <= now) {
+    const roles = await getRepositories().roles.list();
+    cache = {
+      roles: new Map(roles.map((role) => [role.id, role])),
+      expiresAt: now + ROLE_CACHE_TTL_MS,
+    };
+  }
+  return cache.roles;
+}
+
+/** `Order desk` => `order_desk` */
+function roleIdFromName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 40);
+}
+
+function forbidden(message: string): Error {
+  return Object.assign(new Error(message), { status: 403 });
+}
+
+/**
+ * @throws {Error} 403 when `actorPermissions` lacks any of `permissions`
+ */
+function assertHolds(actorPermissions: readonly Permission[], permissions: readonly Permission[]) {
+  const missing = permissions.filter((permission) => !actorPermissions.includes(permission));
+  if (missing.length) {
+    throw forbidden(`You cannot grant permissions you do not have: ${missing.join(', ')}`);
+  }
+}
+
+function normalizeInput(input: RoleInput): RoleInput {
+  return {
+    name: input.name.trim(),
+    description: input.description?.trim() || undefined,
+    permissions: Array.from(new Set(input.permissions)),
+  };
+}
+
+export const rolesService = {
+  /** Built-in roles first, then custom roles by name */
+  async list(): Promise<Role[]> {
+    return [...BUILT_IN_ROLES, ...(await customRoles()).values()];
+  },
+
+  async get(id: string): Promise<Role | null> {
+    return getBuiltInRole(id) ?? (await customRoles()).get(id) ?? null;
+  },
+
+  /** Permissions granted by a role; none for roles that no longer exist */
+  async permissionsOf(roleId: string): Promise<Permission[]> {
+    return (await this.get(roleId))?.permissions ?? [];
+  },
+
+  /**
+   * Define a custom role. Its ID is derived from the name.
+   *
+   * @throws {Error} 400 for names without letters, 409 when the ID is taken,
+   *   403 when granting permissions the actor lacks
+   */
+  async create(input: RoleInput, actorPermissions: readonly Permission[]): Promise<Role> {
+    const fields = normalizeInput(input);
+    assertHolds(actorPermissions, fields.permissions);
+    const id = roleIdFromName(fields.name);
+    if (!ROLE_ID_PATTERN.test(id)) {
+      throw Object.assign(new Error('Role name must start with a letter'), { status: 400 });
+    }
+    if (await this.get(id)) {
+      throw Object.assign(new Error('A role with this name already exists'), { status: 409 });
+    }
+    const now = Date.now();
+    const role: Role = { id, ...fields, builtIn: false, createdAt: now, updatedAt: now };
+    await getRepositories().roles.save(role);
+    cache = null;
+    return role;
+  },
+
+  /**
+   * Change the name, description or permissions of a custom role. The actor
+   * must hold the permissions taken away as well as those added.
+   *
+   * @throws {Error} 404 for unknown roles, 403 for built-in roles or missing permissions
+   */
+  async update(
+    id: string,
+    input: RoleInput,
+    actorPermissions: readonly Permission[]
+  ): Promise<Role> {
+    if (getBuiltInRole(id)) throw forbidden('Built-in roles cannot be changed');
+    const current = await getRepositories().roles.get(id);
+    if (!current) throw Object.assign(new Error('Role not found'), { status: 404 });
+    const fields = normalizeInput(input);
+    assertHolds(actorPermissions, [...current.permissions, ...fields.permissions]);
+    const role: Role = { ...current, ...fields, updatedAt: Date.now() };
+    await getRepositories().roles.save(role);
+    cache = null;
+    return role;
+  },
+
+  /**
+   * Delete a custom role that no user has any more.
+   *
+   * @throws {Error} 404 for unknown roles, 403 for built-in roles or missing
+   *   permissions, 409 while users still have the role
+   */
+  async remove(id: string, actorPermissions: readonly Permission[]): Promise<void> {
+    if (getBuiltInRole(id)) throw forbidden('Built-in roles cannot be deleted');
+    const current = await getRepositories().roles.get(id);
+    if (!current) throw Object.assign(new Error('Role not found'), { status: 404 });
+    assertHolds(actorPermissions, current.permissions);
+    const users = await getRepositories().users.list();
+    const holders = users.filter((user) => user.role === id).length;
+    if (holders) {
+      throw Object.assign(
+        new Error(`${holders} user(s) still have this role; assign them another role first`),
+        { status: 409 }
+      );
+    }
+    await getRepositories().roles.remove(id);
+    cache = null;
+  },
+
+  /**
+   * Check that staff may act on a user's account, i.e. hold every permission
+   * of the user's role.
+   *
+   * @throws {Error} 403 when they do not
+   */
+  async assertCanManage(
+    user: Pick<User, 'role'>,
+    actorPermissions: readonly Permission[]
+  ): Promise<void> {
+    const missing = (await this.permissionsOf(user.role)).filter(
+      (permission) => !actorPermissions.includes(permission)
+    );
+    if (missing.length) throw forbidden('This user has permissions you do not have');
+  },
+
+  /**
+   * Give a user a role. Takes effect with the user's next access token.
+   *
+   * @throws {Error} 400 for unknown roles, 404 for unknown users, 403 when the
+   *   actor lacks permissions of the user's current or new role
+   */
+  async assign(
+    userId: string,
+    roleId: string,
+    actor: { id?: string; permissions: readonly Permission[] }
+  ): Promise<User> {
+    const role = await this.get(roleId);
+    if (!role) throw Object.assign(new Error('Unknown role'), { status: 400 });
+    const users = getRepositories().users;
+    const user = await users.findById(userId);
+    if (!user) throw Object.assign(new Error('User not found'), { status: 404 });
+    await this.assertCanManage(user, actor.permissions);
+    assertHolds(actor.permissions, role.permissions);
+    const updated = await users.setRole(userId, role.id);
+    logSecurityEvent({
+      type: 'role_change',
+      userId,
+      performedBy: actor.id,
+      details: { from: user.role, to: role.id },
+    });
+    return updated;
+  },
+};
@@ -0,0 +1,153 @@
+import { requireAuth } from '@server/api/middleware/auth';
+import { loadEnv } from '@server/config/env';
+import { createMemoryRepositories, getRepositories, setRepositories } from '@server/data';
+import { SESSION_TOUCH_INTERVAL_MS } from '@server/domain/session';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { refreshTokenService } from './refreshToken.service';
+import { sessionService } from './session.service';
+
+const FIREFOX = 'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0';
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('sessionService', () => {
+  it('records the device and lists active sessions, flagging the current one', async () => {
+    const laptop = await sessionService.start('user-1', { userAgent: FIREFOX, ip: '10.0.0.1' });
+    const phone = await sessionService.start('user-1', { ip: '10.0.0.2' });
+    await sessionService.start('user-2');
+
+    const sessions = await sessionService.list('user-1', phone.id);
+
+    expect(sessions.map((s) => s.id).sort()).toEqual([laptop.id, phone.id].sort());
+    expect(sessions.find((s) => s.id === laptop.id)).toMatchObject({
+      device: 'Firefox on Linux',
+      ip: '10.0.0.1',
+      current: false,
+    });
+    expect(sessions.find((s) => s.id === phone.id)?.current).toBe(true);
+    expect(sessions[0]).not.toHaveProperty('revokedAt');
+  });
+
+  it('verifies a session only for its own user while it is live', async () => {
+    const session = await sessionService.start('user-1');
+
+    await expect(sessionService.verify(session.id, 'user-1')).resolves.toBe(true);
+    await expect(sessionService.verify(session.id, 'user-2')).resolves.toBe(false);
+    await expect(sessionService.verify('unknown', 'user-1')).resolves.toBe(false);
+
+    await sessionService.revoke('user-1', session.id, 'revoked_by_user');
+
+    await expect(sessionService.verify(session.id, 'user-1')).resolves.toBe(false);
+  });
+
+  it('records activity at most once per touch interval', async () => {
+    vi.useFakeTimers();
+    const session = await sessionService.start('user-1', { ip: '10.0.0.1' });
+    const started = session.lastSeenAt;
+
+    vi.advanceTimersByTime(SESSION_TOUCH_INTERVAL_MS - 1);
+    await sessionService.verify(session.id, 'user-1', '10.0.0.9');
+    expect(await getRepositories().sessions.get(session.id)).toMatchObject({
+      lastSeenAt: started,
+      ip: '10.0.0.1',
+    });
+
+    vi.advanceTimersByTime(1);
+    await sessionService.verify(session.id, 'user-1', '10.0.0.9');
+    expect(await getRepositories().sessions.get(session.id)).toMatchObject({
+      lastSeenAt: started + SESSION_TOUCH_INTERVAL_MS,
+      ip: '10.0.0.9',
+    });
+  });
+
+  it("refuses to revoke another user's session or one already revoked", async () => {
+    const session = await sessionService.start('user-1');
+
+    await expect(
+      sessionService.revoke('user-2', session.id, 'revoked_by_user')
+    ).rejects.toMatchObject({ status: 404 });
+    expect(await sessionService.verify(session.id, 'user-1')).toBe(true);
+
+    await sessionService.revoke('user-1', session.id, 'revoked_by_user');
+    await expect(
+      sessionService.revoke('user-1', session.id, 'revoked_by_user')
+    ).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('ends the refresh tokens of a revoked session', async () => {
+    const session = await sessionService.start('user-1');
+    const refreshToken = await refreshTokenService.issue('user-1', session.id);
+
+    await sessionService.revoke('user-1', session.id, 'revoked_by_user');
+
+    await expect(refreshTokenService.rotate(refreshToken)).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('signs out the other devices or all of them', async () => {
+    const current = await sessionService.start('user-1');
+    await sessionService.start('user-1');
+    await sessionService.start('user-1');
+    const someoneElse = await sessionService.start('user-2');
+
+    await expect(
+      sessionService.revokeOthers('user-1', current.id, 'revoked_by_user')
+    ).resolves.toBe(2);
+    expect((await sessionService.list('user-1')).map((s) => s.id)).toEqual([current.id]);
+
+    await expect(sessionService.revokeAll('user-1', 'password_changed')).resolves.toBe(1);
+    expect(await sessionService.list('user-1')).toEqual([]);
+    expect(await sessionService.verify(someoneElse.id, 'user-2')).toBe(true);
+  });
+});
+
+describe('requireAuth with a sid claim', () => {
+  const app = express();
+  app.get('/me', requireAuth, (req, res) => {
+    res.json({ data: (req as any).user });
+  });
+
+  function accessToken(userId: string, sessionId: string) {
+    return jwt.sign({ id: userId, role: 'user', sid: sessionId }, loadEnv().JWT_SECRET);
+  }
+
+  it('accepts an access token while its session is live', async () => {
+    const session = await sessionService.start('user-1');
+
+    const res = await request(app)
+      .get('/me')
+      .set('Authorization', `Bearer ${accessToken('user-1', session.id)}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ id: 'user-1', sessionId: session.id });
+  });
+
+  it('refuses an access token once its session is revoked', async () => {
+    const session = await sessionService.start('user-1');
+    const token = accessToken('user-1', session.id);
+    await sessionService.revoke('user-1', session.id, 'revoked_by_admin');
+
+    const res = await request(app).get('/me').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(401);
+    expect(res.body.error.message).toBe('Session has been revoked');
+  });
+
+  it("refuses an access token naming someone else's session", async () => {
+    const session = await sessionService.start('user-2');
+
+    const res = await request(app)
+      .get('/me')
+      .set('Authorization', `Bearer ${accessToken('user-1', session.id)}`);
+
+    expect(res.status).toBe(401);
+  });
+});
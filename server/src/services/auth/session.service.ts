@@ -0,0 +1,108 @@
+/**
+ * Session service for per-device sign-in management.
+ *
+ * Provides the ability to:
+ * - Start a session on login, recording the device, user agent and IP
+ * - Check on each request that the session behind an access token is live
+ * - List a user's active sessions and revoke one, or all of them
+ *
+ * Revoking a session ends both its access tokens (checked through the `sid`
+ * claim) and its refresh tokens. Persists records through the configured
+ * SessionsRepo.
+ */
+
+import { getRepositories } from '@server/data';
+import {
+  describeDevice,
+  SESSION_TOUCH_INTERVAL_MS,
+  type Session,
+  type SessionClient,
+} from '@server/domain/session';
+import { logError, logInfo } from '@server/utils/logger';
+import { randomUUID } from 'crypto';
+
+/** Session as shown to its owner or an admin */
+export type SessionView = Omit<Session, 'revokedAt' | 'revokedReason'> & { current: boolean };
+
+export const sessionService = {
+  async start(userId: string, client: SessionClient = {}): Promise<Session> {
+    const now = Date.now();
+    const session: Session = {
+      id: randomUUID().replace(/-/g, ''),
+      userId,
+      device: describeDevice(client.userAgent),
+      ...(client.userAgent ? { userAgent: client.userAgent.slice(0, 512) } : {}),
+      ...(client.ip ? { ip: client.ip } : {}),
+      createdAt: now,
+      lastSeenAt: now,
+      revokedAt: null,
+    };
+    await getRepositories().sessions.create(session);
+    return session;
+  },
+
+  /**
+   * Check that a session is live and belongs to the user, recording the
+   * activity when the last record is older than SESSION_TOUCH_INTERVAL_MS.
+   *
+   * @returns false when the session is unknown, someone else's or revoked
+   */
+  async verify(sessionId: string, userId: string, ip?: string): Promise<boolean> {
+    const repo = getRepositories().sessions;
+    try {
+      const session = await repo.get(sessionId);
+      if (!session || session.userId !== userId || session.revokedAt != null) return false;
+      const now = Date.now();
+      if (now - session.lastSeenAt >= SESSION_TOUCH_INTERVAL_MS) {
+        repo.touch(sessionId, { lastSeenAt: now, ip }).catch(() => undefined);
+      }
+      return true;
+    } catch (error) {
+      logError('Failed to check session', error, { sessionId });
+      // On error, fail open (don't block access) like token revocation checks
+      return true;
+    }
+  },
+
+  /** Active sessions of a user, flagging the one making the request */
+  async list(userId: string, currentSessionId?: string): Promise<SessionView[]> {
+    const sessions = await getRepositories().sessions.listActive(userId);
+    return sessions.map(({ revokedAt: _revokedAt, revokedReason: _reason, ...session }) => ({
+      ...session,
+      current: session.id === currentSessionId,
+    }));
+  },
+
+  /**
+   * Revoke one of a user's sessions.
+   *
+   * @throws {Error} 404 when the user has no such active session
+   */
+  async revoke(userId: string, sessionId: string, reason: string): Promise<void> {
+    const repo = getRepositories().sessions;
+    const session = await repo.get(sessionId);
+    if (!session || session.userId !== userId || !(await repo.revoke(sessionId, reason))) {
+      throw Object.assign(new Error('Session not found'), { status: 404 });
+    }
+    logInfo('Revoked session', { userId, sessionId, reason });
+  },
+
+  /** Revoke every session of a user except one, signing out all other devices */
+  async revokeOthers(userId: string, keepSessionId: string, reason: string): Promise<number> {
+    const repo = getRepositories().sessions;
+    const others = (await repo.listActive(userId)).filter(
+      (session) => session.id !== keepSessionId
+    );
+    for (const session of others) await repo.revoke(session.id, reason);
+    if (others.length)
+      logInfo('Revoked other sessions for user', { userId, reason, revoked: others.length });
+    return others.length;
+  },
+
+  /** Revoke every session of a user, signing them out on all devices */
+  async revokeAll(userId: string, reason: string): Promise<number> {
+    const revoked = await getRepositories().sessions.revokeAllForUser(userId, reason);
+    if (revoked) logInfo('Revoked all sessions for user', { userId, reason, revoked });
+    return revoked;
+  },
+};
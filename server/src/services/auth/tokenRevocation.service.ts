@@ -6,18 +6,14 @@
  * - Check if a token has been revoked
  * - Clean up expired revocations
  *
- * Uses Firestore for persistence.
+ * Persists records through the configured TokenRevocationsRepo.
  */
 
-import { getDb } from '@server/config/firestore';
+import { getRepositories } from '@server/data';
+import type { TokenRevocation } from '@server/data/ports/tokenRevocations.repo';
 import { logError, logInfo } from '@server/utils/logger';
 
-export interface TokenRevocation {
-  userId: string;
-  revokedAt: number; // timestamp in ms
-  expiresAt: number; // timestamp in ms - when this revocation record can be cleaned up
-  reason?: string; // e.g., "password_change", "security_breach", "manual_logout"
-}
+export type { TokenRevocation };
 
 export const tokenRevocationService = {
   /**
@@ -34,7 +30,6 @@ export const tokenRevocationService = {
     ttlHours: number = 24
   ): Promise<void> {
     try {
-      const db = getDb();
       const now = Date.now();
       const expiresAt = now + ttlHours * 60 * 60 * 1000;
 
@@ -45,7 +40,7 @@ export const tokenRevocationService = {
         reason,
       };
 
-      await db.collection('token_revocations').doc(userId).set(revocation);
+      await getRepositories().tokenRevocations.set(revocation);
 
       logInfo('Revoked all tokens for user', { userId, reason });
     } catch (error) {
@@ -66,20 +61,17 @@ export const tokenRevocationService = {
    */
   async isTokenRevoked(userId: string, tokenIssuedAt: number): Promise<boolean> {
     try {
-      const db = getDb();
-      const revocationRef = db.collection('token_revocations').doc(userId);
-      const revocationSnap = await revocationRef.get();
+      const repo = getRepositories().tokenRevocations;
+      const revocation = await repo.get(userId);
 
-      if (!revocationSnap.exists) {
+      if (!revocation) {
         return false; // No revocation record
       }
 
-      const revocation = revocationSnap.data() as TokenRevocation;
-
       // Check if revocation has expired (cleanup wasn't run yet)
       if (Date.now() > revocation.expiresAt) {
         // Revocation expired, clean it up
-        await revocationRef.delete().catch(() => {});
+        await repo.remove(userId).catch(() => {});
         return false;
       }
 
@@ -102,27 +94,12 @@ export const tokenRevocationService = {
    */
   async cleanupExpiredRevocations(limit: number = 500): Promise<number> {
     try {
-      const db = getDb();
-      const now = Date.now();
-
-      const expiredSnap = await db
-        .collection('token_revocations')
-        .where('expiresAt', '<', now)
-        .limit(limit)
-        .get();
-
-      if (expiredSnap.empty) {
-        return 0;
-      }
+      const count = await getRepositories().tokenRevocations.removeExpired(Date.now(), limit);
 
-      const batch = db.batch();
-      for (const doc of expiredSnap.docs) {
-        batch.delete(doc.ref);
+      if (count > 0) {
+        logInfo('Cleaned up expired token revocations', { count });
       }
-      await batch.commit();
-
-      logInfo('Cleaned up expired token revocations', { count: expiredSnap.size });
-      return expiredSnap.size;
+      return count;
     } catch (error) {
       logError('Failed to cleanup expired revocations', error);
       throw error;
@@ -134,14 +111,7 @@ export const tokenRevocationService = {
    */
   async getRevocationStatus(userId: string): Promise<TokenRevocation | null> {
     try {
-      const db = getDb();
-      const revocationSnap = await db.collection('token_revocations').doc(userId).get();
-
-      if (!revocationSnap.exists) {
-        return null;
-      }
-
-      return revocationSnap.data() as TokenRevocation;
+      return await getRepositories().tokenRevocations.get(userId);
     } catch (error) {
       logError('Failed to get revocation status', error, { userId });
       return null;
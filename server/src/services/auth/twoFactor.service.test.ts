@@ -0,0 +1,139 @@
+import { createMemoryRepositories, getRepositories, setRepositories } from '@server/data';
+import { TOTP_STEP_SECONDS, totpCode, totpStep } from '@server/utils/totp';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { twoFactorService } from './twoFactor.service';
+
+const user = { id: 'user-1', email: 'ada@example.com', permissions: [] as string[] };
+
+/** The code the user's authenticator shows right now */
+function currentCode(secret: string): string {
+  return totpCode(secret, totpStep());
+}
+
+function nextStep() {
+  vi.advanceTimersByTime(TOTP_STEP_SECONDS * 1000);
+}
+
+async function enrol() {
+  const { secret } = await twoFactorService.setup(user);
+  const recoveryCodes = await twoFactorService.enable(user.id, currentCode(secret));
+  return { secret, recoveryCodes };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+  setRepositories(createMemoryRepositories());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('twoFactorService enrolment', () => {
+  it('stays off until a code from the new secret is confirmed', async () => {
+    const { secret, otpauthUrl } = await twoFactorService.setup(user);
+
+    expect(otpauthUrl).toContain(`secret=${secret}`);
+    expect(await twoFactorService.isEnabled(user.id)).toBe(false);
+    await expect(twoFactorService.enable(user.id, '000000')).rejects.toMatchObject({
+      status: 400,
+    });
+
+    const recoveryCodes = await twoFactorService.enable(user.id, currentCode(secret));
+
+    expect(recoveryCodes).toHaveLength(10);
+    expect(new Set(recoveryCodes).size).toBe(10);
+    expect(recoveryCodes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    expect(await twoFactorService.status(user)).toMatchObject({
+      enabled: true,
+      recoveryCodesRemaining: 10,
+    });
+  });
+
+  it('refuses to enable without setup, or to set up twice', async () => {
+    await expect(twoFactorService.enable(user.id, '123456')).rejects.toMatchObject({ status: 409 });
+    await enrol();
+    await expect(twoFactorService.setup(user)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('keeps only hashes of the recovery codes', async () => {
+    const { recoveryCodes } = await enrol();
+
+    const stored = await getRepositories().twoFactor.get(user.id);
+    expect(stored?.recoveryCodes).toHaveLength(10);
+    expect(stored?.recoveryCodes).not.toContain(recoveryCodes[0]);
+  });
+});
+
+describe('twoFactorService.verify', () => {
+  it('accepts each TOTP code only once', async () => {
+    const { secret } = await enrol();
+    // The code that confirmed enrolment is already spent
+    expect(await twoFactorService.verify(user.id, currentCode(secret))).toBeNull();
+
+    nextStep();
+    const code = currentCode(secret);
+
+    expect(await twoFactorService.verify(user.id, ` ${code} `)).toBe('totp');
+    expect(await twoFactorService.verify(user.id, code)).toBeNull();
+  });
+
+  it('does not accept a code older than the last one used', async () => {
+    const { secret } = await enrol();
+    nextStep();
+    const previous = currentCode(secret);
+    nextStep();
+    expect(await twoFactorService.verify(user.id, currentCode(secret))).toBe('totp');
+
+    expect(await twoFactorService.verify(user.id, previous)).toBeNull();
+  });
+
+  it('uses up a recovery code, matching it ignoring case, spaces and dashes', async () => {
+    const { recoveryCodes } = await enrol();
+    const [code] = recoveryCodes;
+    const typed = ` ${code.replace('-', ' ').toUpperCase()} `;
+
+    expect(await twoFactorService.verify(user.id, typed)).toBe('recovery_code');
+    expect(await twoFactorService.verify(user.id, code)).toBeNull();
+    expect((await twoFactorService.status(user)).recoveryCodesRemaining).toBe(9);
+  });
+
+  it('rejects codes for a user without two-factor', async () => {
+    expect(await twoFactorService.verify(user.id, '123456')).toBeNull();
+  });
+});
+
+describe('twoFactorService recovery codes and switching off', () => {
+  it('replaces every recovery code on regeneration', async () => {
+    const { recoveryCodes } = await enrol();
+
+    const fresh = await twoFactorService.regenerateRecoveryCodes(user.id, recoveryCodes[0]);
+
+    expect(fresh).toHaveLength(10);
+    expect(await twoFactorService.verify(user.id, recoveryCodes[1])).toBeNull();
+    expect(await twoFactorService.verify(user.id, fresh[0])).toBe('recovery_code');
+  });
+
+  it('switches off with a valid code only', async () => {
+    const { secret } = await enrol();
+    nextStep();
+
+    await expect(twoFactorService.disable(user, '000000')).rejects.toMatchObject({ status: 400 });
+    await twoFactorService.disable(user, currentCode(secret));
+
+    expect(await twoFactorService.isEnabled(user.id)).toBe(false);
+  });
+
+  it('keeps two-factor on for staff when the policy requires it', async () => {
+    vi.stubEnv('ADMIN_2FA_REQUIRED', 'true');
+    const staff = { ...user, permissions: ['products:write'] };
+    const { recoveryCodes } = await enrol();
+
+    await expect(twoFactorService.disable(staff, recoveryCodes[0])).rejects.toMatchObject({
+      status: 403,
+    });
+    expect(await twoFactorService.isEnabled(user.id)).toBe(true);
+  });
+});
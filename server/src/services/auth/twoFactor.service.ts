@@ -0,0 +1,231 @@
+/**
+ * Two-factor authentication service adding a TOTP code from an authenticator
+ * app to password logins.
+ *
+ * Provides the ability to:
+ * - Enrol: hand out a new secret with its provisioning URI, then switch 2FA on
+ *   once the user proves their app produces valid codes
+ * - Issue one-time recovery codes for when the authenticator is lost
+ * - Check the code of the second login step, through a short-lived challenge
+ *   token that stands in for the already checked password
+ * - Enforce ADMIN_2FA_REQUIRED, which makes 2FA mandatory for staff (users
+ *   whose role grants any permission)
+ *
+ * Settings persist through the configured TwoFactorRepo. Recovery codes are
+ * stored as SHA-256 hashes and every TOTP code is accepted only once.
+ */
+
+import { loadEnv } from '@server/config/env';
+import { getRepositories } from '@server/data';
+import type { TwoFactorRecord } from '@server/data/ports/twoFactor.repo';
+import type { User } from '@server/domain/user';
+import { logSecurityEvent } from '@server/utils/securityLogger';
+import { generateTotpSecret, totpUri, verifyTotp } from '@server/utils/totp';
+import { createHash, randomBytes } from 'crypto';
+import jwt, { type JwtPayload } from 'jsonwebtoken';
+
+const ISSUER = "Sofia's Shop";
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL = '5m';
+const CHALLENGE_PURPOSE = 'login_2fa';
+
+/** Recovery codes are matched ignoring case, spaces and dashes */
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+/** Codes of the form `xxxxx-xxxxx` */
+function newRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+function isEnabled(record: TwoFactorRecord | null): record is TwoFactorRecord & { secret: string } {
+  return !!record?.secret && record.enabledAt != null;
+}
+
+function invalidCode(): Error {
+  return Object.assign(new Error('Invalid two-factor code'), { status: 400 });
+}
+
+/** Two-factor state as shown to the account owner */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: number | null;
+  recoveryCodesRemaining: number;
+  required: boolean; // the user may not switch 2FA off
+}
+
+export const twoFactorService = {
+  /** Whether the policy obliges this user to use 2FA */
+  isRequired(permissions: readonly string[]): boolean {
+    return permissions.length > 0 && loadEnv().ADMIN_2FA_REQUIRED;
+  },
+
+  async isEnabled(userId: string): Promise<boolean> {
+    return isEnabled(await getRepositories().twoFactor.get(userId));
+  },
+
+  async status(user: { id: string; permissions: readonly string[] }): Promise<TwoFactorStatus> {
+    const record = await getRepositories().twoFactor.get(user.id);
+    const enabled = isEnabled(record);
+    return {
+      enabled,
+      enabledAt: enabled ? record.enabledAt : null,
+      recoveryCodesRemaining: enabled ? record.recoveryCodes.length : 0,
+      required: this.isRequired(user.permissions),
+    };
+  },
+
+  /**
+   * Start enrolment with a new secret. Nothing changes for the login until
+   * `enable` confirms a code from it; starting again replaces the secret.
+   *
+   * @returns The base32 secret for manual entry and its `otpauth://` provisioning URI
+   * @throws {Error} 409 when 2FA is already on
+   */
+  async setup(user: Pick<User, 'id' | 'email'>): Promise<{ secret: string; otpauthUrl: string }> {
+    const repo = getRepositories().twoFactor;
+    const record = await repo.get(user.id);
+    if (isEnabled(record)) {
+      throw Object.assign(new Error('Two-factor authentication is already enabled'), {
+        status: 409,
+      });
+    }
+    const secret = generateTotpSecret();
+    await repo.save({
+      userId: user.id,
+      secret: null,
+      pendingSecret: secret,
+      enabledAt: null,
+      recoveryCodes: [],
+      lastUsedStep: 0,
+      updatedAt: Date.now(),
+    });
+    return { secret, otpauthUrl: totpUri({ secret, account: user.email, issuer: ISSUER }) };
+  },
+
+  /**
+   * Switch 2FA on with a code from the secret handed out by `setup`.
+   *
+   * @returns The recovery codes; only their hashes are kept, so this is the only time they are shown
+   * @throws {Error} 409 when setup was not started, 400 when the code is wrong
+   */
+  async enable(userId: string, code: string): Promise<string[]> {
+    const repo = getRepositories().twoFactor;
+    const record = await repo.get(userId);
+    if (!record?.pendingSecret || isEnabled(record)) {
+      throw Object.assign(new Error('Start two-factor setup first'), { status: 409 });
+    }
+    const step = verifyTotp(record.pendingSecret, code.trim());
+    if (step == null) throw invalidCode();
+    const recoveryCodes = newRecoveryCodes();
+    const now = Date.now();
+    await repo.save({
+      userId,
+      secret: record.pendingSecret,
+      pendingSecret: null,
+      enabledAt: now,
+      recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      lastUsedStep: step,
+      updatedAt: now,
+    });
+    logSecurityEvent({ type: 'two_factor_enabled', userId });
+    return recoveryCodes;
+  },
+
+  /**
+   * Check a TOTP code, or failing that a recovery code, which is then used up.
+   *
+   * @returns How the user proved themselves, or null when the code is wrong
+   */
+  async verify(userId: string, code: string): Promise<'totp' | 'recovery_code' | null> {
+    const repo = getRepositories().twoFactor;
+    const record = await repo.get(userId);
+    if (!isEnabled(record)) return null;
+    const trimmed = code.trim();
+    const step = verifyTotp(record.secret, trimmed);
+    if (step != null) return (await repo.useStep(userId, step)) ? 'totp' : null;
+    return (await repo.useRecoveryCode(userId, hashRecoveryCode(trimmed))) ? 'recovery_code' : null;
+  },
+
+  /**
+   * Switch 2FA off after checking a current code.
+   *
+   * @throws {Error} 403 when the policy requires 2FA for the user, 400 when the code is wrong
+   */
+  async disable(user: { id: string; permissions: readonly string[] }, code: string): Promise<void> {
+    if (this.isRequired(user.permissions)) {
+      throw Object.assign(new Error('Two-factor authentication is required for staff accounts'), {
+        status: 403,
+      });
+    }
+    if (!(await this.verify(user.id, code))) throw invalidCode();
+    await getRepositories().twoFactor.remove(user.id);
+    logSecurityEvent({ type: 'two_factor_disabled', userId: user.id });
+  },
+
+  /**
+   * Replace all recovery codes after checking a current code.
+   *
+   * @returns The new recovery codes
+   * @throws {Error} 400 when the code is wrong
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    if (!(await this.verify(userId, code))) throw invalidCode();
+    const repo = getRepositories().twoFactor;
+    const record = await repo.get(userId);
+    if (!isEnabled(record)) throw invalidCode();
+    const recoveryCodes = newRecoveryCodes();
+    await repo.save({
+      ...record,
+      recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      updatedAt: Date.now(),
+    });
+    return recoveryCodes;
+  },
+
+  /**
+   * Switch 2FA off without a code, for an admin helping a user who lost their
+   * authenticator and recovery codes.
+   *
+   * @throws {Error} 404 when the user does not have 2FA on
+   */
+  async reset(userId: string): Promise<void> {
+    const repo = getRepositories().twoFactor;
+    if (!isEnabled(await repo.get(userId))) {
+      throw Object.assign(new Error('Two-factor authentication is not enabled'), { status: 404 });
+    }
+    await repo.remove(userId);
+    logSecurityEvent({ type: 'two_factor_disabled', userId, details: { reason: 'admin_reset' } });
+  },
+
+  /**
+   * Token proving the password step of a login, exchanged for a session
+   * together with a code. It carries no role, so the auth middleware refuses
+   * it as an access token.
+   */
+  createChallenge(userId: string): string {
+    const payload = { sub: userId, purpose: CHALLENGE_PURPOSE };
+    return jwt.sign(payload, loadEnv().JWT_SECRET, { expiresIn: CHALLENGE_TTL });
+  },
+
+  /**
+   * @returns The user whose password was checked
+   * @throws {Error} 401 when the token is invalid or expired
+   */
+  readChallenge(token: string): string {
+    try {
+      const payload = jwt.verify(token, loadEnv().JWT_SECRET) as JwtPayload;
+      if (payload.purpose === CHALLENGE_PURPOSE && typeof payload.sub === 'string') {
+        return payload.sub;
+      }
+    } catch {
+      // handled below
+    }
+    throw Object.assign(new Error('Login expired, please sign in again'), { status: 401 });
+  },
+};
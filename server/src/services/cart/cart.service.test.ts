@@ -0,0 +1,89 @@
+import { createMemoryRepositories, getRepositories, setRepositories } from '@server/data';
+import type { CartOwner } from '@server/domain/cart';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { cartService } from './cart.service';
+
+const user: CartOwner = { type: 'user', id: 'user-1' };
+
+async function createProduct(name: string, stock: number) {
+  return getRepositories().products.create({
+    name,
+    price: 10,
+    category: 'kitchen',
+    rating: 0,
+    stock,
+  });
+}
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories());
+});
+
+describe('cartService.merge', () => {
+  it('adds the guest lines to the user cart within the stock and deletes the guest cart', async () => {
+    const mug = await createProduct('Mug', 5);
+    const bowl = await createProduct('Bowl', 10);
+    const guest = cartService.newGuest();
+    await cartService.addItem(user, { productId: mug.id, quantity: 2 });
+    await cartService.addItem(guest, { productId: mug.id, quantity: 4 });
+    await cartService.addItem(guest, { productId: bowl.id, quantity: 1 });
+
+    const merged = await cartService.merge(user.id, guest);
+
+    expect(merged.lines.map((l) => [l.productId, l.quantity])).toEqual([
+      [mug.id, 5],
+      [bowl.id, 1],
+    ]);
+    expect(await getRepositories().carts.get(guest.id)).toBeNull();
+    expect((await cartService.get(user)).itemCount).toBe(6);
+  });
+
+  it('skips guest lines whose product is gone', async () => {
+    const mug = await createProduct('Mug', 5);
+    const guest = cartService.newGuest();
+    await cartService.addItem(guest, { productId: mug.id, quantity: 1 });
+    await getRepositories().products.remove(mug.id);
+
+    const merged = await cartService.merge(user.id, guest);
+
+    expect(merged.lines).toEqual([]);
+  });
+
+  it('leaves the user cart alone for a guest cart that does not exist', async () => {
+    const mug = await createProduct('Mug', 5);
+    await cartService.addItem(user, { productId: mug.id, quantity: 1 });
+
+    const merged = await cartService.merge(user.id, cartService.newGuest());
+
+    expect(merged.itemCount).toBe(1);
+  });
+});
+
+describe('cartService changes', () => {
+  it('keeps every one of concurrent additions', async () => {
+    const mug = await createProduct('Mug', 20);
+    const bowl = await createProduct('Bowl', 20);
+
+    await Promise.all([
+      cartService.addItem(user, { productId: mug.id, quantity: 1 }),
+      cartService.addItem(user, { productId: bowl.id, quantity: 2 }),
+      cartService.addItem(user, { productId: mug.id, quantity: 3 }),
+    ]);
+
+    const cart = await cartService.get(user);
+    expect(Object.fromEntries(cart.lines.map((l) => [l.productId, l.quantity]))).toEqual({
+      [mug.id]: 4,
+      [bowl.id]: 2,
+    });
+  });
+
+  it('refuses to raise a quantity past the stock and leaves the cart as it was', async () => {
+    const mug = await createProduct('Mug', 3);
+    const cart = await cartService.addItem(user, { productId: mug.id, quantity: 2 });
+
+    await expect(cartService.setQuantity(user, cart.lines[0].key, 4)).rejects.toMatchObject({
+      status: 409,
+    });
+    expect((await cartService.get(user)).lines[0].quantity).toBe(2);
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Cart service keeping shopping carts on the server.
+ *
+ * Provides the ability to:
+ * - Read a cart with every line checked against current prices and stock
+ * - Add lines, change their quantity, remove them and empty the cart
+ * - Accept the new prices of lines whose price changed
+ * - Issue and check the signed tokens that identify guest carts
+ * - Merge a guest cart into the user's cart when the guest logs in
+ *
+ * Lines keep the price the customer last saw, so a read can flag the ones that
+ * have changed since; orders are always priced afresh by OrderService.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { loadEnv } from '@server/config/env';
+import { getRepositories } from '@server/data';
+import {
+  type Cart,
+  type CartLine,
+  type CartLineView,
+  type CartOwner,
+  type CartView,
+  cartLineKey,
+  GUEST_CART_TTL_MS,
+  MAX_CART_LINES,
+  MAX_LINE_QUANTITY,
+} from '@server/domain/cart';
+import {
+  describeVariant,
+  hasVariants,
+  type Product,
+  type ProductVariant,
+} from '@server/domain/product';
+
+type LineRef = Pick<CartLine, 'productId' | 'variantId'>;
+
+function httpError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+function sign(cartId: string): string {
+  return createHmac('sha256', loadEnv().JWT_SECRET).update(`cart:${cartId}`).digest('base64url');
+}
+
+function emptyCart(owner: CartOwner, now: number): Cart {
+  return {
+    id: owner.id,
+    owner: owner.type,
+    lines: [],
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: owner.type === 'guest' ? now + GUEST_CART_TTL_MS : null,
+  };
+}
+
+/**
+ * Product and variant a line refers to, or null when either is gone (or the
+ * product gained or lost variants since).
+ */
+function resolveLine(
+  products: Map<string, Product | null>,
+  line: LineRef
+): { product: Product; variant?: ProductVariant } | null {
+  const product = products.get(line.productId);
+  if (!product) return null;
+  if (!hasVariants(product)) return line.variantId ? null : { product };
+  const variant = product.variants!.find((v) => v.id === line.variantId);
+  return variant ? { product, variant } : null;
+}
+
+async function loadProducts(lines: LineRef[]): Promise<Map<string, Product | null>> {
+  const ids = [...new Set(lines.map((line) => line.productId))];
+  const repo = getRepositories().products;
+  const products = await Promise.all(ids.map((id) => repo.getById(id)));
+  return new Map(ids.map((id, i) => [id, products[i]]));
+}
+
+/**
+ * Product and variant to add to a cart, with the units available.
+ *
+ * @throws {Error} 404 for unknown products or variants, 400 when a product
+ *   with variants is added without one
+ */
+async function findItem(ref: LineRef) {
+  const products = await loadProducts([ref]);
+  const product = products.get(ref.productId);
+  if (!product) throw httpError('Product not found', 404);
+  if (hasVariants(product) && !ref.variantId) {
+    throw httpError(`Choose an option of ${product.name} to add it to your cart`, 400);
+  }
+  const item = resolveLine(products, ref);
+  if (!item) throw httpError('Variant not found', 404);
+  const price = item.variant?.price ?? product.price;
+  const stock = item.variant ? item.variant.stock : product.stock;
+  return { ...item, price, stock };
+}
+
+function assertInStock(name: string, quantity: number, stock: number): void {
+  if (quantity > stock) {
+    throw httpError(
+      stock > 0 ? `Only ${stock} of ${name} available` : `${name} is out of stock`,
+      409
+    );
+  }
+}
+
+/** The stored cart, unless it belongs to another kind of owner or has expired */
+function live(stored: Cart | null, owner: CartOwner, now: number): Cart {
+  if (
+    !stored ||
+    stored.owner !== owner.type ||
+    (stored.expiresAt != null && stored.expiresAt < now)
+  ) {
+    return emptyCart(owner, now);
+  }
+  return stored;
+}
+
+async function load(owner: CartOwner): Promise<Cart> {
+  return live(await getRepositories().carts.get(owner.id), owner, Date.now());
+}
+
+/**
+ * Apply `change` to the stored cart and save it in one transaction. Products
+ * are looked up before, since `change` may run again when the cart was
+ * changed concurrently.
+ */
+async function update(owner: CartOwner, change: (cart: Cart) => void): Promise<Cart> {
+  return getRepositories().carts.update(owner.id, (stored) => {
+    const now = Date.now();
+    const cart = live(stored, owner, now);
+    change(cart);
+    cart.updatedAt = now;
+    if (cart.owner === 'guest') cart.expiresAt = now + GUEST_CART_TTL_MS;
+    return cart;
+  });
+}
+
+/**
+ * The cart as the customer sees it. Lines whose product or variant no longer
+ * exists are dropped from the stored cart and listed in `removed`.
+ */
+async function view(cart: Cart): Promise<CartView> {
+  const products = await loadProducts(cart.lines);
+  const lines: CartLineView[] = [];
+  const removed: CartView['removed'] = [];
+  for (const line of cart.lines) {
+    const item = resolveLine(products, line);
+    if (!item) {
+      removed.push({
+        productId: line.productId,
+        ...(line.variantId ? { variantId: line.variantId } : {}),
+      });
+      continue;
+    }
+    const { product, variant } = item;
+    const unitPrice = variant?.price ?? product.price;
+    const stock = variant ? variant.stock : product.stock;
+    const image = variant?.images?.[0] ?? product.images?.[0];
+    lines.push({
+      key: cartLineKey(line),
+      productId: line.productId,
+      ...(variant
+        ? { variantId: variant.id, variantName: describeVariant(variant, product.options) }
+        : {}),
+      name: product.name,
+      ...(image ? { image } : {}),
+      quantity: line.quantity,
+      unitPrice,
+      ...(unitPrice !== line.unitPrice ? { previousUnitPrice: line.unitPrice } : {}),
+      priceChanged: unitPrice !== line.unitPrice,
+      stock,
+      insufficientStock: line.quantity > stock,
+    });
+  }
+  if (removed.length) {
+    const gone = new Set(removed.map(cartLineKey));
+    const saved = await update({ type: cart.owner, id: cart.id }, (current) => {
+      current.lines = current.lines.filter((line) => !gone.has(cartLineKey(line)));
+    });
+    cart.updatedAt = saved.updatedAt;
+  }
+  return {
+    id: cart.id,
+    owner: cart.owner,
+    lines,
+    removed,
+    itemCount: lines.reduce((sum, line) => sum + line.quantity, 0),
+    subtotal: Math.round(lines.reduce((sum, l) => sum + l.unitPrice * l.quantity, 0) * 100) / 100,
+    updatedAt: cart.updatedAt,
+    ...(cart.owner === 'guest' ? { token: `${cart.id}.${sign(cart.id)}` } : {}),
+  };
+}
+
+function findLine(cart: Cart, key: string): CartLine {
+  const line = cart.lines.find((l) => cartLineKey(l) === key);
+  if (!line) throw httpError('Item is not in your cart', 404);
+  return line;
+}
+
+export const cartService = {
+  /** Owner for a new guest cart; its token is returned with the first cart view */
+  newGuest(): CartOwner {
+    return { type: 'guest', id: randomBytes(16).toString('hex') };
+  },
+
+  /** Guest cart a token names, or null for tokens this server did not sign */
+  verifyGuestToken(token: string): CartOwner | null {
+    const [id, signature] = token.split('.');
+    if (!id || !signature || !/^[0-9a-f]{32}$/.test(id)) return null;
+    const expected = Buffer.from(sign(id));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+    return { type: 'guest', id };
+  },
+
+  async get(owner: CartOwner): Promise<CartView> {
+    return view(await load(owner));
+  },
+
+  /**
+   * Add units of a product (or variant), at its current price.
+   *
+   * @throws {Error} 404 for unknown products or variants, 400 without a
+   *   required variant or past MAX_LINE_QUANTITY, 409 beyond the stock or MAX_CART_LINES
+   */
+  async addItem(owner: CartOwner, input: LineRef & { quantity: number }): Promise<CartView> {
+    const ref: LineRef = {
+      productId: input.productId,
+      ...(input.variantId ? { variantId: input.variantId } : {}),
+    };
+    const { product, price, stock } = await findItem(ref);
+    const cart = await update(owner, (cart) => {
+      const existing = cart.lines.find((l) => cartLineKey(l) === cartLineKey(ref));
+      const quantity = (existing?.quantity ?? 0) + input.quantity;
+      if (quantity > MAX_LINE_QUANTITY) {
+        throw httpError(`You can add up to ${MAX_LINE_QUANTITY} of one item`, 400);
+      }
+      assertInStock(product.name, quantity, stock);
+      if (existing) {
+        existing.quantity = quantity;
+        existing.unitPrice = price;
+      } else {
+        if (cart.lines.length >= MAX_CART_LINES) {
+          throw httpError(`A cart holds up to ${MAX_CART_LINES} different items`, 409);
+        }
+        cart.lines.push({ ...ref, quantity, unitPrice: price, addedAt: Date.now() });
+      }
+    });
+    return view(cart);
+  },
+
+  /**
+   * Set the quantity of a line; 0 removes it.
+   *
+   * @throws {Error} 404 when the line is not in the cart, 409 beyond the stock
+   */
+  async setQuantity(owner: CartOwner, key: string, quantity: number): Promise<CartView> {
+    const before = findLine(await load(owner), key);
+    // Stock only limits raising the quantity
+    const item = quantity > before.quantity ? await findItem(before) : null;
+    const cart = await update(owner, (cart) => {
+      const line = findLine(cart, key);
+      if (quantity === 0) {
+        cart.lines = cart.lines.filter((l) => l !== line);
+        return;
+      }
+      if (quantity > line.quantity) {
+        if (!item) throw httpError('Your cart changed meanwhile, please try again', 409);
+        assertInStock(item.product.name, quantity, item.stock);
+      }
+      line.quantity = quantity;
+    });
+    return view(cart);
+  },
+
+  /** @throws {Error} 404 when the line is not in the cart */
+  async removeItem(owner: CartOwner, key: string): Promise<CartView> {
+    return this.setQuantity(owner, key, 0);
+  },
+
+  async clear(owner: CartOwner): Promise<CartView> {
+    await getRepositories().carts.remove(owner.id);
+    return view(emptyCart(owner, Date.now()));
+  },
+
+  /** Take the current price of every line as seen, clearing the price-changed flags */
+  async acceptPrices(owner: CartOwner): Promise<CartView> {
+    const products = await loadProducts((await load(owner)).lines);
+    const cart = await update(owner, (cart) => {
+      // Lines added since the products were looked up keep the price they were added at
+      for (const line of cart.lines) {
+        const item = resolveLine(products, line);
+        if (item) line.unitPrice = item.variant?.price ?? item.product.price;
+      }
+    });
+    return view(cart);
+  },
+
+  /**
+   * Move the lines of a guest cart into a user's cart and delete the guest
+   * cart. Quantities of lines in both carts are added up, within the stock;
+   * lines past MAX_CART_LINES are dropped.
+   */
+  async merge(userId: string, guest: CartOwner): Promise<CartView> {
+    const owner: CartOwner = { type: 'user', id: userId };
+    const guestCart = await getRepositories().carts.get(guest.id);
+    if (!guestCart || guestCart.owner !== 'guest') return view(await load(owner));
+
+    const products = await loadProducts(guestCart.lines);
+    const cart = await update(owner, (cart) => {
+      for (const line of guestCart.lines) {
+        const item = resolveLine(products, line);
+        if (!item) continue;
+        const stock = item.variant ? item.variant.stock : item.product.stock;
+        const existing = cart.lines.find((l) => cartLineKey(l) === cartLineKey(line));
+        if (existing) {
+          existing.quantity = Math.max(
+            existing.quantity,
+            Math.min(existing.quantity + line.quantity, stock, MAX_LINE_QUANTITY)
+          );
+        } else if (cart.lines.length < MAX_CART_LINES) {
+          cart.lines.push({ ...line, quantity: Math.min(line.quantity, MAX_LINE_QUANTITY) });
+        }
+      }
+    });
+    await getRepositories().carts.remove(guest.id);
+    return view(cart);
+  },
+};
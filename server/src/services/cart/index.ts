@@ -0,0 +1 @@
+export { cartService } from './cart.service';
@@ -0,0 +1,99 @@
+/**
+ * Order documents service. Renders the invoice, packing slip and receipt of an
+ * order as PDF for its owner or for staff, with the same access checks as
+ * reading the order itself.
+ *
+ * The invoice gets its number the first time it is requested, once the order
+ * is confirmed or paid; later requests render the same number and date again.
+ */
+
+import { loadPricingConfig } from '@server/config/pricing';
+import { lazyRepository } from '@server/data';
+import type { InvoicesRepo } from '@server/data/ports/invoices.repo';
+import type { OrderRepository } from '@server/data/ports/OrderRepository';
+import { type Order, OrderStatus, PaymentStatus } from '@server/domain/orders';
+import { OrderService } from '../orders';
+import type { PaymentActor } from '../payments';
+import { renderInvoice, renderPackingSlip, renderReceipt } from './templates';
+
+export type OrderDocumentKind = 'invoice' | 'packing-slip' | 'receipt';
+
+export interface RenderedDocument {
+  filename: string;
+  pdf: Buffer;
+}
+
+/** Payment states in which money was taken for the order */
+const PAID = [PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED];
+
+function isInvoiceable(order: Order): boolean {
+  if (order.status === OrderStatus.CANCELLED) return false;
+  return order.status !== OrderStatus.PENDING || PAID.includes(order.paymentStatus);
+}
+
+function httpError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+export function createDocumentsService(orders: OrderRepository, invoices: InvoicesRepo) {
+  const orderService = new OrderService(orders);
+
+  async function getOrder(orderId: string, actor: PaymentActor): Promise<Order> {
+    const order = await orderService.getOrder(orderId, actor.id ?? '', actor.isAdmin);
+    if (!order) throw httpError('Order not found', 404);
+    return order;
+  }
+
+  const renderers: {
+    [K in OrderDocumentKind]: (order: Order) => Promise<RenderedDocument>;
+  } = {
+    async invoice(order) {
+      if (!isInvoiceable(order)) {
+        throw httpError('An invoice is issued once the order is confirmed or paid', 409);
+      }
+      const invoice = await invoices.issue(order.id, Date.now());
+      return {
+        filename: `invoice-${invoice.number}.pdf`,
+        pdf: renderInvoice(order, invoice, loadPricingConfig().currency),
+      };
+    },
+    async 'packing-slip'(order) {
+      if (order.status === OrderStatus.CANCELLED) {
+        throw httpError('Cancelled orders are not shipped', 409);
+      }
+      return { filename: `packing-slip-${order.id}.pdf`, pdf: renderPackingSlip(order) };
+    },
+    async receipt(order) {
+      if (!PAID.includes(order.paymentStatus)) {
+        throw httpError('A receipt is available once the payment is captured', 409);
+      }
+      return {
+        filename: `receipt-${order.id}.pdf`,
+        pdf: renderReceipt(order, loadPricingConfig().currency),
+      };
+    },
+  };
+
+  return {
+    /**
+     * Render one of an order's documents.
+     *
+     * @throws {Error} 404 for unknown orders, 403 for other customers' orders,
+     *   409 when the order has no such document yet (e.g. an unpaid order's receipt)
+     */
+    async render(
+      orderId: string,
+      kind: OrderDocumentKind,
+      actor: PaymentActor
+    ): Promise<RenderedDocument> {
+      return renderers[kind](await getOrder(orderId, actor));
+    },
+  };
+}
+
+export type DocumentsService = ReturnType<typeof createDocumentsService>;
+
+export const documentsService = createDocumentsService(
+  lazyRepository('orders'),
+  lazyRepository('invoices')
+);
@@ -0,0 +1,7 @@
+export {
+  createDocumentsService,
+  type DocumentsService,
+  documentsService,
+  type OrderDocumentKind,
+  type RenderedDocument,
+} from './documents.service';
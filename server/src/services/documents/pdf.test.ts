@@ -0,0 +1,95 @@
+import { inflateSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { createPdfDocument, fitText, textWidth } from './pdf';
+
+function render(build: (doc: ReturnType<typeof createPdfDocument>) => void, title = 'Invoice') {
+  const doc = createPdfDocument({ title, author: 'Shop' });
+  build(doc);
+  return doc.toBuffer();
+}
+
+/** The decompressed content stream of every page, in page order */
+function contents(pdf: Buffer): string[] {
+  const streams: string[] = [];
+  let from = 0;
+  for (;;) {
+    const start = pdf.indexOf('>>\nstream\n', from);
+    if (start === -1) return streams;
+    const end = pdf.indexOf('\nendstream', start);
+    streams.push(inflateSync(pdf.subarray(start + '>>\nstream\n'.length, end)).toString('latin1'));
+    from = end + 1;
+  }
+}
+
+describe('createPdfDocument', () => {
+  it('writes a cross-reference table pointing at every object', () => {
+    const pdf = render((doc) => {
+      doc.addPage();
+      doc.text('First page', 40, 40);
+      doc.addPage();
+      doc.text('Zoë paid €12', 40, 40, { bold: true });
+      doc.rule(40, 555, 60);
+    });
+    const text = pdf.toString('latin1');
+
+    const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(text)?.[1]);
+    expect(text.slice(startxref, startxref + 5)).toBe('xref\n');
+
+    const [, first, count] = /^xref\n(\d+) (\d+)\n/.exec(text.slice(startxref)) ?? [];
+    expect(Number(first)).toBe(0);
+    const entries = text
+      .slice(startxref)
+      .split('\n')
+      .slice(2, 2 + Number(count));
+    expect(entries[0]).toBe('0000000000 65535 f ');
+    entries.slice(1).forEach((entry, i) => {
+      expect(entry).toMatch(/^\d{10} 00000 n $/);
+      const offset = Number(entry.slice(0, 10));
+      expect(text.slice(offset, offset + 20)).toMatch(new RegExp(`^${i + 1} 0 obj\\n`));
+    });
+    // Catalog, page tree, two fonts, a stream and a page per page, the info
+    expect(Number(count)).toBe(1 + 4 + 2 * 2 + 1);
+    expect(text).toContain(`/Size ${count} `);
+    expect(text).toContain('/Count 2');
+  });
+
+  it('prints characters outside WinAnsi as "?"', () => {
+    const pdf = render((doc) => {
+      doc.addPage();
+      doc.text('Zoë – €5 日本', 40, 40);
+    });
+
+    const [page] = contents(pdf);
+    const hex = /<([0-9a-f]+)> Tj/.exec(page)?.[1];
+    expect(Buffer.from(hex ?? '', 'hex')).toEqual(
+      Buffer.from([0x5a, 0x6f, 0xeb, 0x20, 0x96, 0x20, 0x80, 0x35, 0x20, 0x3f, 0x3f])
+    );
+  });
+
+  it('escapes the title and writes non-ASCII metadata as UTF-16', () => {
+    const plain = render(() => {}, 'Receipt (copy) \\ 1').toString('latin1');
+    expect(plain).toContain('/Title (Receipt \\(copy\\) \\\\ 1)');
+
+    const accented = render(() => {}, 'Reçu 日本').toString('latin1');
+    const hex = /\/Title <([0-9a-f]+)>/.exec(accented)?.[1] ?? '';
+    expect(hex.startsWith('feff')).toBe(true);
+    expect(Buffer.from(hex.slice(4), 'hex').swap16().toString('utf16le')).toBe('Reçu 日本');
+  });
+
+  it('starts a page when nothing was drawn', () => {
+    const pdf = render(() => {});
+
+    expect(pdf.toString('latin1')).toContain('/Count 1');
+    expect(contents(pdf)).toEqual(['']);
+  });
+});
+
+describe('fitText', () => {
+  it('keeps text that fits and shortens text that does not', () => {
+    expect(fitText('Mug', 100)).toBe('Mug');
+
+    const fitted = fitText('A very long product name indeed', 60);
+    expect(fitted.endsWith('...')).toBe(true);
+    expect(textWidth(fitted)).toBeLessThanOrEqual(60);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Minimal PDF writer for the shop's paperwork: A4 pages of text in the
+ * standard Helvetica fonts plus horizontal rules, which is all invoices,
+ * packing slips and receipts need. Standard fonts ship with every PDF reader,
+ * so nothing is embedded; text is limited to the WinAnsi (Latin-1) character
+ * set and anything else is printed as "?".
+ *
+ * Coordinates are in points from the top-left corner of the page.
+ */
+
+import { deflateSync } from 'zlib';
+
+export const PAGE_WIDTH = 595; // A4
+export const PAGE_HEIGHT = 842;
+
+export interface TextOptions {
+  size?: number; // default 10
+  bold?: boolean;
+  align?: 'left' | 'right'; // right: `x` is where the text ends
+  gray?: number; // 0 (black) to 1 (white)
+}
+
+// Advance widths (per 1000 units of font size) of the characters 32-126
+// biome-ignore format: one row per 16 characters
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// biome-ignore format: one row per 16 characters
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi codes of the characters outside Latin-1 that documents use
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '−': 0x2d, // minus sign, printed as a hyphen
+};
+
+function encode(text: string): number[] {
+  return [...text].map((char) => {
+    const code = char.codePointAt(0)!;
+    if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+    return WIN_ANSI_EXTRAS[char] ?? 0x3f;
+  });
+}
+
+/** Width of `text` in points */
+export function textWidth(text: string, size = 10, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = encode(text).reduce(
+    (sum, code) => sum + (code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH),
+    0
+  );
+  return (units * size) / 1000;
+}
+
+/** `text` cut to fit `maxWidth` points, ending in "..." when shortened */
+export function fitText(text: string, maxWidth: number, size = 10, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+export function createPdfDocument(info: { title: string; author?: string }) {
+  const pages: string[][] = [];
+  let current: string[] = [];
+
+  const doc = {
+    /** Start a new page; drawing goes to the newest page */
+    addPage(): void {
+      current = [];
+      pages.push(current);
+    },
+
+    text(text: string, x: number, y: number, options: TextOptions = {}): void {
+      if (!text) return;
+      const { size = 10, bold = false, align = 'left', gray = 0 } = options;
+      const left = align === 'right' ? x - textWidth(text, size, bold) : x;
+      const hex = encode(text)
+        .map((code) => code.toString(16).padStart(2, '0'))
+        .join('');
+      current.push(
+        `BT ${num(gray)} g /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(left)} ${num(PAGE_HEIGHT - y)} Td <${hex}> Tj ET`
+      );
+    },
+
+    /** Horizontal rule from `x1` to `x2` */
+    rule(x1: number, x2: number, y: number, options: { width?: number; gray?: number } = {}) {
+      const { width = 0.5, gray = 0.6 } = options;
+      current.push(
+        `${num(gray)} G ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - y)} m ${num(x2)} ${num(PAGE_HEIGHT - y)} l S`
+      );
+    },
+
+    /** The finished file */
+    toBuffer(): Buffer {
+      if (pages.length === 0) doc.addPage();
+      const objects: Buffer[] = [];
+      const add = (body: string | Buffer) => {
+        objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+        return objects.length;
+      };
+      // Metadata strings are not drawn, so they need not fit WinAnsi: plain ASCII
+      // is written as is, anything else as UTF-16 with a byte order mark
+      const textString = (value: string) => {
+        if (/^[\x20-\x7e]*$/.test(value)) return `(${value.replace(/[\\()]/g, '\\$&')})`;
+        const utf16 = Buffer.from(value, 'utf16le').swap16();
+        return `<feff${utf16.toString('hex')}>`;
+      };
+
+      const catalog = add('');
+      const pageTree = add('');
+      const regular = add(
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+      );
+      const bold = add(
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+      );
+      const pageIds = pages.map((operations) => {
+        const content = deflateSync(Buffer.from(operations.join('\n'), 'latin1'));
+        const stream = add(
+          Buffer.concat([
+            Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`),
+            content,
+            Buffer.from('\nendstream'),
+          ])
+        );
+        return add(
+          `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${stream} 0 R >>`
+        );
+      });
+      objects[catalog - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pageTree} 0 R >>`);
+      objects[pageTree - 1] = Buffer.from(
+        `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+      );
+      const infoId = add(
+        `<< /Title ${textString(info.title)}${info.author ? ` /Author ${textString(info.author)}` : ''} >>`
+      );
+
+      const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+      let offset = chunks[0].length;
+      const offsets = objects.map((body, i) => {
+        const chunk = Buffer.concat([
+          Buffer.from(`${i + 1} 0 obj\n`),
+          body,
+          Buffer.from('\nendobj\n'),
+        ]);
+        chunks.push(chunk);
+        const start = offset;
+        offset += chunk.length;
+        return start;
+      });
+      const xref = [
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f ',
+        ...offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${infoId} 0 R >>`,
+        'startxref',
+        String(offset),
+        '%%EOF',
+        '',
+      ].join('\n');
+      chunks.push(Buffer.from(xref, 'latin1'));
+      return Buffer.concat(chunks);
+    },
+  };
+  return doc;
+}
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
@@ -0,0 +1,262 @@
+/**
+ * Order paperwork as PDF: the itemised tax invoice, the packing slip that goes
+ * in the parcel and the payment receipt. Each template lays one order out on
+ * as many A4 pages as its lines need, repeating the table header on each.
+ */
+
+import type { InvoiceRecord } from '@server/domain/invoices';
+import type { Order, OrderItem, PaymentMethod, ShippingAddress } from '@server/domain/orders';
+import { createPdfDocument, fitText, PAGE_HEIGHT, PAGE_WIDTH, type PdfDocument } from './pdf';
+
+const SHOP_NAME = "Sofia's Shop";
+
+const MARGIN = 50;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const LINE = 14;
+const BOTTOM = PAGE_HEIGHT - 60; // lowest baseline before a page break
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  credit_card: 'Credit card',
+  debit_card: 'Debit card',
+  bank_transfer: 'Bank transfer',
+  cash_on_delivery: 'Cash on delivery',
+};
+
+interface Column {
+  title: string;
+  x: number; // left edge
+  width: number;
+  align?: 'left' | 'right';
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+}
+
+function formatDate(date: Date | number): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+function shortId(orderId: string): string {
+  return orderId.slice(0, 8).toUpperCase();
+}
+
+function itemLabel(item: OrderItem): string {
+  return item.variantName ? `${item.productName} (${item.variantName})` : item.productName;
+}
+
+function addressLines(address: ShippingAddress): string[] {
+  return [
+    address.fullName,
+    address.street,
+    `${address.city}, ${address.state} ${address.postalCode}`,
+    address.country,
+    ...(address.phone ? [address.phone] : []),
+  ];
+}
+
+/**
+ * Page writer that keeps the current baseline, and moves to a new page (with
+ * the table header again, inside a table) when the next block does not fit.
+ */
+function createPageWriter(doc: PdfDocument, heading: string) {
+  let y = 0;
+  let columns: Column[] | null = null;
+
+  function tableHeader(): void {
+    if (!columns) return;
+    for (const column of columns) {
+      const x = column.align === 'right' ? column.x + column.width : column.x;
+      doc.text(column.title, x, y, { bold: true, size: 9, align: column.align });
+    }
+    doc.rule(MARGIN, RIGHT, y + 5);
+    y += LINE + 4;
+  }
+
+  function newPage(): void {
+    doc.addPage();
+    doc.text(SHOP_NAME, MARGIN, 60, { bold: true, size: 18 });
+    doc.text(heading, RIGHT, 60, { bold: true, size: 16, align: 'right' });
+    doc.rule(MARGIN, RIGHT, 72, { width: 1, gray: 0.3 });
+    y = 96;
+    tableHeader();
+  }
+
+  newPage();
+  return {
+    /** Make room for `lines` lines, starting a new page when they do not fit */
+    ensure(lines: number): void {
+      if (y + lines * LINE > BOTTOM) newPage();
+    },
+    /** Two columns of text side by side, e.g. addresses and order details */
+    blocks(left: { title: string; lines: string[] }, right: Array<[string, string]>): void {
+      const top = y;
+      doc.text(left.title, MARGIN, y, { bold: true, size: 9, gray: 0.35 });
+      left.lines.forEach((line, i) => {
+        doc.text(fitText(line, 250), MARGIN, top + (i + 1) * LINE);
+      });
+      right.forEach(([label, value], i) => {
+        doc.text(label, RIGHT - 150, top + i * LINE, { bold: true, size: 9, gray: 0.35 });
+        doc.text(value, RIGHT, top + i * LINE, { align: 'right' });
+      });
+      y = top + Math.max(left.lines.length + 1, right.length) * LINE + 16;
+    },
+    table(tableColumns: Column[], rows: string[][]): void {
+      this.ensure(3);
+      columns = tableColumns;
+      tableHeader();
+      for (const row of rows) {
+        if (y > BOTTOM) newPage();
+        row.forEach((cell, i) => {
+          const column = tableColumns[i];
+          const x = column.align === 'right' ? column.x + column.width : column.x;
+          doc.text(fitText(cell, column.width), x, y, { align: column.align });
+        });
+        y += LINE;
+      }
+      columns = null;
+      doc.rule(MARGIN, RIGHT, y - LINE + 5);
+      y += 8;
+    },
+    /** Label and amount rows aligned to the right edge; the last one can be bold */
+    totals(rows: Array<[string, string]>, boldLast = true): void {
+      this.ensure(rows.length);
+      rows.forEach(([label, value], i) => {
+        const bold = boldLast && i === rows.length - 1;
+        doc.text(label, RIGHT - 110, y, { bold, align: 'right' });
+        doc.text(value, RIGHT, y, { bold, align: 'right' });
+        y += LINE;
+      });
+      y += 8;
+    },
+    paragraph(text: string, options: { gray?: number; size?: number } = {}): void {
+      this.ensure(1);
+      doc.text(fitText(text, RIGHT - MARGIN, options.size), MARGIN, y, options);
+      y += LINE;
+    },
+  };
+}
+
+function orderTotals(order: Order, currency: string): Array<[string, string]> {
+  return [
+    ['Subtotal', formatMoney(order.subtotal, currency)],
+    ...(order.discountAmount > 0
+      ? ([
+          [
+            order.discount ? `Discount (${order.discount.code})` : 'Discount',
+            `−${formatMoney(order.discountAmount, currency)}`,
+          ],
+        ] as Array<[string, string]>)
+      : []),
+    ['Shipping', formatMoney(order.shippingCost, currency)],
+    ['Tax', formatMoney(order.taxAmount, currency)],
+    ['Total', formatMoney(order.totalAmount, currency)],
+  ];
+}
+
+const PRICED_COLUMNS: Column[] = [
+  { title: 'Item', x: MARGIN, width: 230 },
+  { title: 'SKU', x: 290, width: 80 },
+  { title: 'Qty', x: 370, width: 30, align: 'right' },
+  { title: 'Unit price', x: 405, width: 65, align: 'right' },
+  { title: 'Amount', x: 475, width: 70, align: 'right' },
+];
+
+function pricedRows(order: Order, currency: string): string[][] {
+  return order.items.map((item) => [
+    itemLabel(item),
+    item.sku ?? '',
+    String(item.quantity),
+    formatMoney(item.unitPrice, currency),
+    formatMoney(item.totalPrice, currency),
+  ]);
+}
+
+/** Itemised tax invoice; `invoice` holds its sequential number and date */
+export function renderInvoice(order: Order, invoice: InvoiceRecord, currency: string): Buffer {
+  const doc = createPdfDocument({ title: `Invoice ${invoice.number}`, author: SHOP_NAME });
+  const page = createPageWriter(doc, 'TAX INVOICE');
+  page.blocks(
+    { title: 'BILL TO', lines: [...addressLines(order.shippingAddress), order.userEmail] },
+    [
+      ['Invoice number', invoice.number],
+      ['Invoice date', formatDate(invoice.issuedAt)],
+      ['Order', `#${shortId(order.id)}`],
+      ['Order date', formatDate(order.createdAt)],
+      ['Payment', PAYMENT_METHOD_LABELS[order.paymentMethod] ?? order.paymentMethod],
+    ]
+  );
+  page.table(PRICED_COLUMNS, pricedRows(order, currency));
+  page.totals(orderTotals(order, currency));
+  page.paragraph(`All amounts in ${currency}.`, {
+    gray: 0.4,
+    size: 9,
+  });
+  return doc.toBuffer();
+}
+
+/** Packing slip for the parcel: what was ordered and where it goes, without prices */
+export function renderPackingSlip(order: Order): Buffer {
+  const doc = createPdfDocument({
+    title: `Packing slip #${shortId(order.id)}`,
+    author: SHOP_NAME,
+  });
+  const page = createPageWriter(doc, 'PACKING SLIP');
+  page.blocks({ title: 'SHIP TO', lines: addressLines(order.shippingAddress) }, [
+    ['Order', `#${shortId(order.id)}`],
+    ['Order date', formatDate(order.createdAt)],
+    ['Items', String(order.items.reduce((sum, item) => sum + item.quantity, 0))],
+    ...(order.tracking?.trackingNumber
+      ? ([['Tracking', order.tracking.trackingNumber]] as Array<[string, string]>)
+      : []),
+  ]);
+  page.table(
+    [
+      { title: 'Item', x: MARGIN, width: 300 },
+      { title: 'SKU', x: 360, width: 100 },
+      { title: 'Qty', x: 465, width: 30, align: 'right' },
+      { title: 'Packed', x: 505, width: 40, align: 'right' },
+    ],
+    order.items.map((item) => [itemLabel(item), item.sku ?? '', String(item.quantity), '[   ]'])
+  );
+  if (order.notes) page.paragraph(`Customer note: ${order.notes}`);
+  page.paragraph(`Thank you for shopping with ${SHOP_NAME}!`, { gray: 0.4, size: 9 });
+  return doc.toBuffer();
+}
+
+/** Receipt for the money taken (and given back) for an order */
+export function renderReceipt(order: Order, currency: string): Buffer {
+  const doc = createPdfDocument({ title: `Receipt #${shortId(order.id)}`, author: SHOP_NAME });
+  const page = createPageWriter(doc, 'RECEIPT');
+  const paid = order.payment?.capturedAmount ?? order.totalAmount;
+  const refunded = order.payment?.refundedAmount ?? 0;
+  page.blocks(
+    { title: 'RECEIVED FROM', lines: [order.shippingAddress.fullName, order.userEmail] },
+    [
+      ['Order', `#${shortId(order.id)}`],
+      ['Order date', formatDate(order.createdAt)],
+      ['Payment', PAYMENT_METHOD_LABELS[order.paymentMethod] ?? order.paymentMethod],
+    ]
+  );
+  page.table(PRICED_COLUMNS, pricedRows(order, currency));
+  page.totals(orderTotals(order, currency));
+  page.totals(
+    [
+      ['Amount paid', formatMoney(paid, currency)],
+      ...(refunded > 0
+        ? ([
+            ['Refunded', `−${formatMoney(refunded, currency)}`],
+            ['Net paid', formatMoney(paid - refunded, currency)],
+          ] as Array<[string, string]>)
+        : []),
+    ],
+    refunded > 0
+  );
+  if (order.payment) page.paragraph(`Payment reference: ${order.payment.paymentId}`);
+  page.paragraph(`Thank you for shopping with ${SHOP_NAME}!`, { gray: 0.4, size: 9 });
+  return doc.toBuffer();
+}
@@ -0,0 +1,144 @@
+/**
+ * Email outbox service. Queuing renders a template and persists the message
+ * before anything is sent, so a crash or a mail server outage never loses
+ * it; delivery is then attempted right away and retried with backoff by the
+ * outbox worker until it succeeds or OUTBOX_MAX_ATTEMPTS is reached.
+ */
+
+import type { EmailOutboxRepo } from '@server/data/ports/emailOutbox.repo';
+import {
+  type EmailTemplate,
+  OUTBOX_CLAIM_MS,
+  OUTBOX_MAX_ATTEMPTS,
+  type OutboxEmail,
+  outboxRetryDelayMs,
+} from '@server/domain/email';
+import { type Clock, systemClock } from '@server/utils/clock';
+import { logError, logWarn } from '@server/utils/logger';
+import { randomUUID } from 'crypto';
+import { type EmailTemplateData, renderEmail } from './templates';
+import type { MailTransport } from './transports';
+
+export interface EmailServiceOptions {
+  outbox: EmailOutboxRepo;
+  transport: MailTransport;
+  from: string;
+  clock?: Clock;
+}
+
+export interface OutboxRunResult {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+type DeliveryOutcome = keyof OutboxRunResult | 'skipped';
+
+export function createEmailService({
+  outbox,
+  transport,
+  from,
+  clock = systemClock,
+}: EmailServiceOptions) {
+  async function deliver(email: OutboxEmail): Promise<DeliveryOutcome> {
+    const now = clock.now().getTime();
+    if (!(await outbox.claim(email.id, now, now + OUTBOX_CLAIM_MS))) return 'skipped';
+    const attempts = email.attempts + 1;
+    try {
+      await transport.send({ ...email, from });
+      await outbox.update(email.id, { status: 'sent', attempts, sentAt: clock.now().getTime() });
+      return 'sent';
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      if ((error as { permanent?: boolean })?.permanent || attempts >= OUTBOX_MAX_ATTEMPTS) {
+        await outbox.update(email.id, { status: 'failed', attempts, lastError });
+        logError('Email delivery failed', error, { emailId: email.id, template: email.template });
+        return 'failed';
+      }
+      await outbox.update(email.id, {
+        attempts,
+        lastError,
+        nextAttemptAt: now + outboxRetryDelayMs(attempts),
+      });
+      logWarn('Email delivery will be retried', {
+        emailId: email.id,
+        template: email.template,
+        attempts,
+        error: lastError,
+      });
+      return 'retrying';
+    }
+  }
+
+  const service = {
+    transport: transport.name,
+
+    /**
+     * Render a template into the outbox and start delivering it without
+     * waiting; the returned promise settles once the message is stored.
+     */
+    async queue<T extends EmailTemplate>(
+      template: T,
+      to: string,
+      data: EmailTemplateData[T]
+    ): Promise<OutboxEmail> {
+      const now = clock.now().getTime();
+      const email: OutboxEmail = {
+        id: randomUUID().replace(/-/g, ''),
+        template,
+        to,
+        ...renderEmail(template, data),
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+      };
+      await outbox.enqueue(email);
+      deliver(email).catch((error) =>
+        logError('Email delivery attempt crashed', error, { emailId: email.id })
+      );
+      return email;
+    },
+
+    /**
+     * Try every message that is due, up to `limit` of them
+     */
+    async processOutbox(limit = 50): Promise<OutboxRunResult> {
+      const due = await outbox.listDue(clock.now().getTime(), limit);
+      const result: OutboxRunResult = { sent: 0, retrying: 0, failed: 0 };
+      for (const email of due) {
+        const outcome = await deliver(email).catch((error) => {
+          logError('Email delivery attempt crashed', error, { emailId: email.id });
+          return 'skipped' as const;
+        });
+        if (outcome !== 'skipped') result[outcome] += 1;
+      }
+      return result;
+    },
+
+    /**
+     * Drain the outbox every `intervalMs` in the background. Runs never
+     * overlap, and the timer does not keep the process alive.
+     *
+     * @returns A function that stops the worker
+     */
+    startWorker(intervalMs: number): () => void {
+      let running = false;
+      const timer = setInterval(() => {
+        if (running) return;
+        running = true;
+        service
+          .processOutbox()
+          .catch((error) => logError('Email outbox run failed', error))
+          .finally(() => {
+            running = false;
+          });
+      }, intervalMs);
+      timer.unref();
+      return () => clearInterval(timer);
+    },
+  };
+  return service;
+}
+
+export type EmailService = ReturnType<typeof createEmailService>;
@@ -0,0 +1,63 @@
+import { loadEnv } from '@server/config/env';
+import { getRepositories } from '@server/data';
+import { createEmailService, type EmailService } from './email.service';
+import { createSmtpTransport } from './smtp.transport';
+import { createConsoleTransport, createFileTransport, type MailTransport } from './transports';
+
+export { createEmailService, type EmailService, type OutboxRunResult } from './email.service';
+export { createSmtpTransport, type SmtpOptions } from './smtp.transport';
+export { type EmailTemplateData, renderEmail } from './templates';
+export {
+  createConsoleTransport,
+  createFileTransport,
+  formatMimeMessage,
+  type MailTransport,
+  type OutgoingEmail,
+} from './transports';
+
+/**
+ * Transport selected by EMAIL_TRANSPORT
+ *
+ * @throws {Error} When EMAIL_TRANSPORT is "smtp" but SMTP_HOST is not set
+ */
+export function createMailTransport(env = loadEnv()): MailTransport {
+  switch (env.EMAIL_TRANSPORT) {
+    case 'smtp':
+      if (!env.SMTP_HOST) throw new Error('SMTP_HOST is required when EMAIL_TRANSPORT is "smtp"');
+      return createSmtpTransport({
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    case 'console':
+      return createConsoleTransport();
+    default:
+      return createFileTransport(env.EMAIL_FILE_DIR);
+  }
+}
+
+let service: EmailService | null = null;
+
+/**
+ * Email service for the configured transport and data store, created on first use.
+ */
+export function getEmailService(): EmailService {
+  if (!service) {
+    const env = loadEnv();
+    service = createEmailService({
+      outbox: getRepositories().emailOutbox,
+      transport: createMailTransport(env),
+      from: env.EMAIL_FROM,
+    });
+  }
+  return service;
+}
+
+/**
+ * Replace the email service (e.g. with one on a fake transport in tests).
+ */
+export function setEmailService(next: EmailService | null): void {
+  service = next;
+}
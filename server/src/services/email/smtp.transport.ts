@@ -0,0 +1,205 @@
+/**
+ * Minimal SMTP client transport (RFC 5321): EHLO, optional STARTTLS or
+ * implicit TLS, AUTH PLAIN (over TLS only), then one message per connection. Enough for a
+ * relay such as a provider's SMTP endpoint or a local fake server in tests.
+ */
+
+import net, { type Socket } from 'node:net';
+import os from 'node:os';
+import tls from 'node:tls';
+import { addressOf, formatMimeMessage, type MailTransport } from './transports';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** TLS from the first byte (port 465). Otherwise STARTTLS is used when offered. */
+  secure?: boolean;
+  /** Credentials for AUTH PLAIN; sending fails rather than pass them over plain text */
+  user?: string;
+  pass?: string;
+  /** Name sent with EHLO; defaults to this machine's hostname */
+  clientName?: string;
+  /** Idle timeout for every step of the conversation */
+  timeoutMs?: number;
+  /** Passed to tls.connect, e.g. `{ rejectUnauthorized: false }` for a self-signed test server */
+  tlsOptions?: tls.ConnectionOptions;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+function smtpError(message: string, code?: number): Error {
+  return Object.assign(new Error(message), {
+    smtpCode: code,
+    // 5xx replies are final; 4xx and connection trouble may pass on retry
+    permanent: code !== undefined && code >= 500,
+  });
+}
+
+/**
+ * Reads complete (possibly multi-line) replies off a socket, one at a time
+ */
+function createReplyReader(socket: Socket) {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let failure: Error | null = null;
+  let waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+
+  function settle() {
+    if (!waiter) return;
+    const { resolve, reject } = waiter;
+    const reply = replies.shift();
+    if (reply) {
+      waiter = null;
+      resolve(reply);
+    } else if (failure) {
+      waiter = null;
+      reject(failure);
+    }
+  }
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let end = buffer.indexOf('\n');
+    while (end >= 0) {
+      const line = buffer.slice(0, end).replace(/\r$/, '');
+      buffer = buffer.slice(end + 1);
+      lines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        replies.push({ code: Number(line.slice(0, 3)), lines });
+        lines = [];
+      }
+      end = buffer.indexOf('\n');
+    }
+    settle();
+  };
+  const onError = (error: Error) => {
+    failure ??= smtpError(`SMTP connection failed: ${error.message}`);
+    settle();
+  };
+  const onClose = () => onError(new Error('connection closed'));
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  return {
+    read(): Promise<SmtpReply> {
+      return new Promise((resolve, reject) => {
+        waiter = { resolve, reject };
+        settle();
+      });
+    },
+    detach() {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+function connect(options: SmtpOptions): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({
+          host: options.host,
+          port: options.port,
+          servername: options.host,
+          ...options.tlsOptions,
+        })
+      : net.connect({ host: options.host, port: options.port });
+    const onError = (error: Error) => reject(smtpError(`SMTP connection failed: ${error.message}`));
+    socket.setTimeout(options.timeoutMs ?? 30_000, () => socket.destroy(new Error('timed out')));
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+      socket.off('error', onError);
+      resolve(socket);
+    });
+    socket.once('error', onError);
+  });
+}
+
+function upgrade(socket: Socket, options: SmtpOptions): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: options.host, ...options.tlsOptions });
+    const onError = (error: Error) => reject(smtpError(`STARTTLS failed: ${error.message}`));
+    secured.setTimeout(options.timeoutMs ?? 30_000, () => secured.destroy(new Error('timed out')));
+    secured.once('secureConnect', () => {
+      secured.off('error', onError);
+      resolve(secured);
+    });
+    secured.once('error', onError);
+  });
+}
+
+/** Escape lines starting with a dot and end the DATA section */
+function dataSection(message: string): string {
+  const body = message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  return `${body.endsWith('\r\n') ? body : `${body}\r\n`}.\r\n`;
+}
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const clientName = options.clientName ?? os.hostname();
+
+  return {
+    name: 'smtp',
+    async send(email) {
+      let socket = await connect(options);
+      let reader = createReplyReader(socket);
+      let encrypted = !!options.secure;
+
+      const expect = async (accepted: number[], sent: string) => {
+        const reply = await reader.read();
+        if (!accepted.includes(reply.code)) {
+          throw smtpError(
+            `SMTP ${sent} rejected: ${reply.code} ${reply.lines.join(' ')}`,
+            reply.code
+          );
+        }
+        return reply;
+      };
+      const command = async (line: string, accepted: number[], label = line.split(' ')[0]) => {
+        socket.write(`${line}\r\n`);
+        return expect(accepted, label);
+      };
+
+      try {
+        await expect([220], 'greeting');
+        let hello = await command(`EHLO ${clientName}`, [250]);
+        const offers = (keyword: string) =>
+          hello.lines.some((line) => line.toUpperCase().startsWith(keyword));
+
+        if (!options.secure && offers('STARTTLS')) {
+          await command('STARTTLS', [220]);
+          reader.detach();
+          socket = await upgrade(socket, options);
+          reader = createReplyReader(socket);
+          encrypted = true;
+          hello = await command(`EHLO ${clientName}`, [250]);
+        }
+        if (options.user) {
+          if (!encrypted) {
+            throw smtpError(
+              `SMTP server ${options.host} does not offer STARTTLS; refusing to send credentials unencrypted`
+            );
+          }
+          const credentials = Buffer.from(`\0${options.user}\0${options.pass ?? ''}`).toString(
+            'base64'
+          );
+          await command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+        }
+        await command(`MAIL FROM:<${addressOf(email.from)}>`, [250], 'MAIL FROM');
+        await command(`RCPT TO:<${addressOf(email.to)}>`, [250, 251], 'RCPT TO');
+        await command('DATA', [354]);
+        socket.write(dataSection(formatMimeMessage(email)));
+        await expect([250], 'message');
+        await command('QUIT', [221]).catch(() => undefined);
+      } finally {
+        reader.detach();
+        socket.on('error', () => undefined); // late errors after we are done are of no interest
+        socket.destroy();
+      }
+    },
+  };
+}
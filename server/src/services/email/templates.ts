@@ -0,0 +1,172 @@
+/**
+ * Transactional email templates. Each template turns its data into a subject
+ * plus matching plain-text and HTML bodies, wrapped in the shop's layout.
+ */
+
+import type { EmailTemplate } from '@server/domain/email';
+import { type Order, OrderStatus } from '@server/domain/orders';
+
+export interface EmailTemplateData {
+  verify_email: { verifyUrl: string; expiresInHours: number };
+  password_reset: { resetUrl: string; expiresInMinutes: number };
+  order_confirmation: { order: Order; orderUrl: string; currency: string };
+  shipping_update: { order: Order; orderUrl: string };
+  order_mention: { orderId: string; orderUrl: string; author: string; comment: string };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const SHOP_NAME = "Sofia's Shop";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+}
+
+function shortId(orderId: string): string {
+  return orderId.slice(0, 8).toUpperCase();
+}
+
+/** Paragraphs and an optional call-to-action button in the shared layout */
+function layout(
+  title: string,
+  paragraphs: string[],
+  action?: { label: string; url: string },
+  extraHtml = ''
+): Pick<RenderedEmail, 'text' | 'html'> {
+  const text = [
+    title,
+    '',
+    ...paragraphs.flatMap((p) => [p, '']),
+    ...(action ? [`${action.label}: ${action.url}`, ''] : []),
+    `— ${SHOP_NAME}`,
+  ].join('\n');
+  const html = `<!doctype html>
+<html><body style="font-family: Georgia, serif; color: #3b2f22; background: #faf6ef; padding: 24px;">
+<div style="max-width: 560px; margin: 0 auto; background: #fff; padding: 24px; border-radius: 8px;">
+<h1 style="font-size: 20px; margin-top: 0;">${escapeHtml(title)}</h1>
+${paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`).join('\n')}
+${extraHtml}
+${
+  action
+    ? `<p><a href="${escapeHtml(action.url)}" style="display: inline-block; background: #8a5a00; color: #fff; padding: 10px 16px; border-radius: 4px; text-decoration: none;">${escapeHtml(action.label)}</a></p>
+<p style="font-size: 12px; color: #6d5b45;">Or paste this link into your browser: ${escapeHtml(action.url)}</p>`
+    : ''
+}
+<p style="color: #6d5b45;">— ${SHOP_NAME}</p>
+</div>
+</body></html>`;
+  return { text, html };
+}
+
+function orderLines(order: Order, currency: string): string[] {
+  return order.items.map(
+    (item) =>
+      `${item.quantity} × ${item.productName}${item.variantName ? ` (${item.variantName})` : ''} — ${formatMoney(item.totalPrice, currency)}`
+  );
+}
+
+function orderTotals(order: Order, currency: string): Array<[string, string]> {
+  return [
+    ['Subtotal', formatMoney(order.subtotal, currency)],
+    ...(order.discountAmount > 0
+      ? ([['Discount', `−${formatMoney(order.discountAmount, currency)}`]] as Array<
+          [string, string]
+        >)
+      : []),
+    ['Tax', formatMoney(order.taxAmount, currency)],
+    ['Shipping', formatMoney(order.shippingCost, currency)],
+    ['Total', formatMoney(order.totalAmount, currency)],
+  ];
+}
+
+const renderers: { [T in EmailTemplate]: (data: EmailTemplateData[T]) => RenderedEmail } = {
+  verify_email: ({ verifyUrl, expiresInHours }) => ({
+    subject: `Confirm your email for ${SHOP_NAME}`,
+    ...layout(
+      'Confirm your email address',
+      [
+        `Thanks for signing up! Please confirm this is your email address. The link works for ${expiresInHours} hours.`,
+        "If you didn't create an account, you can ignore this email.",
+      ],
+      { label: 'Confirm email', url: verifyUrl }
+    ),
+  }),
+
+  password_reset: ({ resetUrl, expiresInMinutes }) => ({
+    subject: `Reset your ${SHOP_NAME} password`,
+    ...layout(
+      'Reset your password',
+      [
+        `Someone asked to reset the password of your account. The link works for ${expiresInMinutes} minutes and only once.`,
+        "If it wasn't you, ignore this email; your password stays the same.",
+      ],
+      { label: 'Choose a new password', url: resetUrl }
+    ),
+  }),
+
+  order_confirmation: ({ order, orderUrl, currency }) => {
+    const lines = orderLines(order, currency);
+    const totals = orderTotals(order, currency);
+    const { text, html } = layout(
+      `Thank you for your order #${shortId(order.id)}`,
+      [
+        "We've received your order and will let you know when it ships.",
+        ...lines,
+        ...totals.map(([label, value]) => `${label}: ${value}`),
+      ],
+      { label: 'View your order', url: orderUrl }
+    );
+    return { subject: `Order #${shortId(order.id)} confirmed`, text, html };
+  },
+
+  shipping_update: ({ order, orderUrl }) => {
+    const delivered = order.status === OrderStatus.DELIVERED;
+    const tracking = order.tracking?.trackingNumber
+      ? `Tracking number: ${order.tracking.trackingNumber}${order.tracking.carrier ? ` (${order.tracking.carrier})` : ''}`
+      : null;
+    return {
+      subject: delivered
+        ? `Order #${shortId(order.id)} has been delivered`
+        : `Order #${shortId(order.id)} is on its way`,
+      ...layout(
+        delivered ? 'Your order has been delivered' : 'Your order has shipped',
+        [
+          delivered
+            ? 'Your order has arrived. We hope you enjoy it!'
+            : `Your order is on its way to ${order.shippingAddress.city}.`,
+          ...(tracking && !delivered ? [tracking] : []),
+        ],
+        { label: 'View your order', url: orderUrl }
+      ),
+    };
+  },
+
+  order_mention: ({ orderId, orderUrl, author, comment }) => ({
+    subject: `${author} mentioned you on order #${shortId(orderId)}`,
+    ...layout(
+      `You were mentioned on order #${shortId(orderId)}`,
+      [`${author} wrote:`, comment, 'Internal comments are only visible to staff.'],
+      { label: 'Open the order', url: orderUrl }
+    ),
+  }),
+};
+
+export function renderEmail<T extends EmailTemplate>(
+  template: T,
+  data: EmailTemplateData[T]
+): RenderedEmail {
+  return renderers[template](data);
+}
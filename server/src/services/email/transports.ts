@@ -0,0 +1,106 @@
+/**
+ * Mail transports: the port the email outbox delivers through, and the local
+ * development transports that never send anything. The SMTP transport lives
+ * in smtp.transport.ts.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { EmailMessage } from '@server/domain/email';
+import { logInfo } from '@server/utils/logger';
+
+/** A rendered message together with the envelope details a transport needs */
+export interface OutgoingEmail extends EmailMessage {
+  id: string; // outbox id, reused as the Message-ID so retries can be recognised
+  from: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  /**
+   * Deliver one message. Rejects when it was not accepted; an error with
+   * `permanent: true` means retrying cannot help (e.g. the address is refused).
+   */
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+/** Bare address of "Name <addr>" or "addr" */
+export function addressOf(mailbox: string): string {
+  return (mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(text: string): string {
+  return (
+    Buffer.from(text, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') ?? ''
+  );
+}
+
+/**
+ * RFC 5322 message with plain-text and HTML alternatives, CRLF line endings
+ */
+export function formatMimeMessage(email: OutgoingEmail, date = new Date()): string {
+  const boundary = `alt-${email.id}`;
+  const domain = addressOf(email.from).split('@')[1] || 'localhost';
+  return [
+    `From: ${encodeHeader(email.from)}`,
+    `To: ${email.to}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${email.id}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(email.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(email.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * Writes every message to `dir` as an .eml file that any mail client can open
+ */
+export function createFileTransport(dir: string): MailTransport {
+  return {
+    name: 'file',
+    async send(email) {
+      await mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${Date.now()}-${email.id}.eml`);
+      await writeFile(file, formatMimeMessage(email));
+      logInfo('Email written to file', { to: email.to, subject: email.subject, file });
+    },
+  };
+}
+
+/**
+ * Only logs the messages, text body included
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(email) {
+      logInfo('Email (console transport)', {
+        to: email.to,
+        subject: email.subject,
+        text: email.text,
+      });
+    },
+  };
+}
@@ -0,0 +1,6 @@
+export {
+  createInventoryService,
+  type InventoryService,
+  inventoryService,
+  type StockReconciliation,
+} from './inventory.service';
@@ -0,0 +1,95 @@
+/**
+ * Inventory service: stock movement history, ledger reconciliation and
+ * low-stock alerts. Movements themselves are written by the repositories that
+ * change stock, in the same transaction as the change.
+ */
+
+import { loadEnv } from '@server/config/env';
+import { lazyRepository } from '@server/data';
+import type { ProductsRepo } from '@server/data/ports/products.repo';
+import type { StockMovementsRepo } from '@server/data/ports/stockMovements.repo';
+import type {
+  LowStockAlert,
+  StockMovement,
+  StockReconciliationEntry,
+} from '@server/domain/inventory';
+import type { Product } from '@server/domain/product';
+
+const CATALOG_PAGE_SIZE = 500;
+
+export interface StockReconciliation {
+  checkedAt: number;
+  productCount: number;
+  /** Products whose stock differs from the sum of their movements */
+  mismatches: StockReconciliationEntry[];
+}
+
+export function createInventoryService(
+  products: ProductsRepo,
+  movements: StockMovementsRepo,
+  defaultLowStockThreshold: number
+) {
+  async function allProducts(): Promise<Product[]> {
+    const all: Product[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await products.list({ limit: CATALOG_PAGE_SIZE, cursor });
+      all.push(...page.data);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return all;
+  }
+
+  return {
+    async history(productId: string, limit?: number): Promise<StockMovement[]> {
+      const product = await products.getById(productId);
+      if (!product) {
+        throw Object.assign(new Error('Product not found'), { status: 404 });
+      }
+      return movements.listByProduct(productId, { limit });
+    },
+
+    /**
+     * Recompute every product's stock from the ledger and report drift.
+     * Products created before the ledger existed show their whole stock as
+     * difference until an adjustment brings them in line.
+     */
+    async reconcile(): Promise<StockReconciliation> {
+      const [catalog, totals] = await Promise.all([allProducts(), movements.totals()]);
+      const mismatches: StockReconciliationEntry[] = [];
+      for (const product of catalog) {
+        const ledger = totals[product.id] ?? { quantity: 0, count: 0 };
+        if (ledger.quantity === product.stock) continue;
+        mismatches.push({
+          productId: product.id,
+          productName: product.name,
+          stock: product.stock,
+          ledgerStock: ledger.quantity,
+          difference: product.stock - ledger.quantity,
+          movementCount: ledger.count,
+        });
+      }
+      return { checkedAt: Date.now(), productCount: catalog.length, mismatches };
+    },
+
+    async lowStock(): Promise<LowStockAlert[]> {
+      return (await allProducts())
+        .map((product) => ({
+          productId: product.id,
+          productName: product.name,
+          stock: product.stock,
+          threshold: product.lowStockThreshold ?? defaultLowStockThreshold,
+        }))
+        .filter((alert) => alert.stock <= alert.threshold)
+        .sort((a, b) => a.stock - b.stock);
+    },
+  };
+}
+
+export type InventoryService = ReturnType<typeof createInventoryService>;
+
+export const inventoryService = createInventoryService(
+  lazyRepository('products'),
+  lazyRepository('stockMovements'),
+  loadEnv().LOW_STOCK_THRESHOLD
+);
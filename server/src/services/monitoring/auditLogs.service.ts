@@ -4,7 +4,7 @@
  * can be injected while the rest of the application consumes a single API.
  */
 
-import { fsAuditLogsRepo } from '@server/data/firestore/auditLogs.repo.fs';
+import { lazyRepository } from '@server/data';
 import type {
   AuditLogCreateInput,
   AuditLogListParams,
@@ -31,4 +31,4 @@ export function createAuditLogsService(repo: AuditLogsRepo) {
   };
 }
 
-export const auditLogsService = createAuditLogsService(fsAuditLogsRepo);
+export const auditLogsService = createAuditLogsService(lazyRepository('auditLogs'));
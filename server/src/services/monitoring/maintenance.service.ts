@@ -1,12 +1,11 @@
 /**
  * Service helpers for toggling the platform-wide maintenance mode flag stored
- * in Firestore. Controllers use this module to check or mutate downtime state
+ * in the `config` repository. Controllers use this module to check or mutate downtime state
  * along with metadata about the administrator performing the change.
  */
-import { getDb } from '@server/config/firestore';
+import { getRepositories } from '@server/data';
 
-const COLLECTION = 'config';
-const DOC_ID = 'maintenance';
+const CONFIG_KEY = 'maintenance';
 
 export interface MaintenanceState {
   enabled: boolean;
@@ -16,15 +15,13 @@ export interface MaintenanceState {
 }
 
 export async function getMaintenanceState(): Promise<MaintenanceState> {
-  const db = getDb();
-  const snap = await db.collection(COLLECTION).doc(DOC_ID).get();
-  if (!snap.exists) {
+  const data = await getRepositories().config.get<Partial<MaintenanceState>>(CONFIG_KEY);
+  if (!data) {
     return {
       enabled: false,
       updatedAt: 0,
     };
   }
-  const data = snap.data() as MaintenanceState;
   return {
     enabled: Boolean(data.enabled),
     updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : Date.now(),
@@ -37,13 +34,12 @@ export async function setMaintenanceState(
   enabled: boolean,
   actor?: { id?: string; email?: string }
 ): Promise<MaintenanceState> {
-  const db = getDb();
   const state: MaintenanceState = {
     enabled,
     updatedAt: Date.now(),
     updatedBy: actor?.id,
     updatedByEmail: actor?.email,
   };
-  await db.collection(COLLECTION).doc(DOC_ID).set(state, { merge: true });
+  await getRepositories().config.merge(CONFIG_KEY, { ...state });
   return state;
 }
@@ -1,3 +1,15 @@
 export { orderEvents } from './order.events';
 export { OrderService } from './order.service';
 export { initializeOrderAuditListeners } from './orderAudit.service';
+export { initializeOrderNotificationListeners } from './orderNotifications.service';
+export {
+  createOrderTimelineService,
+  initializeOrderTimelineListeners,
+  type OrderTimelineService,
+  orderTimelineService,
+} from './orderTimeline.service';
+export {
+  createReservationExpiryService,
+  type ReservationExpiryResult,
+  type ReservationExpiryService,
+} from './reservationExpiry.service';
@@ -1,12 +1,15 @@
 /**
  * Strongly typed event hub for order lifecycle changes. Wraps Node's
- * EventEmitter to broadcast status transitions, allowing services to
- * subscribe without sharing concrete implementations.
+ * EventEmitter to broadcast status transitions and edits, allowing services
+ * to subscribe without sharing concrete implementations.
  */
 import { EventEmitter } from 'node:events';
-import type { Order, OrderStatus } from '@server/domain/orders';
+import type { Order, OrderStatus, PaymentStatus } from '@server/domain/orders';
 
 export interface OrderEvents {
+  orderCreated: {
+    order: Order;
+  };
   orderStatusChanged: {
     order: Order;
     previousStatus: OrderStatus;
@@ -14,9 +17,29 @@ export interface OrderEvents {
     actorId?: string;
     actorEmail?: string;
     isAdmin?: boolean;
+    reason?: string; // set for system transitions such as reservation expiry
+  };
+  paymentStatusChanged: {
+    order: Order;
+    previousStatus: PaymentStatus;
+    newStatus: PaymentStatus;
+    paymentId: string;
+    actorId?: string; // absent for provider webhooks
+    actorEmail?: string;
+    isAdmin?: boolean;
+  };
+  orderUpdated: {
+    order: Order;
+    previous: Order;
+    fields: OrderEditedField[]; // only fields whose value changed
+    actorId?: string;
+    isAdmin?: boolean;
   };
 }
 
+/** Order fields whose edits are announced with `orderUpdated` */
+export type OrderEditedField = 'shippingAddress' | 'tracking' | 'notes' | 'paymentStatus';
+
 class OrderEventEmitter extends EventEmitter {
   emit<K extends keyof OrderEvents>(eventName: K, payload: OrderEvents[K]): boolean {
     return super.emit(eventName, payload);
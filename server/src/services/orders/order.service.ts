@@ -9,16 +9,20 @@
  */
 
 import type { OrderRepository } from '@server/data/ports/OrderRepository';
+import type { StockActor } from '@server/domain/inventory';
 import {
   type CreateOrderInput,
+  missingShippingAddressFields,
   type Order,
+  type OrderQuote,
   type OrderStats,
   OrderStatus,
+  type QuoteOrderInput,
   type ShippingAddress,
   type UpdateOrderInput,
 } from '@server/domain/orders';
 import { logError } from '@server/utils/logger';
-import { orderEvents } from './order.events';
+import { type OrderEditedField, orderEvents } from './order.events';
 
 /**
  * Service class for order business logic
@@ -33,13 +37,12 @@ export class OrderService {
    */
   private static readonly USER_ALLOWED_UPDATE_FIELDS = ['notes', 'shippingAddress'];
 
-  private static readonly SHIPPING_ADDRESS_REQUIRED_FIELDS: Array<keyof ShippingAddress> = [
-    'fullName',
-    'street',
-    'city',
-    'state',
-    'postalCode',
-    'country',
+  /** Fields whose edits are announced with an orderUpdated event */
+  private static readonly EDITED_FIELDS: OrderEditedField[] = [
+    'shippingAddress',
+    'tracking',
+    'notes',
+    'paymentStatus',
   ];
 
   /**
@@ -76,8 +79,41 @@ export class OrderService {
 
     this.assertShippingAddressComplete(orderData.shippingAddress);
 
-    // Validate quantities
-    for (const item of orderData.items) {
+    this.assertItemsValid(orderData.items);
+
+    let order: Order;
+    try {
+      order = await this.orderRepository.create(orderData, userId, userEmail);
+    } catch (error) {
+      throw this.mapRepositoryError(error, 'Failed to create order');
+    }
+    orderEvents.emit('orderCreated', { order });
+    return order;
+  }
+
+  /**
+   * Price a prospective order using the same rules as order creation
+   *
+   * @param {QuoteOrderInput} input - Cart lines and optional shipping destination
+   * @returns {Promise<OrderQuote>} Priced lines and totals
+   * @throws {Error} If the cart is empty or references unknown products
+   */
+  async quoteOrder(input: QuoteOrderInput): Promise<OrderQuote> {
+    if (!input.items || input.items.length === 0) {
+      throw OrderService.badRequest('Quote must contain at least one item');
+    }
+
+    this.assertItemsValid(input.items);
+
+    try {
+      return await this.orderRepository.quote(input);
+    } catch (error) {
+      throw this.mapRepositoryError(error, 'Failed to quote order');
+    }
+  }
+
+  private assertItemsValid(items: CreateOrderInput['items']): void {
+    for (const item of items) {
       if (item.quantity <= 0) {
         throw OrderService.badRequest(`Invalid quantity: ${item.quantity}`);
       }
@@ -85,34 +121,50 @@ export class OrderService {
         throw OrderService.badRequest('Product ID is required for all items');
       }
     }
+  }
 
-    try {
-      return await this.orderRepository.create(orderData, userId, userEmail);
-    } catch (error) {
-      const err = error as any;
-      if (err?.code === 'INSUFFICIENT_STOCK') {
-        const conflictError = new Error(err.message);
-        (conflictError as any).status = 409;
-        (conflictError as any).code = err.code;
-        (conflictError as any).details = {
-          productId: err.productId,
-          available: err.available,
-          requested: err.requested,
-        };
-        throw conflictError;
-      }
-      if (err?.code === 'PRODUCT_NOT_FOUND') {
-        const notFoundError = new Error(err.message);
-        (notFoundError as any).status = 404;
-        (notFoundError as any).code = err.code;
-        (notFoundError as any).details = { productId: err.productId };
-        throw notFoundError;
-      }
-      if (err instanceof Error) {
-        throw err;
-      }
-      throw new Error('Failed to create order');
+  /**
+   * Translate repository error codes into HTTP-aware errors
+   */
+  private mapRepositoryError(error: unknown, fallbackMessage: string): Error {
+    const err = error as any;
+    if (err?.code === 'INSUFFICIENT_STOCK') {
+      const conflictError = new Error(err.message);
+      (conflictError as any).status = 409;
+      (conflictError as any).code = err.code;
+      (conflictError as any).details = {
+        productId: err.productId,
+        ...(err.variantId ? { variantId: err.variantId } : {}),
+        available: err.available,
+        requested: err.requested,
+      };
+      return conflictError;
     }
+    if (err?.code === 'PRODUCT_NOT_FOUND') {
+      const notFoundError = new Error(err.message);
+      (notFoundError as any).status = 404;
+      (notFoundError as any).code = err.code;
+      (notFoundError as any).details = { productId: err.productId };
+      return notFoundError;
+    }
+    if (err?.code === 'VARIANT_REQUIRED' || err?.code === 'VARIANT_NOT_FOUND') {
+      const variantError = new Error(err.message);
+      (variantError as any).status = err.code === 'VARIANT_REQUIRED' ? 400 : 404;
+      (variantError as any).code = err.code;
+      (variantError as any).details = { productId: err.productId, variantId: err.variantId };
+      return variantError;
+    }
+    if (err?.code === 'PROMOTION_NOT_FOUND' || err?.code === 'PROMOTION_NOT_APPLICABLE') {
+      const promotionError = new Error(err.message);
+      (promotionError as any).status = 422;
+      (promotionError as any).code = err.code;
+      (promotionError as any).details = { promoCode: err.promoCode };
+      return promotionError;
+    }
+    if (err instanceof Error) {
+      return err;
+    }
+    return new Error(fallbackMessage);
   }
 
   /**
@@ -223,10 +275,14 @@ export class OrderService {
       );
     }
 
-    const updatedOrder = await this.orderRepository.update(orderId, updateData);
+    const updatedOrder = await this.orderRepository.update(orderId, updateData, {
+      guard: updateData.status ? { statuses: [existingOrder.status] } : undefined,
+      actor: { id: userId },
+    });
 
     // Pass actor info for audit logging (email will be fetched by audit service if needed)
     await this.handleStatusChangeIfNeeded(existingOrder, updatedOrder, userId, undefined, isAdmin);
+    this.announceEdits(existingOrder, updatedOrder, userId, isAdmin);
 
     return updatedOrder;
   }
@@ -258,9 +314,13 @@ export class OrderService {
       throw OrderService.badRequest(`Cannot cancel order with status: ${existingOrder.status}`);
     }
 
-    const updatedOrder = await this.orderRepository.update(orderId, {
-      status: OrderStatus.CANCELLED,
-    });
+    // Guarded so a concurrent confirmation or expiry wins cleanly instead of
+    // being overwritten
+    const updatedOrder = await this.orderRepository.update(
+      orderId,
+      { status: OrderStatus.CANCELLED },
+      { guard: { statuses: cancellableStatuses }, actor: { id: userId } }
+    );
 
     // Pass actor info for audit logging (email will be fetched by audit service if needed)
     await this.handleStatusChangeIfNeeded(existingOrder, updatedOrder, userId, undefined, isAdmin);
@@ -272,11 +332,12 @@ export class OrderService {
    * Delete an order (admin function only)
    *
    * @param {string} orderId - Order ID to delete
+   * @param {StockActor} [actor] - Admin deleting the order
    * @returns {Promise<void>}
    * @throws {Error} If order not found
    */
-  async deleteOrder(orderId: string): Promise<void> {
-    await this.orderRepository.delete(orderId);
+  async deleteOrder(orderId: string, actor?: StockActor): Promise<void> {
+    await this.orderRepository.delete(orderId, actor);
   }
 
   /**
@@ -324,12 +385,7 @@ export class OrderService {
   }
 
   private assertShippingAddressComplete(address: ShippingAddress): void {
-    const missing = OrderService.SHIPPING_ADDRESS_REQUIRED_FIELDS.filter((field) => {
-      const value = address[field];
-      return typeof value !== 'string' || value.trim().length === 0;
-    });
-
-    if (missing.length > 0) {
+    if (missingShippingAddressFields(address).length > 0) {
       throw OrderService.badRequest('Incomplete shipping address provided');
     }
   }
@@ -355,6 +411,21 @@ export class OrderService {
     });
   }
 
+  /**
+   * Emit an orderUpdated event when an update changed the address, tracking,
+   * notes or payment status of an order
+   */
+  private announceEdits(previous: Order, updated: Order, actorId: string, isAdmin: boolean): void {
+    const fields = OrderService.EDITED_FIELDS.filter(
+      (field) => JSON.stringify(previous[field]) !== JSON.stringify(updated[field])
+    );
+    if (fields.length === 0) {
+      return;
+    }
+
+    orderEvents.emit('orderUpdated', { order: updated, previous, fields, actorId, isAdmin });
+  }
+
   private static httpError(message: string, status: number): Error {
     const error = new Error(message);
     (error as any).status = status;
@@ -6,8 +6,7 @@
  * and debugging purposes.
  */
 
-import { getDb } from '@server/config/firestore';
-import type { User } from '@server/domain/user';
+import { getRepositories } from '@server/data';
 import { auditLogsService } from '@server/services/monitoring';
 import { logError } from '@server/utils/logger';
 import type { OrderEvents } from './order.events';
@@ -19,20 +18,19 @@ import { orderEvents } from './order.events';
  */
 export function initializeOrderAuditListeners(): void {
   orderEvents.on('orderStatusChanged', async (payload: OrderEvents['orderStatusChanged']) => {
-    const { order, previousStatus, newStatus, actorId, actorEmail, isAdmin } = payload;
+    const { order, previousStatus, newStatus, actorId, actorEmail, isAdmin, reason } = payload;
 
     try {
-      // If actor info is provided, use it; otherwise use order owner info
-      const finalActorId = actorId || order.userId;
-      let finalActorEmail = actorEmail || order.userEmail;
+      // If actor info is provided, use it; otherwise use order owner info,
+      // unless the system made the change
+      const finalActorId = actorId || (reason ? undefined : order.userId);
+      let finalActorEmail = actorEmail || (reason ? undefined : order.userEmail);
 
       // If we have actorId but no email, try to fetch it
       if (actorId && !actorEmail) {
         try {
-          const db = getDb();
-          const userSnap = await db.collection('users').doc(actorId).get();
-          if (userSnap.exists) {
-            const user = userSnap.data() as User;
+          const user = await getRepositories().users.findById(actorId);
+          if (user) {
             finalActorEmail = user.email;
           }
         } catch {
@@ -42,7 +40,7 @@ export function initializeOrderAuditListeners(): void {
 
       await auditLogsService.log({
         action: 'order.status_change',
-        summary: `Order ${order.id} status changed from ${previousStatus} to ${newStatus}${isAdmin ? ' (by admin)' : ''}`,
+        summary: `Order ${order.id} status changed from ${previousStatus} to ${newStatus}${isAdmin ? ' (by admin)' : ''}${reason ? ` (${reason})` : ''}`,
         actorId: finalActorId,
         actorEmail: finalActorEmail,
         targetId: order.id,
@@ -54,6 +52,7 @@ export function initializeOrderAuditListeners(): void {
           totalAmount: order.totalAmount,
           itemCount: order.items.length,
           isAdmin: isAdmin ?? false,
+          ...(reason ? { reason } : {}),
         },
       });
     } catch (error) {
@@ -65,4 +64,34 @@ export function initializeOrderAuditListeners(): void {
       });
     }
   });
+
+  orderEvents.on('paymentStatusChanged', async (payload: OrderEvents['paymentStatusChanged']) => {
+    const { order, previousStatus, newStatus, paymentId, actorId, actorEmail, isAdmin } = payload;
+
+    try {
+      const source = actorId ? (isAdmin ? ' (by admin)' : '') : ' (provider webhook)';
+      await auditLogsService.log({
+        action: 'order.payment_status_change',
+        summary: `Order ${order.id} payment changed from ${previousStatus} to ${newStatus}${source}`,
+        actorId,
+        actorEmail,
+        targetId: order.id,
+        targetType: 'order',
+        metadata: {
+          previousStatus,
+          newStatus,
+          paymentId,
+          orderId: order.id,
+          totalAmount: order.totalAmount,
+          isAdmin: isAdmin ?? false,
+        },
+      });
+    } catch (error) {
+      logError('Failed to log payment status change to audit log', error, {
+        orderId: order.id,
+        previousStatus,
+        newStatus,
+      });
+    }
+  });
 }
@@ -0,0 +1,56 @@
+/**
+ * Order Notifications Service
+ *
+ * Listens to order lifecycle events and emails the customer: a confirmation
+ * when an order is placed, and an update when it ships and when it is
+ * delivered. Emails go through the outbox, so a mail outage never affects
+ * order processing.
+ */
+
+import { loadEnv } from '@server/config/env';
+import { loadPricingConfig } from '@server/config/pricing';
+import { OrderStatus } from '@server/domain/orders';
+import { getEmailService } from '@server/services/email';
+import { logError } from '@server/utils/logger';
+import type { OrderEvents } from './order.events';
+import { orderEvents } from './order.events';
+
+const SHIPPING_UPDATE_STATUSES: ReadonlySet<OrderStatus> = new Set([
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+]);
+
+function orderUrl(orderId: string): string {
+  return new URL(`/orders/${orderId}`, loadEnv().APP_URL).toString();
+}
+
+/**
+ * Initialize order event listeners for customer emails.
+ * Should be called once during application startup.
+ */
+export function initializeOrderNotificationListeners(): void {
+  orderEvents.on('orderCreated', async ({ order }: OrderEvents['orderCreated']) => {
+    try {
+      await getEmailService().queue('order_confirmation', order.userEmail, {
+        order,
+        orderUrl: orderUrl(order.id),
+        currency: loadPricingConfig().currency,
+      });
+    } catch (error) {
+      logError('Failed to queue order confirmation email', error, { orderId: order.id });
+    }
+  });
+
+  orderEvents.on('orderStatusChanged', async (payload: OrderEvents['orderStatusChanged']) => {
+    const { order, newStatus } = payload;
+    if (!SHIPPING_UPDATE_STATUSES.has(newStatus)) return;
+    try {
+      await getEmailService().queue('shipping_update', order.userEmail, {
+        order,
+        orderUrl: orderUrl(order.id),
+      });
+    } catch (error) {
+      logError('Failed to queue shipping update email', error, { orderId: order.id, newStatus });
+    }
+  });
+}
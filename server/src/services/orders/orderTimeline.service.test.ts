@@ -0,0 +1,224 @@
+import { createMemoryRepositories, getRepositories, setRepositories } from '@server/data';
+import { OrderStatus, PaymentMethod, PaymentStatus } from '@server/domain/orders';
+import { setEmailService } from '@server/services/email';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { orderEvents } from './order.events';
+import {
+  createOrderTimelineService,
+  initializeOrderTimelineListeners,
+} from './orderTimeline.service';
+
+const customer = { id: 'customer-1', email: 'ada@example.com' };
+
+async function createUser(email: string, role: string) {
+  const users = getRepositories().users;
+  const user = await users.createUser({ email, passwordHash: 'x' });
+  return users.setRole(user.id, role);
+}
+
+async function setup() {
+  const repos = getRepositories();
+  const service = createOrderTimelineService(repos.orderTimeline, repos.orders);
+  const product = await repos.products.create({
+    name: 'Lantern',
+    price: 25,
+    category: 'outdoor',
+    rating: 0,
+    stock: 10,
+  });
+  const order = await repos.orders.create(
+    {
+      items: [{ productId: product.id, quantity: 1 }],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+      shippingAddress: {
+        fullName: 'Ada Lovelace',
+        street: '12 Analytical Row',
+        city: 'London',
+        state: 'LDN',
+        postalCode: 'N1 9GU',
+        country: 'GB',
+      },
+    },
+    customer.id,
+    customer.email
+  );
+  return { repos, service, order };
+}
+
+async function mentionEmails() {
+  return (await getRepositories().emailOutbox.listDue(Number.MAX_SAFE_INTEGER, 50))
+    .filter((email) => email.template === 'order_mention')
+    .map((email) => email.to)
+    .sort();
+}
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories());
+  setEmailService(null);
+});
+
+describe('orderTimelineService.list', () => {
+  it("shows customers their order's history without internal entries or who on the staff acted", async () => {
+    const { service, order } = await setup();
+    const admin = await createUser('grace@example.com', 'admin');
+    const staff = { id: admin.id, email: admin.email, isAdmin: true };
+    await service.record({
+      orderId: order.id,
+      type: 'created',
+      summary: 'Order placed',
+      internal: false,
+      actorType: 'customer',
+      actorId: customer.id,
+      actorEmail: customer.email,
+    });
+    await service.record({
+      orderId: order.id,
+      type: 'status_change',
+      summary: 'Status changed from pending to confirmed',
+      internal: false,
+      actorType: 'staff',
+      actorId: admin.id,
+      metadata: { previousStatus: 'pending', newStatus: 'confirmed' },
+    });
+    await service.addComment(order.id, staff, 'Customer called about the delivery date');
+
+    const forStaff = await service.list(order.id, staff);
+    const forCustomer = await service.list(order.id, customer);
+
+    expect(forStaff.map((e) => e.type)).toEqual(['comment', 'status_change', 'created']);
+    expect(forStaff[1]).toMatchObject({ actorId: admin.id, actorEmail: admin.email });
+    expect(forCustomer.map((e) => e.type)).toEqual(['status_change', 'created']);
+    expect(forCustomer[0]).toMatchObject({ actorType: 'staff' });
+    expect(forCustomer[0]).not.toHaveProperty('actorId');
+    expect(forCustomer[0]).not.toHaveProperty('actorEmail');
+    expect(forCustomer[0]).not.toHaveProperty('metadata');
+    expect(forCustomer[1]).toMatchObject({ actorId: customer.id, actorEmail: customer.email });
+  });
+
+  it("refuses other customers' orders", async () => {
+    const { service, order } = await setup();
+
+    await expect(
+      service.list(order.id, { id: 'customer-2', email: 'eve@example.com' })
+    ).rejects.toMatchObject({ status: 403 });
+  });
+});
+
+describe('orderTimelineService.addComment', () => {
+  it('mentions staff by email address or an unambiguous local part', async () => {
+    const { service, order } = await setup();
+    const author = await createUser('grace@example.com', 'admin');
+    const linus = await createUser('linus@example.com', 'support');
+    const margaret = await createUser('margaret@shop.example', 'fulfilment');
+    await createUser('barbara@example.com', 'user');
+
+    const entry = await service.addComment(
+      order.id,
+      { id: author.id, email: author.email, isAdmin: true },
+      '@linus and @Margaret@shop.example, please check. cc @barbara @grace @linus'
+    );
+
+    expect(entry.mentions).toEqual([
+      { userId: linus.id, email: linus.email },
+      { userId: margaret.id, email: margaret.email },
+    ]);
+    expect(await mentionEmails()).toEqual([linus.email, margaret.email]);
+  });
+
+  it('mentions no one for a local part several accounts share', async () => {
+    const { service, order } = await setup();
+    const author = await createUser('grace@example.com', 'admin');
+    await createUser('sam@example.com', 'support');
+    const other = await createUser('sam@other.example', 'support');
+
+    const entry = await service.addComment(
+      order.id,
+      { id: author.id, email: author.email, isAdmin: true },
+      'Over to @sam, or @sam@other.example'
+    );
+
+    expect(entry.mentions).toEqual([{ userId: other.id, email: other.email }]);
+    expect(await mentionEmails()).toEqual([other.email]);
+  });
+
+  it('only lets staff comment', async () => {
+    const { service, order } = await setup();
+
+    await expect(service.addComment(order.id, customer, 'Hello')).rejects.toMatchObject({
+      status: 403,
+    });
+  });
+});
+
+describe('order timeline listeners', () => {
+  const listeners = (
+    ['orderCreated', 'orderStatusChanged', 'paymentStatusChanged', 'orderUpdated'] as const
+  ).map((event) => [event, orderEvents.listeners(event)] as const);
+
+  afterAll(() => {
+    // Leave only the listeners that were there before the suite
+    for (const [event, before] of listeners) {
+      for (const listener of orderEvents.listeners(event)) {
+        if (!before.includes(listener)) orderEvents.off(event, listener as () => void);
+      }
+    }
+  });
+
+  it('records order events on the timeline', async () => {
+    const { repos, service, order } = await setup();
+    const admin = await createUser('grace@example.com', 'admin');
+    initializeOrderTimelineListeners(service);
+
+    orderEvents.emit('orderCreated', { order });
+    orderEvents.emit('orderStatusChanged', {
+      order,
+      previousStatus: OrderStatus.PENDING,
+      newStatus: OrderStatus.CONFIRMED,
+      actorId: admin.id,
+      isAdmin: true,
+    });
+    orderEvents.emit('paymentStatusChanged', {
+      order,
+      previousStatus: PaymentStatus.PENDING,
+      newStatus: PaymentStatus.PAID,
+      paymentId: 'pay-1',
+    });
+    orderEvents.emit('orderUpdated', {
+      order: { ...order, shippingAddress: { ...order.shippingAddress, city: 'Leeds' } },
+      previous: order,
+      fields: ['shippingAddress'],
+      actorId: customer.id,
+    });
+
+    await vi.waitFor(async () => {
+      expect(await repos.orderTimeline.listByOrder(order.id)).toHaveLength(4);
+    });
+    const entries = await repos.orderTimeline.listByOrder(order.id);
+    expect(entries).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          type: 'created',
+          actorType: 'customer',
+          actorEmail: customer.email,
+        }),
+        expect.objectContaining({
+          type: 'status_change',
+          summary: 'Status changed from pending to confirmed',
+          actorType: 'staff',
+          actorEmail: admin.email,
+        }),
+        expect.objectContaining({
+          type: 'payment',
+          summary: 'Payment changed from pending to paid',
+          actorType: 'system',
+        }),
+        expect.objectContaining({
+          type: 'address_updated',
+          summary: 'Shipping address updated (Leeds, GB)',
+          actorType: 'customer',
+        }),
+      ])
+    );
+    expect(entries.every((e) => !e.internal)).toBe(true);
+  });
+});
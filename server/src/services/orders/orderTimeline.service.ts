@@ -0,0 +1,262 @@
+/**
+ * Order Timeline Service
+ *
+ * Keeps the history of every order: listens to order lifecycle events and
+ * records status changes, payment changes and edits to the shipping address,
+ * tracking and notes. Staff can add internal comments, @mentioning each other
+ * by email address or its part before the "@" (when only one account has
+ * it); mentioned staff are emailed.
+ * Customers see their order's history without internal comments and without
+ * who on the staff made a change.
+ */
+
+import { loadEnv } from '@server/config/env';
+import { getRepositories, lazyRepository } from '@server/data';
+import type { NewTimelineEntry, OrderTimelineRepo } from '@server/data/ports/orderTimeline.repo';
+import type { OrderRepository } from '@server/data/ports/OrderRepository';
+import type { Order } from '@server/domain/orders';
+import {
+  MAX_COMMENT_LENGTH,
+  parseMentionHandles,
+  type TimelineActorType,
+  type TimelineEntry,
+  type TimelineMention,
+} from '@server/domain/orderTimeline';
+import type { User } from '@server/domain/user';
+import { rolesService } from '@server/services/auth';
+import { getEmailService } from '@server/services/email';
+import { logError } from '@server/utils/logger';
+import type { PaymentActor } from '../payments';
+import type { OrderEvents } from './order.events';
+import { orderEvents } from './order.events';
+import { OrderService } from './order.service';
+
+const SYSTEM_ACTOR = 'system';
+
+function httpError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+function actorTypeOf(order: Order, actorId?: string, isAdmin?: boolean): TimelineActorType {
+  if (!actorId || actorId === SYSTEM_ACTOR) return 'system';
+  return actorId === order.userId && !isAdmin ? 'customer' : 'staff';
+}
+
+async function emailOf(actorId?: string): Promise<string | undefined> {
+  if (!actorId || actorId === SYSTEM_ACTOR) return undefined;
+  try {
+    return (await getRepositories().users.findById(actorId))?.email;
+  } catch {
+    return undefined; // the email is only a convenience for staff reading the timeline
+  }
+}
+
+/** The account a handle names; a local part shared by several accounts names none */
+async function findMentioned(handle: string): Promise<User | null> {
+  const users = getRepositories().users;
+  if (handle.includes('@')) return users.findByEmail(handle);
+  const matches = await users.findByEmailLocalPart(handle, 2);
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/** Staff who can see the order, for each handle that names one */
+async function resolveMentions(handles: string[]): Promise<TimelineMention[]> {
+  const mentions: TimelineMention[] = [];
+  for (const handle of handles) {
+    const user = await findMentioned(handle);
+    if (!user || mentions.some((m) => m.userId === user.id)) continue;
+    if ((await rolesService.permissionsOf(user.role)).includes('orders:read')) {
+      mentions.push({ userId: user.id, email: user.email });
+    }
+  }
+  return mentions;
+}
+
+/** The entry as its customer sees it */
+function forCustomer(entry: TimelineEntry): TimelineEntry {
+  const { actorId, actorEmail, metadata: _metadata, ...rest } = entry;
+  return rest.actorType === 'customer' ? { ...rest, actorId, actorEmail } : rest;
+}
+
+export function createOrderTimelineService(repo: OrderTimelineRepo, orders: OrderRepository) {
+  const orderService = new OrderService(orders);
+
+  return {
+    /**
+     * Add an entry to an order's timeline; fills in the actor's email when
+     * only their ID is known
+     */
+    async record(entry: NewTimelineEntry): Promise<TimelineEntry> {
+      return repo.append({
+        ...entry,
+        actorEmail: entry.actorEmail ?? (await emailOf(entry.actorId)),
+      });
+    },
+
+    /**
+     * An order's timeline, newest first. Customers only get the entries they
+     * may see.
+     *
+     * @throws {Error} 404 for unknown orders, 403 for other customers' orders
+     */
+    async list(orderId: string, actor: PaymentActor): Promise<TimelineEntry[]> {
+      const order = await orderService.getOrder(orderId, actor.id ?? '', actor.isAdmin);
+      if (!order) throw httpError('Order not found', 404);
+      const entries = (await repo.listByOrder(orderId)).reverse();
+      return actor.isAdmin ? entries : entries.filter((e) => !e.internal).map(forCustomer);
+    },
+
+    /**
+     * Leave an internal comment on an order and email the staff it mentions
+     *
+     * @throws {Error} 404 for unknown orders, 403 for customers, 400 for empty
+     *   or overlong comments
+     */
+    async addComment(orderId: string, actor: PaymentActor, body: string): Promise<TimelineEntry> {
+      if (!actor.isAdmin || !actor.id) {
+        throw httpError('Only staff can comment on orders', 403);
+      }
+      const text = body.trim();
+      if (!text || text.length > MAX_COMMENT_LENGTH) {
+        throw httpError(`A comment must have 1 to ${MAX_COMMENT_LENGTH} characters`, 400);
+      }
+      const order = await orders.findById(orderId);
+      if (!order) throw httpError(`Order not found: ${orderId}`, 404);
+
+      const mentions = (await resolveMentions(parseMentionHandles(text))).filter(
+        (m) => m.userId !== actor.id
+      );
+      const author = actor.email ?? (await emailOf(actor.id)) ?? 'A colleague';
+      const entry = await repo.append({
+        orderId,
+        type: 'comment',
+        summary: `${author} commented`,
+        body: text,
+        ...(mentions.length ? { mentions } : {}),
+        internal: true,
+        actorType: 'staff',
+        actorId: actor.id,
+        actorEmail: actor.email ?? author,
+      });
+
+      const orderUrl = new URL(`/orders/${orderId}`, loadEnv().APP_URL).toString();
+      for (const mention of mentions) {
+        await getEmailService()
+          .queue('order_mention', mention.email, { orderId, orderUrl, author, comment: text })
+          .catch((error) =>
+            logError('Failed to queue order mention email', error, {
+              orderId,
+              userId: mention.userId,
+            })
+          );
+      }
+      return entry;
+    },
+  };
+}
+
+export type OrderTimelineService = ReturnType<typeof createOrderTimelineService>;
+
+export const orderTimelineService = createOrderTimelineService(
+  lazyRepository('orderTimeline'),
+  lazyRepository('orders')
+);
+
+const EDIT_SUMMARIES = {
+  shippingAddress: ['address_updated', 'Shipping address updated'],
+  tracking: ['tracking_updated', 'Tracking details updated'],
+  notes: ['notes_updated', 'Order notes updated'],
+  paymentStatus: ['payment', 'Payment status updated'],
+} as const;
+
+/** One line describing an edited field, e.g. "Shipping address updated (Leeds, GB)" */
+function describeEdit(order: Order, field: keyof typeof EDIT_SUMMARIES): string {
+  const [, summary] = EDIT_SUMMARIES[field];
+  switch (field) {
+    case 'shippingAddress':
+      return `${summary} (${order.shippingAddress.city}, ${order.shippingAddress.country})`;
+    case 'tracking':
+      return order.tracking?.trackingNumber
+        ? `${summary}: ${[order.tracking.carrier, order.tracking.trackingNumber].filter(Boolean).join(' ')}`
+        : summary;
+    case 'paymentStatus':
+      return `Payment status set to ${order.paymentStatus}`;
+    default:
+      return summary;
+  }
+}
+
+/**
+ * Initialize order event listeners that build order timelines.
+ * Should be called once during application startup.
+ */
+export function initializeOrderTimelineListeners(
+  timeline: OrderTimelineService = orderTimelineService
+): void {
+  // Timeline entries should never break order processing
+  const record = (entry: NewTimelineEntry) =>
+    timeline.record(entry).catch((error) =>
+      logError('Failed to record order timeline entry', error, {
+        orderId: entry.orderId,
+        type: entry.type,
+      })
+    );
+
+  orderEvents.on('orderCreated', async ({ order }: OrderEvents['orderCreated']) => {
+    await record({
+      orderId: order.id,
+      type: 'created',
+      summary: 'Order placed',
+      internal: false,
+      actorType: 'customer',
+      actorId: order.userId,
+      actorEmail: order.userEmail,
+      metadata: { totalAmount: order.totalAmount, itemCount: order.items.length },
+    });
+  });
+
+  orderEvents.on('orderStatusChanged', async (payload: OrderEvents['orderStatusChanged']) => {
+    const { order, previousStatus, newStatus, actorId, actorEmail, isAdmin, reason } = payload;
+    await record({
+      orderId: order.id,
+      type: 'status_change',
+      summary: `Status changed from ${previousStatus} to ${newStatus}${reason ? ` (${reason})` : ''}`,
+      internal: false,
+      actorType: actorTypeOf(order, actorId, isAdmin),
+      actorId: actorId === SYSTEM_ACTOR ? undefined : actorId,
+      actorEmail,
+      metadata: { previousStatus, newStatus, ...(reason ? { reason } : {}) },
+    });
+  });
+
+  orderEvents.on('paymentStatusChanged', async (payload: OrderEvents['paymentStatusChanged']) => {
+    const { order, previousStatus, newStatus, paymentId, actorId, actorEmail, isAdmin } = payload;
+    await record({
+      orderId: order.id,
+      type: 'payment',
+      summary: `Payment changed from ${previousStatus} to ${newStatus}`,
+      internal: false,
+      actorType: actorTypeOf(order, actorId, isAdmin),
+      actorId,
+      actorEmail,
+      metadata: { previousStatus, newStatus, paymentId },
+    });
+  });
+
+  orderEvents.on('orderUpdated', async (payload: OrderEvents['orderUpdated']) => {
+    const { order, previous, fields, actorId, isAdmin } = payload;
+    for (const field of fields) {
+      await record({
+        orderId: order.id,
+        type: EDIT_SUMMARIES[field][0],
+        summary: describeEdit(order, field),
+        internal: false,
+        actorType: actorTypeOf(order, actorId, isAdmin),
+        actorId: actorId === SYSTEM_ACTOR ? undefined : actorId,
+        ...(field === 'paymentStatus'
+          ? { metadata: { previousStatus: previous.paymentStatus, newStatus: order.paymentStatus } }
+          : {}),
+      });
+    }
+  });
+}
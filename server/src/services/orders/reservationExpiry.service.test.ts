@@ -0,0 +1,80 @@
+import { createMemoryRepositories } from '@server/data';
+import { StockMovementType } from '@server/domain/inventory';
+import { OrderStatus, PaymentMethod, PaymentStatus } from '@server/domain/orders';
+import { createFakeClock } from '@server/utils/clock';
+import { describe, expect, it } from 'vitest';
+import { createReservationExpiryService } from './reservationExpiry.service';
+
+const TTL_MS = 30 * 60 * 1000;
+
+async function setup() {
+  const repos = createMemoryRepositories();
+  const clock = createFakeClock();
+  const service = createReservationExpiryService(repos.orders, { ttlMs: TTL_MS, clock });
+  const product = await repos.products.create({
+    name: 'Lantern',
+    price: 25,
+    category: 'outdoor',
+    rating: 0,
+    stock: 10,
+  });
+  const placeOrder = (quantity: number) =>
+    repos.orders.create(
+      {
+        items: [{ productId: product.id, quantity }],
+        paymentMethod: PaymentMethod.CREDIT_CARD,
+        shippingAddress: {
+          fullName: 'Ada Lovelace',
+          street: '12 Analytical Row',
+          city: 'London',
+          state: 'LDN',
+          postalCode: 'N1 9GU',
+          country: 'GB',
+        },
+      },
+      'user-1',
+      'ada@example.com'
+    );
+  return { repos, clock, service, product, placeOrder };
+}
+
+describe('reservationExpiry', () => {
+  it('keeps reservations until the TTL has passed', async () => {
+    const { clock, service, placeOrder } = await setup();
+    await placeOrder(2);
+
+    clock.advance(TTL_MS - 1000);
+
+    expect(await service.expireReservations()).toEqual({ expired: [], skipped: [] });
+  });
+
+  it('cancels unpaid orders past the TTL and releases their stock once', async () => {
+    const { repos, clock, service, product, placeOrder } = await setup();
+    const order = await placeOrder(3);
+    expect((await repos.products.getById(product.id))?.stock).toBe(7);
+
+    clock.advance(TTL_MS + 1000);
+    const first = await service.expireReservations();
+    const second = await service.expireReservations();
+
+    expect(first.expired).toEqual([order.id]);
+    expect(second.expired).toEqual([]);
+    expect((await repos.orders.findById(order.id))?.status).toBe(OrderStatus.CANCELLED);
+    expect((await repos.products.getById(product.id))?.stock).toBe(10);
+    const movements = await repos.stockMovements.listByProduct(product.id);
+    expect(movements.filter((m) => m.type === StockMovementType.RELEASE)).toHaveLength(1);
+  });
+
+  it('leaves orders with money held for them alone', async () => {
+    const { repos, clock, service, placeOrder } = await setup();
+    const paid = await placeOrder(1);
+    await repos.orders.update(paid.id, { paymentStatus: PaymentStatus.AUTHORIZED });
+    const unpaid = await placeOrder(1);
+
+    clock.advance(TTL_MS + 1000);
+    const result = await service.expireReservations();
+
+    expect(result.expired).toEqual([unpaid.id]);
+    expect((await repos.orders.findById(paid.id))?.status).toBe(OrderStatus.PENDING);
+  });
+});
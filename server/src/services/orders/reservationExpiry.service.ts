@@ -0,0 +1,72 @@
+/**
+ * Reservation Expiry Service
+ *
+ * Stock is decremented when an order is placed. If the customer never pays,
+ * the pending order would hold that stock forever; this job cancels unpaid
+ * pending orders older than the reservation TTL, which releases their stock
+ * through the repository's exactly-once cancellation path.
+ */
+
+import type { OrderRepository } from '@server/data/ports/OrderRepository';
+import { OrderStatus, UNPAID_PAYMENT_STATUSES } from '@server/domain/orders';
+import { type Clock, systemClock } from '@server/utils/clock';
+import { logError } from '@server/utils/logger';
+import { orderEvents } from './order.events';
+
+export interface ReservationExpiryOptions {
+  ttlMs: number;
+  clock?: Clock;
+  /** Maximum orders cancelled per run */
+  batchSize?: number;
+}
+
+export interface ReservationExpiryResult {
+  expired: string[];
+  /** Orders that were paid, confirmed or cancelled while the job ran */
+  skipped: string[];
+}
+
+export function createReservationExpiryService(
+  orderRepository: OrderRepository,
+  { ttlMs, clock = systemClock, batchSize = 100 }: ReservationExpiryOptions
+) {
+  return {
+    async expireReservations(): Promise<ReservationExpiryResult> {
+      const cutoff = new Date(clock.now().getTime() - ttlMs);
+      const candidates = await orderRepository.findExpiredReservations(cutoff, batchSize);
+      const result: ReservationExpiryResult = { expired: [], skipped: [] };
+
+      for (const order of candidates) {
+        try {
+          const cancelled = await orderRepository.update(
+            order.id,
+            { status: OrderStatus.CANCELLED },
+            {
+              guard: {
+                statuses: [OrderStatus.PENDING],
+                paymentStatuses: [...UNPAID_PAYMENT_STATUSES],
+              },
+            }
+          );
+          result.expired.push(order.id);
+          orderEvents.emit('orderStatusChanged', {
+            order: cancelled,
+            previousStatus: order.status,
+            newStatus: cancelled.status,
+            reason: 'reservation expired',
+          });
+        } catch (error) {
+          const { code, status } = (error ?? {}) as { code?: string; status?: number };
+          if (code !== 'ORDER_STATE_CHANGED' && status !== 404) {
+            logError('Failed to expire order reservation', error, { orderId: order.id });
+          }
+          result.skipped.push(order.id);
+        }
+      }
+
+      return result;
+    },
+  };
+}
+
+export type ReservationExpiryService = ReturnType<typeof createReservationExpiryService>;
@@ -0,0 +1,76 @@
+import { randomBytes } from 'node:crypto';
+import { loadEnv } from '@server/config/env';
+import { loadPricingConfig } from '@server/config/pricing';
+import type { OrderRepository } from '@server/data/ports/OrderRepository';
+import type { PaymentGateway } from '@server/domain/payments';
+import { logError, logWarn } from '@server/utils/logger';
+import { createMockPaymentGateway, type MockPaymentGateway } from './mock.gateway';
+import { PaymentService } from './payment.service';
+import { PAYMENT_SIGNATURE_HEADER } from './webhookSignature';
+
+export { createMockPaymentGateway, type MockPaymentGateway } from './mock.gateway';
+export { type PaymentActor, PaymentService } from './payment.service';
+export {
+  PAYMENT_SIGNATURE_HEADER,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhookSignature';
+
+let webhookSecret: string | null = null;
+let gateway: PaymentGateway | null = null;
+
+/**
+ * Secret shared with the payment provider for webhook signatures. Without
+ * PAYMENT_WEBHOOK_SECRET a random per-process secret is used, which only
+ * works with the in-process mock gateway.
+ */
+export function getPaymentWebhookSecret(): string {
+  if (!webhookSecret) {
+    webhookSecret = loadEnv().PAYMENT_WEBHOOK_SECRET ?? randomBytes(32).toString('hex');
+  }
+  return webhookSecret;
+}
+
+function deliverWebhook(body: string, signature: string): void {
+  const env = loadEnv();
+  const url = env.PAYMENT_WEBHOOK_URL ?? `http://127.0.0.1:${env.PORT}/api/v1/payments/webhook`;
+  fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', [PAYMENT_SIGNATURE_HEADER]: signature },
+    body,
+  })
+    .then((res) => {
+      if (!res.ok) logWarn('Payment webhook delivery rejected', { url, status: res.status });
+    })
+    .catch((error) => logError('Payment webhook delivery failed', error, { url }));
+}
+
+/**
+ * Active payment gateway, created on first use. The mock gateway is the only
+ * provider so far; real providers implement the same PaymentGateway port.
+ */
+export function getPaymentGateway(): PaymentGateway {
+  if (!gateway) {
+    gateway = createMockPaymentGateway({
+      defaultOutcome: loadEnv().PAYMENT_MOCK_OUTCOME,
+      webhookSecret: getPaymentWebhookSecret(),
+      deliver: deliverWebhook,
+    });
+  }
+  return gateway;
+}
+
+/**
+ * The mock gateway when it is the active one, for its challenge endpoint
+ */
+export function getMockPaymentGateway(): MockPaymentGateway | null {
+  const active = getPaymentGateway();
+  return active.provider === 'mock' ? (active as MockPaymentGateway) : null;
+}
+
+/**
+ * Payment service bound to an order repository and the active gateway
+ */
+export function createPaymentService(orderRepository: OrderRepository): PaymentService {
+  return new PaymentService(orderRepository, getPaymentGateway(), loadPricingConfig().currency);
+}
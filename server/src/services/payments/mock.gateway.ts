@@ -0,0 +1,197 @@
+/**
+ * Deterministic in-process payment gateway for local development and tests.
+ *
+ * The outcome of an authorization is chosen by the payment token
+ * (`tok_success`, `tok_decline`, `tok_challenge`) or, without a known token, by
+ * the configured default. Challenged payments stay REQUIRES_ACTION until
+ * `completeChallenge` is called. Every state change is also delivered as a
+ * signed webhook, exactly like a hosted provider would.
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  type AuthorizePaymentRequest,
+  GatewayPaymentStatus,
+  type PaymentEventType,
+  type PaymentGateway,
+  type PaymentResult,
+  type PaymentWebhookEvent,
+} from '@server/domain/payments';
+import { roundMoney } from '../pricing';
+import { signWebhookPayload } from './webhookSignature';
+
+export type MockPaymentOutcome = 'success' | 'decline' | 'challenge';
+
+const TOKEN_OUTCOMES: Record<string, MockPaymentOutcome> = {
+  tok_success: 'success',
+  tok_decline: 'decline',
+  tok_challenge: 'challenge',
+};
+
+const EVENT_TYPES: Record<GatewayPaymentStatus, PaymentEventType> = {
+  [GatewayPaymentStatus.REQUIRES_ACTION]: 'payment.action_required',
+  [GatewayPaymentStatus.AUTHORIZED]: 'payment.authorized',
+  [GatewayPaymentStatus.CAPTURED]: 'payment.captured',
+  [GatewayPaymentStatus.PARTIALLY_REFUNDED]: 'payment.refunded',
+  [GatewayPaymentStatus.REFUNDED]: 'payment.refunded',
+  [GatewayPaymentStatus.VOIDED]: 'payment.voided',
+  [GatewayPaymentStatus.DECLINED]: 'payment.declined',
+};
+
+export interface MockPaymentGatewayOptions {
+  /** Outcome when the token does not select one */
+  defaultOutcome?: MockPaymentOutcome;
+  /** Shared secret used to sign webhook deliveries */
+  webhookSecret: string;
+  /** Sends a signed webhook body; failures are the deliverer's concern */
+  deliver?: (body: string, signature: string) => void;
+  /** Builds the URL a customer visits to answer a 3-D Secure challenge */
+  challengeUrl?: (paymentId: string) => string;
+}
+
+export interface MockPaymentGateway extends PaymentGateway {
+  /** Approve or fail a payment waiting on a challenge */
+  completeChallenge(paymentId: string, approve: boolean): Promise<PaymentResult>;
+}
+
+function invalidState(message: string): Error {
+  const error = new Error(message);
+  (error as any).code = 'PAYMENT_INVALID_STATE';
+  return error;
+}
+
+export function createMockPaymentGateway({
+  defaultOutcome = 'success',
+  webhookSecret,
+  deliver,
+  challengeUrl = (paymentId) => `/api/v1/payments/mock/${paymentId}/challenge`,
+}: MockPaymentGatewayOptions): MockPaymentGateway {
+  const payments = new Map<string, PaymentResult>();
+
+  function get(paymentId: string): PaymentResult {
+    const payment = payments.get(paymentId);
+    if (!payment) {
+      const error = new Error(`Payment not found: ${paymentId}`);
+      (error as any).code = 'PAYMENT_NOT_FOUND';
+      throw error;
+    }
+    return payment;
+  }
+
+  function save(next: Omit<PaymentResult, 'version'>, previous?: PaymentResult): PaymentResult {
+    const payment: PaymentResult = { ...next, version: (previous?.version ?? 0) + 1 };
+    payments.set(payment.paymentId, payment);
+    if (deliver) {
+      const event: PaymentWebhookEvent = {
+        id: `evt_${randomUUID().replace(/-/g, '')}`,
+        type: EVENT_TYPES[payment.status],
+        createdAt: Date.now(),
+        data: payment,
+      };
+      const body = JSON.stringify(event);
+      deliver(body, signWebhookPayload(body, webhookSecret));
+    }
+    return { ...payment };
+  }
+
+  return {
+    provider: 'mock',
+
+    async authorize(request: AuthorizePaymentRequest) {
+      const outcome = (request.token && TOKEN_OUTCOMES[request.token]) || defaultOutcome;
+      const paymentId = `pay_${randomUUID().replace(/-/g, '')}`;
+      const base = {
+        paymentId,
+        orderId: request.orderId,
+        currency: request.currency,
+        amount: roundMoney(request.amount),
+        capturedAmount: 0,
+        refundedAmount: 0,
+      };
+      if (outcome === 'decline') {
+        return save({
+          ...base,
+          status: GatewayPaymentStatus.DECLINED,
+          failureReason: 'card_declined',
+        });
+      }
+      if (outcome === 'challenge') {
+        return save({
+          ...base,
+          status: GatewayPaymentStatus.REQUIRES_ACTION,
+          challengeUrl: challengeUrl(paymentId),
+        });
+      }
+      return save({ ...base, status: GatewayPaymentStatus.AUTHORIZED });
+    },
+
+    async completeChallenge(paymentId, approve) {
+      const payment = get(paymentId);
+      if (payment.status !== GatewayPaymentStatus.REQUIRES_ACTION) {
+        throw invalidState(`Payment ${paymentId} is not awaiting a challenge`);
+      }
+      const { challengeUrl: _challengeUrl, ...rest } = payment;
+      return save(
+        approve
+          ? { ...rest, status: GatewayPaymentStatus.AUTHORIZED }
+          : {
+              ...rest,
+              status: GatewayPaymentStatus.DECLINED,
+              failureReason: 'authentication_failed',
+            },
+        payment
+      );
+    },
+
+    async capture(paymentId, amount) {
+      const payment = get(paymentId);
+      if (payment.status !== GatewayPaymentStatus.AUTHORIZED) {
+        throw invalidState(`Cannot capture a payment that is ${payment.status}`);
+      }
+      const capturedAmount = roundMoney(amount ?? payment.amount);
+      if (capturedAmount <= 0 || capturedAmount > payment.amount) {
+        throw invalidState(`Capture amount must be between 0 and ${payment.amount}`);
+      }
+      return save({ ...payment, status: GatewayPaymentStatus.CAPTURED, capturedAmount }, payment);
+    },
+
+    async refund(paymentId, amount) {
+      const payment = get(paymentId);
+      if (
+        payment.status !== GatewayPaymentStatus.CAPTURED &&
+        payment.status !== GatewayPaymentStatus.PARTIALLY_REFUNDED
+      ) {
+        throw invalidState(`Cannot refund a payment that is ${payment.status}`);
+      }
+      const refundable = roundMoney(payment.capturedAmount - payment.refundedAmount);
+      const refundAmount = roundMoney(amount ?? refundable);
+      if (refundAmount <= 0 || refundAmount > refundable) {
+        throw invalidState(`Refund amount must be between 0 and ${refundable}`);
+      }
+      const refundedAmount = roundMoney(payment.refundedAmount + refundAmount);
+      return save(
+        {
+          ...payment,
+          refundedAmount,
+          status:
+            refundedAmount >= payment.capturedAmount
+              ? GatewayPaymentStatus.REFUNDED
+              : GatewayPaymentStatus.PARTIALLY_REFUNDED,
+        },
+        payment
+      );
+    },
+
+    async void(paymentId) {
+      const payment = get(paymentId);
+      if (
+        payment.status !== GatewayPaymentStatus.AUTHORIZED &&
+        payment.status !== GatewayPaymentStatus.REQUIRES_ACTION
+      ) {
+        throw invalidState(`Cannot void a payment that is ${payment.status}`);
+      }
+      const { challengeUrl: _challengeUrl, ...rest } = payment;
+      return save({ ...rest, status: GatewayPaymentStatus.VOIDED }, payment);
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { createMemoryRepositories } from '@server/data';
+import { PaymentMethod, PaymentStatus } from '@server/domain/orders';
+import { GatewayPaymentStatus, type PaymentWebhookEvent } from '@server/domain/payments';
+import { describe, expect, it } from 'vitest';
+import { createMockPaymentGateway } from './mock.gateway';
+import { PaymentService } from './payment.service';
+
+async function setup() {
+  const repos = createMemoryRepositories();
+  const events: PaymentWebhookEvent[] = [];
+  const gateway = createMockPaymentGateway({
+    webhookSecret: 'test-webhook-secret',
+    deliver: (body) => events.push(JSON.parse(body)),
+  });
+  const service = new PaymentService(repos.orders, gateway, 'USD');
+  const product = await repos.products.create({
+    name: 'Lamp',
+    price: 40,
+    category: 'home',
+    rating: 0,
+    stock: 10,
+  });
+  const order = await repos.orders.create(
+    {
+      items: [{ productId: product.id, quantity: 1 }],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+      shippingAddress: {
+        fullName: 'Ada Lovelace',
+        street: '12 Analytical Row',
+        city: 'London',
+        state: 'LDN',
+        postalCode: 'N1 9GU',
+        country: 'GB',
+      },
+    },
+    'user-1',
+    'ada@example.com'
+  );
+  const customer = { id: 'user-1', email: 'ada@example.com' };
+  const admin = { id: 'admin-1', email: 'admin@example.com', isAdmin: true };
+  return { repos, events, gateway, service, order, customer, admin };
+}
+
+describe('PaymentService', () => {
+  it('ignores a webhook delivered after a newer snapshot was recorded', async () => {
+    const { events, service, order, customer, admin } = await setup();
+    await service.authorize(order.id, customer, 'tok_success');
+    const authorized = events.at(-1)!;
+    await service.capture(order.id, admin);
+
+    const result = await service.handleWebhookEvent(authorized);
+
+    expect(result.paymentStatus).toBe(PaymentStatus.PAID);
+    expect(result.payment?.status).toBe(GatewayPaymentStatus.CAPTURED);
+  });
+
+  it('voids an unfinished challenge before authorizing again', async () => {
+    const { events, gateway, service, order, customer } = await setup();
+    const challenged = await service.authorize(order.id, customer, 'tok_challenge');
+    const challengedId = challenged.payment!.paymentId;
+
+    const retried = await service.authorize(order.id, customer, 'tok_success');
+
+    expect(retried.paymentStatus).toBe(PaymentStatus.AUTHORIZED);
+    expect(retried.payment?.paymentId).not.toBe(challengedId);
+    expect(
+      events.find((e) => e.data.paymentId === challengedId && e.type === 'payment.voided')
+    ).toBeDefined();
+    await expect(gateway.completeChallenge(challengedId, true)).rejects.toMatchObject({
+      code: 'PAYMENT_INVALID_STATE',
+    });
+  });
+
+  it('releases the losing authorization when two run at once', async () => {
+    const { events, service, order, customer, repos } = await setup();
+
+    const results = await Promise.allSettled([
+      service.authorize(order.id, customer, 'tok_success'),
+      service.authorize(order.id, customer, 'tok_success'),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find((r) => r.status === 'rejected')).toMatchObject({
+      reason: { status: 409 },
+    });
+    const recorded = (await repos.orders.findById(order.id))!.payment!;
+    const voided = events.filter((e) => e.type === 'payment.voided').map((e) => e.data.paymentId);
+    expect(voided).toHaveLength(1);
+    expect(voided).not.toContain(recorded.paymentId);
+  });
+});
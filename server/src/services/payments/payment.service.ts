@@ -0,0 +1,254 @@
+/**
+ * Payment Service
+ *
+ * Drives an order's payment through the configured gateway and keeps the
+ * order's `paymentStatus` in step with the gateway, whether the change comes
+ * back synchronously from an API call or later through a webhook.
+ *
+ * @fileoverview Payment business logic service
+ * @module services/payments/PaymentService
+ */
+
+import type { OrderRepository } from '@server/data/ports/OrderRepository';
+import { type Order, OrderStatus, PaymentStatus } from '@server/domain/orders';
+import {
+  GatewayPaymentStatus,
+  type OrderPayment,
+  type PaymentGateway,
+  type PaymentResult,
+  type PaymentWebhookEvent,
+} from '@server/domain/payments';
+import { orderEvents } from '../orders/order.events';
+
+const ORDER_PAYMENT_STATUS: Record<GatewayPaymentStatus, PaymentStatus> = {
+  [GatewayPaymentStatus.REQUIRES_ACTION]: PaymentStatus.PENDING,
+  [GatewayPaymentStatus.AUTHORIZED]: PaymentStatus.AUTHORIZED,
+  [GatewayPaymentStatus.CAPTURED]: PaymentStatus.PAID,
+  [GatewayPaymentStatus.PARTIALLY_REFUNDED]: PaymentStatus.PARTIALLY_REFUNDED,
+  [GatewayPaymentStatus.REFUNDED]: PaymentStatus.REFUNDED,
+  [GatewayPaymentStatus.VOIDED]: PaymentStatus.VOIDED,
+  [GatewayPaymentStatus.DECLINED]: PaymentStatus.FAILED,
+};
+
+/** Payment states from which a customer may start a new authorization */
+const PAYABLE_STATUSES = [PaymentStatus.PENDING, PaymentStatus.FAILED, PaymentStatus.VOIDED];
+
+/** Gateway states an authorization can still be released from */
+const VOIDABLE_STATUSES = [GatewayPaymentStatus.AUTHORIZED, GatewayPaymentStatus.REQUIRES_ACTION];
+
+export interface PaymentActor {
+  id?: string;
+  email?: string;
+  isAdmin?: boolean;
+}
+
+function httpError(message: string, status: number, code?: string): Error {
+  const error = new Error(message);
+  (error as any).status = status;
+  if (code) (error as any).code = code;
+  return error;
+}
+
+/**
+ * Service class for order payments
+ *
+ * @class PaymentService
+ */
+export class PaymentService {
+  /**
+   * @param {OrderRepository} orderRepository - Order store
+   * @param {PaymentGateway} gateway - Payment provider
+   * @param {string} currency - Currency orders are priced in
+   */
+  constructor(
+    private readonly orderRepository: OrderRepository,
+    private readonly gateway: PaymentGateway,
+    private readonly currency: string
+  ) {}
+
+  /**
+   * Start paying for an order. Declines and 3-D Secure challenges are reported
+   * on the returned order's `payment`, not thrown.
+   *
+   * @throws {Error} 404/403 for unknown or foreign orders, 409 when already paid
+   */
+  async authorize(orderId: string, actor: PaymentActor, token?: string): Promise<Order> {
+    const order = await this.getOrderFor(orderId, actor);
+    if (order.status === OrderStatus.CANCELLED || order.status === OrderStatus.REFUNDED) {
+      throw httpError(`Cannot pay for an order that is ${order.status}`, 400);
+    }
+    if (!PAYABLE_STATUSES.includes(order.paymentStatus)) {
+      throw httpError(`Order payment is already ${order.paymentStatus}`, 409);
+    }
+
+    // An unfinished 3-D Secure challenge could still complete; release it
+    // before it is replaced so the customer cannot end up authorized twice
+    const previous = order.payment;
+    if (previous?.status === GatewayPaymentStatus.REQUIRES_ACTION) {
+      await this.callGateway(() => this.gateway.void(previous.paymentId));
+    }
+
+    const result = await this.callGateway(() =>
+      this.gateway.authorize({
+        orderId: order.id,
+        amount: order.totalAmount,
+        currency: this.currency,
+        paymentMethod: order.paymentMethod,
+        token,
+      })
+    );
+    try {
+      return await this.applyResult(order, result, actor, true);
+    } catch (error) {
+      if ((error as any)?.code !== 'ORDER_STATE_CHANGED') throw error;
+      // Another authorization won the race; do not leave this one holding funds
+      if (VOIDABLE_STATUSES.includes(result.status)) {
+        await this.gateway.void(result.paymentId).catch(() => undefined);
+      }
+      throw httpError('Order payment changed while authorizing', 409, 'PAYMENT_INVALID_STATE');
+    }
+  }
+
+  /**
+   * Capture an authorized payment (admin), defaulting to the full amount
+   */
+  async capture(orderId: string, actor: PaymentActor, amount?: number): Promise<Order> {
+    const order = await this.getOrderFor(orderId, actor);
+    const paymentId = this.requirePayment(order);
+    const result = await this.callGateway(() => this.gateway.capture(paymentId, amount));
+    return this.applyResult(order, result, actor);
+  }
+
+  /**
+   * Refund a captured payment (admin), defaulting to the remaining captured amount
+   */
+  async refund(orderId: string, actor: PaymentActor, amount?: number): Promise<Order> {
+    const order = await this.getOrderFor(orderId, actor);
+    const paymentId = this.requirePayment(order);
+    const result = await this.callGateway(() => this.gateway.refund(paymentId, amount));
+    return this.applyResult(order, result, actor);
+  }
+
+  /**
+   * Release an authorization that has not been captured (admin)
+   */
+  async void(orderId: string, actor: PaymentActor): Promise<Order> {
+    const order = await this.getOrderFor(orderId, actor);
+    const paymentId = this.requirePayment(order);
+    const result = await this.callGateway(() => this.gateway.void(paymentId));
+    return this.applyResult(order, result, actor);
+  }
+
+  /**
+   * Apply a verified webhook delivery. Events for superseded payments and
+   * stale or duplicate deliveries leave the order unchanged.
+   */
+  async handleWebhookEvent(event: PaymentWebhookEvent): Promise<Order> {
+    const order = await this.orderRepository.findById(event.data.orderId);
+    if (!order) {
+      throw httpError(`Order not found: ${event.data.orderId}`, 404);
+    }
+    return this.applyResult(order, event.data, {});
+  }
+
+  private async getOrderFor(orderId: string, actor: PaymentActor): Promise<Order> {
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) {
+      throw httpError(`Order not found: ${orderId}`, 404);
+    }
+    if (!actor.isAdmin && order.userId !== actor.id) {
+      throw httpError('Access denied: You can only pay for your own orders', 403);
+    }
+    return order;
+  }
+
+  private requirePayment(order: Order): string {
+    if (!order.payment) {
+      throw httpError('Order has no payment to act on', 409, 'PAYMENT_INVALID_STATE');
+    }
+    return order.payment.paymentId;
+  }
+
+  private async callGateway(operation: () => Promise<PaymentResult>): Promise<PaymentResult> {
+    try {
+      return await operation();
+    } catch (error) {
+      const err = error as any;
+      if (err?.code === 'PAYMENT_INVALID_STATE') throw httpError(err.message, 409, err.code);
+      if (err?.code === 'PAYMENT_NOT_FOUND') throw httpError(err.message, 404, err.code);
+      throw httpError(err?.message ?? 'Payment provider error', 502, 'PAYMENT_GATEWAY_ERROR');
+    }
+  }
+
+  /**
+   * Record a gateway snapshot on the order and announce status changes. The
+   * payment read with the order is checked again inside the update, so a
+   * concurrent newer snapshot is never overwritten by an older one.
+   *
+   * @param {boolean} [replaces=false] - Whether the result is a new payment superseding the current one
+   * @throws {Error} ORDER_STATE_CHANGED when `replaces` and the order's payment changed meanwhile
+   */
+  private async applyResult(
+    order: Order,
+    result: PaymentResult,
+    actor: PaymentActor,
+    replaces = false
+  ): Promise<Order> {
+    const current = order.payment;
+    if (current && current.paymentId !== result.paymentId && !replaces) {
+      return order;
+    }
+    if (current?.paymentId === result.paymentId && result.version <= current.version) {
+      return order;
+    }
+
+    const paymentStatus = ORDER_PAYMENT_STATUS[result.status];
+    let updated: Order;
+    try {
+      updated = await this.orderRepository.update(
+        order.id,
+        { paymentStatus, payment: this.toOrderPayment(result) },
+        {
+          guard: {
+            payment:
+              current?.paymentId === result.paymentId
+                ? { paymentId: result.paymentId, versionBelow: result.version }
+                : { paymentId: current?.paymentId ?? null },
+          },
+        }
+      );
+    } catch (error) {
+      if (replaces || (error as any)?.code !== 'ORDER_STATE_CHANGED') throw error;
+      // A newer snapshot got there first; this one is stale
+      return (await this.orderRepository.findById(order.id)) ?? order;
+    }
+
+    if (order.paymentStatus !== paymentStatus) {
+      orderEvents.emit('paymentStatusChanged', {
+        order: updated,
+        previousStatus: order.paymentStatus,
+        newStatus: paymentStatus,
+        paymentId: result.paymentId,
+        actorId: actor.id,
+        actorEmail: actor.email,
+        isAdmin: actor.isAdmin,
+      });
+    }
+    return updated;
+  }
+
+  private toOrderPayment(result: PaymentResult): OrderPayment {
+    return {
+      provider: this.gateway.provider,
+      paymentId: result.paymentId,
+      status: result.status,
+      currency: result.currency,
+      amount: result.amount,
+      capturedAmount: result.capturedAmount,
+      refundedAmount: result.refundedAmount,
+      version: result.version,
+      ...(result.challengeUrl ? { challengeUrl: result.challengeUrl } : {}),
+      ...(result.failureReason ? { failureReason: result.failureReason } : {}),
+    };
+  }
+}
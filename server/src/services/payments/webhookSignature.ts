@@ -0,0 +1,49 @@
+/**
+ * HMAC signing for payment webhooks. The header carries a timestamp and a
+ * SHA-256 signature of `${timestamp}.${rawBody}`, in the form `t=<seconds>,v1=<hex>`,
+ * so a captured delivery cannot be replayed after the tolerance window.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export const PAYMENT_SIGNATURE_HEADER = 'x-payment-signature';
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+function computeSignature(payload: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+}
+
+export function signWebhookPayload(
+  payload: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+}
+
+/**
+ * True when `header` is a valid signature of `payload` made within the tolerance window
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  header: string | undefined,
+  secret: string,
+  { now = Date.now(), toleranceSeconds = DEFAULT_TOLERANCE_SECONDS } = {}
+): boolean {
+  if (!header) return false;
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')] as const;
+    })
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(computeSignature(payload, secret, timestamp), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
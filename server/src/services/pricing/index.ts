@@ -0,0 +1,14 @@
+import { loadPricingConfig } from '@server/config/pricing';
+import { createPricingEngine } from './pricing.engine';
+
+export { createPricingEngine, roundMoney } from './pricing.engine';
+
+let engine: ReturnType<typeof createPricingEngine> | null = null;
+
+/**
+ * Pricing engine built from the active pricing configuration.
+ */
+export function getPricingEngine() {
+  if (!engine) engine = createPricingEngine(loadPricingConfig());
+  return engine;
+}
@@ -0,0 +1,127 @@
+import type { PricingConfig } from '@server/domain/pricing';
+import { type Promotion, PromotionType } from '@server/domain/promotions';
+import { describe, expect, it } from 'vitest';
+import { createPricingEngine, roundMoney } from './pricing.engine';
+
+const config: PricingConfig = {
+  currency: 'USD',
+  defaultTaxRate: 0.1,
+  taxRules: [
+    { countries: ['US'], rate: 0.05, label: 'Sales tax' },
+    { countries: ['us'], states: ['CA'], rate: 0.0725, label: 'CA sales tax' },
+  ],
+  // Deliberately out of order: the engine sorts tiers by their upper bound
+  shippingTiers: [
+    { upTo: null, cost: 0 },
+    { upTo: 50, cost: 5 },
+  ],
+};
+
+function promotion(overrides: Partial<Promotion>): Promotion {
+  return {
+    id: 'promo-1',
+    code: 'SAVE',
+    type: PromotionType.PERCENT_OFF,
+    redemptionCount: 0,
+    active: true,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+const engine = createPricingEngine(config);
+const line = (unitPrice: number, quantity = 1, productId = 'p1') => ({
+  productId,
+  unitPrice,
+  quantity,
+});
+
+describe('roundMoney', () => {
+  it('rounds half a cent up, including values binary floats store just below it', () => {
+    expect(roundMoney(1.005)).toBe(1.01);
+    expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+    expect(roundMoney(2.344)).toBe(2.34);
+  });
+});
+
+describe('pricing engine', () => {
+  it('rounds tax to cents on the subtotal rather than per line', () => {
+    const quote = engine.price({
+      lines: [line(0.35, 3), line(0.35, 1, 'p2')],
+      destination: { country: 'US', state: 'CA' },
+    });
+
+    expect(quote.subtotal).toBe(1.4);
+    expect(quote.taxRate).toBe(0.0725);
+    expect(quote.taxLabel).toBe('CA sales tax');
+    // 1.40 * 7.25% = 0.1015
+    expect(quote.taxAmount).toBe(0.1);
+    expect(quote.totalAmount).toBe(roundMoney(1.4 + 0.1 + 5));
+  });
+
+  it('prefers a state rule, then a country rule, then the default rate', () => {
+    expect(
+      engine.price({ lines: [line(10)], destination: { country: 'us', state: 'ca' } }).taxRate
+    ).toBe(0.0725);
+    expect(
+      engine.price({ lines: [line(10)], destination: { country: 'US', state: 'NY' } }).taxRate
+    ).toBe(0.05);
+    const abroad = engine.price({ lines: [line(10)], destination: { country: 'DE' } });
+    expect(abroad.taxRate).toBe(0.1);
+    expect(abroad.taxLabel).toBeUndefined();
+  });
+
+  it('charges shipping up to and including the threshold and ships free above it', () => {
+    expect(engine.price({ lines: [line(50)] }).shippingCost).toBe(5);
+    expect(engine.price({ lines: [line(50.01)] }).shippingCost).toBe(0);
+  });
+
+  it('takes the discount before tax and the shipping threshold', () => {
+    const quote = engine.price({
+      lines: [line(60)],
+      destination: { country: 'US' },
+      promotion: {
+        promotion: promotion({ value: 20 }),
+        userRedemptions: 0,
+        now: Date.now(),
+      },
+    });
+
+    expect(quote.subtotal).toBe(60);
+    expect(quote.discountAmount).toBe(12);
+    // 48 after the discount: taxed at 5% and back under the free-shipping threshold
+    expect(quote.taxAmount).toBe(2.4);
+    expect(quote.shippingCost).toBe(5);
+    expect(quote.totalAmount).toBe(60 - 12 + 2.4 + 5);
+  });
+
+  it('waives shipping for a free-shipping promotion without touching tax', () => {
+    const quote = engine.price({
+      lines: [line(20)],
+      destination: { country: 'US' },
+      promotion: {
+        promotion: promotion({ type: PromotionType.FREE_SHIPPING }),
+        userRedemptions: 0,
+        now: Date.now(),
+      },
+    });
+
+    expect(quote.discount).toMatchObject({ type: PromotionType.FREE_SHIPPING, amount: 5 });
+    expect(quote.taxAmount).toBe(1);
+    expect(quote.totalAmount).toBe(20 + 1);
+  });
+
+  it('refuses a promotion that would not change the total', () => {
+    expect(() =>
+      engine.price({
+        lines: [line(80)],
+        promotion: {
+          promotion: promotion({ type: PromotionType.FREE_SHIPPING }),
+          userRedemptions: 0,
+          now: Date.now(),
+        },
+      })
+    ).toThrow(expect.objectContaining({ code: 'PROMOTION_NOT_APPLICABLE' }));
+  });
+});
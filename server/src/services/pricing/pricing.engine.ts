@@ -0,0 +1,114 @@
+/**
+ * Rule-based pricing engine shared by order creation and the checkout quote
+ * endpoint, so the totals a customer sees are the totals they are charged.
+ */
+
+import type {
+  PriceBreakdown,
+  PricingConfig,
+  PricingDestination,
+  PricingEngine,
+  TaxRule,
+} from '@server/domain/pricing';
+import { type OrderDiscount, PromotionType } from '@server/domain/promotions';
+import {
+  assertPromotionUsable,
+  calculateMerchandiseDiscount,
+  createPromotionNotApplicableError,
+  describePromotion,
+} from './promotions';
+
+function normalize(value: string | undefined): string {
+  return (value ?? '').trim().toUpperCase();
+}
+
+/**
+ * Round a currency amount to whole cents.
+ */
+export function roundMoney(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+export function createPricingEngine(config: PricingConfig): PricingEngine {
+  const shippingTiers = [...config.shippingTiers].sort(
+    (a, b) => (a.upTo ?? Number.POSITIVE_INFINITY) - (b.upTo ?? Number.POSITIVE_INFINITY)
+  );
+
+  function findTaxRule(destination?: PricingDestination): TaxRule | undefined {
+    const country = normalize(destination?.country);
+    if (!country) return undefined;
+    const state = normalize(destination?.state);
+    const inCountry = config.taxRules.filter((rule) =>
+      rule.countries.some((c) => normalize(c) === country)
+    );
+    return (
+      inCountry.find((rule) => rule.states?.some((s) => normalize(s) === state)) ??
+      inCountry.find((rule) => !rule.states?.length)
+    );
+  }
+
+  function shippingFor(subtotal: number): number {
+    const tier = shippingTiers.find((t) => t.upTo === null || subtotal <= t.upTo);
+    return tier?.cost ?? 0;
+  }
+
+  return {
+    price({ lines, destination, promotion }): PriceBreakdown {
+      const subtotal = roundMoney(
+        lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0)
+      );
+
+      let merchandiseDiscount = 0;
+      if (promotion) {
+        assertPromotionUsable(promotion.promotion, {
+          subtotal,
+          userRedemptions: promotion.userRedemptions,
+          now: promotion.now,
+        });
+        merchandiseDiscount = roundMoney(calculateMerchandiseDiscount(promotion.promotion, lines));
+      }
+
+      // Tax and shipping tiers are based on what the customer pays for merchandise.
+      const discountedSubtotal = roundMoney(subtotal - merchandiseDiscount);
+      const rule = findTaxRule(destination);
+      const taxRate = rule?.rate ?? config.defaultTaxRate;
+      const taxAmount = roundMoney(discountedSubtotal * taxRate);
+      const shippingCost = roundMoney(shippingFor(discountedSubtotal));
+
+      let discount: OrderDiscount | undefined;
+      if (promotion) {
+        const { promotion: promo } = promotion;
+        const amount =
+          promo.type === PromotionType.FREE_SHIPPING ? shippingCost : merchandiseDiscount;
+        if (amount <= 0) {
+          throw createPromotionNotApplicableError(
+            promo.code,
+            promo.type === PromotionType.FREE_SHIPPING
+              ? 'Shipping is already free for this order'
+              : `Promo code ${promo.code} does not apply to the items in your cart`
+          );
+        }
+        discount = {
+          promotionId: promo.id,
+          code: promo.code,
+          type: promo.type,
+          description: describePromotion(promo),
+          amount,
+        };
+      }
+      const discountAmount = discount?.amount ?? 0;
+
+      return {
+        currency: config.currency,
+        subtotal,
+        discountAmount,
+        ...(discount ? { discount } : {}),
+        taxRate,
+        ...(rule?.label ? { taxLabel: rule.label } : {}),
+        taxAmount,
+        shippingCost,
+        totalAmount: roundMoney(subtotal - discountAmount + taxAmount + shippingCost),
+      };
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { type Promotion, PromotionType } from '@server/domain/promotions';
+import { describe, expect, it } from 'vitest';
+import { calculateMerchandiseDiscount } from './promotions';
+
+function buyXGetY(overrides: Partial<Promotion> = {}): Promotion {
+  return {
+    id: 'promo-1',
+    code: 'B2G1',
+    type: PromotionType.BUY_X_GET_Y,
+    buyQuantity: 2,
+    getQuantity: 1,
+    redemptionCount: 0,
+    active: true,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe('calculateMerchandiseDiscount', () => {
+  it('discounts the cheapest units across lines for each complete buy+get group', () => {
+    const lines = [
+      { productId: 'a', unitPrice: 10, quantity: 4 },
+      { productId: 'b', unitPrice: 3, quantity: 1 },
+      { productId: 'c', unitPrice: 5, quantity: 2 },
+    ];
+
+    // 7 units make two groups of three: the 3.00 unit and one 5.00 unit are free
+    expect(calculateMerchandiseDiscount(buyXGetY(), lines)).toBe(8);
+    expect(calculateMerchandiseDiscount(buyXGetY({ value: 50 }), lines)).toBe(4);
+  });
+
+  it('only counts units of the promotion products', () => {
+    const lines = [
+      { productId: 'a', unitPrice: 10, quantity: 3 },
+      { productId: 'b', unitPrice: 1, quantity: 5 },
+    ];
+
+    expect(calculateMerchandiseDiscount(buyXGetY({ productIds: ['a'] }), lines)).toBe(10);
+  });
+
+  it('handles very large quantities without expanding them unit by unit', () => {
+    const lines = [
+      { productId: 'a', unitPrice: 2, quantity: 3_000_000_000 },
+      { productId: 'b', unitPrice: 1, quantity: 3 },
+    ];
+
+    expect(calculateMerchandiseDiscount(buyXGetY(), lines)).toBe(3 + (1_000_000_001 - 3) * 2);
+  });
+});
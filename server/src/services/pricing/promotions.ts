@@ -0,0 +1,106 @@
+/**
+ * Promotion rules: eligibility checks and discount calculation. Used by the
+ * pricing engine so quotes and order creation apply codes identically.
+ */
+
+import type { PricingLine } from '@server/domain/pricing';
+import { type Promotion, PromotionType } from '@server/domain/promotions';
+
+export function createPromotionNotApplicableError(code: string, message: string): Error {
+  const error = new Error(message);
+  (error as any).code = 'PROMOTION_NOT_APPLICABLE';
+  (error as any).promoCode = code;
+  return error;
+}
+
+/**
+ * Human readable summary used when the promotion has no description of its own
+ */
+export function describePromotion(promotion: Promotion): string {
+  if (promotion.description) return promotion.description;
+  switch (promotion.type) {
+    case PromotionType.PERCENT_OFF:
+      return `${promotion.value ?? 0}% off`;
+    case PromotionType.FIXED_AMOUNT:
+      return `$${(promotion.value ?? 0).toFixed(2)} off`;
+    case PromotionType.FREE_SHIPPING:
+      return 'Free shipping';
+    case PromotionType.BUY_X_GET_Y: {
+      const pct = promotion.value ?? 100;
+      const reward = pct >= 100 ? 'free' : `${pct}% off`;
+      return `Buy ${promotion.buyQuantity ?? 1}, get ${promotion.getQuantity ?? 1} ${reward}`;
+    }
+    default:
+      return promotion.code;
+  }
+}
+
+/**
+ * Throw when the promotion cannot be used for this cart, customer and moment.
+ */
+export function assertPromotionUsable(
+  promotion: Promotion,
+  context: { subtotal: number; userRedemptions: number; now: number }
+): void {
+  const fail = (message: string) => {
+    throw createPromotionNotApplicableError(promotion.code, message);
+  };
+  if (!promotion.active) fail(`Promo code ${promotion.code} is not active`);
+  if (promotion.startsAt != null && context.now < promotion.startsAt) {
+    fail(`Promo code ${promotion.code} is not valid yet`);
+  }
+  if (promotion.endsAt != null && context.now > promotion.endsAt) {
+    fail(`Promo code ${promotion.code} has expired`);
+  }
+  if (promotion.maxRedemptions != null && promotion.redemptionCount >= promotion.maxRedemptions) {
+    fail(`Promo code ${promotion.code} has reached its usage limit`);
+  }
+  if (
+    promotion.maxRedemptionsPerUser != null &&
+    context.userRedemptions >= promotion.maxRedemptionsPerUser
+  ) {
+    fail(`You have already used promo code ${promotion.code}`);
+  }
+  if (promotion.minSubtotal != null && context.subtotal < promotion.minSubtotal) {
+    fail(
+      `Promo code ${promotion.code} requires a subtotal of at least $${promotion.minSubtotal.toFixed(2)}`
+    );
+  }
+}
+
+/**
+ * Discount on merchandise (before tax and shipping) granted by the promotion.
+ * Free-shipping promotions return 0 here; the engine waives shipping instead.
+ */
+export function calculateMerchandiseDiscount(promotion: Promotion, lines: PricingLine[]): number {
+  const eligible = promotion.productIds?.length
+    ? lines.filter((line) => promotion.productIds!.includes(line.productId))
+    : lines;
+  const eligibleSubtotal = eligible.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+
+  switch (promotion.type) {
+    case PromotionType.PERCENT_OFF:
+      return (eligibleSubtotal * Math.min(100, Math.max(0, promotion.value ?? 0))) / 100;
+    case PromotionType.FIXED_AMOUNT:
+      return Math.min(eligibleSubtotal, Math.max(0, promotion.value ?? 0));
+    case PromotionType.BUY_X_GET_Y: {
+      const buy = Math.max(1, promotion.buyQuantity ?? 1);
+      const get = Math.max(1, promotion.getQuantity ?? 1);
+      // The cheapest units in each buy+get group are discounted. Lines are walked
+      // cheapest first instead of expanding them unit by unit.
+      const units = eligible.reduce((sum, line) => sum + line.quantity, 0);
+      let freeUnits = Math.floor(units / (buy + get)) * get;
+      let freeValue = 0;
+      for (const line of [...eligible].sort((a, b) => a.unitPrice - b.unitPrice)) {
+        if (freeUnits <= 0) break;
+        const taken = Math.min(freeUnits, line.quantity);
+        freeValue += taken * line.unitPrice;
+        freeUnits -= taken;
+      }
+      const pct = Math.min(100, Math.max(0, promotion.value ?? 100));
+      return (freeValue * pct) / 100;
+    }
+    default:
+      return 0;
+  }
+}
@@ -5,7 +5,7 @@
  * simple existence checks.
  */
 
-import { fsFavoritesRepo } from '@server/data/firestore/favorites.repo.fs';
+import { lazyRepository } from '@server/data';
 import type { FavoritesRepo } from '@server/data/ports/favorites.repo';
 import type { Product } from '@server/domain/product';
 import { productsService } from './products.service';
@@ -51,4 +51,4 @@ export function createFavoritesService(repo: FavoritesRepo) {
   };
 }
 
-export const favoritesService = createFavoritesService(fsFavoritesRepo);
+export const favoritesService = createFavoritesService(lazyRepository('favorites'));
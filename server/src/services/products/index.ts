@@ -1,2 +1,3 @@
 export { favoritesService } from './favorites.service';
+export { productTransferService } from './productTransfer.service';
 export { productsService } from './products.service';
@@ -0,0 +1,81 @@
+import { productImportRowSchema } from '@server/api/validators/products.schema';
+import { createMemoryRepositories } from '@server/data';
+import type { ImportRecord, ProductImportRow } from '@server/domain/productImport';
+import { describe, expect, it } from 'vitest';
+import { createProductTransferService } from './productTransfer.service';
+import { createProductsService } from './products.service';
+
+function toRow({ line, data }: ImportRecord): ProductImportRow {
+  const { value, error } = productImportRowSchema.validate(data, { stripUnknown: true });
+  const fields = Object.keys(data).filter((k) => k !== 'id' && k !== 'sku');
+  return error
+    ? { line, fields: [], errors: [{ field: 'row', message: error.message }] }
+    : {
+        line,
+        sku: value.sku,
+        product: value,
+        fields: fields as ProductImportRow['fields'],
+        errors: [],
+      };
+}
+
+async function exportCsv(service: ReturnType<typeof createProductTransferService>) {
+  let text = '';
+  for await (const chunk of service.exportProducts('csv')) text += chunk;
+  return text;
+}
+
+async function setup() {
+  const repos = createMemoryRepositories();
+  const products = createProductsService(repos.products, repos.productSearch);
+  const service = createProductTransferService(repos.products, products);
+  return { repos, service };
+}
+
+describe('productTransfer', () => {
+  it('updates a product without a SKU from its exported row', async () => {
+    const { repos, service } = await setup();
+    const legacy = await repos.products.create({
+      name: 'Old lamp',
+      price: 40,
+      category: 'lighting',
+      rating: 0,
+      stock: 2,
+    });
+
+    const csv = (await exportCsv(service)).replace('Old lamp', 'Brass lamp');
+    const report = await service.importProducts(service.parseImport(csv, 'csv').map(toRow), {
+      dryRun: false,
+    });
+
+    expect(report.rows).toMatchObject([{ action: 'update', productId: legacy.id }]);
+    expect((await repos.products.getById(legacy.id))?.name).toBe('Brass lamp');
+    expect(await repos.products.list()).toMatchObject({ data: [{ id: legacy.id }] });
+  });
+
+  it('does not create products from rows with only an id', async () => {
+    const { service } = await setup();
+    const rows = [{ line: 1, data: { id: 'gone', name: 'Lamp', price: 40, category: 'lighting' } }];
+
+    const report = await service.importProducts(rows.map(toRow), { dryRun: false });
+
+    expect(report.applied).toBe(false);
+    expect(report.rows[0]).toMatchObject({ action: 'error', errors: [{ field: 'id' }] });
+  });
+
+  it('creates a product from a row with a SKU, ignoring a foreign id', async () => {
+    const { repos, service } = await setup();
+    const rows = [
+      {
+        line: 1,
+        data: { id: 'other-shop', sku: 'LMP-1', name: 'Lamp', price: 40, category: 'x', stock: 1 },
+      },
+    ];
+
+    const report = await service.importProducts(rows.map(toRow), { dryRun: false });
+
+    expect(report.rows[0].action).toBe('create');
+    expect(report.rows[0].productId).not.toBe('other-shop');
+    expect((await repos.products.findBySkus(['LMP-1']))[0]?.name).toBe('Lamp');
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Bulk product import and export. Imports are planned in full before anything
+ * is written: every row is matched to a product by SKU (or by id, for products
+ * without one) and diffed against it, so a dry run and a real run report the
+ * same changes.
+ */
+
+import { lazyRepository } from '../../data';
+import type { ProductsRepo } from '../../data/ports/products.repo';
+import type { StockActor } from '../../domain/inventory';
+import { hasVariants, type Product } from '../../domain/product';
+import {
+  IMPORT_CREATE_REQUIRED,
+  type ImportAction,
+  type ImportFieldError,
+  type ImportRecord,
+  IMPORT_ROW_LIMIT,
+  PRODUCT_TRANSFER_COLUMNS,
+  type ProductImportReport,
+  type ProductImportResult,
+  type ProductImportRow,
+  type ProductTransferField,
+  type ProductTransferFormat,
+} from '../../domain/productImport';
+import { formatCsvRow, parseCsv } from '../../utils/csv';
+import { type ProductsService, productsService } from './products.service';
+
+const EXPORT_PAGE_SIZE = 200;
+
+/** CSV columns holding JSON */
+const JSON_COLUMNS = new Set(['options', 'variants']);
+
+function badRequest(message: string): Error {
+  return Object.assign(new Error(message), { status: 400 });
+}
+
+function csvRecords(text: string): ImportRecord[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.cells.map((c) => c.trim());
+  if (!columns.includes('sku') && !columns.includes('id')) {
+    throw badRequest('The CSV header must include a sku or id column');
+  }
+  return rows.map(({ line, cells }) => {
+    const data: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const cell = cells[i]?.trim() ?? '';
+      if (!column || cell === '') return;
+      if (column === 'images') {
+        data.images = cell
+          .split('|')
+          .map((url) => url.trim())
+          .filter(Boolean);
+      } else if (JSON_COLUMNS.has(column)) {
+        try {
+          data[column] = JSON.parse(cell);
+        } catch {
+          // Left as text so validation reports the column
+          data[column] = cell;
+        }
+      } else {
+        data[column] = cell;
+      }
+    });
+    return { line, data };
+  });
+}
+
+function jsonRecords(payload: unknown): ImportRecord[] {
+  let parsed = payload;
+  if (typeof payload === 'string') {
+    try {
+      parsed = JSON.parse(payload);
+    } catch {
+      throw badRequest('The file is not valid JSON');
+    }
+  }
+  const items =
+    parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as { products?: unknown }).products
+      : parsed;
+  if (!Array.isArray(items)) {
+    throw badRequest('Expected a JSON array of products or { "products": [...] }');
+  }
+  return items.map((data, i) => ({
+    line: i + 1,
+    data: data && typeof data === 'object' ? (data as Record<string, unknown>) : {},
+  }));
+}
+
+function exportRecord(product: Product): Record<ProductTransferField, unknown> {
+  const withVariants = hasVariants(product);
+  return {
+    id: product.id,
+    sku: product.sku,
+    name: product.name,
+    description: product.description,
+    category: product.category,
+    price: product.price,
+    stock: product.stock,
+    lowStockThreshold: product.lowStockThreshold,
+    images: product.images ?? [],
+    options: withVariants ? product.options : undefined,
+    variants: withVariants ? product.variants : undefined,
+  };
+}
+
+function csvCell(field: ProductTransferField, value: unknown): unknown {
+  if (value === undefined) return '';
+  if (field === 'images') return (value as string[]).join('|');
+  return JSON_COLUMNS.has(field) ? JSON.stringify(value) : value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Keep the IDs of variants whose SKU is already on the product, so an import
+ * updates their stock instead of replacing them
+ */
+function withVariantIds(existing: Product, variants: Product['variants']): Product['variants'] {
+  const bySku = new Map((existing.variants ?? []).map((v) => [v.sku.toLowerCase(), v.id]));
+  return variants?.map((v) => ({ ...v, id: v.id || bySku.get(v.sku.toLowerCase()) || '' }));
+}
+
+export function createProductTransferService(repo: ProductsRepo, products: ProductsService) {
+  return {
+    /**
+     * Read import rows from CSV text, or from a JSON array (as text or already
+     * parsed) of product objects.
+     *
+     * @throws {Error} 400 when the file cannot be read or has too many rows
+     */
+    parseImport(payload: unknown, format: ProductTransferFormat): ImportRecord[] {
+      const records =
+        format === 'csv'
+          ? csvRecords(typeof payload === 'string' ? payload : '')
+          : jsonRecords(payload);
+      if (records.length === 0) throw badRequest('The file has no product rows');
+      if (records.length > IMPORT_ROW_LIMIT) {
+        throw badRequest(`Import at most ${IMPORT_ROW_LIMIT} rows at a time`);
+      }
+      return records;
+    },
+
+    /**
+     * Match validated rows to products by SKU, or by id when a row has no
+     * SKU, and work out what each would change. Unless `dryRun` is set and as long as every row is valid, the
+     * changes are then written row by row; a row that fails at that point is
+     * reported and the rest still go through.
+     */
+    async importProducts(
+      rows: ProductImportRow[],
+      options: { dryRun: boolean; actor?: StockActor }
+    ): Promise<ProductImportReport> {
+      const firstLine = new Map<string, number>();
+      const skus: string[] = [];
+      const ids: string[] = [];
+      for (const row of rows) {
+        const id = row.sku ? undefined : row.product?.id;
+        const key = row.sku ? `sku:${row.sku}` : id && `id:${id}`;
+        if (!key) continue;
+        const seen = firstLine.get(key);
+        if (seen !== undefined) {
+          row.errors.push(
+            row.sku
+              ? { field: 'sku', message: `SKU repeats line ${seen}` }
+              : { field: 'id', message: `Product id repeats line ${seen}` }
+          );
+          continue;
+        }
+        firstLine.set(key, row.line);
+        if (row.sku) skus.push(row.sku);
+        else if (id) ids.push(id);
+      }
+      const existing = new Map(
+        (await repo.findBySkus(skus)).map((p): [string, Product] => [`sku:${p.sku}`, p])
+      );
+      for (const product of await Promise.all(ids.map((id) => repo.getById(id)))) {
+        if (product) existing.set(`id:${product.id}`, product);
+      }
+
+      const planned = rows.map((row): { result: ProductImportResult; patch?: Partial<Product> } => {
+        const { line, sku, product } = row;
+        if (row.errors.length || !product) {
+          return { result: { line, sku, action: 'error', errors: row.errors } };
+        }
+        const current = existing.get(product.sku ? `sku:${product.sku}` : `id:${product.id}`);
+        if (!current && !product.sku) {
+          const message = `No product has id ${product.id}; rows for new products need a sku`;
+          return { result: { line, action: 'error', errors: [{ field: 'id', message }] } };
+        }
+        if (!current) {
+          const missing: ImportFieldError[] = IMPORT_CREATE_REQUIRED.filter(
+            (field) => product[field] === undefined
+          ).map((field) => ({ field, message: `${field} is required for a new product` }));
+          if (product.stock === undefined && product.variants === undefined) {
+            missing.push({ field: 'stock', message: 'stock is required for a new product' });
+          }
+          if (missing.length) return { result: { line, sku, action: 'error', errors: missing } };
+          const changes: ProductImportResult['changes'] = {};
+          for (const field of row.fields) changes[field] = { to: product[field] };
+          // An id from another catalog's export does not carry over
+          const { id: _id, ...input } = product;
+          return { result: { line, sku, action: 'create', changes }, patch: input };
+        }
+
+        const next: Partial<Product> = { ...product };
+        if (row.fields.includes('variants')) {
+          next.variants = withVariantIds(current, product.variants);
+        }
+        const fields = row.fields.filter(
+          // Stock of a product with variants follows the variants
+          (field) =>
+            !(field === 'stock' && (row.fields.includes('variants') || hasVariants(current)))
+        );
+        if (
+          row.fields.includes('stock') &&
+          !row.fields.includes('variants') &&
+          hasVariants(current) &&
+          product.stock !== current.stock
+        ) {
+          return {
+            result: {
+              line,
+              sku,
+              action: 'error',
+              productId: current.id,
+              errors: [
+                {
+                  field: 'stock',
+                  message: 'Stock is tracked per variant; include the variants to change it',
+                },
+              ],
+            },
+          };
+        }
+        const changes: ProductImportResult['changes'] = {};
+        const patch: Partial<Product> = {};
+        for (const field of fields) {
+          if (sameValue(current[field], next[field])) continue;
+          changes[field] = { from: current[field], to: next[field] };
+          Object.assign(patch, { [field]: next[field] });
+        }
+        if (patch.variants || patch.options) {
+          patch.options = next.options;
+          patch.variants = next.variants;
+        }
+        const changed = Object.keys(changes).length > 0;
+        return {
+          result: {
+            line,
+            sku,
+            action: changed ? 'update' : 'unchanged',
+            productId: current.id,
+            ...(changed ? { changes } : {}),
+          },
+          patch: changed ? patch : undefined,
+        };
+      });
+
+      const valid = planned.every(({ result }) => result.action !== 'error');
+      const apply = valid && !options.dryRun;
+      if (apply) {
+        for (const entry of planned) {
+          const { result, patch } = entry;
+          if (!patch) continue;
+          try {
+            const saved =
+              result.action === 'create'
+                ? await products.create(
+                    patch as Parameters<ProductsService['create']>[0],
+                    options.actor
+                  )
+                : await products.update(result.productId!, patch, options.actor);
+            result.productId = saved.id;
+          } catch (error) {
+            entry.result = {
+              ...result,
+              action: 'error',
+              errors: [{ field: 'row', message: (error as Error).message }],
+            };
+          }
+        }
+      }
+
+      const results = planned.map(({ result }) => result);
+      const summary = { total: results.length, create: 0, update: 0, unchanged: 0, error: 0 };
+      for (const { action } of results) summary[action as ImportAction] += 1;
+      return { dryRun: options.dryRun, applied: apply, summary, rows: results };
+    },
+
+    /**
+     * The whole catalog in import format, a page at a time, as text chunks
+     * ready to be written to a response
+     */
+    async *exportProducts(format: ProductTransferFormat): AsyncGenerator<string> {
+      yield format === 'csv' ? formatCsvRow([...PRODUCT_TRANSFER_COLUMNS]) : '[';
+      let cursor: string | undefined;
+      let first = true;
+      do {
+        const page = await repo.list({ limit: EXPORT_PAGE_SIZE, cursor });
+        let chunk = '';
+        for (const product of page.data) {
+          const record = exportRecord(product);
+          if (format === 'csv') {
+            chunk += formatCsvRow(PRODUCT_TRANSFER_COLUMNS.map((f) => csvCell(f, record[f])));
+          } else {
+            chunk += `${first ? '\n' : ',\n'}${JSON.stringify(record)}`;
+            first = false;
+          }
+        }
+        if (chunk) yield chunk;
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      if (format === 'json') yield '\n]\n';
+    },
+  };
+}
+
+export type ProductTransferService = ReturnType<typeof createProductTransferService>;
+
+export const productTransferService = createProductTransferService(
+  lazyRepository('products'),
+  productsService
+);
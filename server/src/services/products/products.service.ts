@@ -1,24 +1,170 @@
 /**
  * Product domain service acting as a thin layer over repository implementations.
- * Centralizes CRUD, filtering, statistics, and timeseries access so calling code
+ * Centralizes CRUD, filtering, search, statistics, and timeseries access so calling code
  * stays agnostic of the underlying persistence strategy.
  */
 
-import { fsProductsRepo } from '../../data/firestore/products.repo.fs';
-import type { ProductsRepo } from '../../data/ports/products.repo';
-import type { Product } from '../../domain/product';
+import { randomUUID } from 'node:crypto';
+import { lazyRepository } from '../../data';
+import type { ProductSearchRepo } from '../../data/ports/productSearch.repo';
+import type {
+  ProductListPage,
+  ProductListParams,
+  ProductsRepo,
+} from '../../data/ports/products.repo';
+import type { StockActor } from '../../domain/inventory';
+import type { Product, ProductOption, ProductPatch, ProductVariant } from '../../domain/product';
+import type { ProductSearchParams } from '../../domain/search';
+import { decodeCursor, encodeCursor } from '../../utils/cursor';
+
+const DEFAULT_LIST_LIMIT = 20;
+const SUGGESTION_LIMIT = 8;
+
+function badRequest(message: string): Error {
+  return Object.assign(new Error(message), { status: 400 });
+}
+
+/**
+ * Drop the rating fields, which only approved reviews may change
+ */
+function withoutRatings<T extends ProductPatch>(
+  input: T
+): Omit<T, 'rating' | 'reviewCount' | 'ratingCounts'> {
+  const { rating: _rating, reviewCount: _count, ratingCounts: _counts, ...rest } = input;
+  return rest;
+}
+
+/**
+ * Check that every variant picks exactly one allowed value per option and that
+ * no two variants share a combination, SKU or ID; variants without an ID get one.
+ *
+ * @throws {Error} 400 describing the first problem found
+ */
+function normalizeVariants(
+  options: ProductOption[] = [],
+  variants: ProductVariant[] = []
+): { options: ProductOption[]; variants: ProductVariant[] } {
+  if (variants.length === 0) {
+    if (options.length) throw badRequest('Options require at least one variant');
+    return { options: [], variants: [] };
+  }
+  if (options.length === 0) throw badRequest('Variants require at least one option');
+
+  const names = options.map((o) => o.name);
+  if (new Set(names.map((n) => n.toLowerCase())).size !== names.length) {
+    throw badRequest('Option names must be unique');
+  }
+
+  const ids = new Set<string>();
+  const skus = new Set<string>();
+  const combinations = new Set<string>();
+  const normalized = variants.map((variant) => {
+    const keys = Object.keys(variant.options);
+    if (keys.length !== names.length || !names.every((n) => keys.includes(n))) {
+      throw badRequest(
+        `Variant ${variant.sku} must set exactly these options: ${names.join(', ')}`
+      );
+    }
+    for (const option of options) {
+      if (!option.values.includes(variant.options[option.name])) {
+        throw badRequest(
+          `Variant ${variant.sku} uses unknown ${option.name} "${variant.options[option.name]}"`
+        );
+      }
+    }
+    const combination = names.map((n) => variant.options[n]).join('\u0000');
+    if (combinations.has(combination)) {
+      throw badRequest(`Variant ${variant.sku} duplicates another option combination`);
+    }
+    combinations.add(combination);
+    const sku = variant.sku.toLowerCase();
+    if (skus.has(sku)) throw badRequest(`Duplicate SKU ${variant.sku}`);
+    skus.add(sku);
+    const id = variant.id || randomUUID().replace(/-/g, '');
+    if (ids.has(id)) throw badRequest(`Duplicate variant ID ${id}`);
+    ids.add(id);
+    return { ...variant, id };
+  });
+  return { options, variants: normalized };
+}
+
+export function createProductsService(repo: ProductsRepo, search: ProductSearchRepo) {
+  /**
+   * @throws {Error} 409 when another product already has the SKU
+   */
+  async function assertSkuAvailable(sku: string | undefined, productId?: string): Promise<void> {
+    if (!sku) return;
+    const owner = (await repo.findBySkus([sku])).find((p) => p.id !== productId);
+    if (owner) {
+      throw Object.assign(new Error(`SKU ${sku} is already used by product ${owner.id}`), {
+        status: 409,
+      });
+    }
+  }
 
-export function createProductsService(repo: ProductsRepo) {
   return {
-    list: (params?: {
-      sort?: { field: keyof Product; dir: 'asc' | 'desc' };
-      filter?: { q?: string; category?: string; minPrice?: number; maxPrice?: number };
-      page?: number;
-      pageSize?: number;
-    }) => repo.list(params),
+    /**
+     * A text query is answered from the search index, ranked unless a sort is
+     * given; its cursors then carry a page number instead of a row position.
+     */
+    list: async (
+      params: Omit<ProductListParams, 'filter'> & {
+        filter?: ProductListParams['filter'] & { q?: string };
+      } = {}
+    ): Promise<ProductListPage> => {
+      const { q, ...filter } = params.filter ?? {};
+      if (!q?.trim()) return repo.list({ ...params, filter });
+      const limit = params.limit ?? DEFAULT_LIST_LIMIT;
+      const scope = { q, sort: params.sort ?? null, filter };
+      const page = params.cursor ? Number(decodeCursor(params.cursor, scope).page) : 1;
+      if (!Number.isInteger(page) || page < 1) {
+        throw badRequest('Invalid or expired cursor for this query');
+      }
+      const { data, total } = await search.search({
+        ...filter,
+        q,
+        sort: params.sort,
+        page,
+        pageSize: limit,
+      });
+      return {
+        data,
+        total,
+        nextCursor: page * limit < total ? encodeCursor({ page: page + 1 }, scope) : null,
+        prevCursor: page > 1 ? encodeCursor({ page: page - 1 }, scope) : null,
+      };
+    },
+    search: (params?: ProductSearchParams) => search.search(params),
+    /** Best matches for a partial query, for search-as-you-type */
+    suggest: async (q: string, limit = SUGGESTION_LIMIT) =>
+      q.trim() ? (await search.search({ q, pageSize: limit })).data : [],
+    rebuildSearchIndex: () => search.rebuild(),
+    backfillSearchIndex: () => search.backfill(),
     getById: (id: string) => repo.getById(id),
-    create: (input: Omit<Product, 'id' | 'createdAt'>) => repo.create(input),
-    update: (id: string, patch: Partial<Product>) => repo.update(id, patch),
+    /** New products start unrated; `rating` follows approved reviews from then on */
+    async create(input: Omit<Product, 'id' | 'createdAt' | 'rating'>, actor?: StockActor) {
+      await assertSkuAvailable(input.sku);
+      return repo.create(
+        {
+          ...withoutRatings(input),
+          ...(input.variants ? normalizeVariants(input.options, input.variants) : {}),
+          rating: 0,
+          reviewCount: 0,
+        },
+        actor
+      );
+    },
+    async update(id: string, patch: ProductPatch, actor?: StockActor) {
+      await assertSkuAvailable(patch.sku, id);
+      return repo.update(
+        id,
+        {
+          ...withoutRatings(patch),
+          ...(patch.variants ? normalizeVariants(patch.options, patch.variants) : {}),
+        },
+        actor
+      );
+    },
     remove: (id: string) => repo.remove(id),
     stats: () => repo.stats(),
     timeseries: (params?: { windowDays?: number; interval?: 'day' | 'week' | 'month' }) =>
@@ -26,4 +172,9 @@ export function createProductsService(repo: ProductsRepo) {
   };
 }
 
-export const productsService = createProductsService(fsProductsRepo);
+export type ProductsService = ReturnType<typeof createProductsService>;
+
+export const productsService = createProductsService(
+  lazyRepository('products'),
+  lazyRepository('productSearch')
+);
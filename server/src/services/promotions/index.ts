@@ -0,0 +1 @@
+export { createPromotionsService, promotionsService } from './promotions.service';
@@ -0,0 +1,36 @@
+/**
+ * Admin-facing promotions service. Codes are applied to carts by the pricing
+ * engine; this service only manages the promotion definitions.
+ */
+
+import { lazyRepository } from '@server/data';
+import type { PromotionsRepo } from '@server/data/ports/promotions.repo';
+import type { Promotion, PromotionInput } from '@server/domain/promotions';
+
+export function createPromotionsService(repo: PromotionsRepo) {
+  return {
+    async list(): Promise<Promotion[]> {
+      return repo.list();
+    },
+
+    async create(input: PromotionInput): Promise<Promotion> {
+      return repo.create(input);
+    },
+
+    async update(id: string, input: PromotionInput): Promise<Promotion> {
+      return repo.update(id, input);
+    },
+
+    async remove(id: string): Promise<void> {
+      const existing = await repo.getById(id);
+      if (!existing) {
+        const err = new Error('Promotion not found');
+        (err as any).status = 404;
+        throw err;
+      }
+      await repo.remove(id);
+    },
+  };
+}
+
+export const promotionsService = createPromotionsService(lazyRepository('promotions'));
@@ -0,0 +1,6 @@
+export {
+  createReturnsService,
+  type ReturnApproval,
+  type ReturnsService,
+  returnsService,
+} from './returns.service';
@@ -0,0 +1,86 @@
+import { createMemoryRepositories } from '@server/data';
+import { OrderStatus, PaymentMethod, PaymentStatus } from '@server/domain/orders';
+import { ReturnStatus } from '@server/domain/returns';
+import { describe, expect, it, vi } from 'vitest';
+import { createMockPaymentGateway } from '../payments/mock.gateway';
+import { PaymentService } from '../payments/payment.service';
+import { createReturnsService } from './returns.service';
+
+const customer = { id: 'user-1', email: 'ada@example.com' };
+const admin = { id: 'admin-1', email: 'admin@example.com', isAdmin: true };
+
+async function setup() {
+  const repos = createMemoryRepositories();
+  const gateway = createMockPaymentGateway({ webhookSecret: 'test-webhook-secret' });
+  const payments = new PaymentService(repos.orders, gateway, 'USD');
+  const service = createReturnsService(repos.returns, repos.orders, payments);
+  const product = await repos.products.create({
+    name: 'Kettle',
+    price: 30,
+    category: 'kitchen',
+    rating: 0,
+    stock: 4,
+  });
+  const order = await repos.orders.create(
+    {
+      items: [{ productId: product.id, quantity: 2 }],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+      shippingAddress: {
+        fullName: 'Ada Lovelace',
+        street: '12 Analytical Row',
+        city: 'London',
+        state: 'LDN',
+        postalCode: 'N1 9GU',
+        country: 'GB',
+      },
+    },
+    customer.id,
+    customer.email
+  );
+  await payments.authorize(order.id, customer, 'tok_success');
+  await payments.capture(order.id, admin);
+  await repos.orders.update(order.id, { status: OrderStatus.DELIVERED });
+  const request = await service.request(order.id, customer, {
+    items: [{ productId: product.id, quantity: 1 }],
+    reason: 'Arrived dented',
+  });
+  return { repos, payments, service, order, request };
+}
+
+describe('returnsService.approve', () => {
+  it('refunds once when two admins approve at the same time', async () => {
+    const { repos, payments, service, order, request } = await setup();
+    const refund = vi.spyOn(payments, 'refund');
+
+    const results = await Promise.allSettled([
+      service.approve(request.id, admin, { restock: true }),
+      service.approve(request.id, admin, { restock: true }),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find((r) => r.status === 'rejected')).toMatchObject({
+      reason: { status: 409 },
+    });
+    expect(refund).toHaveBeenCalledTimes(1);
+    expect(await repos.returns.listRefunds(order.id)).toHaveLength(1);
+    expect((await repos.orders.findById(order.id))?.paymentStatus).toBe(
+      PaymentStatus.PARTIALLY_REFUNDED
+    );
+  });
+
+  it('hands the request back when the gateway refund fails', async () => {
+    const { repos, payments, service, request } = await setup();
+    vi.spyOn(payments, 'refund').mockRejectedValueOnce(
+      Object.assign(new Error('Payment provider error'), { status: 502 })
+    );
+
+    await expect(service.approve(request.id, admin, { restock: false })).rejects.toMatchObject({
+      status: 502,
+    });
+    expect((await repos.returns.getById(request.id))?.status).toBe(ReturnStatus.REQUESTED);
+
+    const approved = await service.approve(request.id, admin, { restock: false });
+    expect(approved.status).toBe(ReturnStatus.APPROVED);
+    expect(approved.refundAmount).toBe(30);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Returns (RMA) service. Customers request returns for delivered orders;
+ * admins approve them (refunding through the payment gateway when the order
+ * was paid online, and optionally restocking) or reject them.
+ */
+
+import { lazyRepository } from '@server/data';
+import type { OrderRepository } from '@server/data/ports/OrderRepository';
+import type { ReturnsRepo } from '@server/data/ports/returns.repo';
+import { stockKey } from '@server/domain/inventory';
+import { type Order, OrderStatus, PaymentStatus } from '@server/domain/orders';
+import {
+  type CreateReturnInput,
+  type RefundRecord,
+  type ReturnItem,
+  type ReturnRequest,
+  ReturnStatus,
+} from '@server/domain/returns';
+import { createPaymentService, type PaymentActor, type PaymentService } from '../payments';
+import { roundMoney } from '../pricing';
+
+export interface ReturnApproval {
+  /** Defaults to the value of the returned items, capped at what is left to refund */
+  refundAmount?: number;
+  restock: boolean;
+  note?: string;
+}
+
+/** Payment states in which the gateway still holds captured money */
+const GATEWAY_REFUNDABLE = [PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED];
+
+function httpError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+export function createReturnsService(
+  repo: ReturnsRepo,
+  orders: OrderRepository,
+  payments: PaymentService
+) {
+  async function getOrderFor(orderId: string, actor: PaymentActor): Promise<Order> {
+    const order = await orders.findById(orderId);
+    if (!order) throw httpError(`Order not found: ${orderId}`, 404);
+    if (!actor.isAdmin && order.userId !== actor.id) {
+      throw httpError('Access denied: You can only access your own orders', 403);
+    }
+    return order;
+  }
+
+  async function getPending(id: string): Promise<ReturnRequest> {
+    const request = await repo.getById(id);
+    if (!request) throw httpError('Return request not found', 404);
+    if (request.status !== ReturnStatus.REQUESTED) {
+      throw httpError(`Return request is already ${request.status}`, 409);
+    }
+    return request;
+  }
+
+  /** Amount of the order not yet paid back, whichever way it was refunded */
+  async function refundableAmount(order: Order): Promise<number> {
+    const recorded = (await repo.listRefunds(order.id)).reduce((sum, r) => sum + r.amount, 0);
+    const refunded = Math.max(recorded, order.payment?.refundedAmount ?? 0);
+    return Math.max(0, roundMoney(order.totalAmount - refunded));
+  }
+
+  return {
+    async request(
+      orderId: string,
+      actor: PaymentActor,
+      input: CreateReturnInput
+    ): Promise<ReturnRequest> {
+      const order = await getOrderFor(orderId, actor);
+      if (order.userId !== actor.id) {
+        throw httpError('Only the customer who placed the order can request a return', 403);
+      }
+      if (order.status !== OrderStatus.DELIVERED) {
+        throw httpError('Returns can only be requested for delivered orders', 400);
+      }
+
+      // Units already in an open or approved return cannot be returned again
+      const claimed = new Map<string, number>();
+      for (const existing of await repo.listByOrder(orderId)) {
+        if (existing.status === ReturnStatus.REJECTED) continue;
+        for (const item of existing.items) {
+          const key = stockKey(item.productId, item.variantId);
+          claimed.set(key, (claimed.get(key) ?? 0) + item.quantity);
+        }
+      }
+
+      const items: ReturnItem[] = [];
+      for (const { productId, variantId, quantity } of input.items) {
+        const key = stockKey(productId, variantId);
+        const line = order.items.find((i) => stockKey(i.productId, i.variantId) === key);
+        if (!line) {
+          throw httpError(
+            variantId
+              ? `Variant ${variantId} of product ${productId} is not part of this order`
+              : `Product ${productId} is not part of this order`,
+            400
+          );
+        }
+        const available = line.quantity - (claimed.get(key) ?? 0);
+        if (quantity > available) {
+          const label = line.variantName
+            ? `${line.productName} (${line.variantName})`
+            : line.productName;
+          throw httpError(`Only ${available} unit(s) of ${label} can still be returned`, 409);
+        }
+        items.push({
+          productId,
+          productName: line.productName,
+          ...(line.variantId ? { variantId: line.variantId, variantName: line.variantName } : {}),
+          quantity,
+          unitPrice: line.unitPrice,
+        });
+      }
+
+      // Spread the order discount over the returned units
+      const grossValue = items.reduce((sum, i) => sum + i.unitPrice * i.quantity, 0);
+      const discountRatio =
+        order.subtotal > 0 ? (order.subtotal - (order.discountAmount ?? 0)) / order.subtotal : 1;
+
+      return repo.create({
+        orderId,
+        userId: order.userId,
+        userEmail: order.userEmail,
+        items,
+        reason: input.reason,
+        status: ReturnStatus.REQUESTED,
+        itemsValue: roundMoney(grossValue * discountRatio),
+        restocked: false,
+      });
+    },
+
+    async listForOrder(
+      orderId: string,
+      actor: PaymentActor
+    ): Promise<{ returns: ReturnRequest[]; refunds: RefundRecord[] }> {
+      await getOrderFor(orderId, actor);
+      const [returns, refunds] = await Promise.all([
+        repo.listByOrder(orderId),
+        repo.listRefunds(orderId),
+      ]);
+      return { returns, refunds };
+    },
+
+    async list(status?: ReturnStatus): Promise<ReturnRequest[]> {
+      return repo.list({ status, limit: 200 });
+    },
+
+    async approve(
+      id: string,
+      actor: PaymentActor,
+      approval: ReturnApproval
+    ): Promise<ReturnRequest> {
+      const request = await getPending(id);
+      const order = await getOrderFor(request.orderId, actor);
+
+      const remaining = await refundableAmount(order);
+      const amount = roundMoney(approval.refundAmount ?? Math.min(request.itemsValue, remaining));
+      if (amount > remaining) {
+        throw httpError(`Refund exceeds the ${remaining.toFixed(2)} left to refund`, 409);
+      }
+
+      // Claim the request first so a concurrent approval cannot refund it too
+      await repo.transition(id, ReturnStatus.REQUESTED, ReturnStatus.APPROVING);
+
+      let refund: Omit<RefundRecord, 'id' | 'orderId' | 'returnId' | 'createdAt'> | undefined;
+      if (amount > 0) {
+        const createdBy = actor.id ?? 'system';
+        if (order.payment && GATEWAY_REFUNDABLE.includes(order.paymentStatus)) {
+          try {
+            await payments.refund(order.id, actor, amount);
+          } catch (error) {
+            // Nothing was refunded; hand the request back for another attempt
+            await repo
+              .transition(id, ReturnStatus.APPROVING, ReturnStatus.REQUESTED)
+              .catch(() => undefined);
+            throw error;
+          }
+          refund = { amount, method: 'gateway', paymentId: order.payment.paymentId, createdBy };
+        } else {
+          refund = { amount, method: 'manual', createdBy };
+        }
+      }
+
+      return repo.resolve(id, {
+        status: ReturnStatus.APPROVED,
+        resolvedBy: actor.id ?? 'system',
+        adminNote: approval.note,
+        refund,
+        restockItems: approval.restock ? request.items : undefined,
+      });
+    },
+
+    async reject(id: string, actor: PaymentActor, note?: string): Promise<ReturnRequest> {
+      await getPending(id);
+      return repo.resolve(id, {
+        status: ReturnStatus.REJECTED,
+        resolvedBy: actor.id ?? 'system',
+        adminNote: note,
+      });
+    },
+  };
+}
+
+export type ReturnsService = ReturnType<typeof createReturnsService>;
+
+export const returnsService = createReturnsService(
+  lazyRepository('returns'),
+  lazyRepository('orders'),
+  createPaymentService(lazyRepository('orders'))
+);
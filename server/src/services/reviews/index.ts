@@ -0,0 +1,7 @@
+export {
+  createReviewsService,
+  type Reviewer,
+  type ReviewModerator,
+  type ReviewsService,
+  reviewsService,
+} from './reviews.service';
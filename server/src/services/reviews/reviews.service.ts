@@ -0,0 +1,161 @@
+/**
+ * Product reviews service. Customers rate products they have received;
+ * reviews wait in a moderation queue and only approved ones are shown and
+ * counted in the product's rating.
+ */
+
+import { lazyRepository } from '@server/data';
+import type { OrderRepository } from '@server/data/ports/OrderRepository';
+import type { ProductsRepo } from '@server/data/ports/products.repo';
+import type { ReviewListParams, ReviewsRepo } from '@server/data/ports/reviews.repo';
+import { type Order, OrderStatus } from '@server/domain/orders';
+import {
+  type CreateReviewInput,
+  type PublicReview,
+  type Review,
+  ReviewStatus,
+  type ReviewSummary,
+  summarizeRatings,
+} from '@server/domain/reviews';
+
+export interface Reviewer {
+  id: string;
+  email: string;
+}
+
+export interface ReviewModerator {
+  id?: string;
+  email?: string;
+}
+
+/** Orders read per page while looking for a delivered purchase */
+const ORDER_SCAN_PAGE = 50;
+
+function httpError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+/** "Jane Doe" => "Jane D."; falls back to the part of the email before the @ */
+function displayName(fullName: string | undefined, email: string): string {
+  const [first, ...rest] = (fullName ?? '').trim().split(/\s+/).filter(Boolean);
+  if (!first) return email.split('@')[0] || 'Customer';
+  const last = rest[rest.length - 1];
+  return last ? `${first} ${last[0].toUpperCase()}.` : first;
+}
+
+function toPublicReview(review: Review): PublicReview {
+  const {
+    userEmail: _email,
+    moderatedBy: _by,
+    moderatedAt: _at,
+    moderationNote: _note,
+    ...rest
+  } = review;
+  return rest;
+}
+
+export function createReviewsService(
+  repo: ReviewsRepo,
+  orders: OrderRepository,
+  products: ProductsRepo
+) {
+  /** The user's most recent delivered order containing the product, if any */
+  async function findPurchase(userId: string, productId: string): Promise<Order | null> {
+    let lastOrderId: string | undefined;
+    for (;;) {
+      const page = await orders.findByUserId(userId, ORDER_SCAN_PAGE, lastOrderId);
+      const match = page.find(
+        (order) =>
+          order.status === OrderStatus.DELIVERED &&
+          order.items.some((item) => item.productId === productId)
+      );
+      if (match) return match;
+      if (page.length < ORDER_SCAN_PAGE) return null;
+      lastOrderId = page[page.length - 1].id;
+    }
+  }
+
+  async function getProductSummary(productId: string): Promise<ReviewSummary> {
+    const product = await products.getById(productId);
+    if (!product) throw httpError(`Product not found: ${productId}`, 404);
+    return summarizeRatings(product.ratingCounts);
+  }
+
+  function moderate(id: string, status: ReviewStatus, actor: ReviewModerator, note?: string) {
+    return repo.moderate(id, {
+      status,
+      moderatedBy: actor.id ?? 'system',
+      note: note?.trim() || undefined,
+    });
+  }
+
+  return {
+    /** A page of approved reviews with the product's rating summary */
+    async listForProduct(
+      productId: string,
+      params: ReviewListParams = {}
+    ): Promise<{ data: PublicReview[]; nextCursor: string | null; summary: ReviewSummary }> {
+      const summary = await getProductSummary(productId);
+      const page = await repo.listApproved(productId, params);
+      return { data: page.data.map(toPublicReview), nextCursor: page.nextCursor, summary };
+    },
+
+    /** The caller's own review (in any status) and whether they may write one */
+    async mine(
+      productId: string,
+      userId: string
+    ): Promise<{ review: PublicReview | null; canReview: boolean }> {
+      const [review, purchase] = await Promise.all([
+        repo.findByUserAndProduct(userId, productId),
+        findPurchase(userId, productId),
+      ]);
+      return { review: review && toPublicReview(review), canReview: purchase !== null };
+    },
+
+    /**
+     * Create or replace the caller's review. Only customers with a delivered
+     * order for the product may review it; an edited review is moderated again.
+     */
+    async submit(productId: string, user: Reviewer, input: CreateReviewInput): Promise<Review> {
+      const product = await products.getById(productId);
+      if (!product) throw httpError(`Product not found: ${productId}`, 404);
+      const purchase = await findPurchase(user.id, productId);
+      if (!purchase) {
+        throw httpError('Only customers who received this product can review it', 403);
+      }
+      const title = input.title?.trim();
+      return repo.submit({
+        productId,
+        userId: user.id,
+        userEmail: user.email,
+        authorName: displayName(purchase.shippingAddress?.fullName, user.email),
+        orderId: purchase.id,
+        rating: input.rating,
+        ...(title ? { title } : {}),
+        body: input.body.trim(),
+      });
+    },
+
+    async list(status?: ReviewStatus): Promise<Review[]> {
+      return repo.list({ status, limit: 200 });
+    },
+
+    approve: (id: string, actor: ReviewModerator, note?: string) =>
+      moderate(id, ReviewStatus.APPROVED, actor, note),
+
+    hide: (id: string, actor: ReviewModerator, note?: string) =>
+      moderate(id, ReviewStatus.HIDDEN, actor, note),
+
+    /** Set aside for a closer look; a flagged review is not shown */
+    flag: (id: string, actor: ReviewModerator, note?: string) =>
+      moderate(id, ReviewStatus.FLAGGED, actor, note),
+  };
+}
+
+export type ReviewsService = ReturnType<typeof createReviewsService>;
+
+export const reviewsService = createReviewsService(
+  lazyRepository('reviews'),
+  lazyRepository('orders'),
+  lazyRepository('products')
+);
@@ -0,0 +1,8 @@
+export { createLocalCarrier, type LocalCarrierOptions } from './local.carrier';
+export {
+  configuredCarriers,
+  createShipmentsService,
+  type ShipmentsService,
+  shipmentsService,
+  type TrackingRefreshResult,
+} from './shipments.service';
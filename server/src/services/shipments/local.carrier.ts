@@ -0,0 +1,84 @@
+/**
+ * Fake in-process carrier for local development and tests.
+ *
+ * Every shipment follows the same script: label created, picked up, sorted,
+ * out for delivery and delivered, one step every `stepMs`. The label time is
+ * part of the tracking number, so tracking needs no stored state and keeps
+ * working across restarts.
+ */
+
+import { randomBytes } from 'node:crypto';
+import {
+  type CarrierAdapter,
+  type CarrierTracking,
+  ShipmentStatus,
+  type TrackingEvent,
+} from '@server/domain/shipments';
+
+const SCRIPT: Array<Pick<TrackingEvent, 'status' | 'description' | 'location'>> = [
+  {
+    status: ShipmentStatus.LABEL_CREATED,
+    description: 'Shipping label created',
+    location: 'Warehouse',
+  },
+  { status: ShipmentStatus.IN_TRANSIT, description: 'Picked up by carrier', location: 'Warehouse' },
+  {
+    status: ShipmentStatus.IN_TRANSIT,
+    description: 'Arrived at sorting facility',
+    location: 'Regional hub',
+  },
+  {
+    status: ShipmentStatus.OUT_FOR_DELIVERY,
+    description: 'Out for delivery',
+    location: 'Local depot',
+  },
+  { status: ShipmentStatus.DELIVERED, description: 'Delivered' },
+];
+
+const TRACKING_NUMBER = /^LC([0-9A-Z]+)-[0-9A-F]{6}$/;
+
+export interface LocalCarrierOptions {
+  /** Time between two tracking events */
+  stepMs: number;
+}
+
+export function createLocalCarrier({ stepMs }: LocalCarrierOptions): CarrierAdapter {
+  const deliveryAfterMs = (SCRIPT.length - 1) * stepMs;
+
+  return {
+    code: 'local',
+    name: 'Local Courier',
+
+    async createShipment() {
+      const labelledAt = Date.now();
+      const suffix = randomBytes(3).toString('hex').toUpperCase();
+      return {
+        trackingNumber: `LC${labelledAt.toString(36).toUpperCase()}-${suffix}`,
+        estimatedDelivery: labelledAt + deliveryAfterMs,
+      };
+    },
+
+    async track(trackingNumber): Promise<CarrierTracking> {
+      const match = TRACKING_NUMBER.exec(trackingNumber);
+      if (!match) {
+        throw Object.assign(new Error(`Unknown tracking number: ${trackingNumber}`), {
+          status: 404,
+        });
+      }
+      const labelledAt = parseInt(match[1], 36);
+      const now = Date.now();
+      const events = SCRIPT.map((step, i) => ({
+        ...step,
+        occurredAt: labelledAt + i * stepMs,
+      })).filter((event, i) => i === 0 || event.occurredAt <= now);
+      const status = events[events.length - 1].status;
+      return {
+        status,
+        events,
+        ...(status === ShipmentStatus.DELIVERED
+          ? {}
+          : { estimatedDelivery: labelledAt + deliveryAfterMs }),
+      };
+    },
+  };
+}
@@ -0,0 +1,198 @@
+import { createMemoryRepositories } from '@server/data';
+import { OrderStatus, PaymentMethod } from '@server/domain/orders';
+import { ShipmentStatus } from '@server/domain/shipments';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalCarrier } from './local.carrier';
+import { createShipmentsService } from './shipments.service';
+
+const STEP_MS = 60_000;
+const admin = { id: 'admin-1', email: 'admin@example.com', isAdmin: true };
+const customer = { id: 'user-1', email: 'ada@example.com' };
+
+async function setup() {
+  const repos = createMemoryRepositories();
+  const service = createShipmentsService(repos.shipments, repos.orders, [
+    createLocalCarrier({ stepMs: STEP_MS }),
+  ]);
+  const kettle = await repos.products.create({
+    name: 'Kettle',
+    price: 30,
+    category: 'kitchen',
+    rating: 0,
+    stock: 10,
+  });
+  const mug = await repos.products.create({
+    name: 'Mug',
+    price: 8,
+    category: 'kitchen',
+    rating: 0,
+    stock: 10,
+  });
+  const created = await repos.orders.create(
+    {
+      items: [
+        { productId: kettle.id, quantity: 2 },
+        { productId: mug.id, quantity: 1 },
+      ],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+      shippingAddress: {
+        fullName: 'Ada Lovelace',
+        street: '12 Analytical Row',
+        city: 'London',
+        state: 'LDN',
+        postalCode: 'N1 9GU',
+        country: 'GB',
+      },
+    },
+    customer.id,
+    customer.email
+  );
+  const order = await repos.orders.update(created.id, { status: OrderStatus.CONFIRMED });
+  const statusOf = async () => (await repos.orders.findById(order.id))?.status;
+  return { repos, service, order, kettle, mug, statusOf };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('shipmentsService.create', () => {
+  it('ships part of an order, then the rest, moving the order along', async () => {
+    const { service, order, kettle, statusOf } = await setup();
+
+    const first = await service.create(order.id, admin, {
+      carrier: 'local',
+      items: [{ productId: kettle.id, quantity: 1 }],
+    });
+
+    expect(first.items).toMatchObject([{ productId: kettle.id, quantity: 1 }]);
+    expect(first.status).toBe(ShipmentStatus.LABEL_CREATED);
+    expect(await statusOf()).toBe(OrderStatus.PROCESSING);
+
+    const rest = await service.create(order.id, admin, { carrier: 'local' });
+
+    expect(rest.items.map((i) => i.quantity)).toEqual([1, 1]);
+    expect(await statusOf()).toBe(OrderStatus.SHIPPED);
+  });
+
+  it('refuses to ship more units than are left', async () => {
+    const { service, order, kettle } = await setup();
+    await service.create(order.id, admin, {
+      carrier: 'local',
+      items: [{ productId: kettle.id, quantity: 1 }],
+    });
+
+    await expect(
+      service.create(order.id, admin, {
+        carrier: 'local',
+        items: [{ productId: kettle.id, quantity: 2 }],
+      })
+    ).rejects.toMatchObject({ status: 409 });
+
+    await service.create(order.id, admin, { carrier: 'local' });
+    await expect(service.create(order.id, admin, { carrier: 'local' })).rejects.toMatchObject({
+      status: 409,
+    });
+  });
+
+  it('ships the same units once when two requests arrive together', async () => {
+    const { repos, service, order } = await setup();
+
+    const results = await Promise.allSettled([
+      service.create(order.id, admin, { carrier: 'local' }),
+      service.create(order.id, admin, { carrier: 'local' }),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find((r) => r.status === 'rejected')).toMatchObject({
+      reason: { status: 409 },
+    });
+    expect(await repos.shipments.listByOrder(order.id)).toHaveLength(1);
+  });
+
+  it('refuses lines that are not part of the order and orders that cannot ship', async () => {
+    const { repos, service, order } = await setup();
+
+    await expect(
+      service.create(order.id, admin, {
+        carrier: 'local',
+        items: [{ productId: 'other', quantity: 1 }],
+      })
+    ).rejects.toMatchObject({ status: 400 });
+
+    await repos.orders.update(order.id, { status: OrderStatus.CANCELLED });
+    await expect(service.create(order.id, admin, { carrier: 'local' })).rejects.toMatchObject({
+      status: 400,
+    });
+  });
+
+  it('keeps the shipment when the order update fails and syncs it on the next run', async () => {
+    const { repos, service, order, statusOf } = await setup();
+    const update = vi.spyOn(repos.orders, 'update').mockRejectedValueOnce(new Error('timeout'));
+
+    const shipment = await service.create(order.id, admin, { carrier: 'local' });
+
+    expect(await repos.shipments.getById(shipment.id)).not.toBeNull();
+    expect(await statusOf()).toBe(OrderStatus.CONFIRMED);
+
+    update.mockRestore();
+    await service.refreshActive();
+
+    expect(await statusOf()).toBe(OrderStatus.SHIPPED);
+  });
+});
+
+describe('shipment tracking', () => {
+  it("follows the scripted carrier's events", async () => {
+    const { service, order } = await setup();
+    const shipment = await service.create(order.id, admin, { carrier: 'local' });
+
+    vi.advanceTimersByTime(2 * STEP_MS);
+    const updated = await service.refresh(shipment.id, admin);
+
+    expect(updated.status).toBe(ShipmentStatus.IN_TRANSIT);
+    expect(updated.events.map((e) => e.description)).toEqual([
+      'Shipping label created',
+      'Picked up by carrier',
+      'Arrived at sorting facility',
+    ]);
+    expect(updated.estimatedDelivery).toBe(shipment.createdAt + 4 * STEP_MS);
+  });
+
+  it('marks the order delivered once every shipment has arrived', async () => {
+    const { service, order, kettle, statusOf } = await setup();
+    await service.create(order.id, admin, {
+      carrier: 'local',
+      items: [{ productId: kettle.id, quantity: 2 }],
+    });
+    vi.advanceTimersByTime(STEP_MS);
+    await service.create(order.id, admin, { carrier: 'local' });
+
+    // The first shipment's script has run its course, the second is a step behind
+    vi.advanceTimersByTime(3 * STEP_MS);
+    const first = await service.refreshActive();
+
+    expect(first).toMatchObject({ checked: 2, delivered: 1, failed: 0 });
+    expect(await statusOf()).toBe(OrderStatus.SHIPPED);
+
+    vi.advanceTimersByTime(STEP_MS);
+    const second = await service.refreshActive();
+
+    expect(second).toMatchObject({ checked: 1, delivered: 1, failed: 0 });
+    expect(await statusOf()).toBe(OrderStatus.DELIVERED);
+    expect(await service.refreshActive()).toMatchObject({ checked: 0 });
+  });
+
+  it("hides an order's shipments from other customers", async () => {
+    const { service, order } = await setup();
+
+    await expect(
+      service.listForOrder(order.id, { id: 'user-2', email: 'eve@example.com' })
+    ).rejects.toMatchObject({ status: 403 });
+    await expect(service.listForOrder(order.id, customer)).resolves.toEqual([]);
+  });
+});
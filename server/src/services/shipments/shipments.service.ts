@@ -0,0 +1,347 @@
+/**
+ * Shipments service. Staff ship an order in one or more shipments, each with
+ * some of its units and one carrier; tracking events are pulled from the
+ * carrier, and the order follows its shipments: PROCESSING while units are
+ * left to ship, SHIPPED once all are on their way and DELIVERED once every
+ * shipment has arrived.
+ */
+
+import { loadEnv } from '@server/config/env';
+import { lazyRepository } from '@server/data';
+import type { OrderRepository } from '@server/data/ports/OrderRepository';
+import type { ShipmentsRepo } from '@server/data/ports/shipments.repo';
+import { stockKey } from '@server/domain/inventory';
+import { type Order, OrderStatus, type OrderTracking } from '@server/domain/orders';
+import {
+  type CarrierAdapter,
+  type CreateShipmentInput,
+  type Shipment,
+  type ShipmentItem,
+  ShipmentStatus,
+} from '@server/domain/shipments';
+import { logError } from '@server/utils/logger';
+import { OrderService } from '../orders';
+import type { PaymentActor } from '../payments';
+import { createLocalCarrier } from './local.carrier';
+
+/** Order statuses in which units can be shipped */
+const SHIPPABLE = [OrderStatus.CONFIRMED, OrderStatus.PROCESSING, OrderStatus.SHIPPED];
+
+/** The part of the order lifecycle shipments move an order along, in order */
+const FULFILMENT_PATH = [
+  OrderStatus.CONFIRMED,
+  OrderStatus.PROCESSING,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+];
+
+const SYSTEM_ACTOR = 'system';
+
+export interface TrackingRefreshResult {
+  checked: number;
+  updated: number;
+  delivered: number;
+  failed: number;
+}
+
+function httpError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+function label(item: Pick<ShipmentItem, 'productName' | 'variantName'>): string {
+  return item.variantName ? `${item.productName} (${item.variantName})` : item.productName;
+}
+
+export function createShipmentsService(
+  repo: ShipmentsRepo,
+  orders: OrderRepository,
+  carriers: CarrierAdapter[]
+) {
+  const orderService = new OrderService(orders);
+
+  function getCarrier(code: string): CarrierAdapter {
+    const carrier = carriers.find((c) => c.code === code);
+    if (!carrier) throw httpError(`Unknown carrier: ${code}`, 400);
+    return carrier;
+  }
+
+  async function getOrderFor(orderId: string, actor: PaymentActor): Promise<Order> {
+    const order = await orders.findById(orderId);
+    if (!order) throw httpError(`Order not found: ${orderId}`, 404);
+    if (!actor.isAdmin && order.userId !== actor.id) {
+      throw httpError('Access denied: You can only access your own orders', 403);
+    }
+    return order;
+  }
+
+  /** Units of each order line (by stockKey) not in any shipment yet */
+  function unshipped(order: Order, shipments: Shipment[]): Map<string, number> {
+    const remaining = new Map<string, number>();
+    for (const item of order.items) {
+      const key = stockKey(item.productId, item.variantId);
+      remaining.set(key, (remaining.get(key) ?? 0) + item.quantity);
+    }
+    for (const shipment of shipments) {
+      for (const item of shipment.items) {
+        const key = stockKey(item.productId, item.variantId);
+        remaining.set(key, (remaining.get(key) ?? 0) - item.quantity);
+      }
+    }
+    return remaining;
+  }
+
+  /**
+   * Move the order along its fulfilment path to match its shipments, and show
+   * the latest shipment as the order's tracking details (used by emails).
+   * Does nothing when the order already matches, so it is safe to repeat.
+   */
+  async function syncOrder(
+    orderId: string,
+    actorId: string,
+    shipments?: Shipment[]
+  ): Promise<void> {
+    const order = await orders.findById(orderId);
+    if (!order) return;
+    shipments ??= await repo.listByOrder(orderId);
+    const latest = shipments[shipments.length - 1];
+    if (!latest) return;
+
+    const fullyShipped = [...unshipped(order, shipments).values()].every((qty) => qty <= 0);
+    const target = !fullyShipped
+      ? OrderStatus.PROCESSING
+      : shipments.every((s) => s.status === ShipmentStatus.DELIVERED)
+        ? OrderStatus.DELIVERED
+        : OrderStatus.SHIPPED;
+
+    const tracking: OrderTracking = {
+      trackingNumber: latest.trackingNumber,
+      carrier: latest.carrierName,
+      shippedAt: new Date(shipments[0].createdAt),
+      ...(latest.estimatedDelivery
+        ? { estimatedDelivery: new Date(latest.estimatedDelivery) }
+        : {}),
+    };
+    let pendingTracking: OrderTracking | undefined =
+      order.tracking?.trackingNumber === tracking.trackingNumber &&
+      order.tracking?.estimatedDelivery?.getTime() === tracking.estimatedDelivery?.getTime()
+        ? undefined
+        : tracking;
+
+    // One step at a time, so every transition is validated and announced
+    const from = FULFILMENT_PATH.indexOf(order.status);
+    const to = FULFILMENT_PATH.indexOf(target);
+    for (let i = from + 1; from >= 0 && i <= to; i++) {
+      await orderService.updateOrder(
+        orderId,
+        { status: FULFILMENT_PATH[i], ...(pendingTracking ? { tracking: pendingTracking } : {}) },
+        actorId,
+        true
+      );
+      pendingTracking = undefined;
+    }
+    if (pendingTracking) {
+      await orderService.updateOrder(orderId, { tracking: pendingTracking }, actorId, true);
+    }
+  }
+
+  /**
+   * Pull new tracking events. The order is synced before the shipment is
+   * saved, so when that fails the shipment keeps its old status and stays in
+   * `listActive` for the next run to try again.
+   */
+  async function refresh(shipment: Shipment, actorId: string): Promise<Shipment> {
+    const tracking = await getCarrier(shipment.carrier).track(shipment.trackingNumber);
+    const delivered = tracking.status === ShipmentStatus.DELIVERED;
+    const update = {
+      status: tracking.status,
+      events: tracking.events,
+      estimatedDelivery: tracking.estimatedDelivery,
+      deliveredAt: delivered
+        ? (shipment.deliveredAt ?? tracking.events[tracking.events.length - 1]?.occurredAt)
+        : undefined,
+      lastCheckedAt: Date.now(),
+    };
+    const shipments = (await repo.listByOrder(shipment.orderId)).map((s) =>
+      s.id === shipment.id ? { ...s, ...update } : s
+    );
+    await syncOrder(shipment.orderId, actorId, shipments);
+    return repo.updateTracking(shipment.id, update);
+  }
+
+  /**
+   * The units of `requested` as shipment items, checked against what is left
+   * to ship.
+   *
+   * @throws {Error} 400 for lines not in the order, 409 for units already shipped
+   */
+  function pickItems(
+    order: Order,
+    requested: NonNullable<CreateShipmentInput['items']>,
+    remaining: Map<string, number>
+  ): ShipmentItem[] {
+    const items: ShipmentItem[] = [];
+    for (const { productId, variantId, quantity } of requested) {
+      const key = stockKey(productId, variantId);
+      const line = order.items.find((i) => stockKey(i.productId, i.variantId) === key);
+      if (!line) {
+        throw httpError(
+          variantId
+            ? `Variant ${variantId} of product ${productId} is not part of this order`
+            : `Product ${productId} is not part of this order`,
+          400
+        );
+      }
+      const available = remaining.get(key) ?? 0;
+      if (quantity > available) {
+        throw httpError(`Only ${available} unit(s) of ${label(line)} are left to ship`, 409);
+      }
+      if (quantity <= 0) continue;
+      items.push({
+        productId,
+        productName: line.productName,
+        ...(line.variantId ? { variantId: line.variantId, variantName: line.variantName } : {}),
+        quantity,
+      });
+    }
+    if (items.length === 0) {
+      throw httpError('Every unit of this order has already been shipped', 409);
+    }
+    return items;
+  }
+
+  const service = {
+    /** Carriers staff can ship with */
+    listCarriers(): Array<{ code: string; name: string }> {
+      return carriers.map(({ code, name }) => ({ code, name }));
+    },
+
+    async listForOrder(orderId: string, actor: PaymentActor): Promise<Shipment[]> {
+      await getOrderFor(orderId, actor);
+      return repo.listByOrder(orderId);
+    },
+
+    /**
+     * Ship units of an order with a carrier; without `items`, every unit not
+     * shipped yet.
+     *
+     * @throws {Error} 404 for unknown orders, 400 for unknown carriers or lines,
+     *   orders that cannot ship, 409 when units are already shipped
+     */
+    async create(orderId: string, actor: PaymentActor, input: CreateShipmentInput) {
+      const order = await getOrderFor(orderId, actor);
+      if (!SHIPPABLE.includes(order.status)) {
+        throw httpError(`Cannot ship an order that is ${order.status}`, 400);
+      }
+      const carrier = getCarrier(input.carrier);
+      const remaining = unshipped(order, await repo.listByOrder(orderId));
+      const items = pickItems(
+        order,
+        input.items ??
+          order.items.map((line) => ({
+            productId: line.productId,
+            variantId: line.variantId,
+            quantity: remaining.get(stockKey(line.productId, line.variantId)) ?? 0,
+          })),
+        remaining
+      );
+
+      const { trackingNumber, estimatedDelivery } = await carrier.createShipment({
+        orderId,
+        destination: order.shippingAddress,
+        items,
+      });
+      const tracking = await carrier.track(trackingNumber);
+      // Another shipment may have taken the units while the label was made
+      const shipment = await repo.create(orderId, (shipments) => ({
+        orderId,
+        userId: order.userId,
+        carrier: carrier.code,
+        carrierName: carrier.name,
+        trackingNumber,
+        items: pickItems(order, items, unshipped(order, shipments)),
+        status: tracking.status,
+        events: tracking.events,
+        estimatedDelivery: tracking.estimatedDelivery ?? estimatedDelivery,
+        lastCheckedAt: Date.now(),
+        createdBy: actor.id ?? SYSTEM_ACTOR,
+      }));
+      // The shipment stands either way; the tracking worker syncs the order on its next run
+      try {
+        await syncOrder(orderId, actor.id ?? SYSTEM_ACTOR);
+      } catch (error) {
+        logError('Failed to update order after shipping', error, {
+          orderId,
+          shipmentId: shipment.id,
+        });
+      }
+      return shipment;
+    },
+
+    /**
+     * Fetch new tracking events of one shipment from its carrier
+     *
+     * @throws {Error} 404 for unknown shipments
+     */
+    async refresh(id: string, actor: PaymentActor): Promise<Shipment> {
+      const shipment = await repo.getById(id);
+      if (!shipment) throw httpError('Shipment not found', 404);
+      return refresh(shipment, actor.id ?? SYSTEM_ACTOR);
+    },
+
+    /**
+     * Fetch new tracking events of up to `limit` undelivered shipments, the
+     * longest unchecked first. A failing carrier only skips its shipments.
+     */
+    async refreshActive(limit = 100): Promise<TrackingRefreshResult> {
+      const result: TrackingRefreshResult = { checked: 0, updated: 0, delivered: 0, failed: 0 };
+      for (const shipment of await repo.listActive(limit)) {
+        result.checked += 1;
+        try {
+          const updated = await refresh(shipment, SYSTEM_ACTOR);
+          if (updated.events.length !== shipment.events.length) result.updated += 1;
+          if (updated.status === ShipmentStatus.DELIVERED) result.delivered += 1;
+        } catch (error) {
+          result.failed += 1;
+          logError('Shipment tracking refresh failed', error, { shipmentId: shipment.id });
+        }
+      }
+      return result;
+    },
+
+    /**
+     * Refresh undelivered shipments every `intervalMs` in the background. Runs
+     * never overlap, and the timer does not keep the process alive.
+     *
+     * @returns A function that stops the worker
+     */
+    startWorker(intervalMs: number): () => void {
+      let running = false;
+      const timer = setInterval(() => {
+        if (running) return;
+        running = true;
+        service
+          .refreshActive()
+          .catch((error) => logError('Shipment tracking run failed', error))
+          .finally(() => {
+            running = false;
+          });
+      }, intervalMs);
+      timer.unref();
+      return () => clearInterval(timer);
+    },
+  };
+  return service;
+}
+
+export type ShipmentsService = ReturnType<typeof createShipmentsService>;
+
+/** Carriers shipments can be sent with; real carriers implement the same CarrierAdapter port */
+export function configuredCarriers(): CarrierAdapter[] {
+  return [createLocalCarrier({ stepMs: loadEnv().LOCAL_CARRIER_STEP_SECONDS * 1000 })];
+}
+
+export const shipmentsService = createShipmentsService(
+  lazyRepository('shipments'),
+  lazyRepository('orders'),
+  configuredCarriers()
+);
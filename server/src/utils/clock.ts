@@ -0,0 +1,35 @@
+/**
+ * Injectable time source so time-based jobs (e.g. reservation expiry) can be
+ * driven deterministically in tests.
+ */
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export interface FakeClock extends Clock {
+  advance(ms: number): void;
+  set(date: Date): void;
+}
+
+/**
+ * Clock that only moves when told to
+ *
+ * @param start - Initial time (defaults to the real current time)
+ */
+export function createFakeClock(start: Date = new Date()): FakeClock {
+  let current = start.getTime();
+  return {
+    now: () => new Date(current),
+    advance(ms) {
+      current += ms;
+    },
+    set(date) {
+      current = date.getTime();
+    },
+  };
+}
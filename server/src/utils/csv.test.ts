@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { formatCsvRow, parseCsv } from './csv';
+
+describe('csv', () => {
+  it('keeps text cells from being run as spreadsheet formulas', () => {
+    const row = formatCsvRow(['=HYPERLINK("http://evil.test")', '+1', '-2', '@SUM(A1)', 'plain']);
+
+    expect(row).toBe(`"'=HYPERLINK(""http://evil.test"")",'+1,'-2,'@SUM(A1),plain\r\n`);
+  });
+
+  it('leaves numbers alone', () => {
+    expect(formatCsvRow([-3, 4.5])).toBe('-3,4.5\r\n');
+  });
+
+  it('reads escaped formulas back as written', () => {
+    const values = ['=1+1', '-dash', "'quoted", 'x'];
+
+    expect(parseCsv(formatCsvRow(values))).toEqual([{ line: 1, cells: values }]);
+  });
+});
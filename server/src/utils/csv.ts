@@ -0,0 +1,84 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing: quoted fields may contain commas,
+ * doubled quotes and line breaks; CRLF and LF line endings are both accepted.
+ *
+ * Text cells that a spreadsheet would run as a formula are written with a
+ * leading `'`, which reading takes off again.
+ */
+
+/** Cells starting with one of these are formulas to Excel, Sheets and LibreOffice */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/** Undo the `'` that `formatCell` put in front of a formula */
+function readCell(cell: string): string {
+  return cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+/**
+ * Split CSV text into rows of cells, each tagged with the line it starts on.
+ * Blank lines are skipped.
+ *
+ * @throws {Error} 400 when a quoted field is never closed
+ */
+export function parseCsv(text: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(readCell(cell));
+    if (cells.length > 1 || cells[0] !== '') rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(readCell(cell));
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) {
+    throw Object.assign(new Error(`Unterminated quoted field starting on line ${rowLine}`), {
+      status: 400,
+    });
+  }
+  endRow();
+  return rows;
+}
+
+function formatCell(value: unknown): string {
+  let text = value == null ? '' : String(value);
+  // Numbers are left alone so negative values stay numeric
+  if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One CSV line, CRLF-terminated as RFC 4180 specifies */
+export function formatCsvRow(values: unknown[]): string {
+  return `${values.map(formatCell).join(',')}\r\n`;
+}
@@ -0,0 +1,39 @@
+/**
+ * Opaque pagination cursors. A cursor is base64url JSON carrying a position
+ * plus a fingerprint of the query it belongs to, so a cursor replayed against
+ * a different sort or filter is rejected instead of returning a wrong page.
+ */
+
+import { createHash } from 'node:crypto';
+
+function fingerprint(scope: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(scope ?? null))
+    .digest('base64url')
+    .slice(0, 12);
+}
+
+export function encodeCursor(position: Record<string, unknown>, scope: unknown): string {
+  return Buffer.from(JSON.stringify({ ...position, s: fingerprint(scope) })).toString('base64url');
+}
+
+/**
+ * @throws {Error} 400 when the cursor is malformed or was issued for another query
+ */
+export function decodeCursor<T extends Record<string, unknown>>(cursor: string, scope: unknown): T {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    decoded = null;
+  }
+  if (
+    !decoded ||
+    typeof decoded !== 'object' ||
+    (decoded as { s?: unknown }).s !== fingerprint(scope)
+  ) {
+    throw Object.assign(new Error('Invalid or expired cursor for this query'), { status: 400 });
+  }
+  const { s: _s, ...position } = decoded as Record<string, unknown>;
+  return position as T;
+}
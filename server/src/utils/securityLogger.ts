@@ -8,14 +8,25 @@ import { monitoring } from './monitoring';
 
 export interface AuthFailureEvent {
   email: string;
-  reason: 'invalid_credentials' | 'account_locked' | 'token_expired' | 'token_revoked';
+  reason:
+    | 'invalid_credentials'
+    | 'invalid_two_factor_code'
+    | 'account_locked'
+    | 'ip_blocked'
+    | 'token_expired'
+    | 'token_revoked';
   ip?: string;
   userAgent?: string;
   correlationId?: string;
 }
 
 export interface SuspiciousActivityEvent {
-  type: 'rate_limit_hit' | 'invalid_token' | 'unauthorized_access' | 'file_upload_rejected';
+  type:
+    | 'rate_limit_hit'
+    | 'invalid_token'
+    | 'unauthorized_access'
+    | 'file_upload_rejected'
+    | 'credential_stuffing';
   userId?: string;
   email?: string;
   ip?: string;
@@ -25,7 +36,13 @@ export interface SuspiciousActivityEvent {
 }
 
 export interface SecurityEvent {
-  type: 'password_change' | 'tokens_revoked' | 'role_change' | 'account_deleted';
+  type:
+    | 'password_change'
+    | 'tokens_revoked'
+    | 'role_change'
+    | 'account_deleted'
+    | 'two_factor_enabled'
+    | 'two_factor_disabled';
   userId: string;
   performedBy?: string; // admin ID if done by admin
   details?: Record<string, any>;
@@ -67,7 +84,11 @@ export function logSuspiciousActivity(event: SuspiciousActivityEvent): void {
   // Forward to monitoring service for alerting dashboards
   // Determine severity level based on activity type
   const severity: 'warning' | 'error' =
-    event.type === 'unauthorized_access' || event.type === 'invalid_token' ? 'error' : 'warning';
+    event.type === 'unauthorized_access' ||
+    event.type === 'invalid_token' ||
+    event.type === 'credential_stuffing'
+      ? 'error'
+      : 'warning';
 
   monitoring.captureMessage(`Suspicious activity: ${event.type}`, severity, {
     category: 'security',
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { base32Decode, base32Encode, totpCode, totpStep, totpUri, verifyTotp } from './totp';
+
+// RFC 6238 appendix B, SHA-1 secret; the last six of its eight-digit codes
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+const RFC_VECTORS: Array<[number, string]> = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+];
+
+describe('totp', () => {
+  it('produces the RFC 6238 codes', () => {
+    for (const [seconds, code] of RFC_VECTORS) {
+      expect(totpCode(RFC_SECRET, totpStep(seconds * 1000))).toBe(code);
+    }
+  });
+
+  it('round-trips base32, ignoring case, spaces and padding', () => {
+    const bytes = Buffer.from('hello two factor');
+    const encoded = base32Encode(bytes);
+
+    expect(base32Decode(encoded)).toEqual(bytes);
+    expect(base32Decode(`${encoded.toLowerCase().replace(/(.{4})/g, '$1 ')}===`)).toEqual(bytes);
+    expect(() => base32Decode('NOT-BASE32')).toThrow('Invalid base32 character');
+  });
+
+  it('accepts codes one step either side of now and returns their step', () => {
+    const now = 1234567890 * 1000;
+    const step = totpStep(now);
+
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), { now })).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), { now })).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), { now })).toBeNull();
+  });
+
+  it('rejects codes that are not six digits', () => {
+    const now = 59 * 1000;
+
+    expect(verifyTotp(RFC_SECRET, '28708', { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '2870820', { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '28708x', { now })).toBeNull();
+  });
+
+  it('builds a provisioning URI authenticator apps understand', () => {
+    const uri = new URL(
+      totpUri({ secret: RFC_SECRET, account: 'ada@example.com', issuer: 'Shop' })
+    );
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/Shop:ada@example.com');
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'Shop',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});